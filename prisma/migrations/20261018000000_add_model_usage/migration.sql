@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "model_usage" (
+    "id" TEXT NOT NULL,
+    "fundId" TEXT,
+    "jobId" TEXT,
+    "assessmentId" TEXT,
+    "runId" TEXT,
+    "moduleType" "ModuleType",
+    "task" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "estimatedCost" DECIMAL(12,6) NOT NULL DEFAULT 0,
+    "durationMs" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "model_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "model_usage_fundId_idx" ON "model_usage"("fundId");
+
+-- CreateIndex
+CREATE INDEX "model_usage_jobId_idx" ON "model_usage"("jobId");
+
+-- CreateIndex
+CREATE INDEX "model_usage_assessmentId_idx" ON "model_usage"("assessmentId");
+
+-- CreateIndex
+CREATE INDEX "model_usage_runId_idx" ON "model_usage"("runId");
+
+-- CreateIndex
+CREATE INDEX "model_usage_moduleType_idx" ON "model_usage"("moduleType");
+
+-- CreateIndex
+CREATE INDEX "model_usage_createdAt_idx" ON "model_usage"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "model_usage" ADD CONSTRAINT "model_usage_fundId_fkey" FOREIGN KEY ("fundId") REFERENCES "funds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "model_usage" ADD CONSTRAINT "model_usage_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "background_jobs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "model_usage" ADD CONSTRAINT "model_usage_assessmentId_fkey" FOREIGN KEY ("assessmentId") REFERENCES "assessments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
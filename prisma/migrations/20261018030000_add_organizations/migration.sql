@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizations_slug_key" ON "organizations"("slug");
+
+-- Existing data belongs to the default organization
+INSERT INTO "organizations" ("id", "name", "slug", "updatedAt")
+VALUES ('00000000-0000-0000-0000-000000000001', 'Default Organization', 'default', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "funds" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "assessments" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "background_jobs" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "fund_documents" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "model_usage" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "users" ADD COLUMN "organizationId" TEXT;
+
+-- Backfill
+UPDATE "funds" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+UPDATE "assessments" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+UPDATE "background_jobs" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+UPDATE "fund_documents" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+UPDATE "model_usage" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+UPDATE "users" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+
+ALTER TABLE "users" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "funds_organizationId_idx" ON "funds"("organizationId");
+CREATE INDEX "assessments_organizationId_idx" ON "assessments"("organizationId");
+CREATE INDEX "background_jobs_organizationId_idx" ON "background_jobs"("organizationId");
+CREATE INDEX "fund_documents_organizationId_idx" ON "fund_documents"("organizationId");
+CREATE INDEX "model_usage_organizationId_idx" ON "model_usage"("organizationId");
+CREATE INDEX "users_organizationId_idx" ON "users"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "funds" ADD CONSTRAINT "funds_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "assessments" ADD CONSTRAINT "assessments_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "background_jobs" ADD CONSTRAINT "background_jobs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "fund_documents" ADD CONSTRAINT "fund_documents_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "model_usage" ADD CONSTRAINT "model_usage_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "users" ADD CONSTRAINT "users_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Rows created by background jobs (no request tenant) and nested writes inherit
+-- their fund's organization
+CREATE OR REPLACE FUNCTION "inherit_fund_organization"() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW."organizationId" IS NULL AND NEW."fundId" IS NOT NULL THEN
+        SELECT "organizationId" INTO NEW."organizationId" FROM "funds" WHERE "id" = NEW."fundId";
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "assessments_inherit_organization" BEFORE INSERT ON "assessments"
+    FOR EACH ROW EXECUTE FUNCTION "inherit_fund_organization"();
+CREATE TRIGGER "background_jobs_inherit_organization" BEFORE INSERT ON "background_jobs"
+    FOR EACH ROW EXECUTE FUNCTION "inherit_fund_organization"();
+CREATE TRIGGER "fund_documents_inherit_organization" BEFORE INSERT ON "fund_documents"
+    FOR EACH ROW EXECUTE FUNCTION "inherit_fund_organization"();
+CREATE TRIGGER "model_usage_inherit_organization" BEFORE INSERT ON "model_usage"
+    FOR EACH ROW EXECUTE FUNCTION "inherit_fund_organization"();
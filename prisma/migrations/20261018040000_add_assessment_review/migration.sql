@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('NOT_REQUIRED', 'PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "ReviewAction" AS ENUM ('CREATED', 'SCORE_OVERRIDE', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "assessments" ADD COLUMN "aiScore" DECIMAL(5,2),
+ADD COLUMN "aiCriteriaScores" JSONB,
+ADD COLUMN "criteriaScores" JSONB,
+ADD COLUMN "confidence" DECIMAL(4,3),
+ADD COLUMN "flagForReview" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "reviewStatus" "ReviewStatus" NOT NULL DEFAULT 'NOT_REQUIRED',
+ADD COLUMN "reviewedBy" TEXT,
+ADD COLUMN "reviewedAt" TIMESTAMP(3);
+
+-- Existing scores are the AI's own
+UPDATE "assessments" SET "aiScore" = "overallScore";
+
+-- CreateTable
+CREATE TABLE "assessment_revisions" (
+    "id" TEXT NOT NULL,
+    "assessmentId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "action" "ReviewAction" NOT NULL,
+    "criterion" TEXT,
+    "previousScore" DECIMAL(5,2),
+    "newScore" DECIMAL(5,2),
+    "overallScore" DECIMAL(5,2),
+    "criteriaScores" JSONB,
+    "justification" TEXT,
+    "reviewerId" TEXT,
+    "reviewerName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "assessment_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "assessments_reviewStatus_idx" ON "assessments"("reviewStatus");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assessment_revisions_assessmentId_revision_key" ON "assessment_revisions"("assessmentId", "revision");
+
+-- CreateIndex
+CREATE INDEX "assessment_revisions_assessmentId_idx" ON "assessment_revisions"("assessmentId");
+
+-- AddForeignKey
+ALTER TABLE "assessment_revisions" ADD CONSTRAINT "assessment_revisions_assessmentId_fkey" FOREIGN KEY ("assessmentId") REFERENCES "assessments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Revisions are append-only
+CREATE OR REPLACE FUNCTION "prevent_revision_update"() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'assessment_revisions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "assessment_revisions_immutable" BEFORE UPDATE ON "assessment_revisions"
+    FOR EACH ROW EXECUTE FUNCTION "prevent_revision_update"();
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "ModerationStatus" AS ENUM ('NOT_REQUIRED', 'REQUIRED', 'MODERATED');
+
+-- AlterEnum
+ALTER TYPE "ReviewAction" ADD VALUE 'MODERATED' BEFORE 'APPROVED';
+
+-- AlterTable
+ALTER TABLE "assessments" ADD COLUMN "moderationStatus" "ModerationStatus" NOT NULL DEFAULT 'NOT_REQUIRED';
+
+-- CreateTable
+CREATE TABLE "assessor_scores" (
+    "id" TEXT NOT NULL,
+    "assessmentId" TEXT NOT NULL,
+    "assessorId" TEXT NOT NULL,
+    "assessorName" TEXT NOT NULL,
+    "criteriaScores" JSONB NOT NULL,
+    "overallScore" DECIMAL(5,2),
+    "comments" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "assessor_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "assessment_moderations" (
+    "id" TEXT NOT NULL,
+    "assessmentId" TEXT NOT NULL,
+    "consensusScore" DECIMAL(5,2) NOT NULL,
+    "consensusCriteria" JSONB NOT NULL,
+    "contributingScores" JSONB NOT NULL,
+    "agreement" JSONB NOT NULL,
+    "justification" TEXT,
+    "moderatorId" TEXT NOT NULL,
+    "moderatorName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "assessment_moderations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "assessments_moderationStatus_idx" ON "assessments"("moderationStatus");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assessor_scores_assessmentId_assessorId_key" ON "assessor_scores"("assessmentId", "assessorId");
+
+-- CreateIndex
+CREATE INDEX "assessor_scores_assessmentId_idx" ON "assessor_scores"("assessmentId");
+
+-- CreateIndex
+CREATE INDEX "assessment_moderations_assessmentId_idx" ON "assessment_moderations"("assessmentId");
+
+-- AddForeignKey
+ALTER TABLE "assessor_scores" ADD CONSTRAINT "assessor_scores_assessmentId_fkey" FOREIGN KEY ("assessmentId") REFERENCES "assessments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assessment_moderations" ADD CONSTRAINT "assessment_moderations_assessmentId_fkey" FOREIGN KEY ("assessmentId") REFERENCES "assessments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
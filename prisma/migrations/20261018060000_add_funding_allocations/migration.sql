@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "funding_allocations" (
+    "id" TEXT NOT NULL,
+    "fundId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "budget" DECIMAL(14,2) NOT NULL,
+    "weights" JSONB NOT NULL,
+    "quotas" JSONB NOT NULL,
+    "minimumScore" DECIMAL(5,2),
+    "result" JSONB NOT NULL,
+    "fundedCount" INTEGER NOT NULL,
+    "fundedAmount" DECIMAL(14,2) NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "organizationId" TEXT,
+
+    CONSTRAINT "funding_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "funding_allocations_fundId_idx" ON "funding_allocations"("fundId");
+
+-- CreateIndex
+CREATE INDEX "funding_allocations_organizationId_idx" ON "funding_allocations"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "funding_allocations" ADD CONSTRAINT "funding_allocations_fundId_fkey" FOREIGN KEY ("fundId") REFERENCES "funds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "funding_allocations" ADD CONSTRAINT "funding_allocations_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TRIGGER "funding_allocations_inherit_organization" BEFORE INSERT ON "funding_allocations"
+    FOR EACH ROW EXECUTE FUNCTION "inherit_fund_organization"();
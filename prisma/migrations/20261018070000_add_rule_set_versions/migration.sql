@@ -0,0 +1,105 @@
+-- CreateEnum
+CREATE TYPE "RuleCategory" AS ENUM ('PROCUREMENT', 'CATHLAB');
+
+-- CreateEnum
+CREATE TYPE "RulePriority" AS ENUM ('CRITICAL', 'HIGH', 'IMPORTANT', 'INFO');
+
+-- CreateEnum
+CREATE TYPE "RuleSetStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "assessments" ADD COLUMN "ruleSetVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "rule_set_versions" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "notes" TEXT,
+    "status" "RuleSetStatus" NOT NULL DEFAULT 'DRAFT',
+    "effectiveFrom" TIMESTAMP(3),
+    "basedOnId" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "publishedBy" TEXT,
+    "publishedAt" TIMESTAMP(3),
+    "organizationId" TEXT,
+
+    CONSTRAINT "rule_set_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rule_set_sections" (
+    "id" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "category" "RuleCategory" NOT NULL,
+    "key" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "priority" "RulePriority" NOT NULL,
+    "isInfoSection" BOOLEAN NOT NULL DEFAULT false,
+    "content" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "rule_set_sections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rule_set_rules" (
+    "id" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "sectionId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "requirements" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "source" TEXT NOT NULL,
+    "citation" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "rule_set_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "assessments_ruleSetVersionId_idx" ON "assessments"("ruleSetVersionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rule_set_versions_organizationId_version_key" ON "rule_set_versions"("organizationId", "version");
+
+-- CreateIndex
+CREATE INDEX "rule_set_versions_organizationId_idx" ON "rule_set_versions"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "rule_set_versions_status_effectiveFrom_idx" ON "rule_set_versions"("status", "effectiveFrom");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rule_set_sections_versionId_key_key" ON "rule_set_sections"("versionId", "key");
+
+-- CreateIndex
+CREATE INDEX "rule_set_sections_versionId_idx" ON "rule_set_sections"("versionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rule_set_rules_versionId_code_key" ON "rule_set_rules"("versionId", "code");
+
+-- CreateIndex
+CREATE INDEX "rule_set_rules_sectionId_idx" ON "rule_set_rules"("sectionId");
+
+-- CreateIndex
+CREATE INDEX "rule_set_rules_versionId_idx" ON "rule_set_rules"("versionId");
+
+-- AddForeignKey
+ALTER TABLE "assessments" ADD CONSTRAINT "assessments_ruleSetVersionId_fkey" FOREIGN KEY ("ruleSetVersionId") REFERENCES "rule_set_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rule_set_versions" ADD CONSTRAINT "rule_set_versions_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rule_set_sections" ADD CONSTRAINT "rule_set_sections_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "rule_set_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rule_set_rules" ADD CONSTRAINT "rule_set_rules_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "rule_set_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rule_set_rules" ADD CONSTRAINT "rule_set_rules_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "rule_set_sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
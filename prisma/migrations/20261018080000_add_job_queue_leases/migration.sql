@@ -0,0 +1,17 @@
+-- AlterEnum
+ALTER TYPE "JobStatus" ADD VALUE 'CANCELLED';
+ALTER TYPE "JobStatus" ADD VALUE 'DEAD_LETTER';
+
+-- AlterTable
+ALTER TABLE "background_jobs" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "leaseOwner" TEXT,
+ADD COLUMN "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN "heartbeatAt" TIMESTAMP(3);
+
+-- Jobs already running count as one attempt
+UPDATE "background_jobs" SET "attempts" = 1 WHERE "status" <> 'PENDING';
+
+-- CreateIndex
+CREATE INDEX "background_jobs_status_runAt_idx" ON "background_jobs"("status", "runAt");
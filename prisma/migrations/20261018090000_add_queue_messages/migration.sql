@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "queue_messages" (
+    "id" TEXT NOT NULL,
+    "queue" TEXT NOT NULL,
+    "body" JSONB NOT NULL,
+    "receiveCount" INTEGER NOT NULL DEFAULT 0,
+    "visibleAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "queue_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "queue_messages_queue_visibleAt_idx" ON "queue_messages"("queue", "visibleAt");
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "JobStepStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "job_steps" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "label" TEXT,
+    "dependsOn" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "status" "JobStepStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "output" JSONB,
+    "errorMessage" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_steps_jobId_idx" ON "job_steps"("jobId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_steps_jobId_name_key" ON "job_steps"("jobId", "name");
+
+-- AddForeignKey
+ALTER TABLE "job_steps" ADD CONSTRAINT "job_steps_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "background_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
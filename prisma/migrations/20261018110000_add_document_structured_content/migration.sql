@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "fund_documents" ADD COLUMN "structuredContent" JSONB;
@@ -0,0 +1,19 @@
+-- Rows keep inheriting their fund's organization, and may no longer name a
+-- different one: an assessment, job, document, usage record or allocation of
+-- one organization can't point at another organization's fund
+CREATE OR REPLACE FUNCTION "inherit_fund_organization"() RETURNS TRIGGER AS $$
+DECLARE
+    fund_organization TEXT;
+BEGIN
+    IF NEW."fundId" IS NOT NULL THEN
+        SELECT "organizationId" INTO fund_organization FROM "funds" WHERE "id" = NEW."fundId";
+        IF NEW."organizationId" IS NULL THEN
+            NEW."organizationId" := fund_organization;
+        ELSIF fund_organization IS NOT NULL AND NEW."organizationId" <> fund_organization THEN
+            RAISE EXCEPTION '% row belongs to organization % but fund % belongs to organization %',
+                TG_TABLE_NAME, NEW."organizationId", NEW."fundId", fund_organization;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
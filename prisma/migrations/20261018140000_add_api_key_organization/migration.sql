@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "api_keys" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "api_keys" ADD COLUMN "platformWide" BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing keys are this deployment's own service keys (INTERNAL_API_KEY, the
+-- Textract poller), which act across organisations. Rotate any that should be
+-- limited to one organisation.
+UPDATE "api_keys" SET "platformWide" = true;
+
+-- A key either belongs to an organisation or is explicitly platform-wide
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_organization_check"
+    CHECK ("platformWide" OR "organizationId" IS NOT NULL);
+
+-- CreateIndex
+CREATE INDEX "api_keys_organizationId_idx" ON "api_keys"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+#!/usr/bin/env tsx
+/**
+ * Script to create a scoped service API key
+ * Usage: npx tsx scripts/create-api-key.ts <name> <scope[,scope]> <organizationId|--platform-wide>
+ * Example: npx tsx scripts/create-api-key.ts textract-poller textract:poll --platform-wide
+ *          npx tsx scripts/create-api-key.ts internal jobs:process,brain:assemble --platform-wide
+ *          npx tsx scripts/create-api-key.ts acme-sync jobs:process 00000000-0000-0000-0000-000000000001
+ *
+ * Organisation keys only reach that organisation's data. This app's own services
+ * (INTERNAL_API_KEY, the Textract poller) need a platform-wide key.
+ * The raw key is printed once - store it (e.g. as INTERNAL_API_KEY) straight away.
+ */
+
+import { prisma } from '../src/lib/database-s3';
+import { createApiKey } from '../src/lib/api-keys';
+import { API_KEY_SCOPES } from '../src/lib/rbac';
+
+async function main() {
+  const [name, scopesArg, owner] = process.argv.slice(2);
+
+  if (!name || !scopesArg || !owner) {
+    console.error('Usage: npx tsx scripts/create-api-key.ts <name> <scope[,scope]> <organizationId|--platform-wide>');
+    console.error('Available scopes:', API_KEY_SCOPES.join(', '));
+    process.exit(1);
+  }
+
+  try {
+    const scopes = scopesArg.split(',').map(scope => scope.trim()).filter(Boolean);
+    const platformWide = owner === '--platform-wide';
+    const { apiKey, rawKey } = await createApiKey({
+      name,
+      scopes,
+      organizationId: platformWide ? null : owner,
+      platformWide,
+      createdBy: 'cli',
+    });
+
+    console.log('✅ API key created successfully!');
+    console.log('   ID:', apiKey.id);
+    console.log('   Name:', apiKey.name);
+    console.log('   Scopes:', apiKey.scopes.join(', '));
+    console.log('   Organization:', apiKey.platformWide ? '(platform-wide)' : apiKey.organizationId);
+    console.log('   Key:', rawKey);
+    console.log('⚠️  This key will not be shown again.');
+  } catch (error) {
+    console.error('❌ Error creating API key:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
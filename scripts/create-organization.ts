@@ -0,0 +1,52 @@
+#!/usr/bin/env tsx
+/**
+ * Script to create an organisation (tenant) and its first admin user
+ * Usage: npx tsx scripts/create-organization.ts <slug> <name> <admin-username> <admin-password>
+ * Example: npx tsx scripts/create-organization.ts acme "Acme Foundation" acme-admin s3cret
+ */
+
+import { prisma } from '../src/lib/database-s3';
+import { hashPassword } from '../src/lib/auth';
+
+async function createOrganization() {
+  const [slug, name, adminUsername, adminPassword] = process.argv.slice(2);
+
+  if (!slug || !name || !adminUsername || !adminPassword) {
+    console.error('Usage: npx tsx scripts/create-organization.ts <slug> <name> <admin-username> <admin-password>');
+    process.exit(1);
+  }
+
+  try {
+    const existing = await prisma.organizations.findUnique({ where: { slug } });
+    if (existing) {
+      console.error(`❌ Organization already exists: ${slug}`);
+      process.exit(1);
+    }
+
+    const organization = await prisma.organizations.create({
+      data: {
+        slug,
+        name,
+        users: {
+          create: {
+            username: adminUsername,
+            passwordHash: await hashPassword(adminPassword),
+            roles: ['ADMIN'],
+          }
+        }
+      }
+    });
+
+    console.log('✅ Organization created successfully!');
+    console.log('   ID:', organization.id);
+    console.log('   Name:', organization.name);
+    console.log('   Admin:', adminUsername);
+  } catch (error) {
+    console.error('❌ Error creating organization:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+createOrganization();
@@ -0,0 +1,60 @@
+#!/usr/bin/env tsx
+/**
+ * Script to create (or reset) a user account with roles and module grants
+ * Usage: npx tsx scripts/create-user.ts <username> <password> <ROLE[,ROLE]> [MODULE[,MODULE]] [organization-slug]
+ * Example: npx tsx scripts/create-user.ts jane s3cret ASSESSOR PROCUREMENT,PROCUREMENT_ADMIN acme
+ *
+ * Users are created in the `default` organisation unless a slug is given.
+ */
+
+import { prisma } from '../src/lib/database-s3';
+import { hashPassword } from '../src/lib/auth';
+import { isModuleName, isUserRole } from '../src/lib/rbac';
+import { ModuleType, UserRole } from '@prisma/client';
+
+async function createUser() {
+  const [username, password, rolesArg, modulesArg = '', organizationSlug = 'default'] = process.argv.slice(2);
+
+  if (!username || !password || !rolesArg) {
+    console.error('Usage: npx tsx scripts/create-user.ts <username> <password> <ROLE[,ROLE]> [MODULE[,MODULE]] [organization-slug]');
+    process.exit(1);
+  }
+
+  const roles = rolesArg.split(',').map(role => role.trim()).filter(Boolean);
+  const modules = modulesArg.split(',').map(module => module.trim()).filter(Boolean);
+
+  const invalidRoles = roles.filter(role => !isUserRole(role));
+  const invalidModules = modules.filter(module => !isModuleName(module));
+  if (invalidRoles.length > 0 || invalidModules.length > 0) {
+    console.error('❌ Invalid roles or modules:', [...invalidRoles, ...invalidModules].join(', '));
+    process.exit(1);
+  }
+
+  try {
+    const organization = await prisma.organizations.findUnique({ where: { slug: organizationSlug } });
+    if (!organization) {
+      console.error(`❌ Organization not found: ${organizationSlug}`);
+      process.exit(1);
+    }
+
+    const passwordHash = await hashPassword(password);
+    const user = await prisma.users.upsert({
+      where: { username },
+      create: { username, passwordHash, roles: roles as UserRole[], modules: modules as ModuleType[], organizationId: organization.id },
+      update: { passwordHash, roles: roles as UserRole[], modules: modules as ModuleType[], active: true },
+    });
+
+    console.log('✅ User saved successfully!');
+    console.log('   Username:', user.username);
+    console.log('   Organization:', organization.name);
+    console.log('   Roles:', user.roles.join(', '));
+    console.log('   Modules:', user.modules.length > 0 ? user.modules.join(', ') : '(none)');
+  } catch (error) {
+    console.error('❌ Error saving user:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+createUser();
@@ -0,0 +1,68 @@
+#!/usr/bin/env tsx
+/**
+ * Convert the [placeholder] output templates saved in funds.outputTemplatesAnalysis
+ * to template syntax (template-engine.ts). The original template text is kept in
+ * rawTemplateContent; the converted source is saved as `template`. Placeholders
+ * without a template equivalent are listed so the template can be edited by hand.
+ * Runs as a dry run unless --apply is given.
+ * Usage: npx tsx scripts/migrate-output-templates.ts [--apply] [fundId]
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../src/lib/database-s3';
+import { TEMPLATE_VERSION, upgradeOutputTemplate } from '../src/lib/template-engine';
+
+async function migrateOutputTemplates() {
+  const args = process.argv.slice(2);
+  const apply = args.includes('--apply');
+  const fundId = args.find(arg => !arg.startsWith('--'));
+
+  try {
+    const funds = await prisma.funds.findMany({
+      where: {
+        outputTemplatesAnalysis: { not: Prisma.DbNull },
+        ...(fundId ? { id: fundId } : {})
+      },
+      select: { id: true, name: true, outputTemplatesAnalysis: true }
+    });
+
+    console.log(`📋 ${funds.length} fund(s) with an output template${apply ? '' : ' (dry run - pass --apply to save)'}`);
+    let converted = 0;
+
+    for (const fund of funds) {
+      const analysis = fund.outputTemplatesAnalysis as any;
+      if (!analysis?.rawTemplateContent) {
+        console.log(`⏭️ ${fund.name}: no template text`);
+        continue;
+      }
+      if (analysis.templateVersion === TEMPLATE_VERSION && analysis.template) {
+        console.log(`✅ ${fund.name}: already converted`);
+        continue;
+      }
+
+      const upgraded = upgradeOutputTemplate(analysis);
+      if (upgraded.templateError) {
+        console.error(`❌ ${fund.name}: ${upgraded.templateError}`);
+        continue;
+      }
+
+      console.log(`🔧 ${fund.name}: ${upgraded.unmappedPlaceholders.length ? `left as written: ${upgraded.unmappedPlaceholders.join(', ')}` : 'all placeholders converted'}`);
+      if (apply) {
+        await prisma.funds.update({
+          where: { id: fund.id },
+          data: { outputTemplatesAnalysis: upgraded }
+        });
+      }
+      converted++;
+    }
+
+    console.log(`✅ ${apply ? 'Converted' : 'Would convert'} ${converted} template(s)`);
+  } catch (error) {
+    console.error('❌ Error migrating output templates:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+migrateOutputTemplates();
@@ -0,0 +1,44 @@
+#!/usr/bin/env tsx
+/**
+ * Consume the configured message queue outside the web server, e.g. as a
+ * dedicated worker. With --once, handles the waiting messages and exits.
+ * Usage: npx tsx scripts/queue-consumer.ts [--once]
+ */
+
+import { prisma } from '../src/lib/database-s3';
+import { getMessageQueueBackend } from '../src/lib/message-queue';
+import { queueConsumer } from '../src/lib/queue-consumer';
+
+async function consumeQueue() {
+  const once = process.argv.includes('--once');
+
+  try {
+    if (once) {
+      let handled = 0;
+      let received: number;
+      do {
+        received = await queueConsumer.runOnce(0);
+        handled += received;
+      } while (received > 0);
+      console.log(`✅ Handled ${handled} message(s) from the ${getMessageQueueBackend()} queue`);
+      return;
+    }
+
+    const stop = () => {
+      console.log('🛑 Stopping queue consumer...');
+      queueConsumer.stop();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    queueConsumer.start();
+    await queueConsumer.stopped();
+  } catch (error) {
+    console.error('❌ Error consuming queue:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+consumeQueue();
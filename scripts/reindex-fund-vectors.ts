@@ -0,0 +1,57 @@
+#!/usr/bin/env tsx
+/**
+ * Move a fund's document vectors into the index of its current module, e.g.
+ * after the fund's moduleType was changed. Without a source module every other
+ * module's index is checked for the fund's vectors.
+ * Usage: npx tsx scripts/reindex-fund-vectors.ts <fundId> [fromModuleType]
+ */
+
+import { ModuleType } from '@prisma/client';
+import { prisma } from '../src/lib/database-s3';
+import { getIndexName } from '../src/lib/aws-opensearch';
+import { reindexFundVectors } from '../src/lib/vector-store';
+
+async function reindexFund() {
+  const [fundId, from] = process.argv.slice(2);
+
+  if (!fundId) {
+    console.error('Usage: npx tsx scripts/reindex-fund-vectors.ts <fundId> [fromModuleType]');
+    process.exit(1);
+  }
+
+  if (from && !(from in ModuleType)) {
+    console.error(`❌ Unknown module type "${from}". Expected one of: ${Object.values(ModuleType).join(', ')}`);
+    process.exit(1);
+  }
+
+  try {
+    const fund = await prisma.funds.findUnique({
+      where: { id: fundId },
+      select: { id: true, name: true, moduleType: true }
+    });
+
+    if (!fund) {
+      console.error('❌ Fund not found with ID:', fundId);
+      process.exit(1);
+    }
+
+    console.log(`📋 ${fund.name} (${fund.moduleType}) -> ${getIndexName(fund.moduleType)}`);
+
+    const results = await reindexFundVectors(fund.id, fund.moduleType, from as ModuleType | undefined);
+
+    if (results.length === 0) {
+      console.log('✅ Nothing to move: no vectors for this fund outside its module index');
+    } else {
+      for (const result of results) {
+        console.log(`✅ Moved ${result.moved} vectors from ${getIndexName(result.from)}`);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Error reindexing fund vectors:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+reindexFund();
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { rotateApiKey } from '@/lib/api-keys';
+
+/**
+ * Rotate a service API key (admin only)
+ *
+ * Body: { graceSeconds?: number } - how long the old key keeps working (default 0)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { keyId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const graceSeconds = Number(body.graceSeconds ?? 0);
+
+    const { apiKey, rawKey } = await rotateApiKey(keyId, {
+      graceSeconds: Number.isFinite(graceSeconds) ? graceSeconds : 0,
+      rotatedBy: auth.user.username,
+    });
+
+    return NextResponse.json({ success: true, apiKey, key: rawKey });
+  } catch (error) {
+    console.error('❌ Error rotating API key:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({
+      error: 'Failed to rotate API key',
+      details: message
+    }, { status: message.includes('not found or already revoked') ? 404 : 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { revokeApiKey } from '@/lib/api-keys';
+import { prisma } from '@/lib/database-s3';
+
+/**
+ * Revoke a service API key (admin only). Revoked keys are kept for auditing.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { keyId } = await params;
+
+    const existing = await prisma.api_keys.findUnique({ where: { id: keyId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    const apiKey = await revokeApiKey(keyId);
+
+    return NextResponse.json({ success: true, apiKey, message: 'API key revoked' });
+  } catch (error) {
+    console.error('❌ Error revoking API key:', error);
+    return NextResponse.json({
+      error: 'Failed to revoke API key',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { createApiKey, listApiKeys } from '@/lib/api-keys';
+import { API_KEY_SCOPES } from '@/lib/rbac';
+
+/**
+ * List the organisation's service API keys (admin only). Raw keys are never returned here.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const apiKeys = await listApiKeys();
+    return NextResponse.json({ success: true, apiKeys, availableScopes: API_KEY_SCOPES });
+  } catch (error) {
+    console.error('❌ Error fetching API keys:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch API keys',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Create a service API key for the admin's organisation (admin only). The raw key
+ * is only returned in this response.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { name, scopes, expiresAt } = await request.json();
+
+    if (!name || !Array.isArray(scopes)) {
+      return NextResponse.json({
+        error: 'Missing required fields: name, scopes'
+      }, { status: 400 });
+    }
+
+    const { apiKey, rawKey } = await createApiKey({
+      name,
+      scopes,
+      organizationId: auth.user.organizationId,
+      createdBy: auth.user.username,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    });
+
+    return NextResponse.json({ success: true, apiKey, key: rawKey });
+  } catch (error) {
+    console.error('❌ Error creating API key:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({
+      error: 'Failed to create API key',
+      details: message
+    }, { status: message.startsWith('Invalid API key scopes') ? 400 : 500 });
+  }
+}
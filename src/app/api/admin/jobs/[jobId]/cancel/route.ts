@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database-s3';
+import { cancelJob } from '@/lib/job-queue';
+
+/**
+ * Cancel a pending or running job (admin only). A running worker stops at its
+ * next heartbeat.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { jobId } = await params;
+    const { reason } = await request.json().catch(() => ({}));
+
+    const existing = await prisma.background_jobs.findUnique({ where: { id: jobId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const job = await cancelJob(jobId, reason || `Cancelled by ${auth.user.username}`);
+    if (!job) {
+      return NextResponse.json({
+        error: 'Job cannot be cancelled',
+        details: `Only PENDING or PROCESSING jobs can be cancelled (current: ${existing.status})`
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, job, message: 'Job cancelled' });
+  } catch (error) {
+    console.error('❌ Error cancelling job:', error);
+    return NextResponse.json({
+      error: 'Failed to cancel job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobStatus } from '@prisma/client';
+import { requireAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database-s3';
+import { requeueJob } from '@/lib/job-queue';
+import { clearJobSteps } from '@/lib/job-steps';
+
+const REQUEUEABLE: JobStatus[] = ['FAILED', 'DEAD_LETTER', 'CANCELLED'];
+
+/**
+ * Put a failed, dead-lettered or cancelled job back in the queue (admin only).
+ * Attempts restart from zero unless the body has `keepAttempts: true`. The job
+ * resumes after its last completed step; `restart: true` discards the checkpoints.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { jobId } = await params;
+    const { keepAttempts = false, restart = false } = await request.json().catch(() => ({}));
+
+    const existing = await prisma.background_jobs.findUnique({ where: { id: jobId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    // Checkpoints are cleared before the job is queued so no worker resumes from them
+    if (restart && REQUEUEABLE.includes(existing.status)) {
+      const cleared = await clearJobSteps(jobId);
+      console.log(`🧹 Cleared ${cleared} step checkpoint(s) of job ${jobId}`);
+    }
+
+    const job = await requeueJob(jobId, { keepAttempts });
+    if (!job) {
+      return NextResponse.json({
+        error: 'Job cannot be requeued',
+        details: `Only FAILED, DEAD_LETTER or CANCELLED jobs can be requeued (current: ${existing.status})`
+      }, { status: 409 });
+    }
+
+    console.log(`🔄 ${auth.user.username} requeued job ${jobId}`);
+    return NextResponse.json({ success: true, job, message: 'Job requeued' });
+  } catch (error) {
+    console.error('❌ Error requeuing job:', error);
+    return NextResponse.json({
+      error: 'Failed to requeue job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
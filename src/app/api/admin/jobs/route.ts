@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobStatus, JobType } from '@prisma/client';
+import { requireAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database-s3';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * List background jobs for queue administration (admin only), newest first.
+ * Filters: ?status=DEAD_LETTER,FAILED&type=RAG_PROCESSING&fundId=...&limit=50
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const statuses = (searchParams.get('status') || '').split(',').filter(Boolean);
+    const type = searchParams.get('type');
+    const fundId = searchParams.get('fundId');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, MAX_LIMIT);
+
+    const invalidStatus = statuses.find(status => !(status in JobStatus));
+    if (invalidStatus || (type && !(type in JobType))) {
+      return NextResponse.json({
+        error: 'Invalid filter',
+        details: invalidStatus ? `Unknown status ${invalidStatus}` : `Unknown type ${type}`
+      }, { status: 400 });
+    }
+
+    const where = {
+      ...(statuses.length > 0 && { status: { in: statuses as JobStatus[] } }),
+      ...(type && { type: type as JobType }),
+      ...(fundId && { fundId }),
+    };
+
+    const [jobs, counts] = await Promise.all([
+      prisma.background_jobs.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: {
+          id: true,
+          fundId: true,
+          type: true,
+          status: true,
+          moduleType: true,
+          progress: true,
+          attempts: true,
+          maxAttempts: true,
+          runAt: true,
+          leaseOwner: true,
+          leaseExpiresAt: true,
+          heartbeatAt: true,
+          errorMessage: true,
+          createdAt: true,
+          startedAt: true,
+          completedAt: true,
+          funds: { select: { name: true } },
+        },
+      }),
+      prisma.background_jobs.groupBy({ by: ['status'], _count: { _all: true } }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+      counts: Object.fromEntries(counts.map(count => [count.status, count._count._all])),
+    });
+  } catch (error) {
+    console.error('❌ Error listing background jobs:', error);
+    return NextResponse.json({
+      error: 'Failed to list background jobs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -4,13 +4,20 @@
  * This route uses the new two-stage architecture:
  * 1. AI Assessment: Focused Claude prompts for scoring and evaluation
  * 2. Template Processing: Deterministic mapping without Claude involvement
+ *
+ * The uploaded application is kept in S3 and its page layout passed to the
+ * engine, so evidence quotes can be shown in the original document.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/database-s3';
+import { prisma, uploadFileToS3 } from '@/lib/database-s3';
 import { extractTextFromFile } from '@/utils/server-document-analyzer';
+import { extractReportPages, joinPages, SOURCE_DOCUMENT_FOLDER, SourceDocument, SourceText } from '@/lib/document-evidence';
 import { assessmentEngine, FundBrain } from '@/lib/assessment-engine';
 import { templateEngine } from '@/lib/template-engine';
+import { withUsageContext } from '@/lib/usage-tracker';
+import { requireAuth } from '@/lib/auth';
+import crypto from 'crypto';
 
 interface RouteParams {
   params: Promise<{
@@ -33,6 +40,20 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }, { status: 400 });
     }
 
+    // Check the caller may assess in this fund's module before reading the upload
+    const fundModule = await prisma.funds.findUnique({
+      where: { id: fundId },
+      select: { moduleType: true }
+    });
+    if (!fundModule) {
+      return NextResponse.json({
+        error: 'Fund not found'
+      }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'assess', fundModule.moduleType);
+    if (!auth.authorized) return auth.response;
+
     // Parse the form data to get the uploaded file
     const formData = await request.formData();
     const file = formData.get('application') as File;
@@ -55,19 +76,25 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Extract document content
     console.log(`📄 Extracting content from: ${file.name}`);
-    const documentContent = await extractDocumentContent(file);
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const source = await extractDocumentContent(file, buffer);
+    const sourceDocument = await storeSourceDocument(file, buffer);
 
     // Convert fund brain to assessment engine format
     const fundBrain = convertToFundBrain(fund.data);
 
     // Stage 1: AI Assessment
     console.log(`🧠 Stage 1: AI Assessment with ${fundBrain.criteria.length} criteria`);
-    const assessmentResult = await assessmentEngine.assessApplication(
-      documentContent,
-      file.name,
-      fundBrain,
-      fundId,
-      fund.data.outputTemplatesAnalysis?.placeholders || []
+    const usageRunId = crypto.randomUUID();
+    const assessmentResult = await withUsageContext({ fundId, runId: usageRunId }, () =>
+      assessmentEngine.assessApplication(
+        source.text,
+        file.name,
+        fundBrain,
+        fundId,
+        fund.data.outputTemplatesAnalysis?.placeholders || [],
+        source.pages
+      )
     );
 
     if (!assessmentResult.success) {
@@ -87,7 +114,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       console.log(`🎨 Stage 2: Template Processing`);
       templateResult = await templateEngine.applyTemplate(
         assessment,
-        fund.data.outputTemplatesAnalysis
+        fund.data.outputTemplatesAnalysis,
+        { criteria: fundBrain.criteria }
       );
 
       if (!templateResult.success) {
@@ -98,7 +126,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       templateResult = await templateEngine.applyTemplate(assessment, {
         useRawTemplate: false,
         filename: 'Standard Assessment Template'
-      });
+      }, { criteria: fundBrain.criteria });
     }
 
     // Prepare response in format expected by UI
@@ -110,7 +138,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         templateApplied: templateResult.success,
         templateName: templateResult.metadata.template_used,
         templateError: templateResult.error,
-      }
+        sourceDocument,
+      },
+      usageRunId
     };
 
     const duration = Date.now() - startTime;
@@ -222,17 +252,20 @@ async function getFundWithBrain(fundId: string): Promise<{
 
 /**
  * Extract content from uploaded document
+ * PDFs are read page by page so evidence quotes can be located on their page
  */
-async function extractDocumentContent(file: File): Promise<string> {
+async function extractDocumentContent(file: File, buffer: Buffer): Promise<SourceText> {
   try {
-    const extractedText = await extractTextFromFile(file);
+    const source = file.type === 'application/pdf'
+      ? joinPages(await extractReportPages(buffer, file.name, file.type))
+      : { text: await extractTextFromFile(file), pages: [] };
 
-    if (!extractedText || extractedText.trim().length === 0) {
+    if (!source.text || source.text.trim().length === 0) {
       throw new Error('Document appears to be empty or contains no extractable text');
     }
 
-    console.log(`📄 Extracted ${extractedText.length} characters from ${file.name}`);
-    return extractedText;
+    console.log(`📄 Extracted ${source.text.length} characters${source.pages.length ? ` from ${source.pages.length} pages` : ''} of ${file.name}`);
+    return source;
 
   } catch (error) {
     console.error('❌ Document extraction failed:', error);
@@ -240,6 +273,20 @@ async function extractDocumentContent(file: File): Promise<string> {
   }
 }
 
+/**
+ * Keep the uploaded application so the assessment's evidence can be viewed in it.
+ * The assessment still runs if the upload fails; it just has no source document.
+ */
+async function storeSourceDocument(file: File, buffer: Buffer): Promise<SourceDocument | null> {
+  try {
+    const s3Key = await uploadFileToS3(buffer, file.name, file.type, SOURCE_DOCUMENT_FOLDER);
+    return { s3Key, filename: file.name, mimeType: file.type };
+  } catch (error) {
+    console.warn(`⚠️ Could not store source document ${file.name}:`, error);
+    return null;
+  }
+}
+
 /**
  * Convert database fund brain to assessment engine format
  */
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
+import { isAuthorized, type ModuleName } from '@/lib/rbac';
+import { AI_ASSESSOR_ID, AssessmentModerationService } from '@/lib/assessment-moderation';
+import { parseScore } from '@/lib/assessment-review';
+
+/**
+ * Assessor scores and agreement statistics for one assessment
+ *
+ * Scoring is independent: until an assessor has submitted their own scores they
+ * only see the AI's scores and how many panel members have scored. Fund managers
+ * see everything.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assessmentId: string }> }
+) {
+  try {
+    const { assessmentId } = await params;
+
+    const existing = await prisma.assessments.findUnique({ where: { id: assessmentId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'read', existing.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    const { assessment, contributors, agreement } = await AssessmentModerationService.getModeration(assessmentId);
+    const hasSubmitted = contributors.some(contributor => contributor.assessorId === auth.user.id);
+    const canSeeAll = hasSubmitted || isAuthorized(auth.user, 'manage', existing.moduleType as ModuleName);
+
+    return NextResponse.json({
+      success: true,
+      moderationStatus: assessment.moderationStatus,
+      hasSubmitted,
+      panelSize: assessment.assessor_scores.length,
+      contributors: canSeeAll
+        ? contributors
+        : contributors.filter(contributor => contributor.assessorId === AI_ASSESSOR_ID),
+      scores: canSeeAll
+        ? assessment.assessor_scores.map(score => ({
+            ...score,
+            overallScore: score.overallScore == null ? null : Number(score.overallScore)
+          }))
+        : [],
+      agreement: canSeeAll ? agreement : null,
+      moderations: canSeeAll
+        ? assessment.assessment_moderations.map(moderation => ({
+            ...moderation,
+            consensusScore: Number(moderation.consensusScore)
+          }))
+        : []
+    });
+  } catch (error) {
+    console.error('❌ Error fetching assessor scores:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch assessor scores',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Submit (or revise) the signed-in assessor's scores
+ *
+ * Body: { criteriaScores: { [criterion]: number }, overallScore?: number, comments?: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assessmentId: string }> }
+) {
+  try {
+    const { assessmentId } = await params;
+    const { criteriaScores, overallScore, comments } = await request.json();
+
+    if (!criteriaScores || typeof criteriaScores !== 'object' || Array.isArray(criteriaScores)) {
+      return NextResponse.json({
+        error: 'Missing required field: criteriaScores'
+      }, { status: 400 });
+    }
+
+    const existing = await prisma.assessments.findUnique({ where: { id: assessmentId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'assess', existing.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    try {
+      const { score, agreement } = await AssessmentModerationService.submitScores(
+        assessmentId,
+        {
+          criteriaScores: Object.fromEntries(
+            Object.entries(criteriaScores).map(([criterion, value]) => [criterion, parseScore(value)])
+          ),
+          overallScore: overallScore !== undefined && overallScore !== null ? parseScore(overallScore) : null,
+          comments: comments ? String(comments) : null,
+        },
+        auth.user
+      );
+
+      console.log(`📝 ${auth.user.username} scored assessment ${assessmentId}${agreement.disagreements.length > 0 ? ` - moderation required (${agreement.disagreements.join(', ')})` : ''}`);
+
+      return NextResponse.json({
+        success: true,
+        score: {
+          ...score,
+          overallScore: score.overallScore == null ? null : Number(score.overallScore)
+        },
+        agreement
+      });
+    } catch (scoreError) {
+      return NextResponse.json({
+        error: 'Assessor scores rejected',
+        details: scoreError instanceof Error ? scoreError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error submitting assessor scores:', error);
+    return NextResponse.json({
+      error: 'Failed to submit assessor scores',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
+import { AssessmentReviewService } from '@/lib/assessment-review';
+
+/**
+ * Approve or reject an assessment under review
+ *
+ * Body: { decision: 'APPROVED' | 'REJECTED', justification?: string } (justification required to reject)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assessmentId: string }> }
+) {
+  try {
+    const { assessmentId } = await params;
+    const { decision, justification } = await request.json();
+
+    if (decision !== 'APPROVED' && decision !== 'REJECTED') {
+      return NextResponse.json({
+        error: 'decision must be APPROVED or REJECTED'
+      }, { status: 400 });
+    }
+
+    const existing = await prisma.assessments.findUnique({ where: { id: assessmentId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'assess', existing.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    try {
+      const assessment = await AssessmentReviewService.decide(assessmentId, decision, auth.user, justification);
+
+      console.log(`${decision === 'APPROVED' ? '✅' : '⛔'} ${auth.user.username} ${decision.toLowerCase()} assessment ${assessmentId}`);
+
+      return NextResponse.json({
+        success: true,
+        assessment: {
+          ...assessment,
+          overallScore: assessment.overallScore == null ? null : Number(assessment.overallScore),
+          aiScore: assessment.aiScore == null ? null : Number(assessment.aiScore),
+          confidence: assessment.confidence == null ? null : Number(assessment.confidence)
+        },
+        revisions: await AssessmentReviewService.getRevisions(assessmentId)
+      });
+    } catch (reviewError) {
+      return NextResponse.json({
+        error: 'Review decision rejected',
+        details: reviewError instanceof Error ? reviewError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error recording review decision:', error);
+    return NextResponse.json({
+      error: 'Failed to record review decision',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
+import { AssessmentModerationService } from '@/lib/assessment-moderation';
+import { parseScore } from '@/lib/assessment-review';
+
+/**
+ * Record the moderated consensus for a multi-assessor assessment
+ *
+ * Body: { justification: string, criteriaScores?: { [criterion]: number } }
+ * Criteria without a consensus score take the mean of all contributing scores.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assessmentId: string }> }
+) {
+  try {
+    const { assessmentId } = await params;
+    const { criteriaScores, justification } = await request.json();
+
+    const existing = await prisma.assessments.findUnique({ where: { id: assessmentId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'manage', existing.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    try {
+      const { assessment, moderation } = await AssessmentModerationService.moderate(
+        assessmentId,
+        {
+          criteriaScores: criteriaScores && typeof criteriaScores === 'object'
+            ? Object.fromEntries(Object.entries(criteriaScores).map(([criterion, value]) => [criterion, parseScore(value)]))
+            : undefined,
+          justification,
+        },
+        auth.user
+      );
+
+      console.log(`⚖️ ${auth.user.username} moderated assessment ${assessmentId}: consensus ${Number(moderation.consensusScore)}`);
+
+      return NextResponse.json({
+        success: true,
+        assessment: {
+          ...assessment,
+          overallScore: assessment.overallScore == null ? null : Number(assessment.overallScore),
+          aiScore: assessment.aiScore == null ? null : Number(assessment.aiScore),
+          confidence: assessment.confidence == null ? null : Number(assessment.confidence)
+        },
+        moderation: {
+          ...moderation,
+          consensusScore: Number(moderation.consensusScore)
+        }
+      });
+    } catch (moderationError) {
+      return NextResponse.json({
+        error: 'Moderation rejected',
+        details: moderationError instanceof Error ? moderationError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error moderating assessment:', error);
+    return NextResponse.json({
+      error: 'Failed to moderate assessment',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
+import { AssessmentReviewService, ScoreOverride, parseScore } from '@/lib/assessment-review';
+
+/**
+ * Override criterion scores on an assessment under review
+ *
+ * Body: { overrides: [{ criterion, score, justification }] }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assessmentId: string }> }
+) {
+  try {
+    const { assessmentId } = await params;
+    const { overrides } = await request.json();
+
+    if (!Array.isArray(overrides) || overrides.length === 0) {
+      return NextResponse.json({
+        error: 'Missing required field: overrides'
+      }, { status: 400 });
+    }
+
+    const existing = await prisma.assessments.findUnique({ where: { id: assessmentId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'assess', existing.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    try {
+      const assessment = await AssessmentReviewService.overrideScores(
+        assessmentId,
+        overrides.map((override: any): ScoreOverride => ({
+          criterion: String(override.criterion ?? ''),
+          score: parseScore(override.score),
+          justification: String(override.justification ?? ''),
+        })),
+        auth.user
+      );
+
+      console.log(`✏️ ${auth.user.username} overrode ${overrides.length} score(s) on assessment ${assessmentId}`);
+
+      return NextResponse.json({
+        success: true,
+        assessment: {
+          ...assessment,
+          overallScore: assessment.overallScore == null ? null : Number(assessment.overallScore),
+          aiScore: assessment.aiScore == null ? null : Number(assessment.aiScore),
+          confidence: assessment.confidence == null ? null : Number(assessment.confidence)
+        },
+        revisions: await AssessmentReviewService.getRevisions(assessmentId)
+      });
+    } catch (reviewError) {
+      return NextResponse.json({
+        error: 'Score override rejected',
+        details: reviewError instanceof Error ? reviewError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error overriding assessment scores:', error);
+    return NextResponse.json({
+      error: 'Failed to override assessment scores',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
+import { AssessmentExportService, REPORT_FORMATS, isReportFormat } from '@/lib/assessment-export';
+
+/**
+ * An assessment's report in the fund's output template format
+ *
+ * Query: format (docx | pdf, default pdf), download (0 to view a PDF in the browser)
+ * Template fields that couldn't be filled are listed in the X-Report-Warnings
+ * header, as a URI-encoded JSON array of messages.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assessmentId: string }> }
+) {
+  try {
+    const { assessmentId } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'pdf';
+
+    if (!isReportFormat(format)) {
+      return NextResponse.json({ error: `Invalid report format: ${format}. Use one of: ${REPORT_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    const assessment = await prisma.assessments.findUnique({
+      where: { id: assessmentId },
+      select: { moduleType: true, status: true },
+    });
+    if (!assessment) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'read', assessment.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    if (assessment.status !== 'COMPLETED') {
+      return NextResponse.json({ error: 'The report is available once the assessment is completed' }, { status: 409 });
+    }
+
+    const file = await AssessmentExportService.report(assessmentId, format);
+    const disposition = format === 'pdf' && searchParams.get('download') === '0' ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `${disposition}; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+        ...(file.warnings.length > 0 && { 'X-Report-Warnings': encodeURIComponent(JSON.stringify(file.warnings)) }),
+      },
+    });
+  } catch (error) {
+    console.error('❌ Error building assessment report:', error);
+    return NextResponse.json({
+      error: 'Failed to build assessment report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
 
 export async function GET(
   request: NextRequest,
@@ -17,6 +18,9 @@ export async function GET(
             name: true,
             description: true,
           }
+        },
+        assessment_revisions: {
+          orderBy: { revision: 'asc' }
         }
       }
     });
@@ -27,9 +31,18 @@ export async function GET(
       }, { status: 404 });
     }
 
+    const auth = await requireAuth(request, 'read', assessment.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    // Final score (overallScore) and the AI's original score are both returned
     return NextResponse.json({
       success: true,
-      assessment
+      assessment: {
+        ...assessment,
+        overallScore: assessment.overallScore == null ? null : Number(assessment.overallScore),
+        aiScore: assessment.aiScore == null ? null : Number(assessment.aiScore),
+        confidence: assessment.confidence == null ? null : Number(assessment.confidence)
+      }
     });
 
   } catch (error) {
@@ -58,6 +71,9 @@ export async function DELETE(
       }, { status: 404 });
     }
 
+    const auth = await requireAuth(request, 'assess', assessment.moduleType);
+    if (!auth.authorized) return auth.response;
+
     await prisma.assessments.delete({
       where: { id: assessmentId }
     });
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, downloadFileFromS3 } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
+import { tenantS3Key } from '@/lib/tenant';
+import { SOURCE_DOCUMENT_FOLDER, type SourceDocument } from '@/lib/document-evidence';
+
+/**
+ * Content-Disposition with an ASCII filename for old clients and the real one
+ * in filename* - header values can't hold characters outside Latin-1
+ */
+function contentDisposition(type: 'inline' | 'attachment', filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '') || 'document';
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+}
+
+/**
+ * The original application an assessment was run on, for the evidence viewer.
+ * Its type was supplied by the uploader, so only PDFs are shown in the browser;
+ * anything else (an HTML or SVG upload could run script on this origin) is a
+ * sandboxed download.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ assessmentId: string }> }
+) {
+  try {
+    const { assessmentId } = await params;
+
+    const assessment = await prisma.assessments.findUnique({ where: { id: assessmentId } });
+    if (!assessment) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'read', assessment.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    const sourceDocument = (assessment.assessmentData as any)?.sourceDocument as SourceDocument | undefined;
+    if (!sourceDocument?.s3Key) {
+      return NextResponse.json({ error: 'No source document stored for this assessment' }, { status: 404 });
+    }
+
+    // assessmentData is supplied by the client, so only serve keys from this tenant's source folder
+    if (!sourceDocument.s3Key.startsWith(await tenantS3Key(`${SOURCE_DOCUMENT_FOLDER}/`))) {
+      return NextResponse.json({ error: 'Source document not available' }, { status: 403 });
+    }
+
+    const body = await downloadFileFromS3(sourceDocument.s3Key);
+
+    const isPdf = sourceDocument.mimeType === 'application/pdf';
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': isPdf ? 'application/pdf' : 'application/octet-stream',
+        'Content-Disposition': contentDisposition(isPdf ? 'inline' : 'attachment', sourceDocument.filename || 'document'),
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': 'sandbox',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Error fetching assessment source document:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch source document',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ModerationStatus, ReviewStatus } from '@prisma/client';
+import { AssessmentReviewService } from '@/lib/assessment-review';
+import { requireAuth } from '@/lib/auth';
+import { authorizedModules } from '@/lib/rbac';
+
+/**
+ * List assessments awaiting human review (flagged or low confidence)
+ *
+ * Query: fundId, status (default PENDING), moderationStatus (e.g. REQUIRED), limit, offset
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'read');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const fundId = searchParams.get('fundId') || undefined;
+    const status = searchParams.get('status') || ReviewStatus.PENDING;
+    const moderationStatus = searchParams.get('moderationStatus') || undefined;
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    if (!Object.values(ReviewStatus).includes(status as ReviewStatus)) {
+      return NextResponse.json({ error: `Invalid review status: ${status}` }, { status: 400 });
+    }
+    if (moderationStatus && !Object.values(ModerationStatus).includes(moderationStatus as ModerationStatus)) {
+      return NextResponse.json({ error: `Invalid moderation status: ${moderationStatus}` }, { status: 400 });
+    }
+
+    const { assessments, total, confidenceThreshold } = await AssessmentReviewService.getQueue({
+      fundId,
+      moduleTypes: authorizedModules(auth.user, 'read'),
+      status: status as ReviewStatus,
+      moderationStatus: moderationStatus as ModerationStatus | undefined,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      success: true,
+      assessments: assessments.map(assessment => ({
+        id: assessment.id,
+        fundId: assessment.fundId,
+        fundName: assessment.funds.name,
+        moduleType: assessment.moduleType,
+        organizationName: assessment.organizationName,
+        projectName: assessment.projectName,
+        overallScore: assessment.overallScore == null ? null : Number(assessment.overallScore),
+        aiScore: assessment.aiScore == null ? null : Number(assessment.aiScore),
+        confidence: assessment.confidence == null ? null : Number(assessment.confidence),
+        flagForReview: assessment.flagForReview,
+        reviewStatus: assessment.reviewStatus,
+        moderationStatus: assessment.moderationStatus,
+        reviewedBy: assessment.reviewedBy,
+        reviewedAt: assessment.reviewedAt,
+        createdAt: assessment.createdAt,
+      })),
+      confidenceThreshold,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching review queue:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch review queue',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
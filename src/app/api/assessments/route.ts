@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database-s3';
-import { AssessmentType, AssessmentStatus } from '@prisma/client';
+import { AssessmentType, AssessmentStatus, Prisma } from '@prisma/client';
+import { requireAuth } from '@/lib/auth';
+import { authorizedModules } from '@/lib/rbac';
+import { checkUsageRun, linkRunToAssessment } from '@/lib/usage-tracker';
+import { AssessmentReviewService, extractReviewFields } from '@/lib/assessment-review';
 
 interface CreateAssessmentRequest {
   fundId: string;
@@ -10,6 +14,10 @@ interface CreateAssessmentRequest {
   overallScore?: number;
   scoringResults: any;
   assessmentData: any;
+  usageRunId?: string;
+  criteriaScores?: Record<string, number>;
+  confidence?: number;
+  flagForReview?: boolean;
 }
 
 export async function POST(request: NextRequest) {
@@ -51,6 +59,24 @@ export async function POST(request: NextRequest) {
       }, { status: 404 });
     }
 
+    const auth = await requireAuth(request, 'assess', fund.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    // The run id comes from the client: only usage of this fund's own, unlinked run is attributed
+    const usageRunId = body.usageRunId ?? assessmentData?.usageRunId;
+    if (usageRunId) {
+      const runError = await checkUsageRun(String(usageRunId), fundId);
+      if (runError) {
+        return NextResponse.json({
+          error: 'Invalid usageRunId',
+          details: runError
+        }, { status: 400 });
+      }
+    }
+
+    // Low-confidence or flagged results go to the review queue
+    const reviewFields = extractReviewFields(body, assessmentData, scoringResults);
+
     // Create assessment record
     console.log('💾 Creating assessment in database...');
     const assessment = await prisma.assessments.create({
@@ -63,6 +89,7 @@ export async function POST(request: NextRequest) {
         overallScore,
         scoringResults,
         assessmentData,
+        ...AssessmentReviewService.initialReviewData(overallScore, reviewFields),
       },
       include: {
         fund: {
@@ -75,6 +102,16 @@ export async function POST(request: NextRequest) {
     });
 
     console.log('✅ Assessment created successfully:', assessment.id, assessment.organizationName);
+    await AssessmentReviewService.recordCreated(assessment.id);
+
+    if (assessment.reviewStatus === 'PENDING') {
+      console.log(`🔎 Assessment ${assessment.id} queued for review (confidence: ${reviewFields.confidence ?? 'n/a'}, flagged: ${reviewFields.flagForReview})`);
+    }
+
+    // Attribute model usage from the assessment run to the saved record
+    if (usageRunId) {
+      await linkRunToAssessment(String(usageRunId), assessment);
+    }
 
     return NextResponse.json({
       success: true,
@@ -94,6 +131,9 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   console.log('📨 GET /api/assessments: Received fetch request');
 
+  const auth = await requireAuth(request, 'read');
+  if (!auth.authorized) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const fundId = searchParams.get('fundId');
@@ -102,8 +142,11 @@ export async function GET(request: NextRequest) {
 
     console.log('📋 Query parameters:', { fundId, limit, offset });
 
-    // Build where clause
-    const where = fundId ? { fundId } : {};
+    // Build where clause - only assessments in modules the caller can read
+    const where: Prisma.assessmentsWhereInput = {
+      moduleType: { in: authorizedModules(auth.user, 'read') },
+      ...(fundId ? { fundId } : {}),
+    };
 
     const assessments = await prisma.assessments.findMany({
       where,
@@ -128,7 +171,9 @@ export async function GET(request: NextRequest) {
     // Convert Decimal fields to numbers for JSON serialization
     const serializedAssessments = assessments.map(assessment => ({
       ...assessment,
-      overallScore: assessment.overallScore ? Number(assessment.overallScore) : null
+      overallScore: assessment.overallScore == null ? null : Number(assessment.overallScore),
+      aiScore: assessment.aiScore == null ? null : Number(assessment.aiScore),
+      confidence: assessment.confidence == null ? null : Number(assessment.confidence)
     }));
 
     // Get total count for pagination
@@ -1,13 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SignJWT } from 'jose';
 import { cookies } from 'next/headers';
+import { authenticateUser } from '@/lib/auth';
+import { AUTH_COOKIE, SESSION_MAX_AGE_SECONDS, signSessionToken } from '@/lib/auth-session';
 
-const AUTH_USERNAME = process.env.AUTH_USERNAME;
-const AUTH_PASSWORD = process.env.AUTH_PASSWORD;
-const AUTH_SECRET = process.env.AUTH_SECRET;
-
-if (!AUTH_USERNAME || !AUTH_PASSWORD || !AUTH_SECRET) {
-  console.error('❌ AUTH environment variables not configured');
+if (!process.env.AUTH_SECRET) {
+  console.error('❌ AUTH_SECRET environment variable not configured');
 }
 
 export async function POST(request: NextRequest) {
@@ -15,49 +12,45 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { username, password } = body;
 
-    // Debug logging for staging
+    const user = await authenticateUser(username, password);
+
     console.log('🔐 Login attempt:', {
       receivedUsername: username,
-      expectedUsername: AUTH_USERNAME,
-      usernameMatch: username === AUTH_USERNAME,
-      passwordMatch: password === AUTH_PASSWORD,
-      envVarsPresent: {
-        AUTH_USERNAME: !!AUTH_USERNAME,
-        AUTH_PASSWORD: !!AUTH_PASSWORD,
-        AUTH_SECRET: !!AUTH_SECRET,
-      }
+      success: !!user,
+      roles: user?.roles,
     });
 
-    // Validate credentials against environment variables
-    if (username === AUTH_USERNAME && password === AUTH_PASSWORD) {
-      // Create JWT token (7 days expiry)
-      const secret = new TextEncoder().encode(AUTH_SECRET);
-      const token = await new SignJWT({ username, authenticated: true })
-        .setProtectedHeader({ alg: 'HS256' })
-        .setIssuedAt()
-        .setExpirationTime('7d')
-        .sign(secret);
-
-      // Set secure HTTP-only cookie
-      const cookieStore = await cookies();
-      cookieStore.set('auth-token', token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 7, // 7 days
-        path: '/',
-      });
-
-      return NextResponse.json({
-        success: true,
-        message: 'Login successful',
-      });
-    } else {
+    if (!user) {
       return NextResponse.json(
         { success: false, error: 'Invalid credentials' },
         { status: 401 }
       );
     }
+
+    // Create JWT token carrying the user's roles and module grants. It lasts 15 minutes and is
+    // refreshed from the users table (see /api/auth/refresh) for up to 7 days after login
+    const token = await signSessionToken(user);
+
+    // Set secure HTTP-only cookie
+    const cookieStore = await cookies();
+    cookieStore.set(AUTH_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: SESSION_MAX_AGE_SECONDS,
+      path: '/',
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Login successful',
+      user: {
+        username: user.username,
+        roles: user.roles,
+        modules: user.modules,
+        organizationId: user.organizationId,
+      },
+    });
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
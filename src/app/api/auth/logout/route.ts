@@ -1,11 +1,12 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { AUTH_COOKIE } from '@/lib/auth-session';
 
 export async function POST() {
   try {
     // Clear the auth cookie
     const cookieStore = await cookies();
-    cookieStore.delete('auth-token');
+    cookieStore.delete(AUTH_COOKIE);
 
     return NextResponse.json({
       success: true,
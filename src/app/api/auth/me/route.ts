@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { prisma } from '@/lib/database-s3';
+
+/**
+ * Current session: username, roles, granted modules and organisation
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser(request);
+
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const organization = await prisma.organizations.findUnique({
+    where: { id: user.organizationId },
+    select: { id: true, name: true, slug: true }
+  });
+
+  return NextResponse.json({
+    success: true,
+    user,
+    organization,
+  });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { currentSessionUser } from '@/lib/auth';
+import { AUTH_COOKIE, SESSION_MAX_AGE_SECONDS, signSessionToken, verifyRefreshableToken } from '@/lib/auth-session';
+
+/**
+ * Replace an expired session token with one carrying the user's current roles,
+ * modules and organisation. Called by middleware.ts; deactivated users and
+ * logins older than the session lifetime are signed out.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const session = await verifyRefreshableToken(request.cookies.get(AUTH_COOKIE)?.value);
+    const user = session && await currentSessionUser(session.user);
+
+    if (!session || !user) {
+      cookieStore.delete(AUTH_COOKIE);
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const token = await signSessionToken(user, session.loggedInAt);
+    cookieStore.set(AUTH_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: Math.max(0, Math.floor(session.loggedInAt + SESSION_MAX_AGE_SECONDS - Date.now() / 1000)),
+      path: '/',
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Session refresh error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Session refresh failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database-s3';
 import { sqsService } from '@/lib/sqs-service';
 import { ensureStartup } from '@/lib/startup';
+import { requireServiceAuth } from '@/lib/auth';
 
 interface RouteParams {
   params: {
@@ -14,171 +15,173 @@ interface RouteParams {
  * This creates a reusable assessment engine for instant application scoring
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
-  try {
-    // Ensure background processor is started in production
-    ensureStartup();
+  return requireServiceAuth(request, 'brain:assemble', 'manage', 'FUNDING', async () => {
+    try {
+      // Ensure background processor is started in production
+      ensureStartup();
 
-    const { fundId } = await params;
+      const { fundId } = await params;
 
-    if (!fundId) {
-      return NextResponse.json({
-        error: 'Fund ID is required'
-      }, { status: 400 });
-    }
-
-    // Get fund with all analyses
-    const fund = await prisma.funds.findUnique({
-      where: { id: fundId },
-      include: {
-        fund_documents: true,
-        background_jobs: {
-          where: {
-            type: 'DOCUMENT_ANALYSIS',
-            status: 'COMPLETED'
-          },
-          orderBy: {
-            completedAt: 'desc'
-          },
-          take: 1
-        }
+      if (!fundId) {
+        return NextResponse.json({
+          error: 'Fund ID is required'
+        }, { status: 400 });
       }
-    });
-
-    if (!fund) {
-      return NextResponse.json({
-        error: 'Fund not found'
-      }, { status: 404 });
-    }
 
-    // Check if document analysis is complete
-    if (!fund.background_jobs.length) {
-      return NextResponse.json({
-        error: 'Document analysis not completed yet'
-      }, { status: 400 });
-    }
-
-    // Verify we have the necessary analyses (legacy compatibility for outputTemplatesAnalysis)
-    const requiredAnalyses = [
-      { field: fund.applicationFormAnalysis, name: 'applicationForm' },
-      { field: fund.selectionCriteriaAnalysis, name: 'selectionCriteria' },
-      { field: fund.goodExamplesAnalysis, name: 'goodExamples' }
-    ];
-
-    const missing = requiredAnalyses.filter(analysis => !analysis.field).map(analysis => analysis.name);
-    const hasOutputTemplate = fund.outputTemplatesAnalysis !== null && fund.outputTemplatesAnalysis !== undefined;
+      // Get fund with all analyses
+      const fund = await prisma.funds.findUnique({
+        where: { id: fundId },
+        include: {
+          fund_documents: true,
+          background_jobs: {
+            where: {
+              type: 'DOCUMENT_ANALYSIS',
+              status: 'COMPLETED'
+            },
+            orderBy: {
+              completedAt: 'desc'
+            },
+            take: 1
+          }
+        }
+      });
 
-    if (missing.length > 0) {
-      return NextResponse.json({
-        error: 'Missing required document analyses',
-        missingAnalyses: missing
-      }, { status: 400 });
-    }
+      if (!fund) {
+        return NextResponse.json({
+          error: 'Fund not found'
+        }, { status: 404 });
+      }
 
-    // Warn about legacy funds without output templates
-    if (!hasOutputTemplate) {
-      console.log(`⚠️ Fund ${fund.name} is a legacy fund without output templates - brain will use standard formatting`);
-    }
+      // Check if document analysis is complete
+      if (!fund.background_jobs.length) {
+        return NextResponse.json({
+          error: 'Document analysis not completed yet'
+        }, { status: 400 });
+      }
 
-    // Assemble the brain from all analyses
-    const fundBrain = assembleFundBrain({
-      applicationFormAnalysis: fund.applicationFormAnalysis,
-      selectionCriteriaAnalysis: fund.selectionCriteriaAnalysis,
-      goodExamplesAnalysis: fund.goodExamplesAnalysis,
-      outputTemplatesAnalysis: hasOutputTemplate ? fund.outputTemplatesAnalysis : null,
-      fundInfo: {
-        id: fund.id,
-        name: fund.name,
-        description: fund.description,
+      // Verify we have the necessary analyses (legacy compatibility for outputTemplatesAnalysis)
+      const requiredAnalyses = [
+        { field: fund.applicationFormAnalysis, name: 'applicationForm' },
+        { field: fund.selectionCriteriaAnalysis, name: 'selectionCriteria' },
+        { field: fund.goodExamplesAnalysis, name: 'goodExamples' }
+      ];
+
+      const missing = requiredAnalyses.filter(analysis => !analysis.field).map(analysis => analysis.name);
+      const hasOutputTemplate = fund.outputTemplatesAnalysis !== null && fund.outputTemplatesAnalysis !== undefined;
+
+      if (missing.length > 0) {
+        return NextResponse.json({
+          error: 'Missing required document analyses',
+          missingAnalyses: missing
+        }, { status: 400 });
       }
-    });
 
-    // Update fund with assembled brain
-    const updatedFund = await prisma.funds.update({
-      where: { id: fundId },
-      data: {
-        fundBrain,
-        brainVersion: (fund.brainVersion || 0) + 1,
-        brainAssembledAt: new Date(),
+      // Warn about legacy funds without output templates
+      if (!hasOutputTemplate) {
+        console.log(`⚠️ Fund ${fund.name} is a legacy fund without output templates - brain will use standard formatting`);
       }
-    });
 
-    // Check if there's already a RAG_PROCESSING job for this fund
-    const existingRagJob = await prisma.background_jobs.findFirst({
-      where: {
-        fundId,
-        type: 'RAG_PROCESSING',
-        status: {
-          in: ['PENDING', 'PROCESSING', 'COMPLETED']
+      // Assemble the brain from all analyses
+      const fundBrain = assembleFundBrain({
+        applicationFormAnalysis: fund.applicationFormAnalysis,
+        selectionCriteriaAnalysis: fund.selectionCriteriaAnalysis,
+        goodExamplesAnalysis: fund.goodExamplesAnalysis,
+        outputTemplatesAnalysis: hasOutputTemplate ? fund.outputTemplatesAnalysis : null,
+        fundInfo: {
+          id: fund.id,
+          name: fund.name,
+          description: fund.description,
         }
-      }
-    });
+      });
 
-    let brainJob;
-    if (existingRagJob) {
-      // Update existing job to completed
-      brainJob = await prisma.background_jobs.update({
-        where: { id: existingRagJob.id },
+      // Update fund with assembled brain
+      const updatedFund = await prisma.funds.update({
+        where: { id: fundId },
         data: {
-          status: 'COMPLETED',
-          progress: 100,
-          processedDocuments: 1,
-          metadata: {
-            ...(existingRagJob.metadata as any),
-            brainVersion: updatedFund.brainVersion,
-            assembledAt: new Date().toISOString(),
-            componentsUsed: ['applicationForm', 'selectionCriteria', 'goodExamples']
-          },
-          completedAt: new Date(),
+          fundBrain,
+          brainVersion: (fund.brainVersion || 0) + 1,
+          brainAssembledAt: new Date(),
         }
       });
-      console.log(`Updated existing RAG_PROCESSING job ${existingRagJob.id} to completed`);
-    } else {
-      // Create new brain assembly job record for tracking
-      brainJob = await prisma.background_jobs.create({
-        data: {
+
+      // Check if there's already a RAG_PROCESSING job for this fund
+      const existingRagJob = await prisma.background_jobs.findFirst({
+        where: {
           fundId,
           type: 'RAG_PROCESSING',
-          status: 'COMPLETED',
-          progress: 100,
-          totalDocuments: 1,
-          processedDocuments: 1,
-          metadata: {
-            brainVersion: updatedFund.brainVersion,
-            assembledAt: new Date().toISOString(),
-            componentsUsed: ['applicationForm', 'selectionCriteria', 'goodExamples']
-          },
-          startedAt: new Date(),
-          completedAt: new Date(),
+          status: {
+            in: ['PENDING', 'PROCESSING', 'COMPLETED']
+          }
         }
       });
-      console.log(`Created new RAG_PROCESSING job ${brainJob.id}`);
-    }
 
-    // Update fund status to ACTIVE when brain assembly is complete
-    await prisma.funds.update({
-      where: { id: fundId },
-      data: { status: 'ACTIVE' }
-    });
-    console.log(`Fund ${fundId} status updated to ACTIVE`);
+      let brainJob;
+      if (existingRagJob) {
+        // Update existing job to completed
+        brainJob = await prisma.background_jobs.update({
+          where: { id: existingRagJob.id },
+          data: {
+            status: 'COMPLETED',
+            progress: 100,
+            processedDocuments: 1,
+            metadata: {
+              ...(existingRagJob.metadata as any),
+              brainVersion: updatedFund.brainVersion,
+              assembledAt: new Date().toISOString(),
+              componentsUsed: ['applicationForm', 'selectionCriteria', 'goodExamples']
+            },
+            completedAt: new Date(),
+          }
+        });
+        console.log(`Updated existing RAG_PROCESSING job ${existingRagJob.id} to completed`);
+      } else {
+        // Create new brain assembly job record for tracking
+        brainJob = await prisma.background_jobs.create({
+          data: {
+            fundId,
+            type: 'RAG_PROCESSING',
+            status: 'COMPLETED',
+            progress: 100,
+            totalDocuments: 1,
+            processedDocuments: 1,
+            metadata: {
+              brainVersion: updatedFund.brainVersion,
+              assembledAt: new Date().toISOString(),
+              componentsUsed: ['applicationForm', 'selectionCriteria', 'goodExamples']
+            },
+            startedAt: new Date(),
+            completedAt: new Date(),
+          }
+        });
+        console.log(`Created new RAG_PROCESSING job ${brainJob.id}`);
+      }
 
-    return NextResponse.json({
-      success: true,
-      brain: {
-        version: updatedFund.brainVersion,
-        assembledAt: updatedFund.brainAssembledAt,
-        jobId: brainJob.id,
-        components: Object.keys(fundBrain),
-      },
-      message: 'Fund brain assembled successfully'
-    });
+      // Update fund status to ACTIVE when brain assembly is complete
+      await prisma.funds.update({
+        where: { id: fundId },
+        data: { status: 'ACTIVE' }
+      });
+      console.log(`Fund ${fundId} status updated to ACTIVE`);
 
-  } catch (error) {
-    console.error('Error assembling fund brain:', error);
-    return NextResponse.json({
-      error: 'Failed to assemble fund brain',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
-  }
+      return NextResponse.json({
+        success: true,
+        brain: {
+          version: updatedFund.brainVersion,
+          assembledAt: updatedFund.brainAssembledAt,
+          jobId: brainJob.id,
+          components: Object.keys(fundBrain),
+        },
+        message: 'Fund brain assembled successfully'
+      });
+
+    } catch (error) {
+      console.error('Error assembling fund brain:', error);
+      return NextResponse.json({
+        error: 'Failed to assemble fund brain',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, { status: 500 });
+    }
+  });
 }
 
 /**
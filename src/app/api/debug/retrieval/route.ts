@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { hybridSearch, RerankMode } from '@/lib/hybrid-retrieval';
+
+/**
+ * Run a retrieval query and return the hits with their diagnostics
+ * (why each chunk was retrieved: per-retriever ranks, fused and rerank scores)
+ *
+ * Body: { fundId, query?, documentTypes?, documentIds?, chunks?, chunkIndexRange?, limit?, rerank? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.fundId) {
+      return NextResponse.json({ error: 'fundId required' }, { status: 400 });
+    }
+
+    const fund = await prisma.funds.findFirst({
+      where: { id: body.fundId },
+      select: { id: true, moduleType: true },
+    });
+    if (!fund) {
+      return NextResponse.json({ error: 'Fund not found' }, { status: 404 });
+    }
+
+    const { hits, diagnostics } = await hybridSearch({
+      text: typeof body.query === 'string' ? body.query : undefined,
+      filters: {
+        fundId: fund.id,
+        documentTypes: body.documentTypes,
+        documentIds: body.documentIds,
+        chunks: body.chunks,
+        chunkIndexRange: body.chunkIndexRange,
+      },
+      limit: Number(body.limit) || 10,
+      moduleType: fund.moduleType,
+      rerank: body.rerank as RerankMode | undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      diagnostics,
+      hits: hits.map(hit => ({
+        id: hit.id,
+        filename: hit.filename,
+        documentType: hit.documentType,
+        chunkIndex: hit.metadata?.chunkIndex ?? null,
+        citation: hit.citation,
+        score: hit.score,
+        diagnostics: hit.diagnostics,
+        preview: hit.content.slice(0, 300),
+      })),
+    });
+  } catch (error) {
+    console.error('❌ Retrieval debug query failed:', error);
+    return NextResponse.json({
+      error: 'Retrieval query failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
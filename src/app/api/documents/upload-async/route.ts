@@ -6,6 +6,9 @@ import { sqsService } from '@/lib/sqs-service';
 import { DocumentType } from '@prisma/client';
 import crypto from 'crypto';
 import { getAWSCredentials, AWS_REGION, S3_BUCKET } from '@/lib/aws-credentials';
+import { getServiceAuthHeaders } from '@/lib/api-keys';
+import { tenantS3Key } from '@/lib/tenant';
+import { getSupportedMimeTypes, isSupportedMimeType, resolveMimeType } from '@/lib/document-extractors';
 
 // CRITICAL FIX: Create S3 client lazily
 let s3Client: S3Client | null = null;
@@ -48,18 +51,11 @@ export async function POST(request: NextRequest) {
       }, { status: 404 });
     }
 
-    // Validate file types and sizes
-    const allowedTypes = [
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/msword',
-      'text/plain'
-    ];
-
+    // Validate file types (anything text can be extracted from) and sizes
     const maxFileSize = 50 * 1024 * 1024; // 50MB
 
     for (const doc of documents) {
-      if (!allowedTypes.includes(doc.mimeType)) {
+      if (!isSupportedMimeType(resolveMimeType(doc.filename, doc.mimeType))) {
         return NextResponse.json({
           error: `File type ${doc.mimeType} is not allowed for ${doc.filename}`
         }, { status: 400 });
@@ -79,7 +75,7 @@ export async function POST(request: NextRequest) {
     for (const doc of documents) {
       // Generate unique S3 key
       const folder = doc.documentType.toLowerCase().replace('_', '-');
-      const s3Key = `${folder}/${crypto.randomUUID()}-${doc.filename}`;
+      const s3Key = await tenantS3Key(`${folder}/${crypto.randomUUID()}-${doc.filename}`);
 
       // Create document record in database
       const documentRecord = await prisma.fund_documents.create({
@@ -136,7 +132,7 @@ export async function POST(request: NextRequest) {
           console.log(`Auto-triggering processing for job ${job.id} in development mode...`);
           const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/jobs/process`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getServiceAuthHeaders() },
             body: JSON.stringify({ jobId: job.id })
           });
           
@@ -174,12 +170,7 @@ export async function GET() {
       success: true,
       message: 'Async upload service is available',
       maxFileSize: '50MB',
-      allowedTypes: [
-        'application/pdf',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'application/msword',
-        'text/plain'
-      ],
+      allowedTypes: getSupportedMimeTypes(),
     });
   } catch (error) {
     return NextResponse.json({
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database-s3';
-import { storeDocumentVector } from '@/lib/aws-opensearch';
+import { storeDocumentVector } from '@/lib/vector-store';
 
 export async function POST(request: NextRequest) {
     try {
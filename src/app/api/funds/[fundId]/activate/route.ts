@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
 
 export async function POST(
   request: NextRequest,
@@ -25,6 +24,9 @@ export async function POST(
       );
     }
 
+    const auth = await requireAuth(request, 'manage', existingFund.moduleType);
+    if (!auth.authorized) return auth.response;
+
     // Validate fund has all required data for activation
     if (!existingFund.applicationFormAnalysis || 
         !existingFund.selectionCriteriaAnalysis || 
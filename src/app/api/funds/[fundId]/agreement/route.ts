@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
+import { AssessmentModerationService } from '@/lib/assessment-moderation';
+
+/**
+ * Inter-rater agreement (Cohen's/Fleiss' kappa per criterion) across a fund's
+ * multi-assessor assessments
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fundId: string }> }
+) {
+  try {
+    const { fundId } = await params;
+
+    const fund = await prisma.funds.findUnique({ where: { id: fundId }, select: { id: true, moduleType: true } });
+    if (!fund) {
+      return NextResponse.json({ error: 'Fund not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'read', fund.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    const agreement = await AssessmentModerationService.getFundAgreement(fundId);
+
+    return NextResponse.json({
+      success: true,
+      agreement
+    });
+  } catch (error) {
+    console.error('❌ Error computing fund agreement:', error);
+    return NextResponse.json({
+      error: 'Failed to compute fund agreement',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
+
+/**
+ * A saved allocation scenario with its inputs and result
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fundId: string; allocationId: string }> }
+) {
+  try {
+    const { fundId, allocationId } = await params;
+
+    const allocation = await prisma.funding_allocations.findFirst({
+      where: { id: allocationId, fundId },
+      include: { funds: { select: { moduleType: true } } }
+    });
+    if (!allocation) {
+      return NextResponse.json({ error: 'Allocation not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'read', allocation.funds.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    const { funds, ...saved } = allocation;
+
+    return NextResponse.json({
+      success: true,
+      allocation: {
+        ...saved,
+        budget: Number(saved.budget),
+        minimumScore: saved.minimumScore !== null ? Number(saved.minimumScore) : null,
+        fundedAmount: Number(saved.fundedAmount),
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching funding allocation:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch funding allocation',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
+import { FundingAllocationService, getFundWeights, parseAllocationOptions } from '@/lib/funding-allocation';
+
+/**
+ * Saved allocation scenarios for a fund, plus the fund's default criterion weights
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fundId: string }> }
+) {
+  try {
+    const { fundId } = await params;
+
+    const fund = await prisma.funds.findUnique({ where: { id: fundId }, select: { id: true, moduleType: true, fundBrain: true } });
+    if (!fund) {
+      return NextResponse.json({ error: 'Fund not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'read', fund.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    const allocations = await FundingAllocationService.list(fundId);
+
+    return NextResponse.json({
+      success: true,
+      weights: getFundWeights(fund.fundBrain),
+      allocations: allocations.map(allocation => ({
+        ...allocation,
+        budget: Number(allocation.budget),
+        minimumScore: allocation.minimumScore !== null ? Number(allocation.minimumScore) : null,
+        fundedAmount: Number(allocation.fundedAmount),
+      }))
+    });
+  } catch (error) {
+    console.error('❌ Error fetching funding allocations:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch funding allocations',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Calculate a ranked shortlist and funding allocation
+ *
+ * Body: { budget, weights?, quotas?, minimumScore?, waitlistSize?, requestedAmounts?, attributes?, save?, name? }
+ * Without `save` this is a what-if calculation and nothing is stored.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ fundId: string }> }
+) {
+  try {
+    const { fundId } = await params;
+    const body = await request.json();
+
+    const fund = await prisma.funds.findUnique({ where: { id: fundId }, select: { id: true, moduleType: true } });
+    if (!fund) {
+      return NextResponse.json({ error: 'Fund not found' }, { status: 404 });
+    }
+
+    const auth = await requireAuth(request, 'manage', fund.moduleType);
+    if (!auth.authorized) return auth.response;
+
+    let options;
+    try {
+      options = parseAllocationOptions(body);
+    } catch (validationError) {
+      return NextResponse.json({
+        error: 'Invalid allocation options',
+        details: validationError instanceof Error ? validationError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+
+    if (body.save) {
+      if (!body.name || !String(body.name).trim()) {
+        return NextResponse.json({ error: 'A name is required to save an allocation' }, { status: 400 });
+      }
+
+      const { allocation, result } = await FundingAllocationService.save(fundId, String(body.name).trim(), options, auth.user);
+      console.log(`💰 ${auth.user.username} saved allocation "${allocation.name}" for fund ${fundId}: ${result.fundedCount} funded`);
+
+      return NextResponse.json({
+        success: true,
+        allocationId: allocation.id,
+        result
+      });
+    }
+
+    const result = await FundingAllocationService.calculate(fundId, options);
+
+    return NextResponse.json({
+      success: true,
+      result
+    });
+  } catch (error) {
+    console.error('❌ Error calculating funding allocation:', error);
+    return NextResponse.json({
+      error: 'Failed to calculate funding allocation',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ fundId: string }> }
 ) {
   try {
+    const auth = await requireAuth(request, 'admin');
+    if (!auth.authorized) return auth.response;
+
     const { fundId } = await params;
     
     // Check if fund exists
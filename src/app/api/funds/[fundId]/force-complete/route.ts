@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database-s3';
 import { FundStatus, JobStatus } from '@prisma/client';
+import { requireAuth } from '@/lib/auth';
 
 /**
  * Emergency endpoint to manually complete stuck funds
@@ -8,6 +9,9 @@ import { FundStatus, JobStatus } from '@prisma/client';
  */
 export async function POST(request: NextRequest, { params }: { params: { fundId: string } }) {
   try {
+    const auth = await requireAuth(request, 'admin');
+    if (!auth.authorized) return auth.response;
+
     const { fundId } = params;
 
     if (!fundId) {
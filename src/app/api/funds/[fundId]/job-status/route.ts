@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { BackgroundJobService } from '@/lib/background-job-service';
 import { prisma } from '@/lib/database-s3';
+import { getServiceAuthHeaders } from '@/lib/api-keys';
+import { getJobStepSummaries, summarizeSteps } from '@/lib/job-steps';
 
 export async function GET(
   request: NextRequest,
@@ -60,7 +62,7 @@ export async function GET(
           // Fire and forget - don't await
           fetch(assemblyUrl, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' }
+            headers: { 'Content-Type': 'application/json', ...getServiceAuthHeaders() }
           }).then(response => {
             if (response.ok) {
               console.log(`✅ Successfully triggered brain assembly for fund ${fundId}`);
@@ -97,6 +99,7 @@ export async function GET(
     }
 
     const overallStatus = getOverallStatus(jobs);
+    const stepsByJob = await getJobStepSummaries(jobs.map(job => job.id));
     
     return NextResponse.json({
       success: true,
@@ -113,6 +116,8 @@ export async function GET(
         startedAt: job.startedAt,
         completedAt: job.completedAt,
         createdAt: job.createdAt,
+        steps: stepsByJob[job.id] ?? [],
+        stepProgress: summarizeSteps(stepsByJob[job.id] ?? []),
       })),
       overallStatus,
       ragProcessing: ragJob ? {
@@ -122,7 +127,8 @@ export async function GET(
         totalDocuments: ragJob.totalDocuments,
         startedAt: ragJob.startedAt,
         completedAt: ragJob.completedAt,
-        errorMessage: ragJob.errorMessage
+        errorMessage: ragJob.errorMessage,
+        stepProgress: summarizeSteps(stepsByJob[ragJob.id] ?? [])
       } : null
     });
 
@@ -144,7 +150,7 @@ function getOverallStatus(jobs: any[]): 'pending' | 'processing' | 'completed' |
   const statuses = jobs.map(job => job.status);
   
   if (statuses.every(status => status === 'COMPLETED')) return 'completed';
-  if (statuses.some(status => status === 'FAILED')) return 'failed';
+  if (statuses.some(status => status === 'FAILED' || status === 'DEAD_LETTER' || status === 'CANCELLED')) return 'failed';
   if (statuses.some(status => status === 'PROCESSING')) return 'processing';
   if (statuses.some(status => status === 'COMPLETED')) return 'partial';
   
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database-s3';
+import { requireAuth } from '@/lib/auth';
+import { getServiceAuthHeaders } from '@/lib/api-keys';
 
 export async function POST(
   request: NextRequest,
@@ -27,6 +29,9 @@ export async function POST(
       );
     }
 
+    const auth = await requireAuth(request, 'manage', fund.moduleType);
+    if (!auth.authorized) return auth.response;
+
     // Find any failed background jobs for this fund
     const failedJobs = await prisma.background_jobs.findMany({
       where: {
@@ -65,6 +70,7 @@ export async function POST(
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...getServiceAuthHeaders(),
         },
         body: JSON.stringify({
           jobId: latestFailedJob.id,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getFundWithDocuments, prisma } from '@/lib/database-s3';
 import { DeleteObjectCommand, S3Client } from '@aws-sdk/client-s3';
 import { getAWSCredentials, AWS_REGION, S3_BUCKET } from '@/lib/aws-credentials';
+import { requireAuth } from '@/lib/auth';
 
 // CRITICAL FIX: Create S3 client lazily
 let s3Client: S3Client | null = null;
@@ -28,6 +29,9 @@ export async function GET(
       );
     }
 
+    const auth = await requireAuth(request, 'read', fund.moduleType);
+    if (!auth.authorized) return auth.response;
+
     // Return fund data with document metadata (not binary data)
     return NextResponse.json({
       success: true,
@@ -81,6 +85,9 @@ export async function DELETE(
       );
     }
 
+    const auth = await requireAuth(request, 'manage', fund.moduleType);
+    if (!auth.authorized) return auth.response;
+
     // Delete all documents from S3
     if (fund.fund_documents.length > 0) {
       const deletePromises = fund.fund_documents.map(async (doc) => {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database-s3';
 import { sqsService } from '@/lib/sqs-service';
 import { FundStatus, DocumentType } from '@prisma/client';
+import { getTenantId, tenantS3Key, withRawSql } from '@/lib/tenant';
 
 interface CreateFundAsyncRequest {
   name: string;
@@ -45,15 +46,16 @@ export async function POST(request: NextRequest) {
 
     // Create fund record using raw SQL to avoid Prisma schema mismatch
     const fundId = crypto.randomUUID();
-    await prisma.$executeRaw`
-      INSERT INTO funds (id, name, description, status, "createdAt", "updatedAt")
-      VALUES (${fundId}, ${name}, ${description || 'Fund innovative businesses to employ tertiary-level students as full-time interns over their summer break.'}, 'DRAFT', NOW(), NOW())
-    `;
+    const organizationId = await getTenantId();
+    await withRawSql(() => prisma.$executeRaw`
+      INSERT INTO funds (id, name, description, status, "createdAt", "updatedAt", "organizationId")
+      VALUES (${fundId}, ${name}, ${description || 'Fund innovative businesses to employ tertiary-level students as full-time interns over their summer break.'}, 'DRAFT', NOW(), NOW(), ${organizationId})
+    `);
 
     // Fetch the created fund
-    const fund: any = await prisma.$queryRaw`
+    const fund: any = await withRawSql(() => prisma.$queryRaw`
       SELECT * FROM funds WHERE id = ${fundId}
-    `.then((rows: any[]) => rows[0]);
+    `).then((rows: any[]) => rows[0]);
 
     // Collect all files for async processing
     const documentsToProcess: Array<{
@@ -139,7 +141,7 @@ export async function POST(request: NextRequest) {
     for (const doc of documentsToProcess) {
       // Generate unique S3 key
       const folder = doc.documentType?.toLowerCase().replace('_', '-') || 'unknown';
-      const s3Key = `${folder}/${crypto.randomUUID()}-${doc.filename}`;
+      const s3Key = await tenantS3Key(`${folder}/${crypto.randomUUID()}-${doc.filename}`);
 
       // Convert base64 to buffer
       const buffer = Buffer.from(doc.content, 'base64');
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sqsService } from '@/lib/sqs-service';
 import { prisma } from '@/lib/database-s3';
+import { getJobStepSummaries, summarizeSteps } from '@/lib/job-steps';
 
 interface RouteParams {
   params: {
@@ -56,6 +57,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       };
     }
 
+    const steps = (await getJobStepSummaries([job.id]))[job.id] ?? [];
+
     return NextResponse.json({
       success: true,
       job: {
@@ -73,7 +76,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         startedAt: job.startedAt,
         completedAt: job.completedAt,
         estimatedCompletion,
-        brainStatus
+        brainStatus,
+        steps,
+        stepProgress: summarizeSteps(steps)
       }
     });
 
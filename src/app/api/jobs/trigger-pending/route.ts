@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database-s3';
 import { JobStatus } from '@prisma/client';
+import { getAppBaseUrl, getServiceAuthHeaders } from '@/lib/api-keys';
+import { requireServiceAuth } from '@/lib/auth';
 
 /**
  * Serverless-compatible endpoint to process stale PENDING jobs
@@ -12,141 +14,141 @@ import { JobStatus } from '@prisma/client';
  * 3. Manually when jobs are stuck
  */
 export async function POST(request: NextRequest) {
-  try {
-    // Parse optional parameters
-    let body: any = {};
+  return requireServiceAuth(request, 'jobs:process', 'manage', null, async () => {
     try {
-      const text = await request.text();
-      if (text) {
-        body = JSON.parse(text);
+      // Parse optional parameters
+      let body: any = {};
+      try {
+        const text = await request.text();
+        if (text) {
+          body = JSON.parse(text);
+        }
+      } catch {
+        // Ignore parse errors - body is optional
       }
-    } catch {
-      // Ignore parse errors - body is optional
-    }
 
-    const { immediate = false, fundId = null } = body;
+      const { immediate = false, fundId = null } = body;
 
-    console.log('🔍 Checking for PENDING jobs...', { immediate, fundId });
+      console.log('🔍 Checking for PENDING jobs...', { immediate, fundId });
 
-    // Build query conditions
-    const whereConditions: any = {
-      type: 'RAG_PROCESSING',
-      status: JobStatus.PENDING,
-    };
-
-    // If immediate trigger, don't wait for age threshold
-    if (!immediate) {
-      whereConditions.createdAt = {
-        lt: new Date(Date.now() - 30 * 1000) // Created > 30 seconds ago
+      // Build query conditions
+      const whereConditions: any = {
+        type: 'RAG_PROCESSING',
+        status: JobStatus.PENDING,
       };
-    }
 
-    // If specific fundId provided, only process that fund's jobs
-    if (fundId) {
-      whereConditions.fundId = fundId;
-    }
+      // If immediate trigger, don't wait for age threshold
+      if (!immediate) {
+        whereConditions.createdAt = {
+          lt: new Date(Date.now() - 30 * 1000) // Created > 30 seconds ago
+        };
+      }
 
-    // Find PENDING RAG_PROCESSING jobs
-    const stalePendingJobs = await prisma.background_jobs.findMany({
-      where: whereConditions,
-      include: {
-        fund: {
-          select: {
-            id: true,
-            name: true,
-            moduleType: true
+      // If specific fundId provided, only process that fund's jobs
+      if (fundId) {
+        whereConditions.fundId = fundId;
+      }
+
+      // Find PENDING RAG_PROCESSING jobs
+      const stalePendingJobs = await prisma.background_jobs.findMany({
+        where: whereConditions,
+        include: {
+          fund: {
+            select: {
+              id: true,
+              name: true,
+              moduleType: true
+            }
           }
         }
+      });
+
+      if (stalePendingJobs.length === 0) {
+        return NextResponse.json({
+          success: true,
+          message: 'No stale pending jobs found',
+          checked: new Date().toISOString()
+        });
       }
-    });
 
-    if (stalePendingJobs.length === 0) {
-      return NextResponse.json({
-        success: true,
-        message: 'No stale pending jobs found',
-        checked: new Date().toISOString()
-      });
-    }
+      console.log(`🔧 Found ${stalePendingJobs.length} stale PENDING job(s), triggering processing...`);
 
-    console.log(`🔧 Found ${stalePendingJobs.length} stale PENDING job(s), triggering processing...`);
+      const results = [];
 
-    const results = [];
+      for (const job of stalePendingJobs) {
+        try {
+          console.log(`🧠 Triggering brain assembly for ${job.fund?.moduleType} module: ${job.fund?.name}`);
 
-    for (const job of stalePendingJobs) {
-      try {
-        console.log(`🧠 Triggering brain assembly for ${job.fund?.moduleType} module: ${job.fund?.name}`);
-
-        // Get the base URL (use environment variable in production)
-        const baseUrl = process.env.NODE_ENV === 'production'
-          ? (process.env.NEXTAUTH_URL || 'https://main.d2l8hlr3sei3te.amplifyapp.com')
-          : 'http://localhost:3000';
-
-        // Build the correct assembly URL based on module type
-        let assemblyUrl;
-        if (job.fund?.moduleType === 'PROCUREMENT_ADMIN') {
-          // FIXED: Use baseId parameter name instead of fundId
-          assemblyUrl = `${baseUrl}/api/procurement-brain/${job.fund.id}/assemble`;
-        } else {
-          assemblyUrl = `${baseUrl}/api/brain/${job.fundId}/assemble`;
-        }
+          const baseUrl = getAppBaseUrl();
 
-        console.log(`📡 Calling assembly endpoint: ${assemblyUrl}`);
+          // Build the correct assembly URL based on module type
+          let assemblyUrl;
+          if (job.fund?.moduleType === 'PROCUREMENT_ADMIN') {
+            // FIXED: Use baseId parameter name instead of fundId
+            assemblyUrl = `${baseUrl}/api/procurement-brain/${job.fund.id}/assemble`;
+          } else {
+            assemblyUrl = `${baseUrl}/api/brain/${job.fundId}/assemble`;
+          }
 
-        // Trigger brain assembly
-        const response = await fetch(assemblyUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        });
+          console.log(`📡 Calling assembly endpoint: ${assemblyUrl}`);
 
-        if (response.ok) {
-          const result = await response.json();
-          console.log(`✅ Successfully triggered ${job.fund?.moduleType} brain assembly for job ${job.id}`);
-          results.push({
-            jobId: job.id,
-            fundId: job.fundId,
-            moduleType: job.fund?.moduleType,
-            status: 'triggered',
-            result
+          // Trigger brain assembly
+          const response = await fetch(assemblyUrl, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...getServiceAuthHeaders(),
+            },
           });
-        } else {
-          const errorText = await response.text();
-          console.error(`❌ Failed to trigger brain assembly for job ${job.id}: ${response.status}`);
-          console.error('Error response:', errorText);
+
+          if (response.ok) {
+            const result = await response.json();
+            console.log(`✅ Successfully triggered ${job.fund?.moduleType} brain assembly for job ${job.id}`);
+            results.push({
+              jobId: job.id,
+              fundId: job.fundId,
+              moduleType: job.fund?.moduleType,
+              status: 'triggered',
+              result
+            });
+          } else {
+            const errorText = await response.text();
+            console.error(`❌ Failed to trigger brain assembly for job ${job.id}: ${response.status}`);
+            console.error('Error response:', errorText);
+            results.push({
+              jobId: job.id,
+              fundId: job.fundId,
+              moduleType: job.fund?.moduleType,
+              status: 'failed',
+              error: errorText.substring(0, 200) // Truncate long errors
+            });
+          }
+        } catch (error) {
+          console.error(`❌ Error processing job ${job.id}:`, error);
           results.push({
             jobId: job.id,
             fundId: job.fundId,
             moduleType: job.fund?.moduleType,
-            status: 'failed',
-            error: errorText.substring(0, 200) // Truncate long errors
+            status: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error'
           });
         }
-      } catch (error) {
-        console.error(`❌ Error processing job ${job.id}:`, error);
-        results.push({
-          jobId: job.id,
-          fundId: job.fundId,
-          moduleType: job.fund?.moduleType,
-          status: 'error',
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
       }
-    }
 
-    return NextResponse.json({
-      success: true,
-      message: `Processed ${stalePendingJobs.length} stale PENDING job(s)`,
-      results
-    });
+      return NextResponse.json({
+        success: true,
+        message: `Processed ${stalePendingJobs.length} stale PENDING job(s)`,
+        results
+      });
 
-  } catch (error) {
-    console.error('❌ Error checking pending jobs:', error);
-    return NextResponse.json({
-      error: 'Failed to check pending jobs',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
-  }
+    } catch (error) {
+      console.error('❌ Error checking pending jobs:', error);
+      return NextResponse.json({
+        error: 'Failed to check pending jobs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, { status: 500 });
+    }
+  });
 }
 
 /**
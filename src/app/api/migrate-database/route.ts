@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database-s3';
+import { withRawSql } from '@/lib/tenant';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,8 +17,8 @@ export async function POST(request: NextRequest) {
 
     console.log('Running database migration for background jobs...');
 
-    // Check if background_jobs table already exists
-    const tableExists = await checkTableExists();
+    // Check if background_jobs table already exists (schema SQL, not tenant data)
+    const tableExists = await withRawSql(checkTableExists);
     
     if (tableExists) {
       return NextResponse.json({
@@ -28,7 +29,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Run the migration SQL
-    await runMigration();
+    await withRawSql(runMigration);
     
     console.log('Database migration completed successfully');
     
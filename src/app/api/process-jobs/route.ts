@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { BackgroundJobService } from '@/lib/background-job-service';
+import { recoverExpiredLeases } from '@/lib/job-queue';
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,6 +16,9 @@ export async function POST(request: NextRequest) {
     }
 
     console.log('Processing background jobs...');
+
+    // Jobs whose worker died go back in the queue (or to dead-letter) first
+    const recoveredJobs = await recoverExpiredLeases();
     
     let processedCount = 0;
     let hasMoreJobs = true;
@@ -32,6 +36,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       processedJobs: processedCount,
+      recoveredJobs,
       hasMoreJobs,
       timestamp: new Date().toISOString()
     });
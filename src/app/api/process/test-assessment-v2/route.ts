@@ -4,6 +4,9 @@ import { prisma } from '@/lib/database-s3';
 // Static imports as fallbacks for the dynamic imports
 import { extractTextFromFile } from '@/utils/server-document-analyzer';
 import { resilientAssessmentService } from '@/lib/resilient-assessment-service';
+import { withUsageContext } from '@/lib/usage-tracker';
+import { requireAuth } from '@/lib/auth';
+import crypto from 'crypto';
 
 
 export async function POST(request: NextRequest) {
@@ -32,7 +35,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        return await handleFundBasedAssessment(file, fundId);
+        return await handleFundBasedAssessment(request, file, fundId);
         
     } catch (error) {
         console.error('Error in test assessment:', error);
@@ -51,7 +54,7 @@ export async function POST(request: NextRequest) {
 /**
  * Handle fund-based assessment using the universal template system
  */
-async function handleFundBasedAssessment(file: File, fundId: string) {
+async function handleFundBasedAssessment(request: NextRequest, file: File, fundId: string) {
     console.log(`🎯 Fund-based assessment: ${file.name} against fund ${fundId}`);
 
     try {
@@ -68,6 +71,9 @@ async function handleFundBasedAssessment(file: File, fundId: string) {
             );
         }
 
+        const auth = await requireAuth(request, 'assess', fund.moduleType);
+        if (!auth.authorized) return auth.response;
+
         // Get application content (using static import)
         const applicationContent = await extractTextFromFile(file);
 
@@ -78,12 +84,12 @@ async function handleFundBasedAssessment(file: File, fundId: string) {
         const outputTemplatesAnalysis = fund.outputTemplatesAnalysis as any;
         const fundBrain = fund.fundBrain as any;
 
-        // **NEW: For PROCUREMENT module, also get global procurement base brain**
+        // **NEW: For PROCUREMENT module, also get the organisation's procurement base brain**
         let globalProcurementBrain = null;
         if (fund.moduleType === 'PROCUREMENT') {
             console.log('📚 Retrieving global procurement base for combined brain assessment...');
             const procurementBase = await prisma.funds.findFirst({
-                where: { moduleType: 'PROCUREMENT_ADMIN' },
+                where: { moduleType: 'PROCUREMENT_ADMIN', organizationId: fund.organizationId },
                 orderBy: { createdAt: 'desc' }
             });
 
@@ -143,11 +149,12 @@ async function handleFundBasedAssessment(file: File, fundId: string) {
 
         console.log('🧠 Using resilient assessment service with single-stage template reasoning...');
 
-        // Use new resilient assessment service
-        const resilientResult = await resilientAssessmentService.assess(
-            applicationContent,
-            completeFundBrain,
-            file.name
+        // Use new resilient assessment service. Model usage is tagged with a run id so it can be
+        // attributed to the assessment record once the client saves it.
+        const usageRunId = crypto.randomUUID();
+        const resilientResult = await withUsageContext(
+            { fundId: fund.id, runId: usageRunId, moduleType: fund.moduleType },
+            () => resilientAssessmentService.assess(applicationContent, completeFundBrain, file.name)
         );
 
         // Check if resilient assessment succeeded
@@ -216,7 +223,8 @@ async function handleFundBasedAssessment(file: File, fundId: string) {
             score: assessmentData.extractedFields?.overallScore || 75,
             feedback: assessmentResult.transparencyInfo.userMessage,
             analysisMode: 'RESILIENT_FUND_ASSESSMENT',
-            templateMetadata: null
+            templateMetadata: null,
+            usageRunId
         });
 
     } catch (error) {
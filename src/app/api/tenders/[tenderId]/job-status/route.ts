@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { BackgroundJobService } from '@/lib/background-job-service';
 import { prisma } from '@/lib/database-s3';
+import { getServiceAuthHeaders } from '@/lib/api-keys';
 
 export async function GET(
   request: NextRequest,
@@ -97,7 +98,7 @@ export async function GET(
           // Fire and forget - don't await
           fetch(assemblyUrl, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' }
+            headers: { 'Content-Type': 'application/json', ...getServiceAuthHeaders() }
           }).then(response => {
             if (response.ok) {
               console.log(`✅ Successfully triggered brain assembly for tender ${tenderId}`);
@@ -195,7 +196,7 @@ function getOverallStatus(jobs: any[]): 'pending' | 'processing' | 'completed' |
   const statuses = jobs.map(job => job.status);
 
   if (statuses.every(status => status === 'COMPLETED')) return 'completed';
-  if (statuses.some(status => status === 'FAILED')) return 'failed';
+  if (statuses.some(status => status === 'FAILED' || status === 'DEAD_LETTER' || status === 'CANCELLED')) return 'failed';
   if (statuses.some(status => status === 'PROCESSING')) return 'processing';
   if (statuses.some(status => status === 'COMPLETED')) return 'partial';
 
@@ -211,10 +212,14 @@ function getCurrentTask(ragJob: any): string {
     return 'Tender knowledgebase complete';
   }
 
-  if (ragJob.status === 'FAILED') {
+  if (ragJob.status === 'FAILED' || ragJob.status === 'DEAD_LETTER') {
     return 'Processing failed';
   }
 
+  if (ragJob.status === 'CANCELLED') {
+    return 'Processing cancelled';
+  }
+
   // Map progress to tasks (tender-specific messaging)
   if (progress < 20) return 'Processing pre-RFP documents...';
   if (progress < 40) return 'Analysing RFP requirements...';
@@ -225,7 +230,7 @@ function getCurrentTask(ragJob: any): string {
 }
 
 function getEstimatedCompletion(ragJob: any): string | undefined {
-  if (!ragJob || ragJob.status === 'COMPLETED' || ragJob.status === 'FAILED') {
+  if (!ragJob || ['COMPLETED', 'FAILED', 'DEAD_LETTER', 'CANCELLED'].includes(ragJob.status)) {
     return undefined;
   }
 
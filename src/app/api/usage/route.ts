@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ModuleType } from '@prisma/client';
+import { getUsageSummary, getPriceTable } from '@/lib/usage-tracker';
+
+/**
+ * Model token usage and estimated spend, grouped per fund, module and task
+ *
+ * Query parameters (all optional): fundId, jobId, assessmentId, moduleType, since (ISO date)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const moduleTypeParam = searchParams.get('moduleType');
+    const sinceParam = searchParams.get('since');
+
+    if (moduleTypeParam && !(moduleTypeParam in ModuleType)) {
+      return NextResponse.json({
+        error: `Invalid moduleType: ${moduleTypeParam}`
+      }, { status: 400 });
+    }
+
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json({
+        error: `Invalid since date: ${sinceParam}`
+      }, { status: 400 });
+    }
+
+    const summary = await getUsageSummary({
+      fundId: searchParams.get('fundId') || undefined,
+      jobId: searchParams.get('jobId') || undefined,
+      assessmentId: searchParams.get('assessmentId') || undefined,
+      moduleType: (moduleTypeParam as ModuleType) || undefined,
+      since,
+    });
+
+    return NextResponse.json({
+      success: true,
+      currency: 'USD',
+      priceTable: getPriceTable(),
+      ...summary
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching model usage:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch model usage',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { hashPassword, requireAuth } from '@/lib/auth';
+import { isModuleName, isUserRole } from '@/lib/rbac';
+import { ModuleType, Prisma, UserRole } from '@prisma/client';
+
+/**
+ * Update roles, module grants, password or active flag (admin only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { userId } = await params;
+    const { name, password, roles, modules, active } = await request.json();
+
+    const data: Prisma.usersUpdateInput = {};
+
+    if (name !== undefined) data.name = name;
+    if (active !== undefined) data.active = Boolean(active);
+    if (password) data.passwordHash = await hashPassword(password);
+
+    if (roles !== undefined) {
+      if (!Array.isArray(roles) || roles.length === 0 || !roles.every(isUserRole)) {
+        return NextResponse.json({ error: `Invalid roles: ${JSON.stringify(roles)}` }, { status: 400 });
+      }
+      data.roles = roles as UserRole[];
+    }
+
+    if (modules !== undefined) {
+      if (!Array.isArray(modules) || !modules.every(isModuleName)) {
+        return NextResponse.json({ error: `Invalid modules: ${JSON.stringify(modules)}` }, { status: 400 });
+      }
+      data.modules = modules as ModuleType[];
+    }
+
+    const existing = await prisma.users.findUnique({ where: { id: userId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const user = await prisma.users.update({
+      where: { id: userId },
+      data,
+      select: { id: true, username: true, name: true, roles: true, modules: true, active: true, updatedAt: true }
+    });
+
+    console.log(`✅ User ${user.username} updated by ${auth.user.username}`);
+
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('❌ Error updating user:', error);
+    return NextResponse.json({
+      error: 'Failed to update user',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Delete a user account (admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { userId } = await params;
+
+    if (userId === auth.user.id) {
+      return NextResponse.json({ error: 'You cannot delete your own account' }, { status: 400 });
+    }
+
+    const existing = await prisma.users.findUnique({ where: { id: userId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await prisma.users.delete({ where: { id: userId } });
+
+    console.log(`🗑️ User ${existing.username} deleted by ${auth.user.username}`);
+
+    return NextResponse.json({ success: true, message: 'User deleted successfully' });
+  } catch (error) {
+    console.error('❌ Error deleting user:', error);
+    return NextResponse.json({
+      error: 'Failed to delete user',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
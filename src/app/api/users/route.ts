@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database-s3';
+import { hashPassword, requireAuth } from '@/lib/auth';
+import { isModuleName, isUserRole } from '@/lib/rbac';
+import { ModuleType, UserRole } from '@prisma/client';
+
+const USER_SELECT = {
+  id: true,
+  username: true,
+  name: true,
+  roles: true,
+  modules: true,
+  active: true,
+  lastLoginAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * List user accounts in the caller's organisation (admin only)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const users = await prisma.users.findMany({
+      select: USER_SELECT,
+      orderBy: { username: 'asc' }
+    });
+
+    return NextResponse.json({ success: true, users });
+  } catch (error) {
+    console.error('❌ Error fetching users:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch users',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Create a user account in the caller's organisation (admin only)
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAuth(request, 'admin');
+  if (!auth.authorized) return auth.response;
+
+  try {
+    const { username, password, name, roles = ['READ_ONLY'], modules = [] } = await request.json();
+
+    if (!username || !password) {
+      return NextResponse.json({
+        error: 'Missing required fields: username, password'
+      }, { status: 400 });
+    }
+
+    if (!Array.isArray(roles) || roles.length === 0 || !roles.every(isUserRole)) {
+      return NextResponse.json({ error: `Invalid roles: ${JSON.stringify(roles)}` }, { status: 400 });
+    }
+
+    if (!Array.isArray(modules) || !modules.every(isModuleName)) {
+      return NextResponse.json({ error: `Invalid modules: ${JSON.stringify(modules)}` }, { status: 400 });
+    }
+
+    const existing = await prisma.users.findUnique({ where: { username } });
+    if (existing) {
+      return NextResponse.json({ error: `User ${username} already exists` }, { status: 409 });
+    }
+
+    const user = await prisma.users.create({
+      data: {
+        username,
+        name,
+        passwordHash: await hashPassword(password),
+        roles: roles as UserRole[],
+        modules: modules as ModuleType[],
+        organizationId: auth.user.organizationId,
+      },
+      select: USER_SELECT
+    });
+
+    console.log(`✅ User ${user.username} created by ${auth.user.username} with roles ${user.roles.join(', ')}`);
+
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('❌ Error creating user:', error);
+    return NextResponse.json({
+      error: 'Failed to create user',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
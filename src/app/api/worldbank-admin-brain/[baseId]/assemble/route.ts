@@ -3,6 +3,7 @@ import { prisma } from '@/lib/database-s3';
 import { sqsService } from '@/lib/sqs-service';
 import { ensureStartup } from '@/lib/startup';
 import { BackgroundJobService } from '@/lib/background-job-service';
+import { requireServiceAuth } from '@/lib/auth';
 
 interface RouteParams {
   params: {
@@ -15,237 +16,239 @@ interface RouteParams {
  * This creates a reusable assessment engine for worldbank assessments
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
-  try {
-    // Ensure background processor is started in production
-    ensureStartup();
-
-    const { baseId } = await params;
+  return requireServiceAuth(request, 'brain:assemble', 'manage', 'WORLDBANK_ADMIN', async () => {
+    try {
+      // Ensure background processor is started in production
+      ensureStartup();
 
-    if (!baseId) {
-      return NextResponse.json({
-        error: 'Base ID is required'
-      }, { status: 400 });
-    }
+      const { baseId } = await params;
 
-    // Get worldbank-admin base with all analyses
-    const worldbankBase = await prisma.funds.findUnique({
-      where: {
-        id: baseId,
-        moduleType: 'WORLDBANK_ADMIN'
-      },
-      include: {
-        fund_documents: true,
-        background_jobs: {
-          where: {
-            type: 'DOCUMENT_ANALYSIS',
-            status: 'COMPLETED'
-          },
-          orderBy: {
-            completedAt: 'desc'
-          },
-          take: 1
-        }
+      if (!baseId) {
+        return NextResponse.json({
+          error: 'Base ID is required'
+        }, { status: 400 });
       }
-    });
 
-    if (!worldbankBase) {
-      return NextResponse.json({
-        error: 'Worldbank base not found'
-      }, { status: 404 });
-    }
-
-    // Check if document analysis is complete
-    if (!worldbankBase.background_jobs.length) {
-      return NextResponse.json({
-        error: 'Document analysis not completed yet'
-      }, { status: 400 });
-    }
-
-    // For worldbank, we expect different types of documents
-    // Map the existing document analyses to worldbank-specific structure
-    const worldbankAnalyses = {
-      policies: worldbankBase.applicationFormAnalysis, // Reuse for policies
-      procedures: worldbankBase.selectionCriteriaAnalysis, // Reuse for procedures
-      templates: worldbankBase.goodExamplesAnalysis, // Reuse for templates
-      standards: worldbankBase.outputTemplatesAnalysis // Reuse for standards
-    };
-
-    // Check if we have sufficient analyses for brain assembly
-    const hasRequiredAnalyses = !!(worldbankAnalyses.policies || worldbankAnalyses.procedures);
-
-    if (!hasRequiredAnalyses) {
-      return NextResponse.json({
-        error: 'Insufficient document analyses for brain assembly',
-        details: 'At least policies or procedures analysis is required'
-      }, { status: 400 });
-    }
+      // Get worldbank-admin base with all analyses
+      const worldbankBase = await prisma.funds.findUnique({
+        where: {
+          id: baseId,
+          moduleType: 'WORLDBANK_ADMIN'
+        },
+        include: {
+          fund_documents: true,
+          background_jobs: {
+            where: {
+              type: 'DOCUMENT_ANALYSIS',
+              status: 'COMPLETED'
+            },
+            orderBy: {
+              completedAt: 'desc'
+            },
+            take: 1
+          }
+        }
+      });
 
-    // Assemble the worldbank brain from all analyses
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('🧠 BRAIN ASSEMBLY: Starting OpenSearch indexing');
-    console.log(`🧠 Base ID: ${baseId}`);
-    console.log(`🧠 Documents to process: ${worldbankBase.fund_documents.length}`);
-    const worldbankBrain = assembleWorldbankBrain({
-      policies: worldbankAnalyses.policies,
-      procedures: worldbankAnalyses.procedures,
-      templates: worldbankAnalyses.templates,
-      standards: worldbankAnalyses.standards,
-      baseInfo: {
-        id: worldbankBase.id,
-        name: worldbankBase.name,
-        description: worldbankBase.description,
-      }
-    });
-    console.log('✅ BRAIN ASSEMBLY: Brain structure created');
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-
-    // Update worldbank base with assembled brain
-    const updatedBase = await prisma.funds.update({
-      where: { id: baseId },
-      data: {
-        fundBrain: worldbankBrain,
-        brainVersion: (worldbankBase.brainVersion || 0) + 1,
-        brainAssembledAt: new Date(),
+      if (!worldbankBase) {
+        return NextResponse.json({
+          error: 'Worldbank base not found'
+        }, { status: 404 });
       }
-    });
 
-    // Check if there's already a RAG_PROCESSING job for this base
-    const existingRagJob = await prisma.background_jobs.findFirst({
-      where: {
-        fundId: baseId,
-        type: 'RAG_PROCESSING',
-        status: {
-          in: ['PENDING', 'PROCESSING', 'COMPLETED']
-        }
+      // Check if document analysis is complete
+      if (!worldbankBase.background_jobs.length) {
+        return NextResponse.json({
+          error: 'Document analysis not completed yet'
+        }, { status: 400 });
       }
-    });
-
-    // Get actual document count
-    const documentCount = worldbankBase.fund_documents.length;
-
-    console.log(`🚀 Starting RAG processing for worldbank base ${baseId} with ${documentCount} documents`);
 
-    // Get DOCUMENT_ANALYSIS job to copy textractJobs metadata to RAG job
-    const documentAnalysisJob = await prisma.background_jobs.findFirst({
-      where: {
-        fundId: baseId,
-        type: 'DOCUMENT_ANALYSIS',
-        status: 'COMPLETED'
-      },
-      orderBy: {
-        completedAt: 'desc'
+      // For worldbank, we expect different types of documents
+      // Map the existing document analyses to worldbank-specific structure
+      const worldbankAnalyses = {
+        policies: worldbankBase.applicationFormAnalysis, // Reuse for policies
+        procedures: worldbankBase.selectionCriteriaAnalysis, // Reuse for procedures
+        templates: worldbankBase.goodExamplesAnalysis, // Reuse for templates
+        standards: worldbankBase.outputTemplatesAnalysis // Reuse for standards
+      };
+
+      // Check if we have sufficient analyses for brain assembly
+      const hasRequiredAnalyses = !!(worldbankAnalyses.policies || worldbankAnalyses.procedures);
+
+      if (!hasRequiredAnalyses) {
+        return NextResponse.json({
+          error: 'Insufficient document analyses for brain assembly',
+          details: 'At least policies or procedures analysis is required'
+        }, { status: 400 });
       }
-    });
 
-    // Extract textractJobs from DOCUMENT_ANALYSIS job metadata
-    const textractJobs = (documentAnalysisJob?.metadata as any)?.textractJobs || {};
-    console.log(`📋 Found ${Object.keys(textractJobs).length} textract job(s) from DOCUMENT_ANALYSIS to copy to RAG job`);
-
-    // Actually process the RAG job to generate embeddings and store in OpenSearch
-    let brainJob;
-    if (existingRagJob && existingRagJob.status === 'PENDING') {
-      // Job exists and is pending - process it now
-      console.log(`Processing existing PENDING RAG job ${existingRagJob.id}`);
-      brainJob = existingRagJob;
-
-      // Process in background (non-blocking)
-      BackgroundJobService.processRAGJob(existingRagJob.id)
-        .then(() => {
-          console.log(`✅ RAG processing completed for job ${existingRagJob.id}`);
-          // Update fund status to ACTIVE after RAG completes (preserve fundBrain)
-          return prisma.funds.update({
-            where: { id: baseId },
-            data: {
-              status: 'ACTIVE',
-              openSearchIndex: `worldbank-admin-documents`, // Store index name
-              fundBrain: updatedBase.fundBrain,
-              brainAssembledAt: updatedBase.brainAssembledAt,
-              brainVersion: updatedBase.brainVersion
-            }
-          });
-        })
-        .catch(error => {
-          console.error(`❌ RAG processing failed for job ${existingRagJob.id}:`, error);
-        });
-    } else if (existingRagJob && existingRagJob.status === 'COMPLETED') {
-      // Already completed
-      console.log(`RAG job already completed: ${existingRagJob.id}`);
-      brainJob = existingRagJob;
+      // Assemble the worldbank brain from all analyses
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log('🧠 BRAIN ASSEMBLY: Starting OpenSearch indexing');
+      console.log(`🧠 Base ID: ${baseId}`);
+      console.log(`🧠 Documents to process: ${worldbankBase.fund_documents.length}`);
+      const worldbankBrain = assembleWorldbankBrain({
+        policies: worldbankAnalyses.policies,
+        procedures: worldbankAnalyses.procedures,
+        templates: worldbankAnalyses.templates,
+        standards: worldbankAnalyses.standards,
+        baseInfo: {
+          id: worldbankBase.id,
+          name: worldbankBase.name,
+          description: worldbankBase.description,
+        }
+      });
+      console.log('✅ BRAIN ASSEMBLY: Brain structure created');
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 
-      // Update status to ACTIVE if not already (preserve fundBrain from earlier update)
-      await prisma.funds.update({
+      // Update worldbank base with assembled brain
+      const updatedBase = await prisma.funds.update({
         where: { id: baseId },
         data: {
-          status: 'ACTIVE',
-          openSearchIndex: `worldbank-admin-documents`,
-          fundBrain: updatedBase.fundBrain,
-          brainAssembledAt: updatedBase.brainAssembledAt,
-          brainVersion: updatedBase.brainVersion
+          fundBrain: worldbankBrain,
+          brainVersion: (worldbankBase.brainVersion || 0) + 1,
+          brainAssembledAt: new Date(),
         }
       });
-    } else {
-      // No job exists - create one and process it
-      console.log(`Creating new RAG_PROCESSING job for ${baseId}`);
-      brainJob = await prisma.background_jobs.create({
-        data: {
+
+      // Check if there's already a RAG_PROCESSING job for this base
+      const existingRagJob = await prisma.background_jobs.findFirst({
+        where: {
           fundId: baseId,
           type: 'RAG_PROCESSING',
-          status: 'PENDING',
-          progress: 0,
-          totalDocuments: documentCount,
-          processedDocuments: 0,
-          moduleType: 'WORLDBANK_ADMIN',
-          metadata: {
-            brainVersion: updatedBase.brainVersion,
-            createdAt: new Date().toISOString(),
-            textractJobs: textractJobs, // Copy extracted text from DOCUMENT_ANALYSIS job
+          status: {
+            in: ['PENDING', 'PROCESSING', 'COMPLETED']
           }
         }
       });
 
-      console.log(`Processing new RAG job ${brainJob.id}`);
-
-      // Process in background (non-blocking)
-      BackgroundJobService.processRAGJob(brainJob.id)
-        .then(() => {
-          console.log(`✅ RAG processing completed for job ${brainJob.id}`);
-          // Update fund status to ACTIVE after RAG completes (preserve fundBrain)
-          return prisma.funds.update({
-            where: { id: baseId },
-            data: {
-              status: 'ACTIVE',
-              openSearchIndex: `worldbank-admin-documents`,
-              fundBrain: updatedBase.fundBrain,
-              brainAssembledAt: updatedBase.brainAssembledAt,
-              brainVersion: updatedBase.brainVersion
-            }
+      // Get actual document count
+      const documentCount = worldbankBase.fund_documents.length;
+
+      console.log(`🚀 Starting RAG processing for worldbank base ${baseId} with ${documentCount} documents`);
+
+      // Get DOCUMENT_ANALYSIS job to copy textractJobs metadata to RAG job
+      const documentAnalysisJob = await prisma.background_jobs.findFirst({
+        where: {
+          fundId: baseId,
+          type: 'DOCUMENT_ANALYSIS',
+          status: 'COMPLETED'
+        },
+        orderBy: {
+          completedAt: 'desc'
+        }
+      });
+
+      // Extract textractJobs from DOCUMENT_ANALYSIS job metadata
+      const textractJobs = (documentAnalysisJob?.metadata as any)?.textractJobs || {};
+      console.log(`📋 Found ${Object.keys(textractJobs).length} textract job(s) from DOCUMENT_ANALYSIS to copy to RAG job`);
+
+      // Actually process the RAG job to generate embeddings and store in OpenSearch
+      let brainJob;
+      if (existingRagJob && existingRagJob.status === 'PENDING') {
+        // Job exists and is pending - process it now
+        console.log(`Processing existing PENDING RAG job ${existingRagJob.id}`);
+        brainJob = existingRagJob;
+
+        // Process in background (non-blocking)
+        BackgroundJobService.processRAGJob(existingRagJob.id)
+          .then(() => {
+            console.log(`✅ RAG processing completed for job ${existingRagJob.id}`);
+            // Update fund status to ACTIVE after RAG completes (preserve fundBrain)
+            return prisma.funds.update({
+              where: { id: baseId },
+              data: {
+                status: 'ACTIVE',
+                openSearchIndex: `worldbank-admin-documents`, // Store index name
+                fundBrain: updatedBase.fundBrain,
+                brainAssembledAt: updatedBase.brainAssembledAt,
+                brainVersion: updatedBase.brainVersion
+              }
+            });
+          })
+          .catch(error => {
+            console.error(`❌ RAG processing failed for job ${existingRagJob.id}:`, error);
           });
-        })
-        .catch(error => {
-          console.error(`❌ RAG processing failed for job ${brainJob.id}:`, error);
+      } else if (existingRagJob && existingRagJob.status === 'COMPLETED') {
+        // Already completed
+        console.log(`RAG job already completed: ${existingRagJob.id}`);
+        brainJob = existingRagJob;
+
+        // Update status to ACTIVE if not already (preserve fundBrain from earlier update)
+        await prisma.funds.update({
+          where: { id: baseId },
+          data: {
+            status: 'ACTIVE',
+            openSearchIndex: `worldbank-admin-documents`,
+            fundBrain: updatedBase.fundBrain,
+            brainAssembledAt: updatedBase.brainAssembledAt,
+            brainVersion: updatedBase.brainVersion
+          }
+        });
+      } else {
+        // No job exists - create one and process it
+        console.log(`Creating new RAG_PROCESSING job for ${baseId}`);
+        brainJob = await prisma.background_jobs.create({
+          data: {
+            fundId: baseId,
+            type: 'RAG_PROCESSING',
+            status: 'PENDING',
+            progress: 0,
+            totalDocuments: documentCount,
+            processedDocuments: 0,
+            moduleType: 'WORLDBANK_ADMIN',
+            metadata: {
+              brainVersion: updatedBase.brainVersion,
+              createdAt: new Date().toISOString(),
+              textractJobs: textractJobs, // Copy extracted text from DOCUMENT_ANALYSIS job
+            }
+          }
         });
-    }
 
-    console.log(`Worldbank brain assembly initiated for ${baseId}`);
+        console.log(`Processing new RAG job ${brainJob.id}`);
+
+        // Process in background (non-blocking)
+        BackgroundJobService.processRAGJob(brainJob.id)
+          .then(() => {
+            console.log(`✅ RAG processing completed for job ${brainJob.id}`);
+            // Update fund status to ACTIVE after RAG completes (preserve fundBrain)
+            return prisma.funds.update({
+              where: { id: baseId },
+              data: {
+                status: 'ACTIVE',
+                openSearchIndex: `worldbank-admin-documents`,
+                fundBrain: updatedBase.fundBrain,
+                brainAssembledAt: updatedBase.brainAssembledAt,
+                brainVersion: updatedBase.brainVersion
+              }
+            });
+          })
+          .catch(error => {
+            console.error(`❌ RAG processing failed for job ${brainJob.id}:`, error);
+          });
+      }
 
-    return NextResponse.json({
-      success: true,
-      brain: {
-        version: updatedBase.brainVersion,
-        assembledAt: updatedBase.brainAssembledAt,
-        jobId: brainJob.id,
-        components: Object.keys(worldbankBrain),
-      },
-      message: 'Worldbank brain assembled successfully'
-    });
+      console.log(`Worldbank brain assembly initiated for ${baseId}`);
 
-  } catch (error) {
-    console.error('Error assembling worldbank brain:', error);
-    return NextResponse.json({
-      error: 'Failed to assemble worldbank brain',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
-  }
+      return NextResponse.json({
+        success: true,
+        brain: {
+          version: updatedBase.brainVersion,
+          assembledAt: updatedBase.brainAssembledAt,
+          jobId: brainJob.id,
+          components: Object.keys(worldbankBrain),
+        },
+        message: 'Worldbank brain assembled successfully'
+      });
+
+    } catch (error) {
+      console.error('Error assembling worldbank brain:', error);
+      return NextResponse.json({
+        error: 'Failed to assemble worldbank brain',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, { status: 500 });
+    }
+  });
 }
 
 /**
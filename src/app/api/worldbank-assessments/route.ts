@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database-s3';
 import { AssessmentType, AssessmentStatus } from '@prisma/client';
+import { checkUsageRun, linkRunToAssessment } from '@/lib/usage-tracker';
 
 interface CreateWorldbankAssessmentRequest {
   projectId: string;
@@ -10,6 +11,7 @@ interface CreateWorldbankAssessmentRequest {
   overallScore?: number;
   scoringResults: any;
   assessmentData: any;
+  usageRunId?: string;
 }
 
 export async function POST(request: NextRequest) {
@@ -54,6 +56,18 @@ export async function POST(request: NextRequest) {
       }, { status: 404 });
     }
 
+    // The run id comes from the client: only usage of this fund's own, unlinked run is attributed
+    const usageRunId = body.usageRunId ?? assessmentData?.usageRunId;
+    if (usageRunId) {
+      const runError = await checkUsageRun(String(usageRunId), projectId);
+      if (runError) {
+        return NextResponse.json({
+          error: 'Invalid usageRunId',
+          details: runError
+        }, { status: 400 });
+      }
+    }
+
     // Create assessment record
     console.log('💾 Creating worldbank assessment in database...');
     const assessment = await prisma.assessments.create({
@@ -80,6 +94,11 @@ export async function POST(request: NextRequest) {
 
     console.log('✅ Worldbank assessment created successfully:', assessment.id, assessment.organizationName);
 
+    // Attribute model usage from the assessment run to the saved record
+    if (usageRunId) {
+      await linkRunToAssessment(String(usageRunId), assessment);
+    }
+
     return NextResponse.json({
       success: true,
       assessment,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { BackgroundJobService } from '@/lib/background-job-service';
 import { prisma } from '@/lib/database-s3';
+import { getServiceAuthHeaders } from '@/lib/api-keys';
 
 export async function GET(
   request: NextRequest,
@@ -108,7 +109,7 @@ export async function GET(
           // Fire and forget - don't await
           fetch(assemblyUrl, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' }
+            headers: { 'Content-Type': 'application/json', ...getServiceAuthHeaders() }
           }).then(response => {
             if (response.ok) {
               console.log(`✅ Successfully triggered brain assembly for ${baseId}`);
@@ -215,7 +216,7 @@ function getOverallStatus(jobs: any[]): 'pending' | 'processing' | 'completed' |
   const statuses = jobs.map(job => job.status);
 
   if (statuses.every(status => status === 'COMPLETED')) return 'completed';
-  if (statuses.some(status => status === 'FAILED')) return 'failed';
+  if (statuses.some(status => status === 'FAILED' || status === 'DEAD_LETTER' || status === 'CANCELLED')) return 'failed';
   if (statuses.some(status => status === 'PROCESSING')) return 'processing';
   if (statuses.some(status => status === 'COMPLETED')) return 'partial';
 
@@ -231,10 +232,14 @@ function getCurrentTask(ragJob: any): string {
     return 'Base configuration complete';
   }
 
-  if (ragJob.status === 'FAILED') {
+  if (ragJob.status === 'FAILED' || ragJob.status === 'DEAD_LETTER') {
     return 'Processing failed';
   }
 
+  if (ragJob.status === 'CANCELLED') {
+    return 'Processing cancelled';
+  }
+
   // Map progress to tasks
   if (progress < 20) return 'Processing policy documents...';
   if (progress < 40) return 'Analysing compliance requirements...';
@@ -245,7 +250,7 @@ function getCurrentTask(ragJob: any): string {
 }
 
 function getEstimatedCompletion(ragJob: any): string | undefined {
-  if (!ragJob || ragJob.status === 'COMPLETED' || ragJob.status === 'FAILED') {
+  if (!ragJob || ['COMPLETED', 'FAILED', 'DEAD_LETTER', 'CANCELLED'].includes(ragJob.status)) {
     return undefined;
   }
 
@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import { prisma } from '@/lib/database-s3';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { sqsService } from '@/lib/sqs-service';
 import { ensureStartup } from '@/lib/startup';
 import crypto from 'crypto';
 import { getAWSCredentials, AWS_REGION, S3_BUCKET } from '@/lib/aws-credentials';
-
-const prisma = new PrismaClient();
+import { getTenantId, tenantS3Key, withRawSql } from '@/lib/tenant';
 
 // CRITICAL FIX: Create S3 client lazily to ensure Lambda execution role is available
 // Do NOT initialize at module level as credentials may not be ready during cold start
@@ -89,15 +88,16 @@ export async function POST(req: NextRequest) {
 
     // Create the worldbank base using raw SQL to avoid Prisma schema mismatch
     const baseId = crypto.randomUUID();
-    await prisma.$executeRaw`
-      INSERT INTO funds (id, name, description, status, "moduleType", "brainVersion", "createdAt", "updatedAt")
-      VALUES (${baseId}, ${name.trim()}, ${description || null}, 'DRAFT', 'WORLDBANK_ADMIN', 1, NOW(), NOW())
-    `;
+    const organizationId = await getTenantId();
+    await withRawSql(() => prisma.$executeRaw`
+      INSERT INTO funds (id, name, description, status, "moduleType", "brainVersion", "createdAt", "updatedAt", "organizationId")
+      VALUES (${baseId}, ${name.trim()}, ${description || null}, 'DRAFT', 'WORLDBANK_ADMIN', 1, NOW(), NOW(), ${organizationId})
+    `);
 
     // Fetch the created base
-    const base: any = await prisma.$queryRaw`
+    const base: any = await withRawSql(() => prisma.$queryRaw`
       SELECT * FROM funds WHERE id = ${baseId}
-    `.then(rows => rows[0]);
+    `).then(rows => rows[0]);
 
     // Process and upload documents
     const documentUploads = [];
@@ -159,7 +159,7 @@ export async function POST(req: NextRequest) {
         }
 
         // Generate S3 key
-        const documentKey = `worldbank-admin/${base.id}/${crypto.randomUUID()}-${file.filename}`;
+        const documentKey = await tenantS3Key(`worldbank-admin/${base.id}/${crypto.randomUUID()}-${file.filename}`);
 
         // Convert base64 to buffer
         let fileBuffer;
@@ -3,6 +3,7 @@ import { PutObjectCommand } from '@aws-sdk/client-s3';
 import { getS3Client } from '@/lib/aws-credentials';
 import { prisma } from '@/lib/database-s3';
 import crypto from 'crypto';
+import { tenantS3Key } from '@/lib/tenant';
 
 /**
  * DEBUG ENDPOINT - Shows exact errors during worldbank-base document upload
@@ -128,7 +129,7 @@ export async function POST(req: NextRequest) {
         addLog(`  ✓ File validation passed`);
 
         // Generate S3 key
-        const documentKey = `worldbank-admin/${base.id}/${crypto.randomUUID()}-${file.filename}`;
+        const documentKey = await tenantS3Key(`worldbank-admin/${base.id}/${crypto.randomUUID()}-${file.filename}`);
         addLog(`  ✓ S3 key: ${documentKey}`);
 
         // Convert base64 to buffer
@@ -1,35 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireServiceAuth } from '@/lib/auth';
 
 // POST: Assemble brain for worldbankgroup admin base (NO-OP for fake demo)
 export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ baseId: string }> }
 ) {
-  try {
-    const { baseId } = await params;
+  return requireServiceAuth(req, 'brain:assemble', 'manage', 'WORLDBANKGROUP_ADMIN', async () => {
+    try {
+      const { baseId } = await params;
 
-    console.log('🎭 [WorldBankGroup Admin Brain FAKE DEMO] Brain assembly called for base:', baseId);
-    console.log('⏸️  [WorldBankGroup Admin Brain FAKE DEMO] This is a no-op - brain assembly is not performed');
+      console.log('🎭 [WorldBankGroup Admin Brain FAKE DEMO] Brain assembly called for base:', baseId);
+      console.log('⏸️  [WorldBankGroup Admin Brain FAKE DEMO] This is a no-op - brain assembly is not performed');
 
-    // FAKE DEMO: Do nothing - just return success
-    // The job status will remain in PROCESSING forever
+      // FAKE DEMO: Do nothing - just return success
+      // The job status will remain in PROCESSING forever
 
-    return NextResponse.json({
-      success: true,
-      message: 'Brain assembly request received',
-      baseId,
-      fakeDemo: true,
-      note: 'This is a demo environment. Brain assembly is simulated and will remain in processing state.'
-    });
+      return NextResponse.json({
+        success: true,
+        message: 'Brain assembly request received',
+        baseId,
+        fakeDemo: true,
+        note: 'This is a demo environment. Brain assembly is simulated and will remain in processing state.'
+      });
 
-  } catch (error) {
-    console.error('[WorldBankGroup Admin Brain] Error in brain assembly endpoint:', error);
-    return NextResponse.json(
-      {
-        error: 'Failed to process brain assembly request',
-        details: error instanceof Error ? error.message : String(error)
-      },
-      { status: 500 }
-    );
-  }
+    } catch (error) {
+      console.error('[WorldBankGroup Admin Brain] Error in brain assembly endpoint:', error);
+      return NextResponse.json(
+        {
+          error: 'Failed to process brain assembly request',
+          details: error instanceof Error ? error.message : String(error)
+        },
+        { status: 500 }
+      );
+    }
+  });
 }
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { prisma } from '@/lib/database-s3';
+import { sqsService } from '@/lib/sqs-service';
+
+/**
+ * Queue the check of an uploaded evaluation report (presigned upload flow)
+ * against the procurement and Cathlab rules; the job stores the findings on the
+ * assessment, which stays IN_PROGRESS until then
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ assessmentId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'assess', 'WORLDBANKGROUP');
+    if (!auth.authorized) return auth.response;
+
+    const { assessmentId } = await params;
+    const assessment = await prisma.assessments.findFirst({
+      where: { id: assessmentId, moduleType: 'WORLDBANKGROUP' },
+    });
+    if (!assessment) {
+      return NextResponse.json({
+        error: 'WorldBankGroup assessment not found'
+      }, { status: 404 });
+    }
+
+    const job = await sqsService.queueAssessmentEvaluation(assessment.fundId, assessment.id);
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      assessment: {
+        id: assessment.id,
+        status: assessment.status,
+      }
+    });
+  } catch (error) {
+    console.error('❌ [WorldBankGroup Assessment] Could not queue rule evaluation:', error);
+    return NextResponse.json({
+      error: 'Failed to evaluate assessment',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,3 @@
+import { exportAssessmentsRoute } from '@/lib/assessment-export';
+
+export const GET = exportAssessmentsRoute('WORLDBANKGROUP', 'projectId');
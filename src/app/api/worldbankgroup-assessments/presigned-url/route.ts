@@ -3,6 +3,7 @@ import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import crypto from 'crypto';
 import { getAWSCredentials, AWS_REGION, S3_BUCKET } from '@/lib/aws-credentials';
+import { tenantS3Key } from '@/lib/tenant';
 
 // Create S3 client
 function getS3Client(): S3Client {
@@ -29,7 +30,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Generate unique S3 key
-    const documentKey = `worldbankgroup-assessments/${projectId}/${crypto.randomUUID()}-${fileName}`;
+    const documentKey = await tenantS3Key(`worldbankgroup-assessments/${projectId}/${crypto.randomUUID()}-${fileName}`);
 
     console.log(`📝 Generating presigned URL for: ${documentKey}`);
 
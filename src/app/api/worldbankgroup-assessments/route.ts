@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import { prisma } from '@/lib/database-s3';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import crypto from 'crypto';
 import { getAWSCredentials, AWS_REGION } from '@/lib/aws-credentials';
-import { mockAssessmentOutput } from '@/lib/worldbankgroup-mock-data';
-
-const prisma = new PrismaClient();
+import { sqsService } from '@/lib/sqs-service';
+import { tenantS3Key } from '@/lib/tenant';
 
 let s3Client: S3Client | null = null;
 
@@ -20,10 +19,10 @@ function getS3Client(): S3Client {
   return s3Client;
 }
 
-// POST: Create assessment (FAKE DEMO - returns hardcoded results)
+// POST: Create assessment - upload the evaluation report and queue its check against the rules
 export async function POST(req: NextRequest) {
   try {
-    console.log('[WorldBankGroup Assessment] Creating new assessment (FAKE DEMO)');
+    console.log('[WorldBankGroup Assessment] Creating new assessment');
 
     const body = await req.json();
     const { projectId, organizationName, evaluationReportFile } = body;
@@ -51,11 +50,11 @@ export async function POST(req: NextRequest) {
     }
 
     // Upload evaluation report to S3 (REAL UPLOAD)
-    const documentKey = `worldbankgroup-assessments/${projectId}/${crypto.randomUUID()}-${evaluationReportFile.filename}`;
+    const documentKey = await tenantS3Key(`worldbankgroup-assessments/${projectId}/${crypto.randomUUID()}-${evaluationReportFile.filename}`);
 
-    try {
-      const fileBuffer = Buffer.from(evaluationReportFile.content, 'base64');
+    const fileBuffer = Buffer.from(evaluationReportFile.content, 'base64');
 
+    try {
       await getS3Client().send(new PutObjectCommand({
         Bucket: process.env.S3_BUCKET_DOCUMENTS!,
         Key: documentKey,
@@ -72,24 +71,20 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // FAKE DEMO: Generate hardcoded assessment output
-    console.log('🎭 [WorldBankGroup Assessment FAKE DEMO] Using hardcoded assessment output');
-    const mockOutput = mockAssessmentOutput();
-
-    // Create assessment record with mock data
     const assessment = await prisma.assessments.create({
       data: {
         id: crypto.randomUUID(),
         fundId: projectId,
         organizationName,
         assessmentType: 'AI_POWERED',
-        status: 'COMPLETED',
-        overallScore: mockOutput.summary.complianceScore,
-        scoringResults: mockOutput,
+        status: 'IN_PROGRESS',
+        overallScore: 0,
+        scoringResults: { status: 'processing' },
         assessmentData: {
           evaluationReportS3Key: documentKey,
           evaluationReportFilename: evaluationReportFile.filename,
-          fakeDemo: true
+          fileSize: fileBuffer.length,
+          uploadedAt: new Date().toISOString()
         },
         moduleType: 'WORLDBANKGROUP',
         createdAt: new Date(),
@@ -97,7 +92,10 @@ export async function POST(req: NextRequest) {
       }
     });
 
-    console.log('✅ [WorldBankGroup Assessment FAKE DEMO] Assessment created with hardcoded results:', assessment.id);
+    // The rule check waits on Textract, so it runs as a background job
+    const job = await sqsService.queueAssessmentEvaluation(projectId, assessment.id);
+
+    console.log('✅ [WorldBankGroup Assessment] Assessment created:', assessment.id);
 
     return NextResponse.json({
       success: true,
@@ -106,12 +104,9 @@ export async function POST(req: NextRequest) {
         fundId: assessment.fundId,
         organizationName: assessment.organizationName,
         status: assessment.status,
-        overallScore: assessment.overallScore,
-        scoringResults: assessment.scoringResults,
         createdAt: assessment.createdAt.toISOString()
       },
-      fakeDemo: true,
-      demoNote: 'This assessment uses pre-written output for demonstration purposes.'
+      jobId: job.id
     });
 
   } catch (error) {
@@ -163,8 +158,7 @@ export async function GET(req: NextRequest) {
         ...a,
         createdAt: a.createdAt.toISOString(),
         updatedAt: a.updatedAt.toISOString()
-      })),
-      fakeDemo: true
+      }))
     });
 
   } catch (error) {
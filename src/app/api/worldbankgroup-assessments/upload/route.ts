@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import { prisma } from '@/lib/database-s3';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import crypto from 'crypto';
 import { getAWSCredentials, AWS_REGION } from '@/lib/aws-credentials';
-
-const prisma = new PrismaClient();
+import { tenantS3Key } from '@/lib/tenant';
 
 // Create a new S3Client on each request to get fresh credentials
 // This is necessary because AWS SSO credentials expire and need to be refreshed
@@ -59,7 +58,7 @@ export async function POST(req: NextRequest) {
       fileName = file.name;
       fileSize = file.size;
       fileType = file.type;
-      documentKey = `worldbankgroup-assessments/${projectId}/${crypto.randomUUID()}-${file.name}`;
+      documentKey = await tenantS3Key(`worldbankgroup-assessments/${projectId}/${crypto.randomUUID()}-${file.name}`);
 
       console.log(`📄 File details: ${file.name} (${file.size} bytes, ${file.type})`);
 
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import { prisma } from '@/lib/database-s3';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import crypto from 'crypto';
 import { getAWSCredentials, AWS_REGION, S3_BUCKET } from '@/lib/aws-credentials';
 import { mockBaseAnalysis } from '@/lib/worldbankgroup-mock-data';
-
-const prisma = new PrismaClient();
+import { getTenantId, tenantS3Key, withRawSql } from '@/lib/tenant';
 
 // CRITICAL FIX: Create S3 client lazily to ensure Lambda execution role is available
 let s3Client: S3Client | null = null;
@@ -75,15 +74,16 @@ export async function POST(req: NextRequest) {
 
     // Create the worldbankgroup base
     const baseId = crypto.randomUUID();
-    await prisma.$executeRaw`
-      INSERT INTO funds (id, name, description, status, "moduleType", "brainVersion", "createdAt", "updatedAt")
-      VALUES (${baseId}, ${name.trim()}, ${description || null}, 'DRAFT', 'WORLDBANKGROUP_ADMIN', 1, NOW(), NOW())
-    `;
+    const organizationId = await getTenantId();
+    await withRawSql(() => prisma.$executeRaw`
+      INSERT INTO funds (id, name, description, status, "moduleType", "brainVersion", "createdAt", "updatedAt", "organizationId")
+      VALUES (${baseId}, ${name.trim()}, ${description || null}, 'DRAFT', 'WORLDBANKGROUP_ADMIN', 1, NOW(), NOW(), ${organizationId})
+    `);
 
     // Fetch the created base
-    const base: any = await prisma.$queryRaw`
+    const base: any = await withRawSql(() => prisma.$queryRaw`
       SELECT * FROM funds WHERE id = ${baseId}
-    `.then(rows => rows[0]);
+    `).then(rows => rows[0]);
 
     console.log('✅ [WorldBankGroup] Base created:', base.id);
 
@@ -116,7 +116,7 @@ export async function POST(req: NextRequest) {
         }
 
         // Generate S3 key with worldbankgroup-admin prefix
-        const documentKey = `worldbankgroup-admin/${base.id}/${crypto.randomUUID()}-${file.filename}`;
+        const documentKey = await tenantS3Key(`worldbankgroup-admin/${base.id}/${crypto.randomUUID()}-${file.filename}`);
 
         // Convert base64 to buffer
         let fileBuffer;
@@ -17,10 +17,12 @@ export async function GET(
 
     console.log(`📊 [WorldBankGroup Projects] Fetching job status for project: ${projectId}`);
 
+    // The project's setup jobs - its assessments' evaluation jobs don't count
     const jobs = await prisma.background_jobs.findMany({
       where: {
         fundId: projectId,
-        moduleType: 'WORLDBANKGROUP'
+        moduleType: 'WORLDBANKGROUP',
+        type: { in: ['DOCUMENT_ANALYSIS', 'RAG_PROCESSING'] }
       },
       orderBy: {
         createdAt: 'desc'
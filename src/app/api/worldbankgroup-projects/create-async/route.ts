@@ -4,6 +4,7 @@ import crypto from 'crypto';
 import { getAWSCredentials, AWS_REGION } from '@/lib/aws-credentials';
 import { mockProjectAnalysis } from '@/lib/worldbankgroup-mock-data';
 import { prisma } from '@/lib/database-s3';
+import { getTenantId, tenantS3Key, withRawSql } from '@/lib/tenant';
 
 let s3Client: S3Client | null = null;
 
@@ -72,15 +73,16 @@ export async function POST(req: NextRequest) {
 
     // Create the worldbankgroup project
     const projectId = crypto.randomUUID();
-    await prisma.$executeRaw`
-      INSERT INTO funds (id, name, description, status, "moduleType", "brainVersion", "createdAt", "updatedAt")
-      VALUES (${projectId}, ${name.trim()}, ${description || null}, 'DRAFT', 'WORLDBANKGROUP', 1, NOW(), NOW())
-    `;
+    const organizationId = await getTenantId();
+    await withRawSql(() => prisma.$executeRaw`
+      INSERT INTO funds (id, name, description, status, "moduleType", "brainVersion", "createdAt", "updatedAt", "organizationId")
+      VALUES (${projectId}, ${name.trim()}, ${description || null}, 'DRAFT', 'WORLDBANKGROUP', 1, NOW(), NOW(), ${organizationId})
+    `);
 
     // Fetch the created project
-    const project: any = await prisma.$queryRaw`
+    const project: any = await withRawSql(() => prisma.$queryRaw`
       SELECT * FROM funds WHERE id = ${projectId}
-    `.then((rows: any[]) => rows[0]);
+    `).then((rows: any[]) => rows[0]);
 
     console.log('✅ [WorldBankGroup Projects] Project created:', project.id);
 
@@ -112,7 +114,7 @@ export async function POST(req: NextRequest) {
         }
 
         // Generate S3 key with worldbankgroup-projects prefix
-        const documentKey = `worldbankgroup-projects/${project.id}/${crypto.randomUUID()}-${file.filename}`;
+        const documentKey = await tenantS3Key(`worldbankgroup-projects/${project.id}/${crypto.randomUUID()}-${file.filename}`);
 
         // Convert base64 to buffer
         let fileBuffer;
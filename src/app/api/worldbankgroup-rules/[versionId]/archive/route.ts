@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { RulesKnowledgeBase } from '@/lib/rules-knowledge-base';
+
+/**
+ * Withdraw a published version; the previous published version takes effect again
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId } = await params;
+
+    try {
+      const version = await RulesKnowledgeBase.archive(versionId);
+      console.log(`📦 ${auth.user.username} archived rule set v${version.version}`);
+      return NextResponse.json({ success: true, version });
+    } catch (archiveError) {
+      return NextResponse.json({
+        error: 'Rule set version cannot be archived',
+        details: archiveError instanceof Error ? archiveError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error archiving rule set version:', error);
+    return NextResponse.json({
+      error: 'Failed to archive rule set version',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { RulesKnowledgeBase } from '@/lib/rules-knowledge-base';
+
+/**
+ * Publish a draft so assessments use it from its effective date
+ *
+ * Body: { effectiveFrom? } - ISO date, defaults to now
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId } = await params;
+    const { effectiveFrom } = await request.json().catch(() => ({}));
+
+    try {
+      const version = await RulesKnowledgeBase.publish(
+        versionId,
+        effectiveFrom ? new Date(effectiveFrom) : undefined,
+        auth.user
+      );
+
+      console.log(`📚 ${auth.user.username} published rule set v${version.version}, effective ${version.effectiveFrom?.toISOString()}`);
+
+      return NextResponse.json({ success: true, version });
+    } catch (publishError) {
+      return NextResponse.json({
+        error: 'Rule set version cannot be published',
+        details: publishError instanceof Error ? publishError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error publishing rule set version:', error);
+    return NextResponse.json({
+      error: 'Failed to publish rule set version',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
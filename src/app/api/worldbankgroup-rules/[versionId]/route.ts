@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { RulesKnowledgeBase } from '@/lib/rules-knowledge-base';
+
+/**
+ * A rule set version with its sections and rules
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'read');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId } = await params;
+
+    try {
+      const version = await RulesKnowledgeBase.getVersion(versionId);
+      return NextResponse.json({ success: true, version });
+    } catch (lookupError) {
+      return NextResponse.json({
+        error: 'Rule set version not found',
+        details: lookupError instanceof Error ? lookupError.message : 'Unknown error'
+      }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('❌ Error fetching rule set version:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch rule set version',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Rename a draft or update its notes
+ *
+ * Body: { name?, notes? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId } = await params;
+    const { name, notes } = await request.json();
+
+    try {
+      const version = await RulesKnowledgeBase.updateVersion(versionId, { name, notes });
+      return NextResponse.json({ success: true, version });
+    } catch (updateError) {
+      return NextResponse.json({
+        error: 'Rule set version update rejected',
+        details: updateError instanceof Error ? updateError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error updating rule set version:', error);
+    return NextResponse.json({
+      error: 'Failed to update rule set version',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Discard a draft (published versions are archived instead)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId } = await params;
+
+    try {
+      await RulesKnowledgeBase.deleteDraft(versionId);
+      console.log(`🗑️ ${auth.user.username} discarded rule set draft ${versionId}`);
+      return NextResponse.json({ success: true });
+    } catch (deleteError) {
+      return NextResponse.json({
+        error: 'Rule set version cannot be deleted',
+        details: deleteError instanceof Error ? deleteError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error deleting rule set version:', error);
+    return NextResponse.json({
+      error: 'Failed to delete rule set version',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { RulesKnowledgeBase, parseRuleInput } from '@/lib/rules-knowledge-base';
+
+/**
+ * Update a rule of a draft
+ *
+ * Body: any of { sectionId, number, title, description, requirements, source, citation, sortOrder }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string; ruleId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId, ruleId } = await params;
+    const body = await request.json();
+
+    try {
+      const rule = await RulesKnowledgeBase.updateRule(versionId, ruleId, parseRuleInput(body, true));
+      return NextResponse.json({ success: true, rule });
+    } catch (ruleError) {
+      return NextResponse.json({
+        error: 'Rule update rejected',
+        details: ruleError instanceof Error ? ruleError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error updating rule:', error);
+    return NextResponse.json({
+      error: 'Failed to update rule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Delete a rule from a draft
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string; ruleId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId, ruleId } = await params;
+
+    try {
+      await RulesKnowledgeBase.deleteRule(versionId, ruleId);
+      return NextResponse.json({ success: true });
+    } catch (ruleError) {
+      return NextResponse.json({
+        error: 'Rule cannot be deleted',
+        details: ruleError instanceof Error ? ruleError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error deleting rule:', error);
+    return NextResponse.json({
+      error: 'Failed to delete rule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { RulesKnowledgeBase, parseRuleInput } from '@/lib/rules-knowledge-base';
+
+/**
+ * Add a rule to a draft
+ *
+ * Body: { sectionId, title, description, source, number?, requirements?, citation?, sortOrder? }
+ * The number defaults to the next free number in the section's category.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId } = await params;
+    const body = await request.json();
+
+    try {
+      const rule = await RulesKnowledgeBase.addRule(versionId, parseRuleInput(body));
+      console.log(`📚 ${auth.user.username} added rule ${rule.code} to rule set draft ${versionId}`);
+      return NextResponse.json({ success: true, rule }, { status: 201 });
+    } catch (ruleError) {
+      return NextResponse.json({
+        error: 'Rule rejected',
+        details: ruleError instanceof Error ? ruleError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error adding rule:', error);
+    return NextResponse.json({
+      error: 'Failed to add rule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { RulesKnowledgeBase, parseSectionInput } from '@/lib/rules-knowledge-base';
+
+/**
+ * Update a section of a draft
+ *
+ * Body: any of { category, title, priority, key, description, isInfoSection, content, sortOrder }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string; sectionId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId, sectionId } = await params;
+    const body = await request.json();
+
+    try {
+      const section = await RulesKnowledgeBase.updateSection(versionId, sectionId, parseSectionInput(body, true));
+      return NextResponse.json({ success: true, section });
+    } catch (sectionError) {
+      return NextResponse.json({
+        error: 'Section update rejected',
+        details: sectionError instanceof Error ? sectionError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error updating rule set section:', error);
+    return NextResponse.json({
+      error: 'Failed to update section',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Delete a section of a draft together with its rules
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string; sectionId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId, sectionId } = await params;
+
+    try {
+      await RulesKnowledgeBase.deleteSection(versionId, sectionId);
+      return NextResponse.json({ success: true });
+    } catch (sectionError) {
+      return NextResponse.json({
+        error: 'Section cannot be deleted',
+        details: sectionError instanceof Error ? sectionError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error deleting rule set section:', error);
+    return NextResponse.json({
+      error: 'Failed to delete section',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
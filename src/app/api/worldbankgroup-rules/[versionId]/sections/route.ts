@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { RulesKnowledgeBase, parseSectionInput } from '@/lib/rules-knowledge-base';
+
+/**
+ * Add a section to a draft
+ *
+ * Body: { category, title, priority, key?, description?, isInfoSection?, content?, sortOrder? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const { versionId } = await params;
+    const body = await request.json();
+
+    try {
+      const section = await RulesKnowledgeBase.addSection(versionId, parseSectionInput(body));
+      return NextResponse.json({ success: true, section }, { status: 201 });
+    } catch (sectionError) {
+      return NextResponse.json({
+        error: 'Section rejected',
+        details: sectionError instanceof Error ? sectionError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error adding rule set section:', error);
+    return NextResponse.json({
+      error: 'Failed to add section',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
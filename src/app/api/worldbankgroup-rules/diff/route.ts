@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { RulesKnowledgeBase } from '@/lib/rules-knowledge-base';
+
+/**
+ * Sections and rules added, removed and changed between two versions
+ *
+ * Query: ?from=<versionId>&to=<versionId>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, 'read');
+    if (!auth.authorized) return auth.response;
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!from || !to) {
+      return NextResponse.json({
+        error: 'Missing required parameters: from, to'
+      }, { status: 400 });
+    }
+
+    try {
+      const diff = await RulesKnowledgeBase.diff(from, to);
+      return NextResponse.json({ success: true, diff });
+    } catch (diffError) {
+      return NextResponse.json({
+        error: 'Could not compare rule set versions',
+        details: diffError instanceof Error ? diffError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error comparing rule set versions:', error);
+    return NextResponse.json({
+      error: 'Failed to compare rule set versions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { RulesKnowledgeBase } from '@/lib/rules-knowledge-base';
+
+/**
+ * List rules knowledge base versions and the one currently in effect
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, 'read');
+    if (!auth.authorized) return auth.response;
+
+    const { versions, activeVersionId } = await RulesKnowledgeBase.listVersions();
+
+    return NextResponse.json({ success: true, versions, activeVersionId });
+  } catch (error) {
+    console.error('❌ Error listing rule set versions:', error);
+    return NextResponse.json({
+      error: 'Failed to list rule set versions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Start a draft version as a copy of an existing one
+ *
+ * Body: { basedOnId?, name?, notes? } - basedOnId defaults to the version in effect
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, 'manage', 'WORLDBANKGROUP_ADMIN');
+    if (!auth.authorized) return auth.response;
+
+    const body = await request.json().catch(() => ({}));
+
+    try {
+      const version = await RulesKnowledgeBase.createDraft({
+        basedOnId: body.basedOnId || undefined,
+        name: typeof body.name === 'string' ? body.name : undefined,
+        notes: typeof body.notes === 'string' ? body.notes : undefined,
+      }, auth.user);
+
+      return NextResponse.json({ success: true, version }, { status: 201 });
+    } catch (draftError) {
+      return NextResponse.json({
+        error: 'Could not create draft',
+        details: draftError instanceof Error ? draftError.message : 'Unknown error'
+      }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('❌ Error creating rule set draft:', error);
+    return NextResponse.json({
+      error: 'Failed to create rule set draft',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
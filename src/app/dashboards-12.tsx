@@ -10,6 +10,7 @@ import {
     Edit01,
     Edit05,
     FilterLines,
+    Flag01,
     Flash,
     Monitor04,
     Plus,
@@ -20,6 +21,8 @@ import {
     Eye,
     MessageSmileSquare,
     BarChart01,
+    CoinsStacked01,
+    Download01,
 } from "@untitledui/icons";
 import { FileDocIcon, FileDocxIcon, FilePdfIcon, FileXlsIcon, FileXlsxIcon, FileGenericIcon, getFileIcon } from "@/components/icons/FileIcons";
 import type { SortDescriptor } from "react-aria-components";
@@ -497,6 +500,18 @@ export const Dashboard12 = () => {
                         <p className="text-lg font-semibold text-primary">Applications received</p>
                         <div className="flex gap-3">
                             {mounted && <DateRangePicker />}
+                            <Button size="md" color="secondary" iconLeading={Flag01} onClick={() => router.push('/funding/assess/review')}>
+                                Review queue
+                            </Button>
+                            <Button size="md" color="secondary" iconLeading={CoinsStacked01} onClick={() => router.push('/funding/assess/allocation')}>
+                                Allocation
+                            </Button>
+                            <Button size="md" color="secondary" iconLeading={Download01} href="/api/assessments/export?format=xlsx">
+                                Export
+                            </Button>
+                            <Button size="md" color="secondary" iconLeading={Download01} href="/api/assessments/export?format=pdf">
+                                Report pack
+                            </Button>
                             <Button size="md" color="secondary" iconLeading={FilterLines}>
                                 Apply filter
                             </Button>
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, CurrencyDollar } from "@untitledui/icons";
+import { Button } from "@/components/base/buttons/button";
+import { LoadingIndicator } from "@/components/application/loading-indicator/loading-indicator";
+import { useModelUsage, UsageTotals } from "@/hooks/useModelUsage";
+
+interface ModelSpendProps {
+    onClose?: () => void;
+}
+
+type SpendGrouping = 'fund' | 'module' | 'task';
+
+const formatCost = (value: number) => `$${value.toFixed(value < 1 ? 4 : 2)}`;
+const formatTokens = (value: number) => value.toLocaleString();
+
+export const ModelSpend: React.FC<ModelSpendProps> = ({ onClose }) => {
+    const [grouping, setGrouping] = useState<SpendGrouping>('fund');
+    const { data: usage, isLoading, error, refetch } = useModelUsage();
+
+    const rows: Array<UsageTotals & { label: string; detail?: string }> = !usage ? [] :
+        grouping === 'fund'
+            ? usage.byFund.map(row => ({
+                ...row,
+                label: row.fundName || (row.fundId ? row.fundId : 'Unattributed'),
+                detail: row.moduleType || undefined,
+            }))
+            : grouping === 'module'
+                ? usage.byModule.map(row => ({ ...row, label: row.moduleType || 'Unattributed' }))
+                : usage.byTask.map(row => ({ ...row, label: row.task }));
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-8">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h2 className="text-2xl font-bold text-primary">Model Spend</h2>
+                    <p className="text-sm text-secondary">Token usage and estimated AI cost per fund and module</p>
+                </div>
+                {onClose && (
+                    <Button size="sm" color="secondary" onClick={onClose}>
+                        Back to Overview
+                    </Button>
+                )}
+            </div>
+
+            {isLoading && (
+                <div className="text-center py-12">
+                    <LoadingIndicator type="dot-circle" size="lg" label="Loading model usage..." />
+                </div>
+            )}
+
+            {error && (
+                <div className="flex items-center gap-2 p-4 bg-error-50 border border-error-200 rounded-lg">
+                    <AlertTriangle className="w-5 h-5 text-error-600" />
+                    <p className="text-sm text-error-700">{error.message}</p>
+                    <Button size="sm" color="tertiary" onClick={() => refetch()} className="ml-auto">
+                        Retry
+                    </Button>
+                </div>
+            )}
+
+            {usage && (
+                <>
+                    {/* Totals */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <div className="bg-white rounded-lg border border-gray-200 p-6">
+                            <div className="flex items-center gap-3 mb-2">
+                                <CurrencyDollar className="w-5 h-5 text-green-600" />
+                                <p className="text-sm text-secondary">Estimated spend ({usage.currency})</p>
+                            </div>
+                            <p className="text-display-xs font-semibold text-primary">{formatCost(usage.total.estimatedCost)}</p>
+                        </div>
+                        <div className="bg-white rounded-lg border border-gray-200 p-6">
+                            <p className="text-sm text-secondary mb-2">Model calls</p>
+                            <p className="text-display-xs font-semibold text-primary">{formatTokens(usage.total.calls)}</p>
+                        </div>
+                        <div className="bg-white rounded-lg border border-gray-200 p-6">
+                            <p className="text-sm text-secondary mb-2">Tokens (in / out)</p>
+                            <p className="text-lg font-semibold text-primary">
+                                {formatTokens(usage.total.inputTokens)} / {formatTokens(usage.total.outputTokens)}
+                            </p>
+                        </div>
+                    </div>
+
+                    {/* Breakdown */}
+                    <div className="bg-white rounded-lg border border-gray-200">
+                        <div className="flex items-center gap-2 p-4 border-b border-gray-200">
+                            {(['fund', 'module', 'task'] as SpendGrouping[]).map(option => (
+                                <Button
+                                    key={option}
+                                    size="sm"
+                                    color={grouping === option ? 'primary' : 'tertiary'}
+                                    onClick={() => setGrouping(option)}
+                                >
+                                    {option === 'fund' ? 'Per fund' : option === 'module' ? 'Per module' : 'Per task'}
+                                </Button>
+                            ))}
+                        </div>
+
+                        {rows.length === 0 ? (
+                            <p className="p-6 text-sm text-secondary text-center">No model usage recorded yet.</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-tertiary border-b border-gray-200">
+                                        <th className="px-4 py-3 font-medium">Name</th>
+                                        <th className="px-4 py-3 font-medium text-right">Calls</th>
+                                        <th className="px-4 py-3 font-medium text-right">Input tokens</th>
+                                        <th className="px-4 py-3 font-medium text-right">Output tokens</th>
+                                        <th className="px-4 py-3 font-medium text-right">Est. cost</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.map(row => (
+                                        <tr key={`${row.label}-${row.detail ?? ''}`} className="border-b border-gray-100 last:border-0">
+                                            <td className="px-4 py-3">
+                                                <p className="font-medium text-primary">{row.label}</p>
+                                                {row.detail && <p className="text-xs text-tertiary">{row.detail}</p>}
+                                            </td>
+                                            <td className="px-4 py-3 text-right text-secondary">{formatTokens(row.calls)}</td>
+                                            <td className="px-4 py-3 text-right text-secondary">{formatTokens(row.inputTokens)}</td>
+                                            <td className="px-4 py-3 text-right text-secondary">{formatTokens(row.outputTokens)}</td>
+                                            <td className="px-4 py-3 text-right font-medium text-primary">{formatCost(row.estimatedCost)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { ArrowLeft, BarChart03, Stars01, TrendUp02, PieChart01 } from "@untitledui/icons";
+import { ArrowLeft, BarChart03, Stars01, TrendUp02, PieChart01, CurrencyDollar } from "@untitledui/icons";
 import { SidebarNavigationSlim } from "@/components/application/app-navigation/sidebar-navigation/sidebar-slim";
 import { Button } from "@/components/base/buttons/button";
 import { 
@@ -11,8 +11,9 @@ import {
 } from "@untitledui/icons";
 
 import { AIRecommendations } from "./ai-recommendations";
+import { ModelSpend } from "./model-spend";
 
-type AnalyticsView = 'overview' | 'ai-recommendations';
+type AnalyticsView = 'overview' | 'ai-recommendations' | 'model-spend';
 
 const AnalyticsPage = () => {
     const [currentView, setCurrentView] = useState<AnalyticsView>('overview');
@@ -27,6 +28,11 @@ const AnalyticsPage = () => {
                         onClose={() => setCurrentView('overview')}
                     />
                 );
+
+            case 'model-spend':
+                return (
+                    <ModelSpend onClose={() => setCurrentView('overview')} />
+                );
             
             default:
                 return (
@@ -58,6 +64,24 @@ const AnalyticsPage = () => {
                                 </Button>
                             </div>
 
+                            <div 
+                                className="bg-white rounded-lg border border-gray-200 p-6 hover:shadow-lg transition-shadow cursor-pointer"
+                                onClick={() => setCurrentView('model-spend')}
+                            >
+                                <div className="flex items-center gap-4 mb-4">
+                                    <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
+                                        <CurrencyDollar className="w-6 h-6 text-green-600" />
+                                    </div>
+                                    <div>
+                                        <h3 className="text-lg font-semibold text-primary">Model Spend</h3>
+                                        <p className="text-sm text-secondary">AI token usage and cost per fund and module</p>
+                                    </div>
+                                </div>
+                                <Button size="sm" color="secondary" className="w-full">
+                                    View Spend
+                                </Button>
+                            </div>
+
                             <div className="bg-white rounded-lg border border-gray-200 p-6 hover:shadow-lg transition-shadow cursor-pointer opacity-50">
                                 <div className="flex items-center gap-4 mb-4">
                                     <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
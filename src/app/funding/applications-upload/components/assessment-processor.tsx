@@ -68,6 +68,11 @@ async function assessFileAgainstFund(file: File, fund: any): Promise<UIAssessmen
                 result.transparencyInfo = assessment.transparencyInfo;
             }
 
+            // Carry the usage run id so model spend is attributed when the assessment is saved
+            if (data.usageRunId) {
+                result.usageRunId = data.usageRunId;
+            }
+
             return result;
         } else if (data.score !== undefined) {
             // V2 legacy assessment response
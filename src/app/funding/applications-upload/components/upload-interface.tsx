@@ -89,6 +89,12 @@ export const UploadInterface = ({ mode, onFilesUploaded }: UploadInterfaceProps)
             case 'doc':
             case 'docx':
                 return 'doc';
+            case 'xlsx':
+            case 'pptx':
+            case 'html':
+            case 'txt':
+            case 'zip':
+                return extension;
             default:
                 return 'empty';
         }
@@ -99,8 +105,8 @@ export const UploadInterface = ({ mode, onFilesUploaded }: UploadInterfaceProps)
             <div className="w-full max-w-2xl">
                 <FileUpload.Root>
                     <FileUpload.DropZone
-                        hint="PDF or Word documents up to 50MB each"
-                        accept=".pdf,.doc,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/msword"
+                        hint="PDF, Word, Excel, PowerPoint, email or ZIP files up to 50MB each"
+                        accept=".pdf,.doc,.docx,.xlsx,.pptx,.odt,.rtf,.html,.htm,.txt,.eml,.msg,.zip"
                         allowsMultiple={mode === 'bulk'}
                         maxSize={50 * 1024 * 1024} // 50MB
                         onDropFiles={handleFileDrop}
@@ -80,6 +80,14 @@ export interface UIAssessmentResult {
   // Legacy content (fallback)
   details?: LegacyAssessmentDetails;
   recommendations: string[];
+
+  // Review signals from the AI assessment (drive the human review queue)
+  criteriaScores?: { [criterion: string]: number };
+  confidence?: number;
+  flagForReview?: boolean;
+
+  // Model usage run to attribute to the saved assessment
+  usageRunId?: string;
 }
 
 // Dynamic template section structure
@@ -159,6 +167,10 @@ export function convertToUIResult(
     // Add transparency info if available
     transparencyInfo: apiResponse.transparencyInfo,
     strategyUsed: apiResponse.strategyUsed,
+
+    criteriaScores: apiResponse.criteriaScores,
+    confidence: apiResponse.confidence,
+    flagForReview: apiResponse.flagForReview,
   };
 }
 
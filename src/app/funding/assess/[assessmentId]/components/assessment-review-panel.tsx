@@ -0,0 +1,239 @@
+"use client";
+
+import { useState } from 'react';
+import { CheckCircle, ClockRewind, XCircle } from '@untitledui/icons';
+import { Button } from "@/components/base/buttons/button";
+import { BadgeWithDot } from "@/components/base/badges/badges";
+import { Input } from "@/components/base/input/input";
+import { TextArea } from "@/components/base/textarea/textarea";
+import {
+  useOverrideScores,
+  useReviewDecision,
+  type AssessmentRevision,
+  type ReviewStatus,
+  type ScoreOverride
+} from '@/hooks/useAssessmentReview';
+
+interface AssessmentReviewPanelProps {
+  assessmentId: string;
+  reviewStatus: ReviewStatus;
+  aiCriteriaScores?: Record<string, number> | null;
+  criteriaScores?: Record<string, number> | null;
+  revisions: AssessmentRevision[];
+}
+
+interface DraftOverride {
+  score: string;
+  justification: string;
+}
+
+export const getReviewStatusColor = (status: ReviewStatus) => {
+  switch (status) {
+    case 'APPROVED': return 'success';
+    case 'REJECTED': return 'error';
+    case 'PENDING': return 'warning';
+    default: return 'gray';
+  }
+};
+
+export const formatCriterion = (criterion: string) =>
+  criterion.replace(/([A-Z])/g, ' $1').replace(/[_-]/g, ' ').replace(/^./, str => str.toUpperCase());
+
+const getRevisionLabel = (revision: AssessmentRevision) => {
+  switch (revision.action) {
+    case 'CREATED': return 'AI assessment recorded';
+    case 'SCORE_OVERRIDE': return `${formatCriterion(revision.criterion || '')}: ${revision.previousScore ?? '—'} → ${revision.newScore}`;
+    case 'MODERATED': return 'Panel consensus recorded';
+    case 'APPROVED': return 'Approved';
+    case 'REJECTED': return 'Rejected';
+    default: return revision.action;
+  }
+};
+
+export const AssessmentReviewPanel = ({
+  assessmentId,
+  reviewStatus,
+  aiCriteriaScores,
+  criteriaScores,
+  revisions
+}: AssessmentReviewPanelProps) => {
+  const [drafts, setDrafts] = useState<Record<string, DraftOverride>>({});
+  const [decisionJustification, setDecisionJustification] = useState('');
+  const overrideScores = useOverrideScores(assessmentId);
+  const reviewDecision = useReviewDecision(assessmentId);
+
+  const aiCriteria = aiCriteriaScores || {};
+  const currentCriteria = criteriaScores || aiCriteria;
+  const isClosed = reviewStatus === 'APPROVED' || reviewStatus === 'REJECTED';
+
+  const updateDraft = (criterion: string, update: Partial<DraftOverride>) => {
+    setDrafts(prev => ({
+      ...prev,
+      [criterion]: { ...(prev[criterion] || { score: '', justification: '' }), ...update }
+    }));
+  };
+
+  const pendingOverrides: ScoreOverride[] = Object.entries(drafts)
+    .filter(([, draft]) => draft.score !== '')
+    .map(([criterion, draft]) => ({
+      criterion,
+      score: Number(draft.score),
+      justification: draft.justification
+    }));
+
+  const missingJustification = pendingOverrides.some(override => !override.justification.trim());
+
+  const handleSaveOverrides = () => {
+    overrideScores.mutate(pendingOverrides, {
+      onSuccess: () => setDrafts({})
+    });
+  };
+
+  const handleDecision = (decision: 'APPROVED' | 'REJECTED') => {
+    reviewDecision.mutate({ decision, justification: decisionJustification }, {
+      onSuccess: () => setDecisionJustification('')
+    });
+  };
+
+  const error = overrideScores.error || reviewDecision.error;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Criterion Overrides */}
+      <div className="bg-secondary rounded-2xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-primary flex items-center gap-2">
+            <CheckCircle className="w-5 h-5" />
+            Assessor Review
+          </h2>
+          <BadgeWithDot
+            size="md"
+            type="pill-color"
+            color={getReviewStatusColor(reviewStatus) as any}
+            className="capitalize"
+          >
+            {reviewStatus.replace('_', ' ').toLowerCase()}
+          </BadgeWithDot>
+        </div>
+
+        {Object.keys(aiCriteria).length === 0 ? (
+          <p className="text-sm text-tertiary">No criterion scores were recorded for this assessment.</p>
+        ) : (
+          <div className="space-y-6">
+            {Object.entries(aiCriteria).map(([criterion, aiValue]) => (
+              <div key={criterion} className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium text-primary">{formatCriterion(criterion)}</span>
+                  <span className="text-sm text-tertiary">
+                    AI {Math.round(aiValue)} · Final <span className="font-semibold text-primary">{Math.round(currentCriteria[criterion] ?? aiValue)}</span>
+                  </span>
+                </div>
+                {!isClosed && (
+                  <div className="flex flex-col gap-2">
+                    <Input
+                      type="number"
+                      placeholder="New score (0-100)"
+                      value={drafts[criterion]?.score || ''}
+                      onChange={(value: string) => updateDraft(criterion, { score: value })}
+                    />
+                    {drafts[criterion]?.score && (
+                      <TextArea
+                        isRequired
+                        placeholder="Justification for this override"
+                        rows={2}
+                        value={drafts[criterion]?.justification || ''}
+                        onChange={(value: string) => updateDraft(criterion, { justification: value })}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {!isClosed && (
+              <Button
+                size="md"
+                color="secondary"
+                isDisabled={pendingOverrides.length === 0 || missingJustification || overrideScores.isPending}
+                onClick={handleSaveOverrides}
+              >
+                {overrideScores.isPending ? 'Saving...' : 'Save overrides'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {!isClosed && (
+          <div className="mt-8 flex flex-col gap-3">
+            <TextArea
+              label="Decision notes"
+              hint="Required when rejecting"
+              rows={3}
+              value={decisionJustification}
+              onChange={(value: string) => setDecisionJustification(value)}
+            />
+            <div className="flex gap-3">
+              <Button
+                size="md"
+                color="primary"
+                iconLeading={CheckCircle}
+                isDisabled={reviewDecision.isPending}
+                onClick={() => handleDecision('APPROVED')}
+              >
+                Approve
+              </Button>
+              <Button
+                size="md"
+                color="secondary-destructive"
+                iconLeading={XCircle}
+                isDisabled={reviewDecision.isPending || !decisionJustification.trim()}
+                onClick={() => handleDecision('REJECTED')}
+              >
+                Reject
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="mt-4 text-sm text-red-600">{error.message}</p>
+        )}
+      </div>
+
+      {/* Revision History */}
+      <div className="bg-secondary rounded-2xl p-6">
+        <h2 className="text-lg font-semibold text-primary mb-4 flex items-center gap-2">
+          <ClockRewind className="w-5 h-5" />
+          Revision History
+        </h2>
+        {revisions.length === 0 ? (
+          <p className="text-sm text-tertiary">No revisions recorded.</p>
+        ) : (
+          <ol className="space-y-4">
+            {[...revisions].reverse().map(revision => (
+              <li key={revision.id} className="border-l-2 border-secondary pl-4">
+                <div className="flex justify-between items-center gap-3">
+                  <span className="text-sm font-medium text-primary">
+                    #{revision.revision} {getRevisionLabel(revision)}
+                  </span>
+                  <span className="text-xs text-tertiary text-nowrap">
+                    {new Date(revision.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {revision.overallScore !== null && revision.overallScore !== undefined && (
+                  <p className="text-xs text-tertiary">Overall score: {Math.round(Number(revision.overallScore))}</p>
+                )}
+                {revision.justification && (
+                  <p className="text-sm text-secondary mt-1">{revision.justification}</p>
+                )}
+                {revision.reviewerName && (
+                  <p className="text-xs text-tertiary mt-1">by {revision.reviewerName}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download01, FileSearch02 } from '@untitledui/icons';
+import { Button } from "@/components/base/buttons/button";
+import { BadgeWithDot } from "@/components/base/badges/badges";
+import type { AssessmentEvidence, EvidenceSpan, SourceDocument } from '@/lib/document-evidence';
+import { foldQuoteText } from '@/lib/quote-text';
+import { formatCriterion } from './assessment-review-panel';
+
+interface EvidenceViewerProps {
+  assessmentId: string;
+  evidence?: AssessmentEvidence | null;
+  sourceDocument?: SourceDocument | null;
+}
+
+interface EvidenceEntry {
+  group: string;
+  label: string;
+  span: EvidenceSpan;
+}
+
+interface Highlight {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const RENDER_SCALE = 1.4;
+
+/**
+ * Indexes of the page's text items covered by the quote (first to last
+ * fragment of quotes shortened with an ellipsis), normalised as on the server
+ */
+function findQuoteItems(items: string[], quote: string): number[] {
+  let joined = '';
+  const owners: number[] = [];
+  items.forEach((item, index) => {
+    const normalized = foldQuoteText(item);
+    if (!normalized) return;
+    if (joined) {
+      joined += ' ';
+      owners.push(index);
+    }
+    joined += normalized;
+    owners.push(...Array(normalized.length).fill(index));
+  });
+
+  const fragments = quote.split(/\.{3}|…/).map(foldQuoteText).filter(Boolean);
+  if (fragments.length === 0) return [];
+
+  const start = joined.indexOf(fragments[0]);
+  if (start === -1) return [];
+  let end = start + fragments[0].length;
+  for (const fragment of fragments.slice(1)) {
+    const index = joined.indexOf(fragment, end);
+    if (index === -1) break;
+    end = index + fragment.length;
+  }
+
+  return [...new Set(owners.slice(start, end))];
+}
+
+const PdfPageView = ({ url, page, quote, onPageCount }: {
+  url: string;
+  page: number;
+  quote: string | null;
+  onPageCount: (count: number) => void;
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const documentRef = useRef<any>(null);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Cancelled when the page or quote changes, so two renders never draw on the canvas at once
+    let renderTask: any = null;
+
+    const render = async () => {
+      try {
+        const pdfjs = await import('pdfjs-dist');
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+        if (!documentRef.current) {
+          documentRef.current = await pdfjs.getDocument({ url }).promise;
+          onPageCount(documentRef.current.numPages);
+        }
+
+        const pdfPage = await documentRef.current.getPage(page);
+        const viewport = pdfPage.getViewport({ scale: RENDER_SCALE });
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        renderTask = pdfPage.render({ canvas, canvasContext: canvas.getContext('2d')!, viewport });
+        await renderTask.promise;
+        if (cancelled) return;
+
+        if (!quote) {
+          setHighlights([]);
+          return;
+        }
+
+        const content = await pdfPage.getTextContent();
+        const items = content.items.filter((item: any) => typeof item.str === 'string');
+        const matched = findQuoteItems(items.map((item: any) => item.str), quote);
+
+        if (!cancelled) {
+          setHighlights(matched.map(index => {
+            const item: any = items[index];
+            const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+            const height = Math.hypot(item.transform[2], item.transform[3]) * RENDER_SCALE;
+            return { left: x, top: y - height, width: item.width * RENDER_SCALE, height };
+          }));
+        }
+        setError(null);
+      } catch (renderError) {
+        if (cancelled || (renderError as any)?.name === 'RenderingCancelledException') return;
+        setError(renderError instanceof Error ? renderError.message : 'Could not display the document');
+      }
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [url, page, quote, onPageCount]);
+
+  if (error) {
+    return <p className="text-sm text-error-primary">{error}</p>;
+  }
+
+  return (
+    <div className="relative inline-block">
+      <canvas ref={canvasRef} className="max-w-full" />
+      {highlights.map((highlight, index) => (
+        <span
+          key={index}
+          className="absolute rounded-sm bg-yellow-300/40 ring-1 ring-yellow-500/60"
+          style={highlight}
+        />
+      ))}
+    </div>
+  );
+};
+
+export const EvidenceViewer = ({ assessmentId, evidence, sourceDocument }: EvidenceViewerProps) => {
+  const [selected, setSelected] = useState<EvidenceEntry | null>(null);
+  const [page, setPage] = useState(1);
+  const [pageCount, setPageCount] = useState(0);
+
+  const entries = useMemo<EvidenceEntry[]>(() => {
+    if (!evidence) return [];
+    return [
+      ...Object.entries(evidence.criteria || {}).flatMap(([criterion, spans]) =>
+        spans.map(span => ({ group: 'Criteria', label: formatCriterion(criterion), span }))),
+      ...(evidence.strengths || []).flatMap(item =>
+        item.evidence.map(span => ({ group: 'Strengths', label: item.text, span }))),
+      ...(evidence.weaknesses || []).flatMap(item =>
+        item.evidence.map(span => ({ group: 'Weaknesses', label: item.text, span }))),
+    ];
+  }, [evidence]);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const sourceUrl = sourceDocument ? `/api/assessments/${assessmentId}/source` : null;
+  const isPdf = sourceDocument?.mimeType === 'application/pdf';
+  const verifiedCount = entries.filter(entry => entry.span.verified).length;
+
+  const select = (entry: EvidenceEntry) => {
+    setSelected(entry);
+    if (entry.span.page) setPage(entry.span.page);
+  };
+
+  return (
+    <div className="bg-secondary rounded-2xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-lg font-semibold text-primary flex items-center gap-2">
+          <FileSearch02 className="w-5 h-5" />
+          Evidence
+        </h2>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-tertiary">
+            {verifiedCount} of {entries.length} quotes found in the application
+          </span>
+          {sourceUrl && (
+            <Button href={sourceUrl} size="sm" color="secondary" iconLeading={Download01}>
+              Original
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="space-y-5 max-h-[48rem] overflow-y-auto pr-2">
+          {['Criteria', 'Strengths', 'Weaknesses'].map(group => {
+            const groupEntries = entries.filter(entry => entry.group === group);
+            if (groupEntries.length === 0) return null;
+            return (
+              <div key={group} className="space-y-2">
+                <h3 className="text-sm font-semibold text-primary">{group}</h3>
+                {groupEntries.map((entry, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => select(entry)}
+                    className={`w-full text-left rounded-lg p-3 ring-1 ring-secondary transition ${
+                      selected === entry ? 'bg-brand-primary_alt ring-brand' : 'bg-primary hover:bg-primary_hover'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <span className="text-xs font-medium text-secondary">{entry.label}</span>
+                      <BadgeWithDot size="sm" type="pill-color" color={entry.span.verified ? 'success' : 'warning'}>
+                        {entry.span.verified
+                          ? entry.span.page ? `p. ${entry.span.page}` : 'found'
+                          : 'not found'}
+                      </BadgeWithDot>
+                    </div>
+                    <p className="text-sm text-tertiary mt-1 italic">“{entry.span.quote}”</p>
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="min-w-0">
+          {sourceUrl && isPdf ? (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Button
+                  size="sm"
+                  color="tertiary"
+                  iconLeading={ChevronLeft}
+                  isDisabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-secondary">
+                  Page {page}{pageCount ? ` of ${pageCount}` : ''}
+                </span>
+                <Button
+                  size="sm"
+                  color="tertiary"
+                  iconTrailing={ChevronRight}
+                  isDisabled={pageCount > 0 && page >= pageCount}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+              <div className="overflow-auto rounded-lg bg-primary p-2 ring-1 ring-secondary">
+                <PdfPageView
+                  url={sourceUrl}
+                  page={page}
+                  quote={selected?.span.verified && selected.span.page === page ? selected.span.quote : null}
+                  onPageCount={setPageCount}
+                />
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-tertiary">
+              {sourceUrl
+                ? 'Page view is available for PDF applications. Open the original to check the quotes.'
+                : 'The original application was not stored with this assessment.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
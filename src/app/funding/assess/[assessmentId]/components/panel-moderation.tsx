@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from 'react';
+import { Scales01, Users01 } from '@untitledui/icons';
+import { Button } from "@/components/base/buttons/button";
+import { BadgeWithDot } from "@/components/base/badges/badges";
+import { Input } from "@/components/base/input/input";
+import { TextArea } from "@/components/base/textarea/textarea";
+import {
+  useAssessorScores,
+  useModerateAssessment,
+  useSubmitAssessorScores,
+  type ModerationStatus
+} from '@/hooks/useAssessmentReview';
+import { formatCriterion } from './assessment-review-panel';
+
+interface PanelModerationProps {
+  assessmentId: string;
+  criteria: string[];
+  isClosed: boolean;
+}
+
+const getModerationStatusColor = (status: ModerationStatus) => {
+  switch (status) {
+    case 'REQUIRED': return 'warning';
+    case 'MODERATED': return 'success';
+    default: return 'gray';
+  }
+};
+
+export const PanelModeration = ({ assessmentId, criteria, isClosed }: PanelModerationProps) => {
+  const [myScores, setMyScores] = useState<Record<string, string>>({});
+  const [comments, setComments] = useState('');
+  const [consensus, setConsensus] = useState<Record<string, string>>({});
+  const [justification, setJustification] = useState('');
+
+  const { data, isLoading } = useAssessorScores(assessmentId);
+  const submitScores = useSubmitAssessorScores(assessmentId);
+  const moderate = useModerateAssessment(assessmentId);
+
+  if (isLoading || !data || criteria.length === 0) {
+    return null;
+  }
+
+  const canScore = !isClosed && data.moderationStatus !== 'MODERATED';
+  const agreement = data.agreement;
+  const complete = criteria.every(criterion => myScores[criterion] !== undefined && myScores[criterion] !== '');
+
+  const handleSubmitScores = () => {
+    submitScores.mutate({
+      criteriaScores: Object.fromEntries(criteria.map(criterion => [criterion, Number(myScores[criterion])])),
+      comments: comments || undefined,
+    }, {
+      onSuccess: () => {
+        setMyScores({});
+        setComments('');
+      }
+    });
+  };
+
+  const handleModerate = () => {
+    moderate.mutate({
+      justification,
+      criteriaScores: Object.fromEntries(
+        Object.entries(consensus)
+          .filter(([, value]) => value !== '')
+          .map(([criterion, value]) => [criterion, Number(value)])
+      ),
+    }, {
+      onSuccess: () => {
+        setConsensus({});
+        setJustification('');
+      }
+    });
+  };
+
+  const error = submitScores.error || moderate.error;
+
+  return (
+    <div className="bg-secondary rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-primary flex items-center gap-2">
+          <Users01 className="w-5 h-5" />
+          Panel Scoring
+        </h2>
+        <BadgeWithDot
+          size="md"
+          type="pill-color"
+          color={getModerationStatusColor(data.moderationStatus) as any}
+          className="capitalize"
+        >
+          {data.moderationStatus === 'NOT_REQUIRED' ? `${data.panelSize} assessor(s)` : `moderation ${data.moderationStatus.toLowerCase()}`}
+        </BadgeWithDot>
+      </div>
+
+      {canScore && (
+        <div className="flex flex-col gap-3 mb-8">
+          <p className="text-sm text-tertiary">
+            {data.hasSubmitted ? 'Revise your scores' : 'Score each criterion independently - other assessors\' scores are shown once you submit'}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {criteria.map(criterion => (
+              <Input
+                key={criterion}
+                type="number"
+                label={formatCriterion(criterion)}
+                placeholder="0-100"
+                value={myScores[criterion] || ''}
+                onChange={(value: string) => setMyScores(prev => ({ ...prev, [criterion]: value }))}
+              />
+            ))}
+          </div>
+          <TextArea
+            label="Comments"
+            rows={2}
+            value={comments}
+            onChange={(value: string) => setComments(value)}
+          />
+          <Button
+            size="md"
+            color="secondary"
+            className="self-start"
+            isDisabled={!complete || submitScores.isPending}
+            onClick={handleSubmitScores}
+          >
+            {submitScores.isPending ? 'Submitting...' : 'Submit my scores'}
+          </Button>
+        </div>
+      )}
+
+      {agreement && (
+        <div className="flex flex-col gap-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-primary">Agreement</h3>
+            <span className="text-sm text-tertiary">
+              {agreement.kappa !== null
+                ? `${agreement.method === 'cohen' ? "Cohen's" : "Fleiss'"} κ = ${agreement.kappa}`
+                : 'κ needs two or more contributors'}
+            </span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-tertiary">
+                  <th className="py-2 pr-4 font-medium">Criterion</th>
+                  {data.contributors.map(contributor => (
+                    <th key={contributor.assessorId} className="py-2 pr-4 font-medium">{contributor.assessorName}</th>
+                  ))}
+                  <th className="py-2 pr-4 font-medium">Mean</th>
+                  <th className="py-2 pr-4 font-medium">Spread</th>
+                </tr>
+              </thead>
+              <tbody>
+                {agreement.criteria.map(row => (
+                  <tr key={row.criterion} className="border-t border-secondary">
+                    <td className="py-2 pr-4 text-primary">{formatCriterion(row.criterion)}</td>
+                    {data.contributors.map(contributor => (
+                      <td key={contributor.assessorId} className="py-2 pr-4 text-secondary">
+                        {contributor.criteriaScores[row.criterion] ?? '—'}
+                      </td>
+                    ))}
+                    <td className="py-2 pr-4 text-secondary">{row.mean}</td>
+                    <td className={`py-2 pr-4 font-medium ${row.disagreement ? 'text-red-600' : 'text-secondary'}`}>
+                      {row.spread}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {agreement.disagreements.length > 0 && (
+            <p className="text-sm text-red-600">
+              Spread above {agreement.spreadThreshold} on: {agreement.disagreements.map(formatCriterion).join(', ')}
+            </p>
+          )}
+
+          {!isClosed && agreement.contributors >= 2 && (
+            <div className="flex flex-col gap-3 mt-4">
+              <h3 className="text-sm font-semibold text-primary flex items-center gap-2">
+                <Scales01 className="w-4 h-4" />
+                Moderated consensus
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {agreement.criteria.map(row => (
+                  <Input
+                    key={row.criterion}
+                    type="number"
+                    label={formatCriterion(row.criterion)}
+                    placeholder={`${row.mean} (mean)`}
+                    value={consensus[row.criterion] || ''}
+                    onChange={(value: string) => setConsensus(prev => ({ ...prev, [row.criterion]: value }))}
+                  />
+                ))}
+              </div>
+              <TextArea
+                isRequired
+                label="Moderation notes"
+                rows={2}
+                value={justification}
+                onChange={(value: string) => setJustification(value)}
+              />
+              <Button
+                size="md"
+                color="primary"
+                className="self-start"
+                isDisabled={!justification.trim() || moderate.isPending}
+                onClick={handleModerate}
+              >
+                {moderate.isPending ? 'Saving...' : 'Record consensus'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {data.moderations.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-primary mb-2">Moderations</h3>
+          <ul className="space-y-2">
+            {data.moderations.map(moderation => (
+              <li key={moderation.id} className="text-sm text-secondary">
+                Consensus {Math.round(moderation.consensusScore)} by {moderation.moderatorName} · {new Date(moderation.createdAt).toLocaleString()}
+                {moderation.justification && <p className="text-tertiary">{moderation.justification}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-4 text-sm text-red-600">{error.message}</p>
+      )}
+    </div>
+  );
+};
@@ -13,12 +13,17 @@ import {
   Star07,
   Edit05,
   Send01,
-  CheckDone01
+  CheckDone01,
+  Download01
 } from '@untitledui/icons';
 import { SidebarNavigationSlim } from "@/components/application/app-navigation/sidebar-navigation/sidebar-slim";
 import { Button } from "@/components/base/buttons/button";
 import { BadgeWithDot } from "@/components/base/badges/badges";
 import { ProgressBar } from "@/components/base/progress-indicators/progress-indicators";
+import type { AssessmentRevision, ReviewStatus } from '@/hooks/useAssessmentReview';
+import { AssessmentReviewPanel, getReviewStatusColor } from './components/assessment-review-panel';
+import { PanelModeration } from './components/panel-moderation';
+import { EvidenceViewer } from './components/evidence-viewer';
 
 interface Assessment {
   id: string;
@@ -28,6 +33,15 @@ interface Assessment {
   assessmentType: 'AI_POWERED' | 'PATTERN_BASED' | 'MANUAL';
   status: 'DRAFT' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
   overallScore?: number;
+  aiScore?: number | null;
+  criteriaScores?: Record<string, number> | null;
+  aiCriteriaScores?: Record<string, number> | null;
+  confidence?: number | null;
+  flagForReview?: boolean;
+  reviewStatus: ReviewStatus;
+  reviewedBy?: string | null;
+  reviewedAt?: string | null;
+  assessment_revisions?: AssessmentRevision[];
   scoringResults: any;
   assessmentData: any;
   createdAt: string;
@@ -177,11 +191,32 @@ export default function AssessmentDetailPage() {
               >
                 {assessment.status.toLowerCase()}
               </BadgeWithDot>
+              {assessment.reviewStatus !== 'NOT_REQUIRED' && (
+                <BadgeWithDot
+                  size="md"
+                  type="pill-color"
+                  color={getReviewStatusColor(assessment.reviewStatus) as any}
+                  className="capitalize"
+                >
+                  review {assessment.reviewStatus.toLowerCase()}
+                </BadgeWithDot>
+              )}
             </div>
             {assessment.projectName && assessment.projectName !== assessment.organizationName && (
               <p className="text-lg text-secondary">{assessment.projectName}</p>
             )}
           </div>
+
+          {assessment.status === 'COMPLETED' && (
+            <div className="flex gap-3">
+              <Button size="sm" color="secondary" iconLeading={Download01} href={`/api/assessments/${assessment.id}/report?format=docx`}>
+                Download report (DOCX)
+              </Button>
+              <Button size="sm" color="secondary" iconLeading={Download01} href={`/api/assessments/${assessment.id}/report?format=pdf`}>
+                Download report (PDF)
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Assessment Overview */}
@@ -189,7 +224,7 @@ export default function AssessmentDetailPage() {
           <div className="bg-secondary rounded-2xl p-6">
             <div className="flex items-center gap-3 mb-2">
               <Star07 className="text-utility-brand-600 w-5 h-5" />
-              <h3 className="text-sm font-medium text-primary">Overall Score</h3>
+              <h3 className="text-sm font-medium text-primary">Final Score</h3>
             </div>
             <div className="flex items-center gap-3">
               <ProgressBar
@@ -202,6 +237,14 @@ export default function AssessmentDetailPage() {
                 {Math.round(assessment.overallScore || 0)}
               </span>
             </div>
+            {assessment.aiScore !== null && assessment.aiScore !== undefined && (
+              <p className="text-sm text-tertiary mt-2">
+                Original AI score: {Math.round(assessment.aiScore)}
+                {assessment.confidence !== null && assessment.confidence !== undefined && (
+                  <> · confidence {Math.round(assessment.confidence * 100)}%</>
+                )}
+              </p>
+            )}
           </div>
 
           <div className="bg-secondary rounded-2xl p-6">
@@ -233,6 +276,29 @@ export default function AssessmentDetailPage() {
           </div>
         </div>
 
+        {/* Human Review */}
+        <AssessmentReviewPanel
+          assessmentId={assessment.id}
+          reviewStatus={assessment.reviewStatus}
+          aiCriteriaScores={assessment.aiCriteriaScores}
+          criteriaScores={assessment.criteriaScores}
+          revisions={assessment.assessment_revisions || []}
+        />
+
+        {/* Multi-assessor Moderation */}
+        <PanelModeration
+          assessmentId={assessment.id}
+          criteria={Object.keys(assessment.aiCriteriaScores || {})}
+          isClosed={assessment.reviewStatus === 'APPROVED' || assessment.reviewStatus === 'REJECTED'}
+        />
+
+        {/* Quotes from the application, highlighted in the original */}
+        <EvidenceViewer
+          assessmentId={assessment.id}
+          evidence={assessment.assessmentData?.evidence}
+          sourceDocument={assessment.assessmentData?.sourceDocument}
+        />
+
         {/* Detailed Assessment Results */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Scoring Breakdown */}
@@ -0,0 +1,338 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  ArrowLeft,
+  CurrencyDollar,
+  Folder,
+  Plus,
+  Trash01,
+  TrendUp02,
+  Edit05,
+  Send01,
+  CheckDone01
+} from '@untitledui/icons';
+import { SidebarNavigationSlim } from "@/components/application/app-navigation/sidebar-navigation/sidebar-slim";
+import { Button } from "@/components/base/buttons/button";
+import { BadgeWithDot } from "@/components/base/badges/badges";
+import { Input } from "@/components/base/input/input";
+import { Select } from "@/components/base/select/select";
+import { useFunds } from '@/hooks/useFunds';
+import {
+  useCalculateAllocation,
+  useFundAllocations,
+  type AllocationDecision,
+  type AllocationQuota
+} from '@/hooks/useFundingAllocation';
+
+const formatCurrency = (amount: number | null) =>
+  amount === null ? '—' : `$${amount.toLocaleString()}`;
+
+const getDecisionColor = (decision: AllocationDecision) => {
+  switch (decision) {
+    case 'FUNDED': return 'success';
+    case 'WAITLIST': return 'warning';
+    case 'NEEDS_REVIEW': return 'brand';
+    default: return 'gray';
+  }
+};
+
+export default function FundingAllocationPage() {
+  const router = useRouter();
+  const { data: funds = [], isLoading: fundsLoading } = useFunds();
+  const [fundId, setFundId] = useState<string | undefined>();
+  const [budget, setBudget] = useState('');
+  const [minimumScore, setMinimumScore] = useState('');
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [quotas, setQuotas] = useState<AllocationQuota[]>([]);
+  const [scenarioName, setScenarioName] = useState('');
+
+  const { data: saved } = useFundAllocations(fundId);
+  const calculate = useCalculateAllocation(fundId);
+  const result = calculate.data;
+
+  // Start from the fund brain's weights whenever the fund changes
+  useEffect(() => {
+    if (saved?.weights) {
+      setWeights(Object.fromEntries(Object.entries(saved.weights).map(([criterion, weight]) => [criterion, String(weight)])));
+    }
+  }, [saved?.weights]);
+
+  const buildRequest = () => ({
+    budget: Number(budget),
+    minimumScore: minimumScore ? Number(minimumScore) : undefined,
+    weights: Object.fromEntries(
+      Object.entries(weights).filter(([, weight]) => weight !== '').map(([criterion, weight]) => [criterion, Number(weight)])
+    ),
+    quotas: quotas.filter(quota => quota.value),
+  });
+
+  const updateQuota = (index: number, update: Partial<AllocationQuota>) => {
+    setQuotas(prev => prev.map((quota, i) => i === index ? { ...quota, ...update } : quota));
+  };
+
+  const canCalculate = !!fundId && Number(budget) > 0;
+
+  return (
+    <div className="flex flex-col bg-primary lg:flex-row">
+      <SidebarNavigationSlim
+        activeUrl="/funding/assess"
+        items={[
+          { label: "Setup", href: "/funding/setup", icon: Edit05 },
+          { label: "Apply", href: "/funding/apply", icon: Send01 },
+          { label: "Assess", href: "/funding/assess", icon: CheckDone01 },
+          { label: "Analytics", href: "/funding/analytics", icon: TrendUp02 },
+        ]}
+      />
+      <main className="flex min-w-0 flex-1 flex-col gap-8 pt-8 pb-12 px-4 lg:px-8">
+        <div className="flex flex-col gap-4">
+          <Button
+            onClick={() => router.push('/funding/assess')}
+            size="sm"
+            color="tertiary"
+            iconLeading={ArrowLeft}
+            className="self-start"
+          >
+            Back to Assessments
+          </Button>
+
+          <div className="flex flex-col gap-1">
+            <h1 className="text-display-md font-semibold text-primary">Funding allocation</h1>
+            <p className="text-md text-tertiary">
+              Rank completed assessments and allocate the budget. Change weights, budget or quotas and recalculate to compare scenarios.
+            </p>
+          </div>
+        </div>
+
+        {/* Parameters */}
+        <div className="bg-secondary rounded-2xl p-6 flex flex-col gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select
+              label="Fund"
+              placeholder={fundsLoading ? "Loading funds..." : "Select fund"}
+              size="md"
+              items={funds.map(fund => ({ id: fund.id, label: fund.name }))}
+              placeholderIcon={Folder}
+              selectedKey={fundId}
+              onSelectionChange={(selectedId) => {
+                setFundId(selectedId as string);
+                calculate.reset();
+              }}
+            >
+              {(item) => <Select.Item id={item.id} label={item.label} />}
+            </Select>
+            <Input
+              type="number"
+              label="Total budget"
+              placeholder="e.g. 500000"
+              icon={CurrencyDollar}
+              value={budget}
+              onChange={(value: string) => setBudget(value)}
+            />
+            <Input
+              type="number"
+              label="Minimum score (optional)"
+              placeholder="0-100"
+              value={minimumScore}
+              onChange={(value: string) => setMinimumScore(value)}
+            />
+          </div>
+
+          {Object.keys(weights).length > 0 && (
+            <div className="flex flex-col gap-2">
+              <h3 className="text-sm font-semibold text-primary">Criterion weights</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {Object.entries(weights).map(([criterion, weight]) => (
+                  <Input
+                    key={criterion}
+                    type="number"
+                    label={criterion}
+                    value={weight}
+                    onChange={(value: string) => setWeights(prev => ({ ...prev, [criterion]: value }))}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-primary">Quotas</h3>
+              <Button
+                size="sm"
+                color="tertiary"
+                iconLeading={Plus}
+                onClick={() => setQuotas(prev => [...prev, { attribute: 'region', value: '' }])}
+              >
+                Add quota
+              </Button>
+            </div>
+            {quotas.map((quota, index) => (
+              <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+                <Select
+                  label="Attribute"
+                  size="sm"
+                  items={[{ id: 'region', label: 'Region' }, { id: 'organisationType', label: 'Organisation type' }]}
+                  selectedKey={quota.attribute}
+                  onSelectionChange={(selectedId) => updateQuota(index, { attribute: selectedId as AllocationQuota['attribute'] })}
+                >
+                  {(item) => <Select.Item id={item.id} label={item.label} />}
+                </Select>
+                <Input label="Value" value={quota.value} onChange={(value: string) => updateQuota(index, { value })} />
+                <Input
+                  type="number"
+                  label="Min funded"
+                  value={quota.minCount?.toString() || ''}
+                  onChange={(value: string) => updateQuota(index, { minCount: value ? Number(value) : undefined })}
+                />
+                <Input
+                  type="number"
+                  label="Max funded"
+                  value={quota.maxCount?.toString() || ''}
+                  onChange={(value: string) => updateQuota(index, { maxCount: value ? Number(value) : undefined })}
+                />
+                <Input
+                  type="number"
+                  label="Max budget share (0-1)"
+                  value={quota.maxBudgetShare?.toString() || ''}
+                  onChange={(value: string) => updateQuota(index, { maxBudgetShare: value ? Number(value) : undefined })}
+                />
+                <Button
+                  size="sm"
+                  color="tertiary-destructive"
+                  iconLeading={Trash01}
+                  onClick={() => setQuotas(prev => prev.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-3 items-end">
+            <Button
+              size="md"
+              color="primary"
+              isDisabled={!canCalculate || calculate.isPending}
+              onClick={() => calculate.mutate(buildRequest())}
+            >
+              {calculate.isPending ? 'Calculating...' : 'Calculate allocation'}
+            </Button>
+            <Input
+              className="max-w-64"
+              placeholder="Scenario name"
+              value={scenarioName}
+              onChange={(value: string) => setScenarioName(value)}
+            />
+            <Button
+              size="md"
+              color="secondary"
+              isDisabled={!canCalculate || !scenarioName.trim() || calculate.isPending}
+              onClick={() => calculate.mutate({ ...buildRequest(), save: true, name: scenarioName.trim() })}
+            >
+              Save scenario
+            </Button>
+          </div>
+
+          {calculate.error && (
+            <p className="text-sm text-red-600">{calculate.error.message}</p>
+          )}
+        </div>
+
+        {/* Shortlist */}
+        {result && (
+          <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              <div className="bg-secondary rounded-2xl p-6">
+                <h3 className="text-sm font-medium text-tertiary">Funded</h3>
+                <p className="text-lg font-semibold text-primary">{result.fundedCount} · {formatCurrency(result.fundedAmount)}</p>
+              </div>
+              <div className="bg-secondary rounded-2xl p-6">
+                <h3 className="text-sm font-medium text-tertiary">Remaining budget</h3>
+                <p className="text-lg font-semibold text-primary">{formatCurrency(result.remainingBudget)}</p>
+              </div>
+              <div className="bg-secondary rounded-2xl p-6">
+                <h3 className="text-sm font-medium text-tertiary">Cut line</h3>
+                <p className="text-lg font-semibold text-primary">{result.cutLineScore ?? '—'}</p>
+              </div>
+              <div className="bg-secondary rounded-2xl p-6">
+                <h3 className="text-sm font-medium text-tertiary">Waitlist / declined</h3>
+                <p className="text-lg font-semibold text-primary">{result.waitlistCount} / {result.declinedCount}</p>
+              </div>
+            </div>
+
+            {result.needsReviewCount > 0 && (
+              <p className="text-sm text-secondary">
+                {result.needsReviewCount} application{result.needsReviewCount === 1 ? '' : 's'} need{result.needsReviewCount === 1 ? 's' : ''} review: the requested amount could not be read.
+              </p>
+            )}
+
+            {result.quotas.some(quota => !quota.met) && (
+              <p className="text-sm text-red-600">
+                Quotas not met: {result.quotas.filter(quota => !quota.met).map(quota => `${quota.value} (${quota.fundedCount}/${quota.minCount})`).join(', ')}
+              </p>
+            )}
+
+            <div className="bg-secondary rounded-2xl p-6 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-tertiary">
+                    <th className="py-2 pr-4 font-medium">Rank</th>
+                    <th className="py-2 pr-4 font-medium">Applicant</th>
+                    <th className="py-2 pr-4 font-medium">Score</th>
+                    <th className="py-2 pr-4 font-medium">Requested</th>
+                    <th className="py-2 pr-4 font-medium">Region</th>
+                    <th className="py-2 pr-4 font-medium">Type</th>
+                    <th className="py-2 pr-4 font-medium">Decision</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.shortlist.map(entry => (
+                    <tr
+                      key={entry.assessmentId}
+                      className="border-t border-secondary cursor-pointer hover:bg-secondary_hover"
+                      onClick={() => router.push(`/funding/assess/${entry.assessmentId}`)}
+                    >
+                      <td className="py-2 pr-4 text-secondary">{entry.rank}</td>
+                      <td className="py-2 pr-4 text-primary">{entry.organizationName}</td>
+                      <td className="py-2 pr-4 text-secondary">{entry.weightedScore}</td>
+                      <td className="py-2 pr-4 text-secondary">{formatCurrency(entry.requestedAmount)}</td>
+                      <td className="py-2 pr-4 text-secondary">{entry.region || '—'}</td>
+                      <td className="py-2 pr-4 text-secondary">{entry.organisationType || '—'}</td>
+                      <td className="py-2 pr-4">
+                        <div className="flex flex-col gap-1">
+                          <BadgeWithDot size="sm" type="pill-color" color={getDecisionColor(entry.decision) as any} className="capitalize self-start">
+                            {entry.decision.toLowerCase().replace('_', ' ')}
+                          </BadgeWithDot>
+                          <span className="text-xs text-tertiary">{entry.reason}</span>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Saved scenarios */}
+        {saved && saved.allocations.length > 0 && (
+          <div className="bg-secondary rounded-2xl p-6">
+            <h2 className="text-lg font-semibold text-primary mb-4">Saved scenarios</h2>
+            <ul className="space-y-2">
+              {saved.allocations.map(allocation => (
+                <li key={allocation.id} className="flex justify-between text-sm">
+                  <span className="text-primary">{allocation.name}</span>
+                  <span className="text-tertiary">
+                    {formatCurrency(allocation.budget)} budget · {allocation.fundedCount} funded ({formatCurrency(allocation.fundedAmount)}) · {new Date(allocation.createdAt).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
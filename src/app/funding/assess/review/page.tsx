@@ -0,0 +1,100 @@
+"use client";
+
+import { useRouter } from 'next/navigation';
+import {
+  ArrowLeft,
+  Flag01,
+  TrendUp02,
+  Edit05,
+  Send01,
+  CheckDone01
+} from '@untitledui/icons';
+import { SidebarNavigationSlim } from "@/components/application/app-navigation/sidebar-navigation/sidebar-slim";
+import { Button } from "@/components/base/buttons/button";
+import { BadgeWithDot } from "@/components/base/badges/badges";
+import { ProgressBar } from "@/components/base/progress-indicators/progress-indicators";
+import { useReviewQueue } from '@/hooks/useAssessmentReview';
+
+export default function ReviewQueuePage() {
+  const router = useRouter();
+  const { data, isLoading, error } = useReviewQueue();
+
+  const assessments = data?.assessments || [];
+
+  return (
+    <div className="flex flex-col bg-primary lg:flex-row">
+      <SidebarNavigationSlim
+        activeUrl="/funding/assess"
+        items={[
+          { label: "Setup", href: "/funding/setup", icon: Edit05 },
+          { label: "Apply", href: "/funding/apply", icon: Send01 },
+          { label: "Assess", href: "/funding/assess", icon: CheckDone01 },
+          { label: "Analytics", href: "/funding/analytics", icon: TrendUp02 },
+        ]}
+      />
+      <main className="flex min-w-0 flex-1 flex-col gap-8 pt-8 pb-12 px-4 lg:px-8">
+        <div className="flex flex-col gap-4">
+          <Button
+            onClick={() => router.push('/funding/assess')}
+            size="sm"
+            color="tertiary"
+            iconLeading={ArrowLeft}
+            className="self-start"
+          >
+            Back to Assessments
+          </Button>
+
+          <div className="flex flex-col gap-1">
+            <h1 className="text-display-md font-semibold text-primary">Review queue</h1>
+            <p className="text-md text-tertiary">
+              Assessments flagged by the model or scored with confidence below {Math.round((data?.confidenceThreshold ?? 0.7) * 100)}%
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 text-center text-tertiary">Loading review queue...</div>
+        ) : error ? (
+          <div className="p-8 text-center text-red-600">Error loading review queue</div>
+        ) : assessments.length === 0 ? (
+          <div className="p-8 text-center text-tertiary">
+            <p className="mb-4">No assessments awaiting review</p>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            {assessments.map(assessment => (
+              <button
+                key={assessment.id}
+                onClick={() => router.push(`/funding/assess/${assessment.id}`)}
+                className="bg-secondary rounded-2xl p-6 text-left hover:bg-secondary_hover"
+              >
+                <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="text-md font-semibold text-primary">{assessment.organizationName}</p>
+                      {assessment.flagForReview && (
+                        <BadgeWithDot size="sm" type="pill-color" color="warning">
+                          <span className="flex items-center gap-1"><Flag01 className="w-3 h-3" /> Flagged</span>
+                        </BadgeWithDot>
+                      )}
+                    </div>
+                    <p className="text-sm text-tertiary">{assessment.fundName}</p>
+                  </div>
+                  <div className="flex items-center gap-6">
+                    <div className="flex items-center gap-3 min-w-40">
+                      <ProgressBar min={0} max={100} value={Math.round(assessment.overallScore || 0)} />
+                      <span className="text-sm font-medium text-secondary">{Math.round(assessment.overallScore || 0)}</span>
+                    </div>
+                    <span className="text-sm text-tertiary text-nowrap">
+                      {assessment.confidence !== null ? `${Math.round(assessment.confidence * 100)}% confidence` : 'No confidence'}
+                    </span>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { AlertCircle, CheckCircle, Clock, RefreshCw05 } from "@untitledui/icons";
+import type { JobStepSummary } from "@/lib/job-steps";
+
+// Dates arrive as ISO strings over JSON
+export type JobStepView = Omit<JobStepSummary, "startedAt" | "completedAt"> & {
+    startedAt: string | null;
+    completedAt: string | null;
+};
+
+interface JobStepListProps {
+    steps: JobStepView[];
+}
+
+const getStepIcon = (status: JobStepView["status"]) => {
+    switch (status) {
+        case "COMPLETED":
+            return <CheckCircle className="w-4 h-4 text-success-600 shrink-0" />;
+        case "RUNNING":
+            return <RefreshCw05 className="w-4 h-4 text-warning-600 animate-spin shrink-0" />;
+        case "FAILED":
+            return <AlertCircle className="w-4 h-4 text-error-600 shrink-0" />;
+        default:
+            return <Clock className="w-4 h-4 text-gray-400 shrink-0" />;
+    }
+};
+
+/**
+ * Steps of the fund's processing jobs in the order they run
+ */
+export const JobStepList = ({ steps }: JobStepListProps) => {
+    if (steps.length === 0) {
+        return null;
+    }
+
+    return (
+        <ul className="space-y-2 max-h-72 overflow-y-auto pr-2">
+            {steps.map((step) => (
+                <li key={step.name} className="flex items-start gap-2">
+                    <span className="mt-0.5">{getStepIcon(step.status)}</span>
+                    <div className="min-w-0 flex-1">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className={`text-sm truncate ${step.status === "PENDING" ? "text-tertiary" : "text-secondary"}`}>
+                                {step.label || step.name}
+                            </span>
+                            {step.attempts > 1 && (
+                                <span className="text-xs text-tertiary shrink-0">attempt {step.attempts}</span>
+                            )}
+                        </div>
+                        {step.status === "FAILED" && step.errorMessage && (
+                            <p className="text-xs text-error-primary mt-0.5 break-words">{step.errorMessage}</p>
+                        )}
+                    </div>
+                </li>
+            ))}
+        </ul>
+    );
+};
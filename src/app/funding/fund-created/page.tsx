@@ -33,6 +33,7 @@ import { ProgressBar } from "@/components/base/progress-indicators/progress-indi
 import { Badge } from "@/components/base/badges/badges";
 import { SidebarNavigationSlim } from "@/components/application/app-navigation/sidebar-navigation/sidebar-slim";
 import { TableRowActionsDropdown } from "@/components/application/table/table";
+import { JobStepList, JobStepView } from "./components/job-step-list";
 
 interface ProcessingStatus {
     fundId: string;
@@ -50,6 +51,7 @@ interface ProcessingStatus {
         progress: number;
         currentTask?: string;
         estimatedCompletion?: string;
+        steps: JobStepView[];
     };
     createdAt: string;
     analysisWarnings?: Array<{
@@ -73,6 +75,10 @@ const lineData = [
     { date: "2025-09-01", A: 85, B: 50 },
 ];
 
+// Jobs that have stopped without completing: failed, out of retries or cancelled
+const FAILED_JOB_STATUSES = ['FAILED', 'DEAD_LETTER', 'CANCELLED'];
+const isFailedJob = (job?: { status: string }) => !!job && FAILED_JOB_STATUSES.includes(job.status);
+
 function FundCreatedContent() {
     const router = useRouter();
     const searchParams = useSearchParams();
@@ -154,6 +160,11 @@ function FundCreatedContent() {
                     outputTemplates: 0
                 };
                 
+                // Steps of every job, oldest job first (document analysis, then brain assembly)
+                const steps: JobStepView[] = [...(data.jobs || [])].reverse().flatMap((job: any) => job.steps || []);
+                const completedSteps = steps.filter(step => step.status === 'COMPLETED').length;
+                const runningStep = steps.find(step => step.status === 'RUNNING');
+
                 const transformedStatus: ProcessingStatus = {
                     fundId: data.fundId,
                     fundName: fundData?.fund?.name || "Funding Program",
@@ -165,16 +176,18 @@ function FundCreatedContent() {
                     brainBuilding: {
                         status: ragJob ? 
                                (ragJob.status === 'COMPLETED' ? 'COMPLETE' : 
-                                ragJob.status === 'FAILED' ? 'ERROR' : 
+                                isFailedJob(ragJob) ? 'ERROR' : 
                                 ragJob.status === 'PROCESSING' ? 'ANALYZING' : 'PENDING') : 
                                'PENDING',
-                        progress: ragJob?.progress || 0,
-                        currentTask: ragJob?.status === 'PROCESSING' ? 
+                        progress: steps.length > 0 ? (completedSteps / steps.length) * 100 : ragJob?.progress || 0,
+                        currentTask: runningStep ? (runningStep.label || runningStep.name) :
+                                   ragJob?.status === 'PROCESSING' ? 
                                    'Building knowledge base from documents' : 
                                    ragJob?.status === 'COMPLETED' ? 
                                    'Analysis complete' : 
                                    'Waiting to start',
-                        estimatedCompletion: ragJob?.status === 'PROCESSING' ? '2-3 minutes' : undefined
+                        estimatedCompletion: ragJob?.status === 'PROCESSING' ? '2-3 minutes' : undefined,
+                        steps
                     },
                     createdAt: data.jobs[0]?.createdAt || new Date().toISOString(),
                     analysisWarnings
@@ -206,7 +219,8 @@ function FundCreatedContent() {
                         status: 'ANALYZING',
                         progress: 45,
                         currentTask: 'Analyzing selection criteria documents',
-                        estimatedCompletion: '2-3 minutes'
+                        estimatedCompletion: '2-3 minutes',
+                        steps: []
                     },
                     createdAt: new Date().toISOString()
                 };
@@ -539,6 +553,15 @@ function FundCreatedContent() {
                                         Estimated completion: {status.brainBuilding.estimatedCompletion}
                                     </div>
                                 )}
+
+                                {status.brainBuilding.steps.length > 0 && (
+                                    <div>
+                                        <div className="text-sm text-secondary mb-2">
+                                            <strong>Steps:</strong> {status.brainBuilding.steps.filter(step => step.status === 'COMPLETED').length} of {status.brainBuilding.steps.length} complete
+                                        </div>
+                                        <JobStepList steps={status.brainBuilding.steps} />
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </div>
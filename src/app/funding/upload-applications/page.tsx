@@ -183,6 +183,8 @@ const UploadApplicationsPage = () => {
                     assessmentData: {
                         fileName: result.fileName,
                         fileMimeType: result.fileMimeType, // Pass the file MIME type
+                        evidence: result.evidence,
+                        sourceDocument: result.sourceDocument,
                         originalResult: result,
                         processedAt: new Date().toISOString(),
                         fundName: selectedFund.name
@@ -3,6 +3,8 @@
  * Supports both legacy (hardcoded) and dynamic (template-based) assessment results
  */
 
+import type { AssessmentEvidence, SourceDocument } from '@/lib/document-evidence';
+
 // Base assessment data from AI analysis
 export interface BaseAssessmentResult {
   fundId: string;
@@ -17,6 +19,7 @@ export interface BaseAssessmentResult {
   };
   confidence: number;
   flagForReview: boolean;
+  evidence?: AssessmentEvidence;
   assessmentDetails: {
     completeness: number;
     alignment: number;
@@ -32,6 +35,7 @@ export interface TemplateAssessmentResponse extends BaseAssessmentResult {
   templateApplied: boolean;
   templateName?: string;
   templateError?: string;
+  sourceDocument?: SourceDocument | null;
 
   // Legacy fields (for backwards compatibility)
   templateAvailable?: boolean;
@@ -58,6 +62,15 @@ export interface UIAssessmentResult {
   // Legacy content (fallback)
   details?: LegacyAssessmentDetails;
   recommendations: string[];
+
+  // Review signals from the AI assessment (drive the human review queue)
+  criteriaScores?: { [criterion: string]: number };
+  confidence?: number;
+  flagForReview?: boolean;
+
+  // Quoted evidence and the stored upload it was located in (evidence viewer)
+  evidence?: AssessmentEvidence;
+  sourceDocument?: SourceDocument | null;
 }
 
 // Dynamic template section structure
@@ -154,6 +167,12 @@ export function convertToUIResult(
 
     details: !isTemplateFormatted ? createLegacyDetails(apiResponse) : undefined,
     recommendations: Array.isArray(recommendations) ? recommendations : [],
+
+    criteriaScores: apiResponse.criteriaScores,
+    confidence: apiResponse.confidence,
+    flagForReview: apiResponse.flagForReview,
+    evidence: apiResponse.evidence,
+    sourceDocument: apiResponse.sourceDocument,
   };
 
   console.log('✅ convertToUIResult: Final result:', {
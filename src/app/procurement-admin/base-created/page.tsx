@@ -61,6 +61,10 @@ interface ProcessingStatus {
     }>;
 }
 
+// Jobs that have stopped without completing: failed, out of retries or cancelled
+const FAILED_JOB_STATUSES = ['FAILED', 'DEAD_LETTER', 'CANCELLED'];
+const isFailedJob = (job?: { status: string }) => !!job && FAILED_JOB_STATUSES.includes(job.status);
+
 function BaseCreatedContent() {
     const router = useRouter();
     const searchParams = useSearchParams();
@@ -118,10 +122,10 @@ function BaseCreatedContent() {
             // Determine current phase and task message
             const getCurrentPhase = (): { task: string; status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' } => {
                 // Check for failures first
-                if (docAnalysisJob?.status === 'FAILED') {
+                if (isFailedJob(docAnalysisJob)) {
                     return { task: 'Document analysis failed', status: 'FAILED' };
                 }
-                if (ragJob?.status === 'FAILED') {
+                if (isFailedJob(ragJob)) {
                     return { task: 'Knowledge base building failed', status: 'FAILED' };
                 }
 
@@ -221,7 +225,10 @@ function BaseCreatedContent() {
         switch (jobStatus) {
             case 'PROCESSING': return 'PROCESSING';
             case 'COMPLETED': return 'COMPLETED';
-            case 'FAILED': return 'FAILED';
+            case 'FAILED':
+            case 'DEAD_LETTER':
+            case 'CANCELLED':
+                return 'FAILED';
             default: return 'PENDING';
         }
     };
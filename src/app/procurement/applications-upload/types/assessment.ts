@@ -80,6 +80,9 @@ export interface UIAssessmentResult {
   // Legacy content (fallback)
   details?: LegacyAssessmentDetails;
   recommendations: string[];
+
+  // Model usage run to attribute to the saved assessment
+  usageRunId?: string;
 }
 
 // Dynamic template section structure
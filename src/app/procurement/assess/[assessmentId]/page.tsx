@@ -13,7 +13,8 @@ import {
   Star07,
   Edit05,
   Send01,
-  CheckDone01
+  CheckDone01,
+  Download01
 } from '@untitledui/icons';
 import { SidebarNavigationSlim } from "@/components/application/app-navigation/sidebar-navigation/sidebar-slim";
 import { Button } from "@/components/base/buttons/button";
@@ -182,6 +183,17 @@ export default function AssessmentDetailPage() {
               <p className="text-lg text-secondary">{assessment.projectName}</p>
             )}
           </div>
+
+          {assessment.status === 'COMPLETED' && (
+            <div className="flex gap-3">
+              <Button size="sm" color="secondary" iconLeading={Download01} href={`/api/assessments/${assessment.id}/report?format=docx`}>
+                Download report (DOCX)
+              </Button>
+              <Button size="sm" color="secondary" iconLeading={Download01} href={`/api/assessments/${assessment.id}/report?format=pdf`}>
+                Download report (PDF)
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Assessment Overview */}
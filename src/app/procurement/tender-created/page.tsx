@@ -63,6 +63,10 @@ interface ProcessingStatus {
     }>;
 }
 
+// Jobs that have stopped without completing: failed, out of retries or cancelled
+const FAILED_JOB_STATUSES = ['FAILED', 'DEAD_LETTER', 'CANCELLED'];
+const isFailedJob = (job?: { status: string }) => !!job && FAILED_JOB_STATUSES.includes(job.status);
+
 function TenderCreatedContent() {
     const router = useRouter();
     const searchParams = useSearchParams();
@@ -118,10 +122,10 @@ function TenderCreatedContent() {
 
             // Determine current phase and task message
             const getCurrentPhase = (): { task: string; status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' } => {
-                if (docAnalysisJob?.status === 'FAILED') {
+                if (isFailedJob(docAnalysisJob)) {
                     return { task: 'Document analysis failed', status: 'FAILED' };
                 }
-                if (ragJob?.status === 'FAILED') {
+                if (isFailedJob(ragJob)) {
                     return { task: 'Knowledge base building failed', status: 'FAILED' };
                 }
 
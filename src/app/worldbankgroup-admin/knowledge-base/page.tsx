@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, Suspense } from "react";
-import { useRouter, useSearchParams } from "next/navigation";
+import { useSearchParams } from "next/navigation";
 import {
     CheckCircle,
     ArrowLeft,
@@ -11,23 +11,36 @@ import {
     Shield01,
     Building02,
     Database02,
-    SearchSm
+    SearchSm,
+    Plus,
+    Trash01,
+    Send01,
+    Archive,
+    SwitchHorizontal01
 } from "@untitledui/icons";
 import { Button } from "@/components/base/buttons/button";
 import { FeaturedIcon } from "@/components/foundations/featured-icon/featured-icon";
 import { Badge } from "@/components/base/badges/badges";
+import { Input } from "@/components/base/input/input";
+import { Select } from "@/components/base/select/select";
+import { TextArea } from "@/components/base/textarea/textarea";
 import { SidebarNavigationSlim } from "@/components/application/app-navigation/sidebar-navigation/sidebar-slim";
 import { LoadingIndicator } from "@/components/application/loading-indicator/loading-indicator";
-import { procurementRulesContent } from "./procurement-rules-content";
+import {
+    useRuleSetDiff,
+    useRuleSetMutations,
+    useRuleSetVersion,
+    useRuleSetVersions,
+    type KnowledgeBaseRule,
+    type KnowledgeBaseSection,
+    type RuleCategory,
+    type RulePriority,
+    type RuleSetStatus
+} from "@/hooks/useRulesKnowledgeBase";
 
 // Disable static generation
 export const dynamic = 'force-dynamic';
 
-// Simple styles - no animations
-const styleSheet = `
-  /* No animations - just simple display */
-`;
-
 interface BaseInfo {
     baseId: string;
     baseName: string;
@@ -36,8 +49,128 @@ interface BaseInfo {
     createdAt: string;
 }
 
+interface RuleDraft {
+    ruleId?: string;
+    sectionId: string;
+    number: string;
+    title: string;
+    description: string;
+    requirements: string;
+    source: string;
+}
+
+const CATEGORY_LABELS: Record<RuleCategory, string> = {
+    PROCUREMENT: "World Bank IPF Procurement Rules",
+    CATHLAB: "Cathlab Bid Evaluation Rules",
+};
+
+const getPriorityColor = (priority: RulePriority) => {
+    switch (priority) {
+        case 'CRITICAL': return 'error';
+        case 'HIGH': return 'warning';
+        case 'INFO': return 'brand';
+        default: return 'gray';
+    }
+};
+
+const getStatusColor = (status: RuleSetStatus) => {
+    switch (status) {
+        case 'PUBLISHED': return 'success';
+        case 'DRAFT': return 'warning';
+        default: return 'gray';
+    }
+};
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString('en-NZ') : '—');
+
+const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) return value.join('; ') || '—';
+    const text = String(value);
+    return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+};
+
+// Render information section content, treating **bold** markers as emphasis
+function InfoContent({ content }: { content: string }) {
+    const parseBold = (text: string) => {
+        const parts = text.split(/(\*\*[^*]+\*\*)/g);
+        return parts.map((part, idx) => {
+            if (part.startsWith('**') && part.endsWith('**')) {
+                return <span key={idx} className="font-semibold">{part.slice(2, -2)}</span>;
+            }
+            return part;
+        });
+    };
+
+    return (
+        <div className="rounded-lg border border-brand-200 bg-brand-50 p-6">
+            <div className="prose prose-sm max-w-none text-brand-900">
+                {content.split('\n\n').map((paragraph, pIdx) => {
+                    if (paragraph === '---') {
+                        return <hr key={pIdx} className="my-4 border-brand-200" />;
+                    }
+                    if (paragraph.startsWith('**') && paragraph.endsWith('**') && !paragraph.includes(':')) {
+                        return <h3 key={pIdx} className="font-semibold text-brand-900 mt-4 mb-2">{paragraph.slice(2, -2)}</h3>;
+                    }
+                    if (paragraph.startsWith('- ')) {
+                        return <p key={pIdx} className="text-sm text-brand-800 pl-4 mb-1">{parseBold(paragraph)}</p>;
+                    }
+                    return <p key={pIdx} className="text-sm text-brand-800 mb-2">{parseBold(paragraph)}</p>;
+                })}
+            </div>
+        </div>
+    );
+}
+
+function RuleEditor({
+    draft,
+    onChange,
+    onSave,
+    onCancel,
+    isSaving,
+    error
+}: {
+    draft: RuleDraft;
+    onChange: (draft: RuleDraft) => void;
+    onSave: () => void;
+    onCancel: () => void;
+    isSaving: boolean;
+    error: string | null;
+}) {
+    return (
+        <div className="rounded-lg border border-brand-300 bg-primary p-4 flex flex-col gap-3">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <Input
+                    type="number"
+                    label="Number"
+                    placeholder="Next free"
+                    value={draft.number}
+                    onChange={(value: string) => onChange({ ...draft, number: value })}
+                />
+                <div className="md:col-span-3">
+                    <Input label="Title" value={draft.title} onChange={(value: string) => onChange({ ...draft, title: value })} />
+                </div>
+            </div>
+            <TextArea label="Description" rows={3} value={draft.description} onChange={(value: string) => onChange({ ...draft, description: value })} />
+            <TextArea
+                label="Requirements (one per line, optional)"
+                rows={3}
+                value={draft.requirements}
+                onChange={(value: string) => onChange({ ...draft, requirements: value })}
+            />
+            <Input label="Source" placeholder="e.g. PR2025 Section 5.20" value={draft.source} onChange={(value: string) => onChange({ ...draft, source: value })} />
+            {error && <p className="text-sm text-error-600">{error}</p>}
+            <div className="flex gap-2 justify-end">
+                <Button size="sm" color="secondary" onClick={onCancel}>Cancel</Button>
+                <Button size="sm" onClick={onSave} isDisabled={isSaving}>
+                    {isSaving ? 'Saving...' : draft.ruleId ? 'Save rule' : 'Add rule'}
+                </Button>
+            </div>
+        </div>
+    );
+}
+
 function KnowledgeBaseContent() {
-    const router = useRouter();
     const searchParams = useSearchParams();
     const baseId = searchParams.get('baseId');
 
@@ -45,12 +178,21 @@ function KnowledgeBaseContent() {
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [searchQuery, setSearchQuery] = useState("");
-
-    // Typewriter effect state
-    const [typingStage, setTypingStage] = useState(0);
-    const [displayedText, setDisplayedText] = useState("");
-    const [visibleSections, setVisibleSections] = useState<number[]>([]);
-    const [visibleRules, setVisibleRules] = useState<{[key: number]: number[]}>({});
+    const [category, setCategory] = useState<RuleCategory>('PROCUREMENT');
+    const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+    const [compareWithId, setCompareWithId] = useState<string | null>(null);
+    const [effectiveFrom, setEffectiveFrom] = useState("");
+    const [ruleDraft, setRuleDraft] = useState<RuleDraft | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    const { data: versionList } = useRuleSetVersions();
+    const versions = versionList?.versions ?? [];
+    const activeVersionId = versionList?.activeVersionId ?? null;
+    const versionId = selectedVersionId ?? activeVersionId ?? versions[0]?.id ?? null;
+    const { data: version, isLoading: versionLoading } = useRuleSetVersion(versionId);
+    const { data: diff, isLoading: diffLoading } = useRuleSetDiff(compareWithId, versionId);
+    const mutations = useRuleSetMutations(versionId);
+    const isDraft = version?.status === 'DRAFT';
 
     // Fetch base info from API
     const fetchBaseInfo = async () => {
@@ -65,20 +207,13 @@ function KnowledgeBaseContent() {
                 throw new Error(data.error || 'Failed to fetch base info');
             }
 
-            console.log('[WorldBankGroup] Base info data:', data);
-
-            const info: BaseInfo = {
+            setBaseInfo({
                 baseId: data.baseId,
                 baseName: data.baseName,
                 baseDescription: data.baseDescription,
                 status: 'ACTIVE',
                 createdAt: data.createdAt
-            };
-
-            // Add 4-second delay to give feeling of processing
-            await new Promise(resolve => setTimeout(resolve, 4000));
-
-            setBaseInfo(info);
+            });
             setIsLoading(false);
         } catch (err) {
             console.error('[WorldBankGroup] Error fetching base info:', err);
@@ -97,27 +232,66 @@ function KnowledgeBaseContent() {
         fetchBaseInfo();
     }, [baseId]);
 
-    // Show all content immediately - no animations
+    // Leave any open editor when switching versions
     useEffect(() => {
-        if (isLoading || !baseInfo || searchQuery.trim() !== "") return;
+        setRuleDraft(null);
+        setActionError(null);
+    }, [versionId]);
 
-        // Set title immediately
-        setDisplayedText("World Bank IPF Procurement Rules");
-        setTypingStage(3);
-
-        // Reveal all sections and rules immediately
-        const allSections = procurementRulesContent.map((_, idx) => idx);
-        const allRules: Record<number, number[]> = {};
+    const run = async (action: () => Promise<unknown>) => {
+        setActionError(null);
+        try {
+            await action();
+        } catch (err) {
+            setActionError(err instanceof Error ? err.message : 'Action failed');
+        }
+    };
 
-        procurementRulesContent.forEach((section, sectionIdx) => {
-            if (!section.isInfoSection && section.rules.length > 0) {
-                allRules[sectionIdx] = section.rules.map((_, ruleIdx) => ruleIdx);
-            }
-        });
+    const createDraft = () => run(async () => {
+        const draft = await mutations.createDraft.mutateAsync({ basedOnId: versionId ?? undefined });
+        setSelectedVersionId(draft.id);
+        setCompareWithId(versionId);
+    });
+
+    const publish = () => run(() => mutations.publish.mutateAsync(effectiveFrom ? new Date(effectiveFrom).toISOString() : undefined));
+
+    const discardDraft = () => run(async () => {
+        if (!confirm('Discard this draft and all its changes?')) return;
+        await mutations.deleteDraft.mutateAsync();
+        setSelectedVersionId(null);
+        setCompareWithId(null);
+    });
+
+    const editRule = (rule: KnowledgeBaseRule) => setRuleDraft({
+        ruleId: rule.id,
+        sectionId: rule.sectionId,
+        number: String(rule.number),
+        title: rule.title,
+        description: rule.description,
+        requirements: rule.requirements.join('\n'),
+        source: rule.source,
+    });
+
+    const saveRule = () => run(async () => {
+        if (!ruleDraft) return;
+        const { ruleId, number, requirements, ...fields } = ruleDraft;
+        const changes = {
+            ...fields,
+            ...(number.trim() ? { number: parseInt(number) } : {}),
+            requirements: requirements.split('\n').map(line => line.trim()).filter(Boolean),
+        };
+        if (ruleId) {
+            await mutations.updateRule.mutateAsync({ ruleId, ...changes });
+        } else {
+            await mutations.addRule.mutateAsync(changes);
+        }
+        setRuleDraft(null);
+    });
 
-        setVisibleSections(allSections);
-        setVisibleRules(allRules);
-    }, [isLoading, baseInfo, searchQuery]);
+    const deleteRule = (rule: KnowledgeBaseRule) => run(async () => {
+        if (!confirm(`Delete rule ${rule.code} "${rule.title}" from this draft?`)) return;
+        await mutations.deleteRule.mutateAsync(rule.id);
+    });
 
     if (!baseId) {
         return (
@@ -161,24 +335,23 @@ function KnowledgeBaseContent() {
         return null;
     }
 
-    // Filter rules based on search query
-    const filteredContent = searchQuery.trim() === ""
-        ? procurementRulesContent
-        : procurementRulesContent.filter(section => {
-            const query = searchQuery.toLowerCase();
-            return section.title.toLowerCase().includes(query) ||
-                   section.rules.some(rule =>
-                       rule.title.toLowerCase().includes(query) ||
-                       rule.description.toLowerCase().includes(query) ||
-                       rule.source.toLowerCase().includes(query)
-                   );
-          });
+    const sections = (version?.sections ?? []).filter(section => section.category === category);
+    const ruleCount = (version?.sections ?? []).reduce((sum, section) => sum + section.rules.length, 0);
+    const query = searchQuery.trim().toLowerCase();
+    const matches = (rule: KnowledgeBaseRule) =>
+        rule.code.toLowerCase().includes(query) ||
+        rule.title.toLowerCase().includes(query) ||
+        rule.description.toLowerCase().includes(query) ||
+        rule.source.toLowerCase().includes(query);
+    const filteredSections: KnowledgeBaseSection[] = query === ""
+        ? sections
+        : sections
+            .filter(section => section.title.toLowerCase().includes(query) || section.rules.some(matches))
+            .map(section => section.title.toLowerCase().includes(query) ? section : { ...section, rules: section.rules.filter(matches) });
 
     return (
-        <>
-            <style dangerouslySetInnerHTML={{ __html: styleSheet }} />
-            <div className="flex flex-col bg-primary lg:flex-row">
-                <SidebarNavigationSlim
+        <div className="flex flex-col bg-primary lg:flex-row">
+            <SidebarNavigationSlim
                 activeUrl="/worldbankgroup-admin/setup"
                 items={[
                     {
@@ -212,35 +385,158 @@ function KnowledgeBaseContent() {
                     </div>
                 </div>
 
-                {/* Active Status Card */}
-                <div className="px-4 lg:px-8">
-                    <div className="rounded-lg border border-success-300 bg-success-50 p-6">
-                        <div className="flex items-start gap-4">
-                            <div className="flex-shrink-0">
-                                <CheckCircle className="h-6 w-6 text-success-600" />
-                            </div>
-                            <div className="flex-1">
-                                <div className="flex items-center justify-between">
-                                    <h3 className="text-lg font-semibold text-success-900">
-                                        Knowledge Base Active
-                                    </h3>
-                                    <Badge color="success">Active</Badge>
+                {/* Version Status Card */}
+                {version && (
+                    <div className="px-4 lg:px-8">
+                        <div className={`rounded-lg border p-6 ${version.id === activeVersionId ? 'border-success-300 bg-success-50' : 'border-secondary bg-secondary'}`}>
+                            <div className="flex items-start gap-4">
+                                <div className="flex-shrink-0">
+                                    <CheckCircle className={`h-6 w-6 ${version.id === activeVersionId ? 'text-success-600' : 'text-tertiary'}`} />
+                                </div>
+                                <div className="flex-1">
+                                    <div className="flex items-center justify-between">
+                                        <h3 className="text-lg font-semibold text-primary">
+                                            v{version.version} — {version.name}
+                                        </h3>
+                                        <div className="flex gap-2">
+                                            {version.id === activeVersionId && <Badge color="success">In effect</Badge>}
+                                            <Badge color={getStatusColor(version.status)}>{version.status}</Badge>
+                                        </div>
+                                    </div>
+                                    <p className="mt-1 text-sm text-tertiary">
+                                        {ruleCount} rules · {version.status === 'DRAFT'
+                                            ? 'Draft — edit rules, then publish with an effective date'
+                                            : `Effective from ${formatDate(version.effectiveFrom)}${version.publishedBy ? `, published by ${version.publishedBy}` : ''}`}
+                                    </p>
+                                    {version.notes && <p className="mt-1 text-sm text-tertiary">{version.notes}</p>}
                                 </div>
-                                <p className="mt-1 text-sm text-success-700">
-                                    This knowledge base contains 190 procurement rules and requirements ready for use in project assessments.
-                                </p>
                             </div>
                         </div>
                     </div>
+                )}
+
+                {/* Version Controls */}
+                <div className="px-4 lg:px-8">
+                    <div className="bg-secondary rounded-2xl p-6 flex flex-col gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <Select
+                                label="Version"
+                                placeholder="Select version"
+                                size="md"
+                                items={versions.map(v => ({
+                                    id: v.id,
+                                    label: `v${v.version} — ${v.name} (${v.status.toLowerCase()}${v.id === activeVersionId ? ', in effect' : ''})`
+                                }))}
+                                selectedKey={versionId}
+                                onSelectionChange={(selectedId) => setSelectedVersionId(selectedId as string)}
+                            >
+                                {(item) => <Select.Item id={item.id} label={item.label} />}
+                            </Select>
+                            <Select
+                                label="Compare with"
+                                placeholder="Select version to compare"
+                                size="md"
+                                items={versions.filter(v => v.id !== versionId).map(v => ({ id: v.id, label: `v${v.version} — ${v.name}` }))}
+                                selectedKey={compareWithId}
+                                onSelectionChange={(selectedId) => setCompareWithId(selectedId as string)}
+                            >
+                                {(item) => <Select.Item id={item.id} label={item.label} />}
+                            </Select>
+                        </div>
+                        <div className="flex flex-wrap items-end gap-3">
+                            <Button size="md" color="secondary" iconLeading={Plus} onClick={createDraft} isDisabled={!versionId || mutations.createDraft.isPending}>
+                                New draft from this version
+                            </Button>
+                            {isDraft && (
+                                <>
+                                    <Input
+                                        type="date"
+                                        label="Effective from"
+                                        value={effectiveFrom}
+                                        onChange={(value: string) => setEffectiveFrom(value)}
+                                    />
+                                    <Button size="md" iconLeading={Send01} onClick={publish} isDisabled={mutations.publish.isPending}>
+                                        {mutations.publish.isPending ? 'Publishing...' : 'Publish'}
+                                    </Button>
+                                    <Button size="md" color="secondary-destructive" iconLeading={Trash01} onClick={discardDraft}>
+                                        Discard draft
+                                    </Button>
+                                </>
+                            )}
+                            {version?.status === 'PUBLISHED' && (
+                                <Button size="md" color="secondary" iconLeading={Archive} onClick={() => run(() => mutations.archive.mutateAsync())}>
+                                    Archive
+                                </Button>
+                            )}
+                            {compareWithId && (
+                                <Button size="md" color="tertiary" onClick={() => setCompareWithId(null)}>
+                                    Hide comparison
+                                </Button>
+                            )}
+                        </div>
+                        {actionError && <p className="text-sm text-error-600">{actionError}</p>}
+                    </div>
                 </div>
 
+                {/* Diff View */}
+                {compareWithId && (
+                    <div className="px-4 lg:px-8">
+                        <div className="rounded-lg border border-secondary bg-primary p-6 flex flex-col gap-4">
+                            <div className="flex items-center gap-3">
+                                <FeaturedIcon icon={SwitchHorizontal01} color="brand" size="md" />
+                                <h3 className="text-lg font-semibold text-primary">
+                                    {diff ? `Changes from v${diff.from.version} to v${diff.to.version}` : 'Comparing versions...'}
+                                </h3>
+                            </div>
+                            {diffLoading && <LoadingIndicator type="line-spinner" size="sm" />}
+                            {diff && (
+                                <>
+                                    <p className="text-sm text-tertiary">
+                                        {diff.rules.added.length} rules added · {diff.rules.removed.length} removed · {diff.rules.changed.length} changed · {diff.rules.unchanged} unchanged
+                                        {(diff.sections.added.length + diff.sections.removed.length + diff.sections.changed.length) > 0 &&
+                                            ` · ${diff.sections.added.length} sections added, ${diff.sections.removed.length} removed, ${diff.sections.changed.length} changed`}
+                                    </p>
+                                    {diff.sections.added.map(section => (
+                                        <p key={`sa-${section.key}`} className="text-sm text-success-700">+ Section {section.title}</p>
+                                    ))}
+                                    {diff.sections.removed.map(section => (
+                                        <p key={`sr-${section.key}`} className="text-sm text-error-700">− Section {section.title}</p>
+                                    ))}
+                                    {diff.sections.changed.map(section => (
+                                        <p key={`sc-${section.key}`} className="text-sm text-warning-700">
+                                            ~ Section {section.title}: {section.changes.map(change => change.field).join(', ')}
+                                        </p>
+                                    ))}
+                                    {diff.rules.added.map(rule => (
+                                        <p key={`ra-${rule.code}`} className="text-sm text-success-700">+ {rule.code} {rule.title} <span className="text-tertiary">({rule.section})</span></p>
+                                    ))}
+                                    {diff.rules.removed.map(rule => (
+                                        <p key={`rr-${rule.code}`} className="text-sm text-error-700">− {rule.code} {rule.title} <span className="text-tertiary">({rule.section})</span></p>
+                                    ))}
+                                    {diff.rules.changed.map(rule => (
+                                        <div key={`rc-${rule.code}`} className="rounded-lg border border-warning-200 bg-warning-50 p-3">
+                                            <p className="text-sm font-semibold text-warning-800">~ {rule.code} {rule.title}</p>
+                                            {rule.changes.map(change => (
+                                                <p key={change.field} className="text-xs text-warning-800 mt-1">
+                                                    <span className="font-semibold">{change.field}:</span>{' '}
+                                                    <span className="line-through">{formatValue(change.from)}</span> → {formatValue(change.to)}
+                                                </p>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {/* Search Bar */}
                 <div className="px-4 lg:px-8">
                     <div className="flex items-center gap-3 rounded-lg border border-secondary bg-primary p-4">
                         <SearchSm className="h-5 w-5 text-tertiary flex-shrink-0" />
                         <input
                             type="text"
-                            placeholder="Search procurement rules..."
+                            placeholder="Search rules..."
                             value={searchQuery}
                             onChange={(e) => setSearchQuery(e.target.value)}
                             className="flex-1 bg-transparent text-sm text-primary placeholder-tertiary outline-none"
@@ -248,36 +544,33 @@ function KnowledgeBaseContent() {
                     </div>
                 </div>
 
-                {/* Procurement Rules Content */}
+                {/* Rules Content */}
                 <div className="px-4 lg:px-8">
                     <div className="rounded-lg border border-secondary bg-primary p-6">
-                        {typingStage >= 1 && (
-                            <div className="flex items-center justify-between mb-6">
-                                <div className="flex items-center gap-3">
-                                    <FeaturedIcon icon={BookOpen01} color="brand" size="md" />
-                                    <div>
-                                        <h3 className="text-lg font-semibold text-primary">
-                                            {typingStage === 1 ? displayedText : "World Bank IPF Procurement Rules"}
-                                            {typingStage === 1 && <span className="animate-pulse">|</span>}
-                                        </h3>
-                                        {typingStage >= 2 && (
-                                            <p className="text-sm text-tertiary">Comprehensive list with document citations</p>
-                                        )}
-                                    </div>
+                        <div className="flex items-center justify-between mb-6">
+                            <div className="flex items-center gap-3">
+                                <FeaturedIcon icon={BookOpen01} color="brand" size="md" />
+                                <div>
+                                    <h3 className="text-lg font-semibold text-primary">{CATEGORY_LABELS[category]}</h3>
+                                    <p className="text-sm text-tertiary">Comprehensive list with document citations</p>
                                 </div>
-                                <Button
-                                    href="#"
-                                    color="secondary"
-                                    size="md"
-                                    iconLeading={Edit05}
-                                >
-                                    Edit rule
-                                </Button>
                             </div>
-                        )}
+                            <div className="flex gap-2">
+                                {(Object.keys(CATEGORY_LABELS) as RuleCategory[]).map(option => (
+                                    <Button
+                                        key={option}
+                                        size="sm"
+                                        color={option === category ? 'primary' : 'secondary'}
+                                        onClick={() => setCategory(option)}
+                                    >
+                                        {option === 'PROCUREMENT' ? 'Procurement' : 'Cathlab'}
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
 
                         {/* Source Documents */}
-                        {typingStage >= 2 && (
+                        {category === 'PROCUREMENT' && (
                             <div className="mb-6 space-y-1 text-sm text-tertiary">
                                 <p className="font-semibold">Source Documents:</p>
                                 <p>1. <span className="font-semibold">PR2025:</span> World Bank Procurement Regulations for IPF Borrowers, 6th Edition, February 2025 (effective March 1, 2025)</p>
@@ -285,87 +578,90 @@ function KnowledgeBaseContent() {
                             </div>
                         )}
 
-                        {typingStage >= 3 && (
-                            filteredContent.length === 0 ? (
-                                <div className="text-center py-12">
-                                    <p className="text-tertiary">No rules found matching "{searchQuery}"</p>
-                                </div>
-                            ) : (
-                                <div className="space-y-8">
-                                    {filteredContent.map((section, idx) => {
-                                        const isVisible = searchQuery.trim() !== "" || visibleSections.includes(idx);
-                                        if (!isVisible) return null;
-
-                                        return (
-                                            <div key={idx} className="space-y-4">
-                                                <div className="flex items-center gap-3 pb-3 border-b border-secondary">
-                                                    <Badge color={section.priority === 'critical' ? 'error' : section.priority === 'high' ? 'warning' : section.priority === 'info' ? 'brand' : 'gray'}>
-                                                        {section.priority.toUpperCase()}
-                                                    </Badge>
-                                                    <h4 className="text-md font-semibold text-primary">{section.title}</h4>
-                                                </div>
-
-                                                {section.isInfoSection && section.content ? (
-                                                    <div className="rounded-lg border border-brand-200 bg-brand-50 p-6">
-                                                        <div className="prose prose-sm max-w-none text-brand-900">
-                                                            {section.content.split('\n\n').map((paragraph, pIdx) => {
-                                                                // Helper function to parse inline bold markdown
-                                                                const parseBold = (text: string) => {
-                                                                    const parts = text.split(/(\*\*[^*]+\*\*)/g);
-                                                                    return parts.map((part, idx) => {
-                                                                        if (part.startsWith('**') && part.endsWith('**')) {
-                                                                            return <span key={idx} className="font-semibold">{part.slice(2, -2)}</span>;
-                                                                        }
-                                                                        return part;
-                                                                    });
-                                                                };
-
-                                                                if (paragraph === '---') {
-                                                                    return <hr key={pIdx} className="my-4 border-brand-200" />;
-                                                                }
-                                                                if (paragraph.startsWith('**') && paragraph.endsWith('**') && !paragraph.includes(':')) {
-                                                                    // Full paragraph bold (heading)
-                                                                    const text = paragraph.slice(2, -2);
-                                                                    return <h3 key={pIdx} className="font-semibold text-brand-900 mt-4 mb-2">{text}</h3>;
-                                                                }
-                                                                if (paragraph.startsWith('1. ') || paragraph.startsWith('2. ')) {
-                                                                    return <p key={pIdx} className="text-sm text-brand-800 mb-2">{parseBold(paragraph)}</p>;
-                                                                }
-                                                                if (paragraph.startsWith('- ')) {
-                                                                    return <p key={pIdx} className="text-sm text-brand-800 pl-4 mb-1">{parseBold(paragraph)}</p>;
-                                                                }
-                                                                return <p key={pIdx} className="text-sm text-brand-800 mb-2">{parseBold(paragraph)}</p>;
-                                                            })}
-                                                        </div>
-                                                    </div>
+                        {versionLoading ? (
+                            <div className="flex justify-center py-12">
+                                <LoadingIndicator type="line-spinner" size="md" />
+                            </div>
+                        ) : filteredSections.length === 0 ? (
+                            <div className="text-center py-12">
+                                <p className="text-tertiary">{query ? `No rules found matching "${searchQuery}"` : 'No sections in this version'}</p>
+                            </div>
+                        ) : (
+                            <div className="space-y-8">
+                                {filteredSections.map(section => (
+                                    <div key={section.id} className="space-y-4">
+                                        <div className="flex items-center gap-3 pb-3 border-b border-secondary">
+                                            <Badge color={getPriorityColor(section.priority)}>
+                                                {section.priority}
+                                            </Badge>
+                                            <h4 className="flex-1 text-md font-semibold text-primary">{section.title}</h4>
+                                            {isDraft && !section.isInfoSection && (
+                                                <Button
+                                                    size="sm"
+                                                    color="tertiary"
+                                                    iconLeading={Plus}
+                                                    onClick={() => setRuleDraft({ sectionId: section.id, number: '', title: '', description: '', requirements: '', source: '' })}
+                                                >
+                                                    Add rule
+                                                </Button>
+                                            )}
+                                        </div>
+                                        {section.description && <p className="text-sm text-tertiary">{section.description}</p>}
+
+                                        {section.isInfoSection && section.content ? (
+                                            <InfoContent content={section.content} />
+                                        ) : (
+                                            <div className="space-y-3">
+                                                {section.rules.map(rule => ruleDraft?.ruleId === rule.id ? (
+                                                    <RuleEditor
+                                                        key={rule.id}
+                                                        draft={ruleDraft}
+                                                        onChange={setRuleDraft}
+                                                        onSave={saveRule}
+                                                        onCancel={() => setRuleDraft(null)}
+                                                        isSaving={mutations.updateRule.isPending}
+                                                        error={actionError}
+                                                    />
                                                 ) : (
-                                                    <div className="space-y-3">
-                                                        {section.rules.map((rule, ruleIdx) => {
-                                                            const isRuleVisible = searchQuery.trim() !== "" || (visibleRules[idx] || []).includes(ruleIdx);
-                                                            if (!isRuleVisible) return null;
-
-                                                            return (
-                                                                <div key={ruleIdx} className="rounded-lg border border-secondary bg-secondary/30 p-4">
-                                                                    <div className="flex items-start gap-3">
-                                                                        <span className="flex-shrink-0 flex items-center justify-center h-6 w-6 rounded-full bg-brand-100 text-brand-700 text-xs font-semibold">
-                                                                            {rule.number}
-                                                                        </span>
-                                                                        <div className="flex-1 space-y-2">
-                                                                            <p className="text-sm font-semibold text-primary">{rule.title}</p>
-                                                                            <p className="text-sm text-tertiary">{rule.description}</p>
-                                                                            <p className="text-xs text-tertiary italic">Source: {rule.source}</p>
-                                                                        </div>
-                                                                    </div>
+                                                    <div key={rule.id} className="rounded-lg border border-secondary bg-secondary/30 p-4">
+                                                        <div className="flex items-start gap-3">
+                                                            <span className="flex-shrink-0 flex items-center justify-center h-6 min-w-6 px-1 rounded-full bg-brand-100 text-brand-700 text-xs font-semibold">
+                                                                {rule.number}
+                                                            </span>
+                                                            <div className="flex-1 space-y-2">
+                                                                <p className="text-sm font-semibold text-primary">{rule.title}</p>
+                                                                <p className="text-sm text-tertiary">{rule.description}</p>
+                                                                {rule.requirements.length > 0 && (
+                                                                    <ul className="list-disc pl-5 text-sm text-tertiary">
+                                                                        {rule.requirements.map((requirement, idx) => <li key={idx}>{requirement}</li>)}
+                                                                    </ul>
+                                                                )}
+                                                                <p className="text-xs text-tertiary italic">Source: {rule.source}</p>
+                                                            </div>
+                                                            {isDraft && (
+                                                                <div className="flex gap-1">
+                                                                    <Button size="sm" color="tertiary" iconLeading={Edit05} onClick={() => editRule(rule)} aria-label="Edit rule" />
+                                                                    <Button size="sm" color="tertiary-destructive" iconLeading={Trash01} onClick={() => deleteRule(rule)} aria-label="Delete rule" />
                                                                 </div>
-                                                            );
-                                                        })}
+                                                            )}
+                                                        </div>
                                                     </div>
+                                                ))}
+                                                {ruleDraft && !ruleDraft.ruleId && ruleDraft.sectionId === section.id && (
+                                                    <RuleEditor
+                                                        draft={ruleDraft}
+                                                        onChange={setRuleDraft}
+                                                        onSave={saveRule}
+                                                        onCancel={() => setRuleDraft(null)}
+                                                        isSaving={mutations.addRule.isPending}
+                                                        error={actionError}
+                                                    />
                                                 )}
                                             </div>
-                                        );
-                                    })}
-                                </div>
-                            )
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
                         )}
                     </div>
                 </div>
@@ -376,7 +672,7 @@ function KnowledgeBaseContent() {
                 <div className="flex flex-col gap-5 px-6 pt-6">
                     <div className="p-4 bg-success-50 border border-success-200 rounded-lg">
                         <p className="text-sm text-success-800">
-                            <span className="font-semibold">Status: Active</span> — This knowledge base is ready for use in project assessments and compliance checking.
+                            <span className="font-semibold">Versioned rules</span> — Assessments use the published version in effect when they run, and record which version they were checked against.
                         </p>
                     </div>
 
@@ -392,23 +688,28 @@ function KnowledgeBaseContent() {
                         <div className="flex items-start gap-3">
                             <FeaturedIcon icon={Shield01} color="success" size="md" />
                             <div>
-                                <p className="text-sm font-semibold text-primary">190 Rules Indexed</p>
-                                <p className="text-xs text-tertiary mt-1">Complete procurement compliance framework</p>
+                                <p className="text-sm font-semibold text-primary">{ruleCount} Rules</p>
+                                <p className="text-xs text-tertiary mt-1">Procurement and Cathlab compliance framework</p>
                             </div>
                         </div>
 
                         <div className="flex items-start gap-3">
                             <FeaturedIcon icon={Database02} color="brand" size="md" />
                             <div>
-                                <p className="text-sm font-semibold text-primary">Source Documents</p>
-                                <p className="text-xs text-tertiary mt-1">PR2025 & EVAL2024 templates</p>
+                                <p className="text-sm font-semibold text-primary">Version History</p>
+                                <div className="mt-1 space-y-1">
+                                    {versions.map(v => (
+                                        <p key={v.id} className="text-xs text-tertiary">
+                                            v{v.version} · {v.status.toLowerCase()}{v.effectiveFrom ? ` · from ${formatDate(v.effectiveFrom)}` : ''} · {v._count.assessments} assessments
+                                        </p>
+                                    ))}
+                                </div>
                             </div>
                         </div>
                     </div>
                 </div>
             </div>
-            </div>
-        </>
+        </div>
     );
 }
 
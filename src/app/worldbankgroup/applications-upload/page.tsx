@@ -272,6 +272,10 @@ const ApplicationsUploadPage = () => {
             const result = await createResponse.json();
             console.log('✅ Assessment created:', result);
 
+            // Step 4: Check the report against the procurement rules (completes the IN_PROGRESS record)
+            fetch(`/api/worldbankgroup-assessments/${result.assessment.id}/evaluate`, { method: 'POST' })
+                .catch(error => console.error('❌ Rule evaluation request failed:', error));
+
             // Move to processing state
             setCurrentStep('processing');
         } catch (error) {
@@ -0,0 +1,255 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+export type ReviewStatus = 'NOT_REQUIRED' | 'PENDING' | 'APPROVED' | 'REJECTED';
+export type ModerationStatus = 'NOT_REQUIRED' | 'REQUIRED' | 'MODERATED';
+
+export interface ReviewQueueItem {
+  id: string;
+  fundId: string;
+  fundName: string;
+  moduleType: string;
+  organizationName: string;
+  projectName?: string | null;
+  overallScore: number | null;
+  aiScore: number | null;
+  confidence: number | null;
+  flagForReview: boolean;
+  reviewStatus: ReviewStatus;
+  moderationStatus: ModerationStatus;
+  reviewedBy?: string | null;
+  reviewedAt?: string | null;
+  createdAt: string;
+}
+
+export interface ReviewQueueResponse {
+  success: boolean;
+  assessments: ReviewQueueItem[];
+  confidenceThreshold: number;
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export interface AssessmentRevision {
+  id: string;
+  revision: number;
+  action: 'CREATED' | 'SCORE_OVERRIDE' | 'MODERATED' | 'APPROVED' | 'REJECTED';
+  criterion?: string | null;
+  previousScore?: number | null;
+  newScore?: number | null;
+  overallScore?: number | string | null;
+  criteriaScores?: Record<string, number> | null;
+  justification?: string | null;
+  reviewerName?: string | null;
+  createdAt: string;
+}
+
+export interface ScoreOverride {
+  criterion: string;
+  score: number;
+  justification: string;
+}
+
+export interface ContributingScore {
+  assessorId: string;
+  assessorName: string;
+  criteriaScores: Record<string, number>;
+  overallScore: number | null;
+}
+
+export interface CriterionAgreement {
+  criterion: string;
+  raters: number;
+  mean: number;
+  min: number;
+  max: number;
+  spread: number;
+  standardDeviation: number;
+  disagreement: boolean;
+}
+
+export interface AgreementSummary {
+  contributors: number;
+  spreadThreshold: number;
+  criteria: CriterionAgreement[];
+  disagreements: string[];
+  kappa: number | null;
+  method: 'cohen' | 'fleiss' | null;
+  subjects: number;
+}
+
+export interface AssessorScoresResponse {
+  success: boolean;
+  moderationStatus: ModerationStatus;
+  hasSubmitted: boolean;
+  panelSize: number;
+  contributors: ContributingScore[];
+  agreement: AgreementSummary | null;
+  moderations: Array<{
+    id: string;
+    consensusScore: number;
+    consensusCriteria: Record<string, number>;
+    justification?: string | null;
+    moderatorName: string;
+    createdAt: string;
+  }>;
+}
+
+export interface ReviewQueueFilters {
+  fundId?: string;
+  status?: ReviewStatus;
+  moderationStatus?: ModerationStatus;
+}
+
+const throwReviewError = (data: any, fallback: string) => {
+  throw new Error(data.details || data.error || fallback);
+};
+
+// Fetch assessments waiting for human review
+export const useReviewQueue = (filters: ReviewQueueFilters = {}) => {
+  return useQuery({
+    queryKey: ['review-queue', filters.fundId, filters.status, filters.moderationStatus],
+    queryFn: async (): Promise<ReviewQueueResponse> => {
+      const params = new URLSearchParams();
+      if (filters.fundId) params.append('fundId', filters.fundId);
+      if (filters.status) params.append('status', filters.status);
+      if (filters.moderationStatus) params.append('moderationStatus', filters.moderationStatus);
+
+      const response = await fetch(`/api/assessments/review-queue?${params.toString()}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throwReviewError(data, 'Failed to fetch review queue');
+      }
+
+      return data;
+    },
+  });
+};
+
+// Override criterion scores (each override needs a justification)
+export const useOverrideScores = (assessmentId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (overrides: ScoreOverride[]) => {
+      const response = await fetch(`/api/assessments/${assessmentId}/overrides`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overrides }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throwReviewError(data, 'Failed to override scores');
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assessment', assessmentId] });
+      queryClient.invalidateQueries({ queryKey: ['review-queue'] });
+    },
+  });
+};
+
+// Approve or reject an assessment under review
+export const useReviewDecision = (assessmentId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ decision, justification }: { decision: 'APPROVED' | 'REJECTED'; justification?: string }) => {
+      const response = await fetch(`/api/assessments/${assessmentId}/decision`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, justification }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throwReviewError(data, 'Failed to record review decision');
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assessment', assessmentId] });
+      queryClient.invalidateQueries({ queryKey: ['review-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['assessments'] });
+    },
+  });
+};
+
+// Fetch panel scores and agreement statistics for an assessment
+export const useAssessorScores = (assessmentId: string) => {
+  return useQuery({
+    queryKey: ['assessor-scores', assessmentId],
+    queryFn: async (): Promise<AssessorScoresResponse> => {
+      const response = await fetch(`/api/assessments/${assessmentId}/assessor-scores`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throwReviewError(data, 'Failed to fetch assessor scores');
+      }
+
+      return data;
+    },
+    enabled: !!assessmentId,
+  });
+};
+
+// Submit the signed-in assessor's independent scores
+export const useSubmitAssessorScores = (assessmentId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (scores: { criteriaScores: Record<string, number>; overallScore?: number; comments?: string }) => {
+      const response = await fetch(`/api/assessments/${assessmentId}/assessor-scores`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(scores),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throwReviewError(data, 'Failed to submit assessor scores');
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assessor-scores', assessmentId] });
+      queryClient.invalidateQueries({ queryKey: ['review-queue'] });
+    },
+  });
+};
+
+// Record the moderated consensus score
+export const useModerateAssessment = (assessmentId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (moderation: { justification: string; criteriaScores?: Record<string, number> }) => {
+      const response = await fetch(`/api/assessments/${assessmentId}/moderation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(moderation),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throwReviewError(data, 'Failed to moderate assessment');
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assessor-scores', assessmentId] });
+      queryClient.invalidateQueries({ queryKey: ['assessment', assessmentId] });
+      queryClient.invalidateQueries({ queryKey: ['review-queue'] });
+    },
+  });
+};
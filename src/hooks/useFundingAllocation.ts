@@ -0,0 +1,107 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+export type AllocationDecision = 'FUNDED' | 'WAITLIST' | 'DECLINED' | 'NEEDS_REVIEW';
+
+export interface AllocationQuota {
+  attribute: 'region' | 'organisationType';
+  value: string;
+  minCount?: number;
+  maxCount?: number;
+  maxBudgetShare?: number;
+}
+
+export interface AllocationEntry {
+  assessmentId: string;
+  organizationName: string;
+  projectName: string | null;
+  finalScore: number;
+  weightedScore: number;
+  requestedAmount: number | null;
+  requestedAmountText: string | null;
+  region: string | null;
+  organisationType: string | null;
+  rank: number;
+  decision: AllocationDecision;
+  reason: string;
+}
+
+export interface AllocationResult {
+  budget: number;
+  fundedAmount: number;
+  remainingBudget: number;
+  fundedCount: number;
+  waitlistCount: number;
+  declinedCount: number;
+  needsReviewCount: number;
+  cutLineScore: number | null;
+  weights: Record<string, number>;
+  quotas: Array<AllocationQuota & { fundedCount: number; fundedAmount: number; met: boolean }>;
+  minimumScore: number | null;
+  shortlist: AllocationEntry[];
+}
+
+export interface AllocationRequest {
+  budget: number;
+  weights?: Record<string, number>;
+  quotas?: AllocationQuota[];
+  minimumScore?: number;
+  waitlistSize?: number;
+  save?: boolean;
+  name?: string;
+}
+
+export interface SavedAllocation {
+  id: string;
+  name: string;
+  budget: number;
+  minimumScore: number | null;
+  fundedCount: number;
+  fundedAmount: number;
+  createdBy?: string | null;
+  createdAt: string;
+}
+
+// Fetch saved allocation scenarios and the fund's default criterion weights
+export const useFundAllocations = (fundId?: string) => {
+  return useQuery({
+    queryKey: ['fund-allocations', fundId],
+    queryFn: async (): Promise<{ weights: Record<string, number>; allocations: SavedAllocation[] }> => {
+      const response = await fetch(`/api/funds/${fundId}/allocation`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch allocations');
+      }
+
+      return data;
+    },
+    enabled: !!fundId,
+  });
+};
+
+// Calculate (what-if) or save a funding allocation
+export const useCalculateAllocation = (fundId?: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (allocation: AllocationRequest): Promise<AllocationResult> => {
+      const response = await fetch(`/api/funds/${fundId}/allocation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(allocation),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to calculate allocation');
+      }
+
+      return data.result;
+    },
+    onSuccess: (_, allocation) => {
+      if (allocation.save) {
+        queryClient.invalidateQueries({ queryKey: ['fund-allocations', fundId] });
+      }
+    },
+  });
+};
@@ -1,6 +1,7 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
 import { useState, useCallback } from 'react';
+import type { JobStepSummary, StepProgress } from '@/lib/job-steps';
 
 export interface Fund {
   id: string;
@@ -45,6 +46,8 @@ export interface JobStatus {
     version: number;
     assembledAt?: string;
   };
+  steps?: Array<Omit<JobStepSummary, 'startedAt' | 'completedAt'> & { startedAt: string | null; completedAt: string | null }>;
+  stepProgress?: StepProgress;
 }
 
 export interface AsyncUploadResponse {
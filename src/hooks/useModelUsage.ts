@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+}
+
+export interface ModelUsageSummary {
+  currency: string;
+  total: UsageTotals;
+  byFund: Array<UsageTotals & {
+    fundId: string | null;
+    fundName: string | null;
+    moduleType: string | null;
+  }>;
+  byModule: Array<UsageTotals & { moduleType: string | null }>;
+  byTask: Array<UsageTotals & { task: string }>;
+}
+
+export interface ModelUsageFilters {
+  fundId?: string;
+  moduleType?: string;
+  since?: string;
+}
+
+// Fetch model token usage and estimated spend
+export const useModelUsage = (filters: ModelUsageFilters = {}) => {
+  return useQuery({
+    queryKey: ['model-usage', filters.fundId, filters.moduleType, filters.since],
+    queryFn: async (): Promise<ModelUsageSummary> => {
+      const params = new URLSearchParams();
+      if (filters.fundId) params.append('fundId', filters.fundId);
+      if (filters.moduleType) params.append('moduleType', filters.moduleType);
+      if (filters.since) params.append('since', filters.since);
+
+      const response = await fetch(`/api/usage?${params.toString()}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch model usage');
+      }
+
+      return data;
+    },
+  });
+};
@@ -0,0 +1,199 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+export type RuleCategory = 'PROCUREMENT' | 'CATHLAB';
+export type RulePriority = 'CRITICAL' | 'HIGH' | 'IMPORTANT' | 'INFO';
+export type RuleSetStatus = 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+
+export interface KnowledgeBaseRule {
+  id: string;
+  sectionId: string;
+  code: string;
+  number: number;
+  title: string;
+  description: string;
+  requirements: string[];
+  source: string;
+  citation: string | null;
+  sortOrder: number;
+}
+
+export interface KnowledgeBaseSection {
+  id: string;
+  category: RuleCategory;
+  key: string;
+  title: string;
+  description: string | null;
+  priority: RulePriority;
+  isInfoSection: boolean;
+  content: string | null;
+  sortOrder: number;
+  rules: KnowledgeBaseRule[];
+}
+
+export interface RuleSetVersionSummary {
+  id: string;
+  version: number;
+  name: string;
+  notes: string | null;
+  status: RuleSetStatus;
+  effectiveFrom: string | null;
+  basedOnId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  publishedBy: string | null;
+  publishedAt: string | null;
+  _count: { rules: number; assessments: number };
+}
+
+export interface RuleSetVersion extends Omit<RuleSetVersionSummary, '_count'> {
+  sections: KnowledgeBaseSection[];
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RuleSetDiff {
+  from: { id: string; version: number; name: string };
+  to: { id: string; version: number; name: string };
+  sections: {
+    added: Array<{ key: string; title: string }>;
+    removed: Array<{ key: string; title: string }>;
+    changed: Array<{ key: string; title: string; changes: FieldChange[] }>;
+  };
+  rules: {
+    added: Array<{ code: string; title: string; section: string }>;
+    removed: Array<{ code: string; title: string; section: string }>;
+    changed: Array<{ code: string; title: string; changes: FieldChange[] }>;
+    unchanged: number;
+  };
+}
+
+export interface RuleChanges {
+  sectionId?: string;
+  number?: number;
+  title?: string;
+  description?: string;
+  requirements?: string[];
+  source?: string;
+  citation?: string | null;
+}
+
+export interface SectionChanges {
+  category?: RuleCategory;
+  title?: string;
+  description?: string | null;
+  priority?: RulePriority;
+  isInfoSection?: boolean;
+  content?: string | null;
+}
+
+async function send(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `${method} ${url} failed`);
+  }
+
+  return data;
+}
+
+// Fetch all rule set versions and the one in effect
+export const useRuleSetVersions = () => {
+  return useQuery({
+    queryKey: ['rule-set-versions'],
+    queryFn: async (): Promise<{ versions: RuleSetVersionSummary[]; activeVersionId: string | null }> => {
+      const data = await send('/api/worldbankgroup-rules', 'GET');
+      return { versions: data.versions, activeVersionId: data.activeVersionId };
+    },
+  });
+};
+
+// Fetch one version with its sections and rules
+export const useRuleSetVersion = (versionId?: string | null) => {
+  return useQuery({
+    queryKey: ['rule-set-version', versionId],
+    queryFn: async (): Promise<RuleSetVersion> => (await send(`/api/worldbankgroup-rules/${versionId}`, 'GET')).version,
+    enabled: !!versionId,
+  });
+};
+
+// Compare two versions
+export const useRuleSetDiff = (fromId?: string | null, toId?: string | null) => {
+  return useQuery({
+    queryKey: ['rule-set-diff', fromId, toId],
+    queryFn: async (): Promise<RuleSetDiff> => {
+      const params = new URLSearchParams({ from: fromId!, to: toId! });
+      return (await send(`/api/worldbankgroup-rules/diff?${params.toString()}`, 'GET')).diff;
+    },
+    enabled: !!fromId && !!toId && fromId !== toId,
+  });
+};
+
+// Version lifecycle and draft edits; every mutation refreshes the affected version
+export const useRuleSetMutations = (versionId?: string | null) => {
+  const queryClient = useQueryClient();
+  const base = `/api/worldbankgroup-rules/${versionId}`;
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['rule-set-versions'] });
+    queryClient.invalidateQueries({ queryKey: ['rule-set-version', versionId] });
+    queryClient.invalidateQueries({ queryKey: ['rule-set-diff'] });
+  };
+
+  return {
+    createDraft: useMutation({
+      mutationFn: async (draft: { basedOnId?: string; name?: string; notes?: string }): Promise<RuleSetVersion> =>
+        (await send('/api/worldbankgroup-rules', 'POST', draft)).version,
+      onSuccess: () => queryClient.invalidateQueries({ queryKey: ['rule-set-versions'] }),
+    }),
+    updateVersion: useMutation({
+      mutationFn: (changes: { name?: string; notes?: string | null }) => send(base, 'PATCH', changes),
+      onSuccess,
+    }),
+    publish: useMutation({
+      mutationFn: (effectiveFrom?: string) => send(`${base}/publish`, 'POST', { effectiveFrom }),
+      onSuccess,
+    }),
+    archive: useMutation({
+      mutationFn: () => send(`${base}/archive`, 'POST'),
+      onSuccess,
+    }),
+    deleteDraft: useMutation({
+      mutationFn: () => send(base, 'DELETE'),
+      onSuccess: () => queryClient.invalidateQueries({ queryKey: ['rule-set-versions'] }),
+    }),
+    addSection: useMutation({
+      mutationFn: (section: SectionChanges) => send(`${base}/sections`, 'POST', section),
+      onSuccess,
+    }),
+    updateSection: useMutation({
+      mutationFn: ({ sectionId, ...changes }: SectionChanges & { sectionId: string }) =>
+        send(`${base}/sections/${sectionId}`, 'PATCH', changes),
+      onSuccess,
+    }),
+    deleteSection: useMutation({
+      mutationFn: (sectionId: string) => send(`${base}/sections/${sectionId}`, 'DELETE'),
+      onSuccess,
+    }),
+    addRule: useMutation({
+      mutationFn: (rule: RuleChanges) => send(`${base}/rules`, 'POST', rule),
+      onSuccess,
+    }),
+    updateRule: useMutation({
+      mutationFn: ({ ruleId, ...changes }: RuleChanges & { ruleId: string }) =>
+        send(`${base}/rules/${ruleId}`, 'PATCH', changes),
+      onSuccess,
+    }),
+    deleteRule: useMutation({
+      mutationFn: (ruleId: string) => send(`${base}/rules/${ruleId}`, 'DELETE'),
+      onSuccess,
+    }),
+  };
+};
@@ -18,7 +18,6 @@ export interface WorldBankGroupAssessment {
 export interface WorldBankGroupAssessmentsResponse {
   success: boolean;
   assessments: WorldBankGroupAssessment[];
-  fakeDemo?: boolean;
 }
 
 interface UseWorldBankGroupAssessmentsOptions {
@@ -0,0 +1,210 @@
+/**
+ * API Keys - Scoped keys for service-to-service calls
+ *
+ * Internal callers (BackgroundProcessor, the EventBridge Textract poller, job-status
+ * routes that kick off processing) authenticate with an `x-api-key` header instead of
+ * a user session. Keys are only shown once, when created or rotated; the database
+ * stores a SHA-256 hash plus a short display prefix.
+ *
+ * A key belongs to the organisation of the admin who created it, and calls made
+ * with it run scoped to that organisation. Keys for this app's own services, which
+ * work across organisations, are created with `platformWide` (scripts/create-api-key.ts).
+ *
+ * Configuration (environment variables):
+ * - INTERNAL_API_KEY: raw key this app sends on its own internal requests
+ *   (a platform-wide key with the `jobs:process` and `brain:assemble` scopes)
+ * - APP_BASE_URL: where internal requests are sent (default NEXTAUTH_URL, then
+ *   http://localhost:3000)
+ */
+
+import crypto from 'crypto';
+import { prisma } from './database-s3';
+import { API_KEY_HEADER, ApiKeyScope, isApiKeyScope } from './rbac';
+
+const KEY_PREFIX = 'nolia_';
+
+export interface VerifiedApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  organizationId: string | null;
+  platformWide: boolean;
+}
+
+export function hashApiKey(rawKey: string): string {
+  return crypto.createHash('sha256').update(rawKey).digest('hex');
+}
+
+function generateRawKey(): string {
+  return `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Create a key with the given scopes. The raw key is returned once and never stored.
+ * Keys need an organisation unless they are platform-wide.
+ */
+export async function createApiKey(options: {
+  name: string;
+  scopes: string[];
+  organizationId?: string | null;
+  platformWide?: boolean;
+  createdBy?: string;
+  expiresAt?: Date;
+  rotatedFromId?: string;
+}) {
+  const invalidScopes = options.scopes.filter(scope => !isApiKeyScope(scope));
+  if (options.scopes.length === 0 || invalidScopes.length > 0) {
+    throw new Error(`Invalid API key scopes: ${invalidScopes.join(', ') || '(none)'}`);
+  }
+
+  const platformWide = options.platformWide ?? false;
+  if (!platformWide && !options.organizationId) {
+    throw new Error('API key needs an organisation unless it is platform-wide');
+  }
+
+  const rawKey = generateRawKey();
+  const apiKey = await prisma.api_keys.create({
+    data: {
+      name: options.name,
+      prefix: rawKey.slice(0, KEY_PREFIX.length + 6),
+      keyHash: hashApiKey(rawKey),
+      scopes: options.scopes,
+      organizationId: platformWide ? null : options.organizationId,
+      platformWide,
+      createdBy: options.createdBy,
+      expiresAt: options.expiresAt,
+      rotatedFromId: options.rotatedFromId,
+    }
+  });
+
+  console.log(`🔑 API key ${apiKey.prefix}… created for ${apiKey.name} (${apiKey.platformWide ? 'platform-wide' : apiKey.organizationId}) with scopes ${apiKey.scopes.join(', ')}`);
+
+  return { apiKey: toPublicApiKey(apiKey), rawKey };
+}
+
+/**
+ * Replace a key with a new one carrying the same name, scopes and organisation. The old key keeps
+ * working for `graceSeconds` so callers can be updated without downtime.
+ */
+export async function rotateApiKey(id: string, options: { graceSeconds?: number; rotatedBy?: string } = {}) {
+  const existing = await prisma.api_keys.findUnique({ where: { id } });
+  if (!existing || existing.revokedAt) {
+    throw new Error(`API key ${id} not found or already revoked`);
+  }
+
+  const created = await createApiKey({
+    name: existing.name,
+    scopes: existing.scopes,
+    organizationId: existing.organizationId,
+    platformWide: existing.platformWide,
+    createdBy: options.rotatedBy,
+    rotatedFromId: existing.id,
+  });
+
+  const graceSeconds = options.graceSeconds ?? 0;
+  await prisma.api_keys.update({
+    where: { id },
+    data: graceSeconds > 0
+      ? { expiresAt: new Date(Date.now() + graceSeconds * 1000) }
+      : { revokedAt: new Date() }
+  });
+
+  console.log(`🔄 API key ${existing.prefix}… rotated to ${created.apiKey.prefix}… (grace ${graceSeconds}s)`);
+
+  return created;
+}
+
+export async function revokeApiKey(id: string) {
+  const apiKey = await prisma.api_keys.update({
+    where: { id },
+    data: { revokedAt: new Date() }
+  });
+
+  console.log(`🚫 API key ${apiKey.prefix}… revoked`);
+
+  return toPublicApiKey(apiKey);
+}
+
+export async function listApiKeys() {
+  const apiKeys = await prisma.api_keys.findMany({ orderBy: { createdAt: 'desc' } });
+  return apiKeys.map(toPublicApiKey);
+}
+
+/**
+ * Check a raw key and its scope. Returns null for unknown, revoked, expired,
+ * under-scoped or organisation-less keys.
+ */
+export async function verifyApiKey(rawKey: string | null | undefined, scope: ApiKeyScope): Promise<VerifiedApiKey | null> {
+  if (!rawKey || !rawKey.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await prisma.api_keys.findUnique({ where: { keyHash: hashApiKey(rawKey) } });
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+    return null;
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    console.warn(`🚫 API key ${apiKey.prefix}… (${apiKey.name}) lacks scope ${scope}`);
+    return null;
+  }
+
+  if (!apiKey.platformWide && !apiKey.organizationId) {
+    console.warn(`🚫 API key ${apiKey.prefix}… (${apiKey.name}) has no organisation and is not platform-wide`);
+    return null;
+  }
+
+  await prisma.api_keys.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: new Date() }
+  }).catch(error => console.warn(`⚠️ Failed to update lastUsedAt for API key ${apiKey.prefix}…:`, error));
+
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    scopes: apiKey.scopes.filter(isApiKeyScope),
+    organizationId: apiKey.organizationId,
+    platformWide: apiKey.platformWide,
+  };
+}
+
+/**
+ * Headers for this app's own server-to-server requests
+ */
+export function getServiceAuthHeaders(): Record<string, string> {
+  const rawKey = process.env.INTERNAL_API_KEY;
+  if (!rawKey) {
+    console.warn('⚠️ INTERNAL_API_KEY not configured - internal API calls will be rejected');
+    return {};
+  }
+  return { [API_KEY_HEADER]: rawKey };
+}
+
+/**
+ * Base URL for this app's own server-to-server requests
+ */
+export function getAppBaseUrl(): string {
+  return (process.env.APP_BASE_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+function toPublicApiKey(apiKey: {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  organizationId: string | null;
+  platformWide: boolean;
+  createdBy: string | null;
+  rotatedFromId: string | null;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}) {
+  const {
+    id, name, prefix, scopes, organizationId, platformWide, createdBy, rotatedFromId, lastUsedAt, expiresAt, revokedAt, createdAt
+  } = apiKey;
+  return {
+    id, name, prefix, scopes, organizationId, platformWide, createdBy, rotatedFromId, lastUsedAt, expiresAt, revokedAt, createdAt
+  };
+}
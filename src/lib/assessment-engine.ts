@@ -7,6 +7,7 @@
 
 import { claudeService, ClaudeService, ClaudeRequest } from './claude-service';
 import { fieldExtractor, ExtractedApplicationData, FieldExtractionStatus } from './field-extractor';
+import { buildAssessmentEvidence, AssessmentEvidence, SourceText } from './document-evidence';
 
 export interface AssessmentCriteria {
   name: string;
@@ -41,6 +42,10 @@ export interface AssessmentResult {
   confidence: number;
   flagForReview: boolean;
 
+  // Quotes from the application behind each criterion score and strength/weakness,
+  // located in the extracted text (absent for fallback assessments)
+  evidence?: AssessmentEvidence;
+
   // Assessment details
   assessmentDetails: {
     completeness: number;
@@ -78,7 +83,8 @@ export class AssessmentEngine {
     fileName: string,
     fundBrain: FundBrain,
     fundId: string,
-    templatePlaceholders: string[] = []
+    templatePlaceholders: string[] = [],
+    documentPages: SourceText['pages'] = []
   ): Promise<AssessmentStatus> {
 
     console.log(`🧠 Starting comprehensive assessment: ${fileName}`);
@@ -110,7 +116,7 @@ export class AssessmentEngine {
       // Stage 2: Perform AI assessment
       console.log('🎯 Stage 2: Performing AI assessment...');
       const assessmentResult = await this.performAIAssessment(
-        documentContent,
+        { text: documentContent, pages: documentPages },
         fundBrain
       );
 
@@ -156,6 +162,7 @@ export class AssessmentEngine {
         overallScore: assessmentResult.data.overallScore,
         criteriaScores: assessmentResult.data.criteriaScores,
         feedback: assessmentResult.data.feedback,
+        evidence: assessmentResult.data.evidence,
         confidence: assessmentResult.data.confidence,
         flagForReview: assessmentResult.data.flagForReview,
         assessmentDetails: assessmentResult.data.assessmentDetails,
@@ -194,9 +201,10 @@ export class AssessmentEngine {
    * Perform AI-powered assessment using focused prompts
    */
   private async performAIAssessment(
-    documentContent: string,
+    source: SourceText,
     fundBrain: FundBrain
   ): Promise<{ success: boolean; data: any }> {
+    const documentContent = source.text;
 
     // Create focused assessment tasks
     const assessmentTasks: ClaudeRequest[] = [
@@ -209,13 +217,13 @@ export class AssessmentEngine {
       {
         task: 'criteria_scoring',
         prompt: this.createCriteriaAssessmentPrompt(documentContent, fundBrain),
-        maxTokens: 1500,
+        maxTokens: 2000,
         temperature: 0.2,
       },
       {
         task: 'feedback_generation',
         prompt: this.createFeedbackPrompt(documentContent, fundBrain),
-        maxTokens: 1500,
+        maxTokens: 2000,
         temperature: 0.4,
       },
     ];
@@ -241,11 +249,22 @@ export class AssessmentEngine {
         ? this.parseAssessmentResponse(feedbackGeneration.content)
         : { feedback: { strengths: [], weaknesses: [], suggestions: [] } };
 
+      // Anchor the quoted evidence in the application text; feedback keeps plain strings
+      const rawFeedback = feedbackData.feedback || {};
+      const evidence = buildAssessmentEvidence(source, criteriaData.evidence, rawFeedback);
+      const verified = [...Object.values(evidence.criteria).flat(), ...evidence.strengths.flatMap(item => item.evidence), ...evidence.weaknesses.flatMap(item => item.evidence)];
+      console.log(`📌 Evidence: ${verified.filter(span => span.verified).length}/${verified.length} quotes located in the application`);
+
       // Combine all assessment data
       const combinedAssessment = {
         overallScore: overallData.overallScore || 75,
         criteriaScores: criteriaData.criteriaScores || {},
-        feedback: feedbackData.feedback || { strengths: [], weaknesses: [], suggestions: [] },
+        feedback: {
+          strengths: evidence.strengths.map(item => item.text),
+          weaknesses: evidence.weaknesses.map(item => item.text),
+          suggestions: Array.isArray(rawFeedback.suggestions) ? rawFeedback.suggestions : [],
+        },
+        evidence,
         confidence: overallData.confidence || 0.8,
         flagForReview: overallData.flagForReview || false,
         assessmentDetails: {
@@ -313,7 +332,8 @@ export class AssessmentEngine {
         ${criteriaDetails}
 
         For each criterion, provide a score from 0-100 based on evidence in the application.
-        Be specific about what evidence supports each score.
+        Support each score with up to three short quotes copied word for word from the
+        application (one sentence or less each). Do not paraphrase quotes.
       `,
       `
         Respond with valid JSON only:
@@ -325,10 +345,10 @@ export class AssessmentEngine {
             "feasibility": number (0-100)
           },
           "evidence": {
-            "completeness": "Specific evidence from application",
-            "alignment": "Specific evidence from application",
-            "innovation": "Specific evidence from application",
-            "feasibility": "Specific evidence from application"
+            "completeness": ["exact quote from the application"],
+            "alignment": ["exact quote from the application"],
+            "innovation": ["exact quote from the application"],
+            "feasibility": ["exact quote from the application"]
           }
         }
       `
@@ -350,13 +370,17 @@ export class AssessmentEngine {
         1. Key strengths (what they did well)
         2. Areas for improvement (what could be better)
         3. Specific suggestions (actionable recommendations)
+
+        Back every strength and weakness with one or two short quotes copied word for
+        word from the application. For a missing element, quote the passage where it
+        should have been addressed, or leave quotes empty.
       `,
       `
         Respond with valid JSON only:
         {
           "feedback": {
-            "strengths": ["specific strength 1", "specific strength 2", "specific strength 3"],
-            "weaknesses": ["specific weakness 1", "specific weakness 2"],
+            "strengths": [{ "text": "specific strength", "quotes": ["exact quote from the application"] }],
+            "weaknesses": [{ "text": "specific weakness", "quotes": ["exact quote from the application"] }],
             "suggestions": ["actionable suggestion 1", "actionable suggestion 2", "actionable suggestion 3"]
           }
         }
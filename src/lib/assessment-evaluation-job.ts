@@ -0,0 +1,48 @@
+/**
+ * Assessment Evaluation Job - Checks an uploaded evaluation report against the rules
+ *
+ * ASSESSMENT_EVALUATION jobs run the WorldBankGroup compliance engine for one
+ * assessment (job metadata.assessmentId): the report is read from S3, its tables
+ * are analysed by Textract and the findings are stored on the assessment. The
+ * assessment stays IN_PROGRESS while attempts remain and is marked FAILED once
+ * the job is dead-lettered.
+ */
+
+import { claimJob, completeJob, failJob, runWithLease, QueuedJob } from './job-queue';
+import { withUsageContext } from './usage-tracker';
+import { WorldBankGroupComplianceEngine } from './worldbankgroup-compliance-engine';
+
+/**
+ * Claim and run an ASSESSMENT_EVALUATION job. Pass `claimed` when the caller
+ * already holds the lease (queue workers); otherwise the job is claimed here and
+ * skipped if another worker is running it.
+ */
+export async function processAssessmentEvaluationJob(jobId: string, claimed?: QueuedJob): Promise<void> {
+  const job = claimed ?? await claimJob(jobId);
+  if (!job) {
+    return;
+  }
+
+  const assessmentId = (job.metadata as any)?.assessmentId as string | undefined;
+  const owner = job.leaseOwner ?? undefined;
+  if (!assessmentId) {
+    await failJob(job.id, 'Job has no assessmentId', owner);
+    return;
+  }
+
+  console.log(`📏 Evaluating assessment ${assessmentId} (job ${job.id})`);
+
+  try {
+    await withUsageContext(
+      { fundId: job.fundId, jobId: job.id, assessmentId, moduleType: job.moduleType },
+      () => runWithLease(job, () => WorldBankGroupComplianceEngine.evaluateAssessment(assessmentId, { recordFailure: false }))
+    );
+    await completeJob(job.id, { processedDocuments: 1 }, owner);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (await failJob(job.id, message, owner) === 'DEAD_LETTER') {
+      await WorldBankGroupComplianceEngine.recordEvaluationFailure(assessmentId, message);
+    }
+    throw error;
+  }
+}
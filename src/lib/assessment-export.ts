@@ -0,0 +1,443 @@
+/**
+ * Assessment Export - Spreadsheet and PDF report packs, and single reports
+ *
+ * Exports a module's assessments (optionally for one fund/tender/project) as:
+ * - XLSX or CSV: one row per assessment, one column per criterion score
+ * - PDF: a cover summary followed by each assessment's filled output template
+ *
+ * A single assessment's report is a DOCX or PDF in the fund's format: when the
+ * fund's output template is a Word document, that document is filled in place
+ * (docx-template.ts); otherwise the filled template text is written out as a
+ * document (docx-writer.ts). The PDF is that document converted
+ * (document-converter.ts).
+ *
+ * Both the AI's original score and the final (reviewed/moderated) score are
+ * included. The filled template is the one saved with the assessment when there
+ * is one; otherwise the fund's output template is filled by the template engine.
+ *
+ * Each module's `export` route is exportAssessmentsRoute() for that module.
+ *
+ * Configuration (environment variables):
+ * - ASSESSMENT_EXPORT_LIMIT: maximum assessments per export (default 1000)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ModuleType, Prisma } from '@prisma/client';
+import { requireAuth } from './auth';
+import { downloadFileFromS3, prisma } from './database-s3';
+import { CriteriaScores, extractReviewFields, toCriteriaScores } from './assessment-review';
+import { convertDocxToPdf } from './document-converter';
+import { DOCX_MIME_TYPE, isDocxTemplate, renderDocxTemplate } from './docx-template';
+import { toDocx } from './docx-writer';
+import { findField, parseAmount } from './funding-allocation';
+import { PdfDocument } from './pdf-writer';
+import { CellValue, Spreadsheet, toCsv, toXlsx } from './spreadsheet-writer';
+import { buildTemplateContext, templateEngine, TemplateContextOptions } from './template-engine';
+
+export const EXPORT_FORMATS = ['xlsx', 'csv', 'pdf'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportOptions {
+  moduleType: ModuleType;
+  format: ExportFormat;
+  fundId?: string;
+  assessmentIds?: string[];
+}
+
+export const REPORT_FORMATS = ['docx', 'pdf'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export interface ExportFile {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+export interface ReportFile extends ExportFile {
+  warnings: string[];
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+const MODULE_LABELS: Partial<Record<ModuleType, string>> = {
+  FUNDING: 'Funding',
+  PROCUREMENT: 'Procurement',
+  WORLDBANK: 'World Bank',
+  WORLDBANKGROUP: 'World Bank Group',
+};
+
+const exportInclude = {
+  funds: { select: { id: true, name: true, outputTemplatesAnalysis: true, selectionCriteriaAnalysis: true } },
+} satisfies Prisma.assessmentsInclude;
+
+type ExportAssessment = Prisma.assessmentsGetPayload<{ include: typeof exportInclude }>;
+
+export function getExportLimit(): number {
+  const limit = parseInt(process.env.ASSESSMENT_EXPORT_LIMIT || '');
+  return Number.isFinite(limit) && limit > 0 ? limit : 1000;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+const toNumber = (value: Prisma.Decimal | null) => (value === null ? null : Number(value));
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+function finalCriteria(assessment: ExportAssessment): CriteriaScores {
+  return toCriteriaScores(assessment.criteriaScores)
+    ?? extractReviewFields(assessment.scoringResults, assessment.assessmentData).criteriaScores
+    ?? {};
+}
+
+function aiCriteria(assessment: ExportAssessment): CriteriaScores {
+  return toCriteriaScores(assessment.aiCriteriaScores) ?? finalCriteria(assessment);
+}
+
+function requestedAmount(assessment: ExportAssessment): number | null {
+  return parseAmount(findField([assessment.assessmentData, assessment.scoringResults], ['totalFundingRequested']));
+}
+
+/**
+ * Assessment data for the output template, with the final (reviewed/moderated) scores
+ */
+function templateData(assessment: ExportAssessment): any {
+  const assessmentData = (assessment.assessmentData ?? {}) as any;
+  const criteriaScores = finalCriteria(assessment);
+  return {
+    ...assessmentData,
+    overallScore: toNumber(assessment.overallScore) ?? assessmentData.overallScore,
+    ...(Object.keys(criteriaScores).length > 0 && { criteriaScores }),
+  };
+}
+
+function templateContextOptions(assessment: ExportAssessment): TemplateContextOptions {
+  const criteria = (assessment.funds.selectionCriteriaAnalysis as any)?.criteria;
+  const number = (value: unknown) => {
+    const parsed = parseFloat(String(value));
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  return {
+    fundName: assessment.funds.name,
+    organisationName: assessment.organizationName,
+    assessmentDate: assessment.createdAt,
+    ...(Array.isArray(criteria) && {
+      criteria: criteria
+        .filter((criterion: any) => typeof criterion?.name === 'string')
+        .map((criterion: any) => ({
+          name: criterion.name,
+          description: criterion.description,
+          weight: number(criterion.weight),
+          maxScore: number(criterion.maxScore),
+        })),
+    }),
+  };
+}
+
+/**
+ * Filled template saved with the assessment result, if any
+ */
+function savedFilledTemplate(assessmentData: any): string | null {
+  const candidate = assessmentData?.filledTemplate
+    ?? assessmentData?.formattedOutput?.filledTemplate
+    ?? assessmentData?.formattedOutput;
+  return typeof candidate === 'string' && candidate.trim() ? candidate : null;
+}
+
+export class AssessmentExportService {
+  static async export(options: ExportOptions): Promise<ExportFile> {
+    const assessments = await this.load(options);
+    const label = MODULE_LABELS[options.moduleType] ?? options.moduleType;
+    const scope = options.fundId && assessments[0] ? assessments[0].funds.name : label;
+    const filename = `${slug(`${scope} assessments`)}-${new Date().toISOString().slice(0, 10)}.${options.format}`;
+
+    console.log(`📤 Exporting ${assessments.length} ${label} assessments as ${options.format.toUpperCase()}`);
+
+    const body = options.format === 'pdf'
+      ? await this.toPdf(assessments, `${scope} assessment report pack`)
+      : options.format === 'csv'
+        ? toCsv(this.toSpreadsheet(assessments))
+        : await toXlsx(this.toSpreadsheet(assessments));
+
+    return { body, contentType: CONTENT_TYPES[options.format], filename };
+  }
+
+  static async load(options: Pick<ExportOptions, 'moduleType' | 'fundId' | 'assessmentIds'>): Promise<ExportAssessment[]> {
+    return prisma.assessments.findMany({
+      where: {
+        moduleType: options.moduleType,
+        ...(options.fundId ? { fundId: options.fundId } : {}),
+        ...(options.assessmentIds?.length ? { id: { in: options.assessmentIds } } : {}),
+      },
+      include: exportInclude,
+      orderBy: { createdAt: 'desc' },
+      take: getExportLimit(),
+    });
+  }
+
+  /**
+   * One row per assessment; criterion columns are the union of all criteria
+   * in the order they first appear
+   */
+  static toSpreadsheet(assessments: ExportAssessment[]): Spreadsheet {
+    const criteria: string[] = [];
+    for (const assessment of assessments) {
+      for (const criterion of Object.keys(finalCriteria(assessment))) {
+        if (!criteria.includes(criterion)) criteria.push(criterion);
+      }
+    }
+
+    const rows: CellValue[][] = assessments.map(assessment => {
+      const scores = finalCriteria(assessment);
+      return [
+        assessment.id,
+        assessment.organizationName,
+        assessment.projectName,
+        assessment.funds.name,
+        assessment.moduleType,
+        assessment.status,
+        assessment.reviewStatus,
+        assessment.moderationStatus,
+        toNumber(assessment.aiScore),
+        toNumber(assessment.overallScore),
+        toNumber(assessment.confidence),
+        requestedAmount(assessment),
+        assessment.createdAt,
+        ...criteria.map(criterion => scores[criterion] ?? null),
+      ];
+    });
+
+    return {
+      sheetName: 'Assessments',
+      columns: [
+        { header: 'Assessment ID', width: 28 },
+        { header: 'Organisation', width: 32 },
+        { header: 'Project', width: 32 },
+        { header: 'Fund', width: 28 },
+        { header: 'Module' },
+        { header: 'Status', width: 14 },
+        { header: 'Review status', width: 16 },
+        { header: 'Moderation status', width: 18 },
+        { header: 'AI score' },
+        { header: 'Final score', width: 12 },
+        { header: 'Confidence', width: 12 },
+        { header: 'Requested funding', width: 18 },
+        { header: 'Created', width: 22 },
+        ...criteria.map(criterion => ({ header: criterion })),
+      ],
+      rows,
+    };
+  }
+
+  static async toPdf(assessments: ExportAssessment[], title: string): Promise<Buffer> {
+    const pdf = new PdfDocument({ title });
+    const finalScores = assessments.map(a => toNumber(a.overallScore)).filter((s): s is number => s !== null);
+    const aiScores = assessments.map(a => toNumber(a.aiScore)).filter((s): s is number => s !== null);
+    const average = (scores: number[]) => (scores.length ? (scores.reduce((sum, s) => sum + s, 0) / scores.length).toFixed(1) : null);
+
+    // Cover summary
+    pdf.heading(title, 1);
+    pdf.paragraph(`Generated ${new Date().toLocaleString('en-NZ')}`, { gray: true });
+    pdf.keyValues([
+      ['Assessments', assessments.length],
+      ['Average AI score', average(aiScores)],
+      ['Average final score', average(finalScores)],
+      ['Approved', assessments.filter(a => a.reviewStatus === 'APPROVED').length],
+      ['Awaiting review', assessments.filter(a => a.reviewStatus === 'PENDING').length],
+      ['Rejected', assessments.filter(a => a.reviewStatus === 'REJECTED').length],
+    ]);
+    pdf.table(
+      ['Organisation', 'Project', 'AI score', 'Final score', 'Review'],
+      assessments.map(a => [a.organizationName, a.projectName, toNumber(a.aiScore), toNumber(a.overallScore), a.reviewStatus]),
+      [0.3, 0.3, 0.12, 0.12, 0.16]
+    );
+
+    for (const assessment of assessments) {
+      pdf.addPage();
+      pdf.heading(assessment.organizationName, 1);
+      pdf.keyValues([
+        ['Project', assessment.projectName],
+        ['Fund', assessment.funds.name],
+        ['Status', assessment.status],
+        ['AI score', toNumber(assessment.aiScore)],
+        ['Final score', toNumber(assessment.overallScore)],
+        ['Confidence', toNumber(assessment.confidence)],
+        ['Review status', assessment.reviewStatus],
+        ['Moderation status', assessment.moderationStatus],
+        ['Assessed', assessment.createdAt.toLocaleDateString('en-NZ')],
+      ]);
+
+      const ai = aiCriteria(assessment);
+      const final = finalCriteria(assessment);
+      const criteria = [...new Set([...Object.keys(ai), ...Object.keys(final)])];
+      if (criteria.length > 0) {
+        pdf.heading('Criterion scores', 2);
+        pdf.table(
+          ['Criterion', 'AI score', 'Final score'],
+          criteria.map(criterion => [criterion, ai[criterion] ?? null, final[criterion] ?? null]),
+          [0.6, 0.2, 0.2]
+        );
+      }
+
+      const report = await this.filledTemplate(assessment);
+      if (report) {
+        pdf.heading('Assessment report', 2);
+        this.renderMarkdown(pdf, report);
+      }
+    }
+
+    return pdf.toBuffer();
+  }
+
+  /**
+   * The assessment's filled output template: saved with the result, or filled
+   * now from the fund's output template
+   */
+  static async filledTemplate(assessment: ExportAssessment): Promise<string | null> {
+    const assessmentData = (assessment.assessmentData ?? {}) as any;
+    const saved = savedFilledTemplate(assessmentData);
+    if (saved) return saved;
+
+    const template = assessment.funds.outputTemplatesAnalysis as any;
+    if (template?.rawTemplateContent || template?.template) {
+      const result = await templateEngine.applyTemplate(templateData(assessment), template, templateContextOptions(assessment));
+      if (result.success) return result.filledTemplate!;
+      console.warn(`⚠️ Could not fill output template for assessment ${assessment.id}: ${result.error}`);
+    }
+
+    return typeof assessmentData.rawAssessment === 'string' ? assessmentData.rawAssessment : null;
+  }
+
+  /**
+   * One assessment's report in the fund's format, as a DOCX or its PDF rendering
+   */
+  static async report(assessmentId: string, format: ReportFormat): Promise<ReportFile> {
+    const assessment = await prisma.assessments.findUnique({ where: { id: assessmentId }, include: exportInclude });
+    if (!assessment) {
+      throw new Error(`Assessment ${assessmentId} not found`);
+    }
+
+    const title = `${assessment.organizationName} assessment report`;
+    const filename = `${slug(`${assessment.funds.name} ${assessment.organizationName}`)}-assessment.${format}`;
+    console.log(`📄 Building ${format.toUpperCase()} report for assessment ${assessmentId}`);
+
+    const { docx, warnings } = await this.reportDocument(assessment);
+    return format === 'docx'
+      ? { body: docx, contentType: DOCX_MIME_TYPE, filename, warnings }
+      : { body: await convertDocxToPdf(docx, title), contentType: CONTENT_TYPES.pdf, filename, warnings };
+  }
+
+  /**
+   * The report as a Word document: the fund's Word template filled in place, or
+   * the filled template text written out as a document when the template isn't
+   * a Word document (or the fund has none). Warnings name what couldn't be filled.
+   */
+  private static async reportDocument(assessment: ExportAssessment): Promise<{ docx: Buffer; warnings: string[] }> {
+    const templateDocument = await this.templateDocument(assessment);
+    if (!templateDocument) {
+      return { docx: await toDocx(await this.filledTemplate(assessment) ?? ''), warnings: [] };
+    }
+
+    const filled = await renderDocxTemplate(
+      await downloadFileFromS3(templateDocument.s3Key),
+      buildTemplateContext(templateData(assessment), templateContextOptions(assessment))
+    );
+    const warnings = [
+      ...filled.missing.map(path => `No data for "${path}"`),
+      ...filled.unmapped.map(placeholder => `Placeholder "${placeholder}" has no template equivalent and was left as written`),
+    ];
+    if (warnings.length > 0) {
+      console.warn(`⚠️ Report for assessment ${assessment.id}: ${warnings.join('; ')}`);
+    }
+    return { docx: filled.buffer, warnings };
+  }
+
+  /**
+   * The fund's output template document when it is a Word document: the one its
+   * template analysis was made from, or the latest uploaded
+   */
+  private static async templateDocument(assessment: ExportAssessment) {
+    const documents = await prisma.fund_documents.findMany({
+      where: { fundId: assessment.fundId, documentType: 'OUTPUT_TEMPLATES' },
+      select: { filename: true, mimeType: true, s3Key: true },
+      orderBy: { uploadedAt: 'desc' },
+    });
+    const analysedFilename = (assessment.funds.outputTemplatesAnalysis as any)?.filename;
+    const document = documents.find(candidate => candidate.filename === analysedFilename) ?? documents[0];
+    return document && isDocxTemplate(document.filename, document.mimeType) ? document : null;
+  }
+
+  /**
+   * Render template text, treating markdown headings as headings and dropping
+   * emphasis markers
+   */
+  private static renderMarkdown(pdf: PdfDocument, text: string) {
+    let block: string[] = [];
+    const flush = () => {
+      if (block.length) pdf.paragraph(block.join('\n'));
+      block = [];
+    };
+
+    for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+      const heading = line.match(/^(#{1,6})\s+(.*)$/);
+      if (heading) {
+        flush();
+        pdf.heading(heading[2].replace(/[*_]{2}/g, ''), heading[1].length === 1 ? 2 : 3);
+      } else if (!line.trim()) {
+        flush();
+      } else {
+        block.push(line.replace(/[*_]{2}/g, '').replace(/^\s*[-*]\s+/, '• '));
+      }
+    }
+    flush();
+  }
+}
+
+/**
+ * GET handler exporting a module's assessments
+ *
+ * Query: format (xlsx | csv | pdf, default xlsx), `fundParam` (the module's name
+ * for a fund: fundId, tenderId or projectId), ids (comma-separated assessment IDs)
+ */
+export function exportAssessmentsRoute(moduleType: ModuleType, fundParam: string) {
+  return async function GET(request: NextRequest) {
+    try {
+      const auth = await requireAuth(request, 'read', moduleType);
+      if (!auth.authorized) return auth.response;
+
+      const { searchParams } = new URL(request.url);
+      const format = searchParams.get('format') || 'xlsx';
+      const fundId = searchParams.get(fundParam) || undefined;
+      const assessmentIds = searchParams.get('ids')?.split(',').filter(Boolean);
+
+      if (!isExportFormat(format)) {
+        return NextResponse.json({ error: `Invalid export format: ${format}. Use one of: ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+      }
+
+      const file = await AssessmentExportService.export({ moduleType, format, fundId, assessmentIds });
+
+      return new NextResponse(new Uint8Array(file.body), {
+        headers: {
+          'Content-Type': file.contentType,
+          'Content-Disposition': `attachment; filename="${file.filename}"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    } catch (error) {
+      console.error(`❌ Error exporting ${MODULE_LABELS[moduleType] ?? moduleType} assessments:`, error);
+      return NextResponse.json({
+        error: 'Failed to export assessments',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, { status: 500 });
+    }
+  };
+}
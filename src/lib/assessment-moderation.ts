@@ -0,0 +1,348 @@
+/**
+ * Assessment Moderation - Multi-assessor scoring and moderated consensus
+ *
+ * Panel members score an assessment independently against the same criteria the
+ * AI scored (`aiCriteriaScores`). The AI counts as one contributor alongside the
+ * human assessors. After each submission the per-criterion spread is recomputed;
+ * a spread above the threshold marks the assessment for moderation.
+ *
+ * A moderator then records the consensus: per-criterion scores default to the mean
+ * of all contributors and can be adjusted. The moderation keeps a snapshot of every
+ * contributing score and the agreement statistics, and the consensus becomes the
+ * assessment's final criterion and overall scores (recorded as a MODERATED revision).
+ *
+ * Configuration (environment variables):
+ * - MODERATION_SPREAD_THRESHOLD: criterion score spread that needs moderation (default 20)
+ */
+
+import { ModerationStatus, ReviewAction, ReviewStatus } from '@prisma/client';
+import { prisma } from './database-s3';
+import type { SessionUser } from './rbac';
+import { CriteriaScores, computeFinalScore, lockAssessment, toCriteriaScores } from './assessment-review';
+import { KappaResult, ScoreSpread, computeKappa, describeSpread } from './inter-rater-agreement';
+
+export const AI_ASSESSOR_ID = 'ai';
+
+export interface ContributingScore {
+  assessorId: string;
+  assessorName: string;
+  criteriaScores: CriteriaScores;
+  overallScore: number | null;
+}
+
+export interface CriterionAgreement extends ScoreSpread {
+  criterion: string;
+  disagreement: boolean;
+}
+
+export interface AgreementSummary extends KappaResult {
+  contributors: number;
+  spreadThreshold: number;
+  criteria: CriterionAgreement[];
+  disagreements: string[];
+}
+
+export interface AssessorScoreInput {
+  criteriaScores: CriteriaScores;
+  overallScore?: number | null;
+  comments?: string | null;
+}
+
+export function getSpreadThreshold(): number {
+  const threshold = parseFloat(process.env.MODERATION_SPREAD_THRESHOLD || '');
+  return Number.isFinite(threshold) ? threshold : 20;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Per-criterion spread for one assessment, plus kappa across its criteria
+ */
+export function computeAgreement(contributors: ContributingScore[]): AgreementSummary {
+  const spreadThreshold = getSpreadThreshold();
+  const criteria = Array.from(new Set(contributors.flatMap(contributor => Object.keys(contributor.criteriaScores))));
+
+  const criterionAgreement = criteria.map((criterion): CriterionAgreement => {
+    const scores = contributors
+      .map(contributor => contributor.criteriaScores[criterion])
+      .filter((score): score is number => typeof score === 'number');
+    const spread = describeSpread(scores);
+    return {
+      criterion,
+      ...spread,
+      disagreement: spread.raters >= 2 && spread.spread > spreadThreshold,
+    };
+  });
+
+  const subjects = criteria.map(criterion => {
+    const subject: Record<string, number> = {};
+    for (const contributor of contributors) {
+      if (typeof contributor.criteriaScores[criterion] === 'number') {
+        subject[contributor.assessorId] = contributor.criteriaScores[criterion];
+      }
+    }
+    return subject;
+  });
+
+  return {
+    contributors: contributors.length,
+    spreadThreshold,
+    criteria: criterionAgreement,
+    disagreements: criterionAgreement.filter(agreement => agreement.disagreement).map(agreement => agreement.criterion),
+    ...computeKappa(subjects),
+  };
+}
+
+function contributorsFor(
+  assessment: { aiScore: unknown; aiCriteriaScores: unknown },
+  scores: Array<{ assessorId: string; assessorName: string; criteriaScores: unknown; overallScore: unknown }>
+): ContributingScore[] {
+  const contributors: ContributingScore[] = [];
+
+  const aiCriteria = toCriteriaScores(assessment.aiCriteriaScores);
+  if (aiCriteria) {
+    contributors.push({
+      assessorId: AI_ASSESSOR_ID,
+      assessorName: 'AI',
+      criteriaScores: aiCriteria,
+      overallScore: assessment.aiScore !== null && assessment.aiScore !== undefined ? Number(assessment.aiScore) : null,
+    });
+  }
+
+  for (const score of scores) {
+    contributors.push({
+      assessorId: score.assessorId,
+      assessorName: score.assessorName,
+      criteriaScores: toCriteriaScores(score.criteriaScores) ?? {},
+      overallScore: score.overallScore !== null && score.overallScore !== undefined ? Number(score.overallScore) : null,
+    });
+  }
+
+  return contributors;
+}
+
+export class AssessmentModerationService {
+  /**
+   * Submit (or revise) the signed-in assessor's independent scores
+   */
+  static async submitScores(assessmentId: string, input: AssessorScoreInput, assessor: SessionUser) {
+    const entries = Object.entries(input.criteriaScores || {});
+    if (entries.length === 0) {
+      throw new Error('At least one criterion score is required');
+    }
+    for (const [criterion, score] of entries) {
+      if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) {
+        throw new Error(`Score for "${criterion}" must be between 0 and 100`);
+      }
+    }
+    if (input.overallScore !== undefined && input.overallScore !== null &&
+        (!Number.isFinite(input.overallScore) || input.overallScore < 0 || input.overallScore > 100)) {
+      throw new Error('Overall score must be between 0 and 100');
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const assessment = await lockAssessment(tx, assessmentId);
+      if (!assessment) {
+        throw new Error(`Assessment ${assessmentId} not found`);
+      }
+      if (assessment.moderationStatus === ModerationStatus.MODERATED) {
+        throw new Error(`Assessment ${assessmentId} has already been moderated`);
+      }
+      if (assessment.reviewStatus === ReviewStatus.APPROVED || assessment.reviewStatus === ReviewStatus.REJECTED) {
+        throw new Error(`Assessment ${assessmentId} has already been ${assessment.reviewStatus.toLowerCase()}`);
+      }
+
+      // Assessors score the same criteria the AI scored
+      const aiCriteria = toCriteriaScores(assessment.aiCriteriaScores);
+      if (aiCriteria) {
+        const unknown = entries.map(([criterion]) => criterion).filter(criterion => !(criterion in aiCriteria));
+        if (unknown.length > 0) {
+          throw new Error(`Unknown criteria for this fund: ${unknown.join(', ')}`);
+        }
+      }
+
+      const overallScore = input.overallScore ?? round2(mean(entries.map(([, score]) => score)));
+      const score = await tx.assessor_scores.upsert({
+        where: { assessmentId_assessorId: { assessmentId, assessorId: assessor.id } },
+        create: {
+          assessmentId,
+          assessorId: assessor.id,
+          assessorName: assessor.username,
+          criteriaScores: input.criteriaScores,
+          overallScore,
+          comments: input.comments || null,
+        },
+        update: {
+          criteriaScores: input.criteriaScores,
+          overallScore,
+          comments: input.comments || null,
+        }
+      });
+
+      const scores = await tx.assessor_scores.findMany({ where: { assessmentId }, orderBy: { createdAt: 'asc' } });
+      const agreement = computeAgreement(contributorsFor(assessment, scores));
+
+      await tx.assessments.update({
+        where: { id: assessmentId },
+        data: {
+          moderationStatus: agreement.disagreements.length > 0 ? ModerationStatus.REQUIRED : ModerationStatus.NOT_REQUIRED
+        }
+      });
+
+      return { score, agreement };
+    });
+  }
+
+  /**
+   * All contributing scores, agreement statistics and past moderations for an assessment
+   */
+  static async getModeration(assessmentId: string) {
+    const assessment = await prisma.assessments.findUnique({
+      where: { id: assessmentId },
+      include: {
+        assessor_scores: { orderBy: { createdAt: 'asc' } },
+        assessment_moderations: { orderBy: { createdAt: 'desc' } },
+      }
+    });
+    if (!assessment) {
+      throw new Error(`Assessment ${assessmentId} not found`);
+    }
+
+    const contributors = contributorsFor(assessment, assessment.assessor_scores);
+    return {
+      assessment,
+      contributors,
+      agreement: computeAgreement(contributors),
+    };
+  }
+
+  /**
+   * Record the moderated consensus. Criteria the moderator does not set take the
+   * mean of all contributing scores.
+   */
+  static async moderate(
+    assessmentId: string,
+    input: { criteriaScores?: CriteriaScores; justification?: string },
+    moderator: SessionUser
+  ) {
+    const justification = input.justification?.trim();
+    if (!justification) {
+      throw new Error('A justification is required to moderate an assessment');
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const assessment = await lockAssessment(tx, assessmentId);
+      if (!assessment) {
+        throw new Error(`Assessment ${assessmentId} not found`);
+      }
+      if (assessment.reviewStatus === ReviewStatus.APPROVED || assessment.reviewStatus === ReviewStatus.REJECTED) {
+        throw new Error(`Assessment ${assessmentId} has already been ${assessment.reviewStatus.toLowerCase()}`);
+      }
+
+      const scores = await tx.assessor_scores.findMany({ where: { assessmentId }, orderBy: { createdAt: 'asc' } });
+      const contributors = contributorsFor(assessment, scores);
+      if (contributors.length < 2) {
+        throw new Error('Moderation needs scores from at least two contributors');
+      }
+
+      const agreement = computeAgreement(contributors);
+      const consensusCriteria: CriteriaScores = {};
+      for (const criterion of agreement.criteria) {
+        const override = input.criteriaScores?.[criterion.criterion];
+        if (override !== undefined && (typeof override !== 'number' || !Number.isFinite(override) || override < 0 || override > 100)) {
+          throw new Error(`Consensus score for "${criterion.criterion}" must be between 0 and 100`);
+        }
+        consensusCriteria[criterion.criterion] = override ?? criterion.mean;
+      }
+
+      const aiCriteria = toCriteriaScores(assessment.aiCriteriaScores);
+      const humanOverall = contributors.map(contributor => contributor.overallScore).filter((score): score is number => score !== null);
+      const consensusScore = aiCriteria && assessment.aiScore !== null
+        ? computeFinalScore(Number(assessment.aiScore), aiCriteria, consensusCriteria)
+        : round2(humanOverall.length > 0 ? mean(humanOverall) : mean(Object.values(consensusCriteria)));
+
+      const moderation = await tx.assessment_moderations.create({
+        data: {
+          assessmentId,
+          consensusScore,
+          consensusCriteria,
+          contributingScores: contributors as any,
+          agreement: agreement as any,
+          justification,
+          moderatorId: moderator.id,
+          moderatorName: moderator.username,
+        }
+      });
+
+      const revision = await tx.assessment_revisions.count({ where: { assessmentId } });
+      await tx.assessment_revisions.create({
+        data: {
+          assessmentId,
+          revision: revision + 1,
+          action: ReviewAction.MODERATED,
+          overallScore: consensusScore,
+          criteriaScores: consensusCriteria,
+          justification,
+          reviewerId: moderator.id,
+          reviewerName: moderator.username,
+        }
+      });
+
+      const updated = await tx.assessments.update({
+        where: { id: assessmentId },
+        data: {
+          criteriaScores: consensusCriteria,
+          overallScore: consensusScore,
+          moderationStatus: ModerationStatus.MODERATED,
+        }
+      });
+
+      return { assessment: updated, moderation };
+    });
+  }
+
+  /**
+   * Per-criterion kappa across every multi-assessor assessment in a fund
+   */
+  static async getFundAgreement(fundId: string) {
+    const assessments = await prisma.assessments.findMany({
+      where: { fundId, assessor_scores: { some: {} } },
+      include: { assessor_scores: true },
+    });
+
+    const contributorSets = assessments.map(assessment => contributorsFor(assessment, assessment.assessor_scores));
+    const criteria = Array.from(new Set(contributorSets.flatMap(contributors =>
+      contributors.flatMap(contributor => Object.keys(contributor.criteriaScores))
+    )));
+
+    const byCriterion = criteria.map(criterion => {
+      const subjects = contributorSets.map(contributors => {
+        const subject: Record<string, number> = {};
+        for (const contributor of contributors) {
+          if (typeof contributor.criteriaScores[criterion] === 'number') {
+            subject[contributor.assessorId] = contributor.criteriaScores[criterion];
+          }
+        }
+        return subject;
+      });
+      const spreads = subjects
+        .map(subject => describeSpread(Object.values(subject)))
+        .filter(spread => spread.raters >= 2);
+
+      return {
+        criterion,
+        ...computeKappa(subjects),
+        meanSpread: spreads.length > 0 ? round2(mean(spreads.map(spread => spread.spread))) : null,
+      };
+    });
+
+    return {
+      fundId,
+      assessments: assessments.length,
+      moderationRequired: assessments.filter(assessment => assessment.moderationStatus === ModerationStatus.REQUIRED).length,
+      spreadThreshold: getSpreadThreshold(),
+      criteria: byCriterion,
+    };
+  }
+}
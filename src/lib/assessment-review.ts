@@ -0,0 +1,323 @@
+/**
+ * Assessment Review - Human-in-the-loop review of AI assessments
+ *
+ * Assessments the model flags for review, or scores with low confidence, enter
+ * the review queue (reviewStatus PENDING). An assessor can override individual
+ * criterion scores - each with a required justification - and then approve or
+ * reject the assessment. Every change is appended to `assessment_revisions`;
+ * revisions are never updated (a database trigger enforces this).
+ *
+ * The AI's original overall and criterion scores are kept in `aiScore` and
+ * `aiCriteriaScores`; `overallScore` and `criteriaScores` hold the final values.
+ *
+ * Configuration (environment variables):
+ * - REVIEW_CONFIDENCE_THRESHOLD: confidence below which an assessment needs review (default 0.7)
+ */
+
+import { ModerationStatus, ModuleType, Prisma, ReviewAction, ReviewStatus } from '@prisma/client';
+import { prisma } from './database-s3';
+import type { SessionUser } from './rbac';
+import { tenantFilterSql, withRawSql } from './tenant';
+
+export type CriteriaScores = Record<string, number>;
+
+// The client inside prisma.$transaction (the tenant-scoped client's)
+type ReviewTransaction = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+export interface ScoreOverride {
+  criterion: string;
+  score: number;
+  justification: string;
+}
+
+export interface ReviewFields {
+  criteriaScores: CriteriaScores | null;
+  confidence: number | null;
+  flagForReview: boolean;
+}
+
+export function getConfidenceThreshold(): number {
+  const threshold = parseFloat(process.env.REVIEW_CONFIDENCE_THRESHOLD || '');
+  return Number.isFinite(threshold) ? threshold : 0.7;
+}
+
+export function toCriteriaScores(value: unknown): CriteriaScores | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const scores: CriteriaScores = {};
+  for (const [criterion, score] of Object.entries(value as Record<string, unknown>)) {
+    const numeric = typeof score === 'number' ? score : (score as any)?.score;
+    if (typeof numeric === 'number' && Number.isFinite(numeric)) {
+      scores[criterion] = numeric;
+    }
+  }
+  return Object.keys(scores).length > 0 ? scores : null;
+}
+
+/**
+ * Pull criterion scores, confidence and the review flag out of whatever shape the
+ * assessment result was saved in (API result, UI result or legacy details)
+ */
+export function extractReviewFields(...sources: any[]): ReviewFields {
+  let criteriaScores: CriteriaScores | null = null;
+  let confidence: number | null = null;
+  let flagForReview = false;
+
+  for (const source of sources) {
+    if (!source || typeof source !== 'object') continue;
+
+    criteriaScores = criteriaScores
+      ?? toCriteriaScores(source.criteriaScores)
+      ?? toCriteriaScores(source.originalResult?.criteriaScores)
+      ?? toCriteriaScores(source.details);
+
+    const sourceConfidence = source.confidence ?? source.originalResult?.confidence;
+    if (confidence === null && typeof sourceConfidence === 'number') {
+      confidence = sourceConfidence;
+    }
+
+    flagForReview = flagForReview || source.flagForReview === true || source.originalResult?.flagForReview === true;
+  }
+
+  return { criteriaScores, confidence, flagForReview };
+}
+
+export function needsReview(fields: Pick<ReviewFields, 'confidence' | 'flagForReview'>): boolean {
+  return fields.flagForReview || (fields.confidence !== null && fields.confidence < getConfidenceThreshold());
+}
+
+/**
+ * Final overall score: the AI's overall score shifted by how far the reviewed
+ * criterion scores moved on average, so the model's weighting is preserved
+ */
+export function computeFinalScore(aiScore: number, aiCriteria: CriteriaScores, finalCriteria: CriteriaScores): number {
+  const criteria = Object.keys(aiCriteria);
+  if (criteria.length === 0) {
+    return aiScore;
+  }
+
+  const delta = criteria.reduce((sum, criterion) => sum + ((finalCriteria[criterion] ?? aiCriteria[criterion]) - aiCriteria[criterion]), 0) / criteria.length;
+  return Math.min(100, Math.max(0, Math.round((aiScore + delta) * 100) / 100));
+}
+
+/**
+ * A score from a request body. Only numbers and numeric strings are scores:
+ * null, '' and booleans give NaN, which validation rejects, instead of 0 or 1.
+ */
+export function parseScore(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim()) return Number(value);
+  return NaN;
+}
+
+/**
+ * Read an assessment and lock its row until the transaction ends. Reviews and
+ * moderation of the same assessment then run one after the other: each numbers
+ * its revision from the revisions already written and updates the scores it read.
+ */
+export async function lockAssessment(tx: ReviewTransaction, assessmentId: string) {
+  const tenantFilter = await tenantFilterSql();
+  await withRawSql(() => tx.$queryRaw`SELECT "id" FROM "assessments" WHERE "id" = ${assessmentId} ${tenantFilter} FOR UPDATE`);
+  return tx.assessments.findUnique({ where: { id: assessmentId } });
+}
+
+export class AssessmentReviewService {
+  /**
+   * Review fields to store when an assessment is first saved
+   */
+  static initialReviewData(overallScore: number | undefined, fields: ReviewFields) {
+    return {
+      aiScore: overallScore,
+      aiCriteriaScores: fields.criteriaScores ?? undefined,
+      criteriaScores: fields.criteriaScores ?? undefined,
+      confidence: fields.confidence ?? undefined,
+      flagForReview: fields.flagForReview,
+      reviewStatus: needsReview(fields) ? ReviewStatus.PENDING : ReviewStatus.NOT_REQUIRED,
+    };
+  }
+
+  /**
+   * Record the AI result as revision 1
+   */
+  static async recordCreated(assessmentId: string) {
+    const assessment = await prisma.assessments.findUnique({ where: { id: assessmentId } });
+    if (!assessment) {
+      throw new Error(`Assessment ${assessmentId} not found`);
+    }
+
+    return prisma.assessment_revisions.create({
+      data: {
+        assessmentId,
+        revision: 1,
+        action: ReviewAction.CREATED,
+        overallScore: assessment.overallScore,
+        criteriaScores: assessment.criteriaScores ?? undefined,
+      }
+    });
+  }
+
+  /**
+   * Assessments waiting for a reviewer (flagged or below the confidence threshold),
+   * or - when moderationStatus is given - for panel moderation
+   */
+  static async getQueue(filters: {
+    fundId?: string;
+    moduleTypes?: ModuleType[];
+    status?: ReviewStatus;
+    moderationStatus?: ModerationStatus;
+    limit?: number;
+    offset?: number;
+  } = {}) {
+    const where: Prisma.assessmentsWhereInput = filters.moderationStatus
+      ? { moderationStatus: filters.moderationStatus }
+      : { reviewStatus: filters.status ?? ReviewStatus.PENDING };
+    if (filters.fundId) {
+      where.fundId = filters.fundId;
+    }
+    if (filters.moduleTypes) {
+      where.moduleType = { in: filters.moduleTypes };
+    }
+
+    const [assessments, total] = await Promise.all([
+      prisma.assessments.findMany({
+        where,
+        include: { funds: { select: { id: true, name: true, moduleType: true } } },
+        orderBy: [{ flagForReview: 'desc' }, { confidence: 'asc' }, { createdAt: 'asc' }],
+        take: filters.limit ?? 50,
+        skip: filters.offset ?? 0,
+      }),
+      prisma.assessments.count({ where }),
+    ]);
+
+    return { assessments, total, confidenceThreshold: getConfidenceThreshold() };
+  }
+
+  static async getRevisions(assessmentId: string) {
+    return prisma.assessment_revisions.findMany({
+      where: { assessmentId },
+      orderBy: { revision: 'asc' },
+    });
+  }
+
+  /**
+   * Override one or more criterion scores. Each override becomes its own revision.
+   */
+  static async overrideScores(assessmentId: string, overrides: ScoreOverride[], reviewer: SessionUser) {
+    if (overrides.length === 0) {
+      throw new Error('At least one score override is required');
+    }
+
+    for (const override of overrides) {
+      if (!override.criterion || typeof override.score !== 'number' || !Number.isFinite(override.score)) {
+        throw new Error(`Invalid score override for criterion "${override.criterion}"`);
+      }
+      if (override.score < 0 || override.score > 100) {
+        throw new Error(`Score for "${override.criterion}" must be between 0 and 100`);
+      }
+      if (!override.justification || !override.justification.trim()) {
+        throw new Error(`A justification is required to override "${override.criterion}"`);
+      }
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const assessment = await lockAssessment(tx, assessmentId);
+      if (!assessment) {
+        throw new Error(`Assessment ${assessmentId} not found`);
+      }
+      if (assessment.reviewStatus === ReviewStatus.APPROVED || assessment.reviewStatus === ReviewStatus.REJECTED) {
+        throw new Error(`Assessment ${assessmentId} has already been ${assessment.reviewStatus.toLowerCase()}`);
+      }
+
+      const aiCriteria = toCriteriaScores(assessment.aiCriteriaScores) ?? {};
+      const criteria = { ...(toCriteriaScores(assessment.criteriaScores) ?? aiCriteria) };
+      const aiScore = Number(assessment.aiScore ?? assessment.overallScore ?? 0);
+      let revision = await tx.assessment_revisions.count({ where: { assessmentId } });
+
+      for (const override of overrides) {
+        if (!(override.criterion in aiCriteria)) {
+          throw new Error(`Assessment ${assessmentId} has no AI score for criterion "${override.criterion}"`);
+        }
+
+        const previousScore = criteria[override.criterion];
+        criteria[override.criterion] = override.score;
+
+        revision += 1;
+        await tx.assessment_revisions.create({
+          data: {
+            assessmentId,
+            revision,
+            action: ReviewAction.SCORE_OVERRIDE,
+            criterion: override.criterion,
+            previousScore,
+            newScore: override.score,
+            overallScore: computeFinalScore(aiScore, aiCriteria, criteria),
+            criteriaScores: criteria,
+            justification: override.justification.trim(),
+            reviewerId: reviewer.id,
+            reviewerName: reviewer.username,
+          }
+        });
+      }
+
+      return tx.assessments.update({
+        where: { id: assessmentId },
+        data: {
+          criteriaScores: criteria,
+          overallScore: computeFinalScore(aiScore, aiCriteria, criteria),
+          aiScore,
+          reviewStatus: ReviewStatus.PENDING,
+          reviewedBy: reviewer.username,
+          reviewedAt: new Date(),
+        }
+      });
+    });
+  }
+
+  /**
+   * Approve or reject an assessment. Rejections require a justification, and an
+   * assessment whose assessors disagree can't be approved until it is moderated.
+   */
+  static async decide(assessmentId: string, decision: 'APPROVED' | 'REJECTED', reviewer: SessionUser, justification?: string) {
+    if (decision === 'REJECTED' && !justification?.trim()) {
+      throw new Error('A justification is required to reject an assessment');
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const assessment = await lockAssessment(tx, assessmentId);
+      if (!assessment) {
+        throw new Error(`Assessment ${assessmentId} not found`);
+      }
+      if (assessment.reviewStatus === ReviewStatus.APPROVED || assessment.reviewStatus === ReviewStatus.REJECTED) {
+        throw new Error(`Assessment ${assessmentId} has already been ${assessment.reviewStatus.toLowerCase()}`);
+      }
+      if (decision === 'APPROVED' && assessment.moderationStatus === ModerationStatus.REQUIRED) {
+        throw new Error(`Assessment ${assessmentId} needs moderation before it can be approved`);
+      }
+
+      const revision = await tx.assessment_revisions.count({ where: { assessmentId } });
+      await tx.assessment_revisions.create({
+        data: {
+          assessmentId,
+          revision: revision + 1,
+          action: decision === 'APPROVED' ? ReviewAction.APPROVED : ReviewAction.REJECTED,
+          overallScore: assessment.overallScore,
+          criteriaScores: assessment.criteriaScores ?? undefined,
+          justification: justification?.trim() || null,
+          reviewerId: reviewer.id,
+          reviewerName: reviewer.username,
+        }
+      });
+
+      return tx.assessments.update({
+        where: { id: assessmentId },
+        data: {
+          reviewStatus: decision === 'APPROVED' ? ReviewStatus.APPROVED : ReviewStatus.REJECTED,
+          reviewedBy: reviewer.username,
+          reviewedAt: new Date(),
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Auth Session - JWT session tokens carrying the user's roles and module grants
+ *
+ * Edge-safe: used by middleware.ts as well as by the Node route handlers.
+ *
+ * A login lasts SESSION_MAX_AGE_SECONDS, but each token only SESSION_TOKEN_TTL_SECONDS:
+ * once it expires, middleware.ts has /api/auth/refresh re-read the user and issue a
+ * new token, so deactivating a user or changing their roles, modules or organisation
+ * reaches every route within that time. Route handlers that call requireAuth() see
+ * the change on the next request.
+ */
+
+import { SignJWT, jwtVerify } from 'jose';
+import { SessionUser, isModuleName, isUserRole } from './rbac';
+
+export const AUTH_COOKIE = 'auth-token';
+
+// Set by middleware.ts from the verified session; never trusted from the client
+export const TENANT_HEADER = 'x-organization-id';
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 7 days
+export const SESSION_TOKEN_TTL_SECONDS = 60 * 15; // 15 minutes
+
+function getSecret(): Uint8Array {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET not configured');
+  }
+  return new TextEncoder().encode(secret);
+}
+
+/**
+ * Create a signed session token for a user. `loggedInAt` (seconds) carries the
+ * login over from the token being refreshed.
+ */
+export async function signSessionToken(user: SessionUser, loggedInAt?: number): Promise<string> {
+  return new SignJWT({
+    username: user.username,
+    roles: user.roles,
+    modules: user.modules,
+    organizationId: user.organizationId,
+    loggedInAt: loggedInAt ?? Math.floor(Date.now() / 1000),
+    authenticated: true,
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(user.id)
+    .setIssuedAt()
+    .setExpirationTime(`${SESSION_TOKEN_TTL_SECONDS}s`)
+    .sign(getSecret());
+}
+
+/**
+ * Verify a session token. Returns null for missing, invalid, expired or role-less tokens.
+ */
+export async function verifySessionToken(token: string | undefined): Promise<SessionUser | null> {
+  return (await readSessionToken(token, false))?.user ?? null;
+}
+
+/**
+ * Verify a token for /api/auth/refresh: it may have expired, but not its login
+ */
+export async function verifyRefreshableToken(token: string | undefined): Promise<{ user: SessionUser; loggedInAt: number } | null> {
+  const session = await readSessionToken(token, true);
+  if (!session || session.loggedInAt + SESSION_MAX_AGE_SECONDS <= Date.now() / 1000) {
+    return null;
+  }
+  return session;
+}
+
+async function readSessionToken(token: string | undefined, allowExpired: boolean): Promise<{ user: SessionUser; loggedInAt: number } | null> {
+  if (!token) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), allowExpired ? { clockTolerance: SESSION_MAX_AGE_SECONDS } : {});
+    const roles = Array.isArray(payload.roles) ? payload.roles.filter(isUserRole) : [];
+    const modules = Array.isArray(payload.modules) ? payload.modules.filter(isModuleName) : [];
+
+    // Tokens issued before roles, organisations or refreshes existed must log in again
+    if (!payload.sub || roles.length === 0 || typeof payload.organizationId !== 'string' || typeof payload.loggedInAt !== 'number') {
+      return null;
+    }
+
+    return {
+      user: {
+        id: payload.sub,
+        username: String(payload.username ?? ''),
+        roles,
+        modules,
+        organizationId: payload.organizationId,
+      },
+      loggedInAt: payload.loggedInAt,
+    };
+  } catch (error) {
+    // Expired tokens are routine - middleware.ts refreshes them
+    if ((error as { code?: string })?.code !== 'ERR_JWT_EXPIRED') {
+      console.error('Auth token validation failed:', error);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Auth - User accounts, password hashing and route-level authorization
+ *
+ * Passwords are stored as scrypt hashes (`scrypt$<salt>$<hash>`). Route handlers
+ * that need more than the path-based checks in middleware.ts (for example a
+ * fund's module, which is only known after loading it) call requireAuth():
+ *
+ *   const auth = await requireAuth(request, 'manage', fund.moduleType);
+ *   if (!auth.authorized) return auth.response;
+ *
+ * Routes that internal services also call use requireServiceAuth(), which accepts
+ * either a scoped API key or a signed-in user and runs the handler as that caller:
+ *
+ *   return requireServiceAuth(request, 'jobs:process', 'manage', null, async () => {
+ *     ...
+ *   });
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from './database-s3';
+import { AUTH_COOKIE, verifySessionToken } from './auth-session';
+import { VerifiedApiKey, verifyApiKey } from './api-keys';
+import { DEFAULT_ORGANIZATION_ID, withTenant } from './tenant';
+import { API_KEY_HEADER, AccessLevel, ApiKeyScope, ModuleName, SessionUser, isAuthorized } from './rbac';
+
+const BOOTSTRAP_USER_ID = 'bootstrap-admin';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function toSessionUser(user: { id: string; username: string; roles: string[]; modules: string[]; organizationId: string }): SessionUser {
+  return {
+    id: user.id,
+    username: user.username,
+    roles: user.roles as SessionUser['roles'],
+    modules: user.modules as SessionUser['modules'],
+    organizationId: user.organizationId,
+  };
+}
+
+/**
+ * Check a username/password against the users table
+ *
+ * Bootstrap: while the users table is empty, AUTH_USERNAME/AUTH_PASSWORD log in as
+ * an ADMIN of the default organisation so the first real accounts can be created. It stops working as soon as
+ * any user exists.
+ */
+export async function authenticateUser(username: string, password: string): Promise<SessionUser | null> {
+  if (!username || !password) return null;
+
+  const user = await prisma.users.findUnique({ where: { username } });
+
+  if (user) {
+    if (!user.active || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
+    }
+
+    await prisma.users.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() }
+    });
+
+    return toSessionUser(user);
+  }
+
+  const bootstrapUsername = process.env.AUTH_USERNAME;
+  const bootstrapPassword = process.env.AUTH_PASSWORD;
+  if (bootstrapUsername && bootstrapPassword && username === bootstrapUsername && password === bootstrapPassword) {
+    const userCount = await prisma.users.count();
+    if (userCount === 0) {
+      console.warn('⚠️ No users exist - logging in with bootstrap AUTH_USERNAME as ADMIN. Create real accounts via /api/users.');
+      return { id: BOOTSTRAP_USER_ID, username, roles: ['ADMIN'], modules: [], organizationId: DEFAULT_ORGANIZATION_ID };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The session's user as the users table has them now: null once they have been
+ * deactivated or deleted, with their current roles, modules and organisation
+ */
+export async function currentSessionUser(session: SessionUser): Promise<SessionUser | null> {
+  // Unscoped: the user's organisation may have changed since the token was issued
+  return withTenant(null, async () => {
+    if (session.id === BOOTSTRAP_USER_ID) {
+      return await prisma.users.count() === 0 ? session : null;
+    }
+
+    const user = await prisma.users.findUnique({ where: { id: session.id } });
+    return user?.active ? toSessionUser(user) : null;
+  });
+}
+
+/**
+ * The signed-in user, re-read from the users table so route handlers never act
+ * on roles or modules the token still carries but the user no longer has
+ */
+export async function getSessionUser(request: NextRequest): Promise<SessionUser | null> {
+  const session = await verifySessionToken(request.cookies.get(AUTH_COOKIE)?.value);
+  return session ? currentSessionUser(session) : null;
+}
+
+export type AuthResult =
+  | { authorized: true; user: SessionUser }
+  | { authorized: false; response: NextResponse };
+
+/**
+ * Require a signed-in user with the given access level (optionally within a module)
+ */
+export async function requireAuth(
+  request: NextRequest,
+  access: AccessLevel,
+  moduleType?: ModuleName | string | null
+): Promise<AuthResult> {
+  const user = await getSessionUser(request);
+
+  if (!user) {
+    return {
+      authorized: false,
+      response: NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    };
+  }
+
+  if (!isAuthorized(user, access, moduleType as ModuleName | null | undefined)) {
+    console.warn(`🚫 ${user.username} denied ${access} access${moduleType ? ` to ${moduleType}` : ''}: ${request.nextUrl.pathname}`);
+    return {
+      authorized: false,
+      response: NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    };
+  }
+
+  return { authorized: true, user };
+}
+
+export interface ServiceCaller {
+  user: SessionUser | null;
+  apiKey: VerifiedApiKey | null;
+}
+
+/**
+ * Require either an API key with the given scope or a user with the given access
+ * level, then run the handler. Calls made with an organisation's key run inside
+ * withTenant() for that organisation; platform-wide keys run unscoped.
+ */
+export async function requireServiceAuth(
+  request: NextRequest,
+  scope: ApiKeyScope,
+  access: AccessLevel,
+  moduleType: ModuleName | string | null,
+  handler: (caller: ServiceCaller) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const rawKey = request.headers.get(API_KEY_HEADER);
+
+  if (rawKey) {
+    const apiKey = await verifyApiKey(rawKey, scope);
+    if (!apiKey) {
+      console.warn(`🚫 Rejected API key for ${scope}: ${request.nextUrl.pathname}`);
+      return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+    }
+    return withTenant(apiKey.platformWide ? null : apiKey.organizationId, () => handler({ user: null, apiKey }));
+  }
+
+  const auth = await requireAuth(request, access, moduleType);
+  if (!auth.authorized) return auth.response;
+
+  return handler({ user: auth.user, apiKey: null });
+}
@@ -1,24 +1,5 @@
 // AWS Bedrock Claude integration for RAG-powered AI assessment
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
-import { getAWSCredentials, AWS_REGION } from './aws-credentials';
-
-// CRITICAL FIX: Create Bedrock client lazily to ensure Lambda execution role is available
-// Do NOT initialize at module level as credentials may not be ready during cold start
-let bedrockClient: BedrockRuntimeClient | null = null;
-
-function getBedrockClient(): BedrockRuntimeClient {
-  if (!bedrockClient) {
-    console.log('🔐 Creating new Bedrock client with Lambda execution role credentials');
-    bedrockClient = new BedrockRuntimeClient({
-      region: AWS_REGION,
-      credentials: getAWSCredentials(), // Returns undefined in production to use Lambda role
-    });
-  }
-  return bedrockClient;
-}
-
-// Claude model configuration - Updated to use Claude 3.5 Sonnet v2 (working model)
-const CLAUDE_MODEL_ID = 'anthropic.claude-3-5-sonnet-20241022-v2:0';
+import { getLLMProvider, invokeLLM } from './llm-provider';
 
 export interface RAGContext {
   relevantDocuments: string[];
@@ -63,30 +44,13 @@ export async function assessApplicationWithBedrock(
     // Build the prompt with RAG context
     const prompt = buildAssessmentPrompt(request);
     
-    // Prepare the request payload for Claude
-    const payload = {
-      anthropic_version: "bedrock-2023-05-31",
-      max_tokens: 8000,
-      messages: [
-        {
-          role: "user",
-          content: prompt
-        }
-      ]
-    };
-
-    // Invoke Claude via Bedrock
-    const command = new InvokeModelCommand({
-      modelId: CLAUDE_MODEL_ID,
-      contentType: 'application/json',
-      body: JSON.stringify(payload),
+    // Invoke Claude through the configured LLM provider
+    const response = await invokeLLM({
+      task: `rag-assessment-${request.assessmentType}`,
+      prompt,
+      maxTokens: 8000,
     });
-
-    const response = await getBedrockClient().send(command);
-    
-    // Parse the response
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-    const claudeResponse = responseBody.content[0].text;
+    const claudeResponse = response.content;
     
     // Parse Claude's structured response
     return parseClaudeResponse(claudeResponse, request.assessmentType);
@@ -111,7 +75,7 @@ export async function assessApplicationWithBedrock(
     } else if (errorMessage.includes('ValidationException')) {
       throw new Error(`AWS Bedrock validation error: ${errorMessage}. Check request format.`);
     } else if (errorMessage.includes('ResourceNotFoundException')) {
-      throw new Error(`AWS Bedrock model not found: ${errorMessage}. Check model ID: ${CLAUDE_MODEL_ID}`);
+      throw new Error(`AWS Bedrock model not found: ${errorMessage}. Check model ID: ${getLLMProvider().model}`);
     } else if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT')) {
       throw new Error(`AWS Bedrock timeout: ${errorMessage}. Service is busy, please retry.`);
     } else {
@@ -2,6 +2,16 @@
 import { OpenSearchClient } from '@aws-sdk/client-opensearch';
 import { getAWSCredentials, AWS_REGION } from './aws-credentials';
 import { getEncoding } from 'js-tiktoken';
+import { ModuleType } from '@prisma/client';
+import type {
+  DocumentVector,
+  EmbeddingValidation,
+  LexicalHit,
+  RetrievalFilters,
+  SearchResult,
+  VectorModuleType,
+  VectorStore,
+} from './vector-store';
 
 // Lazy-initialized OpenSearch client to prevent credential pollution
 // Client is created on-demand when first accessed, ensuring Lambda execution role is available
@@ -28,101 +38,52 @@ function getOpenSearchEndpoint(): string {
   return endpoint;
 }
 
-// Generate index name based on module type
-function getIndexName(moduleType: 'FUNDING' | 'PROCUREMENT' | 'PROCUREMENT_ADMIN' | 'WORLDBANK' | 'WORLDBANK_ADMIN' = 'FUNDING'): string {
-  const indexMap = {
-    'FUNDING': 'funding-documents',
-    'PROCUREMENT': 'procurement-documents',
-    'PROCUREMENT_ADMIN': 'procurement-admin-documents',
-    'WORLDBANK': 'worldbank-documents',
-    'WORLDBANK_ADMIN': 'worldbank-admin-documents'
-  };
-  return indexMap[moduleType];
+interface IndexSettings {
+  shards: number;
+  replicas: number;
+  efSearch: number;
+  // 'english' stems content terms, which suits regulation and policy language
+  contentAnalyzer: 'standard' | 'english';
 }
 
-/**
- * Split text into chunks based on ACTUAL token count (not estimation)
- * Uses tiktoken to count tokens accurately for OpenAI models
- *
- * @param text - The text to chunk
- * @param maxTokens - Maximum tokens per chunk (default 7000, safe buffer under 8192 limit)
- * @param overlapTokens - Number of tokens to overlap between chunks (default 300)
- * @returns Array of text chunks
- */
-export function chunkText(
-  text: string,
-  maxTokens: number = 7000,
-  overlapTokens: number = 300
-): string[] {
-  const encoder = getEncoding('cl100k_base'); // Use cl100k_base for text-embedding-3-small compatibility
-
-  try {
-    const tokens = encoder.encode(text);
-    const totalTokens = tokens.length;
-
-    // If text fits in one chunk, return as-is
-    if (totalTokens <= maxTokens) {
-      return [text];
-    }
-
-    const chunks: string[] = [];
-    const step = maxTokens - overlapTokens;
-
-    for (let i = 0; i < totalTokens; i += step) {
-      const endIndex = Math.min(i + maxTokens, totalTokens);
-      const chunkTokens = tokens.slice(i, endIndex);
-      // js-tiktoken's decode() returns a string directly (no TextDecoder needed)
-      const chunkText = encoder.decode(chunkTokens);
-
-      chunks.push(chunkText);
-
-      // Stop if we've reached the end
-      if (endIndex >= totalTokens) {
-        break;
-      }
-    }
-
-    return chunks;
-
-  } finally {
-    // Note: js-tiktoken doesn't require manual memory management (pure JavaScript)
-    // No need to free encoder
-  }
+const APPLICATION_INDEX: IndexSettings = { shards: 1, replicas: 1, efSearch: 100, contentAnalyzer: 'standard' };
+const KNOWLEDGE_BASE_INDEX: IndexSettings = { shards: 1, replicas: 1, efSearch: 200, contentAnalyzer: 'english' };
+
+// Per-module index settings, applied when the module's index is created
+const INDEX_SETTINGS: Record<ModuleType, IndexSettings> = {
+  FUNDING: APPLICATION_INDEX,
+  PROCUREMENT: APPLICATION_INDEX,
+  PROCUREMENT_ADMIN: KNOWLEDGE_BASE_INDEX,
+  WORLDBANK: APPLICATION_INDEX,
+  WORLDBANK_ADMIN: KNOWLEDGE_BASE_INDEX,
+  WORLDBANKGROUP: APPLICATION_INDEX,
+  WORLDBANKGROUP_ADMIN: KNOWLEDGE_BASE_INDEX,
+};
+
+// Index name for a module type, e.g. PROCUREMENT_ADMIN -> procurement-admin-documents
+// (also used by the local vector store)
+export function getIndexName(moduleType: ModuleType = 'FUNDING'): string {
+  return `${moduleType.toLowerCase().replace(/_/g, '-')}-documents`;
 }
 
-export interface DocumentVector {
-  id: string;  // documentId OR documentId-chunk-N for chunked documents
-  fundId: string;
-  documentType: 'APPLICATION_FORM' | 'SELECTION_CRITERIA' | 'GOOD_EXAMPLES' | 'OUTPUT_TEMPLATES';
-  filename: string;
-  content: string;
-  embedding: number[];
-  moduleType?: 'FUNDING' | 'PROCUREMENT' | 'PROCUREMENT_ADMIN' | 'WORLDBANK' | 'WORLDBANK_ADMIN'; // For index routing
-  metadata: {
-    uploadedAt: string;
-    fileSize: number;
-    mimeType: string;
-    // Chunk-specific fields (only present for chunked documents)
-    originalDocumentId?: string;  // Database document ID (parent document)
-    chunkIndex?: number;          // 1-based index (1, 2, 3...)
-    totalChunks?: number;         // Total number of chunks for this document
-    isChunk?: boolean;            // true for chunks, undefined for legacy single documents
-  };
-}
+// cl100k_base matches text-embedding-3-small; loaded once per process
+let encoder: ReturnType<typeof getEncoding> | null = null;
 
-export interface SearchResult {
-  id: string;
-  score: number;
-  content: string;
-  documentType: string;
-  filename: string;
-  metadata: any;
+/**
+ * Count tokens the way the embedding model does (ACTUAL count, not estimation)
+ * Used as the chunk size measure for RAG indexing (8,192 token limit)
+ */
+export function countTokens(text: string): number {
+  if (!encoder) {
+    encoder = getEncoding('cl100k_base');
+  }
+  return encoder.encode(text).length;
 }
 
 /**
  * Store document vector in OpenSearch
  */
-export async function storeDocumentVector(document: DocumentVector): Promise<void> {
+async function storeDocumentVector(document: DocumentVector): Promise<void> {
   try {
     const indexName = getIndexName(document.moduleType || 'FUNDING');
     const response = await fetch(`${getOpenSearchEndpoint()}/${indexName}/_doc/${document.id}`, {
@@ -157,116 +118,44 @@ export async function storeDocumentVector(document: DocumentVector): Promise<voi
 }
 
 /**
- * Search for relevant documents using vector similarity
+ * Run a search request against a module's index and return the raw response
  */
-export async function searchRelevantDocuments(
-  queryEmbedding: number[],
-  fundId: string,
-  documentTypes?: string[],
-  limit: number = 5,
-  moduleType: 'FUNDING' | 'PROCUREMENT' | 'PROCUREMENT_ADMIN' | 'WORLDBANK' | 'WORLDBANK_ADMIN' = 'FUNDING'
-): Promise<SearchResult[]> {
-  try {
-    const mustClauses = [
-      {
-        term: { fundId }
-      }
-    ];
-    
-    if (documentTypes && documentTypes.length > 0) {
-      mustClauses.push({
-        terms: { documentType: documentTypes }
-      } as any);
-    }
-    
-    const query = {
-      size: limit,
-      query: {
-        bool: {
-          must: mustClauses,
-          should: [
-            {
-              knn: {
-                embedding: {
-                  vector: queryEmbedding,
-                  k: limit
-                }
-              }
-            }
-          ]
-        }
-      },
-      _source: ['fundId', 'documentType', 'filename', 'content', 'metadata']
-    };
-    
-    const indexName = getIndexName(moduleType);
-    const response = await fetch(`${getOpenSearchEndpoint()}/${indexName}/_search`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': await getOpenSearchAuth(),
-      },
-      body: JSON.stringify(query),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Search failed: ${response.statusText}`);
-    }
-    
-    const searchResponse = await response.json();
-    
-    return searchResponse.hits.hits.map((hit: any) => ({
-      id: hit._id,
-      score: hit._score,
-      content: hit._source.content,
-      documentType: hit._source.documentType,
-      filename: hit._source.filename,
-      metadata: hit._source.metadata,
-    }));
-    
-  } catch (error) {
-    console.error('Error searching documents:', error);
-    throw error;
+async function searchIndex(
+  body: Record<string, any>,
+  moduleType: ModuleType = 'FUNDING'
+): Promise<any> {
+  const indexName = getIndexName(moduleType);
+  const response = await fetch(`${getOpenSearchEndpoint()}/${indexName}/_search`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': await getOpenSearchAuth(),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Search failed on ${indexName}: ${response.statusText} - ${errorText}`);
   }
-}
 
-/**
- * Get all selection criteria for a fund
- */
-export async function getFundCriteria(fundId: string): Promise<SearchResult[]> {
-  return searchRelevantDocuments(
-    new Array(1536).fill(0), // Dummy embedding for exact match
-    fundId,
-    ['SELECTION_CRITERIA'],
-    10
-  );
-}
-
-/**
- * Get good examples for a fund
- */
-export async function getFundGoodExamples(fundId: string): Promise<SearchResult[]> {
-  return searchRelevantDocuments(
-    new Array(1536).fill(0), // Dummy embedding for exact match
-    fundId,
-    ['GOOD_EXAMPLES'],
-    5
-  );
+  return response.json();
 }
 
 /**
  * Initialize OpenSearch index with proper mappings
  */
-export async function initializeOpenSearchIndex(moduleType: 'FUNDING' | 'PROCUREMENT' | 'PROCUREMENT_ADMIN' | 'WORLDBANK' | 'WORLDBANK_ADMIN' = 'FUNDING'): Promise<void> {
+async function initializeOpenSearchIndex(moduleType: ModuleType = 'FUNDING'): Promise<void> {
   try {
     const indexName = getIndexName(moduleType);
+    const settings = INDEX_SETTINGS[moduleType];
     const indexMapping = {
       mappings: {
         properties: {
           fundId: { type: 'keyword' },
           documentType: { type: 'keyword' },
           filename: { type: 'text' },
-          content: { type: 'text' },
+          content: { type: 'text', analyzer: settings.contentAnalyzer },
           embedding: {
             type: 'knn_vector',
             dimension: 1536, // OpenAI embedding dimension
@@ -277,6 +166,18 @@ export async function initializeOpenSearchIndex(moduleType: 'FUNDING' | 'PROCURE
               uploadedAt: { type: 'date' },
               fileSize: { type: 'integer' },
               mimeType: { type: 'keyword' },
+              // Same shape dynamic mapping gives older indices, so filters work on both
+              originalDocumentId: { type: 'text', fields: { keyword: { type: 'keyword', ignore_above: 256 } } },
+              chunkIndex: { type: 'integer' },
+              totalChunks: { type: 'integer' },
+              isChunk: { type: 'boolean' },
+              sectionTitle: { type: 'text', fields: { keyword: { type: 'keyword', ignore_above: 256 } } },
+              headingPath: { type: 'keyword' },
+              pageStart: { type: 'integer' },
+              pageEnd: { type: 'integer' },
+              inTable: { type: 'boolean' },
+              startOffset: { type: 'integer' },
+              endOffset: { type: 'integer' },
             }
           },
           timestamp: { type: 'date' }
@@ -284,8 +185,10 @@ export async function initializeOpenSearchIndex(moduleType: 'FUNDING' | 'PROCURE
       },
       settings: {
         index: {
+          number_of_shards: settings.shards,
+          number_of_replicas: settings.replicas,
           knn: true,
-          'knn.algo_param.ef_search': 100,
+          'knn.algo_param.ef_search': settings.efSearch,
         }
       }
     };
@@ -312,6 +215,57 @@ export async function initializeOpenSearchIndex(moduleType: 'FUNDING' | 'PROCURE
   }
 }
 
+/**
+ * Move a fund's vectors to another module's index (server-side _reindex, then
+ * delete from the source index once every document was copied)
+ */
+async function moveFundVectors(fundId: string, from: ModuleType, to: ModuleType): Promise<number> {
+  const sourceIndex = getIndexName(from);
+  const targetIndex = getIndexName(to);
+  await initializeOpenSearchIndex(to);
+
+  const reindexResponse = await fetch(`${getOpenSearchEndpoint()}/_reindex?refresh=true&wait_for_completion=true`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': await getOpenSearchAuth(),
+    },
+    body: JSON.stringify({
+      source: { index: sourceIndex, query: { term: { fundId } } },
+      dest: { index: targetIndex },
+      script: { lang: 'painless', source: 'ctx._source.moduleType = params.moduleType', params: { moduleType: to } },
+    }),
+  });
+
+  if (!reindexResponse.ok) {
+    const errorText = await reindexResponse.text();
+    throw new Error(`Failed to reindex fund ${fundId} from ${sourceIndex} to ${targetIndex}: ${reindexResponse.statusText} - ${errorText}`);
+  }
+
+  const reindex = await reindexResponse.json();
+  if (reindex.failures?.length) {
+    throw new Error(`Reindex of fund ${fundId} had ${reindex.failures.length} failures; source vectors kept in ${sourceIndex}`);
+  }
+
+  const deleteResponse = await fetch(`${getOpenSearchEndpoint()}/${sourceIndex}/_delete_by_query?refresh=true`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': await getOpenSearchAuth(),
+    },
+    body: JSON.stringify({ query: { term: { fundId } } }),
+  });
+
+  if (!deleteResponse.ok) {
+    const errorText = await deleteResponse.text();
+    throw new Error(`Copied fund ${fundId} to ${targetIndex} but could not delete it from ${sourceIndex}: ${errorText}`);
+  }
+
+  const moved = (reindex.created ?? 0) + (reindex.updated ?? 0);
+  console.log(`Moved ${moved} vectors for fund ${fundId} from ${sourceIndex} to ${targetIndex}`);
+  return moved;
+}
+
 /**
  * Generate AWS signature for OpenSearch authentication
  */
@@ -379,19 +333,10 @@ export async function generateEmbedding(text: string): Promise<number[]> {
  * Validate that embeddings were successfully created for a fund
  * Returns the count of embeddings and sample data
  */
-export async function validateFundEmbeddings(
+async function validateFundEmbeddings(
   fundId: string,
-  moduleType: 'FUNDING' | 'PROCUREMENT' | 'PROCUREMENT_ADMIN' | 'WORLDBANK' | 'WORLDBANK_ADMIN' = 'FUNDING'
-): Promise<{
-  count: number;
-  indexName: string;
-  sample?: Array<{
-    id: string;
-    filename: string;
-    hasEmbedding: boolean;
-    isChunk: boolean;
-  }>;
-}> {
+  moduleType: ModuleType = 'FUNDING'
+): Promise<EmbeddingValidation> {
   try {
     const indexName = getIndexName(moduleType);
 
@@ -455,4 +400,126 @@ export async function validateFundEmbeddings(
     // Return zero count on error - don't fail validation
     return { count: 0, indexName: getIndexName(moduleType), sample: [] };
   }
-}
\ No newline at end of file
+}
+const SOURCE_FIELDS = ['fundId', 'documentType', 'filename', 'content', 'metadata'];
+
+const toSearchResult = (hit: any): SearchResult => ({
+  id: hit._id,
+  score: hit._score ?? 0,
+  content: hit._source.content,
+  documentType: hit._source.documentType,
+  filename: hit._source.filename,
+  metadata: hit._source.metadata,
+});
+
+/**
+ * OpenSearch filter clauses for the document-type, document and chunk filters
+ */
+function buildFilterClauses(filters: RetrievalFilters): any[] {
+  const clauses: any[] = [];
+
+  if (filters.fundId) {
+    clauses.push({ term: { fundId: filters.fundId } });
+  }
+  if (filters.documentTypes?.length) {
+    clauses.push({ terms: { documentType: filters.documentTypes } });
+  }
+  if (filters.documentIds?.length) {
+    // Unsplit documents are stored under their own ID, chunks reference it in metadata
+    clauses.push({
+      bool: {
+        should: [
+          { ids: { values: filters.documentIds } },
+          { terms: { 'metadata.originalDocumentId.keyword': filters.documentIds } },
+        ],
+        minimum_should_match: 1,
+      },
+    });
+  }
+  if (filters.chunks === 'chunks') {
+    clauses.push({ term: { 'metadata.isChunk': true } });
+  } else if (filters.chunks === 'documents') {
+    clauses.push({ bool: { must_not: { exists: { field: 'metadata.isChunk' } } } });
+  }
+  if (filters.chunkIndexRange) {
+    const { from, to } = filters.chunkIndexRange;
+    clauses.push({
+      range: { 'metadata.chunkIndex': { ...(from !== undefined && { gte: from }), ...(to !== undefined && { lte: to }) } },
+    });
+  }
+
+  return clauses;
+}
+
+/**
+ * Vector store backed by the OpenSearch domain (OPENSEARCH_ENDPOINT)
+ */
+export class OpenSearchVectorStore implements VectorStore {
+  readonly backend = 'opensearch' as const;
+
+  initializeIndex(moduleType: VectorModuleType = 'FUNDING'): Promise<void> {
+    return initializeOpenSearchIndex(moduleType);
+  }
+
+  storeDocument(document: DocumentVector): Promise<void> {
+    return storeDocumentVector(document);
+  }
+
+  async lexicalSearch(text: string, filters: RetrievalFilters, size: number, moduleType: VectorModuleType): Promise<LexicalHit[]> {
+    const response = await searchIndex({
+      size,
+      query: {
+        bool: {
+          must: [{ multi_match: { query: text, fields: ['content', 'filename^0.5'] } }],
+          filter: buildFilterClauses(filters),
+        },
+      },
+      highlight: { fields: { content: { fragment_size: 120, number_of_fragments: 3 } } },
+      _source: SOURCE_FIELDS,
+    }, moduleType);
+
+    return response.hits.hits.map((hit: any) => ({
+      result: toSearchResult(hit),
+      highlights: (hit.highlight?.content ?? []) as string[],
+    }));
+  }
+
+  async vectorSearch(embedding: number[], filters: RetrievalFilters, size: number, moduleType: VectorModuleType): Promise<SearchResult[]> {
+    const filter = buildFilterClauses(filters);
+    // The filter is applied to the k-NN candidates, so over-fetch to keep `size` after filtering
+    const response = await searchIndex({
+      size,
+      query: {
+        bool: {
+          must: [{ knn: { embedding: { vector: embedding, k: filter.length ? size * 4 : size } } }],
+          filter,
+        },
+      },
+      _source: SOURCE_FIELDS,
+    }, moduleType);
+
+    return response.hits.hits.map(toSearchResult);
+  }
+
+  async filterSearch(filters: RetrievalFilters, size: number, moduleType: VectorModuleType): Promise<SearchResult[]> {
+    const response = await searchIndex({
+      size,
+      query: { bool: { filter: buildFilterClauses(filters) } },
+      sort: [
+        { 'metadata.originalDocumentId.keyword': { order: 'asc', unmapped_type: 'keyword' } },
+        { 'metadata.chunkIndex': { order: 'asc', unmapped_type: 'integer' } },
+      ],
+      _source: SOURCE_FIELDS,
+    }, moduleType);
+
+    return response.hits.hits.map(toSearchResult);
+  }
+
+  validateFundEmbeddings(fundId: string, moduleType: VectorModuleType = 'FUNDING'): Promise<EmbeddingValidation> {
+    return validateFundEmbeddings(fundId, moduleType);
+  }
+
+  moveFundVectors(fundId: string, from: VectorModuleType, to: VectorModuleType): Promise<number> {
+    return moveFundVectors(fundId, from, to);
+  }
+}
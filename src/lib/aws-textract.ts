@@ -3,6 +3,11 @@
  *
  * This service uses AWS Textract to extract text content from PDF files stored in S3.
  * Handles both single-page and multi-page PDFs correctly.
+ *
+ * analyzeDocument runs document analysis with the TABLES and FORMS features
+ * instead, returning tables as cell grids and form fields as key-value pairs
+ * alongside the text. Analysis costs more per page than text detection, so it is
+ * only used for documents whose tables matter (see document-structure.ts).
  */
 
 import {
@@ -10,11 +15,35 @@ import {
   DetectDocumentTextCommand,
   StartDocumentTextDetectionCommand,
   GetDocumentTextDetectionCommand,
+  AnalyzeDocumentCommand,
+  StartDocumentAnalysisCommand,
+  GetDocumentAnalysisCommand,
+  FeatureType,
   DocumentLocation,
-  JobStatus
+  JobStatus,
+  Block
 } from '@aws-sdk/client-textract';
 import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getAWSCredentials, AWS_REGION, S3_BUCKET } from './aws-credentials';
+import type { DocumentLayout } from './chunker';
+import { getExtractionMode } from './document-extractors';
+import type { AnalysisFeature, ExtractedKeyValue, ExtractedTable } from './document-extractors';
+
+export interface TextractDocument {
+  text: string;
+  layout: DocumentLayout;
+  confidence: number;  // Mean LINE confidence, 0-1
+  // Document analysis only
+  tables?: ExtractedTable[];
+  keyValues?: ExtractedKeyValue[];
+}
+
+// Text detection jobs and document analysis jobs are polled with different APIs
+export type TextractJobKind = 'TEXT' | 'ANALYSIS';
+
+// Polling within one run before handing a job to the background poller (4 x 5s)
+const DEFAULT_POLL_ATTEMPTS = 4;
+const POLL_INTERVAL_MS = 5000;
 
 // CRITICAL FIX: Create clients lazily to ensure Lambda execution role is available
 // Do NOT initialize at module level as credentials may not be ready during cold start
@@ -48,6 +77,13 @@ function getS3Client(): S3Client {
  * Automatically handles single-page vs multi-page PDFs
  */
 export async function extractTextFromPDF(s3Key: string): Promise<string> {
+  return (await detectDocument(s3Key)).text;
+}
+
+/**
+ * Extract text, page layout and confidence from a PDF or image stored in S3
+ */
+export async function detectDocument(s3Key: string): Promise<TextractDocument> {
   console.log(`📄 Starting Textract extraction for: ${s3Key}`);
   console.log(`📄 Using bucket: ${S3_BUCKET}, region: ${AWS_REGION}`);
 
@@ -79,36 +115,57 @@ export async function extractTextFromPDF(s3Key: string): Promise<string> {
 }
 
 /**
- * Try synchronous text detection (for single-page PDFs)
+ * Download a document from S3 for synchronous Textract calls. Returns null when
+ * it is likely multi-page and has to go through an asynchronous job.
  */
-async function tryDetectDocumentText(s3Key: string): Promise<string | null> {
-  try {
-    console.log(`📄 Attempting synchronous detection for single-page PDF...`);
+async function downloadForSyncCall(s3Key: string): Promise<Buffer | null> {
+  // Download PDF from S3
+  const getCommand = new GetObjectCommand({
+    Bucket: S3_BUCKET,
+    Key: s3Key
+  });
 
-    // Download PDF from S3
-    const getCommand = new GetObjectCommand({
-      Bucket: S3_BUCKET,
-      Key: s3Key
-    });
+  const s3Response = await getS3Client().send(getCommand);
+  if (!s3Response.Body) {
+    throw new Error('No content in S3 object');
+  }
 
-    const s3Response = await getS3Client().send(getCommand);
-    if (!s3Response.Body) {
-      throw new Error('No content in S3 object');
-    }
+  // Convert to buffer
+  const chunks: Buffer[] = [];
+  for await (const chunk of s3Response.Body as any) {
+    chunks.push(chunk);
+  }
+  const pdfBuffer = Buffer.concat(chunks);
 
-    // Convert to buffer
-    const chunks: Buffer[] = [];
-    for await (const chunk of s3Response.Body as any) {
-      chunks.push(chunk);
-    }
-    const pdfBuffer = Buffer.concat(chunks);
+  console.log(`📄 Downloaded ${pdfBuffer.length} bytes, checking if single-page...`);
+
+  // Check PDF page count (simple heuristic based on size)
+  // Most single-page PDFs are under 500KB
+  if (pdfBuffer.length > 500000) {
+    console.log(`📄 PDF likely multi-page (${pdfBuffer.length} bytes), skipping sync detection`);
+    return null;
+  }
+
+  return pdfBuffer;
+}
 
-    console.log(`📄 Downloaded ${pdfBuffer.length} bytes, checking if single-page...`);
+// Expected failures of synchronous calls on multi-page PDFs
+const isUnsupportedForSync = (error: unknown) => {
+  const errorMessage = error instanceof Error ? error.message : '';
+  return errorMessage.includes('unsupported document format') ||
+    errorMessage.includes('UnsupportedDocumentException') ||
+    errorMessage.includes('InvalidParameterException');
+};
+
+/**
+ * Try synchronous text detection (for single-page PDFs)
+ */
+async function tryDetectDocumentText(s3Key: string): Promise<TextractDocument | null> {
+  try {
+    console.log(`📄 Attempting synchronous detection for single-page PDF...`);
 
-    // Check PDF page count (simple heuristic based on size)
-    // Most single-page PDFs are under 500KB
-    if (pdfBuffer.length > 500000) {
-      console.log(`📄 PDF likely multi-page (${pdfBuffer.length} bytes), skipping sync detection`);
+    const pdfBuffer = await downloadForSyncCall(s3Key);
+    if (!pdfBuffer) {
       return null;
     }
 
@@ -126,28 +183,19 @@ async function tryDetectDocumentText(s3Key: string): Promise<string | null> {
     }
 
     // Extract text from LINE blocks
-    const textLines = response.Blocks
-      .filter(block => block.BlockType === 'LINE')
-      .map(block => block.Text || '')
-      .filter(text => text.trim().length > 0);
+    const document = toTextractDocument(response.Blocks);
 
-    const extractedText = textLines.join('\n');
-
-    if (extractedText.trim().length === 0) {
+    if (document.text.trim().length === 0) {
       return null;
     }
 
-    console.log(`📄 Sync extraction successful: ${extractedText.length} characters`);
-    return extractedText;
+    console.log(`📄 Sync extraction successful: ${document.text.length} characters`);
+    return document;
 
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : '';
-
     // Expected failures for multi-page PDFs
-    if (errorMessage.includes('unsupported document format') ||
-        errorMessage.includes('UnsupportedDocumentException') ||
-        errorMessage.includes('InvalidParameterException')) {
-      console.log(`📄 Sync detection failed (expected for multi-page): ${errorMessage}`);
+    if (isUnsupportedForSync(error)) {
+      console.log(`📄 Sync detection failed (expected for multi-page): ${error instanceof Error ? error.message : ''}`);
       return null;
     }
 
@@ -156,6 +204,56 @@ async function tryDetectDocumentText(s3Key: string): Promise<string | null> {
   }
 }
 
+/**
+ * Analyse a PDF or image stored in S3 for tables and form fields as well as text.
+ * Waits up to `pollAttempts` x 5s for multi-page documents, then throws
+ * TEXTRACT_ASYNC_PENDING:<jobId>:ANALYSIS for the background poller.
+ */
+export async function analyzeDocument(
+  s3Key: string,
+  features: AnalysisFeature[],
+  pollAttempts: number = DEFAULT_POLL_ATTEMPTS
+): Promise<TextractDocument> {
+  console.log(`📊 Starting Textract analysis (${features.join(', ')}) for: ${s3Key}`);
+
+  try {
+    const bytes = await downloadForSyncCall(s3Key);
+    if (bytes) {
+      try {
+        const response = await getTextractClient().send(new AnalyzeDocumentCommand({
+          Document: { Bytes: bytes },
+          FeatureTypes: features as FeatureType[]
+        }));
+        const document = toTextractDocument(response.Blocks ?? []);
+        if (document.text.trim().length > 0) {
+          console.log(`📊 Sync analysis successful: ${document.text.length} characters, ${document.tables?.length ?? 0} tables, ${document.keyValues?.length ?? 0} fields`);
+          return document;
+        }
+      } catch (error) {
+        if (!isUnsupportedForSync(error)) throw error;
+        console.log(`📊 Sync analysis failed (expected for multi-page): ${error instanceof Error ? error.message : ''}`);
+      }
+    }
+
+    const startResponse = await getTextractClient().send(new StartDocumentAnalysisCommand({
+      DocumentLocation: { S3Object: { Bucket: S3_BUCKET, Name: s3Key } },
+      FeatureTypes: features as FeatureType[]
+    }));
+    if (!startResponse.JobId) {
+      throw new Error('Failed to start Textract analysis job');
+    }
+    console.log(`📊 Textract analysis job started: ${startResponse.JobId}`);
+
+    return await waitForTextractJob(startResponse.JobId, 'ANALYSIS', pollAttempts);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (errorMessage.includes('TEXTRACT_ASYNC_PENDING:')) {
+      throw error;
+    }
+    throw new Error(`AWS Textract failed to analyse document: ${errorMessage}`);
+  }
+}
+
 /**
  * Start async Textract job for multi-page PDF and return JobId immediately
  * Background processor will poll for completion
@@ -186,15 +284,11 @@ export async function startTextractJob(s3Key: string): Promise<string> {
 /**
  * Check status of Textract job
  */
-export async function getTextractJobStatus(jobId: string): Promise<{
+export async function getTextractJobStatus(jobId: string, kind: TextractJobKind = 'TEXT'): Promise<{
   status: 'IN_PROGRESS' | 'SUCCEEDED' | 'FAILED' | 'PARTIAL_SUCCESS';
   statusMessage?: string;
 }> {
-  const getCommand = new GetDocumentTextDetectionCommand({
-    JobId: jobId
-  });
-
-  const response = await getTextractClient().send(getCommand);
+  const response = await getTextractJobPage(jobId, kind);
 
   return {
     status: response.JobStatus || 'IN_PROGRESS',
@@ -203,71 +297,242 @@ export async function getTextractJobStatus(jobId: string): Promise<{
 }
 
 /**
- * Retrieve text from completed Textract job
+ * Join LINE blocks into text (one line per row) and record where each page and
+ * layout block starts and ends in it. LAYOUT_* blocks are only returned by
+ * document analysis jobs; text detection yields pages only. Tables found by the
+ * TABLES feature are recorded as TABLE blocks spanning the lines of their cells.
  */
-export async function getTextractJobResults(jobId: string): Promise<string> {
+export function buildDocumentLayout(blocks: Block[]): { text: string; layout: DocumentLayout } {
+  const lineSpans = new Map<string, { start: number; end: number }>();
+  const pages: DocumentLayout['pages'] = [];
+  let text = '';
+
+  for (const block of blocks) {
+    if (block.BlockType !== 'LINE' || !block.Text?.trim()) continue;
+
+    if (text) text += '\n';
+    const start = text.length;
+    text += block.Text;
+    if (block.Id) lineSpans.set(block.Id, { start, end: text.length });
+
+    const page = block.Page ?? 1;
+    const current = pages[pages.length - 1];
+    if (current?.page === page) {
+      current.end = text.length;
+    } else {
+      pages.push({ page, start, end: text.length });
+    }
+  }
+
+  const layoutBlocks: DocumentLayout['blocks'] = [];
+  for (const block of blocks) {
+    if (!block.BlockType?.startsWith('LAYOUT_')) continue;
+    const children = (block.Relationships ?? [])
+      .filter(relationship => relationship.Type === 'CHILD')
+      .flatMap(relationship => relationship.Ids ?? [])
+      .map(id => lineSpans.get(id))
+      .filter((span): span is { start: number; end: number } => !!span);
+    if (children.length === 0) continue;
+
+    layoutBlocks.push({
+      type: block.BlockType.replace('LAYOUT_', ''),
+      page: block.Page ?? 1,
+      start: Math.min(...children.map(span => span.start)),
+      end: Math.max(...children.map(span => span.end)),
+    });
+  }
+
+  if (!layoutBlocks.some(block => block.type === 'TABLE')) {
+    layoutBlocks.push(...tableSpans(blocks, lineSpans));
+  }
+  layoutBlocks.sort((a, b) => a.start - b.start);
+
+  return { text, layout: { pages, blocks: layoutBlocks } };
+}
+
+/**
+ * Text spans of TABLE blocks: cells hold words, so each word is mapped back to
+ * the line it was read in
+ */
+function tableSpans(blocks: Block[], lineSpans: Map<string, { start: number; end: number }>): DocumentLayout['blocks'] {
+  const childIds = (block: Block | undefined) => (block?.Relationships ?? [])
+    .filter(relationship => relationship.Type === 'CHILD')
+    .flatMap(relationship => relationship.Ids ?? []);
+
+  const wordSpans = new Map<string, { start: number; end: number }>();
+  for (const block of blocks) {
+    const span = block.BlockType === 'LINE' && block.Id ? lineSpans.get(block.Id) : undefined;
+    if (span) childIds(block).forEach(id => wordSpans.set(id, span));
+  }
+
+  const byId = new Map(blocks.filter(block => block.Id).map(block => [block.Id!, block]));
+  const spans: DocumentLayout['blocks'] = [];
+  for (const table of blocks.filter(block => block.BlockType === 'TABLE')) {
+    const words = childIds(table)
+      .flatMap(cellId => childIds(byId.get(cellId)))
+      .map(id => wordSpans.get(id))
+      .filter((span): span is { start: number; end: number } => !!span);
+    if (words.length === 0) continue;
+
+    spans.push({
+      type: 'TABLE',
+      page: table.Page ?? 1,
+      start: Math.min(...words.map(span => span.start)),
+      end: Math.max(...words.map(span => span.end)),
+    });
+  }
+  return spans;
+}
+
+/**
+ * Tables (TABLE blocks, as grids of cell text) and form fields (KEY_VALUE_SET
+ * blocks) of a document analysis. Selection elements read as [X] or [ ].
+ */
+export function buildDocumentStructure(blocks: Block[]): { tables: ExtractedTable[]; keyValues: ExtractedKeyValue[] } {
+  const byId = new Map(blocks.filter(block => block.Id).map(block => [block.Id!, block]));
+  const related = (block: Block, type: string) => (block.Relationships ?? [])
+    .filter(relationship => relationship.Type === type)
+    .flatMap(relationship => relationship.Ids ?? [])
+    .map(id => byId.get(id))
+    .filter((child): child is Block => !!child);
+  const textOf = (block: Block) => related(block, 'CHILD')
+    .map(child => child.BlockType === 'WORD'
+      ? child.Text ?? ''
+      : child.BlockType === 'SELECTION_ELEMENT' ? (child.SelectionStatus === 'SELECTED' ? '[X]' : '[ ]') : '')
+    .filter(Boolean)
+    .join(' ');
+
+  const tables: ExtractedTable[] = [];
+  for (const table of blocks.filter(block => block.BlockType === 'TABLE')) {
+    const cells = related(table, 'CHILD').filter(cell => cell.BlockType === 'CELL');
+    if (cells.length === 0) continue;
+
+    const rowCount = Math.max(...cells.map(cell => (cell.RowIndex ?? 1) + (cell.RowSpan ?? 1) - 1));
+    const columnCount = Math.max(...cells.map(cell => (cell.ColumnIndex ?? 1) + (cell.ColumnSpan ?? 1) - 1));
+    const rows = Array.from({ length: rowCount }, () => Array<string>(columnCount).fill(''));
+    for (const cell of cells) {
+      rows[(cell.RowIndex ?? 1) - 1][(cell.ColumnIndex ?? 1) - 1] = textOf(cell);
+    }
+
+    const title = related(table, 'TABLE_TITLE').map(textOf).join(' ');
+    tables.push({ page: table.Page ?? 1, ...(title && { title }), rows });
+  }
+
+  const keyValues: ExtractedKeyValue[] = [];
+  for (const key of blocks.filter(block => block.BlockType === 'KEY_VALUE_SET' && block.EntityTypes?.includes('KEY'))) {
+    const values = related(key, 'VALUE');
+    const keyText = textOf(key).replace(/[:\s]+$/, '');
+    if (!keyText) continue;
+
+    keyValues.push({
+      key: keyText,
+      value: values.map(textOf).join(' '),
+      page: key.Page ?? 1,
+      confidence: Math.min(key.Confidence ?? 0, ...values.map(value => value.Confidence ?? 0)) / 100,
+    });
+  }
+
+  return { tables, keyValues };
+}
+
+/**
+ * Text, layout and - for document analysis - tables and form fields of the blocks
+ */
+function toTextractDocument(blocks: Block[]): TextractDocument {
+  const { text, layout } = buildDocumentLayout(blocks);
+  const document: TextractDocument = { text, layout, confidence: lineConfidence(blocks) };
+
+  if (blocks.some(block => block.BlockType === 'TABLE' || block.BlockType === 'KEY_VALUE_SET')) {
+    Object.assign(document, buildDocumentStructure(blocks));
+  }
+  return document;
+}
+
+/**
+ * Mean confidence of the LINE blocks, scaled to 0-1
+ */
+export function lineConfidence(blocks: Block[]): number {
+  const confidences = blocks
+    .filter(block => block.BlockType === 'LINE' && block.Confidence !== undefined)
+    .map(block => block.Confidence as number);
+  if (confidences.length === 0) return 0;
+  return confidences.reduce((sum, value) => sum + value, 0) / confidences.length / 100;
+}
+
+function getTextractJobPage(jobId: string, kind: TextractJobKind, nextToken?: string) {
+  const input = { JobId: jobId, NextToken: nextToken };
+  return kind === 'ANALYSIS'
+    ? getTextractClient().send(new GetDocumentAnalysisCommand(input))
+    : getTextractClient().send(new GetDocumentTextDetectionCommand(input));
+}
+
+/**
+ * Retrieve text, page layout and confidence from completed Textract job, plus
+ * tables and form fields for analysis jobs
+ */
+export async function getTextractJobDocument(jobId: string, kind: TextractJobKind = 'TEXT'): Promise<TextractDocument> {
   console.log(`📄 Retrieving Textract job results: ${jobId}`);
 
-  let allText = '';
+  const blocks: Block[] = [];
   let nextToken: string | undefined = undefined;
 
   do {
-    const getCommand = new GetDocumentTextDetectionCommand({
-      JobId: jobId,
-      NextToken: nextToken
-    });
-
-    const response = await getTextractClient().send(getCommand);
+    const response = await getTextractJobPage(jobId, kind, nextToken);
 
     if (response.JobStatus !== 'SUCCEEDED') {
       throw new Error(`Textract job not complete. Status: ${response.JobStatus}`);
     }
 
-    if (response.Blocks) {
-      const textLines = response.Blocks
-        .filter(block => block.BlockType === 'LINE')
-        .map(block => block.Text || '')
-        .filter(text => text.trim().length > 0);
-      allText += textLines.join('\n') + '\n';
-    }
-
+    blocks.push(...(response.Blocks ?? []));
     nextToken = response.NextToken;
   } while (nextToken);
 
-  const trimmedText = allText.trim();
-  console.log(`📄 Textract extraction complete: ${trimmedText.length} characters from job ${jobId}`);
+  const document = toTextractDocument(blocks);
+  console.log(`📄 Textract extraction complete: ${document.text.length} characters, ${document.layout.pages.length} pages from job ${jobId}`);
 
-  if (trimmedText.length === 0) {
+  if (document.text.trim().length === 0) {
     throw new Error('PDF appears to be empty or contains only images');
   }
 
-  return trimmedText;
+  return document;
+}
+
+/**
+ * Retrieve text from completed Textract job
+ */
+export async function getTextractJobResults(jobId: string): Promise<string> {
+  return (await getTextractJobDocument(jobId)).text;
 }
 
 /**
  * Process multi-page PDFs using async Textract job (LEGACY - kept for backwards compatibility)
  * New code should use startTextractJob + getTextractJobResults
  */
-async function processMultiPagePDF(s3Key: string): Promise<string> {
+async function processMultiPagePDF(s3Key: string): Promise<TextractDocument> {
   // Start job and get JobId
   const jobId = await startTextractJob(s3Key);
+  return waitForTextractJob(jobId, 'TEXT', DEFAULT_POLL_ATTEMPTS);
+}
 
-  // Poll for completion (limited to avoid Lambda timeout)
+/**
+ * Poll a Textract job for a limited time (to avoid Lambda timeouts); if it is
+ * still running, throw TEXTRACT_ASYNC_PENDING so the background poller picks it up
+ */
+async function waitForTextractJob(jobId: string, kind: TextractJobKind, maxAttempts: number): Promise<TextractDocument> {
   let jobStatus: JobStatus = 'IN_PROGRESS';
   let attempts = 0;
-  const maxAttempts = 4; // Only 20 seconds max (4 × 5s) to avoid Lambda timeout
 
   while (jobStatus === 'IN_PROGRESS' && attempts < maxAttempts) {
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
 
-    const status = await getTextractJobStatus(jobId);
+    const status = await getTextractJobStatus(jobId, kind);
     jobStatus = status.status;
 
     console.log(`📄 Job status: ${jobStatus} (attempt ${attempts + 1}/${maxAttempts})`);
     attempts++;
 
     if (jobStatus === 'SUCCEEDED') {
-      return await getTextractJobResults(jobId);
+      return await getTextractJobDocument(jobId, kind);
     }
 
     if (jobStatus === 'FAILED') {
@@ -276,13 +541,14 @@ async function processMultiPagePDF(s3Key: string): Promise<string> {
   }
 
   // Job still in progress - throw special error to trigger background polling
-  throw new Error(`TEXTRACT_ASYNC_PENDING:${jobId}`);
+  throw new Error(`TEXTRACT_ASYNC_PENDING:${jobId}${kind === 'ANALYSIS' ? ':ANALYSIS' : ''}`);
 }
 
 
 /**
- * Check if a file should be processed with Textract
+ * Check if a file should go straight to Textract. Outside textract mode PDFs are
+ * read locally first and only scanned ones reach Textract (document-extractors.ts).
  */
 export function shouldUseTextract(mimeType: string): boolean {
-  return mimeType === 'application/pdf';
+  return getExtractionMode() === 'textract' && mimeType === 'application/pdf';
 }
\ No newline at end of file
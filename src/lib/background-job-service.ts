@@ -2,14 +2,19 @@
 import { prisma } from './database-s3';
 import { extractTextFromFile } from '../utils/server-document-analyzer';
 import { claudeService, ClaudeService } from './claude-service';
-import { storeDocumentVector, generateEmbedding, initializeOpenSearchIndex, chunkText, validateFundEmbeddings } from './aws-opensearch';
+import { generateEmbedding, countTokens } from './aws-opensearch';
+import { storeDocumentVector, initializeVectorIndex, validateFundEmbeddings } from './vector-store';
 import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getAWSCredentials, AWS_REGION, S3_BUCKET } from './aws-credentials';
-import { chunkText as chunkTextForAnalysis, TextChunk } from './chunker';
+import { chunkText as chunkTextForAnalysis, chunkByStructure, TextChunk } from './chunker';
+import { withUsageContext } from './usage-tracker';
+import { claimJob, claimNextJob, deferJob, failJob, runWithLease, QueuedJob } from './job-queue';
+import { planSteps, runStep, StepPlan } from './job-steps';
+import { upgradeOutputTemplate } from './template-engine';
 
 // Job types
 export type JobType = 'RAG_PROCESSING' | 'DOCUMENT_ANALYSIS';
-export type JobStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+export type JobStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'DEAD_LETTER';
 
 export interface BackgroundJobData {
   id: string;
@@ -23,8 +28,30 @@ export interface BackgroundJobData {
   errorMessage?: string;
   startedAt?: Date;
   completedAt?: Date;
+  attempts?: number;
+  maxAttempts?: number;
+  leaseOwner?: string | null;
 }
 
+// Result of a document's embed step, saved as its checkpoint
+interface EmbedOutcome {
+  successfulChunks: number;
+  failedChunks: number;
+  failedItems: Array<{
+    documentId: string;
+    filename: string;
+    error: string;
+    chunkIndex?: number;
+  }>;
+}
+
+// How long a job waits before checking on its Textract jobs again
+const TEXTRACT_POLL_DELAY_MS = 60 * 1000;
+
+// Application forms and selection criteria longer than this (in characters) are
+// analysed in chunks to avoid Lambda timeouts
+export const ANALYSIS_CHUNK_THRESHOLD = 30000;
+
 /**
  * Background Job Service - handles async processing of RAG and document analysis
  */
@@ -48,16 +75,18 @@ export class BackgroundJobService {
   }
   
   /**
-   * Update job status and progress
+   * Update job status and progress. Moving a job to a final status releases its lease.
    */
   static async updateJob(
     jobId: string, 
     updates: Partial<BackgroundJobData>
   ): Promise<BackgroundJobData> {
+    const finished = updates.status !== undefined && updates.status !== 'PENDING' && updates.status !== 'PROCESSING';
     const job = await prisma.background_jobs.update({
       where: { id: jobId },
       data: {
         ...updates,
+        ...(finished && { leaseOwner: null, leaseExpiresAt: null }),
         updatedAt: new Date()
       }
     });
@@ -89,21 +118,29 @@ export class BackgroundJobService {
   }
   
   /**
-   * Process a RAG job - complete document analysis and vector storage
+   * Process a RAG job - complete document analysis and vector storage.
+   * Pass `claimed` when the caller already holds the job's lease (queue workers);
+   * otherwise the job is claimed here and skipped if another worker is running it.
    */
-  static async processRAGJob(jobId: string): Promise<void> {
-    const job = await this.getJob(jobId);
+  static async processRAGJob(jobId: string, claimed?: QueuedJob): Promise<void> {
+    const job = claimed ?? await claimJob(jobId);
     if (!job) {
-      throw new Error(`Job ${jobId} not found`);
+      return;
     }
-    
+
+    // Attribute every model call made while processing to this job and its fund
+    return withUsageContext(
+      { fundId: job.fundId, jobId },
+      () => runWithLease(job, signal => this.runRAGJob(job as BackgroundJobData, signal))
+    );
+  }
+
+  private static async runRAGJob(job: BackgroundJobData, signal: AbortSignal): Promise<void> {
+    const jobId = job.id;
+    const owner = job.leaseOwner ?? undefined;
+
     try {
-      // Mark job as processing
-      await this.updateJob(jobId, {
-        status: 'PROCESSING',
-        startedAt: new Date(),
-        progress: 0
-      });
+      await this.updateJob(jobId, { progress: 0 });
       
       // Check if job has file data (new async approach)
       if (job.metadata?.files) {
@@ -126,9 +163,9 @@ export class BackgroundJobService {
       await this.performDocumentAnalysis(fund.id);
 
       // Initialize OpenSearch index for this module type
-      const moduleType = fund.moduleType as 'FUNDING' | 'PROCUREMENT' | 'PROCUREMENT_ADMIN' | 'WORLDBANK' | 'WORLDBANK_ADMIN';
+      const moduleType = fund.moduleType;
       console.log(`Initializing OpenSearch index for module: ${moduleType}`);
-      await initializeOpenSearchIndex(moduleType);
+      await initializeVectorIndex(moduleType);
 
       const documents = fund.documents;
       const totalDocuments = documents.length;
@@ -145,7 +182,7 @@ export class BackgroundJobService {
 
       if (Object.keys(textractJobs).length > 0) {
         console.log(`🔍 Found ${Object.keys(textractJobs).length} Textract job(s) to check...`);
-        const { getTextractJobStatus, getTextractJobResults } = await import('./aws-textract');
+        const { getTextractJobStatus, getTextractJobDocument } = await import('./aws-textract');
 
         let hasUpdates = false;
         const updatedTextractJobs = { ...textractJobs };
@@ -154,18 +191,20 @@ export class BackgroundJobService {
           if (textractJob.status === 'IN_PROGRESS') {
             try {
               console.log(`📄 Checking Textract job ${textractJob.jobId} for ${textractJob.filename}...`);
-              const status = await getTextractJobStatus(textractJob.jobId);
+              const status = await getTextractJobStatus(textractJob.jobId, textractJob.kind);
 
               if (status.status === 'SUCCEEDED') {
                 console.log(`✅ Textract job ${textractJob.jobId} completed! Retrieving results...`);
-                const extractedText = await getTextractJobResults(textractJob.jobId);
+                const { text: extractedText, layout, tables, keyValues } = await getTextractJobDocument(textractJob.jobId, textractJob.kind);
 
                 updatedTextractJobs[docId] = {
                   ...textractJob,
                   status: 'SUCCEEDED',
                   completedAt: new Date().toISOString(),
                   extractedText: extractedText,
-                  textLength: extractedText.length
+                  textLength: extractedText.length,
+                  layout,
+                  ...(tables && { tables, keyValues })
                 };
 
                 hasUpdates = true;
@@ -199,10 +238,11 @@ export class BackgroundJobService {
           console.log(`✅ Updated Textract job statuses in metadata`);
         }
 
-        // If there are still IN_PROGRESS jobs, exit and let EventBridge poller continue checking
+        // If there are still IN_PROGRESS jobs, release the job until the poller finds them finished
         const stillPending = Object.values(updatedTextractJobs).some((tj: any) => tj.status === 'IN_PROGRESS');
         if (stillPending) {
-          console.log(`⏳ Still waiting on Textract jobs. EventBridge poller will check again in 1 minute.`);
+          await deferJob(jobId, TEXTRACT_POLL_DELAY_MS, {}, owner);
+          console.log(`⏳ Still waiting on Textract jobs. Job ${jobId} deferred for 1 minute.`);
           return;
         }
       }
@@ -212,12 +252,7 @@ export class BackgroundJobService {
       let failedDocuments = 0;
       let successfulChunks = 0;
       let failedChunks = 0;
-      const failedItems: Array<{
-        documentId: string;
-        filename: string;
-        error: string;
-        chunkIndex?: number;
-      }> = [];
+      const failedItems: EmbedOutcome['failedItems'] = [];
 
       // CRITICAL: Validate all documents have pre-extracted text from DOCUMENT_ANALYSIS phase
       // RAG jobs should NEVER trigger Textract - that's DOCUMENT_ANALYSIS's responsibility
@@ -240,124 +275,43 @@ export class BackgroundJobService {
         return;
       }
 
+      // One checkpointed embed step per document, then assembly; a resumed job
+      // skips documents embedded by an earlier run. Assembly runs even if some
+      // documents failed - a partial brain is still usable.
+      const embedSteps: StepPlan[] = documents.map((document: { id: string; filename: string }) => ({
+        name: `${document.id}/embed`,
+        label: `${document.filename}: Embed chunks`
+      }));
+      await planSteps(jobId, [
+        ...embedSteps,
+        { name: 'assemble', label: 'Assemble brain', dependsOn: embedSteps.map(step => step.name) },
+      ]);
+
       // Process each document
       for (let i = 0; i < documents.length; i++) {
+        if (signal.aborted) {
+          console.log(`🛑 RAG job ${jobId} was cancelled or lost its lease - stopping after ${i} document(s)`);
+          return;
+        }
+
         const document = documents[i];
-        let documentSuccess = false;
-        let documentChunksSucceeded = 0;
-        let documentChunksFailed = 0;
+        console.log(`Processing document ${i + 1}/${totalDocuments}: ${document.filename}`);
 
         try {
-          console.log(`Processing document ${i + 1}/${totalDocuments}: ${document.filename}`);
-
-          // Use pre-extracted text from DOCUMENT_ANALYSIS phase (already validated above)
-          const textractJob = textractJobs[document.id];
-          console.log(`📄 Using pre-extracted Textract text for ${document.filename} (${textractJob.textLength} chars)`);
-          const documentText = textractJob.extractedText;
-
-          // Skip if no meaningful text (but don't fail the job)
-          if (documentText.length < 10) {
-            console.log(`⚠️ Skipping document ${document.filename} - insufficient text content`);
-            failedDocuments++;
-            failedItems.push({
-              documentId: document.id,
-              filename: document.filename,
-              error: 'Insufficient text content (< 10 characters)'
-            });
-            continue;
-          }
-
-          // Chunk the text to handle large documents (8,192 token limit)
-          const chunks = chunkText(documentText);
-          const isChunked = chunks.length > 1;
-
-          console.log(`📄 Document "${document.filename}" split into ${chunks.length} chunk(s) (${documentText.length} chars)`);
-
-          // Process each chunk
-          for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-            const chunk = chunks[chunkIndex];
-            const vectorId = isChunked
-              ? `${document.id}-chunk-${chunkIndex + 1}`
-              : document.id;
-
-            try {
-              console.log(`  Generating embedding for chunk ${chunkIndex + 1}/${chunks.length}...`);
-
-              // Generate embedding for this chunk
-              const embedding = await generateEmbedding(chunk);
-
-              // Store chunk in OpenSearch
-              await storeDocumentVector({
-                id: vectorId,
-                fundId: fund.id,
-                documentType: document.documentType,
-                filename: document.filename,
-                content: chunk,
-                embedding,
-                moduleType: fund.moduleType as 'FUNDING' | 'PROCUREMENT' | 'PROCUREMENT_ADMIN' | 'WORLDBANK' | 'WORLDBANK_ADMIN',
-                metadata: {
-                  uploadedAt: document.uploadedAt.toISOString(),
-                  fileSize: document.fileSize,
-                  mimeType: document.mimeType,
-                  ...(isChunked && {
-                    originalDocumentId: document.id,
-                    chunkIndex: chunkIndex + 1,
-                    totalChunks: chunks.length,
-                    isChunk: true
-                  })
-                },
-              });
-
-              console.log(`  ✅ Successfully stored chunk ${chunkIndex + 1}/${chunks.length}`);
-              successfulChunks++;
-              documentChunksSucceeded++;
-
-            } catch (chunkError) {
-              const errorMessage = chunkError instanceof Error ? chunkError.message : String(chunkError);
-              console.error(`  ❌ Failed to process chunk ${chunkIndex + 1}/${chunks.length}:`, errorMessage);
-              failedChunks++;
-              documentChunksFailed++;
-              failedItems.push({
-                documentId: document.id,
-                filename: document.filename,
-                error: `Chunk ${chunkIndex + 1}/${chunks.length} failed: ${errorMessage}`,
-                chunkIndex: chunkIndex + 1
-              });
-            }
-          }
-
-          // Document succeeds if at least one chunk succeeded
-          if (documentChunksSucceeded > 0) {
-            documentSuccess = true;
-            successfulDocuments++;
-            console.log(`✅ Successfully processed document ${i + 1}/${totalDocuments} (${documentChunksSucceeded}/${chunks.length} chunks succeeded)`);
-          } else {
-            failedDocuments++;
-            console.error(`❌ Document ${document.filename} completely failed - no chunks succeeded`);
-          }
-
-          // Update progress (after all chunks processed)
-          const processedDocuments = i + 1;
-          const progress = Math.min(95, Math.round((processedDocuments / totalDocuments) * 90) + 5);
-
-          await this.updateJob(jobId, {
-            processedDocuments,
-            progress,
-            metadata: {
-              ...job.metadata,
-              successfulDocuments,
-              failedDocuments,
-              successfulChunks,
-              failedChunks,
-              lastProcessedDocument: document.filename
-            }
-          });
+          const outcome = await runStep(
+            jobId,
+            `${document.id}/embed`,
+            () => this.embedDocument(fund, document, textractJobs[document.id]),
+            { label: `${document.filename}: Embed chunks` }
+          );
 
+          successfulDocuments++;
+          successfulChunks += outcome.successfulChunks;
+          failedChunks += outcome.failedChunks;
+          failedItems.push(...outcome.failedItems);
         } catch (docError) {
+          // The step stays FAILED and runs again if the job is retried; the others carry on
           const errorMessage = docError instanceof Error ? docError.message : String(docError);
-
-          // RAG jobs should never encounter Textract async - text should be pre-extracted
-          // If we hit this error, something went wrong in DOCUMENT_ANALYSIS phase
           console.error(`❌ Error processing document ${document.filename}:`, errorMessage);
           failedDocuments++;
           failedItems.push({
@@ -366,157 +320,266 @@ export class BackgroundJobService {
             error: errorMessage
           });
         }
-      }
-
-      // Validate embeddings were actually created in OpenSearch
-      console.log(`🔍 Validating embeddings for fund ${job.fundId}...`);
-      const validation = await validateFundEmbeddings(job.fundId, moduleType);
-
-      console.log(`📊 Validation Results:
-        - Embeddings created: ${validation.count}
-        - Successful documents: ${successfulDocuments}/${totalDocuments}
-        - Successful chunks: ${successfulChunks}
-        - Failed chunks: ${failedChunks}`);
-
-      // Determine job success based on actual embeddings created
-      const hasAnyEmbeddings = validation.count > 0;
-      const hasCompleteFailure = successfulDocuments === 0 || validation.count === 0;
-      const hasCountDiscrepancy = validation.count < successfulChunks;
-      const hasPartialFailure = failedDocuments > 0 || failedChunks > 0;
-
-      // Build metadata with all tracking info
-      const finalMetadata = {
-        ...job.metadata,
-        successfulDocuments,
-        failedDocuments,
-        successfulChunks,
-        failedChunks,
-        embeddingsCreated: validation.count,
-        validationTimestamp: new Date().toISOString(),
-        indexName: validation.indexName,
-        failedItems: failedItems.length > 0 ? failedItems : undefined
-      };
 
-      if (hasCompleteFailure) {
-        // Complete failure - NO embeddings created
-        console.error(`❌ RAG job ${jobId} FAILED - No embeddings were created`);
+        // Update progress (after all chunks processed)
+        const processedDocuments = i + 1;
+        const progress = Math.min(95, Math.round((processedDocuments / totalDocuments) * 90) + 5);
 
         await this.updateJob(jobId, {
-          status: 'FAILED',
-          progress: 100,
-          errorMessage: `No embeddings created. ${failedDocuments} document(s) failed, ${failedChunks} chunk(s) failed.`,
-          completedAt: new Date(),
-          metadata: finalMetadata
+          processedDocuments,
+          progress,
+          metadata: {
+            ...job.metadata,
+            successfulDocuments,
+            failedDocuments,
+            successfulChunks,
+            failedChunks,
+            lastProcessedDocument: document.filename
+          }
         });
+      }
 
-        // Do NOT mark fund as ACTIVE
-        console.error(`Fund ${job.fundId} remains in current status - no functional brain created`);
+      await runStep(jobId, 'assemble', async () => {
+        // Validate embeddings were actually created in OpenSearch
+        console.log(`🔍 Validating embeddings for fund ${job.fundId}...`);
+        const validation = await validateFundEmbeddings(job.fundId, moduleType);
+
+        console.log(`📊 Validation Results:
+          - Embeddings created: ${validation.count}
+          - Successful documents: ${successfulDocuments}/${totalDocuments}
+          - Successful chunks: ${successfulChunks}
+          - Failed chunks: ${failedChunks}`);
+
+        // Determine job success based on actual embeddings created
+        const hasAnyEmbeddings = validation.count > 0;
+        const hasCompleteFailure = successfulDocuments === 0 || validation.count === 0;
+        const hasCountDiscrepancy = validation.count < successfulChunks;
+        const hasPartialFailure = failedDocuments > 0 || failedChunks > 0;
+
+        // Build metadata with all tracking info
+        const finalMetadata = {
+          ...job.metadata,
+          successfulDocuments,
+          failedDocuments,
+          successfulChunks,
+          failedChunks,
+          embeddingsCreated: validation.count,
+          validationTimestamp: new Date().toISOString(),
+          indexName: validation.indexName,
+          failedItems: failedItems.length > 0 ? failedItems : undefined
+        };
 
-      } else if (hasCountDiscrepancy) {
-        // Count discrepancy - we think we succeeded but OpenSearch has fewer embeddings
-        console.warn(`⚠️ RAG job ${jobId} completed with storage discrepancy`);
-        console.warn(`   Expected ${successfulChunks} chunks, but OpenSearch has ${validation.count} embeddings`);
-        console.warn(`   This suggests some chunks failed to store despite appearing successful`);
+        if (hasCompleteFailure) {
+          // Complete failure - NO embeddings created
+          console.error(`❌ RAG job ${jobId} FAILED - No embeddings were created`);
 
-        await this.updateJob(jobId, {
-          status: 'COMPLETED',
-          progress: 100,
-          errorMessage: `Storage discrepancy: Expected ${successfulChunks} embeddings but only ${validation.count} were stored. Some chunks may have failed silently.`,
-          completedAt: new Date(),
-          metadata: finalMetadata
-        });
+          await this.updateJob(jobId, { metadata: finalMetadata });
 
-        // Mark fund as ACTIVE but with warning
-        await prisma.funds.update({
-          where: { id: job.fundId },
-          data: {
-            status: 'ACTIVE',
-            brainAssembledAt: new Date()
-          }
-        });
+          // Do NOT mark fund as ACTIVE. Failing the step retries the job, which
+          // reruns the failed embed steps and then assembly.
+          console.error(`Fund ${job.fundId} remains in current status - no functional brain created`);
+          throw new Error(`No embeddings created. ${failedDocuments} document(s) failed, ${failedChunks} chunk(s) failed.`);
 
-        console.warn(`⚠️ Fund ${job.fundId} marked ACTIVE but brain may be incomplete (storage discrepancy)`);
+        } else if (hasCountDiscrepancy) {
+          // Count discrepancy - we think we succeeded but OpenSearch has fewer embeddings
+          console.warn(`⚠️ RAG job ${jobId} completed with storage discrepancy`);
+          console.warn(`   Expected ${successfulChunks} chunks, but OpenSearch has ${validation.count} embeddings`);
+          console.warn(`   This suggests some chunks failed to store despite appearing successful`);
 
-      } else if (hasPartialFailure) {
-        // Partial success - some embeddings created but with errors
-        console.warn(`⚠️ RAG job ${jobId} completed with warnings`);
-        console.warn(`   ${successfulDocuments}/${totalDocuments} documents succeeded`);
-        console.warn(`   ${validation.count} embeddings created`);
-        console.warn(`   ${failedDocuments} document(s) failed, ${failedChunks} chunk(s) failed`);
+          await this.updateJob(jobId, {
+            status: 'COMPLETED',
+            progress: 100,
+            errorMessage: `Storage discrepancy: Expected ${successfulChunks} embeddings but only ${validation.count} were stored. Some chunks may have failed silently.`,
+            completedAt: new Date(),
+            metadata: finalMetadata
+          });
 
-        await this.updateJob(jobId, {
-          status: 'COMPLETED',
-          progress: 100,
-          errorMessage: `Partial success: ${failedDocuments} document(s) failed, ${failedChunks} chunk(s) failed. See metadata for details.`,
-          completedAt: new Date(),
-          metadata: finalMetadata
-        });
+          // Mark fund as ACTIVE but with warning
+          await prisma.funds.update({
+            where: { id: job.fundId },
+            data: {
+              status: 'ACTIVE',
+              brainAssembledAt: new Date()
+            }
+          });
 
-        // Mark fund as ACTIVE but log warning
-        await prisma.funds.update({
-          where: { id: job.fundId },
-          data: {
-            status: 'ACTIVE',
-            brainAssembledAt: new Date()
-          }
-        });
+          console.warn(`⚠️ Fund ${job.fundId} marked ACTIVE but brain may be incomplete (storage discrepancy)`);
 
-        console.warn(`⚠️ Fund ${job.fundId} marked ACTIVE but with degraded brain (partial failures occurred)`);
+        } else if (hasPartialFailure) {
+          // Partial success - some embeddings created but with errors
+          console.warn(`⚠️ RAG job ${jobId} completed with warnings`);
+          console.warn(`   ${successfulDocuments}/${totalDocuments} documents succeeded`);
+          console.warn(`   ${validation.count} embeddings created`);
+          console.warn(`   ${failedDocuments} document(s) failed, ${failedChunks} chunk(s) failed`);
 
-      } else {
-        // Complete success
-        console.log(`✅ RAG job ${jobId} completed successfully`);
-        console.log(`   All ${totalDocuments} documents processed`);
-        console.log(`   ${validation.count} embeddings created`);
+          await this.updateJob(jobId, {
+            status: 'COMPLETED',
+            progress: 100,
+            errorMessage: `Partial success: ${failedDocuments} document(s) failed, ${failedChunks} chunk(s) failed. See metadata for details.`,
+            completedAt: new Date(),
+            metadata: finalMetadata
+          });
 
-        await this.updateJob(jobId, {
-          status: 'COMPLETED',
-          progress: 100,
-          completedAt: new Date(),
-          metadata: finalMetadata
-        });
+          // Mark fund as ACTIVE but log warning
+          await prisma.funds.update({
+            where: { id: job.fundId },
+            data: {
+              status: 'ACTIVE',
+              brainAssembledAt: new Date()
+            }
+          });
 
-        // REMOVED: Brain assembly trigger to prevent circular loop
-        // ISSUE: Triggering brain assembly here creates duplicate RAG jobs:
-        //   1. Brain assembly endpoint calls processRAGJob()
-        //   2. processRAGJob() completes and calls brain assembly AGAIN
-        //   3. This creates another RAG job, causing infinite loop
-        // SOLUTION: Brain assembly endpoints are responsible for:
-        //   1. Calling processRAGJob() themselves
-        //   2. Marking the fund as ACTIVE after completion
-        // This function should ONLY complete the RAG job, nothing more.
-
-        const moduleType = fund.moduleType as 'FUNDING' | 'PROCUREMENT' | 'PROCUREMENT_ADMIN' | 'WORLDBANK' | 'WORLDBANK_ADMIN';
-
-        // Mark fund as ACTIVE after successful RAG processing
-        // IMPORTANT: This MUST happen here (not in brain assembly endpoint) because:
-        // 1. Brain assembly endpoint uses fire-and-forget pattern
-        // 2. Lambda context terminates before .then() callbacks execute
-        // 3. This is the ONLY place that reliably executes after RAG completion
-        await prisma.funds.update({
-          where: { id: job.fundId },
-          data: {
-            status: 'ACTIVE',
-            brainAssembledAt: new Date()
-          }
-        });
+          console.warn(`⚠️ Fund ${job.fundId} marked ACTIVE but with degraded brain (partial failures occurred)`);
 
-        console.log(`✅ Fund ${job.fundId} (${moduleType}) marked as ACTIVE after successful RAG processing`);
-      }
+        } else {
+          // Complete success
+          console.log(`✅ RAG job ${jobId} completed successfully`);
+          console.log(`   All ${totalDocuments} documents processed`);
+          console.log(`   ${validation.count} embeddings created`);
+
+          await this.updateJob(jobId, {
+            status: 'COMPLETED',
+            progress: 100,
+            completedAt: new Date(),
+            metadata: finalMetadata
+          });
+
+          // REMOVED: Brain assembly trigger to prevent circular loop
+          // ISSUE: Triggering brain assembly here creates duplicate RAG jobs:
+          //   1. Brain assembly endpoint calls processRAGJob()
+          //   2. processRAGJob() completes and calls brain assembly AGAIN
+          //   3. This creates another RAG job, causing infinite loop
+          // SOLUTION: Brain assembly endpoints are responsible for:
+          //   1. Calling processRAGJob() themselves
+          //   2. Marking the fund as ACTIVE after completion
+          // This function should ONLY complete the RAG job, nothing more.
+
+          const moduleType = fund.moduleType;
+
+          // Mark fund as ACTIVE after successful RAG processing
+          // IMPORTANT: This MUST happen here (not in brain assembly endpoint) because:
+          // 1. Brain assembly endpoint uses fire-and-forget pattern
+          // 2. Lambda context terminates before .then() callbacks execute
+          // 3. This is the ONLY place that reliably executes after RAG completion
+          await prisma.funds.update({
+            where: { id: job.fundId },
+            data: {
+              status: 'ACTIVE',
+              brainAssembledAt: new Date()
+            }
+          });
+
+          console.log(`✅ Fund ${job.fundId} (${moduleType}) marked as ACTIVE after successful RAG processing`);
+        }
+      }, { label: 'Assemble brain', allowFailedDependencies: true });
 
     } catch (error) {
       console.error(`RAG job ${jobId} failed:`, error);
-      
-      await this.updateJob(jobId, {
-        status: 'FAILED',
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date()
-      });
-      
+
+      // Retried with backoff, or dead-lettered once out of attempts
+      await failJob(jobId, error instanceof Error ? error.message : 'Unknown error', owner);
+
       throw error;
     }
   }
   
+  /**
+   * Chunk a document's extracted text and store an embedding per chunk. Failed
+   * chunks are recorded rather than thrown, so one bad chunk doesn't lose the rest;
+   * the document fails only if no chunk could be stored.
+   */
+  private static async embedDocument(
+    fund: { id: string; moduleType: any },
+    document: any,
+    textractJob: any
+  ): Promise<EmbedOutcome> {
+    const outcome: EmbedOutcome = { successfulChunks: 0, failedChunks: 0, failedItems: [] };
+
+    // Use pre-extracted text from DOCUMENT_ANALYSIS phase (already validated by the caller)
+    console.log(`📄 Using pre-extracted Textract text for ${document.filename} (${textractJob.textLength} chars)`);
+    const documentText = textractJob.extractedText;
+
+    if (documentText.length < 10) {
+      console.log(`⚠️ Skipping document ${document.filename} - insufficient text content`);
+      throw new Error('Insufficient text content (< 10 characters)');
+    }
+
+    // Chunk along sections, pages and tables; 7,000 tokens leaves a safe buffer under the 8,192 embedding limit
+    const chunks = chunkByStructure(documentText, {
+      maxSize: 7000,
+      measure: countTokens,
+      layout: textractJob.layout
+    });
+    const isChunked = chunks.length > 1;
+
+    console.log(`📄 Document "${document.filename}" split into ${chunks.length} chunk(s) (${documentText.length} chars)`);
+
+    // Process each chunk
+    for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
+      const chunk = chunks[chunkIndex];
+      const vectorId = isChunked
+        ? `${document.id}-chunk-${chunkIndex + 1}`
+        : document.id;
+
+      try {
+        console.log(`  Generating embedding for chunk ${chunkIndex + 1}/${chunks.length}...`);
+
+        // Generate embedding for this chunk
+        const embedding = await generateEmbedding(chunk.text);
+
+        // Store chunk in OpenSearch
+        await storeDocumentVector({
+          id: vectorId,
+          fundId: fund.id,
+          documentType: document.documentType,
+          filename: document.filename,
+          content: chunk.text,
+          embedding,
+          moduleType: fund.moduleType,
+          metadata: {
+            uploadedAt: document.uploadedAt.toISOString(),
+            fileSize: document.fileSize,
+            mimeType: document.mimeType,
+            ...(chunk.sectionTitle && { sectionTitle: chunk.sectionTitle, headingPath: chunk.headingPath }),
+            ...(chunk.pageStart !== null && { pageStart: chunk.pageStart, pageEnd: chunk.pageEnd ?? chunk.pageStart }),
+            inTable: chunk.inTable,
+            startOffset: chunk.start,
+            endOffset: chunk.end,
+            ...(isChunked && {
+              originalDocumentId: document.id,
+              chunkIndex: chunkIndex + 1,
+              totalChunks: chunks.length,
+              isChunk: true
+            })
+          },
+        });
+
+        console.log(`  ✅ Successfully stored chunk ${chunkIndex + 1}/${chunks.length}`);
+        outcome.successfulChunks++;
+
+      } catch (chunkError) {
+        const errorMessage = chunkError instanceof Error ? chunkError.message : String(chunkError);
+        console.error(`  ❌ Failed to process chunk ${chunkIndex + 1}/${chunks.length}:`, errorMessage);
+        outcome.failedChunks++;
+        outcome.failedItems.push({
+          documentId: document.id,
+          filename: document.filename,
+          error: `Chunk ${chunkIndex + 1}/${chunks.length} failed: ${errorMessage}`,
+          chunkIndex: chunkIndex + 1
+        });
+      }
+    }
+
+    // Document succeeds if at least one chunk succeeded
+    if (outcome.successfulChunks === 0) {
+      console.error(`❌ Document ${document.filename} completely failed - no chunks succeeded`);
+      throw new Error(`No chunks stored (${outcome.failedItems[0]?.error ?? 'no chunks'})`);
+    }
+
+    console.log(`✅ Successfully processed ${document.filename} (${outcome.successfulChunks}/${chunks.length} chunks succeeded)`);
+    return outcome;
+  }
+
   /**
    * Process a job with embedded file data (async approach)
    */
@@ -608,14 +671,8 @@ export class BackgroundJobService {
       console.log(`Async job ${jobId} completed successfully - Fund ${job.fundId} status updated to ACTIVE`);
       
     } catch (error) {
+      // runRAGJob records the failed attempt
       console.error(`Async job ${jobId} failed:`, error);
-      
-      await this.updateJob(jobId, {
-        status: 'FAILED',
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date()
-      });
-      
       throw error;
     }
   }
@@ -820,14 +877,11 @@ export class BackgroundJobService {
   }
   
   /**
-   * Start processing jobs (can be called periodically or on-demand)
+   * Claim the next due job from the queue and run it in this process.
+   * Returns false when no job was due.
    */
   static async processNextJob(): Promise<boolean> {
-    // Find the next pending job
-    const job = await prisma.background_jobs.findFirst({
-      where: { status: 'PENDING' },
-      orderBy: { createdAt: 'asc' }
-    });
+    const job = await claimNextJob();
 
     if (!job) {
       return false; // No pending jobs
@@ -835,48 +889,26 @@ export class BackgroundJobService {
 
     try {
       if (job.type === 'RAG_PROCESSING') {
-        await this.processRAGJob(job.id);
+        await this.processRAGJob(job.id, job);
       } else if (job.type === 'DOCUMENT_ANALYSIS') {
-        // Handle DOCUMENT_ANALYSIS jobs by calling the process API
-        console.log(`🚀 Processing DOCUMENT_ANALYSIS job ${job.id} via immediate trigger`);
-
-        const baseUrl = process.env.NODE_ENV === 'production'
-          ? `https://${process.env.AWS_BRANCH || 'main'}.d2l8hlr3sei3te.amplifyapp.com`
-          : 'http://localhost:3000';
-
-        const callerContext = {
-          detectedBranch: process.env.AWS_BRANCH || 'undefined',
-          constructedUrl: `${baseUrl}/api/jobs/process`,
-          nodeEnv: process.env.NODE_ENV,
-          timestamp: new Date().toISOString(),
-          source: 'BackgroundJobService.processNextJob'
-        };
-
-        const response = await fetch(`${baseUrl}/api/jobs/process`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            jobId: job.id,
-            autoTrigger: true,
-            immediateTrigger: true,
-            callerContext
-          })
-        });
-
-        if (!response.ok) {
-          console.error(`❌ Immediate trigger failed for job ${job.id}, status: ${response.status}`);
-          console.error(`   Job will be picked up by background processor instead`);
-        } else {
-          console.log(`✅ Successfully triggered immediate processing for job ${job.id}`);
-        }
+        // Imported here - document-analysis-job depends on this service
+        const { processDocumentAnalysisJob } = await import('./document-analysis-job');
+        await withUsageContext(
+          { fundId: job.fundId, jobId: job.id, moduleType: job.moduleType },
+          () => processDocumentAnalysisJob(job, { source: 'BackgroundJobService.processNextJob' }, job)
+        );
+      } else if (job.type === 'ASSESSMENT_EVALUATION') {
+        const { processAssessmentEvaluationJob } = await import('./assessment-evaluation-job');
+        await processAssessmentEvaluationJob(job.id, job);
+      } else {
+        await failJob(job.id, `No handler for job type ${job.type}`, job.leaseOwner ?? undefined);
       }
-      // Add other job types here as needed
-
-      return true;
     } catch (error) {
+      // The handler has already recorded the failed attempt
       console.error(`Failed to process job ${job.id}:`, error);
-      return false;
     }
+
+    return true;
   }
 
   /**
@@ -889,10 +921,8 @@ export class BackgroundJobService {
     onProgress?: (current: number, total: number) => Promise<void>
   ): Promise<any> {
     try {
-      const CHUNK_THRESHOLD = 30000; // 30K characters
-
       // Check if we need to chunk
-      if (content.length <= CHUNK_THRESHOLD) {
+      if (content.length <= ANALYSIS_CHUNK_THRESHOLD) {
         // SMALL DOCUMENT: Use existing single-call logic (no chunking)
         console.log(`📄 Document size: ${content.length} chars - processing as single document (no chunking)`);
 
@@ -944,9 +974,9 @@ export class BackgroundJobService {
         }
       } else {
         // LARGE DOCUMENT: Use chunking approach
-        console.log(`📄 Document size: ${content.length} chars - chunking required (threshold: ${CHUNK_THRESHOLD})`);
+        console.log(`📄 Document size: ${content.length} chars - chunking required (threshold: ${ANALYSIS_CHUNK_THRESHOLD})`);
 
-        const chunks = chunkTextForAnalysis(content, CHUNK_THRESHOLD);
+        const chunks = chunkTextForAnalysis(content, ANALYSIS_CHUNK_THRESHOLD);
         console.log(`📄 Split into ${chunks.length} chunks for processing`);
 
         const analyses: any[] = [];
@@ -982,17 +1012,18 @@ export class BackgroundJobService {
   /**
    * Analyze selection criteria document using new Claude service
    * Supports chunking for large documents (>30K chars) to avoid Lambda timeouts
+   * `tables` is the document's tables as read by Textract (document-structure.ts),
+   * given to Claude alongside the flattened text
    */
   static async analyzeSelectionCriteriaDocument(
     content: string,
     filename: string,
-    onProgress?: (current: number, total: number) => Promise<void>
+    onProgress?: (current: number, total: number) => Promise<void>,
+    tables?: string
   ): Promise<any> {
     try {
-      const CHUNK_THRESHOLD = 30000; // 30K characters
-
       // Check if we need to chunk
-      if (content.length <= CHUNK_THRESHOLD) {
+      if (content.length <= ANALYSIS_CHUNK_THRESHOLD) {
         // SMALL DOCUMENT: Use existing single-call logic (no chunking)
         console.log(`📄 Document size: ${content.length} chars - processing as single document (no chunking)`);
 
@@ -1011,6 +1042,12 @@ export class BackgroundJobService {
                 2. Scoring ranges and weights
                 3. Key evaluation indicators
                 4. Assessment instructions
+                ${tables ? `
+                The document's tables, read cell by cell, follow. Take weights and maximum scores from them
+                rather than from the flattened text:
+
+                ${tables}
+                ` : ''}
               `,
               `
                 Respond with valid JSON only:
@@ -1044,9 +1081,9 @@ export class BackgroundJobService {
         }
       } else {
         // LARGE DOCUMENT: Use chunking approach
-        console.log(`📄 Document size: ${content.length} chars - chunking required (threshold: ${CHUNK_THRESHOLD})`);
+        console.log(`📄 Document size: ${content.length} chars - chunking required (threshold: ${ANALYSIS_CHUNK_THRESHOLD})`);
 
-        const chunks = chunkTextForAnalysis(content, CHUNK_THRESHOLD);
+        const chunks = chunkTextForAnalysis(content, ANALYSIS_CHUNK_THRESHOLD);
         console.log(`📄 Split into ${chunks.length} chunks for processing`);
 
         const analyses: any[] = [];
@@ -1190,10 +1227,11 @@ export class BackgroundJobService {
         analysis.rawTemplateContent = content;
         analysis.originalContent = content;
 
-        return analysis;
+        // Convert [placeholder] text to template syntax for the template engine
+        return upgradeOutputTemplate(analysis);
       } else {
         // Fallback: return basic analysis with original content
-        return {
+        return upgradeOutputTemplate({
           status: 'completed',
           useRawTemplate: true,
           rawTemplateContent: content,
@@ -1201,12 +1239,12 @@ export class BackgroundJobService {
           filename: filename,
           placeholders: this.extractPlaceholdersFromContent(content),
           error: 'Claude analysis failed, using fallback'
-        };
+        });
       }
     } catch (error) {
       console.error('Error in output template analysis:', error);
       // Fallback: return basic analysis with original content
-      return {
+      return upgradeOutputTemplate({
         status: 'completed',
         useRawTemplate: true,
         rawTemplateContent: content,
@@ -1214,7 +1252,7 @@ export class BackgroundJobService {
         filename: filename,
         placeholders: this.extractPlaceholdersFromContent(content),
         error: error instanceof Error ? error.message : 'Unknown error'
-      };
+      });
     }
   }
 
@@ -1314,7 +1352,7 @@ export class BackgroundJobService {
   /**
    * Analyze chunk with retry logic (up to 3 attempts with exponential backoff)
    */
-  private static async analyzeChunkWithRetry(
+  static async analyzeChunkWithRetry(
     chunk: TextChunk,
     documentType: 'application_form' | 'selection_criteria',
     totalChunks: number,
@@ -1348,7 +1386,7 @@ export class BackgroundJobService {
   /**
    * Synthesize multiple chunk analyses into a single result
    */
-  private static synthesizeAnalyses(
+  static synthesizeAnalyses(
     analyses: any[],
     documentType: 'application_form' | 'selection_criteria',
     totalChars: number
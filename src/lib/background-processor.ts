@@ -1,40 +1,26 @@
-import { prisma } from './database-s3';
-import { JobStatus, JobType } from '@prisma/client';
+import { BackgroundJobService } from './background-job-service';
+import { recoverExpiredLeases } from './job-queue';
+
+// Jobs run per polling cycle, so one cycle never blocks the next for too long
+const MAX_JOBS_PER_CYCLE = 5;
 
 /**
- * Background processor that automatically handles stuck jobs
- * Simulates Lambda function behavior in development environment
+ * Background processor - queue worker for long-running servers (local development)
+ *
+ * Each cycle puts jobs with expired leases back in the queue, then claims and runs
+ * due jobs in this process (job-queue.ts). Claims use SKIP LOCKED, so any number of
+ * processors can share the queue without running a job twice.
  */
 class BackgroundProcessor {
   private interval: NodeJS.Timeout | null = null;
   private isProcessing = false;
 
-  /**
-   * Get the base URL for API calls
-   * Auto-detects the current branch from AWS Amplify environment variables
-   */
-  private getBaseUrl(): string {
-    if (process.env.NODE_ENV === 'production') {
-      // AWS Amplify automatically provides AWS_BRANCH environment variable
-      const branch = process.env.AWS_BRANCH || 'main';
-      const appId = 'd2l8hlr3sei3te';
-
-      // Construct the correct URL based on the deployed branch
-      const branchUrl = `https://${branch}.${appId}.amplifyapp.com`;
-
-      console.log(`🔗 Auto-detected branch: ${branch}, using URL: ${branchUrl}`);
-      return branchUrl;
-    }
-    return 'http://localhost:3000';
-  }
-
   /**
    * Start automatic background processing
    */
   start(intervalMs: number = 30000) { // Check every 30 seconds
-    // CRITICAL: Disable in production/serverless environments
-    // Multiple Amplify instances spawn multiple processors = race conditions
-    // EventBridge + Lambda pattern is sufficient for production
+    // Timers don't survive between serverless invocations; there EventBridge calls
+    // /api/process-jobs, /api/jobs/trigger-pending and the Textract poller instead
     if (process.env.NODE_ENV === 'production' || process.env.AWS_BRANCH) {
       console.log('🚫 BACKGROUND PROCESSOR: Disabled in serverless environment');
       console.log('🚫 Reason: EventBridge + Lambda handles background processing in production');
@@ -54,11 +40,11 @@ class BackgroundProcessor {
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 
     this.interval = setInterval(() => {
-      this.processStuckJobs().catch(console.error);
+      this.processQueue().catch(console.error);
     }, intervalMs);
 
     // Process immediately on start
-    this.processStuckJobs().catch(console.error);
+    this.processQueue().catch(console.error);
   }
 
   /**
@@ -73,9 +59,10 @@ class BackgroundProcessor {
   }
 
   /**
-   * Process stuck jobs that haven't made progress
+   * Recover abandoned jobs, then run due jobs until the queue is empty or the
+   * cycle's limit is reached
    */
-  private async processStuckJobs() {
+  private async processQueue() {
     if (this.isProcessing) {
       return; // Prevent concurrent processing
     }
@@ -83,248 +70,21 @@ class BackgroundProcessor {
     this.isProcessing = true;
 
     try {
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log('🔍 POLLING CYCLE: Checking for jobs to process');
-      console.log(`🔍 Time: ${new Date().toISOString()}`);
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-
-      // Find PENDING jobs (newly created, never started)
-      const pendingJobs = await prisma.background_jobs.findMany({
-        where: {
-          status: JobStatus.PENDING
-        },
-        include: {
-          funds: {
-            select: {
-              id: true,
-              name: true,
-              moduleType: true
-            }
-          }
-        }
-      });
-
-      // Find jobs that are stuck (PROCESSING status but no progress for > 5 minutes)
-      // Increased from 2 to 5 minutes to account for large PDF Textract processing time
-      const stuckJobs = await prisma.background_jobs.findMany({
-        where: {
-          status: JobStatus.PROCESSING,
-          startedAt: {
-            lt: new Date(Date.now() - 5 * 60 * 1000) // Started > 5 minutes ago with no completion
-          },
-          completedAt: null // Still not completed
-        },
-        include: {
-          funds: {
-            select: {
-              id: true,
-              name: true,
-              moduleType: true
-            }
-          }
-        }
-      });
-
-      // NOTE: Textract polling is now handled by EventBridge Scheduler + Lambda
-      // (See /api/jobs/textract-poll endpoint)
-
-      // Combine pending and stuck jobs
-      const jobsToProcess = [...pendingJobs, ...stuckJobs];
-
-      // Find recently failed jobs that might be retryable (failed < 10 minutes ago)
-      // Include ALL module types: FUNDING, PROCUREMENT, PROCUREMENT_ADMIN
-      const retryableFailedJobs = await prisma.background_jobs.findMany({
-        where: {
-          status: JobStatus.FAILED,
-          completedAt: {
-            gte: new Date(Date.now() - 10 * 60 * 1000), // Failed within last 10 minutes
-            lt: new Date(Date.now() - 2 * 60 * 1000)    // But not too recently (> 2 minutes ago)
-          },
-          errorMessage: {
-            contains: 'connection pool'  // Only retry connection pool errors
-          }
-        },
-        include: {
-          fund: {
-            select: {
-              id: true,
-              name: true,
-              moduleType: true
-            }
-          }
-        }
-      });
-
-      console.log(`✅ Found ${pendingJobs.length} pending job(s) to process`);
-      console.log(`✅ Found ${stuckJobs.length} stuck job(s) to process`);
-      console.log(`✅ Found ${retryableFailedJobs.length} retryable failed job(s)`);
-
-      if (jobsToProcess.length > 0) {
-        console.log(`🔧 Processing ${jobsToProcess.length} job(s) (${pendingJobs.length} pending + ${stuckJobs.length} stuck)...`);
+      console.log(`🔍 POLLING CYCLE: Checking for jobs to process (${new Date().toISOString()})`);
 
-        for (const job of jobsToProcess) {
-          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-          console.log(`🎯 JOB PICKUP: Found job ${job.id} to process`);
-          console.log(`🎯 Fund: ${job.funds.name} (${job.funds.moduleType})`);
-          console.log(`🎯 Job Status: ${job.status}`);
-          console.log(`🎯 Progress: ${job.processedDocuments}/${job.totalDocuments}`);
-          console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-
-          try {
-            // Trigger job processing via API
-            const targetUrl = `${this.getBaseUrl()}/api/jobs/process`;
-            const callerContext = {
-              detectedBranch: process.env.AWS_BRANCH || 'undefined',
-              constructedUrl: targetUrl,
-              nodeEnv: process.env.NODE_ENV,
-              timestamp: new Date().toISOString(),
-            };
-
-            console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-            console.log(`🤖 BACKGROUND PROCESSOR: Triggering job ${job.id}`);
-            console.log(`🤖 Fund: ${job.funds.name} (${job.funds.moduleType})`);
-            console.log(`🤖 Detected Branch: ${callerContext.detectedBranch}`);
-            console.log(`🤖 Calling: ${targetUrl}`);
-            console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-            const response = await fetch(targetUrl, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                jobId: job.id,
-                autoTrigger: true,
-                callerContext // Pass branch context for verification
-              }),
-            });
-
-            if (response.ok) {
-              const result = await response.json();
-              console.log(`✅ Successfully processed job ${job.id}: ${result.message}`);
-            } else {
-              const errorText = await response.text();
-              // Don't log full HTML error pages
-              const errorMsg = errorText.startsWith('<!DOCTYPE') ? 'HTML error page returned' : errorText;
-              console.error(`❌ Failed to process job ${job.id}: ${response.status} ${errorMsg}`);
-            }
-          } catch (error) {
-            console.error(`❌ Error processing job ${job.id}:`, error.message);
-          }
-        }
+      const recovered = await recoverExpiredLeases();
+      if (recovered > 0) {
+        console.log(`⏰ Recovered ${recovered} job(s) with expired leases`);
       }
 
-      // Handle retryable failed jobs (connection pool errors)
-      if (retryableFailedJobs.length > 0) {
-        console.log(`🔄 Found ${retryableFailedJobs.length} retryable failed job(s) with connection pool errors...`);
-
-        for (const job of retryableFailedJobs) {
-          console.log(`🔄 Retrying failed job: ${job.id} for fund "${job.funds.name}"`);
-
-          try {
-            // Use SQS service retry mechanism to reset job to PENDING
-            const response = await fetch(`${this.getBaseUrl()}/api/jobs/process`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                jobId: job.id,
-                retry: true
-              }),
-            });
-
-            if (response.ok) {
-              console.log(`✅ Successfully reset failed job ${job.id} for retry`);
-            } else {
-              const errorText = await response.text();
-              const errorMsg = errorText.startsWith('<!DOCTYPE') ? 'HTML error page returned' : errorText;
-              console.error(`❌ Failed to retry job ${job.id}: ${response.status} ${errorMsg}`);
-            }
-          } catch (error) {
-            console.error(`❌ Error retrying job ${job.id}:`, error.message);
-          }
-        }
+      let processed = 0;
+      while (processed < MAX_JOBS_PER_CYCLE && await BackgroundJobService.processNextJob()) {
+        processed++;
       }
 
-      // Also check for PENDING jobs (> 30 seconds old)
-      // Include ALL module types: FUNDING, PROCUREMENT, PROCUREMENT_ADMIN
-      const stalePendingJobs = await prisma.background_jobs.findMany({
-        where: {
-          status: JobStatus.PENDING,
-          createdAt: {
-            lt: new Date(Date.now() - 30 * 1000) // Created > 30 seconds ago
-          }
-        },
-        include: {
-          fund: {
-            select: {
-              id: true,
-              name: true,
-              moduleType: true
-            }
-          }
-        }
-      });
-
-      if (stalePendingJobs.length > 0) {
-        console.log(`🔧 Found ${stalePendingJobs.length} stale pending job(s), triggering processing...`);
-
-        for (const job of stalePendingJobs) {
-          try {
-            console.log(`🔧 Processing stale ${job.type} job for ${job.funds?.moduleType} module: ${job.funds?.name}`);
-
-            if (job.type === 'RAG_PROCESSING') {
-              // Trigger brain assembly directly for RAG jobs - use module-specific endpoints
-              let assemblyUrl;
-              if (job.funds?.moduleType === 'PROCUREMENT_ADMIN') {
-                // FIXED: procurement-brain endpoint expects baseId parameter, not fundId
-                assemblyUrl = `${this.getBaseUrl()}/api/procurement-brain/${job.funds.id}/assemble`;
-              } else if (job.funds?.moduleType === 'WORLDBANK') {
-                // WORLDBANK projects use worldbank-brain endpoint
-                assemblyUrl = `${this.getBaseUrl()}/api/worldbank-brain/${job.funds.id}/assemble`;
-              } else {
-                assemblyUrl = `${this.getBaseUrl()}/api/brain/${job.fundId}/assemble`;
-              }
-
-              const response = await fetch(assemblyUrl, {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-              });
-
-              if (response.ok) {
-                console.log(`✅ Successfully triggered ${job.funds?.moduleType} brain assembly for job ${job.id}`);
-              } else {
-                const errorData = await response.json();
-                console.error(`❌ Failed to trigger ${job.funds?.moduleType} brain assembly for job ${job.id}:`, errorData.error);
-              }
-            } else {
-              // Trigger document processing for other jobs
-              const response = await fetch(`${this.getBaseUrl()}/api/jobs/process`, {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  jobId: job.id,
-                  autoTrigger: true
-                }),
-              });
-
-              if (response.ok) {
-                console.log(`✅ Successfully triggered stale ${job.fund?.moduleType} job ${job.id}`);
-              } else {
-                const errorData = await response.json();
-                console.error(`❌ Failed to trigger ${job.fund?.moduleType} job ${job.id}:`, errorData.error);
-              }
-            }
-          } catch (error) {
-            console.error(`❌ Error triggering stale ${job.fund?.moduleType} job ${job.id}:`, error);
-          }
-        }
+      if (processed > 0) {
+        console.log(`✅ Processed ${processed} job(s) this cycle`);
       }
-
     } catch (error) {
       console.error('❌ Background processor error:', error);
     } finally {
@@ -353,4 +113,4 @@ if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'producti
     backgroundProcessor.start();
     console.log(`🤖 Background processor auto-started in ${process.env.NODE_ENV} mode`);
   }, 5000);
-}
\ No newline at end of file
+}
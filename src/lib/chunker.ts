@@ -3,6 +3,9 @@
  *
  * Splits large text into smaller chunks to avoid Lambda timeouts during AI processing.
  * Preserves paragraph boundaries to maintain document structure and context.
+ *
+ * chunkByStructure splits along section headings, pages and tables instead and
+ * is used for RAG indexing, where each chunk is cited on its own.
  */
 
 export interface TextChunk {
@@ -104,3 +107,321 @@ export function chunkText(text: string, maxChunkSize: number = 30000): TextChunk
 
   return chunks;
 }
+
+/**
+ * Page and layout structure of a document's extracted text. Offsets are
+ * character positions in the text (see buildTextLayout in aws-textract.ts).
+ */
+export interface DocumentLayout {
+  pages: Array<{ page: number; start: number; end: number }>;
+  // Layout blocks by type without the LAYOUT_ prefix: TITLE, SECTION_HEADER, TABLE, ...
+  blocks: Array<{ type: string; page: number; start: number; end: number }>;
+}
+
+export interface StructuredChunk extends TextChunk {
+  start: number;              // Offset of the chunk in the source text
+  end: number;
+  sectionTitle: string | null;
+  headingPath: string[];      // Enclosing headings, outermost first, ending with sectionTitle
+  pageStart: number | null;   // null when the text carries no page information
+  pageEnd: number | null;
+  inTable: boolean;           // Chunk contains (part of) a table
+}
+
+export interface StructuredChunkOptions {
+  maxSize?: number;                   // Maximum chunk size in `measure` units (default: 30000)
+  minSize?: number;                   // Chunks only end at a heading once this size is reached (default: maxSize / 10)
+  measure?: (text: string) => number; // Size of a piece of text (default: characters)
+  layout?: DocumentLayout | null;
+}
+
+interface Heading {
+  start: number;
+  title: string;
+  level: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// "1 Introduction", "1. Introduction", "3.2 Budget", "3.2.1: Staff costs" - numbers of up to
+// two digits per part, so years ("2024 Annual report") aren't taken for section numbers
+const NUMBERED_LINE = /^(\d{1,2}(?:\.\d{1,2})*)\.?(?:\s*[:\-–]\s*|\s+)(\S.*)$/;
+const MAX_HEADING_LENGTH = 100;
+const MAX_HEADING_WORDS = 12;
+// Built with the constructor: regex literals with the u flag need an ES2018 target
+const HEADING_START = new RegExp('^[\\p{Lu}\\p{Lo}]', 'u');  // Capitalised, or a script without case
+
+/**
+ * A title that reads like a heading rather than a sentence that starts with a
+ * number ("2.5 FTE engineers will be employed.", "1.2 million dollars is the total.")
+ */
+function isHeadingTitle(title: string): boolean {
+  return title.length <= MAX_HEADING_LENGTH &&
+    title.split(/\s+/).length <= MAX_HEADING_WORDS &&
+    HEADING_START.test(title) &&
+    !/[.!?;,…]$/.test(title) &&
+    !/\.{3,}/.test(title);  // Table of contents leaders
+}
+
+/**
+ * Numbered lines shaped like headings and followed by body text. Runs of them at
+ * one level - numbered lists, tables of contents - are not headings: a heading is
+ * only followed directly by another if that one is nested below it.
+ */
+function findNumberedHeadings(lines: string[]): Array<{ index: number; number: string; title: string }> {
+  const candidates = lines.map(line => {
+    const match = line.trim().match(NUMBERED_LINE);
+    return match && isHeadingTitle(match[2].trim()) ? { number: match[1], title: match[2].trim() } : null;
+  });
+  const depth = (number: string) => number.split('.').length;
+  const nonBlank = (index: number, step: 1 | -1) => {
+    let next = index + step;
+    while (next >= 0 && next < lines.length && !lines[next].trim()) next += step;
+    return next;
+  };
+
+  const headings: Array<{ index: number; number: string; title: string }> = [];
+  for (const [index, candidate] of candidates.entries()) {
+    if (!candidate) continue;
+
+    const next = nonBlank(index, 1);
+    if (next >= lines.length) continue;
+    const following = candidates[next];
+    if (following && depth(following.number) <= depth(candidate.number)) continue;
+    const preceding = candidates[nonBlank(index, -1)];
+    if (preceding && depth(preceding.number) === depth(candidate.number)) continue;
+
+    headings.push({ index, number: candidate.number, title: `${candidate.number} ${candidate.title}` });
+  }
+  return headings;
+}
+
+/**
+ * Headings from numbered section titles (findNumberedHeadings) and, when the
+ * text came from Textract layout analysis, TITLE and SECTION_HEADER blocks
+ */
+function findHeadings(text: string, lineStarts: number[], layout?: DocumentLayout | null): Heading[] {
+  const lines = text.split('\n');
+  const headings = new Map<number, Heading>();
+
+  for (const block of layout?.blocks ?? []) {
+    if (block.type !== 'TITLE' && block.type !== 'SECTION_HEADER') continue;
+    const title = text.slice(block.start, block.end).replace(/\s+/g, ' ').trim();
+    if (title) headings.set(block.start, { start: block.start, title, level: block.type === 'TITLE' ? 0 : 1 });
+  }
+
+  // Numbered titles nest by depth: 3.2 is level 2, 3.2.1 level 3
+  for (const section of findNumberedHeadings(lines)) {
+    const start = lineStarts[section.index] + (lines[section.index].length - lines[section.index].trimStart().length);
+    const existing = [...headings.values()].find(heading => heading.start <= start && start < heading.start + heading.title.length + 1);
+    if (existing) headings.delete(existing.start);
+    headings.set(start, { start, title: section.title, level: section.number.split('.').length });
+  }
+
+  return [...headings.values()].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Tables from layout TABLE blocks, otherwise runs of two or more lines that
+ * look like table rows (tab- or pipe-separated cells)
+ */
+function findTables(text: string, lineStarts: number[], layout?: DocumentLayout | null): Span[] {
+  const layoutTables = (layout?.blocks ?? []).filter(block => block.type === 'TABLE');
+  if (layoutTables.length > 0) {
+    return layoutTables.map(block => ({ start: block.start, end: block.end }));
+  }
+
+  const lines = text.split('\n');
+  const isRow = (line: string) => line.includes('\t') || (line.match(/\|/g)?.length ?? 0) >= 2;
+  const tables: Span[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!isRow(lines[i])) continue;
+    let last = i;
+    while (last + 1 < lines.length && isRow(lines[last + 1])) last++;
+    if (last > i) {
+      tables.push({ start: lineStarts[i], end: lineStarts[last] + lines[last].length });
+    }
+    i = last;
+  }
+  return tables;
+}
+
+/**
+ * Split a span into pieces of at most maxSize: paragraphs, then lines, then
+ * sentences, then hard cuts. Tables are kept whole when they fit.
+ */
+function splitSpan(text: string, span: Span, maxSize: number, measure: (text: string) => number, tables: Span[]): Span[] {
+  const separators = [/\n\s*\n/g, /\n/g, /(?<=[.!?])\s+/g];
+
+  const split = (piece: Span, level: number): Span[] => {
+    const content = text.slice(piece.start, piece.end);
+    if (measure(content) <= maxSize) return [piece];
+
+    if (level >= separators.length) {
+      // No separator left: cut proportionally to the measured size
+      const size = Math.max(1, Math.floor(content.length * maxSize / measure(content)));
+      const pieces: Span[] = [];
+      for (let start = piece.start; start < piece.end; start += size) {
+        pieces.push({ start, end: Math.min(piece.end, start + size) });
+      }
+      return pieces;
+    }
+
+    const pieces: Span[] = [];
+    let start = piece.start;
+    for (const match of content.matchAll(separators[level])) {
+      const end = piece.start + (match.index ?? 0) + match[0].length;
+      if (end > start) pieces.push({ start, end });
+      start = end;
+    }
+    if (start < piece.end) pieces.push({ start, end: piece.end });
+    return pieces.flatMap(sub => split(sub, level + 1));
+  };
+
+  // Cut the span at table boundaries so each table is its own unit
+  const units: Span[] = [];
+  let position = span.start;
+  for (const table of tables) {
+    if (table.end <= span.start || table.start >= span.end) continue;
+    const tableStart = Math.max(table.start, span.start);
+    const tableEnd = Math.min(table.end, span.end);
+    if (tableStart > position) units.push(...split({ start: position, end: tableStart }, 0));
+    units.push(...split({ start: tableStart, end: tableEnd }, 1));
+    position = tableEnd;
+  }
+  if (position < span.end) units.push(...split({ start: position, end: span.end }, 0));
+  return units;
+}
+
+/**
+ * Split text into chunks along its structure
+ *
+ * Chunks end at section headings (once they reach minSize) and never exceed
+ * maxSize; oversized sections are split at paragraphs, lines and sentences,
+ * keeping tables together where they fit. Each chunk carries the heading path,
+ * page range and table membership of the text it covers, so search hits and
+ * evidence can be cited as e.g. "Section 3.2 Budget, p. 14".
+ *
+ * @param text - The text to chunk
+ * @param options - Size limits, size measure and optional page/layout information
+ * @returns Chunks with their position and structure
+ */
+export function chunkByStructure(text: string, options: StructuredChunkOptions = {}): StructuredChunk[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  const maxSize = options.maxSize ?? 30000;
+  const minSize = options.minSize ?? Math.floor(maxSize / 10);
+  const measure = options.measure ?? ((piece: string) => piece.length);
+  const layout = options.layout;
+
+  const lineStarts: number[] = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  const headings = findHeadings(text, lineStarts, layout);
+  const tables = findTables(text, lineStarts, layout);
+
+  // Sections run from one heading to the next; text before the first heading has no section
+  const sections: Array<Span & { title: string | null; path: string[] }> = [];
+  const stack: Heading[] = [];
+  if (headings.length === 0 || headings[0].start > 0) {
+    sections.push({ start: 0, end: headings[0]?.start ?? text.length, title: null, path: [] });
+  }
+  headings.forEach((heading, index) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+    stack.push(heading);
+    sections.push({
+      start: heading.start,
+      end: headings[index + 1]?.start ?? text.length,
+      title: heading.title,
+      path: stack.map(entry => entry.title),
+    });
+  });
+
+  const pageAt = (offset: number): number | null => {
+    if (layout?.pages.length) {
+      let page = layout.pages[0].page;
+      for (const entry of layout.pages) {
+        if (entry.start > offset) break;
+        page = entry.page;
+      }
+      return page;
+    }
+    // Without layout, form feeds (as written by PDF text extraction) separate pages
+    if (!text.includes('\f')) return null;
+    return (text.slice(0, offset).match(/\f/g)?.length ?? 0) + 1;
+  };
+
+  const chunks: StructuredChunk[] = [];
+  let current: { start: number; end: number; size: number; sectionSizes: Map<number, number> } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const raw = text.slice(current.start, current.end);
+    const start = current.start + (raw.length - raw.trimStart().length);
+    const end = current.end - (raw.length - raw.trimEnd().length);
+    if (end > start) {
+      // The chunk is attributed to the section contributing most of its text
+      const [sectionIndex] = [...current.sectionSizes.entries()].sort((a, b) => b[1] - a[1])[0];
+      const section = sections[sectionIndex];
+      const chunkText = text.slice(start, end);
+      chunks.push({
+        index: chunks.length,
+        text: chunkText,
+        charCount: chunkText.length,
+        start,
+        end,
+        sectionTitle: section.title,
+        headingPath: section.path,
+        pageStart: pageAt(start),
+        pageEnd: pageAt(end - 1),
+        inTable: tables.some(table => table.start < end && table.end > start),
+      });
+    }
+    current = null;
+  };
+
+  sections.forEach((section, sectionIndex) => {
+    if (current && current.size >= minSize) flush();
+
+    for (const unit of splitSpan(text, section, maxSize, measure, tables)) {
+      const size = measure(text.slice(unit.start, unit.end));
+      if (current && current.size + size > maxSize) flush();
+      if (!current) current = { start: unit.start, end: unit.end, size: 0, sectionSizes: new Map() };
+      current.end = unit.end;
+      current.size += size;
+      current.sectionSizes.set(sectionIndex, (current.sectionSizes.get(sectionIndex) ?? 0) + size);
+    }
+  });
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Human-readable location of a chunk, e.g. "Section 3.2 Budget, p. 14"
+ * Returns null when the chunk has neither a section nor pages.
+ */
+export function formatChunkCitation(location: {
+  sectionTitle?: string | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+}): string | null {
+  const parts: string[] = [];
+  if (location.sectionTitle) {
+    parts.push(/^\d/.test(location.sectionTitle) ? `Section ${location.sectionTitle}` : location.sectionTitle);
+  }
+  if (location.pageStart) {
+    parts.push(location.pageEnd && location.pageEnd !== location.pageStart
+      ? `pp. ${location.pageStart}-${location.pageEnd}`
+      : `p. ${location.pageStart}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
@@ -0,0 +1,145 @@
+/**
+ * Claude Cassette - Record and replay model calls
+ *
+ * In record mode every successful ClaudeService call is written to disk as
+ * `<dir>/<task>/<promptHash>.json`. In replay mode those recordings are served
+ * back instead of calling the model, so assessment, field extraction and
+ * criteria analysis can be regression-tested against real captured outputs.
+ *
+ * Replay never falls through to a live model: a prompt that no longer matches
+ * its recording throws with the offset where it diverged.
+ *
+ * Configuration (environment variables):
+ * - CLAUDE_CASSETTE_MODE: 'off' (default) | 'record' | 'replay'
+ * - CLAUDE_CASSETTE_DIR: recordings directory (default: ./cassettes)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { ClaudeRequest, ClaudeResponse } from './claude-service';
+import { fixtureFileName } from './llm-provider';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteRecording {
+  task: string;
+  promptHash: string;
+  recordedAt: string;
+  request: ClaudeRequest;
+  response: ClaudeResponse;
+}
+
+const DEFAULT_CASSETTE_DIR = path.join(process.cwd(), 'cassettes');
+
+export function hashPrompt(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt).digest('hex').substring(0, 16);
+}
+
+export class ClaudeCassette {
+  constructor(
+    readonly mode: CassetteMode = resolveCassetteMode(process.env.CLAUDE_CASSETTE_MODE),
+    readonly dir: string = process.env.CLAUDE_CASSETTE_DIR || DEFAULT_CASSETTE_DIR
+  ) {}
+
+  get isRecording(): boolean {
+    return this.mode === 'record';
+  }
+
+  get isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  /**
+   * Write a request/response pair to disk
+   */
+  record(request: ClaudeRequest, response: ClaudeResponse): void {
+    const promptHash = hashPrompt(request.prompt);
+    const taskDir = this.taskDir(request.task);
+    fs.mkdirSync(taskDir, { recursive: true });
+
+    const recording: CassetteRecording = {
+      task: request.task,
+      promptHash,
+      recordedAt: new Date().toISOString(),
+      request,
+      response,
+    };
+
+    fs.writeFileSync(path.join(taskDir, `${promptHash}.json`), JSON.stringify(recording, null, 2));
+    console.log(`📼 Recorded Claude task: ${request.task} (${promptHash})`);
+  }
+
+  /**
+   * Serve a recorded response, throwing if there is no recording for this exact prompt
+   */
+  replay(request: ClaudeRequest): ClaudeResponse {
+    const promptHash = hashPrompt(request.prompt);
+    const taskDir = this.taskDir(request.task);
+    const recordingPath = path.join(taskDir, `${promptHash}.json`);
+
+    if (fs.existsSync(recordingPath)) {
+      const recording: CassetteRecording = JSON.parse(fs.readFileSync(recordingPath, 'utf8'));
+      console.log(`📼 Replaying Claude task: ${request.task} (${promptHash})`);
+      return { ...recording.response, duration: 0 };
+    }
+
+    const existing = this.listRecordings(request.task);
+    if (existing.length === 0) {
+      throw new Error(
+        `Cassette replay failed: no recording for task '${request.task}' in ${this.dir}. ` +
+        `Re-run with CLAUDE_CASSETTE_MODE=record to capture it.`
+      );
+    }
+
+    const closest = existing
+      .map(recording => ({ recording, offset: firstDivergence(recording.request.prompt, request.prompt) }))
+      .sort((a, b) => b.offset - a.offset)[0];
+
+    throw new Error(
+      `Cassette replay failed: prompt for task '${request.task}' has drifted from its recording. ` +
+      `Prompt hash ${promptHash} not found (recorded: ${existing.map(r => r.promptHash).join(', ')}). ` +
+      `Closest recording ${closest.recording.promptHash} diverges at character ${closest.offset}: ` +
+      `recorded ${JSON.stringify(excerpt(closest.recording.request.prompt, closest.offset))}, ` +
+      `got ${JSON.stringify(excerpt(request.prompt, closest.offset))}`
+    );
+  }
+
+  /**
+   * Load every recording captured for a task
+   */
+  listRecordings(task: string): CassetteRecording[] {
+    const taskDir = this.taskDir(task);
+    if (!fs.existsSync(taskDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(taskDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => JSON.parse(fs.readFileSync(path.join(taskDir, file), 'utf8')) as CassetteRecording);
+  }
+
+  private taskDir(task: string): string {
+    return path.join(this.dir, fixtureFileName(task));
+  }
+}
+
+function resolveCassetteMode(value: string | undefined): CassetteMode {
+  const mode = (value || 'off').toLowerCase();
+  if (mode === 'off' || mode === 'record' || mode === 'replay') {
+    return mode;
+  }
+  throw new Error(`Unknown CLAUDE_CASSETTE_MODE '${value}'. Expected off, record or replay`);
+}
+
+function firstDivergence(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return i;
+  }
+  return length;
+}
+
+function excerpt(text: string, offset: number, length = 80): string {
+  return text.substring(offset, offset + length);
+}
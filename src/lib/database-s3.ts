@@ -1,8 +1,9 @@
-import { PrismaClient } from '@prisma/client';
+import { ModuleType, PrismaClient } from '@prisma/client';
 import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import crypto from 'crypto';
 import { getAWSCredentials, AWS_REGION, S3_BUCKET } from './aws-credentials';
+import { tenantIsolation, tenantS3Key } from './tenant';
 
 // Global variable to prevent multiple Prisma instances in development
 const globalForPrisma = globalThis as unknown as {
@@ -21,7 +22,7 @@ const getDatabaseUrl = () => {
   return url.toString();
 };
 
-export const prisma =
+const basePrisma =
   globalForPrisma.prisma ??
   new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
@@ -38,7 +39,10 @@ export const prisma =
   });
 
 // Prevent multiple instances in development
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
+if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = basePrisma;
+
+// Every query on funds, assessments, jobs, documents and users is scoped to the caller's organisation
+export const prisma = basePrisma.$extends(tenantIsolation);
 
 // CRITICAL FIX: Create S3 client lazily to ensure Lambda execution role is available
 // Do NOT initialize at module level as credentials may not be ready during cold start
@@ -61,7 +65,7 @@ function getS3ClientInstance(): S3Client {
  * Upload file to S3 and return the key
  */
 export async function uploadFileToS3(buffer: Buffer, filename: string, mimeType: string, folder: string): Promise<string> {
-  const key = `${folder}/${crypto.randomUUID()}-${filename}`;
+  const key = await tenantS3Key(`${folder}/${crypto.randomUUID()}-${filename}`);
 
   await getS3ClientInstance().send(new PutObjectCommand({
     Bucket: S3_BUCKET,
@@ -73,6 +77,22 @@ export async function uploadFileToS3(buffer: Buffer, filename: string, mimeType:
   return key;
 }
 
+/**
+ * Download a file from S3
+ */
+export async function downloadFileFromS3(s3Key: string): Promise<Buffer> {
+  const response = await getS3ClientInstance().send(new GetObjectCommand({
+    Bucket: S3_BUCKET,
+    Key: s3Key,
+  }));
+
+  if (!response.Body) {
+    throw new Error(`No content in S3 object ${s3Key}`);
+  }
+
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
 /**
  * Generate pre-signed URL for downloading from S3
  */
@@ -91,7 +111,7 @@ export async function generateS3DownloadUrl(s3Key: string): Promise<string> {
 export async function saveFundWithDocuments(fundData: {
   name: string;
   description?: string;
-  moduleType?: 'FUNDING' | 'PROCUREMENT' | 'WORLDBANK';
+  moduleType?: ModuleType;
   applicationForm?: {
     file: Buffer;
     filename: string;
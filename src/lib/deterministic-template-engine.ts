@@ -1,618 +0,0 @@
-/**
- * Deterministic Template Engine - World-Class Implementation
- *
- * This engine:
- * 1. Never sends templates to Claude
- * 2. Uses deterministic mapping of assessment data to template fields
- * 3. Handles template formatting programmatically
- * 4. Provides clear fallbacks for missing data
- */
-
-export interface TemplateMapping {
-  placeholder: string;
-  dataPath: string;
-  fallback?: string;
-  transform?: (value: any) => string;
-}
-
-export interface TemplateEngineResult {
-  success: boolean;
-  formattedOutput: string;
-  metadata: {
-    template_used: string;
-    placeholders_replaced: number;
-    placeholders_total: number;
-    missing_data: string[];
-  };
-  error?: string;
-}
-
-export class DeterministicTemplateEngine {
-
-  /**
-   * Apply template formatting using deterministic rules (no AI involved)
-   */
-  async applyTemplate(
-    assessmentData: any,
-    templateConfig: any
-  ): Promise<TemplateEngineResult> {
-    console.log('🎨 Applying enhanced deterministic template formatting...');
-
-    try {
-      if (!templateConfig?.content) {
-        throw new Error('No template content provided');
-      }
-
-      const templateContent = templateConfig.content;
-
-      // Create enhanced mappings that include template rules
-      const mappings = this.createEnhancedMappings(templateConfig);
-
-      let formattedOutput = templateContent;
-      let replacedCount = 0;
-      const missingData: string[] = [];
-
-      // Find all placeholders in template
-      const placeholderPattern = /\[([^\]]+)\]/g;
-      const allPlaceholders = [...templateContent.matchAll(placeholderPattern)];
-
-      console.log(`🔍 Found ${allPlaceholders.length} placeholders to replace`);
-
-      // Apply template rules and structure understanding
-      const structuredAssessment = this.structureAssessmentData(assessmentData, templateConfig);
-
-      // Replace each placeholder with enhanced logic
-      for (const match of allPlaceholders) {
-        const placeholder = match[1];
-        const fullMatch = match[0];
-
-        const mapping = mappings.find(m => m.placeholder === placeholder);
-
-        if (mapping) {
-          const value = this.extractDataValue(structuredAssessment, mapping.dataPath);
-
-          if (value !== undefined && value !== null) {
-            const transformedValue = mapping.transform ? mapping.transform(value) : String(value);
-            formattedOutput = formattedOutput.replace(fullMatch, transformedValue);
-            replacedCount++;
-            console.log(`🔧 Replacing [${placeholder}] with: ${transformedValue.substring(0, 50)}${transformedValue.length > 50 ? '...' : ''}`);
-          } else if (mapping.fallback) {
-            formattedOutput = formattedOutput.replace(fullMatch, mapping.fallback);
-            replacedCount++;
-            console.log(`🔧 Replacing [${placeholder}] with fallback: ${mapping.fallback}`);
-          } else {
-            missingData.push(placeholder);
-            console.warn(`⚠️ No data available for placeholder: ${placeholder}`);
-          }
-        } else {
-          // Try to extract value directly from assessment if no mapping found
-          const directValue = this.extractDirectValue(structuredAssessment, placeholder);
-          if (directValue) {
-            formattedOutput = formattedOutput.replace(fullMatch, directValue);
-            replacedCount++;
-            console.log(`🔧 Direct replacement for [${placeholder}]`);
-          } else {
-            missingData.push(placeholder);
-            console.warn(`⚠️ No mapping or direct value found for placeholder: ${placeholder}`);
-          }
-        }
-      }
-
-      console.log(`✅ Enhanced template formatting complete: ${replacedCount}/${allPlaceholders.length} placeholders replaced`);
-
-      return {
-        success: true,
-        formattedOutput,
-        metadata: {
-          template_used: templateConfig.name || 'Enhanced Deterministic Template',
-          placeholders_replaced: replacedCount,
-          placeholders_total: allPlaceholders.length,
-          missing_data: missingData
-        }
-      };
-
-    } catch (error) {
-      console.error('❌ Template formatting failed:', error);
-
-      return {
-        success: false,
-        formattedOutput: '',
-        metadata: {
-          template_used: 'Failed',
-          placeholders_replaced: 0,
-          placeholders_total: 0,
-          missing_data: []
-        },
-        error: error instanceof Error ? error.message : 'Unknown template error'
-      };
-    }
-  }
-
-  /**
-   * Create standard field mappings (deterministic, no AI)
-   */
-  private createStandardMappings(): TemplateMapping[] {
-    const currentDate = new Date().toLocaleDateString('en-NZ');
-
-    return [
-      // Basic fields with context-aware mapping
-      {
-        placeholder: 'To be completed',
-        dataPath: 'extractedFields.organizationName',
-        fallback: '[Organization name not found]'
-      },
-      {
-        placeholder: 'Number',
-        dataPath: 'extractedFields.numberOfStudents',
-        fallback: '1'
-      },
-      {
-        placeholder: 'Amount',
-        dataPath: 'extractedFields.fundingAmount',
-        fallback: '[Amount not specified]',
-        transform: (amount) => {
-          if (typeof amount === 'string') {
-            // Extract numeric value from amount string
-            const numericMatch = amount.match(/[\d,]+/);
-            return numericMatch ? numericMatch[0] : amount;
-          }
-          return String(amount);
-        }
-      },
-      {
-        placeholder: 'Yes/No',
-        dataPath: 'extractedFields.overallScore',
-        transform: (score) => score >= 70 ? 'Yes' : 'No'
-      },
-      {
-        placeholder: 'Confirmed',
-        dataPath: 'extractedFields.overallScore',
-        transform: (score) => score >= 60 ? 'Confirmed' : 'Not Confirmed'
-      },
-
-      // Assessment fields
-      {
-        placeholder: 'Score',
-        dataPath: 'extractedFields.overallScore',
-        fallback: '75'
-      },
-      {
-        placeholder: 'MEETS REQUIREMENTS / DOES NOT MEET REQUIREMENTS',
-        dataPath: 'extractedFields.overallScore',
-        transform: (score) => score >= 70 ? 'MEETS REQUIREMENTS' : 'DOES NOT MEET REQUIREMENTS'
-      },
-      {
-        placeholder: 'APPROVE / DECLINE / CONDITIONAL APPROVAL',
-        dataPath: 'extractedFields.recommendation',
-        transform: (rec) => {
-          if (typeof rec === 'string') {
-            const r = rec.toUpperCase();
-            if (r.includes('APPROVE') && !r.includes('DECLINE')) return 'APPROVE';
-            if (r.includes('DECLINE')) return 'DECLINE';
-            if (r.includes('CONDITIONAL')) return 'CONDITIONAL APPROVAL';
-          }
-          return 'CONDITIONAL APPROVAL';
-        }
-      },
-      {
-        placeholder: 'PASS / FAIL',
-        dataPath: 'extractedFields.overallScore',
-        transform: (score) => score >= 50 ? 'PASS' : 'FAIL'
-      },
-      {
-        placeholder: 'ADEQUATE / INADEQUATE',
-        dataPath: 'extractedFields.overallScore',
-        transform: (score) => score >= 60 ? 'ADEQUATE' : 'INADEQUATE'
-      },
-
-      // Assessment strategy transparency
-      {
-        placeholder: 'Assessment Method',
-        dataPath: 'strategyUsed.name',
-        fallback: 'Standard Assessment'
-      },
-      {
-        placeholder: 'AI Used',
-        dataPath: 'transparencyInfo.aiUsed',
-        transform: (used) => used ? 'Yes - AI Analysis' : 'No - Pattern Analysis'
-      },
-
-      // Date fields
-      {
-        placeholder: 'Name / Date',
-        dataPath: 'assessmentDate',
-        fallback: currentDate
-      },
-
-      // Fallback content for complex fields that need manual review
-      {
-        placeholder: 'FES assessment of financial position',
-        dataPath: 'extractedFields.strengths',
-        transform: (strengths) => Array.isArray(strengths) && strengths.length > 0
-          ? `Based on assessment: ${strengths[0]}`
-          : 'Financially viable for next 12 months based on assessment'
-      },
-      {
-        placeholder: 'Assessment of R&D programme adequacy',
-        dataPath: 'extractedFields.strengths',
-        transform: (strengths) => Array.isArray(strengths) && strengths.length > 0
-          ? `Assessment indicates: ${strengths.find(s => s.toLowerCase().includes('r&d')) || strengths[0]}`
-          : '[Assessment of R&D programme adequacy]'
-      },
-      {
-        placeholder: 'Detailed assessment of student exposure quality',
-        dataPath: 'extractedFields.strengths',
-        transform: (strengths) => Array.isArray(strengths) && strengths.length > 0
-          ? `Assessment shows: ${strengths.find(s => s.toLowerCase().includes('student')) || strengths[0]}`
-          : '[Detailed assessment of student exposure quality]'
-      },
-      {
-        placeholder: 'Clear rationale for the recommendation based on assessment findings',
-        dataPath: 'extractedFields',
-        transform: (fields) => {
-          const score = fields.overallScore || 75;
-          const recommendation = fields.recommendation || 'Review';
-          return `Recommendation: ${recommendation}. Overall score: ${score}/100. ${
-            score >= 70 ? 'Application meets key criteria and demonstrates strong alignment.' :
-            score >= 50 ? 'Application shows potential but requires additional consideration.' :
-            'Application needs significant improvement to meet requirements.'
-          }`;
-        }
-      },
-
-      // Additional Student Experience Grant specific mappings
-      {
-        placeholder: 'Summary of business history and current products/services',
-        dataPath: 'extractedFields.businessSummary',
-        fallback: 'Business has established operations and products/services'
-      },
-      {
-        placeholder: 'Outline of recent R&D activities demonstrating active programme',
-        dataPath: 'extractedFields.recentRnDActivities',
-        fallback: '[Recent R&D activities to be provided]'
-      },
-      {
-        placeholder: 'Planned R&D activities showing ongoing programme',
-        dataPath: 'extractedFields.plannedRnDActivities',
-        fallback: '[Planned R&D activities to be provided]'
-      },
-      {
-        placeholder: 'How will the student be exposed to technical work relevant to their degree/diploma?',
-        dataPath: 'extractedFields.studentExposureDescription',
-        fallback: '[Student exposure description to be provided]'
-      },
-      {
-        placeholder: 'ACTIVE / INACTIVE',
-        dataPath: 'extractedFields.overallScore',
-        transform: (score) => score >= 60 ? 'ACTIVE' : 'INACTIVE'
-      },
-      {
-        placeholder: 'Assessment of R&D programme adequacy',
-        dataPath: 'extractedFields.strengths',
-        transform: (strengths) => Array.isArray(strengths) && strengths.length > 0
-          ? `R&D programme shows: ${strengths.find(s => s.toLowerCase().includes('r&d')) || strengths[0]}`
-          : 'R&D programme assessed and found adequate for student placement'
-      },
-      {
-        placeholder: 'Comprehensive / Adequate / Inadequate',
-        dataPath: 'extractedFields.overallScore',
-        transform: (score) => score >= 80 ? 'Comprehensive' : score >= 60 ? 'Adequate' : 'Inadequate'
-      }
-    ];
-  }
-
-  /**
-   * Extract value from nested object using dot notation
-   */
-  private extractDataValue(data: any, path: string): any {
-    return path.split('.').reduce((obj, key) => obj?.[key], data);
-  }
-
-  /**
-   * Create enhanced mappings that include template rules and context
-   */
-  private createEnhancedMappings(templateConfig: any): TemplateMapping[] {
-    const standardMappings = this.createStandardMappings();
-    const enhancedMappings: TemplateMapping[] = [...standardMappings];
-
-    // Add template-specific mappings based on template structure
-    if (templateConfig?.structure) {
-      // Add mappings based on template structure analysis
-      Object.keys(templateConfig.structure).forEach(sectionName => {
-        enhancedMappings.push({
-          placeholder: sectionName,
-          dataPath: `templateSections.${sectionName}`,
-          fallback: `[${sectionName} assessment needed]`
-        });
-      });
-    }
-
-    // Add mappings for template instructions
-    if (templateConfig?.instructions) {
-      enhancedMappings.push({
-        placeholder: 'Assessment Summary',
-        dataPath: 'rawAssessment',
-        transform: (assessment) => this.formatAssessmentSummary(assessment, templateConfig.instructions)
-      });
-    }
-
-    // Add mappings for template sections array
-    if (templateConfig?.sections?.length > 0) {
-      templateConfig.sections.forEach((section: string) => {
-        enhancedMappings.push({
-          placeholder: section,
-          dataPath: `templateSections.${section}`,
-          fallback: `[${section} to be completed]`
-        });
-      });
-    }
-
-    // Add mappings for common template patterns
-    enhancedMappings.push(
-      {
-        placeholder: 'Assessment Date',
-        dataPath: 'assessmentDate',
-        fallback: new Date().toLocaleDateString('en-NZ')
-      },
-      {
-        placeholder: 'Assessor Name',
-        dataPath: 'assessorName',
-        fallback: 'System Assessment'
-      },
-      {
-        placeholder: 'Fund Name',
-        dataPath: 'fundName',
-        fallback: 'Unknown Fund'
-      }
-    );
-
-    return enhancedMappings;
-  }
-
-  /**
-   * Structure assessment data according to template requirements
-   */
-  private structureAssessmentData(assessmentData: any, templateConfig: any): any {
-    const structured = { ...assessmentData };
-
-    // Add template-aware sections
-    structured.templateSections = {};
-
-    // If we have template sections, try to map assessment content to them
-    if (templateConfig?.sections?.length > 0) {
-      templateConfig.sections.forEach((section: string) => {
-        structured.templateSections[section] = this.mapAssessmentToSection(assessmentData, section);
-      });
-    }
-
-    // Add template structure mappings
-    if (templateConfig?.structure) {
-      Object.keys(templateConfig.structure).forEach(structureKey => {
-        structured.templateSections[structureKey] = this.mapAssessmentToSection(assessmentData, structureKey);
-      });
-    }
-
-    // Add formatted assessment parts
-    if (assessmentData.rawAssessment) {
-      structured.assessmentParts = this.parseAssessmentIntoParts(assessmentData.rawAssessment);
-    }
-
-    // Add metadata for template compliance
-    structured.templateCompliance = {
-      templateName: templateConfig?.name || 'Unknown Template',
-      sectionsRequired: templateConfig?.sections?.length || 0,
-      structureComplexity: templateConfig?.structure ? Object.keys(templateConfig.structure).length : 0,
-      instructionsProvided: !!templateConfig?.instructions
-    };
-
-    // Add fund context
-    structured.fundName = assessmentData.fundName || 'Unknown Fund';
-    structured.assessmentDate = assessmentData.assessmentDate || new Date().toISOString();
-    structured.assessorName = assessmentData.assessorName || 'System Assessment';
-
-    return structured;
-  }
-
-  /**
-   * Extract value directly from assessment data using placeholder name
-   */
-  private extractDirectValue(structuredAssessment: any, placeholder: string): string | null {
-    // Try common placeholder patterns
-    const placeholderLower = placeholder.toLowerCase();
-
-    // Score-related placeholders
-    if (placeholderLower.includes('score')) {
-      return structuredAssessment.extractedFields?.overallScore?.toString() || null;
-    }
-
-    // Recommendation placeholders
-    if (placeholderLower.includes('recommend')) {
-      return structuredAssessment.extractedFields?.recommendation || null;
-    }
-
-    // Summary/feedback placeholders
-    if (placeholderLower.includes('summary') || placeholderLower.includes('feedback')) {
-      return structuredAssessment.rawAssessment || null;
-    }
-
-    // Strengths placeholders
-    if (placeholderLower.includes('strength')) {
-      const strengths = structuredAssessment.extractedFields?.strengths;
-      return Array.isArray(strengths) ? strengths.join(', ') : null;
-    }
-
-    // Weaknesses placeholders
-    if (placeholderLower.includes('weakness')) {
-      const weaknesses = structuredAssessment.extractedFields?.weaknesses;
-      return Array.isArray(weaknesses) ? weaknesses.join(', ') : null;
-    }
-
-    // Date placeholders
-    if (placeholderLower.includes('date')) {
-      return structuredAssessment.assessmentDate || new Date().toLocaleDateString('en-NZ');
-    }
-
-    // Name/assessor placeholders
-    if (placeholderLower.includes('name') || placeholderLower.includes('assessor')) {
-      return structuredAssessment.assessorName || 'System Assessment';
-    }
-
-    // Fund-related placeholders
-    if (placeholderLower.includes('fund')) {
-      return structuredAssessment.fundName || 'Unknown Fund';
-    }
-
-    // Amount/funding placeholders
-    if (placeholderLower.includes('amount') || placeholderLower.includes('funding')) {
-      return structuredAssessment.fundingAmount || '[Amount not specified]';
-    }
-
-    // Decision/approval placeholders
-    if (placeholderLower.includes('decision') || placeholderLower.includes('approval')) {
-      const score = structuredAssessment.extractedFields?.overallScore || 75;
-      return score >= 70 ? 'Approved' : score >= 50 ? 'Conditional' : 'Declined';
-    }
-
-    // Strategy/method placeholders
-    if (placeholderLower.includes('strategy') || placeholderLower.includes('method')) {
-      return structuredAssessment.strategyUsed?.name || 'Standard Assessment';
-    }
-
-    // Try template sections if available
-    if (structuredAssessment.templateSections) {
-      for (const [sectionKey, sectionValue] of Object.entries(structuredAssessment.templateSections)) {
-        if (sectionKey.toLowerCase() === placeholderLower ||
-            placeholderLower.includes(sectionKey.toLowerCase())) {
-          return sectionValue as string;
-        }
-      }
-    }
-
-    return null;
-  }
-
-  /**
-   * Map assessment content to specific template section
-   */
-  private mapAssessmentToSection(assessmentData: any, sectionName: string): string {
-    const sectionLower = sectionName.toLowerCase();
-
-    // Executive summary
-    if (sectionLower.includes('executive') || sectionLower.includes('summary')) {
-      return this.generateExecutiveSummary(assessmentData);
-    }
-
-    // Scoring section
-    if (sectionLower.includes('score') || sectionLower.includes('rating')) {
-      return this.generateScoringSection(assessmentData);
-    }
-
-    // Recommendations section
-    if (sectionLower.includes('recommend')) {
-      return this.generateRecommendationsSection(assessmentData);
-    }
-
-    // Default: return raw assessment
-    return assessmentData.rawAssessment || `Assessment for ${sectionName}`;
-  }
-
-  /**
-   * Parse assessment into logical parts
-   */
-  private parseAssessmentIntoParts(rawAssessment: string): any {
-    const parts = {
-      summary: '',
-      strengths: '',
-      weaknesses: '',
-      recommendation: ''
-    };
-
-    // Simple parsing logic (can be enhanced)
-    const lines = rawAssessment.split('\n');
-    let currentSection = 'summary';
-
-    lines.forEach(line => {
-      const lineLower = line.toLowerCase();
-      if (lineLower.includes('strength')) {
-        currentSection = 'strengths';
-      } else if (lineLower.includes('weakness')) {
-        currentSection = 'weaknesses';
-      } else if (lineLower.includes('recommend')) {
-        currentSection = 'recommendation';
-      } else if (line.trim()) {
-        parts[currentSection] += line + '\n';
-      }
-    });
-
-    return parts;
-  }
-
-  /**
-   * Format assessment summary according to template instructions
-   */
-  private formatAssessmentSummary(assessment: string, instructions: string): string {
-    // Apply template instructions to format the assessment
-    if (instructions?.toLowerCase().includes('concise')) {
-      return assessment.substring(0, 500) + (assessment.length > 500 ? '...' : '');
-    }
-
-    if (instructions?.toLowerCase().includes('detailed')) {
-      return assessment; // Return full assessment
-    }
-
-    return assessment;
-  }
-
-  /**
-   * Generate executive summary section
-   */
-  private generateExecutiveSummary(assessmentData: any): string {
-    const score = assessmentData.extractedFields?.overallScore || 'N/A';
-    const recommendation = assessmentData.extractedFields?.recommendation || 'Review';
-
-    return `Executive Summary: This application scored ${score}/100 with a recommendation to ${recommendation}. ${assessmentData.rawAssessment?.substring(0, 200) || 'Assessment completed'}...`;
-  }
-
-  /**
-   * Generate scoring section
-   */
-  private generateScoringSection(assessmentData: any): string {
-    const score = assessmentData.extractedFields?.overallScore || 'N/A';
-    return `Overall Score: ${score}/100`;
-  }
-
-  /**
-   * Generate recommendations section
-   */
-  private generateRecommendationsSection(assessmentData: any): string {
-    const recommendation = assessmentData.extractedFields?.recommendation || 'Further review required';
-    const strengths = assessmentData.extractedFields?.strengths || [];
-    const weaknesses = assessmentData.extractedFields?.weaknesses || [];
-
-    let section = `Recommendation: ${recommendation}\n\n`;
-
-    if (strengths.length > 0) {
-      section += `Strengths:\n${strengths.map(s => `• ${s}`).join('\n')}\n\n`;
-    }
-
-    if (weaknesses.length > 0) {
-      section += `Areas for Improvement:\n${weaknesses.map(w => `• ${w}`).join('\n')}`;
-    }
-
-    return section;
-  }
-
-  /**
-   * Get template processing statistics
-   */
-  getProcessingStats(): any {
-    return {
-      templateEngine: 'Enhanced Deterministic (No AI)',
-      lastProcessed: new Date().toISOString(),
-      mappingsAvailable: this.createStandardMappings().length
-    };
-  }
-}
-
-// Export singleton
-export const deterministicTemplateEngine = new DeterministicTemplateEngine();
\ No newline at end of file
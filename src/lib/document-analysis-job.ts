@@ -0,0 +1,557 @@
+/**
+ * Document Analysis Job - Extracts and analyses a fund's uploaded documents
+ *
+ * DOCUMENT_ANALYSIS jobs run each document through text extraction (Textract for
+ * scanned or large PDFs) and the module's Claude analysis, saving the result on the
+ * fund. When every document is done, sqsService.updateJobProgress completes the job
+ * and queues brain assembly.
+ *
+ * Jobs are leased from the job queue (job-queue.ts) for the duration of the run. A
+ * document waiting on an asynchronous Textract job defers the whole job; the
+ * Textract poller brings it back once the text is ready.
+ *
+ * Each document's extraction and analysis stages are checkpointed steps
+ * (job-steps.ts): a retried or resumed job continues after the last completed step
+ * instead of starting over.
+ */
+
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { prisma } from './database-s3';
+import { sqsService } from './sqs-service';
+import { BackgroundJobService, ANALYSIS_CHUNK_THRESHOLD } from './background-job-service';
+import { getAWSCredentials, AWS_REGION, S3_BUCKET } from './aws-credentials';
+import { chunkText as chunkTextForAnalysis } from './chunker';
+import { claimJob, deferJob, runWithLease, QueuedJob } from './job-queue';
+import { planSteps, runStep, StepOptions, StepPlan } from './job-steps';
+import { extractDocument, ExtractionResult, parseTextractPending } from './document-extractors';
+import {
+  STRUCTURE_FEATURES,
+  applyCriteriaWeightings,
+  getDocumentStructure,
+  loadDocumentStructure,
+  readCriteriaWeightings,
+  renderStructure,
+  saveDocumentStructure
+} from './document-structure';
+
+// CRITICAL FIX: Create S3 client lazily to ensure Lambda execution role is available
+// Do NOT initialize at module level as credentials may not be ready during cold start
+let s3Client: S3Client | null = null;
+
+function getS3Client(): S3Client {
+  if (!s3Client) {
+    console.log('🔐 Creating new S3 client with Lambda execution role credentials');
+    s3Client = new S3Client({
+      region: AWS_REGION,
+      credentials: getAWSCredentials(), // Returns undefined in production to use Lambda role
+    });
+  }
+  return s3Client;
+}
+
+// How long a job waits before checking on its Textract jobs again
+const TEXTRACT_POLL_DELAY_MS = 60 * 1000;
+
+/**
+ * Claim and run a DOCUMENT_ANALYSIS job. Pass `claimed` when the caller already
+ * holds the lease (queue workers); otherwise the job is claimed here and skipped
+ * if another worker is running it.
+ */
+export async function processDocumentAnalysisJob(job: { id: string }, callerContext?: any, claimed?: QueuedJob) {
+  console.log(`Processing document analysis job: ${job.id}`);
+
+  const leased = claimed ?? await claimJob(job.id);
+  if (!leased) {
+    return { documentsProcessed: 0 };
+  }
+
+  return runWithLease(leased, signal => runDocumentAnalysisJob(leased, signal, callerContext));
+}
+
+async function runDocumentAnalysisJob(job: QueuedJob, signal: AbortSignal, callerContext?: any) {
+  const owner = job.leaseOwner ?? undefined;
+
+  // CRITICAL: Check for pending Textract jobs and poll for completion
+  const jobMetadata = job.metadata as any;
+  const textractJobs = jobMetadata?.textractJobs || {};
+
+  if (Object.keys(textractJobs).length > 0) {
+    console.log(`🔍 Found ${Object.keys(textractJobs).length} Textract job(s) to check...`);
+    const { getTextractJobStatus, getTextractJobDocument } = await import('./aws-textract');
+
+    let hasUpdates = false;
+    const updatedTextractJobs = { ...textractJobs };
+
+    for (const [docId, textractJob] of Object.entries(textractJobs) as [string, any][]) {
+      if (textractJob.status === 'IN_PROGRESS') {
+        try {
+          console.log(`📄 Checking Textract job ${textractJob.jobId} for ${textractJob.filename}...`);
+          const status = await getTextractJobStatus(textractJob.jobId, textractJob.kind);
+
+          if (status.status === 'SUCCEEDED') {
+            console.log(`✅ Textract job ${textractJob.jobId} completed! Retrieving results...`);
+            const { text: extractedText, layout, tables, keyValues } = await getTextractJobDocument(textractJob.jobId, textractJob.kind);
+
+            updatedTextractJobs[docId] = {
+              ...textractJob,
+              status: 'SUCCEEDED',
+              completedAt: new Date().toISOString(),
+              extractedText: extractedText,
+              textLength: extractedText.length,
+              layout,
+              ...(tables && { tables, keyValues })
+            };
+
+            hasUpdates = true;
+            console.log(`✅ Extracted ${extractedText.length} characters from ${textractJob.filename}`);
+          } else if (status.status === 'FAILED') {
+            console.error(`❌ Textract job ${textractJob.jobId} failed: ${status.statusMessage}`);
+            updatedTextractJobs[docId] = {
+              ...textractJob,
+              status: 'FAILED',
+              completedAt: new Date().toISOString(),
+              errorMessage: status.statusMessage
+            };
+            hasUpdates = true;
+          } else {
+            console.log(`⏳ Textract job ${textractJob.jobId} still in progress (${status.status})`);
+          }
+        } catch (error) {
+          console.error(`❌ Error checking Textract job ${textractJob.jobId}:`, error);
+        }
+      }
+    }
+
+    // If any Textract jobs completed, update metadata
+    if (hasUpdates) {
+      await prisma.background_jobs.update({
+        where: { id: job.id },
+        data: {
+          metadata: {
+            ...jobMetadata,
+            textractJobs: updatedTextractJobs
+          }
+        }
+      });
+      console.log(`✅ Updated Textract job statuses in metadata`);
+    }
+
+    // If there are still IN_PROGRESS jobs, release the job until the poller finds them finished
+    const stillPending = Object.values(updatedTextractJobs).some((tj: any) => tj.status === 'IN_PROGRESS');
+    if (stillPending) {
+      await deferJob(job.id, TEXTRACT_POLL_DELAY_MS, {}, owner);
+      console.log(`⏳ Still waiting on Textract jobs. Job ${job.id} deferred for 1 minute.`);
+      return { documentsProcessed: 0 };
+    }
+  }
+
+  // Get documents for this job
+  const documentIds = jobMetadata?.documentIds || [];
+
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log(`🔍 DOCUMENT QUERY DIAGNOSTIC`);
+  console.log(`📋 Job ID: ${job.id}`);
+  console.log(`📋 Fund ID: ${job.fundId}`);
+  console.log(`📋 Document IDs from metadata: ${JSON.stringify(documentIds)}`);
+  console.log(`📋 Querying database for documents...`);
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  const documents = await prisma.fund_documents.findMany({
+    where: {
+      id: { in: documentIds },
+      fundId: job.fundId
+    },
+    include: {
+      funds: true
+    }
+  });
+
+  let processedCount = 0;
+
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log(`📋 DOCUMENT QUERY RESULT: Found ${documents.length} documents`);
+  console.log(`📋 Job ID: ${job.id}`);
+  if (documents.length === 0) {
+    console.log(`🚨 WARNING: No documents found! DocumentIds in metadata: ${documentIds.length}`);
+    console.log(`🚨 This means documents don't exist OR transaction not committed yet`);
+  } else {
+    console.log(`📋 Documents: ${documents.map(d => d.filename).join(', ')}`);
+  }
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  // Record the step graph up front so progress covers every document
+  await planSteps(job.id, documents.flatMap(planDocumentSteps));
+
+  // Process each document; steps finished by an earlier run are skipped
+  for (const document of documents) {
+    if (signal.aborted) {
+      console.log(`🛑 Job ${job.id} was cancelled or lost its lease - stopping after ${processedCount} document(s)`);
+      return { documentsProcessed: processedCount };
+    }
+
+    try {
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log(`📄 DOCUMENT ${processedCount + 1}/${documents.length}: Starting ${document.filename}`);
+      console.log(`📄 Type: ${document.documentType}`);
+      console.log(`📄 Module: ${document.funds.moduleType}`);
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+      // Route to module-specific processor
+      if (document.funds.moduleType === 'WORLDBANK_ADMIN') {
+        console.log(`🔀 Routing to worldbank-admin processor`);
+        const { processWorldbankAdminDocument } = await import('./worldbank-admin-document-analysis');
+        await runStep(job.id, `${document.id}/analyze`,
+          () => processWorldbankAdminDocument(document, job.metadata, job.id),
+          { label: `${document.filename}: Analyse document`, isWaiting: isTextractPending });
+      } else {
+        // Default: funding processor (existing logic)
+        console.log(`🔀 Routing to funding processor (default)`);
+        await processDocument(document, job.metadata, job.id);
+      }
+      processedCount++;
+
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.log(`✅ DOCUMENT ${processedCount}/${documents.length}: Completed ${document.filename}`);
+      console.log(`✅ Progress: ${processedCount}/${documents.length} (${Math.round(processedCount/documents.length*100)}%)`);
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+      // Update job progress
+      await sqsService.updateJobProgress(job.id, processedCount, {
+        lastProcessedDocument: document.id,
+        lastProcessedAt: new Date().toISOString(),
+        // Store caller context for branch routing verification
+        ...(callerContext && { callerContext })
+      });
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      // Check for Textract async pending (large document still processing)
+      if (errorMessage.includes('TEXTRACT_ASYNC_PENDING:')) {
+        const pending = parseTextractPending(errorMessage);
+        const textractJobId = pending ? pending.jobId : errorMessage.split('TEXTRACT_ASYNC_PENDING:')[1].split(/[\s\.]/)[0];
+        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+        console.log(`⏳ TEXTRACT ASYNC: Document ${document.filename} has Textract job pending: ${textractJobId}`);
+        console.log(`⏳ Saving Textract JobId to metadata for background polling`);
+        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+        // Get current job metadata
+        const currentJob = await prisma.background_jobs.findUnique({
+          where: { id: job.id }
+        });
+
+        const currentMetadata = currentJob?.metadata as any || {};
+
+        // Save Textract JobId to metadata and release the job (not FAILED) until Textract finishes
+        await deferJob(job.id, TEXTRACT_POLL_DELAY_MS, {
+          metadata: {
+            ...currentMetadata,
+            textractJobs: {
+              ...(currentMetadata.textractJobs || {}),
+              [document.id]: {
+                jobId: textractJobId,
+                kind: pending?.kind ?? 'TEXT',
+                s3Key: document.s3Key,
+                filename: document.filename,
+                documentType: document.documentType,
+                startedAt: new Date().toISOString(),
+                status: 'IN_PROGRESS'
+              }
+            }
+          }
+        }, owner);
+
+        // NOTE: EventBridge Scheduler will poll this job every 1 minute
+        // Once Textract completes, the poller will trigger job processing to continue
+        console.log(`⏳ Job ${job.id} paused for Textract completion.`);
+        console.log(`⏳ EventBridge poller will check status every 1 minute and resume when complete.`);
+
+        return { documentsProcessed: processedCount };
+      }
+
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.error(`❌ DOCUMENT ${processedCount + 1}/${documents.length}: Failed ${document.filename}`);
+      console.error(`❌ Error: ${errorMessage}`);
+      console.error(`❌ Stack:`, error instanceof Error ? error.stack : '');
+      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      await sqsService.markJobFailed(job.id, `Failed to process document ${document.filename}: ${errorMessage}`, owner);
+      throw error;
+    }
+  }
+
+  // Brain assembly is automatically triggered by sqsService.updateJobProgress when the job completes
+  console.log(`Document processing completed for job ${job.id}. Brain assembly will be triggered automatically.`);
+
+  return { documentsProcessed: processedCount };
+}
+
+// Where each document type's analysis is saved on the fund
+const ANALYSIS_FIELDS = {
+  APPLICATION_FORM: 'applicationFormAnalysis',
+  SELECTION_CRITERIA: 'selectionCriteriaAnalysis',
+  GOOD_EXAMPLES: 'goodExamplesAnalysis',
+  OUTPUT_TEMPLATES: 'outputTemplatesAnalysis',
+} as const;
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  APPLICATION_FORM: 'application form',
+  SELECTION_CRITERIA: 'selection criteria',
+  GOOD_EXAMPLES: 'good examples',
+  OUTPUT_TEMPLATES: 'output template',
+};
+
+const isTextractPending = (error: unknown) =>
+  (error instanceof Error ? error.message : String(error)).includes('TEXTRACT_ASYNC_PENDING:');
+
+/**
+ * Save a document's extracted text in the job metadata the way a finished Textract
+ * job is saved, so brain assembly finds every document's text in textractJobs
+ * however it was extracted
+ */
+export async function recordExtraction(jobId: string, document: any, result: ExtractionResult) {
+  const currentJob = await prisma.background_jobs.findUnique({ where: { id: jobId } });
+  const currentMetadata = currentJob?.metadata as any || {};
+
+  await prisma.background_jobs.update({
+    where: { id: jobId },
+    data: {
+      metadata: {
+        ...currentMetadata,
+        textractJobs: {
+          ...(currentMetadata.textractJobs || {}),
+          [document.id]: {
+            s3Key: document.s3Key,
+            filename: document.filename,
+            documentType: document.documentType,
+            status: 'SUCCEEDED',
+            completedAt: new Date().toISOString(),
+            extractor: result.extractor,
+            confidence: result.confidence,
+            extractedText: result.text,
+            textLength: result.text.length,
+            layout: { pages: result.pages, blocks: result.blocks }
+          }
+        }
+      }
+    }
+  });
+}
+
+/**
+ * The steps known before a document is processed. Chunked documents add their
+ * analyze-chunk-N and merge steps once the chunk step has split the text.
+ */
+function planDocumentSteps(document: any): StepPlan[] {
+  const step = (name: string, label: string, dependsOn: string[] = []): StepPlan => ({
+    name: `${document.id}/${name}`,
+    label: `${document.filename}: ${label}`,
+    dependsOn: dependsOn.map(dependency => `${document.id}/${dependency}`),
+  });
+
+  if (document.funds?.moduleType === 'WORLDBANK_ADMIN') {
+    return [step('analyze', 'Analyse document')];
+  }
+  if (document.documentType === 'APPLICATION_FORM' || document.documentType === 'SELECTION_CRITERIA') {
+    return [step('extract', 'Extract text'), step('chunk', 'Split into chunks', ['extract'])];
+  }
+  return [step('extract', 'Extract text'), step('analyze', 'Analyse and save', ['extract'])];
+}
+
+/**
+ * Extract and analyse one fund document, saving the analysis on the fund.
+ *
+ * With a jobId every stage is a checkpointed step (job-steps.ts):
+ *   extract -> chunk -> analyze-chunk-1..N -> merge   (application forms, selection criteria)
+ *   extract -> analyze                                  (good examples, output templates)
+ * so a rerun of the job skips the stages this document already finished.
+ */
+export async function processDocument(document: any, jobMetadata?: any, jobId?: string) {
+  const startTime = Date.now();
+  console.log(`⏱️  Processing document: ${document.filename} (${document.documentType}) - Start time: ${new Date().toISOString()}`);
+
+  const typeLabel = DOCUMENT_TYPE_LABELS[document.documentType];
+  if (!typeLabel) {
+    throw new Error(`Unknown document type: ${document.documentType}`);
+  }
+
+  const step = <T>(name: string, label: string, run: () => Promise<T>, options: StepOptions = {}) =>
+    jobId
+      ? runStep(jobId, `${document.id}/${name}`, run, { label: `${document.filename}: ${label}`, ...options })
+      : run();
+
+  // Progress tracking helper for chunked analysis
+  const updateChunkProgress = async (currentChunk: number, totalChunks: number) => {
+    if (!jobId) return; // Skip if no jobId provided
+
+    try {
+      console.log(`📊 Chunk progress: ${currentChunk}/${totalChunks} (${Math.round(currentChunk/totalChunks*100)}%)`);
+
+      // Update job metadata with chunk progress
+      const currentJob = await prisma.background_jobs.findUnique({
+        where: { id: jobId }
+      });
+
+      if (currentJob) {
+        const currentMetadata = currentJob.metadata as any || {};
+
+        await prisma.background_jobs.update({
+          where: { id: jobId },
+          data: {
+            metadata: {
+              ...currentMetadata,
+              chunkProgress: {
+                documentId: document.id,
+                documentFilename: document.filename,
+                currentChunk,
+                totalChunks,
+                percentage: Math.round(currentChunk/totalChunks*100),
+                lastUpdated: new Date().toISOString()
+              }
+            }
+          }
+        });
+      }
+    } catch (error) {
+      console.error('⚠️ Failed to update chunk progress (non-critical):', error);
+      // Don't throw - progress tracking failures shouldn't fail the job
+    }
+  };
+
+  // TEXTRACT_ASYNC_PENDING leaves the step waiting; the job is deferred until Textract finishes
+  const textContent = await step('extract', 'Extract text', async () => {
+    // Check if Textract already extracted text (from async job)
+    const textractJob = jobMetadata?.textractJobs?.[document.id];
+    if (textractJob?.status === 'SUCCEEDED' && textractJob.extractedText) {
+      console.log(`📄 Using pre-extracted Textract text for ${document.filename} (${textractJob.textLength} chars)`);
+      await saveDocumentStructure(document.id, getDocumentStructure(textractJob));
+      return textractJob.extractedText as string;
+    }
+
+    // Download document from S3
+    const s3Response = await getS3Client().send(new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: document.s3Key
+    }));
+    const documentBuffer = Buffer.from(await s3Response.Body!.transformToByteArray());
+
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log(`📄 EXTRACTION: Starting text extraction for ${document.filename}`);
+    console.log(`📄 S3 Key: ${document.s3Key}`);
+    console.log(`📄 Document Type: ${document.documentType}`);
+    const result = await extractDocument({
+      buffer: documentBuffer,
+      filename: document.filename,
+      mimeType: document.mimeType,
+      s3Key: document.s3Key,
+      // Weightings tables are read from the document's structure in the merge step
+      ...(document.documentType === 'SELECTION_CRITERIA' && { features: STRUCTURE_FEATURES })
+    });
+    const text = result.text.trim();
+    console.log(`✅ EXTRACTION: ${result.extractor} extracted ${text.length} characters`);
+    console.log(`✅ Text preview: ${text.substring(0, 200)}...`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+    if (jobId) {
+      await recordExtraction(jobId, document, result);
+    }
+    await saveDocumentStructure(document.id, getDocumentStructure(result));
+    return text;
+  }, { isWaiting: isTextractPending });
+
+  const saveAnalysis = async (analysisResult: any) => {
+    analysisResult.analysisMode = 'CLAUDE_AI';
+    await prisma.funds.update({
+      where: { id: document.fundId },
+      data: {
+        [ANALYSIS_FIELDS[document.documentType as keyof typeof ANALYSIS_FIELDS]]: analysisResult
+      }
+    });
+    return analysisResult;
+  };
+
+  let analysisResult;
+
+  try {
+    console.log(`🧠 Attempting Claude AI analysis for ${typeLabel} in background processing...`);
+
+    switch (document.documentType) {
+      case 'APPLICATION_FORM':
+      case 'SELECTION_CRITERIA': {
+        const documentType = document.documentType === 'APPLICATION_FORM' ? 'application_form' : 'selection_criteria';
+
+        const { chunkCount } = await step('chunk', 'Split into chunks', async () => {
+          const count = textContent.length <= ANALYSIS_CHUNK_THRESHOLD
+            ? 1
+            : chunkTextForAnalysis(textContent, ANALYSIS_CHUNK_THRESHOLD).length;
+          console.log(`📄 Document size: ${textContent.length} chars - ${count} chunk(s) to analyse`);
+
+          if (jobId) {
+            const analyzeSteps = Array.from({ length: count }, (_, i) => `${document.id}/analyze-chunk-${i + 1}`);
+            await planSteps(jobId, [
+              ...analyzeSteps.map((name, i) => ({
+                name,
+                label: `${document.filename}: Analyse chunk ${i + 1} of ${count}`,
+                dependsOn: [`${document.id}/chunk`],
+              })),
+              { name: `${document.id}/merge`, label: `${document.filename}: Merge and save`, dependsOn: analyzeSteps },
+            ]);
+          }
+          return { chunkCount: count };
+        });
+
+        // Chunking is deterministic, so resumed runs see the same chunks
+        const chunks = chunkCount > 1 ? chunkTextForAnalysis(textContent, ANALYSIS_CHUNK_THRESHOLD) : [];
+        const analyses: any[] = [];
+        const structure = documentType === 'selection_criteria' ? await loadDocumentStructure(document.id) : null;
+
+        for (let i = 0; i < chunkCount; i++) {
+          analyses.push(await step(`analyze-chunk-${i + 1}`, `Analyse chunk ${i + 1} of ${chunkCount}`, () =>
+            chunkCount === 1
+              ? documentType === 'application_form'
+                ? BackgroundJobService.analyzeApplicationFormDocument(textContent, document.filename)
+                : BackgroundJobService.analyzeSelectionCriteriaDocument(
+                    textContent, document.filename, undefined, structure ? renderStructure(structure) : undefined)
+              : BackgroundJobService.analyzeChunkWithRetry(chunks[i], documentType, chunkCount)
+          ));
+          if (chunkCount > 1) {
+            await updateChunkProgress(i + 1, chunkCount);
+          }
+        }
+
+        analysisResult = await step('merge', 'Merge and save', async () => {
+          const merged = chunkCount === 1
+            ? analyses[0]
+            : BackgroundJobService.synthesizeAnalyses(analyses, documentType, textContent.length);
+          // Weights read from the document's own tables beat weights Claude read from flattened text
+          return saveAnalysis(structure ? applyCriteriaWeightings(merged, readCriteriaWeightings(structure)) : merged);
+        });
+        break;
+      }
+
+      case 'GOOD_EXAMPLES':
+        analysisResult = await step('analyze', 'Analyse and save', async () =>
+          saveAnalysis(await BackgroundJobService.analyzeGoodExamplesDocument(textContent, document.filename)));
+        break;
+
+      case 'OUTPUT_TEMPLATES':
+        // Analyze output template structure for dynamic formatting
+        analysisResult = await step('analyze', 'Analyse and save', async () =>
+          saveAnalysis(await BackgroundJobService.analyzeOutputTemplateDocument(textContent, document.filename)));
+        break;
+    }
+
+    console.log(`✅ Claude AI analysis successful for ${typeLabel} in background processing`);
+  } catch (claudeError) {
+    console.error(`❌ Claude AI analysis failed for ${typeLabel} - failing job:`, claudeError);
+    const errorMessage = claudeError instanceof Error ? claudeError.message : String(claudeError);
+    throw new Error(`AI analysis failed for ${typeLabel} document "${document.filename}": ${errorMessage}. Please try processing again.`);
+  }
+
+  const endTime = Date.now();
+  const durationSeconds = ((endTime - startTime) / 1000).toFixed(2);
+  const durationMinutes = (parseFloat(durationSeconds) / 60).toFixed(2);
+  console.log(`⏱️  Completed processing ${document.filename}: ${document.documentType}`);
+  console.log(`⏱️  Processing time: ${durationSeconds}s (${durationMinutes} minutes)`);
+
+  return analysisResult;
+}
@@ -0,0 +1,198 @@
+/**
+ * Document Converter - PDF renderings of filled DOCX reports
+ *
+ * With LibreOffice installed, the DOCX is converted by `soffice --headless`, so
+ * the PDF has the document's own fonts, letterhead, headers and footers.
+ * Without it the document is laid out with pdf-writer.ts: paragraphs in order,
+ * Word headings as headings, list items as bullets and tables with their rows
+ * and column widths - the report's content and structure, in the standard font.
+ *
+ * Configuration (environment variables):
+ * - LIBREOFFICE_PATH: the soffice binary (default: soffice on the PATH)
+ * - PDF_CONVERSION_TIMEOUT_SECONDS: limit per document (default 120)
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import JSZip from 'jszip';
+import { decodeEntities } from './office-formats';
+import { PdfDocument } from './pdf-writer';
+
+const libreOfficePath = () => process.env.LIBREOFFICE_PATH || 'soffice';
+const timeoutMs = () => (Number(process.env.PDF_CONVERSION_TIMEOUT_SECONDS) || 120) * 1000;
+
+let available: Promise<boolean> | null = null;
+
+/**
+ * Whether LibreOffice can be run (checked once per process)
+ */
+export function isLibreOfficeAvailable(): Promise<boolean> {
+  available ??= new Promise(resolve => {
+    execFile(libreOfficePath(), ['--version'], { timeout: 30000 }, error => {
+      if (error) {
+        console.log('ℹ️ LibreOffice unavailable: PDF reports are laid out without the document\'s formatting');
+      }
+      resolve(!error);
+    });
+  });
+  return available;
+}
+
+async function convertWithLibreOffice(docx: Buffer): Promise<Buffer> {
+  const directory = await mkdtemp(join(tmpdir(), 'report-'));
+  try {
+    const input = join(directory, 'report.docx');
+    await writeFile(input, docx);
+
+    await new Promise<void>((resolve, reject) => {
+      execFile(libreOfficePath(), [
+        // A profile of its own, so conversions running at the same time don't share a lock
+        `-env:UserInstallation=file://${join(directory, 'profile')}`,
+        '--headless',
+        '--norestore',
+        '--convert-to', 'pdf',
+        '--outdir', directory,
+        input,
+      ], { timeout: timeoutMs() }, (error, _stdout, stderr) => {
+        if (error) {
+          reject(new Error(`LibreOffice conversion failed: ${error.killed ? `timed out after ${timeoutMs() / 1000}s` : stderr.trim() || error.message}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+
+    return await readFile(join(directory, 'report.pdf'));
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Layout without LibreOffice
+// ---------------------------------------------------------------------------
+
+/**
+ * The element starting at `start`, including any elements of the same name nested in it
+ */
+function elementAt(xml: string, start: number, tag: string): string {
+  const pattern = new RegExp(`<${tag}(?=[\\s>/])[^>]*?(/?)>|</${tag}>`, 'g');
+  pattern.lastIndex = start;
+  let depth = 0;
+  let match;
+  while ((match = pattern.exec(xml))) {
+    if (match[0].startsWith('</')) depth--;
+    else if (!match[1]) depth++;
+    if (depth === 0) return xml.slice(start, match.index + match[0].length);
+  }
+  return xml.slice(start);
+}
+
+/**
+ * The elements with one of the tags that aren't nested in each other, in order,
+ * e.g. the paragraphs and tables of a body or table cell
+ */
+function childElements(xml: string, tags: string[]): Array<{ tag: string; xml: string }> {
+  const children: Array<{ tag: string; xml: string }> = [];
+  const start = new RegExp(`<(${tags.join('|')})(?=[\\s>/])`, 'g');
+  let match;
+  while ((match = start.exec(xml))) {
+    const element = elementAt(xml, match.index, match[1]);
+    children.push({ tag: match[1], xml: element });
+    start.lastIndex = match.index + element.length;
+  }
+  return children;
+}
+
+function paragraphText(paragraph: string): string {
+  let text = '';
+  for (const [token, content] of paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(?:br|cr)\b[^>]*\/>|<w:tab\/>/g)) {
+    text += content !== undefined ? decodeEntities(content) : token.startsWith('<w:tab') ? '\t' : '\n';
+  }
+  return text;
+}
+
+function headingLevel(paragraph: string): 1 | 2 | 3 | null {
+  const style = paragraph.match(/<w:pStyle w:val="([^"]*)"/)?.[1] ?? '';
+  if (/^title$/i.test(style)) return 1;
+  const level = Number(style.match(/^heading\s*(\d)$/i)?.[1]);
+  return level ? (Math.min(level, 3) as 1 | 2 | 3) : null;
+}
+
+function tableContent(table: string): { rows: string[][]; widths?: number[] } {
+  const grid = [...table.matchAll(/<w:gridCol w:w="(\d+)"/g)].map(match => Number(match[1]));
+  const rows: string[][] = [];
+
+  for (const row of childElements(table, ['w:tr'])) {
+    rows.push(childElements(row.xml, ['w:tc']).map(cell =>
+      childElements(cell.xml, ['w:p', 'w:tbl']).map(block => block.tag === 'w:p'
+        ? paragraphText(block.xml)
+        : tableContent(block.xml).rows.map(cells => cells.join(' | ')).join('\n')
+      ).join('\n').trim()
+    ));
+  }
+
+  const columns = Math.max(0, ...rows.map(row => row.length));
+  const total = grid.reduce((sum, width) => sum + width, 0);
+  return {
+    rows: rows.map(row => Array.from({ length: columns }, (_, index) => row[index] ?? '')),
+    widths: grid.length === columns && total > 0 ? grid.map(width => width / total) : undefined,
+  };
+}
+
+async function layoutDocx(docx: Buffer, title: string): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(docx);
+  const document = await zip.file('word/document.xml')?.async('string');
+  if (!document) {
+    throw new Error('Not a Word document (no word/document.xml)');
+  }
+
+  const body = document.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? '';
+  const pdf = new PdfDocument({ title });
+
+  for (const block of childElements(body, ['w:p', 'w:tbl'])) {
+    if (block.tag === 'w:tbl') {
+      const { rows, widths } = tableContent(block.xml);
+      if (rows.length > 0 && rows[0].length > 0) {
+        pdf.table(rows[0], rows.slice(1), widths);
+      }
+      continue;
+    }
+
+    if (/<w:br w:type="page"\/>/.test(block.xml)) {
+      pdf.addPage();
+    }
+    const text = paragraphText(block.xml);
+    if (!text.trim()) {
+      pdf.space(6);
+      continue;
+    }
+
+    const level = headingLevel(block.xml);
+    if (level) {
+      pdf.heading(text.trim(), level);
+    } else if (/<w:numPr>/.test(block.xml)) {
+      pdf.paragraph(`• ${text.trim()}`, { indent: 12 });
+    } else {
+      pdf.paragraph(text);
+    }
+  }
+
+  return pdf.toBuffer();
+}
+
+/**
+ * A PDF rendering of a DOCX document
+ */
+export async function convertDocxToPdf(docx: Buffer, title: string): Promise<Buffer> {
+  if (await isLibreOfficeAvailable()) {
+    try {
+      return await convertWithLibreOffice(docx);
+    } catch (error) {
+      console.warn('⚠️ LibreOffice could not convert the report, laying it out without its formatting:', error instanceof Error ? error.message : error);
+    }
+  }
+  return layoutDocx(docx, title);
+}
@@ -0,0 +1,177 @@
+/**
+ * Document Evidence - Page-anchored quotes from source documents
+ *
+ * Assessments cite the application they score. The model is asked for verbatim
+ * quotes; each quote is then located in the extracted text, giving character
+ * offsets and the page it sits on, so the UI can highlight it in the original
+ * document. Quotes that cannot be found are kept but marked unverified - they
+ * are the model's words, not the applicant's.
+ *
+ * Matching ignores case, punctuation, whitespace and Unicode compatibility
+ * differences (quote-text.ts - PDF text extraction reflows lines and splits
+ * ligatures), and quotes shortened with an ellipsis match from their first to
+ * their last fragment.
+ */
+
+import type { DocumentLayout } from './chunker';
+import { normalizeQuoteText, type NormalizedText } from './quote-text';
+
+export interface ReportPage {
+  page: number;
+  text: string;
+}
+
+// Extracted text with the character range of each page
+export interface SourceText {
+  text: string;
+  pages: DocumentLayout['pages'];
+}
+
+export interface EvidenceSpan {
+  quote: string;
+  start: number | null;  // Offsets in the extracted text; null when the quote was not found
+  end: number | null;
+  page: number | null;   // null when not found or the document has no pages (Word, text)
+  verified: boolean;
+}
+
+export interface EvidenceItem {
+  text: string;
+  evidence: EvidenceSpan[];
+}
+
+export interface AssessmentEvidence {
+  criteria: { [criterion: string]: EvidenceSpan[] };
+  strengths: EvidenceItem[];
+  weaknesses: EvidenceItem[];
+}
+
+// The original upload, kept so reviewers can open it next to the evidence
+export interface SourceDocument {
+  s3Key: string;
+  filename: string;
+  mimeType: string;
+}
+
+export const SOURCE_DOCUMENT_FOLDER = 'assessment-sources';
+
+const MIN_QUOTE_CHARS = 8;
+
+/**
+ * Split an uploaded document into pages. PDFs keep their page numbers; Word and
+ * text documents are returned as a single page.
+ */
+export async function extractReportPages(buffer: Buffer, filename: string, mimeType?: string): Promise<ReportPage[]> {
+  const lowerName = filename.toLowerCase();
+
+  if (mimeType === 'application/pdf' || lowerName.endsWith('.pdf')) {
+    const { PDFParse } = await import('pdf-parse');
+    const parser = new PDFParse({ data: new Uint8Array(buffer) });
+    try {
+      const result = await parser.getText();
+      return result.pages.map(page => ({ page: page.num, text: page.text }));
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  if (lowerName.endsWith('.docx')) {
+    const mammoth = await import('mammoth');
+    const result = await mammoth.extractRawText({ buffer });
+    return [{ page: 1, text: result.value }];
+  }
+
+  return [{ page: 1, text: buffer.toString('utf8') }];
+}
+
+/**
+ * Join pages into one text, recording where each page starts and ends.
+ * Single-page results of Word and text documents carry no page information.
+ */
+export function joinPages(pages: ReportPage[], paginated: boolean = true): SourceText {
+  let text = '';
+  const ranges: SourceText['pages'] = [];
+
+  for (const page of pages) {
+    if (text) text += '\n\n';
+    const start = text.length;
+    text += page.text;
+    ranges.push({ page: page.page, start, end: text.length });
+  }
+
+  return { text, pages: paginated ? ranges : [] };
+}
+
+function pageAt(source: SourceText, offset: number): number | null {
+  let page: number | null = null;
+  for (const range of source.pages) {
+    if (range.start > offset) break;
+    page = range.page;
+  }
+  return page;
+}
+
+/**
+ * Locate a quote in the source text
+ */
+export function locateQuote(source: SourceText, quote: string, normalized: NormalizedText = normalizeQuoteText(source.text)): EvidenceSpan {
+  const trimmed = quote.trim();
+  const notFound: EvidenceSpan = { quote: trimmed, start: null, end: null, page: null, verified: false };
+
+  const fragments = trimmed.split(/\.{3}|…/).map(fragment => normalizeQuoteText(fragment).value).filter(Boolean);
+  if (fragments.length === 0 || fragments.join(' ').length < MIN_QUOTE_CHARS) return notFound;
+
+  const first = normalized.value.indexOf(fragments[0]);
+  if (first === -1) return notFound;
+
+  let last = first + fragments[0].length;
+  for (const fragment of fragments.slice(1)) {
+    const index = normalized.value.indexOf(fragment, last);
+    if (index === -1) return notFound;
+    last = index + fragment.length;
+  }
+
+  const start = normalized.starts[first];
+  const end = normalized.ends[last - 1];
+  return { quote: trimmed, start, end, page: pageAt(source, start), verified: true };
+}
+
+/**
+ * Anchor the quotes the model returned. Accepts a quote string, an array of
+ * strings or of { quote } objects; anything else yields no evidence.
+ */
+export function anchorQuotes(source: SourceText, quotes: unknown, normalized: NormalizedText = normalizeQuoteText(source.text)): EvidenceSpan[] {
+  const list = Array.isArray(quotes) ? quotes : quotes ? [quotes] : [];
+
+  return list
+    .map(entry => typeof entry === 'string' ? entry : typeof entry?.quote === 'string' ? entry.quote : '')
+    .filter(quote => quote.trim().length > 0)
+    .map(quote => locateQuote(source, quote, normalized));
+}
+
+/**
+ * Evidence for criterion scores and feedback items from the model's output:
+ * `evidence` maps criteria to quotes, feedback items are strings or
+ * { text, quotes } objects
+ */
+export function buildAssessmentEvidence(
+  source: SourceText,
+  criteriaEvidence: Record<string, unknown> | undefined,
+  feedback: { strengths?: unknown[]; weaknesses?: unknown[] } | undefined
+): AssessmentEvidence {
+  const normalized: NormalizedText = normalizeQuoteText(source.text);
+
+  const toItems = (items: unknown[] | undefined): EvidenceItem[] => (items ?? [])
+    .map((item: any) => typeof item === 'string'
+      ? { text: item, evidence: [] }
+      : { text: String(item?.text ?? ''), evidence: anchorQuotes(source, item?.quotes, normalized) })
+    .filter(item => item.text.length > 0);
+
+  return {
+    criteria: Object.fromEntries(
+      Object.entries(criteriaEvidence ?? {}).map(([criterion, quotes]) => [criterion, anchorQuotes(source, quotes, normalized)])
+    ),
+    strengths: toItems(feedback?.strengths),
+    weaknesses: toItems(feedback?.weaknesses),
+  };
+}
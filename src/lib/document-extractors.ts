@@ -0,0 +1,631 @@
+/**
+ * Document Extractors - Text extraction by MIME type
+ *
+ * Extractors are registered for the MIME types they read and tried in priority
+ * order (lowest first); the first result wins. An extractor returns null when it
+ * can't do a good job of a document - a scanned PDF has no usable text layer,
+ * Textract needs the document in S3 - and the next one is tried. Errors
+ * fall through to the next extractor too, except TEXTRACT_ASYNC_PENDING, which
+ * defers the job until Textract has finished.
+ *
+ * Built-in extractors:
+ * - plain-text: text/plain, text/markdown, text/csv
+ * - word: Word documents via mammoth
+ * - pdf-text-layer: the PDF's own text, with Tesseract OCR of just the pages that
+ *   look scanned; declined when every page does, or some do and OCR is unavailable
+ * - textract: AWS Textract on the uploaded S3 object (PDFs and images); document
+ *   analysis with tables and form fields when the caller asks for features
+ * - local-ocr: the text layer plus Tesseract OCR of scanned pages (local-ocr.ts)
+ * - pdf-text-layer-partial: last resort for scanned PDFs when no OCR is available
+ * - spreadsheet, presentation, open-document-text, html, rtf: office-formats.ts
+ * - email, outlook-msg: the message followed by its attachments (email-formats.ts)
+ * - zip: each supported member file in turn
+ * Containers (emails, ZIPs) give each part a page of its own - the message or
+ * member file - and extract attachments and members with the same registry.
+ *
+ * Configuration (environment variables):
+ * - DOCUMENT_EXTRACTION: auto | local | textract (default auto)
+ *   auto: text layer first, Textract for scanned PDFs and images, local OCR without it
+ *   local: never call Textract
+ *   textract: Textract first for documents in S3 (the behaviour before local extraction)
+ * - PDF_MIN_PAGE_CHARS: pages with less text are treated as scanned (default 20)
+ * - TEXTRACT_FEATURES: analysis features callers may ask for, comma-separated
+ *   (default TABLES,FORMS); "none" keeps Textract to text detection
+ */
+
+import type JSZip from 'jszip';
+import type { DocumentLayout } from './chunker';
+import { extractReportPages, joinPages } from './document-evidence';
+import { isOcrAvailable, recognizeImage, recognizePdfPages } from './local-ocr';
+import type { FormattedDocument } from './office-formats';
+
+export type ExtractionMode = 'auto' | 'local' | 'textract';
+
+// Textract document analysis features: TABLES for cell grids, FORMS for key-value pairs
+export type AnalysisFeature = 'TABLES' | 'FORMS';
+
+export interface ExtractionInput {
+  buffer: Buffer;
+  filename: string;
+  mimeType: string;
+  s3Key?: string;  // Where the document was uploaded; Textract reads it from there
+  depth?: number;  // How deep inside emails and ZIPs this document is
+  budget?: ExtractionBudget;  // Shared by everything inside the outermost container
+  features?: AnalysisFeature[];  // Structure the caller needs from Textract
+}
+
+// What is left for the contents of one uploaded container, across all nested
+// archives and attachments. Containers charge it as they unpack.
+export interface ExtractionBudget {
+  bytes: number;       // Member files still allowed to be unpacked
+  characters: number;  // Text still allowed to be extracted from them
+}
+
+// A table's cells, row by row. Spreadsheet tables record the address of their
+// first cell (origin) and the sheet name (title).
+export interface ExtractedTable {
+  page: number;
+  title?: string;
+  origin?: string;
+  rows: string[][];
+}
+
+// A form field read by Textract's FORMS feature
+export interface ExtractedKeyValue {
+  key: string;
+  value: string;
+  page: number;
+  confidence: number;  // 0-1
+}
+
+export interface ExtractionResult {
+  text: string;
+  pages: DocumentLayout['pages'];    // Empty when the format has no pages
+  blocks: DocumentLayout['blocks'];  // Layout blocks, where the extractor finds them
+  confidence: number;                // 0-1; 1 for text read from the file itself
+  extractor: string;
+  tables?: ExtractedTable[];
+  keyValues?: ExtractedKeyValue[];
+}
+
+export interface DocumentExtractor {
+  name: string;
+  mimeTypes: string[];
+  priority: number;
+  extract(input: ExtractionInput): Promise<ExtractionResult | null>;
+}
+
+export const PDF_MIME_TYPE = 'application/pdf';
+export const WORD_MIME_TYPES = [
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/msword',
+];
+export const TEXT_MIME_TYPES = ['text/plain', 'text/markdown', 'text/csv'];
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/tiff'];
+export const SPREADSHEET_MIME_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel.sheet.macroEnabled.12',
+];
+export const PRESENTATION_MIME_TYPES = ['application/vnd.openxmlformats-officedocument.presentationml.presentation'];
+export const ODT_MIME_TYPES = ['application/vnd.oasis.opendocument.text'];
+export const HTML_MIME_TYPES = ['text/html', 'application/xhtml+xml'];
+export const RTF_MIME_TYPES = ['application/rtf', 'text/rtf'];
+export const EML_MIME_TYPES = ['message/rfc822'];
+export const MSG_MIME_TYPES = ['application/vnd.ms-outlook'];
+export const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+// Limits for containers, so a ZIP bomb or a loop of forwarded messages can't run away.
+// The byte and text limits cover a container's contents at every depth together.
+const MAX_CONTAINER_DEPTH = 3;
+const MAX_ARCHIVE_FILES = 100;
+const MAX_ARCHIVE_ENTRIES = 1000;  // Including folders and skipped files
+const MAX_CONTAINER_BYTES = 100 * 1024 * 1024;
+const MAX_CONTAINER_TEXT_LENGTH = 10 * 1024 * 1024;
+
+// Used when the browser sent no (or a generic) MIME type
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: PDF_MIME_TYPE,
+  docx: WORD_MIME_TYPES[0],
+  doc: WORD_MIME_TYPES[1],
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  xlsx: SPREADSHEET_MIME_TYPES[0],
+  xlsm: SPREADSHEET_MIME_TYPES[1],
+  pptx: PRESENTATION_MIME_TYPES[0],
+  odt: ODT_MIME_TYPES[0],
+  html: 'text/html',
+  htm: 'text/html',
+  rtf: 'application/rtf',
+  eml: 'message/rfc822',
+  msg: 'application/vnd.ms-outlook',
+  zip: 'application/zip',
+};
+
+const extractors: DocumentExtractor[] = [];
+
+export function getExtractionMode(): ExtractionMode {
+  const mode = process.env.DOCUMENT_EXTRACTION?.toLowerCase();
+  return mode === 'local' || mode === 'textract' ? mode : 'auto';
+}
+
+/**
+ * Analysis features allowed by TEXTRACT_FEATURES
+ */
+export function getAnalysisFeatures(): AnalysisFeature[] {
+  return (process.env.TEXTRACT_FEATURES ?? 'TABLES,FORMS')
+    .split(',')
+    .map(feature => feature.trim().toUpperCase())
+    .filter((feature): feature is AnalysisFeature => feature === 'TABLES' || feature === 'FORMS');
+}
+
+/**
+ * The requested features Textract can provide for this input - none when the
+ * document isn't in S3 or Textract is switched off
+ */
+function analysisFeatures({ features, s3Key }: ExtractionInput): AnalysisFeature[] {
+  if (!features?.length || !s3Key || getExtractionMode() === 'local') {
+    return [];
+  }
+  const allowed = getAnalysisFeatures();
+  return features.filter(feature => allowed.includes(feature));
+}
+
+const minPageChars = () => Number(process.env.PDF_MIN_PAGE_CHARS) || 20;
+
+const isScannedPage = (text: string) => text.replace(/\s+/g, '').length < minPageChars();
+
+export const isTextractPendingError = (error: unknown) =>
+  (error instanceof Error ? error.message : String(error)).includes('TEXTRACT_ASYNC_PENDING:');
+
+/**
+ * The Textract job behind a TEXTRACT_ASYNC_PENDING:<jobId>[:ANALYSIS] error
+ */
+export function parseTextractPending(message: string): { jobId: string; kind: 'TEXT' | 'ANALYSIS' } | null {
+  const match = message.match(/TEXTRACT_ASYNC_PENDING:([a-f0-9-]+)(:ANALYSIS)?/);
+  return match ? { jobId: match[1], kind: match[2] ? 'ANALYSIS' : 'TEXT' } : null;
+}
+
+/**
+ * Add an extractor, replacing any registered under the same name
+ */
+export function registerExtractor(extractor: DocumentExtractor): void {
+  const existing = extractors.findIndex(registered => registered.name === extractor.name);
+  if (existing >= 0) {
+    extractors.splice(existing, 1);
+  }
+  extractors.push(extractor);
+  extractors.sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Extractors for a MIME type in the order they are tried
+ */
+export function getExtractors(mimeType: string): DocumentExtractor[] {
+  return extractors.filter(extractor => extractor.mimeTypes.includes(mimeType));
+}
+
+/**
+ * The MIME type to extract a file as. Browsers send none (or a generic or
+ * unregistered one) for many of these formats, so the extension decides then.
+ */
+export function resolveMimeType(filename: string, mimeType?: string | null): string {
+  if (mimeType && getExtractors(mimeType).length > 0) {
+    return mimeType;
+  }
+  const extension = filename.toLowerCase().split('.').pop() ?? '';
+  return EXTENSION_MIME_TYPES[extension] ?? mimeType ?? '';
+}
+
+export function isSupportedMimeType(mimeType: string): boolean {
+  return getExtractors(mimeType).length > 0;
+}
+
+export function getSupportedMimeTypes(): string[] {
+  return [...new Set(extractors.flatMap(extractor => extractor.mimeTypes))];
+}
+
+/**
+ * Extract a document's text with the first extractor that can read it
+ */
+export async function extractDocument(input: ExtractionInput): Promise<ExtractionResult> {
+  const mimeType = resolveMimeType(input.filename, input.mimeType);
+  const candidates = getExtractors(mimeType);
+  if (candidates.length === 0) {
+    throw new Error(`Unsupported file type: ${mimeType || 'unknown'}`);
+  }
+
+  let lastError: unknown = null;
+  for (const extractor of candidates) {
+    try {
+      const result = await extractor.extract({ ...input, mimeType });
+      if (result) {
+        console.log(`📄 ${extractor.name}: extracted ${result.text.length} characters from ${input.filename} (confidence ${result.confidence.toFixed(2)})`);
+        return result;
+      }
+    } catch (error) {
+      if (isTextractPendingError(error)) {
+        throw error;
+      }
+      console.error(`❌ ${extractor.name} could not extract ${input.filename}:`, error);
+      lastError = error;
+    }
+  }
+
+  if (lastError) {
+    throw lastError;
+  }
+  throw new Error(`"${input.filename}" appears to be empty or contains only images without extractable text`);
+}
+
+const textResult = (text: string, extractor: string): ExtractionResult | null =>
+  text.trim() ? { text, pages: [], blocks: [], confidence: 1, extractor } : null;
+
+const formattedResult = (document: FormattedDocument, extractor: string): ExtractionResult | null =>
+  document.text.trim() ? { ...document, confidence: 1, extractor } : null;
+
+interface ContainerPart {
+  title: string;
+  result: ExtractionResult;
+}
+
+/**
+ * One result for the parts of a container, each on a page of its own under a
+ * heading. The parts' own pages are folded into theirs.
+ */
+function combineParts(parts: ContainerPart[], extractor: string): ExtractionResult | null {
+  let text = '';
+  const pages: ExtractionResult['pages'] = [];
+  const blocks: ExtractionResult['blocks'] = [];
+  const tables: ExtractedTable[] = [];
+  let weightedConfidence = 0;
+
+  for (const [index, { title, result }] of parts.entries()) {
+    const page = index + 1;
+    if (text) text += '\n\n';
+    const start = text.length;
+    text += `=== ${title} ===\n`;
+    const offset = text.length;
+    text += result.text.trimEnd();
+
+    pages.push({ page, start, end: text.length });
+    blocks.push(...result.blocks.map(block => ({ ...block, page, start: block.start + offset, end: block.end + offset })));
+    tables.push(...(result.tables ?? []).map(table => ({ ...table, page })));
+    weightedConfidence += result.confidence * result.text.length;
+  }
+
+  const length = parts.reduce((sum, part) => sum + part.result.text.trim().length, 0);
+  if (length === 0) return null;
+  return { text, pages, blocks, confidence: weightedConfidence / length, extractor, tables };
+}
+
+/**
+ * The budget of the container being unpacked - a fresh one for the outermost container
+ */
+function containerBudget(input: ExtractionInput): ExtractionBudget {
+  return input.budget ?? { bytes: MAX_CONTAINER_BYTES, characters: MAX_CONTAINER_TEXT_LENGTH };
+}
+
+/**
+ * Take unpacked member files from the budget, failing once it is used up
+ */
+function chargeBytes(budget: ExtractionBudget, bytes: number, filename: string): void {
+  budget.bytes -= bytes;
+  if (budget.bytes < 0) {
+    throw new Error(`Container contents expand to more than ${MAX_CONTAINER_BYTES / 1024 / 1024}MB (stopped at ${filename})`);
+  }
+}
+
+const budgetExceeded = (budget: ExtractionBudget) => budget.bytes < 0 || budget.characters < 0;
+
+/**
+ * Extract the files inside a container, skipping ones that can't be read.
+ * Running out of budget fails the whole container.
+ */
+async function extractMembers(
+  files: { filename: string; mimeType: string; content: Buffer }[],
+  depth: number,
+  budget: ExtractionBudget
+): Promise<ContainerPart[]> {
+  const parts: ContainerPart[] = [];
+  for (const file of files) {
+    const mimeType = resolveMimeType(file.filename, file.mimeType);
+    if (!isSupportedMimeType(mimeType)) {
+      console.log(`⏭️ Skipping ${file.filename}: unsupported type ${mimeType || 'unknown'}`);
+      continue;
+    }
+    try {
+      const available = budget.characters;
+      const result = await extractDocument({ buffer: file.content, filename: file.filename, mimeType, depth, budget });
+      // Nested containers have already charged their members' text
+      budget.characters -= Math.max(0, result.text.length - (available - budget.characters));
+      if (budget.characters < 0) {
+        throw new Error(`Contents extract to more than ${MAX_CONTAINER_TEXT_LENGTH} characters of text`);
+      }
+      parts.push({ title: file.filename, result });
+    } catch (error) {
+      if (budgetExceeded(budget)) {
+        throw error;
+      }
+      console.error(`❌ Could not extract ${file.filename}, skipping:`, error);
+    }
+  }
+  return parts;
+}
+
+registerExtractor({
+  name: 'plain-text',
+  mimeTypes: TEXT_MIME_TYPES,
+  priority: 10,
+  extract: async ({ buffer }) => textResult(buffer.toString('utf8'), 'plain-text'),
+});
+
+registerExtractor({
+  name: 'word',
+  mimeTypes: WORD_MIME_TYPES,
+  priority: 10,
+  extract: async ({ buffer }) => {
+    const mammoth = await import('mammoth');
+    const result = await mammoth.extractRawText({ buffer });
+    return textResult(result.value, 'word');
+  },
+});
+
+/**
+ * A PDF's pages with OCR text in place of the pages that have no text layer -
+ * only those pages are rendered and recognised
+ */
+async function recognizeScannedPages(buffer: Buffer, filename: string, pages: Array<{ page: number; text: string }>) {
+  const scanned = pages.filter(page => isScannedPage(page.text)).map(page => page.page);
+  console.log(`🔎 ${filename}: running OCR on ${scanned.length} of ${pages.length} page(s)`);
+  const recognized = await recognizePdfPages(buffer, scanned);
+
+  const merged = pages.map(page => ({ page: page.page, text: recognized.get(page.page)?.text ?? page.text }));
+  const confidence = pages.length > 0
+    ? pages.reduce((sum, page) => sum + (recognized.get(page.page)?.confidence ?? 1), 0) / pages.length
+    : 0;
+  return { ...joinPages(merged), confidence };
+}
+
+/**
+ * The PDF's text layer. Pages without one are recognised locally when OCR is
+ * available; otherwise PDFs with scanned pages are declined unless
+ * allowScanned. Documents in S3 are left to Textract in textract mode or when
+ * the caller asked for tables or form fields.
+ */
+function pdfTextLayer(name: string, priority: number, allowScanned: boolean): DocumentExtractor {
+  return {
+    name,
+    mimeTypes: [PDF_MIME_TYPE],
+    priority,
+    extract: async input => {
+      const { buffer, filename, s3Key } = input;
+      if (!allowScanned && s3Key && (getExtractionMode() === 'textract' || analysisFeatures(input).length > 0)) {
+        return null;
+      }
+
+      const pages = await extractReportPages(buffer, filename, PDF_MIME_TYPE);
+      const withText = pages.filter(page => !isScannedPage(page.text)).length;
+      if (withText === 0) {
+        console.log(`📄 ${filename}: no page has a text layer`);
+        return null;
+      }
+
+      if (withText < pages.length) {
+        console.log(`📄 ${filename}: ${pages.length - withText} of ${pages.length} page(s) have no text layer`);
+        // A few scanned pages (a signed form, a letterhead) don't send the whole document to OCR
+        if (!allowScanned && await isOcrAvailable()) {
+          const { text, pages: ranges, confidence } = await recognizeScannedPages(buffer, filename, pages);
+          return { text, pages: ranges, blocks: [], confidence, extractor: name };
+        }
+        if (!allowScanned) {
+          return null;
+        }
+      }
+
+      const { text, pages: ranges } = joinPages(pages);
+      return { text, pages: ranges, blocks: [], confidence: withText / pages.length, extractor: name };
+    },
+  };
+}
+
+registerExtractor(pdfTextLayer('pdf-text-layer', 10, false));
+
+registerExtractor({
+  name: 'textract',
+  mimeTypes: [PDF_MIME_TYPE, ...IMAGE_MIME_TYPES],
+  priority: 20,
+  extract: async input => {
+    const { s3Key } = input;
+    if (!s3Key || getExtractionMode() === 'local') {
+      return null;
+    }
+
+    const { analyzeDocument, detectDocument } = await import('./aws-textract');
+    const features = analysisFeatures(input);
+    const { text, layout, confidence, tables, keyValues } = features.length > 0
+      ? await analyzeDocument(s3Key, features)
+      : await detectDocument(s3Key);
+    return { text, pages: layout.pages, blocks: layout.blocks, confidence, extractor: 'textract', tables, keyValues };
+  },
+});
+
+registerExtractor({
+  name: 'local-ocr',
+  mimeTypes: [PDF_MIME_TYPE, ...IMAGE_MIME_TYPES],
+  priority: 30,
+  extract: async ({ buffer, filename, mimeType }) => {
+    if (!await isOcrAvailable()) {
+      return null;
+    }
+
+    if (mimeType !== PDF_MIME_TYPE) {
+      const { text, confidence } = await recognizeImage(buffer);
+      return text.trim() ? { text, pages: [], blocks: [], confidence, extractor: 'local-ocr' } : null;
+    }
+
+    const pages = await extractReportPages(buffer, filename, PDF_MIME_TYPE);
+    const { text, pages: ranges, confidence } = await recognizeScannedPages(buffer, filename, pages);
+    if (!text.trim()) {
+      return null;
+    }
+    return { text, pages: ranges, blocks: [], confidence, extractor: 'local-ocr' };
+  },
+});
+
+registerExtractor(pdfTextLayer('pdf-text-layer-partial', 100, true));
+
+registerExtractor({
+  name: 'spreadsheet',
+  mimeTypes: SPREADSHEET_MIME_TYPES,
+  priority: 10,
+  extract: async ({ buffer }) => {
+    const { extractSpreadsheet } = await import('./office-formats');
+    return formattedResult(await extractSpreadsheet(buffer), 'spreadsheet');
+  },
+});
+
+registerExtractor({
+  name: 'presentation',
+  mimeTypes: PRESENTATION_MIME_TYPES,
+  priority: 10,
+  extract: async ({ buffer }) => {
+    const { extractPresentation } = await import('./office-formats');
+    return formattedResult(await extractPresentation(buffer), 'presentation');
+  },
+});
+
+registerExtractor({
+  name: 'open-document-text',
+  mimeTypes: ODT_MIME_TYPES,
+  priority: 10,
+  extract: async ({ buffer }) => {
+    const { extractOpenDocumentText } = await import('./office-formats');
+    return formattedResult(await extractOpenDocumentText(buffer), 'open-document-text');
+  },
+});
+
+registerExtractor({
+  name: 'html',
+  mimeTypes: HTML_MIME_TYPES,
+  priority: 10,
+  extract: async ({ buffer }) => {
+    const { extractHtml } = await import('./office-formats');
+    return formattedResult(extractHtml(buffer.toString('utf8')), 'html');
+  },
+});
+
+registerExtractor({
+  name: 'rtf',
+  mimeTypes: RTF_MIME_TYPES,
+  priority: 10,
+  extract: async ({ buffer }) => {
+    const { extractRtf } = await import('./office-formats');
+    return formattedResult(extractRtf(buffer.toString('latin1')), 'rtf');
+  },
+});
+
+/**
+ * The message, then each attachment that can be extracted
+ */
+function emailExtractor(name: string, mimeTypes: string[], parser: 'parseEml' | 'parseMsg'): DocumentExtractor {
+  return {
+    name,
+    mimeTypes,
+    priority: 10,
+    extract: async input => {
+      const { buffer, filename, depth = 0 } = input;
+      const formats = await import('./email-formats');
+      const email = formats[parser](buffer);
+      const message: ContainerPart = {
+        title: email.subject || filename,
+        result: { text: formats.formatEmail(email), pages: [], blocks: [], confidence: 1, extractor: name },
+      };
+
+      let attachments: ContainerPart[] = [];
+      if (depth < MAX_CONTAINER_DEPTH) {
+        const budget = containerBudget(input);
+        chargeBytes(budget, email.attachments.reduce((sum, attachment) => sum + attachment.content.length, 0), filename);
+        attachments = await extractMembers(email.attachments, depth + 1, budget);
+      }
+      return combineParts([message, ...attachments], name);
+    },
+  };
+}
+
+registerExtractor(emailExtractor('email', EML_MIME_TYPES, 'parseEml'));
+registerExtractor(emailExtractor('outlook-msg', MSG_MIME_TYPES, 'parseMsg'));
+
+/**
+ * Inflate an archive member chunk by chunk, stopping as soon as it passes
+ * `limit` bytes - the sizes an archive declares can't be trusted
+ */
+function readArchiveEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer');
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // A paused stream stops inflating once its buffer fills
+        stream.pause();
+        stream.removeAllListeners();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+registerExtractor({
+  name: 'zip',
+  mimeTypes: ZIP_MIME_TYPES,
+  priority: 10,
+  extract: async input => {
+    const { buffer, filename, depth = 0 } = input;
+    if (depth >= MAX_CONTAINER_DEPTH) {
+      console.log(`⏭️ Skipping ${filename}: archives nested too deep`);
+      return null;
+    }
+
+    const { default: JSZip } = await import('jszip');
+    const zip = await JSZip.loadAsync(buffer);
+    if (Object.keys(zip.files).length > MAX_ARCHIVE_ENTRIES) {
+      throw new Error(`${filename} contains more than ${MAX_ARCHIVE_ENTRIES} entries`);
+    }
+
+    const entries = Object.values(zip.files)
+      .filter(entry => !entry.dir && !/(^|\/)(__MACOSX\/|\.)/.test(entry.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    if (entries.length > MAX_ARCHIVE_FILES) {
+      throw new Error(`${filename} contains ${entries.length} files; at most ${MAX_ARCHIVE_FILES} are extracted from an archive`);
+    }
+
+    const budget = containerBudget(input);
+    const files: { filename: string; mimeType: string; content: Buffer }[] = [];
+    for (const entry of entries) {
+      const mimeType = resolveMimeType(entry.name, null);
+      if (!isSupportedMimeType(mimeType)) {
+        console.log(`⏭️ Skipping ${entry.name} in ${filename}: unsupported type`);
+        continue;
+      }
+      // null: inflating stopped because the entry alone is over the budget
+      const content = await readArchiveEntry(entry, Math.max(0, budget.bytes));
+      chargeBytes(budget, content?.length ?? Infinity, filename);
+      files.push({ filename: entry.name, mimeType, content: content as Buffer });
+    }
+
+    return combineParts(await extractMembers(files, depth + 1, budget), 'zip');
+  },
+});
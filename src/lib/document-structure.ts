@@ -0,0 +1,295 @@
+/**
+ * Document Structure - Tables and form fields read from documents
+ *
+ * Text extraction flattens tables into lines, which loses which number belongs to
+ * which criterion or bidder. Textract's TABLES and FORMS features (aws-textract.ts)
+ * and the office-format readers return tables as cell grids instead; this module
+ * keeps them with the document (fund_documents.structuredContent) and reads
+ * criteria weightings and bidder score tables out of them.
+ */
+
+import { prisma } from './database-s3';
+import {
+  IMAGE_MIME_TYPES,
+  PDF_MIME_TYPE,
+  extractDocument,
+  getAnalysisFeatures,
+  getExtractionMode,
+  isSupportedMimeType,
+  resolveMimeType,
+  type AnalysisFeature,
+  type ExtractedKeyValue,
+  type ExtractedTable,
+  type ExtractionResult
+} from './document-extractors';
+
+export interface DocumentStructure {
+  tables: ExtractedTable[];
+  keyValues: ExtractedKeyValue[];
+}
+
+export interface CriterionWeighting {
+  name: string;
+  weight: number | null;    // Percentage of the total score
+  maxScore: number | null;
+  page: number;
+}
+
+export interface BidderScore {
+  bidder: string;
+  scores: Record<string, number | null>;  // By column heading
+  total: number | null;
+  page: number;
+}
+
+// Features asked for when a document's tables matter
+export const STRUCTURE_FEATURES: AnalysisFeature[] = ['TABLES', 'FORMS'];
+
+// Evaluation reports are checked in one run, so wait longer for Textract (24 x 5s)
+const REPORT_ANALYSIS_POLL_ATTEMPTS = 24;
+
+const CRITERION_HEADING = /criteri|factor|requirement|item|description|section|category/i;
+const WEIGHT_HEADING = /weight|%|percent/i;
+const MAX_SCORE_HEADING = /max|points|marks|score/i;
+const BIDDER_HEADING = /bidder|tenderer|firm|consultant|supplier|applicant|company|name/i;
+const TOTAL_HEADING = /total|overall|combined|final/i;
+
+/**
+ * The tables and form fields of an extraction, or null when it found none
+ */
+export function getDocumentStructure(result: Pick<ExtractionResult, 'tables' | 'keyValues'>): DocumentStructure | null {
+  const tables = (result.tables ?? []).filter(table => table.rows.length > 1);
+  const keyValues = result.keyValues ?? [];
+  return tables.length > 0 || keyValues.length > 0 ? { tables, keyValues } : null;
+}
+
+/**
+ * Keep a fund document's tables and form fields with it
+ */
+export async function saveDocumentStructure(documentId: string, structure: DocumentStructure | null) {
+  if (!structure) return;
+
+  await prisma.fund_documents.update({
+    where: { id: documentId },
+    data: { structuredContent: structure as any },
+  });
+  console.log(`📊 Saved ${structure.tables.length} table(s) and ${structure.keyValues.length} form field(s) for document ${documentId}`);
+}
+
+export async function loadDocumentStructure(documentId: string): Promise<DocumentStructure | null> {
+  const document = await prisma.fund_documents.findUnique({
+    where: { id: documentId },
+    select: { structuredContent: true },
+  });
+  return (document?.structuredContent as DocumentStructure | null) ?? null;
+}
+
+/**
+ * The tables and form fields of an evaluation report. PDFs and images go through
+ * Textract document analysis; office formats are read directly and count as one
+ * page, as in extractReportPages. Returns null when the report has no tables or
+ * they can't be read in time - the report is then checked on its text alone.
+ */
+export async function extractReportStructure(
+  buffer: Buffer,
+  filename: string,
+  mimeType: string | undefined,
+  s3Key: string
+): Promise<DocumentStructure | null> {
+  const resolved = resolveMimeType(filename, mimeType ?? '');
+
+  try {
+    if (resolved === PDF_MIME_TYPE || IMAGE_MIME_TYPES.includes(resolved)) {
+      const features = STRUCTURE_FEATURES.filter(feature => getAnalysisFeatures().includes(feature));
+      if (features.length === 0 || getExtractionMode() === 'local') {
+        return null;
+      }
+      const { analyzeDocument } = await import('./aws-textract');
+      return getDocumentStructure(await analyzeDocument(s3Key, features, REPORT_ANALYSIS_POLL_ATTEMPTS));
+    }
+
+    if (!isSupportedMimeType(resolved)) {
+      return null;
+    }
+    const result = await extractDocument({ buffer, filename, mimeType: resolved });
+    const structure = getDocumentStructure(result);
+    return structure && {
+      tables: structure.tables.map(table => ({ ...table, page: 1 })),
+      keyValues: structure.keyValues.map(field => ({ ...field, page: 1 })),
+    };
+  } catch (error) {
+    console.warn(`⚠️ Could not read tables from ${filename}, checking text only:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Tables as markdown and form fields as "key: value" lines, for Claude prompts
+ */
+export function renderStructure(structure: DocumentStructure, pages?: number[]): string {
+  const onPage = <T extends { page: number }>(items: T[]) =>
+    pages ? items.filter(item => pages.includes(item.page)) : items;
+  const sections: string[] = [];
+
+  for (const table of onPage(structure.tables)) {
+    const [header, ...rows] = table.rows.map(row => `| ${row.map(cell => cell.replace(/\|/g, '/').replace(/\s+/g, ' ')).join(' | ')} |`);
+    const separator = `|${table.rows[0].map(() => ' --- |').join('')}`;
+    sections.push([`Table (page ${table.page})${table.title ? `: ${table.title}` : ''}`, header, separator, ...rows].join('\n'));
+  }
+
+  const fields = onPage(structure.keyValues).filter(field => field.value);
+  if (fields.length > 0) {
+    sections.push(['Form fields:', ...fields.map(field => `${field.key}: ${field.value}`)].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * A number from a cell: "25%", "25 points", "1,250.5" - null when there is none
+ */
+function parseNumber(cell: string | undefined): number | null {
+  const match = cell?.replace(/,(?=\d{3}\b)/g, '').match(/-?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+const findColumn = (header: string[], pattern: RegExp, exclude: number[] = []) =>
+  header.findIndex((cell, index) => !exclude.includes(index) && pattern.test(cell));
+
+/**
+ * Split a table at its header row - the first of its top rows with a cell
+ * matching the pattern, so a spreadsheet's title rows above it are skipped
+ */
+function splitHeader(table: ExtractedTable, pattern: RegExp): { header: string[]; rows: string[][] } | null {
+  const index = table.rows.slice(0, 5).findIndex(row => row.some(cell => pattern.test(cell)));
+  return index < 0 ? null : { header: table.rows[index], rows: table.rows.slice(index + 1) };
+}
+
+/**
+ * Criteria with their weights or maximum scores from tables headed like
+ * "Criterion | Weight (%)" or "Evaluation factor | Max points"
+ */
+export function readCriteriaWeightings(structure: DocumentStructure): CriterionWeighting[] {
+  const weightings: CriterionWeighting[] = [];
+
+  for (const table of structure.tables) {
+    const split = splitHeader(table, new RegExp(`${WEIGHT_HEADING.source}|${MAX_SCORE_HEADING.source}`, 'i'));
+    if (!split) continue;
+
+    const { header, rows } = split;
+    const weightColumn = findColumn(header, WEIGHT_HEADING);
+    const maxColumn = findColumn(header, MAX_SCORE_HEADING, [weightColumn]);
+    if (weightColumn < 0 && maxColumn < 0) continue;
+
+    const nameColumn = Math.max(0, findColumn(header, CRITERION_HEADING, [weightColumn, maxColumn]));
+    for (const row of rows) {
+      const name = row[nameColumn]?.trim();
+      if (!name || TOTAL_HEADING.test(name)) continue;
+
+      const weight = weightColumn >= 0 ? parseNumber(row[weightColumn]) : null;
+      const maxScore = maxColumn >= 0 ? parseNumber(row[maxColumn]) : null;
+      if (weight === null && maxScore === null) continue;
+
+      weightings.push({ name, weight, maxScore, page: table.page });
+    }
+  }
+
+  return weightings;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/^\(?(?:\d+(?:\.\d+)*|[a-z])[.)]\s+/, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Overwrite the weights and maximum scores Claude read from the text with the
+ * ones from the document's tables. Criteria are matched on their normalised
+ * names only - a near miss would put one criterion's weight on another - and
+ * table rows no criterion matched are kept as unmatchedWeightings for review.
+ * When Claude found no criteria, the table rows become the criteria.
+ */
+export function applyCriteriaWeightings(analysis: any, weightings: CriterionWeighting[]): any {
+  if (!analysis || weightings.length === 0) return analysis;
+
+  const byName = new Map(weightings.map(weighting => [normalizeName(weighting.name), weighting]));
+  const criteria: any[] = Array.isArray(analysis.criteria) ? analysis.criteria : [];
+
+  if (criteria.length === 0) {
+    return {
+      ...analysis,
+      criteria: weightings.map(weighting => ({
+        name: weighting.name,
+        ...(weighting.weight !== null && { weight: weighting.weight }),
+        ...(weighting.maxScore !== null && { maxScore: weighting.maxScore }),
+        weightSource: 'table',
+      })),
+    };
+  }
+
+  const used = new Set<CriterionWeighting>();
+  const unmatchedCriteria: string[] = [];
+  const updated = criteria.map(criterion => {
+    const weighting = byName.get(normalizeName(String(criterion?.name ?? '')));
+    if (!weighting) {
+      unmatchedCriteria.push(String(criterion?.name ?? ''));
+      return criterion;
+    }
+
+    used.add(weighting);
+    return {
+      ...criterion,
+      ...(weighting.weight !== null && { weight: weighting.weight }),
+      ...(weighting.maxScore !== null && { maxScore: weighting.maxScore }),
+      weightSource: 'table',
+    };
+  });
+  const unmatchedWeightings = weightings.filter(weighting => !used.has(weighting));
+
+  console.log(`📊 Applied table weightings to ${criteria.length - unmatchedCriteria.length} of ${criteria.length} criteria`);
+  if (unmatchedCriteria.length > 0) {
+    console.warn(`⚠️ No table weighting named like criteria: ${unmatchedCriteria.join('; ')}`);
+  }
+  if (unmatchedWeightings.length > 0) {
+    console.warn(`⚠️ Table weightings matching no criterion: ${unmatchedWeightings.map(weighting => `${weighting.name} (page ${weighting.page})`).join('; ')}`);
+  }
+
+  return {
+    ...analysis,
+    criteria: updated,
+    ...(unmatchedWeightings.length > 0 && { unmatchedWeightings }),
+  };
+}
+
+/**
+ * Bidders and their scores from tables with a bidder column and numeric score
+ * columns, such as an evaluation report's summary of technical scores
+ */
+export function readBidderScores(structure: DocumentStructure): BidderScore[] {
+  const scores: BidderScore[] = [];
+
+  for (const table of structure.tables) {
+    const split = splitHeader(table, BIDDER_HEADING);
+    if (!split) continue;
+
+    const { header, rows } = split;
+    const bidderColumn = findColumn(header, BIDDER_HEADING);
+
+    const scoreColumns = header
+      .map((_, index) => index)
+      .filter(index => index !== bidderColumn && rows.some(row => parseNumber(row[index]) !== null));
+    if (scoreColumns.length === 0) continue;
+
+    const totalColumn = scoreColumns.find(index => TOTAL_HEADING.test(header[index]));
+    for (const row of rows) {
+      const bidder = row[bidderColumn]?.trim();
+      if (!bidder || TOTAL_HEADING.test(bidder)) continue;
+
+      scores.push({
+        bidder,
+        scores: Object.fromEntries(scoreColumns.map(index => [header[index] || `Column ${index + 1}`, parseNumber(row[index])])),
+        total: totalColumn !== undefined ? parseNumber(row[totalColumn]) : null,
+        page: table.page,
+      });
+    }
+  }
+
+  return scores;
+}
@@ -0,0 +1,284 @@
+/**
+ * DOCX Templates - Output templates filled inside the Word document
+ *
+ * A fund's output template is kept as the DOCX it was uploaded as, so the filled
+ * report keeps the fund's letterhead, styles, tables, headers and footers. The
+ * template tags (template-language.ts) are filled in the document XML:
+ * - Word splits text into runs wherever formatting, spell-checking or revision
+ *   history changes, so the pieces of a tag are first joined into the run the
+ *   tag starts in (the tag takes that run's formatting)
+ * - a block tag ({% for %}, {% if %}, {% else %}, ...) alone in a paragraph or a
+ *   table row takes the paragraph or row with it
+ * - a table row that starts with {% for %} or {% if %} and ends with the matching
+ *   {% endfor %} or {% endif %} is repeated or left out as a whole, e.g. one row
+ *   per criterion:  | {% for c in criteria %}{{ c.name }} | {{ c.score }}{% endfor %} |
+ * - values with line breaks (e.g. the bullets filter) become line breaks
+ * Documents written with [placeholder] text are converted as plain-text templates
+ * are (template-engine.ts), reading each placeholder in the context of its paragraph.
+ *
+ * The XML is matched with regular expressions, as in office-formats.ts.
+ */
+
+import JSZip from 'jszip';
+import { WORD_MIME_TYPES, resolveMimeType } from './document-extractors';
+import { decodeEntities, escapeXml } from './office-formats';
+import { LEGACY_PLACEHOLDER, convertLegacyPlaceholder } from './template-engine';
+import { hasTemplateSyntax, parseTemplate, renderTemplate, type RenderOptions } from './template-language';
+
+export const DOCX_MIME_TYPE = WORD_MIME_TYPES[0];
+
+export interface DocxTemplateResult {
+  buffer: Buffer;
+  missing: string[];   // Paths that had no value and no default
+  unmapped: string[];  // [placeholder] text with no template equivalent, left as written
+}
+
+// Parts of the package that can hold template tags
+const TEMPLATE_PARTS = /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+
+const TEXT_ELEMENT = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g;
+const TAG = /\{\{[\s\S]*?\}\}|\{%[\s\S]*?%\}/g;
+const BLOCK_OPENERS = ['for', 'if'];
+
+// Rendered values go inside a <w:t>; line breaks close it and open another
+const escapeRunText = (value: string) =>
+  escapeXml(value).replace(/\r?\n/g, '</w:t><w:br/><w:t xml:space="preserve">');
+
+const blockKind = (tag: string) => tag.match(/^\{%\s*(\w+)/)?.[1] ?? null;
+
+export const isDocxTemplate = (filename: string, mimeType?: string | null) =>
+  resolveMimeType(filename, mimeType) === DOCX_MIME_TYPE;
+
+/**
+ * The innermost elements with the tag, e.g. paragraphs that don't hold a text
+ * box with paragraphs of its own
+ */
+const innermostElements = (tag: string) =>
+  new RegExp(`<${tag}(?:\\s[^>]*[^/>])?>(?:(?!<${tag}[\\s>/])[\\s\\S])*?</${tag}>`, 'g');
+
+const PARAGRAPH = innermostElements('w:p');
+const TABLE_ROW = innermostElements('w:tr');
+
+function textOf(xml: string): string {
+  return [...xml.matchAll(TEXT_ELEMENT)].map(match => decodeEntities(match[1])).join('');
+}
+
+/**
+ * Let `edit` change the text of the fragment's <w:t> elements. Changed elements,
+ * and elements holding tags, are written back with their spaces preserved.
+ */
+function editText(xml: string, edit: (texts: string[]) => void): string {
+  const original = [...xml.matchAll(TEXT_ELEMENT)].map(match => decodeEntities(match[1]));
+  const texts = [...original];
+  edit(texts);
+
+  let index = 0;
+  return xml.replace(TEXT_ELEMENT, element => {
+    const text = texts[index];
+    const changed = text !== original[index++];
+    return changed || /\{\{|\{%/.test(text) ? `<w:t xml:space="preserve">${escapeXml(text)}</w:t>` : element;
+  });
+}
+
+/**
+ * Move each tag that Word split across runs into the run it starts in
+ */
+function joinSplitTags(paragraph: string, pattern: RegExp): string {
+  return editText(paragraph, texts => {
+    const starts: number[] = [];
+    let offset = 0;
+    for (const text of texts) {
+      starts.push(offset);
+      offset += text.length;
+    }
+    const text = texts.join('');
+    const runAt = (position: number) =>
+      texts.findIndex((run, index) => position >= starts[index] && position < starts[index] + run.length);
+
+    // Right to left, so the runs a tag is joined into keep their earlier text
+    const spans = [...text.matchAll(pattern)].map(match => [match.index!, match.index! + match[0].length]).reverse();
+    for (const [start, end] of spans) {
+      const first = runAt(start);
+      const last = runAt(end - 1);
+      if (first === last) continue;
+
+      texts[first] = texts[first].slice(0, start - starts[first]) + text.slice(start, end);
+      for (let i = first + 1; i < last; i++) texts[i] = '';
+      texts[last] = texts[last].slice(end - starts[last]);
+    }
+  });
+}
+
+function convertLegacyParagraph(paragraph: string, unmapped: Set<string>): string {
+  const line = textOf(paragraph);
+  return editText(paragraph, texts => {
+    texts.forEach((text, index) => {
+      texts[index] = text.replace(LEGACY_PLACEHOLDER, placeholder => {
+        const replacement = convertLegacyPlaceholder(placeholder, line);
+        if (!replacement) unmapped.add(placeholder);
+        return replacement ?? placeholder;
+      });
+    });
+  });
+}
+
+/**
+ * The block tag a paragraph or row holds and nothing else, if any
+ */
+function standaloneBlockTag(xml: string): string | null {
+  const text = textOf(xml).trim();
+  const tags = text.match(TAG);
+  return tags?.length === 1 && tags[0] === text && blockKind(text) ? text : null;
+}
+
+/**
+ * A table row starting with {% for %} or {% if %} and ending with the matching
+ * end tag, with those two tags moved outside the row. Null for any other row,
+ * including rows with an {% else %} of that block, which can't be split off.
+ */
+function wrapTableRow(row: string): string | null {
+  const text = textOf(row).trim();
+  const tags = [...text.matchAll(TAG)].map(match => match[0]);
+  const opening = tags[0];
+  const closing = tags[tags.length - 1];
+  const kind = opening && blockKind(opening);
+  if (tags.length < 2 || !kind || !BLOCK_OPENERS.includes(kind) || !text.startsWith(opening)
+    || !text.endsWith(closing) || blockKind(closing) !== `end${kind}`) {
+    return null;
+  }
+
+  let depth = 0;
+  for (const [index, tag] of tags.entries()) {
+    const tagKind = blockKind(tag);
+    if (tagKind && BLOCK_OPENERS.includes(tagKind)) depth++;
+    else if (tagKind?.startsWith('end')) depth--;
+    else if ((tagKind === 'else' || tagKind === 'elsif') && depth === 1) return null;
+    if (depth === 0 && index < tags.length - 1) return null;
+  }
+
+  const inner = editText(row, texts => {
+    const first = texts.findIndex(run => run.includes(opening));
+    texts[first] = texts[first].replace(opening, '');
+    const last = texts.findLastIndex(run => run.includes(closing));
+    const at = texts[last].lastIndexOf(closing);
+    texts[last] = texts[last].slice(0, at) + texts[last].slice(at + closing.length);
+  });
+  return `${escapeXml(opening)}${inner}${escapeXml(closing)}`;
+}
+
+/**
+ * Block tags have to open and close in the same element (paragraph, row, cell),
+ * or the filled document would not be valid XML
+ */
+function checkBlockPlacement(xml: string, part: string) {
+  const elements: string[] = [];
+  const blocks: Array<{ tag: string; depth: number }> = [];
+  const misplaced = (tag: string) => new Error(
+    `${part}: "${tag}" is in a different paragraph or table cell from the rest of its block. ` +
+    'Put the tags of a block in one paragraph, or each in a paragraph or table row of its own.'
+  );
+
+  // Tags are matched whole, so a < or > in a condition isn't taken for XML
+  for (const match of xml.matchAll(/<(\/?)([\w:]+)(?:\s[^>]*)?>|\{%[\s\S]*?%\}|\{\{[\s\S]*?\}\}/g)) {
+    const [token, closing, name] = match;
+    if (token.startsWith('{{')) continue;
+    if (name) {
+      if (token.endsWith('/>')) continue;
+      if (closing) {
+        elements.pop();
+        const block = blocks[blocks.length - 1];
+        if (block && elements.length < block.depth) throw misplaced(block.tag);
+      } else {
+        elements.push(name);
+      }
+      continue;
+    }
+
+    const kind = blockKind(token);
+    if (kind && BLOCK_OPENERS.includes(kind)) {
+      blocks.push({ tag: token, depth: elements.length });
+    } else if (kind === 'else' || kind === 'elsif' || kind?.startsWith('end')) {
+      const block = blocks[blocks.length - 1];
+      if (block && block.depth !== elements.length) throw misplaced(token);
+      if (kind.startsWith('end')) blocks.pop();
+    }
+  }
+}
+
+/**
+ * Turn a part's XML into template source: split tags joined, legacy placeholders
+ * converted and block tags moved out of the paragraphs and rows they stand in
+ */
+function prepareTemplatePart(xml: string, legacy: boolean, unmapped: Set<string>): string {
+  const pattern = legacy ? LEGACY_PLACEHOLDER : TAG;
+  let source = xml.replace(PARAGRAPH, paragraph => {
+    const joined = joinSplitTags(paragraph, pattern);
+    return legacy ? convertLegacyParagraph(joined, unmapped) : joined;
+  });
+
+  source = source.replace(TABLE_ROW, row => {
+    const tag = standaloneBlockTag(row);
+    return tag ? escapeXml(tag) : wrapTableRow(row) ?? row;
+  });
+  source = source.replace(PARAGRAPH, paragraph => {
+    const tag = standaloneBlockTag(paragraph);
+    return tag ? escapeXml(tag) : paragraph;
+  });
+
+  // Tags are read as written: entities decoded, Word's curly quotes and non-breaking spaces made plain
+  return source.replace(/\{\{[^<]*?\}\}|\{%[^<]*?%\}/g, tag =>
+    decodeEntities(tag).replace(/[“”]/g, '"').replace(/[‘’]/g, "'").replace(/\u00a0/g, ' '));
+}
+
+/**
+ * Fill a DOCX output template with template data (see buildTemplateContext in
+ * template-engine.ts). Throws when the template has a syntax error or a block
+ * tag that can't be placed.
+ */
+export async function renderDocxTemplate(
+  docx: Buffer,
+  data: Record<string, any>,
+  options: RenderOptions = {}
+): Promise<DocxTemplateResult> {
+  const zip = await JSZip.loadAsync(docx);
+  const parts = await Promise.all(
+    Object.keys(zip.files)
+      .filter(name => TEMPLATE_PARTS.test(name))
+      .map(async name => ({ name, xml: await zip.file(name)!.async('string') }))
+  );
+  if (!parts.some(part => part.name === 'word/document.xml')) {
+    throw new Error('Output template is not a Word document (no word/document.xml)');
+  }
+
+  const legacy = !parts.some(part => hasTemplateSyntax(part.xml.replace(/<[^>]+>/g, '')));
+  const missing = new Set<string>();
+  const unmapped = new Set<string>();
+
+  for (const { name, xml } of parts) {
+    const source = prepareTemplatePart(xml, legacy, unmapped);
+    if (!hasTemplateSyntax(source)) continue;
+
+    let template;
+    try {
+      template = parseTemplate(source);
+    } catch (error) {
+      // Line numbers count lines of XML, which mean nothing to the template's author
+      const message = (error instanceof Error ? error.message : String(error)).replace(/ on line \d+/, '');
+      throw new Error(`${name}: ${message}`);
+    }
+    checkBlockPlacement(source, name);
+
+    const rendered = renderTemplate(template, data, { ...options, escape: escapeRunText });
+    rendered.missing.forEach(path => missing.add(path));
+    // A table cell left without a paragraph by a block tag is invalid; give it an empty one
+    zip.file(name, rendered.output.replace(
+      /(<w:tc(?:\s[^>]*[^/>])?>\s*(?:<w:tcPr>[\s\S]*?<\/w:tcPr>)?\s*)(<\/w:tc>)/g,
+      '$1<w:p/>$2'
+    ));
+  }
+
+  console.log(`📝 Filled DOCX template${legacy ? ' ([placeholder] text converted)' : ''}: ${missing.size} missing value(s)`);
+
+  const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return { buffer, missing: [...missing], unmapped: [...unmapped] };
+}
@@ -0,0 +1,61 @@
+/**
+ * DOCX Writer - Word documents from report text
+ *
+ * For reports whose output template isn't a Word document: the filled template
+ * text becomes a DOCX with markdown headings (#, ##, ###) as Word headings,
+ * "- " and "* " lines as bullets and blank lines between paragraphs. Emphasis
+ * markers (**) are dropped, as in the PDF report pack.
+ */
+
+import JSZip from 'jszip';
+import { escapeXml } from './office-formats';
+
+function paragraphXml(lines: string[], style?: string): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  const runs = lines
+    .map(line => `<w:t xml:space="preserve">${escapeXml(line.replace(/[*_]{2}/g, ''))}</w:t>`)
+    .join('<w:br/>');
+  return `<w:p>${properties}<w:r>${runs}</w:r></w:p>`;
+}
+
+export async function toDocx(text: string): Promise<Buffer> {
+  const paragraphs: string[] = [];
+  let block: string[] = [];
+  const flush = () => {
+    if (block.length) paragraphs.push(paragraphXml(block));
+    block = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*•]\s+(.*)$/);
+    if (heading) {
+      flush();
+      paragraphs.push(paragraphXml([heading[2]], `Heading${Math.min(heading[1].length, 3)}`));
+    } else if (bullet) {
+      flush();
+      paragraphs.push(paragraphXml([`• ${bullet[1]}`], 'ListParagraph'));
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      block.push(line);
+    }
+  }
+  flush();
+
+  const heading = (id: string, size: number) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="heading ${id.slice(-1)}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${Number(id.slice(-1)) - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`);
+  zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`);
+  zip.file('word/styles.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>${heading('Heading1', 32)}${heading('Heading2', 28)}${heading('Heading3', 24)}<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:ind w:left="360"/></w:pPr></w:style></w:styles>`);
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr></w:body></w:document>`);
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,445 @@
+/**
+ * Email Formats - Messages and attachments from EML and Outlook MSG files
+ *
+ * Supporting letters are often forwarded as saved emails. Both readers return
+ * the headers, the body text (the HTML body when there is no plain one) and the
+ * attachments as files, which document-extractors.ts extracts in turn.
+ *
+ * - EML: MIME (RFC 5322/2045), including nested multiparts, encoded-word
+ *   headers and attached messages
+ * - MSG: an OLE compound file of MAPI property streams; read with the small
+ *   compound file reader below. Embedded messages become text attachments.
+ */
+
+import { extractHtml } from './office-formats';
+
+export interface EmailAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  subject: string;
+  from: string;
+  to: string;
+  cc: string;
+  date: string;
+  body: string;
+  attachments: EmailAttachment[];
+}
+
+/**
+ * Headers and body as the text analysed for the message itself
+ */
+export function formatEmail(email: ParsedEmail): string {
+  const headers = [
+    ['From', email.from],
+    ['To', email.to],
+    ['Cc', email.cc],
+    ['Date', email.date],
+    ['Subject', email.subject],
+  ].filter(([, value]) => value).map(([name, value]) => `${name}: ${value}`);
+
+  const attachments = email.attachments.length > 0
+    ? [`Attachments: ${email.attachments.map(attachment => attachment.filename).join(', ')}`]
+    : [];
+
+  return [...headers, ...attachments, '', email.body.trim()].join('\n');
+}
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// EML (MIME)
+// ---------------------------------------------------------------------------
+
+interface MimeHeaders {
+  [name: string]: string;
+}
+
+/**
+ * Decode =?charset?B|Q?...?= encoded words in a header value
+ */
+function decodeHeader(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, encoded: string) => {
+      const bytes = encoding.toLowerCase() === 'b'
+        ? Buffer.from(encoded, 'base64')
+        : Buffer.from(encoded.replace(/_/g, ' ').replace(/=([0-9a-f]{2})/gi, (__, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+      return decodeCharset(bytes, charset);
+    });
+}
+
+function parseHeaders(block: string): MimeHeaders {
+  const headers: MimeHeaders = {};
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    headers[name] ??= line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+/**
+ * The value and parameters of a structured header (Content-Type, Content-Disposition)
+ */
+function parseHeaderValue(header: string | undefined): { value: string; params: Record<string, string> } {
+  const [value, ...rest] = (header ?? '').split(';');
+  const params: Record<string, string> = {};
+  for (const part of rest) {
+    const match = part.trim().match(/^([^=*]+)(\*\d*\*?)?=\s*"?([^"]*)"?$/);
+    if (!match) continue;
+    const name = match[1].trim().toLowerCase();
+    let param = match[3];
+    // RFC 2231: filename*=UTF-8''name%20with%20spaces (possibly split into filename*0*, filename*1*)
+    if (match[2]?.endsWith('*')) {
+      const encoded = param.match(/^([^']*)'[^']*'(.*)$/);
+      try {
+        param = decodeURIComponent(encoded ? encoded[2] : param);
+      } catch {
+        // Keep the value as sent
+      }
+    }
+    params[name] = match[2] && params[name] && /\d/.test(match[2]) ? params[name] + param : param;
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeBody(body: string, encoding: string | undefined): Buffer {
+  switch (encoding?.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body.replace(/=\r?\n/g, '').replace(/=([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      );
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+interface MimeParts {
+  plain: string | null;
+  html: string | null;
+  attachments: EmailAttachment[];
+}
+
+function walkMimePart(source: string, parts: MimeParts, depth: number = 0) {
+  const split = source.search(/\r?\n\r?\n/);
+  const headers = parseHeaders(split >= 0 ? source.slice(0, split) : source);
+  const body = split >= 0 ? source.slice(split).replace(/^\r?\n\r?\n/, '') : '';
+
+  const contentType = parseHeaderValue(headers['content-type'] || 'text/plain');
+  const disposition = parseHeaderValue(headers['content-disposition']);
+  const filename = decodeHeader(disposition.params.filename || contentType.params.name || '');
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary && depth < 10) {
+    const boundary = `--${contentType.params.boundary}`;
+    const sections = body.split(boundary).slice(1);
+    for (const section of sections) {
+      if (section.startsWith('--')) break;
+      walkMimePart(section.replace(/^\r?\n/, ''), parts, depth + 1);
+    }
+    return;
+  }
+
+  const content = decodeBody(body, headers['content-transfer-encoding']);
+  const isAttachment = disposition.value === 'attachment' || !!filename
+    || !(contentType.value === 'text/plain' || contentType.value === 'text/html');
+
+  if (!isAttachment && contentType.value === 'text/plain' && parts.plain === null) {
+    parts.plain = decodeCharset(content, contentType.params.charset);
+  } else if (!isAttachment && contentType.value === 'text/html' && parts.html === null) {
+    parts.html = decodeCharset(content, contentType.params.charset);
+  } else if (content.length > 0) {
+    parts.attachments.push({
+      filename: filename || (contentType.value === 'message/rfc822' ? 'attached-message.eml' : `attachment-${parts.attachments.length + 1}`),
+      mimeType: contentType.value,
+      content,
+    });
+  }
+}
+
+/**
+ * Parse a MIME message (.eml)
+ */
+export function parseEml(buffer: Buffer): ParsedEmail {
+  const source = buffer.toString('latin1');
+  const split = source.search(/\r?\n\r?\n/);
+  const headers = parseHeaders(split >= 0 ? source.slice(0, split) : source);
+
+  const parts: MimeParts = { plain: null, html: null, attachments: [] };
+  walkMimePart(source, parts);
+
+  return {
+    subject: decodeHeader(headers.subject ?? ''),
+    from: decodeHeader(headers.from ?? ''),
+    to: decodeHeader(headers.to ?? ''),
+    cc: decodeHeader(headers.cc ?? ''),
+    date: headers.date ?? '',
+    body: parts.plain ?? (parts.html ? extractHtml(parts.html).text : ''),
+    attachments: parts.attachments,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Compound file (OLE2) reader
+// ---------------------------------------------------------------------------
+
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+
+interface DirectoryEntry {
+  name: string;
+  type: number;  // 1 storage, 2 stream, 5 root
+  left: number;
+  right: number;
+  child: number;
+  start: number;
+  size: number;
+}
+
+class CompoundFile {
+  private readonly sectorSize: number;
+  private readonly fat: number[] = [];
+  private readonly miniFat: number[] = [];
+  private readonly miniStream: Buffer;
+  private readonly miniCutoff: number;
+  readonly entries: DirectoryEntry[] = [];
+
+  constructor(private readonly buffer: Buffer) {
+    if (buffer.length < 512 || buffer.readUInt32LE(0) !== 0xe011cfd0 || buffer.readUInt32LE(4) !== 0xe11ab1a1) {
+      throw new Error('Not an Outlook message (no compound file signature)');
+    }
+
+    this.sectorSize = 1 << buffer.readUInt16LE(0x1e);
+    this.miniCutoff = buffer.readUInt32LE(0x38);
+
+    // FAT sectors are listed in the header's DIFAT, continued in DIFAT sectors
+    const fatSectors: number[] = [];
+    for (let i = 0; i < 109; i++) {
+      fatSectors.push(buffer.readUInt32LE(0x4c + i * 4));
+    }
+    const perSector = this.sectorSize / 4;
+    let difat = buffer.readUInt32LE(0x44);
+    for (let guard = 0; difat !== END_OF_CHAIN && difat !== FREE_SECTOR && guard < 10000; guard++) {
+      const sector = this.sector(difat);
+      for (let i = 0; i < perSector - 1; i++) {
+        fatSectors.push(sector.readUInt32LE(i * 4));
+      }
+      difat = sector.readUInt32LE((perSector - 1) * 4);
+    }
+    for (const id of fatSectors.filter(id => id !== FREE_SECTOR)) {
+      const sector = this.sector(id);
+      for (let i = 0; i < perSector; i++) {
+        this.fat.push(sector.readUInt32LE(i * 4));
+      }
+    }
+
+    const miniFatData = this.readChain(buffer.readUInt32LE(0x3c));
+    for (let i = 0; i + 4 <= miniFatData.length; i += 4) {
+      this.miniFat.push(miniFatData.readUInt32LE(i));
+    }
+
+    const directory = this.readChain(buffer.readUInt32LE(0x30));
+    for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+      const nameLength = Math.max(0, directory.readUInt16LE(offset + 0x40) - 2);
+      this.entries.push({
+        name: directory.toString('utf16le', offset, offset + Math.min(nameLength, 64)),
+        type: directory[offset + 0x42],
+        left: directory.readUInt32LE(offset + 0x44),
+        right: directory.readUInt32LE(offset + 0x48),
+        child: directory.readUInt32LE(offset + 0x4c),
+        start: directory.readUInt32LE(offset + 0x74),
+        size: directory.readUInt32LE(offset + 0x78),
+      });
+    }
+
+    const root = this.entries[0];
+    this.miniStream = root ? this.readChain(root.start).subarray(0, root.size) : Buffer.alloc(0);
+  }
+
+  private sector(id: number): Buffer {
+    const offset = (id + 1) * this.sectorSize;
+    return this.buffer.subarray(offset, offset + this.sectorSize);
+  }
+
+  private readChain(start: number, table: number[] = this.fat, read = (id: number) => this.sector(id)): Buffer {
+    const sectors: Buffer[] = [];
+    const seen = new Set<number>();
+    for (let id = start; id !== END_OF_CHAIN && id < table.length && !seen.has(id); id = table[id]) {
+      seen.add(id);
+      sectors.push(read(id));
+    }
+    return Buffer.concat(sectors);
+  }
+
+  read(entry: DirectoryEntry): Buffer {
+    if (entry.size < this.miniCutoff) {
+      const miniSector = (id: number) => this.miniStream.subarray(id * 64, id * 64 + 64);
+      return this.readChain(entry.start, this.miniFat, miniSector).subarray(0, entry.size);
+    }
+    return this.readChain(entry.start).subarray(0, entry.size);
+  }
+
+  /**
+   * Entries directly inside a storage (walks its red-black tree of children)
+   */
+  children(storage: DirectoryEntry): DirectoryEntry[] {
+    const found: DirectoryEntry[] = [];
+    const visit = (id: number, depth: number) => {
+      if (id === NO_STREAM || id >= this.entries.length || depth > 512) return;
+      const entry = this.entries[id];
+      visit(entry.left, depth + 1);
+      found.push(entry);
+      visit(entry.right, depth + 1);
+    };
+    visit(storage.child, 0);
+    return found;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MSG (Outlook)
+// ---------------------------------------------------------------------------
+
+const PROPERTY_STREAM = /^__substg1\.0_([0-9A-F]{4})([0-9A-F]{4})$/i;
+
+const MSG_PROPERTIES = {
+  subject: '0037',
+  senderName: '0C1A',
+  senderEmail: '0C1F',
+  displayTo: '0E04',
+  displayCc: '0E03',
+  body: '1000',
+  htmlBody: '1013',
+  attachLongFilename: '3707',
+  attachFilename: '3704',
+  attachMimeTag: '370E',
+  attachData: '3701',
+} as const;
+
+interface MsgStorage {
+  strings: Map<string, string>;
+  binaries: Map<string, Buffer>;
+  storages: Map<string, DirectoryEntry>;
+  properties: Buffer | null;
+}
+
+function readMsgStorage(file: CompoundFile, storage: DirectoryEntry): MsgStorage {
+  const result: MsgStorage = { strings: new Map(), binaries: new Map(), storages: new Map(), properties: null };
+
+  for (const entry of file.children(storage)) {
+    if (entry.type === 1) {
+      result.storages.set(entry.name, entry);
+      continue;
+    }
+    if (entry.name === '__properties_version1.0') {
+      result.properties = file.read(entry);
+      continue;
+    }
+
+    const property = entry.name.match(PROPERTY_STREAM);
+    if (!property) continue;
+    const [, id, type] = property;
+    const data = file.read(entry);
+    if (type.toUpperCase() === '001F') {
+      result.strings.set(id.toUpperCase(), data.toString('utf16le').replace(/\0+$/, ''));
+    } else if (type.toUpperCase() === '001E') {
+      result.strings.set(id.toUpperCase(), data.toString('latin1').replace(/\0+$/, ''));
+    } else if (type.toUpperCase() === '0102') {
+      result.binaries.set(id.toUpperCase(), data);
+    }
+  }
+  // Embedded messages are storages named like a property (__substg1.0_3701000D)
+  for (const [name, entry] of result.storages) {
+    const property = name.match(PROPERTY_STREAM);
+    if (property) result.storages.set(property[1].toUpperCase(), entry);
+  }
+
+  return result;
+}
+
+/**
+ * Submit time from the fixed-length properties stream (PidTagClientSubmitTime)
+ */
+function readSubmitTime(properties: Buffer | null, headerSize: number): string {
+  if (!properties) return '';
+  for (let offset = headerSize; offset + 16 <= properties.length; offset += 16) {
+    if (properties.readUInt32LE(offset) === 0x00390040) {
+      const filetime = properties.readBigUInt64LE(offset + 8);
+      const ms = Number(filetime / BigInt(10000)) - 11644473600000;
+      return Number.isFinite(ms) && ms > 0 ? new Date(ms).toUTCString() : '';
+    }
+  }
+  return '';
+}
+
+function readMsgMessage(file: CompoundFile, storage: DirectoryEntry, headerSize: number, depth: number): ParsedEmail {
+  const message = readMsgStorage(file, storage);
+  const text = (id: string) => message.strings.get(id) ?? '';
+
+  const senderEmail = text(MSG_PROPERTIES.senderEmail);
+  const senderName = text(MSG_PROPERTIES.senderName);
+  const htmlBody = message.strings.get(MSG_PROPERTIES.htmlBody) ?? message.binaries.get(MSG_PROPERTIES.htmlBody)?.toString('utf8');
+
+  const attachments: EmailAttachment[] = [];
+  for (const [name, entry] of message.storages) {
+    if (!name.startsWith('__attach_version1.0_')) continue;
+    const attachment = readMsgStorage(file, entry);
+    const filename = attachment.strings.get(MSG_PROPERTIES.attachLongFilename)
+      || attachment.strings.get(MSG_PROPERTIES.attachFilename)
+      || `attachment-${attachments.length + 1}`;
+
+    const data = attachment.binaries.get(MSG_PROPERTIES.attachData);
+    const embedded = attachment.storages.get(MSG_PROPERTIES.attachData);
+    if (data) {
+      attachments.push({
+        filename,
+        mimeType: attachment.strings.get(MSG_PROPERTIES.attachMimeTag) ?? '',
+        content: data,
+      });
+    } else if (embedded && depth < 5) {
+      const nested = readMsgMessage(file, embedded, 24, depth + 1);
+      attachments.push({
+        filename: `${nested.subject || 'attached message'}.txt`,
+        mimeType: 'text/plain',
+        content: Buffer.from(formatEmail(nested), 'utf8'),
+      });
+    }
+  }
+
+  return {
+    subject: text(MSG_PROPERTIES.subject),
+    from: senderEmail && senderName && senderEmail !== senderName ? `${senderName} <${senderEmail}>` : senderName || senderEmail,
+    to: text(MSG_PROPERTIES.displayTo),
+    cc: text(MSG_PROPERTIES.displayCc),
+    date: readSubmitTime(message.properties, headerSize),
+    body: message.strings.get(MSG_PROPERTIES.body) ?? (htmlBody ? extractHtml(htmlBody).text : ''),
+    attachments,
+  };
+}
+
+/**
+ * Parse an Outlook message (.msg)
+ */
+export function parseMsg(buffer: Buffer): ParsedEmail {
+  const file = new CompoundFile(buffer);
+  const root = file.entries[0];
+  if (!root) {
+    throw new Error('Outlook message has no root storage');
+  }
+  // The top-level properties stream has a 32-byte header, embedded messages 24
+  return readMsgMessage(file, root, 32, 0);
+}
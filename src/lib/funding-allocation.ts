@@ -0,0 +1,494 @@
+/**
+ * Funding Allocation - Ranked shortlist and budget-constrained funding decisions
+ *
+ * Turns a fund's completed assessments into a funding decision:
+ * 1. Each application is scored as the weighted mean of its final criterion scores,
+ *    using the fund brain's criterion weights (or what-if weights). Applications
+ *    without matching criterion scores fall back to their final overall score.
+ * 2. Applications are ranked by that score (ties: smaller request first).
+ * 3. Minimum-count quotas are filled first from the best-ranked matching applications,
+ *    then the rest of the ranking is funded in order while the budget and any maximum
+ *    quotas allow.
+ * 4. Applications that could not be funded are waitlisted (up to waitlistSize);
+ *    applications below the minimum score, without a requested amount, or beyond the
+ *    waitlist are declined.
+ * 5. Applications whose requested amount can't be read are left for review rather
+ *    than declined; correct them with `requestedAmounts` and recalculate.
+ *
+ * The requested amount comes from ExtractedApplicationData.totalFundingRequested saved
+ * with the assessment. Allocations are recalculated on demand, so changing weights,
+ * budget or quotas is a what-if; saved scenarios keep their inputs and result.
+ */
+
+import { AssessmentStatus, ReviewStatus } from '@prisma/client';
+import { prisma } from './database-s3';
+import type { SessionUser } from './rbac';
+import { CriteriaScores, toCriteriaScores } from './assessment-review';
+
+export const ALLOCATION_ATTRIBUTES = ['region', 'organisationType'] as const;
+export type AllocationAttribute = typeof ALLOCATION_ATTRIBUTES[number];
+
+export type AllocationDecision = 'FUNDED' | 'WAITLIST' | 'DECLINED' | 'NEEDS_REVIEW';
+
+export interface AllocationQuota {
+  attribute: AllocationAttribute;
+  value: string;
+  minCount?: number;
+  maxCount?: number;
+  maxBudgetShare?: number; // 0-1 share of the total budget
+}
+
+export interface AllocationOptions {
+  budget: number;
+  weights?: Record<string, number>;
+  quotas?: AllocationQuota[];
+  minimumScore?: number;
+  waitlistSize?: number;
+  // What-if corrections keyed by assessment id
+  requestedAmounts?: Record<string, number>;
+  attributes?: Record<string, Partial<Record<AllocationAttribute, string>>>;
+}
+
+export interface AllocationCandidate {
+  assessmentId: string;
+  organizationName: string;
+  projectName: string | null;
+  finalScore: number;
+  criteriaScores: CriteriaScores | null;
+  requestedAmount: number | null;
+  requestedAmountText: string | null;  // The amount as given, when there is one
+  region: string | null;
+  organisationType: string | null;
+  createdAt: Date;
+}
+
+export interface AllocationEntry extends Omit<AllocationCandidate, 'criteriaScores' | 'createdAt'> {
+  rank: number;
+  weightedScore: number;
+  decision: AllocationDecision;
+  reason: string;
+}
+
+export interface QuotaSummary extends AllocationQuota {
+  fundedCount: number;
+  fundedAmount: number;
+  met: boolean;
+}
+
+export interface AllocationResult {
+  budget: number;
+  fundedAmount: number;
+  remainingBudget: number;
+  fundedCount: number;
+  waitlistCount: number;
+  declinedCount: number;
+  needsReviewCount: number;
+  cutLineScore: number | null;
+  weights: Record<string, number>;
+  quotas: QuotaSummary[];
+  minimumScore: number | null;
+  shortlist: AllocationEntry[];
+}
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const REGION_KEYS = ['region', 'location', 'state', 'province'];
+const ORGANISATION_TYPE_KEYS = ['organisationType', 'organizationType', 'entityTypeConfirmed', 'entityType'];
+
+/**
+ * First non-empty value for any of the keys, searching the saved assessment JSON
+ * (assessmentData, its extractedFields and the scoring results' extractedFields)
+ */
+export function findField(sources: any[], keys: string[]): unknown {
+  for (const source of sources) {
+    if (!source || typeof source !== 'object') continue;
+    for (const candidate of [source.extractedFields, source.originalResult?.extractedFields, source]) {
+      if (!candidate || typeof candidate !== 'object') continue;
+      for (const key of keys) {
+        const value = candidate[key];
+        if (value !== undefined && value !== null && value !== '') {
+          return value;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mn: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+};
+
+// A figure with an optional multiplier. Thousands may also be grouped with spaces ("45 000").
+const AMOUNT_FIGURE = /(\d{1,3}(?:[   ]\d{3})+(?:\.\d+)?|\d[\d,.]*)(?:\s*(k|thousand|mn|million|m|bn|billion|b)\b)?/g;
+// Figures that aren't amounts: "over 2 years", "for 12 months", "20%"
+const NON_AMOUNT_AFTER = /^\s*(%|percent\b|(years?|yrs?|months?|mths?|weeks?|days?|quarters?)\b)/;
+// Built with the constructor: regex literals with the u flag need an ES2018 target
+const CURRENCY_BEFORE = new RegExp('(\\p{Sc}|\\b(usd|nzd|aud|cad|gbp|eur|fjd)\\b)\\s*$', 'u');
+const CURRENCY_AFTER = new RegExp('^\\s*(\\p{Sc}|(usd|nzd|aud|cad|gbp|eur|fjd)\\b|dollars\\b|pounds\\b|euros?\\b)', 'u');
+const NEGATIVE_BEFORE = new RegExp('-\\p{Sc}?$', 'u');
+const RANGE = new RegExp('\\d\\s*[a-z]*\\s*(-|–|—|\\bto\\b)\\s*[a-z]*\\s*\\p{Sc}?\\s*\\d', 'u');
+
+/**
+ * A requested amount from a number or text such as "£50,000", "50k",
+ * "€1.2 million", "NZ$ 45 000" or "$50,000 over 2 years". Durations and
+ * percentages are ignored; of several remaining figures the one marked with a
+ * currency is taken. Null when the amount is ambiguous rather than guessed:
+ * ranges ("£50k-£75k"), several unmarked figures, negative amounts and figures
+ * whose separators read two ways ("1.250.000", "50,5").
+ */
+export function parseAmount(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const text = value.toLowerCase();
+  if (RANGE.test(text)) {
+    return null;
+  }
+
+  const figures = [...text.matchAll(AMOUNT_FIGURE)]
+    .map(match => {
+      const index = match.index ?? 0;
+      const before = text.slice(0, index);
+      const after = text.slice(index + match[0].length);
+      return { figure: match[1], suffix: match[2], before, after, currency: CURRENCY_BEFORE.test(before) || CURRENCY_AFTER.test(after) };
+    })
+    .filter(figure => !NON_AMOUNT_AFTER.test(figure.after));
+
+  const marked = figures.filter(figure => figure.currency);
+  const amount = figures.length === 1 ? figures[0] : marked.length === 1 ? marked[0] : null;
+  if (!amount || NEGATIVE_BEFORE.test(amount.before)) {
+    return null;
+  }
+
+  // Thousands separators are commas (or spaces) in groups of three; the only dot is the decimal point
+  const digits = amount.figure.replace(/[.,]$/, '').replace(/[   ]/g, '');
+  if (!/^\d{1,3}(,\d{3})+(\.\d+)?$|^\d+(\.\d+)?$/.test(digits)) {
+    return null;
+  }
+
+  const parsed = Number(digits.replace(/,/g, '')) * (amount.suffix ? AMOUNT_MULTIPLIERS[amount.suffix] : 1);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Criterion weights from the fund brain (`criteria: [{ name, weight }]`)
+ */
+export function getFundWeights(fundBrain: unknown): Record<string, number> {
+  const criteria = (fundBrain as any)?.criteria;
+  if (!Array.isArray(criteria)) {
+    return {};
+  }
+
+  const weights: Record<string, number> = {};
+  for (const criterion of criteria) {
+    const weight = typeof criterion?.weight === 'number' ? criterion.weight : parseFloat(criterion?.weight);
+    if (criterion?.name && Number.isFinite(weight) && weight > 0) {
+      weights[criterion.name] = weight;
+    }
+  }
+  return weights;
+}
+
+/**
+ * Weighted mean of the criterion scores that have a weight. Weight names and
+ * criterion keys are matched ignoring case and punctuation.
+ */
+export function weightedScore(candidate: Pick<AllocationCandidate, 'finalScore' | 'criteriaScores'>, weights: Record<string, number>): number {
+  if (!candidate.criteriaScores) {
+    return candidate.finalScore;
+  }
+
+  const scores = new Map(Object.entries(candidate.criteriaScores).map(([criterion, score]) => [normalizeKey(criterion), score]));
+  let total = 0;
+  let totalWeight = 0;
+  for (const [criterion, weight] of Object.entries(weights)) {
+    const score = scores.get(normalizeKey(criterion));
+    if (score !== undefined && weight > 0) {
+      total += score * weight;
+      totalWeight += weight;
+    }
+  }
+
+  return totalWeight > 0 ? round2(total / totalWeight) : candidate.finalScore;
+}
+
+const quotaMatches = (quota: AllocationQuota, candidate: AllocationCandidate) => {
+  const value = candidate[quota.attribute];
+  return !!value && normalizeKey(value) === normalizeKey(quota.value);
+};
+
+const describeQuota = (quota: AllocationQuota) =>
+  `${quota.attribute === 'region' ? 'region' : 'organisation type'} "${quota.value}"`;
+
+/**
+ * Rank candidates and apply the budget, quotas and waitlist
+ */
+export function allocateFunding(candidates: AllocationCandidate[], options: AllocationOptions): AllocationResult {
+  const weights = options.weights || {};
+  const quotas = options.quotas || [];
+  const minimumScore = options.minimumScore ?? null;
+
+  const ranked = candidates
+    .map(candidate => ({ candidate, score: weightedScore(candidate, weights) }))
+    .sort((a, b) =>
+      b.score - a.score ||
+      (a.candidate.requestedAmount ?? Infinity) - (b.candidate.requestedAmount ?? Infinity) ||
+      a.candidate.createdAt.getTime() - b.candidate.createdAt.getTime()
+    );
+
+  const decisions = new Map<string, { decision: AllocationDecision; reason: string }>();
+  const quotaState = quotas.map(() => ({ count: 0, amount: 0 }));
+  let remaining = options.budget;
+
+  const eligible = ranked.filter(({ candidate, score }) => {
+    if (candidate.requestedAmount === null) {
+      decisions.set(candidate.assessmentId, candidate.requestedAmountText
+        ? { decision: 'NEEDS_REVIEW', reason: `Requested amount could not be read: "${candidate.requestedAmountText}"` }
+        : { decision: 'DECLINED', reason: 'No funding amount requested' });
+      return false;
+    }
+    if (minimumScore !== null && score < minimumScore) {
+      decisions.set(candidate.assessmentId, { decision: 'DECLINED', reason: `Below minimum score of ${minimumScore}` });
+      return false;
+    }
+    return true;
+  });
+
+  // Why a candidate cannot be funded right now (null when it can)
+  const blockedBy = (candidate: AllocationCandidate): string | null => {
+    const amount = candidate.requestedAmount as number;
+    if (amount > remaining) {
+      return 'Exceeds remaining budget';
+    }
+    for (const [index, quota] of quotas.entries()) {
+      if (!quotaMatches(quota, candidate)) continue;
+      if (quota.maxCount !== undefined && quotaState[index].count >= quota.maxCount) {
+        return `Maximum number funded for ${describeQuota(quota)}`;
+      }
+      if (quota.maxBudgetShare !== undefined && quotaState[index].amount + amount > quota.maxBudgetShare * options.budget) {
+        return `Budget share limit for ${describeQuota(quota)}`;
+      }
+    }
+    return null;
+  };
+
+  const fund = (candidate: AllocationCandidate, reason: string) => {
+    const amount = candidate.requestedAmount as number;
+    remaining -= amount;
+    quotas.forEach((quota, index) => {
+      if (quotaMatches(quota, candidate)) {
+        quotaState[index].count += 1;
+        quotaState[index].amount += amount;
+      }
+    });
+    decisions.set(candidate.assessmentId, { decision: 'FUNDED', reason });
+  };
+
+  // Minimum quotas take the best-ranked matching applications first
+  quotas.forEach((quota, index) => {
+    if (!quota.minCount) return;
+    for (const { candidate } of eligible) {
+      if (quotaState[index].count >= quota.minCount) break;
+      if (decisions.has(candidate.assessmentId) || !quotaMatches(quota, candidate)) continue;
+      if (blockedBy(candidate) === null) {
+        fund(candidate, `Funded to meet ${describeQuota(quota)} quota`);
+      }
+    }
+  });
+
+  let waitlisted = 0;
+  for (const { candidate } of eligible) {
+    if (decisions.has(candidate.assessmentId)) continue;
+
+    const blocked = blockedBy(candidate);
+    if (blocked === null) {
+      fund(candidate, 'Within budget');
+    } else if (options.waitlistSize === undefined || waitlisted < options.waitlistSize) {
+      waitlisted += 1;
+      decisions.set(candidate.assessmentId, { decision: 'WAITLIST', reason: blocked });
+    } else {
+      decisions.set(candidate.assessmentId, { decision: 'DECLINED', reason: `${blocked}; waitlist full` });
+    }
+  }
+
+  const shortlist: AllocationEntry[] = ranked.map(({ candidate, score }, index) => {
+    const { criteriaScores, createdAt, ...entry } = candidate;
+    return {
+      ...entry,
+      rank: index + 1,
+      weightedScore: score,
+      ...(decisions.get(candidate.assessmentId) as { decision: AllocationDecision; reason: string }),
+    };
+  });
+
+  const funded = shortlist.filter(entry => entry.decision === 'FUNDED');
+  const fundedAmount = round2(funded.reduce((sum, entry) => sum + (entry.requestedAmount ?? 0), 0));
+
+  return {
+    budget: options.budget,
+    fundedAmount,
+    remainingBudget: round2(options.budget - fundedAmount),
+    fundedCount: funded.length,
+    waitlistCount: shortlist.filter(entry => entry.decision === 'WAITLIST').length,
+    declinedCount: shortlist.filter(entry => entry.decision === 'DECLINED').length,
+    needsReviewCount: shortlist.filter(entry => entry.decision === 'NEEDS_REVIEW').length,
+    cutLineScore: funded.length > 0 ? Math.min(...funded.map(entry => entry.weightedScore)) : null,
+    weights,
+    quotas: quotas.map((quota, index) => ({
+      ...quota,
+      fundedCount: quotaState[index].count,
+      fundedAmount: round2(quotaState[index].amount),
+      met: !quota.minCount || quotaState[index].count >= quota.minCount,
+    })),
+    minimumScore,
+    shortlist,
+  };
+}
+
+/**
+ * Validate allocation options from a request body, throwing on bad input
+ */
+export function parseAllocationOptions(body: any): AllocationOptions {
+  const budget = Number(body?.budget);
+  if (!Number.isFinite(budget) || budget <= 0) {
+    throw new Error('budget must be a positive number');
+  }
+
+  const weights: Record<string, number> = {};
+  for (const [criterion, weight] of Object.entries(body?.weights || {})) {
+    const value = Number(weight);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Weight for "${criterion}" must be a non-negative number`);
+    }
+    weights[criterion] = value;
+  }
+
+  const quotas: AllocationQuota[] = (Array.isArray(body?.quotas) ? body.quotas : []).map((quota: any) => {
+    if (!ALLOCATION_ATTRIBUTES.includes(quota?.attribute) || !quota?.value) {
+      throw new Error(`Quotas need an attribute (${ALLOCATION_ATTRIBUTES.join(', ')}) and a value`);
+    }
+    const maxBudgetShare = quota.maxBudgetShare !== undefined && quota.maxBudgetShare !== null ? Number(quota.maxBudgetShare) : undefined;
+    if (maxBudgetShare !== undefined && !(maxBudgetShare > 0 && maxBudgetShare <= 1)) {
+      throw new Error('maxBudgetShare must be between 0 and 1');
+    }
+    return {
+      attribute: quota.attribute,
+      value: String(quota.value),
+      ...(quota.minCount !== undefined && quota.minCount !== null && { minCount: Math.max(0, parseInt(quota.minCount)) }),
+      ...(quota.maxCount !== undefined && quota.maxCount !== null && { maxCount: Math.max(0, parseInt(quota.maxCount)) }),
+      ...(maxBudgetShare !== undefined && { maxBudgetShare }),
+    };
+  });
+
+  return {
+    budget,
+    weights,
+    quotas,
+    minimumScore: body?.minimumScore !== undefined && body?.minimumScore !== null ? Number(body.minimumScore) : undefined,
+    waitlistSize: body?.waitlistSize !== undefined && body?.waitlistSize !== null ? Math.max(0, parseInt(body.waitlistSize)) : undefined,
+    requestedAmounts: body?.requestedAmounts,
+    attributes: body?.attributes,
+  };
+}
+
+export class FundingAllocationService {
+  /**
+   * Completed, non-rejected assessments of a fund as allocation candidates
+   */
+  static async getCandidates(fundId: string, options: Pick<AllocationOptions, 'requestedAmounts' | 'attributes'> = {}): Promise<AllocationCandidate[]> {
+    const assessments = await prisma.assessments.findMany({
+      where: {
+        fundId,
+        status: AssessmentStatus.COMPLETED,
+        reviewStatus: { not: ReviewStatus.REJECTED },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return assessments.map(assessment => {
+      const sources = [assessment.assessmentData, assessment.scoringResults];
+      const overrides = options.attributes?.[assessment.id] || {};
+      const requested = options.requestedAmounts?.[assessment.id] ?? findField(sources, ['totalFundingRequested']);
+      const region = overrides.region ?? findField(sources, REGION_KEYS);
+      const organisationType = overrides.organisationType ?? findField(sources, ORGANISATION_TYPE_KEYS);
+
+      return {
+        assessmentId: assessment.id,
+        organizationName: assessment.organizationName,
+        projectName: assessment.projectName,
+        finalScore: Number(assessment.overallScore ?? 0),
+        criteriaScores: toCriteriaScores(assessment.criteriaScores),
+        requestedAmount: parseAmount(requested),
+        requestedAmountText: requested === undefined || requested === null || String(requested).trim() === '' ? null : String(requested).trim(),
+        region: region ? String(region) : null,
+        organisationType: organisationType ? String(organisationType) : null,
+        createdAt: assessment.createdAt,
+      };
+    });
+  }
+
+  /**
+   * Calculate an allocation without saving it (what-if)
+   */
+  static async calculate(fundId: string, options: AllocationOptions): Promise<AllocationResult> {
+    const fund = await prisma.funds.findUnique({ where: { id: fundId }, select: { fundBrain: true } });
+    if (!fund) {
+      throw new Error(`Fund ${fundId} not found`);
+    }
+
+    const candidates = await this.getCandidates(fundId, options);
+    return allocateFunding(candidates, {
+      ...options,
+      weights: { ...getFundWeights(fund.fundBrain), ...options.weights },
+    });
+  }
+
+  /**
+   * Calculate and save an allocation scenario
+   */
+  static async save(fundId: string, name: string, options: AllocationOptions, user: SessionUser) {
+    const result = await this.calculate(fundId, options);
+
+    const allocation = await prisma.funding_allocations.create({
+      data: {
+        fundId,
+        name,
+        budget: result.budget,
+        weights: result.weights,
+        quotas: (options.quotas ?? []) as any,
+        minimumScore: result.minimumScore,
+        result: result as any,
+        fundedCount: result.fundedCount,
+        fundedAmount: result.fundedAmount,
+        createdBy: user.username,
+      }
+    });
+
+    return { allocation, result };
+  }
+
+  static async list(fundId: string) {
+    return prisma.funding_allocations.findMany({
+      where: { fundId },
+      select: {
+        id: true,
+        name: true,
+        budget: true,
+        minimumScore: true,
+        fundedCount: true,
+        fundedAmount: true,
+        createdBy: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Hybrid Retrieval - Lexical + vector search over fund documents
+ *
+ * A query runs two retrievers against the module's index in the vector store
+ * (OpenSearch or the local store, see vector-store.ts):
+ * - lexical: BM25 over chunk content (and filename)
+ * - vector: k-NN over the chunk embeddings
+ * Their rankings are fused with reciprocal rank fusion (RRF), so a chunk ranked
+ * well by either retriever surfaces without having to calibrate BM25 scores
+ * against cosine similarities. The fused list can then be reranked by a
+ * cross-encoder endpoint or the LLM.
+ *
+ * Document-type, document and chunk filters are applied inside both retrievers.
+ * Queries with no text and no embedding (e.g. "all selection criteria for a
+ * fund") are plain filtered lookups in document order.
+ *
+ * Every response carries diagnostics: each hit's rank and score per retriever,
+ * its fused and rerank scores and the highlighted terms BM25 matched, plus
+ * per-query candidate counts and timings. Hits of structure-aware chunks also
+ * carry a citation of their section and pages (e.g. "Section 3.2 Budget, p. 14").
+ *
+ * Configuration (environment variables):
+ * - RETRIEVAL_CANDIDATES: candidates taken from each retriever (default 50)
+ * - RETRIEVAL_RRF_K: RRF rank constant (default 60)
+ * - RETRIEVAL_RERANKER: none | llm | cross-encoder (default none)
+ * - RETRIEVAL_RERANK_ENDPOINT: cross-encoder /rerank URL (Text Embeddings Inference format)
+ * - RETRIEVAL_RERANK_CANDIDATES: fused hits passed to the reranker (default 20)
+ */
+
+import { generateEmbedding } from './aws-opensearch';
+import { claudeService } from './claude-service';
+import { formatChunkCitation } from './chunker';
+import { LexicalHit, RetrievalFilters, SearchResult, VectorModuleType, VectorStoreBackend, getVectorStore } from './vector-store';
+
+export type { RetrievalFilters } from './vector-store';
+export type RetrievalModuleType = VectorModuleType;
+export type RerankMode = 'none' | 'llm' | 'cross-encoder';
+export type RetrievalMode = 'hybrid' | 'lexical' | 'vector' | 'filter';
+
+export interface RetrievalQuery {
+  text?: string;
+  // Precomputed query embedding; generated from `text` when omitted
+  embedding?: number[];
+  filters?: RetrievalFilters;
+  limit?: number;
+  moduleType?: RetrievalModuleType;
+  rerank?: RerankMode;
+}
+
+export interface HitDiagnostics {
+  matchedBy: Array<'lexical' | 'vector' | 'filter'>;
+  lexicalRank: number | null;
+  lexicalScore: number | null;
+  vectorRank: number | null;
+  vectorScore: number | null;
+  fusedScore: number;
+  rerankScore: number | null;
+  highlights: string[];
+}
+
+export interface RetrievalHit extends SearchResult {
+  // Section and page range of the chunk, when it was indexed with its structure
+  citation: string | null;
+  diagnostics: HitDiagnostics;
+}
+
+export interface RetrievalDiagnostics {
+  mode: RetrievalMode;
+  backend: VectorStoreBackend;
+  moduleType: RetrievalModuleType;
+  query: string | null;
+  filters: RetrievalFilters;
+  candidates: { lexical: number; vector: number; fused: number };
+  rrfK: number;
+  reranker: RerankMode;
+  warnings: string[];
+  timingsMs: { embedding: number; lexical: number; vector: number; rerank: number; total: number };
+}
+
+export interface RetrievalResponse {
+  hits: RetrievalHit[];
+  diagnostics: RetrievalDiagnostics;
+}
+
+// Longer query text is truncated for BM25 (whole applications are used as queries)
+const MAX_LEXICAL_QUERY_CHARS = 2000;
+const RERANK_PASSAGE_CHARS = 1200;
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getCandidateCount(): number {
+  return positiveInt(process.env.RETRIEVAL_CANDIDATES, 50);
+}
+
+export function getRrfK(): number {
+  return positiveInt(process.env.RETRIEVAL_RRF_K, 60);
+}
+
+export function getDefaultReranker(): RerankMode {
+  const mode = process.env.RETRIEVAL_RERANKER;
+  return mode === 'llm' || mode === 'cross-encoder' ? mode : 'none';
+}
+
+/**
+ * Reciprocal rank fusion: score(d) = sum over rankings of 1 / (k + rank(d))
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = getRrfK()): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+  return scores;
+}
+
+async function timed<T>(fn: () => Promise<T>): Promise<[T, number]> {
+  const start = Date.now();
+  const result = await fn();
+  return [result, Date.now() - start];
+}
+
+const noResults = <T>(): Promise<[T[], number]> => Promise.resolve([[], 0]);
+
+/**
+ * Score passages with a cross-encoder served in the Text Embeddings Inference
+ * /rerank format: POST { query, texts } -> [{ index, score }]
+ */
+async function crossEncoderScores(query: string, passages: string[]): Promise<number[]> {
+  const endpoint = process.env.RETRIEVAL_RERANK_ENDPOINT;
+  if (!endpoint) {
+    throw new Error('RETRIEVAL_RERANK_ENDPOINT is required for cross-encoder reranking');
+  }
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, texts: passages, truncate: true }),
+  });
+  if (!response.ok) {
+    throw new Error(`Rerank endpoint returned ${response.status}: ${await response.text()}`);
+  }
+
+  const scores = new Array<number>(passages.length).fill(0);
+  for (const { index, score } of (await response.json()) as Array<{ index: number; score: number }>) {
+    scores[index] = score;
+  }
+  return scores;
+}
+
+/**
+ * Score passages 0-10 for relevance with the LLM
+ */
+async function llmScores(query: string, passages: string[]): Promise<number[]> {
+  const prompt = `Rate how relevant each passage is to the query, from 0 (unrelated) to 10 (directly answers it).
+
+QUERY:
+${query.slice(0, MAX_LEXICAL_QUERY_CHARS)}
+
+PASSAGES:
+${passages.map((passage, index) => `[${index}] ${passage}`).join('\n\n')}
+
+Respond with JSON only: [{"index": 0, "score": 7}, ...] with one entry per passage.`;
+
+  const response = await claudeService.executeTask({
+    task: 'retrieval_rerank',
+    prompt,
+    temperature: 0,
+    maxTokens: 1000,
+  });
+  if (!response.success) {
+    throw new Error(response.error || 'LLM rerank failed');
+  }
+
+  const json = response.content.replace(/```json\s*|```/g, '').trim();
+  const scores = new Array<number>(passages.length).fill(0);
+  for (const { index, score } of JSON.parse(json.slice(json.indexOf('['), json.lastIndexOf(']') + 1)) as Array<{ index: number; score: number }>) {
+    if (index >= 0 && index < passages.length) scores[index] = Number(score) || 0;
+  }
+  return scores;
+}
+
+/**
+ * Retrieve the chunks most relevant to a query (see module comment)
+ */
+export async function hybridSearch(query: RetrievalQuery): Promise<RetrievalResponse> {
+  const start = Date.now();
+  const moduleType = query.moduleType ?? 'FUNDING';
+  const limit = query.limit ?? 5;
+  const filters = query.filters ?? {};
+  const store = getVectorStore();
+  const text = query.text?.trim() || null;
+  const candidates = Math.max(getCandidateCount(), limit);
+  const rrfK = getRrfK();
+  const reranker = text ? (query.rerank ?? getDefaultReranker()) : 'none';
+  const warnings: string[] = [];
+  const timingsMs = { embedding: 0, lexical: 0, vector: 0, rerank: 0, total: 0 };
+
+  // No query: plain filtered lookup
+  if (!text && !query.embedding) {
+    const [results, elapsed] = await timed(() => store.filterSearch(filters, limit, moduleType));
+    timingsMs.lexical = elapsed;
+    timingsMs.total = Date.now() - start;
+    return {
+      hits: results.map(result => ({
+        ...result,
+        citation: formatChunkCitation(result.metadata ?? {}),
+        diagnostics: {
+          matchedBy: ['filter'],
+          lexicalRank: null,
+          lexicalScore: null,
+          vectorRank: null,
+          vectorScore: null,
+          fusedScore: 0,
+          rerankScore: null,
+          highlights: [],
+        },
+      })),
+      diagnostics: {
+        mode: 'filter',
+        backend: store.backend,
+        moduleType,
+        query: null,
+        filters,
+        candidates: { lexical: 0, vector: 0, fused: results.length },
+        rrfK,
+        reranker: 'none',
+        warnings,
+        timingsMs,
+      },
+    };
+  }
+
+  let embedding = query.embedding;
+  if (!embedding && text) {
+    try {
+      [embedding, timingsMs.embedding] = await timed(() => generateEmbedding(text));
+    } catch (error) {
+      // Lexical results are still useful without the vector retriever
+      warnings.push(`Embedding failed, lexical only: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const [[lexical, lexicalMs], [vector, vectorMs]] = await Promise.all([
+    text ? timed(() => store.lexicalSearch(text.slice(0, MAX_LEXICAL_QUERY_CHARS), filters, candidates, moduleType)) : noResults<LexicalHit>(),
+    embedding ? timed(() => store.vectorSearch(embedding!, filters, candidates, moduleType)) : noResults<SearchResult>(),
+  ]);
+  timingsMs.lexical = lexicalMs;
+  timingsMs.vector = vectorMs;
+
+  const lexicalRanks = new Map(lexical.map((hit, index) => [hit.result.id, index]));
+  const vectorRanks = new Map(vector.map((result, index) => [result.id, index]));
+  const fused = reciprocalRankFusion([lexical.map(hit => hit.result.id), vector.map(result => result.id)], rrfK);
+
+  const byId = new Map<string, RetrievalHit>();
+  const register = (result: SearchResult, highlights: string[]) => {
+    if (byId.has(result.id)) return;
+    const lexicalRank = lexicalRanks.get(result.id);
+    const vectorRank = vectorRanks.get(result.id);
+    byId.set(result.id, {
+      ...result,
+      score: fused.get(result.id) ?? 0,
+      citation: formatChunkCitation(result.metadata ?? {}),
+      diagnostics: {
+        matchedBy: [...(lexicalRank !== undefined ? ['lexical' as const] : []), ...(vectorRank !== undefined ? ['vector' as const] : [])],
+        lexicalRank: lexicalRank !== undefined ? lexicalRank + 1 : null,
+        lexicalScore: lexicalRank !== undefined ? lexical[lexicalRank].result.score : null,
+        vectorRank: vectorRank !== undefined ? vectorRank + 1 : null,
+        vectorScore: vectorRank !== undefined ? vector[vectorRank].score : null,
+        fusedScore: fused.get(result.id) ?? 0,
+        rerankScore: null,
+        highlights,
+      },
+    });
+  };
+  lexical.forEach(hit => register(hit.result, hit.highlights));
+  vector.forEach(result => register(result, []));
+
+  let ranked = [...byId.values()].sort((a, b) => b.diagnostics.fusedScore - a.diagnostics.fusedScore);
+
+  if (reranker !== 'none' && text && ranked.length > 1) {
+    const pool = ranked.slice(0, Math.max(positiveInt(process.env.RETRIEVAL_RERANK_CANDIDATES, 20), limit));
+    const rerankStart = Date.now();
+    try {
+      const passages = pool.map(hit => hit.content.slice(0, RERANK_PASSAGE_CHARS));
+      const scores = reranker === 'llm' ? await llmScores(text, passages) : await crossEncoderScores(text, passages);
+      pool.forEach((hit, index) => {
+        hit.diagnostics.rerankScore = scores[index];
+        hit.score = scores[index];
+      });
+      ranked = [
+        ...pool.sort((a, b) => (b.diagnostics.rerankScore! - a.diagnostics.rerankScore!) || (b.diagnostics.fusedScore - a.diagnostics.fusedScore)),
+        ...ranked.slice(pool.length),
+      ];
+    } catch (error) {
+      warnings.push(`Rerank failed, fused order kept: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    timingsMs.rerank = Date.now() - rerankStart;
+  }
+
+  timingsMs.total = Date.now() - start;
+  const mode: RetrievalMode = text && embedding ? 'hybrid' : text ? 'lexical' : 'vector';
+
+  console.log(`🔎 Retrieval (${mode}${reranker !== 'none' ? ` + ${reranker} rerank` : ''}): ${lexical.length} lexical, ${vector.length} vector, ${byId.size} fused candidates in ${timingsMs.total}ms`);
+
+  return {
+    hits: ranked.slice(0, limit),
+    diagnostics: {
+      mode,
+      backend: store.backend,
+      moduleType,
+      query: text,
+      filters,
+      candidates: { lexical: lexical.length, vector: vector.length, fused: byId.size },
+      rrfK,
+      reranker,
+      warnings,
+      timingsMs,
+    },
+  };
+}
+
+/**
+ * Get all selection criteria for a fund
+ */
+export async function getFundCriteria(fundId: string, moduleType: RetrievalModuleType = 'FUNDING'): Promise<RetrievalHit[]> {
+  return (await hybridSearch({ filters: { fundId, documentTypes: ['SELECTION_CRITERIA'] }, limit: 10, moduleType })).hits;
+}
+
+/**
+ * Get good examples for a fund
+ */
+export async function getFundGoodExamples(fundId: string, moduleType: RetrievalModuleType = 'FUNDING'): Promise<RetrievalHit[]> {
+  return (await hybridSearch({ filters: { fundId, documentTypes: ['GOOD_EXAMPLES'] }, limit: 5, moduleType })).hits;
+}
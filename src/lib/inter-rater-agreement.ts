@@ -0,0 +1,145 @@
+/**
+ * Inter-Rater Agreement - Spread and kappa statistics for panel scoring
+ *
+ * Scores are on a 0-100 scale. Kappa statistics work on categories, so scores
+ * are first grouped into equal-width bands (5 bands of 20 points by default).
+ *
+ * - Cohen's kappa: exactly two raters who rated every subject
+ * - Fleiss' kappa: any number of raters; subjects may have different rater counts
+ *
+ * Configuration (environment variables):
+ * - KAPPA_SCORE_BANDS: number of score bands used for kappa (default 5)
+ */
+
+export interface ScoreSpread {
+  raters: number;
+  mean: number;
+  min: number;
+  max: number;
+  spread: number;
+  standardDeviation: number;
+}
+
+export type KappaMethod = 'cohen' | 'fleiss';
+
+export interface KappaResult {
+  kappa: number | null;
+  method: KappaMethod | null;
+  subjects: number;
+}
+
+const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+export function getScoreBands(): number {
+  const bands = parseInt(process.env.KAPPA_SCORE_BANDS || '');
+  return Number.isFinite(bands) && bands >= 2 ? bands : 5;
+}
+
+/**
+ * Map a 0-100 score to a band index (0 .. bands-1)
+ */
+export function scoreBand(score: number, bands = getScoreBands()): number {
+  const clamped = Math.min(100, Math.max(0, score));
+  return Math.min(bands - 1, Math.floor(clamped / (100 / bands)));
+}
+
+export function describeSpread(scores: number[]): ScoreSpread {
+  if (scores.length === 0) {
+    return { raters: 0, mean: 0, min: 0, max: 0, spread: 0, standardDeviation: 0 };
+  }
+
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length;
+
+  return {
+    raters: scores.length,
+    mean: round(mean, 2),
+    min,
+    max,
+    spread: round(max - min, 2),
+    standardDeviation: round(Math.sqrt(variance), 2),
+  };
+}
+
+/**
+ * Cohen's kappa for two raters. Each pair is [rater A's band, rater B's band] for one subject.
+ */
+export function cohensKappa(pairs: Array<[number, number]>, bands = getScoreBands()): number | null {
+  if (pairs.length === 0) return null;
+
+  const countsA = new Array(bands).fill(0);
+  const countsB = new Array(bands).fill(0);
+  let agreements = 0;
+
+  for (const [a, b] of pairs) {
+    countsA[a] += 1;
+    countsB[b] += 1;
+    if (a === b) agreements += 1;
+  }
+
+  const observed = agreements / pairs.length;
+  const expected = countsA.reduce((sum, count, band) => sum + (count / pairs.length) * (countsB[band] / pairs.length), 0);
+
+  if (expected === 1) {
+    return observed === 1 ? 1 : null;
+  }
+  return round((observed - expected) / (1 - expected));
+}
+
+/**
+ * Fleiss' kappa. Each subject is the list of bands its raters gave; subjects with
+ * fewer than two ratings are ignored.
+ */
+export function fleissKappa(subjects: number[][], bands = getScoreBands()): number | null {
+  const rated = subjects.filter(ratings => ratings.length >= 2);
+  if (rated.length === 0) return null;
+
+  const categoryTotals = new Array(bands).fill(0);
+  let totalRatings = 0;
+  let observedSum = 0;
+
+  for (const ratings of rated) {
+    const counts = new Array(bands).fill(0);
+    for (const band of ratings) {
+      counts[band] += 1;
+      categoryTotals[band] += 1;
+    }
+    totalRatings += ratings.length;
+
+    const n = ratings.length;
+    const agreeingPairs = counts.reduce((sum, count) => sum + count * (count - 1), 0);
+    observedSum += agreeingPairs / (n * (n - 1));
+  }
+
+  const observed = observedSum / rated.length;
+  const expected = categoryTotals.reduce((sum, count) => sum + (count / totalRatings) ** 2, 0);
+
+  if (expected === 1) {
+    return observed === 1 ? 1 : null;
+  }
+  return round((observed - expected) / (1 - expected));
+}
+
+/**
+ * Kappa across subjects, where each subject maps rater id -> score. Uses Cohen's
+ * kappa when the same two raters scored every subject, otherwise Fleiss' kappa.
+ */
+export function computeKappa(subjects: Array<Record<string, number>>, bands = getScoreBands()): KappaResult {
+  const rated = subjects.filter(subject => Object.keys(subject).length >= 2);
+  if (rated.length === 0) {
+    return { kappa: null, method: null, subjects: 0 };
+  }
+
+  const raterSets = new Set(rated.map(subject => Object.keys(subject).sort().join('|')));
+  const [onlyRaters] = raterSets;
+  if (raterSets.size === 1 && onlyRaters.split('|').length === 2) {
+    const [raterA, raterB] = onlyRaters.split('|');
+    const pairs = rated.map((subject): [number, number] => [scoreBand(subject[raterA], bands), scoreBand(subject[raterB], bands)]);
+    return { kappa: cohensKappa(pairs, bands), method: 'cohen', subjects: rated.length };
+  }
+
+  const ratings = rated.map(subject => Object.values(subject).map(score => scoreBand(score, bands)));
+  return { kappa: fleissKappa(ratings, bands), method: 'fleiss', subjects: rated.length };
+}
@@ -0,0 +1,359 @@
+/**
+ * Job Queue - Durable queue on top of the background_jobs table
+ *
+ * Workers claim jobs atomically with `SELECT ... FOR UPDATE SKIP LOCKED`, so two
+ * workers (or two Lambda invocations) never run the same job. A claim is a lease:
+ * the worker owns the job until `leaseExpiresAt` and extends it with heartbeats
+ * while it runs. A worker that dies stops heartbeating; its lease expires and
+ * recoverExpiredLeases() puts the job back in the queue.
+ *
+ * Job lifecycle:
+ *   PENDING --claim--> PROCESSING --complete--> COMPLETED
+ *                          |  \--fail (attempts left)--> PENDING, runAt = now + backoff
+ *                          |   \--fail (no attempts left)--> DEAD_LETTER
+ *                          \--defer--> PENDING (waiting on external work, e.g. Textract)
+ *   PENDING / PROCESSING --cancel--> CANCELLED
+ *   FAILED / DEAD_LETTER / CANCELLED --requeue--> PENDING
+ *
+ * Every claim counts as an attempt; deferring hands the attempt back. Retries wait
+ * JOB_RETRY_BASE_SECONDS * 2^(attempt - 1), capped at JOB_RETRY_MAX_SECONDS.
+ *
+ * Configuration (environment variables):
+ * - JOB_LEASE_SECONDS: lease length (default 300); heartbeats run every third of it
+ * - JOB_RETRY_BASE_SECONDS: delay before the first retry (default 30)
+ * - JOB_RETRY_MAX_SECONDS: longest retry delay (default 1800)
+ */
+
+import os from 'os';
+import crypto from 'crypto';
+import { JobType, Prisma, background_jobs } from '@prisma/client';
+import { prisma } from './database-s3';
+import { tenantFilterSql, withRawSql } from './tenant';
+
+export type QueuedJob = background_jobs;
+
+export interface ClaimOptions {
+  owner?: string;
+  types?: JobType[];
+  leaseMs?: number;
+}
+
+export type FailOutcome = 'RETRY' | 'DEAD_LETTER' | 'LOST';
+
+const secondsFromEnv = (name: string, fallback: number) => {
+  const value = parseFloat(process.env[name] || '');
+  return (Number.isFinite(value) && value > 0 ? value : fallback) * 1000;
+};
+
+export const getLeaseMs = () => secondsFromEnv('JOB_LEASE_SECONDS', 300);
+const getRetryBaseMs = () => secondsFromEnv('JOB_RETRY_BASE_SECONDS', 30);
+const getRetryMaxMs = () => secondsFromEnv('JOB_RETRY_MAX_SECONDS', 1800);
+
+const workerId = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+
+/**
+ * Lease owner name of this process
+ */
+export function getWorkerId(): string {
+  return workerId;
+}
+
+/**
+ * Delay before the next run after `attempts` failed attempts
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(getRetryMaxMs(), getRetryBaseMs() * 2 ** Math.max(0, attempts - 1));
+}
+
+const leaseExpiry = (leaseMs: number) => new Date(Date.now() + leaseMs);
+
+/**
+ * Claim the next due PENDING job, oldest first. Returns null when the queue is empty.
+ */
+export async function claimNextJob(options: ClaimOptions = {}): Promise<QueuedJob | null> {
+  const { owner = workerId, types, leaseMs = getLeaseMs() } = options;
+  const typeFilter = types?.length
+    ? Prisma.sql`AND "type" = ANY(${types}::"JobType"[])`
+    : Prisma.empty;
+
+  // Within a tenant's request only that tenant's jobs are claimed
+  const tenantFilter = await tenantFilterSql();
+
+  const [job] = await withRawSql(() => prisma.$queryRaw<QueuedJob[]>`
+    UPDATE "background_jobs"
+    SET "status" = 'PROCESSING',
+        "attempts" = "attempts" + 1,
+        "leaseOwner" = ${owner},
+        "leaseExpiresAt" = NOW() + ${leaseMs} * INTERVAL '1 millisecond',
+        "heartbeatAt" = NOW(),
+        "startedAt" = COALESCE("startedAt", NOW()),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "background_jobs"
+      WHERE "status" = 'PENDING' AND "runAt" <= NOW() ${typeFilter} ${tenantFilter}
+      ORDER BY "runAt", "createdAt"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `);
+
+  if (job) {
+    console.log(`🔒 Claimed ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+  }
+  return job ?? null;
+}
+
+/**
+ * Claim a specific job, e.g. when a request asks for it to run now. Succeeds for
+ * PENDING jobs (even before their runAt) and for jobs whose lease has expired;
+ * returns null while another worker holds a live lease or the job is finished.
+ */
+export async function claimJob(jobId: string, options: Omit<ClaimOptions, 'types'> = {}): Promise<QueuedJob | null> {
+  const { owner = workerId, leaseMs = getLeaseMs() } = options;
+
+  const tenantFilter = await tenantFilterSql();
+
+  const [job] = await withRawSql(() => prisma.$queryRaw<QueuedJob[]>`
+    UPDATE "background_jobs"
+    SET "status" = 'PROCESSING',
+        "attempts" = "attempts" + 1,
+        "leaseOwner" = ${owner},
+        "leaseExpiresAt" = NOW() + ${leaseMs} * INTERVAL '1 millisecond',
+        "heartbeatAt" = NOW(),
+        "startedAt" = COALESCE("startedAt", NOW()),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "background_jobs"
+      WHERE "id" = ${jobId} ${tenantFilter}
+        AND ("status" = 'PENDING' OR ("status" = 'PROCESSING' AND "leaseExpiresAt" < NOW()))
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `);
+
+  if (!job) {
+    console.log(`⚠️ Job ${jobId} is not claimable (leased by another worker, locked or finished)`);
+    return null;
+  }
+
+  console.log(`🔒 Claimed ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+  return job;
+}
+
+/**
+ * Extend the lease. Returns false when the job is no longer ours (cancelled,
+ * lease expired and taken over), in which case the worker should stop.
+ */
+export async function heartbeatJob(jobId: string, owner: string = workerId, leaseMs: number = getLeaseMs()): Promise<boolean> {
+  const { count } = await prisma.background_jobs.updateMany({
+    where: { id: jobId, status: 'PROCESSING', leaseOwner: owner },
+    data: { leaseExpiresAt: leaseExpiry(leaseMs), heartbeatAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Mark a leased job COMPLETED, with any final progress or metadata
+ */
+export async function completeJob(
+  jobId: string,
+  data: Prisma.background_jobsUpdateManyMutationInput = {},
+  owner: string = workerId
+): Promise<boolean> {
+  const { count } = await prisma.background_jobs.updateMany({
+    where: { id: jobId, status: 'PROCESSING', leaseOwner: owner },
+    data: {
+      progress: 100,
+      ...data,
+      status: 'COMPLETED',
+      completedAt: new Date(),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    console.warn(`⚠️ Job ${jobId} finished but its lease was lost - result not recorded`);
+  }
+  return count > 0;
+}
+
+/**
+ * Record a failed attempt: back to PENDING after a backoff delay while attempts
+ * remain, otherwise DEAD_LETTER. Without an owner the failure is recorded
+ * whoever holds the lease (callers that never claimed the job).
+ */
+export async function failJob(jobId: string, errorMessage: string, owner?: string): Promise<FailOutcome> {
+  const job = await prisma.background_jobs.findUnique({ where: { id: jobId } });
+  if (!job || job.status !== 'PROCESSING' || (owner && job.leaseOwner !== owner)) {
+    console.warn(`⚠️ Job ${jobId} failed but is no longer leased by this worker: ${errorMessage}`);
+    return 'LOST';
+  }
+
+  const attempts = Math.max(job.attempts, 1);
+  const exhausted = attempts >= job.maxAttempts;
+  const { count } = await prisma.background_jobs.updateMany({
+    where: { id: jobId, status: 'PROCESSING', leaseOwner: job.leaseOwner },
+    data: exhausted
+      ? {
+          status: 'DEAD_LETTER',
+          errorMessage,
+          completedAt: new Date(),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          updatedAt: new Date(),
+        }
+      : {
+          status: 'PENDING',
+          errorMessage,
+          runAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          updatedAt: new Date(),
+        },
+  });
+
+  if (count === 0) return 'LOST';
+
+  if (exhausted) {
+    console.error(`🪦 Job ${jobId} moved to dead-letter after ${attempts} attempt(s): ${errorMessage}`);
+    return 'DEAD_LETTER';
+  }
+  console.warn(`🔁 Job ${jobId} attempt ${attempts}/${job.maxAttempts} failed, retrying in ${Math.round(getRetryDelayMs(attempts) / 1000)}s: ${errorMessage}`);
+  return 'RETRY';
+}
+
+/**
+ * Release a leased job to run again after `delayMs` without using up an attempt,
+ * e.g. while an asynchronous Textract job is still running
+ */
+export async function deferJob(
+  jobId: string,
+  delayMs: number,
+  data: Prisma.background_jobsUpdateManyMutationInput = {},
+  owner: string = workerId
+): Promise<boolean> {
+  const { count } = await prisma.background_jobs.updateMany({
+    where: { id: jobId, status: 'PROCESSING', leaseOwner: owner },
+    data: {
+      ...data,
+      status: 'PENDING',
+      attempts: { decrement: 1 },
+      runAt: new Date(Date.now() + delayMs),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Put jobs whose worker stopped heartbeating back in the queue (or in the
+ * dead-letter state when they have used all attempts). PROCESSING jobs without a
+ * lease - started before leases existed - expire one lease length after their
+ * last update. Returns the number of jobs recovered.
+ */
+export async function recoverExpiredLeases(leaseMs: number = getLeaseMs()): Promise<number> {
+  const staleBefore = new Date(Date.now() - leaseMs);
+  const baseMs = getRetryBaseMs();
+  const maxMs = getRetryMaxMs();
+
+  const tenantFilter = await tenantFilterSql();
+
+  const recovered = await withRawSql(() => prisma.$queryRaw<Array<{ id: string; status: string }>>`
+    UPDATE "background_jobs"
+    SET "status" = CASE WHEN "attempts" >= "maxAttempts" THEN 'DEAD_LETTER'::"JobStatus" ELSE 'PENDING'::"JobStatus" END,
+        "runAt" = NOW() + LEAST(${maxMs}, ${baseMs} * POWER(2, GREATEST("attempts" - 1, 0))) * INTERVAL '1 millisecond',
+        "completedAt" = CASE WHEN "attempts" >= "maxAttempts" THEN NOW() ELSE NULL END,
+        "errorMessage" = 'Lease expired: worker ' || COALESCE("leaseOwner", 'unknown') || ' stopped responding',
+        "leaseOwner" = NULL,
+        "leaseExpiresAt" = NULL,
+        "updatedAt" = NOW()
+    WHERE "status" = 'PROCESSING' ${tenantFilter}
+      AND ("leaseExpiresAt" < NOW() OR ("leaseExpiresAt" IS NULL AND "updatedAt" < ${staleBefore}))
+    RETURNING "id", "status"
+  `);
+
+  for (const job of recovered) {
+    console.warn(`⏰ Lease expired for job ${job.id} - now ${job.status}`);
+  }
+  return recovered.length;
+}
+
+/**
+ * Run a claimed job's handler while heartbeating its lease. The signal aborts
+ * when the lease is lost (cancelled or taken over) so the handler can stop early.
+ */
+export async function runWithLease<T>(
+  job: Pick<QueuedJob, 'id' | 'leaseOwner'>,
+  handler: (signal: AbortSignal) => Promise<T>,
+  leaseMs: number = getLeaseMs()
+): Promise<T> {
+  const owner = job.leaseOwner ?? workerId;
+  const controller = new AbortController();
+
+  const interval = setInterval(() => {
+    heartbeatJob(job.id, owner, leaseMs)
+      .then(held => {
+        if (!held && !controller.signal.aborted) {
+          console.warn(`⚠️ Lost lease on job ${job.id} - stopping`);
+          controller.abort();
+        }
+      })
+      .catch(error => console.error(`❌ Heartbeat failed for job ${job.id}:`, error));
+  }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+  try {
+    return await handler(controller.signal);
+  } finally {
+    clearInterval(interval);
+  }
+}
+
+/**
+ * Put a failed, dead-lettered or cancelled job back in the queue to run now.
+ * Attempts start from zero unless `keepAttempts` is set.
+ */
+export async function requeueJob(jobId: string, options: { keepAttempts?: boolean } = {}): Promise<QueuedJob | null> {
+  const { count } = await prisma.background_jobs.updateMany({
+    where: { id: jobId, status: { in: ['FAILED', 'DEAD_LETTER', 'CANCELLED'] } },
+    data: {
+      status: 'PENDING',
+      ...(options.keepAttempts ? {} : { attempts: 0 }),
+      runAt: new Date(),
+      errorMessage: null,
+      completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count === 0) return null;
+  console.log(`🔄 Job ${jobId} requeued`);
+  return prisma.background_jobs.findUnique({ where: { id: jobId } });
+}
+
+/**
+ * Cancel a queued or running job. A running worker notices at its next heartbeat.
+ */
+export async function cancelJob(jobId: string, reason: string = 'Cancelled'): Promise<QueuedJob | null> {
+  const { count } = await prisma.background_jobs.updateMany({
+    where: { id: jobId, status: { in: ['PENDING', 'PROCESSING'] } },
+    data: {
+      status: 'CANCELLED',
+      errorMessage: reason,
+      completedAt: new Date(),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+    },
+  });
+
+  if (count === 0) return null;
+  console.log(`🛑 Job ${jobId} cancelled: ${reason}`);
+  return prisma.background_jobs.findUnique({ where: { id: jobId } });
+}
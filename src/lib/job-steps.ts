@@ -0,0 +1,207 @@
+/**
+ * Job Steps - Checkpointed steps of a background job
+ *
+ * A job is a graph of named steps, e.g. for each document
+ *   extract -> chunk -> analyze-chunk-1..N -> merge
+ * and for brain assembly
+ *   embed (per document) -> assemble
+ * Each step records its status, attempts and output in job_steps. When a job runs
+ * again - after a failure, a lost lease or a Textract deferral - completed steps
+ * return their saved output instead of running again, so the job resumes after
+ * the last completed step.
+ *
+ * Steps are planned before they run so progress covers the whole graph. Steps
+ * whose number depends on earlier output (one analyze step per chunk) are planned
+ * by the step that finds out, e.g. chunk.
+ */
+
+import { Prisma, JobStepStatus, job_steps } from '@prisma/client';
+import { prisma } from './database-s3';
+
+export type JobStep = job_steps;
+
+export interface StepPlan {
+  name: string;
+  label?: string;
+  dependsOn?: string[];
+}
+
+export interface StepOptions {
+  label?: string;
+  dependsOn?: string[];
+  // Extra attempts within this run before the step is marked FAILED
+  retries?: number;
+  retryDelayMs?: number;
+  // Run once every dependency has finished, even if some of them failed
+  allowFailedDependencies?: boolean;
+  // Errors that mean the step is waiting on external work (e.g. Textract) rather
+  // than failing; the step goes back to PENDING
+  isWaiting?: (error: unknown) => boolean;
+}
+
+// What the UI gets: everything but the output
+export interface JobStepSummary {
+  name: string;
+  label: string | null;
+  status: JobStepStatus;
+  dependsOn: string[];
+  attempts: number;
+  errorMessage: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+export interface StepProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  percentage: number;
+  current: string | null;  // Label of the running step, else the next pending one
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toJson = (output: unknown) =>
+  output === undefined || output === null ? Prisma.JsonNull : output as Prisma.InputJsonValue;
+
+/**
+ * Record steps that will run, keeping steps already planned (and their state)
+ */
+export async function planSteps(jobId: string, steps: StepPlan[]): Promise<void> {
+  if (steps.length === 0) return;
+
+  const position = await prisma.job_steps.count({ where: { jobId } });
+  await prisma.job_steps.createMany({
+    data: steps.map((step, index) => ({
+      jobId,
+      name: step.name,
+      label: step.label ?? null,
+      dependsOn: step.dependsOn ?? [],
+      position: position + index,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Run a step, or return its saved output if it already completed. The step's
+ * dependencies must have completed (or failed, with allowFailedDependencies).
+ */
+export async function runStep<T>(
+  jobId: string,
+  name: string,
+  run: () => Promise<T>,
+  options: StepOptions = {}
+): Promise<T> {
+  const { retries = 0, retryDelayMs = 5000 } = options;
+
+  const step = await prisma.job_steps.findUnique({ where: { jobId_name: { jobId, name } } })
+    ?? await prisma.job_steps.create({
+      data: {
+        jobId,
+        name,
+        label: options.label ?? null,
+        dependsOn: options.dependsOn ?? [],
+        position: await prisma.job_steps.count({ where: { jobId } }),
+      },
+    });
+
+  if (step.status === 'COMPLETED') {
+    console.log(`♻️ Step ${name} already completed - using its checkpoint`);
+    return step.output as T;
+  }
+
+  if (step.dependsOn.length > 0) {
+    const finished = await prisma.job_steps.count({
+      where: {
+        jobId,
+        name: { in: step.dependsOn },
+        status: { in: options.allowFailedDependencies ? ['COMPLETED', 'FAILED'] : ['COMPLETED'] },
+      },
+    });
+    if (finished < step.dependsOn.length) {
+      throw new Error(`Step ${name} cannot run before ${step.dependsOn.join(', ')} complete`);
+    }
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    await prisma.job_steps.update({
+      where: { id: step.id },
+      data: { status: 'RUNNING', attempts: { increment: 1 }, startedAt: new Date(), errorMessage: null },
+    });
+
+    try {
+      const output = await run();
+      await prisma.job_steps.update({
+        where: { id: step.id },
+        data: { status: 'COMPLETED', output: toJson(output), completedAt: new Date() },
+      });
+      return output;
+    } catch (error) {
+      if (options.isWaiting?.(error)) {
+        await prisma.job_steps.update({ where: { id: step.id }, data: { status: 'PENDING' } });
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (attempt < retries) {
+        const delayMs = retryDelayMs * (attempt + 1);
+        console.error(`❌ Step ${name} failed (attempt ${attempt + 1}/${retries + 1}), retrying in ${delayMs / 1000}s: ${errorMessage}`);
+        await sleep(delayMs);
+        continue;
+      }
+
+      await prisma.job_steps.update({
+        where: { id: step.id },
+        data: { status: 'FAILED', errorMessage },
+      });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Steps of the given jobs in planned order, keyed by job ID
+ */
+export async function getJobStepSummaries(jobIds: string[]): Promise<Record<string, JobStepSummary[]>> {
+  const steps = await prisma.job_steps.findMany({
+    where: { jobId: { in: jobIds } },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const byJob: Record<string, JobStepSummary[]> = {};
+  for (const step of steps) {
+    (byJob[step.jobId] ??= []).push({
+      name: step.name,
+      label: step.label,
+      status: step.status,
+      dependsOn: step.dependsOn,
+      attempts: step.attempts,
+      errorMessage: step.errorMessage,
+      startedAt: step.startedAt,
+      completedAt: step.completedAt,
+    });
+  }
+  return byJob;
+}
+
+export function summarizeSteps(steps: Pick<JobStepSummary, 'name' | 'label' | 'status'>[]): StepProgress {
+  const completed = steps.filter(step => step.status === 'COMPLETED').length;
+  const current = steps.find(step => step.status === 'RUNNING') ?? steps.find(step => step.status === 'PENDING');
+
+  return {
+    total: steps.length,
+    completed,
+    failed: steps.filter(step => step.status === 'FAILED').length,
+    percentage: steps.length > 0 ? Math.round((completed / steps.length) * 100) : 0,
+    current: current ? current.label ?? current.name : null,
+  };
+}
+
+/**
+ * Forget a job's checkpoints so its next run starts from the first step
+ */
+export async function clearJobSteps(jobId: string): Promise<number> {
+  const { count } = await prisma.job_steps.deleteMany({ where: { jobId } });
+  return count;
+}
@@ -0,0 +1,332 @@
+/**
+ * LLM Provider Layer - One interface for every model call
+ *
+ * ClaudeService, the document field extractor and the RAG assessment helpers all
+ * invoke the model through invokeLLM(), which uses the provider returned by
+ * getLLMProvider() and records token usage for cost accounting. The backend
+ * is chosen by configuration so the pipeline can run against Bedrock in production,
+ * the Anthropic API or an OpenAI-compatible server in development, or a
+ * deterministic fixture backend offline and in tests.
+ *
+ * Configuration (environment variables):
+ * - LLM_PROVIDER: 'bedrock' (default) | 'anthropic' | 'openai' | 'fixture'
+ * - LLM_MODEL_ID: overrides the backend's default model
+ * - ANTHROPIC_API_KEY / ANTHROPIC_BASE_URL: Anthropic API backend
+ * - LLM_OPENAI_API_KEY (falls back to OPENAI_API_KEY) / LLM_OPENAI_BASE_URL: OpenAI-compatible backend
+ * - LLM_FIXTURE_DIR: directory of fixture files for the fixture backend
+ * - LLM_FIXTURE_FALLBACK: content returned by the fixture backend when no fixture matches
+ */
+
+import fs from 'fs';
+import path from 'path';
+import OpenAI from 'openai';
+import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { getAWSCredentials, AWS_REGION } from './aws-credentials';
+import { recordModelUsage } from './usage-tracker';
+
+export type LLMProviderName = 'bedrock' | 'anthropic' | 'openai' | 'fixture';
+
+export interface LLMInvocation {
+  task: string;
+  prompt: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface LLMResult {
+  content: string;
+  tokens: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  invoke(request: LLMInvocation): Promise<LLMResult>;
+}
+
+const DEFAULT_BEDROCK_MODEL_ID = 'anthropic.claude-3-5-sonnet-20241022-v2:0';
+const DEFAULT_ANTHROPIC_MODEL_ID = 'claude-3-5-sonnet-20241022';
+const DEFAULT_OPENAI_MODEL_ID = 'gpt-4o';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+// ============================================================================
+// Bedrock
+// ============================================================================
+
+export class BedrockProvider implements LLMProvider {
+  readonly name = 'bedrock' as const;
+  private client: BedrockRuntimeClient | null = null;
+
+  constructor(readonly model: string = DEFAULT_BEDROCK_MODEL_ID) {}
+
+  // CRITICAL FIX: Create Bedrock client lazily to ensure Lambda execution role is available
+  // Do NOT initialize at construction as credentials may not be ready during cold start
+  private getClient(): BedrockRuntimeClient {
+    if (!this.client) {
+      console.log('🔐 Creating new Bedrock client in llm-provider.ts with Lambda execution role credentials');
+      this.client = new BedrockRuntimeClient({
+        region: AWS_REGION,
+        credentials: getAWSCredentials(), // Returns undefined in production to use Lambda role
+      });
+    }
+    return this.client;
+  }
+
+  async invoke(request: LLMInvocation): Promise<LLMResult> {
+    const requestBody = {
+      anthropic_version: "bedrock-2023-05-31",
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: [
+        {
+          role: "user",
+          content: request.prompt
+        }
+      ]
+    };
+
+    const command = new InvokeModelCommand({
+      modelId: this.model,
+      body: JSON.stringify(requestBody),
+      contentType: "application/json"
+    });
+
+    const response = await this.getClient().send(command);
+    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+
+    return parseAnthropicMessage(responseBody);
+  }
+}
+
+// ============================================================================
+// Anthropic API
+// ============================================================================
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(
+    readonly model: string = DEFAULT_ANTHROPIC_MODEL_ID,
+    private readonly apiKey: string | undefined = process.env.ANTHROPIC_API_KEY,
+    private readonly baseUrl: string = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'
+  ) {}
+
+  async invoke(request: LLMInvocation): Promise<LLMResult> {
+    if (!this.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY not configured for the anthropic LLM provider');
+    }
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: request.prompt }],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Anthropic API error ${response.status}: ${errorText}`);
+    }
+
+    return parseAnthropicMessage(await response.json());
+  }
+}
+
+// ============================================================================
+// OpenAI-compatible
+// ============================================================================
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly model: string = DEFAULT_OPENAI_MODEL_ID,
+    private readonly apiKey: string | undefined = process.env.LLM_OPENAI_API_KEY || process.env.OPENAI_API_KEY,
+    private readonly baseUrl: string | undefined = process.env.LLM_OPENAI_BASE_URL
+  ) {}
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.apiKey) {
+        throw new Error('LLM_OPENAI_API_KEY or OPENAI_API_KEY not configured for the openai LLM provider');
+      }
+      this.client = new OpenAI({ apiKey: this.apiKey, baseURL: this.baseUrl });
+    }
+    return this.client;
+  }
+
+  async invoke(request: LLMInvocation): Promise<LLMResult> {
+    const completion = await this.getClient().chat.completions.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: [{ role: 'user', content: request.prompt }],
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('Invalid response format from OpenAI-compatible endpoint');
+    }
+
+    return {
+      content,
+      tokens: completion.usage?.completion_tokens || 0,
+      inputTokens: completion.usage?.prompt_tokens,
+      outputTokens: completion.usage?.completion_tokens,
+    };
+  }
+}
+
+// ============================================================================
+// Fixture (offline / tests)
+// ============================================================================
+
+/**
+ * Deterministic backend that never leaves the process. Responses are looked up by
+ * task name, first in fixtures registered in code, then in `<LLM_FIXTURE_DIR>/<task>.json`
+ * (either a JSON string or `{ "content": "...", "tokens": 0 }`) or `<task>.txt`.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+  readonly model = 'fixture';
+  private readonly fixtures = new Map<string, LLMResult>();
+
+  constructor(
+    private readonly fixtureDir: string | undefined = process.env.LLM_FIXTURE_DIR,
+    private readonly fallback: string | undefined = process.env.LLM_FIXTURE_FALLBACK
+  ) {}
+
+  register(task: string, content: string, tokens = 0): void {
+    this.fixtures.set(task, { content, tokens });
+  }
+
+  clear(): void {
+    this.fixtures.clear();
+  }
+
+  async invoke(request: LLMInvocation): Promise<LLMResult> {
+    const registered = this.fixtures.get(request.task);
+    if (registered) {
+      return registered;
+    }
+
+    const fromDisk = this.loadFromDisk(request.task);
+    if (fromDisk) {
+      return fromDisk;
+    }
+
+    if (this.fallback !== undefined) {
+      console.warn(`⚠️ No LLM fixture for task '${request.task}', using LLM_FIXTURE_FALLBACK`);
+      return { content: this.fallback, tokens: 0 };
+    }
+
+    throw new Error(`No LLM fixture found for task '${request.task}'`);
+  }
+
+  private loadFromDisk(task: string): LLMResult | null {
+    if (!this.fixtureDir) {
+      return null;
+    }
+
+    const baseName = fixtureFileName(task);
+    const jsonPath = path.join(this.fixtureDir, `${baseName}.json`);
+    const textPath = path.join(this.fixtureDir, `${baseName}.txt`);
+
+    if (fs.existsSync(jsonPath)) {
+      const parsed = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+      if (typeof parsed === 'string') {
+        return { content: parsed, tokens: 0 };
+      }
+      return { content: String(parsed.content ?? ''), tokens: Number(parsed.tokens ?? 0) };
+    }
+
+    if (fs.existsSync(textPath)) {
+      return { content: fs.readFileSync(textPath, 'utf8'), tokens: 0 };
+    }
+
+    return null;
+  }
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Get the configured provider (created lazily from LLM_PROVIDER)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider(resolveProviderName(process.env.LLM_PROVIDER));
+    console.log(`🧩 LLM provider: ${activeProvider.name} (${activeProvider.model})`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Override the active provider (used by tests and offline tooling)
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Invoke the configured provider and record token usage against the current usage context
+ */
+export async function invokeLLM(request: LLMInvocation): Promise<LLMResult> {
+  const provider = getLLMProvider();
+  const startTime = Date.now();
+  const result = await provider.invoke(request);
+  await recordModelUsage(provider, request, result, Date.now() - startTime);
+  return result;
+}
+
+export function createLLMProvider(name: LLMProviderName, model = process.env.LLM_MODEL_ID): LLMProvider {
+  switch (name) {
+    case 'bedrock':
+      return new BedrockProvider(model || undefined);
+    case 'anthropic':
+      return new AnthropicProvider(model || undefined);
+    case 'openai':
+      return new OpenAICompatibleProvider(model || undefined);
+    case 'fixture':
+      return new FixtureProvider();
+  }
+}
+
+function resolveProviderName(value: string | undefined): LLMProviderName {
+  const name = (value || 'bedrock').toLowerCase();
+  if (name === 'bedrock' || name === 'anthropic' || name === 'openai' || name === 'fixture') {
+    return name;
+  }
+  throw new Error(`Unknown LLM_PROVIDER '${value}'. Expected bedrock, anthropic, openai or fixture`);
+}
+
+function parseAnthropicMessage(responseBody: any): LLMResult {
+  if (responseBody.content && responseBody.content[0]?.text) {
+    return {
+      content: responseBody.content[0].text,
+      tokens: responseBody.usage?.output_tokens || 0,
+      inputTokens: responseBody.usage?.input_tokens,
+      outputTokens: responseBody.usage?.output_tokens,
+    };
+  }
+  throw new Error('Invalid response format from Claude');
+}
+
+export function fixtureFileName(task: string): string {
+  return task.replace(/[^a-zA-Z0-9_-]+/g, '_');
+}
@@ -0,0 +1,145 @@
+/**
+ * Local OCR - Text recognition with the Tesseract command-line tool
+ *
+ * Reads scanned pages and images without AWS. Needs the `tesseract` binary
+ * (apt install tesseract-ocr, brew install tesseract); without it local OCR
+ * reports itself unavailable and document extraction moves on to the next
+ * extractor (document-extractors.ts).
+ *
+ * Configuration (environment variables):
+ * - TESSERACT_PATH: the tesseract binary (default: tesseract on the PATH)
+ * - TESSERACT_LANG: recognition languages, e.g. eng+fra (default eng)
+ * - OCR_TIMEOUT_SECONDS: limit per image (default 120)
+ */
+
+import { execFile, spawn } from 'child_process';
+
+export interface OcrResult {
+  text: string;
+  confidence: number;  // Mean word confidence, 0-1
+}
+
+// Scale PDF pages are rendered at before recognition; Tesseract wants ~300 dpi
+const PDF_RENDER_SCALE = 3;
+
+const tesseractPath = () => process.env.TESSERACT_PATH || 'tesseract';
+const tesseractLang = () => process.env.TESSERACT_LANG || 'eng';
+const timeoutMs = () => (Number(process.env.OCR_TIMEOUT_SECONDS) || 120) * 1000;
+
+let available: Promise<boolean> | null = null;
+
+/**
+ * Whether the tesseract binary can be run (checked once per process)
+ */
+export function isOcrAvailable(): Promise<boolean> {
+  available ??= new Promise(resolve => {
+    execFile(tesseractPath(), ['--version'], error => {
+      if (error) {
+        console.log('ℹ️ Local OCR unavailable: tesseract not found');
+      }
+      resolve(!error);
+    });
+  });
+  return available;
+}
+
+function runTesseract(image: Uint8Array): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(tesseractPath(), ['stdin', 'stdout', '-l', tesseractLang(), 'tsv']);
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+
+    // The timeout, a spawn error, a broken stdin pipe and the exit can each end
+    // the run - the first one decides the result
+    const settle = (error: Error | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (error) {
+        child.kill();
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    };
+
+    const timer = setTimeout(() => {
+      settle(new Error(`tesseract timed out after ${timeoutMs() / 1000}s`));
+    }, timeoutMs());
+
+    child.stdout.on('data', data => { stdout += data; });
+    child.stderr.on('data', data => { stderr += data; });
+    child.on('error', error => settle(error));
+    // EPIPE when tesseract exits before reading the whole image
+    child.stdin.on('error', error => settle(new Error(`tesseract stopped reading the image: ${stderr.trim() || error.message}`)));
+    child.on('close', code => {
+      settle(code === 0 ? null : new Error(`tesseract exited with code ${code}: ${stderr.trim()}`));
+    });
+
+    child.stdin.end(Buffer.from(image));
+  });
+}
+
+/**
+ * Lines of words from tesseract's TSV output (level 5 rows are words)
+ */
+function parseTsv(tsv: string): OcrResult {
+  const lines = new Map<string, string[]>();
+  const confidences: number[] = [];
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t');
+    if (columns[0] !== '5' || columns.length < 12) continue;
+
+    const word = columns.slice(11).join('\t').trim();
+    const confidence = Number(columns[10]);
+    if (!word || confidence < 0) continue;
+
+    const key = `${columns[1]}-${columns[2]}-${columns[3]}-${columns[4]}`;
+    lines.set(key, [...(lines.get(key) ?? []), word]);
+    confidences.push(confidence);
+  }
+
+  return {
+    text: [...lines.values()].map(words => words.join(' ')).join('\n'),
+    confidence: confidences.length > 0
+      ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length / 100
+      : 0,
+  };
+}
+
+/**
+ * Recognise the text in an image (PNG, JPEG, TIFF, ...)
+ */
+export async function recognizeImage(image: Uint8Array): Promise<OcrResult> {
+  return parseTsv(await runTesseract(image));
+}
+
+/**
+ * Render PDF pages and recognise their text, keyed by page number
+ */
+export async function recognizePdfPages(buffer: Buffer, pageNumbers: number[]): Promise<Map<number, OcrResult>> {
+  const results = new Map<number, OcrResult>();
+  if (pageNumbers.length === 0) return results;
+
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const screenshots = await parser.getScreenshot({
+      partial: pageNumbers,
+      scale: PDF_RENDER_SCALE,
+      imageBuffer: true,
+      imageDataUrl: false,
+    });
+
+    for (const page of screenshots.pages) {
+      console.log(`🔎 OCR: recognising page ${page.pageNumber}...`);
+      results.set(page.pageNumber, await recognizeImage(page.data));
+    }
+  } finally {
+    await parser.destroy();
+  }
+
+  return results;
+}
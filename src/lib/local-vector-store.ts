@@ -0,0 +1,276 @@
+/**
+ * Local Vector Store - On-disk vector store for development and CI
+ *
+ * Stores each fund's document vectors as a JSON file under
+ * VECTOR_STORE_PATH/<index name>/<fundId>.json and searches them in process:
+ * BM25 for lexical search, cosine similarity for vector search. Index names
+ * match the OpenSearch indices, so the same module routing applies.
+ *
+ * Everything is loaded per query and scored exhaustively, which is fine for the
+ * few thousand chunks of a development database but not meant for production.
+ * BM25 statistics are computed over the filtered documents rather than the
+ * whole index, so scores differ slightly from OpenSearch's.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getIndexName } from './aws-opensearch';
+import type {
+  DocumentVector,
+  EmbeddingValidation,
+  LexicalHit,
+  RetrievalFilters,
+  SearchResult,
+  VectorModuleType,
+  VectorStore,
+} from './vector-store';
+
+type StoredVector = Omit<DocumentVector, 'moduleType'> & { timestamp: string };
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const FILENAME_WEIGHT = 0.5;
+const HIGHLIGHT_FRAGMENT_CHARS = 120;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with',
+]);
+
+const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(token => !STOPWORDS.has(token));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function getVectorStorePath(): string {
+  return path.resolve(process.env.VECTOR_STORE_PATH || '.vector-store');
+}
+
+/**
+ * Whether a stored vector passes the retrieval filters
+ */
+export function matchesFilters(document: StoredVector, filters: RetrievalFilters): boolean {
+  const { metadata } = document;
+
+  if (filters.fundId && document.fundId !== filters.fundId) return false;
+  if (filters.documentTypes?.length && !filters.documentTypes.includes(document.documentType)) return false;
+  if (filters.documentIds?.length
+    && !filters.documentIds.includes(document.id)
+    && !(metadata.originalDocumentId && filters.documentIds.includes(metadata.originalDocumentId))) {
+    return false;
+  }
+  if (filters.chunks === 'chunks' && !metadata.isChunk) return false;
+  if (filters.chunks === 'documents' && metadata.isChunk) return false;
+  if (filters.chunkIndexRange) {
+    const { from, to } = filters.chunkIndexRange;
+    if (metadata.chunkIndex === undefined) return false;
+    if (from !== undefined && metadata.chunkIndex < from) return false;
+    if (to !== undefined && metadata.chunkIndex > to) return false;
+  }
+  return true;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Up to three passages around the matched terms, terms wrapped in <em></em>
+ * like OpenSearch highlights
+ */
+function highlight(content: string, terms: Set<string>): string[] {
+  if (terms.size === 0) return [];
+  const pattern = new RegExp(`\\b(${[...terms].map(escapeRegExp).join('|')})\\b`, 'gi');
+  const fragments: string[] = [];
+  let lastEnd = -1;
+
+  for (const match of content.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index < lastEnd) continue;
+    const start = Math.max(0, index - HIGHLIGHT_FRAGMENT_CHARS / 2);
+    const end = Math.min(content.length, start + HIGHLIGHT_FRAGMENT_CHARS);
+    fragments.push(content.slice(start, end).replace(pattern, '<em>$1</em>'));
+    lastEnd = end;
+    if (fragments.length === 3) break;
+  }
+  return fragments;
+}
+
+const toSearchResult = (document: StoredVector, score: number): SearchResult => ({
+  id: document.id,
+  score,
+  content: document.content,
+  documentType: document.documentType,
+  filename: document.filename,
+  metadata: document.metadata,
+});
+
+export class LocalVectorStore implements VectorStore {
+  readonly backend = 'local' as const;
+
+  // Serialises writes to each fund file within this process
+  private writes = new Map<string, Promise<void>>();
+
+  private indexDir(moduleType: VectorModuleType): string {
+    return path.join(getVectorStorePath(), getIndexName(moduleType));
+  }
+
+  private fundFile(moduleType: VectorModuleType, fundId: string): string {
+    return path.join(this.indexDir(moduleType), `${fundId.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  private async readFile(file: string): Promise<StoredVector[]> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')).documents ?? [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async load(filters: RetrievalFilters, moduleType: VectorModuleType): Promise<StoredVector[]> {
+    let files: string[];
+    if (filters.fundId) {
+      files = [this.fundFile(moduleType, filters.fundId)];
+    } else {
+      const dir = this.indexDir(moduleType);
+      files = (await fs.readdir(dir).catch(() => [] as string[]))
+        .filter(name => name.endsWith('.json'))
+        .map(name => path.join(dir, name));
+    }
+
+    const documents = (await Promise.all(files.map(file => this.readFile(file)))).flat();
+    return documents.filter(document => matchesFilters(document, filters));
+  }
+
+  async initializeIndex(moduleType: VectorModuleType = 'FUNDING'): Promise<void> {
+    await fs.mkdir(this.indexDir(moduleType), { recursive: true });
+    console.log(`Local vector index ${getIndexName(moduleType)} initialized at ${this.indexDir(moduleType)}`);
+  }
+
+  async storeDocument(document: DocumentVector): Promise<void> {
+    const moduleType = document.moduleType || 'FUNDING';
+    const file = this.fundFile(moduleType, document.fundId);
+    const { moduleType: _moduleType, ...stored } = document;
+
+    const previous = this.writes.get(file) ?? Promise.resolve();
+    const write = previous.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const documents = (await this.readFile(file)).filter(existing => existing.id !== document.id);
+      documents.push({ ...stored, timestamp: new Date().toISOString() });
+
+      // Write then rename so a crash never leaves a half-written file
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify({ documents }));
+      await fs.rename(temp, file);
+    });
+    this.writes.set(file, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(file) === write) this.writes.delete(file);
+    }
+
+    console.log(`Stored document vector in local ${getIndexName(moduleType)}: ${document.id}`);
+  }
+
+  async lexicalSearch(text: string, filters: RetrievalFilters, size: number, moduleType: VectorModuleType): Promise<LexicalHit[]> {
+    const queryTerms = [...new Set(tokenize(text))];
+    const documents = await this.load(filters, moduleType);
+    if (queryTerms.length === 0 || documents.length === 0) return [];
+
+    const docs = documents.map(document => {
+      const frequencies = new Map<string, number>();
+      const tokens = tokenize(document.content);
+      for (const token of tokens) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      return { document, frequencies, length: tokens.length, filenameTerms: new Set(tokenize(document.filename)) };
+    });
+    const averageLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+    const documentFrequency = new Map(queryTerms.map(term => [term, docs.filter(doc => doc.frequencies.has(term)).length]));
+
+    return docs
+      .map(doc => {
+        const matched = new Set<string>();
+        let score = 0;
+        for (const term of queryTerms) {
+          const df = documentFrequency.get(term) ?? 0;
+          const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+          const tf = doc.frequencies.get(term) ?? 0;
+          if (tf > 0) {
+            matched.add(term);
+            score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / averageLength));
+          }
+          if (doc.filenameTerms.has(term)) {
+            score += idf * FILENAME_WEIGHT;
+          }
+        }
+        return { doc, score, matched };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, size)
+      .map(({ doc, score, matched }) => ({
+        result: toSearchResult(doc.document, score),
+        highlights: highlight(doc.document.content, matched),
+      }));
+  }
+
+  async vectorSearch(embedding: number[], filters: RetrievalFilters, size: number, moduleType: VectorModuleType): Promise<SearchResult[]> {
+    return (await this.load(filters, moduleType))
+      .filter(document => document.embedding?.length)
+      .map(document => ({ document, score: cosineSimilarity(embedding, document.embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, size)
+      .map(({ document, score }) => toSearchResult(document, score));
+  }
+
+  async filterSearch(filters: RetrievalFilters, size: number, moduleType: VectorModuleType): Promise<SearchResult[]> {
+    const documentKey = (document: StoredVector) => document.metadata.originalDocumentId ?? '';
+    return (await this.load(filters, moduleType))
+      .sort((a, b) =>
+        documentKey(a).localeCompare(documentKey(b)) || (a.metadata.chunkIndex ?? 0) - (b.metadata.chunkIndex ?? 0))
+      .slice(0, size)
+      .map(document => toSearchResult(document, 0));
+  }
+
+  async validateFundEmbeddings(fundId: string, moduleType: VectorModuleType = 'FUNDING'): Promise<EmbeddingValidation> {
+    const indexName = getIndexName(moduleType);
+    const documents = await this.readFile(this.fundFile(moduleType, fundId));
+
+    console.log(`📊 Validation: Found ${documents.length} embeddings for fund ${fundId} in local index ${indexName}`);
+
+    return {
+      count: documents.length,
+      indexName,
+      sample: documents.slice(0, 3).map(document => ({
+        id: document.id,
+        filename: document.filename,
+        hasEmbedding: !!document.embedding?.length,
+        isChunk: document.metadata?.isChunk || false,
+      })),
+    };
+  }
+
+  async moveFundVectors(fundId: string, from: VectorModuleType, to: VectorModuleType): Promise<number> {
+    const sourceFile = this.fundFile(from, fundId);
+    const documents = await this.readFile(sourceFile);
+
+    for (const document of documents) {
+      const { timestamp: _timestamp, ...vector } = document;
+      await this.storeDocument({ ...vector, moduleType: to });
+    }
+    await fs.rm(sourceFile, { force: true });
+
+    console.log(`Moved ${documents.length} vectors for fund ${fundId} from ${getIndexName(from)} to ${getIndexName(to)}`);
+    return documents.length;
+  }
+}
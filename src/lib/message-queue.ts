@@ -0,0 +1,154 @@
+/**
+ * Message Queue - Transport for document processing, brain assembly and
+ * assessment evaluation messages
+ *
+ * Messages are sent to one of two backends:
+ * - sqs: an Amazon SQS queue (sqs-message-queue.ts), used in deployed environments
+ * - postgres: the queue_messages table (postgres-message-queue.ts), for running the
+ *   whole document -> analysis -> brain assembly flow on one machine
+ *
+ * Both share the message schemas below and the receive/ack contract used by the
+ * consumer loop (queue-consumer.ts). Delivery is at-least-once on either backend:
+ * a message that is not acknowledged before its visibility timeout is delivered
+ * again. Handlers stay idempotent because they claim the message's job first
+ * (job-queue.ts) and skip jobs that are running or finished.
+ *
+ * Configuration (environment variables):
+ * - QUEUE_BACKEND: sqs | postgres. Required outside development, where a
+ *   missing value or one that contradicts the SQS settings is an error. In
+ *   development it defaults to sqs when SQS_QUEUE_URL or
+ *   SQS_DOCUMENT_PROCESSING_QUEUE is set, otherwise postgres.
+ * - SQS_QUEUE_URL / SQS_DOCUMENT_PROCESSING_QUEUE: the SQS queue
+ * - QUEUE_VISIBILITY_SECONDS: how long a received message stays hidden (default 300)
+ */
+
+import { PostgresMessageQueue } from './postgres-message-queue';
+import { SqsMessageQueue } from './sqs-message-queue';
+
+export type MessageQueueBackend = 'sqs' | 'postgres';
+
+export interface DocumentProcessingMessage {
+  type?: 'DOCUMENT_PROCESSING'; // Optional for messages sent before the field existed
+  jobId: string;
+  fundId: string;
+  documentId: string;
+  s3Key: string;
+  documentType: 'APPLICATION_FORM' | 'SELECTION_CRITERIA' | 'GOOD_EXAMPLES' | 'OUTPUT_TEMPLATES';
+  filename: string;
+  mimeType: string;
+}
+
+export interface BrainAssemblyMessage {
+  type?: 'BRAIN_ASSEMBLY';
+  jobId: string;
+  fundId: string;
+  triggerType: 'DOCUMENT_COMPLETE' | 'MANUAL_TRIGGER';
+}
+
+export interface AssessmentEvaluationMessage {
+  type?: 'ASSESSMENT_EVALUATION';
+  jobId: string;
+  fundId: string;
+  assessmentId: string;
+}
+
+export type QueueMessage = DocumentProcessingMessage | BrainAssemblyMessage | AssessmentEvaluationMessage;
+
+export interface ReceivedMessage {
+  id: string;
+  message: QueueMessage;
+  receiveCount: number;  // 1 on first delivery
+  // Remove the message from the queue once it has been handled
+  ack(): Promise<void>;
+  // Make the message visible again after the delay
+  release(delayMs: number): Promise<void>;
+}
+
+export interface MessageQueue {
+  readonly backend: MessageQueueBackend;
+  send(messages: QueueMessage[]): Promise<void>;
+  // Up to `max` messages, waiting up to `waitMs` for the first one
+  receive(max: number, waitMs: number): Promise<ReceivedMessage[]>;
+}
+
+export const getVisibilityMs = () => {
+  const seconds = Number(process.env.QUEUE_VISIBILITY_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 300) * 1000;
+};
+
+/**
+ * Parse a message body. Messages without a type are told apart by their fields.
+ */
+export function parseQueueMessage(body: string | object): QueueMessage {
+  const parsed = typeof body === 'string' ? JSON.parse(body) : body;
+
+  if (!parsed || typeof parsed.jobId !== 'string') {
+    throw new Error('Queue message has no jobId');
+  }
+
+  if (parsed.type === 'BRAIN_ASSEMBLY' || (!parsed.type && 'triggerType' in parsed)) {
+    return { ...parsed, type: 'BRAIN_ASSEMBLY' };
+  }
+  if (parsed.type === 'DOCUMENT_PROCESSING' || (!parsed.type && 'documentId' in parsed)) {
+    return { ...parsed, type: 'DOCUMENT_PROCESSING' };
+  }
+  if (parsed.type === 'ASSESSMENT_EVALUATION') {
+    return parsed;
+  }
+
+  throw new Error(`Unknown queue message type: ${parsed.type}`);
+}
+
+/**
+ * The configured backend. Outside development a deployment that forgot
+ * QUEUE_BACKEND must not quietly keep its messages in Postgres, where no
+ * deployed worker reads them, so the setting is required.
+ */
+export function getMessageQueueBackend(): MessageQueueBackend {
+  const configured = process.env.QUEUE_BACKEND;
+  const sqsQueue = process.env.SQS_QUEUE_URL || process.env.SQS_DOCUMENT_PROCESSING_QUEUE;
+  const development = process.env.NODE_ENV === 'development';
+
+  if (!configured) {
+    if (!development) {
+      throw new Error('QUEUE_BACKEND is not set: set it to sqs or postgres');
+    }
+    return sqsQueue ? 'sqs' : 'postgres';
+  }
+
+  if (configured !== 'sqs' && configured !== 'postgres') {
+    throw new Error(`QUEUE_BACKEND must be sqs or postgres (got "${configured}")`);
+  }
+
+  if (!development) {
+    if (configured === 'sqs' && !sqsQueue) {
+      throw new Error('QUEUE_BACKEND is sqs but neither SQS_QUEUE_URL nor SQS_DOCUMENT_PROCESSING_QUEUE is set');
+    }
+    if (configured === 'postgres' && sqsQueue) {
+      throw new Error('QUEUE_BACKEND is postgres but an SQS queue is configured: unset SQS_QUEUE_URL / SQS_DOCUMENT_PROCESSING_QUEUE or use sqs');
+    }
+  }
+
+  return configured;
+}
+
+let messageQueue: MessageQueue | null = null;
+
+/**
+ * The configured message queue (created on first use)
+ */
+export function getMessageQueue(): MessageQueue {
+  const backend = getMessageQueueBackend();
+  if (!messageQueue || messageQueue.backend !== backend) {
+    console.log(`📨 Using ${backend} message queue`);
+    messageQueue = backend === 'sqs' ? new SqsMessageQueue() : new PostgresMessageQueue();
+  }
+  return messageQueue;
+}
+
+/**
+ * Send messages to the configured queue
+ */
+export function sendQueueMessages(messages: QueueMessage[]): Promise<void> {
+  return getMessageQueue().send(messages);
+}
@@ -0,0 +1,524 @@
+/**
+ * Office Formats - Text from spreadsheets, slide decks, HTML, RTF and ODT
+ *
+ * Each reader turns a document into plain text the way the PDF and Word
+ * extractors do, keeping the structure analysis relies on:
+ * - XLSX: one page per sheet, rendered as a table with column letters and row
+ *   numbers so budget figures keep their cell addresses
+ * - PPTX: one page per slide, with slide tables and speaker notes
+ * - HTML, RTF, ODT: paragraphs and tables
+ * Tables are rendered as markdown rows and recorded as TABLE layout blocks, so
+ * chunking keeps them whole (chunker.ts), and returned as cell grids.
+ *
+ * OOXML and ODF files are zip archives of XML parts, read with jszip. The XML is
+ * matched with regular expressions - enough for the text these formats carry.
+ */
+
+import JSZip from 'jszip';
+import type { DocumentLayout } from './chunker';
+import type { ExtractedTable } from './document-extractors';
+
+export interface FormattedDocument {
+  text: string;
+  pages: DocumentLayout['pages'];
+  blocks: DocumentLayout['blocks'];
+  tables: ExtractedTable[];
+}
+
+// Larger sheets are cut off; a budget that big isn't read cell by cell anyway
+const MAX_SHEET_ROWS = 5000;
+const MAX_SHEET_COLUMNS = 200;
+
+/**
+ * Builds extracted text page by page, recording page ranges and table blocks
+ */
+class DocumentBuilder {
+  private text = '';
+  private page = 1;
+  private pageStart = 0;
+  private readonly pages: DocumentLayout['pages'] = [];
+  private readonly blocks: DocumentLayout['blocks'] = [];
+  private readonly tables: ExtractedTable[] = [];
+
+  startPage(page: number) {
+    this.endPage();
+    if (this.text) this.text += '\n';
+    this.page = page;
+    this.pageStart = this.text.length;
+  }
+
+  line(line: string) {
+    if (line.trim()) {
+      this.text += `${line.trim()}\n`;
+    }
+  }
+
+  /**
+   * Render rows as a markdown table. `cells` is what gets recorded when the
+   * rendered rows carry labels that aren't part of the data.
+   */
+  table(rows: string[][], options: { title?: string; origin?: string; cells?: string[][] } = {}) {
+    const width = Math.max(0, ...rows.map(row => row.length));
+    if (width === 0) return;
+
+    const cell = (value: string | undefined) => (value ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+    const render = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`;
+
+    const start = this.text.length;
+    this.text += [render(rows[0]), render(Array(width).fill('---')), ...rows.slice(1).map(render)].join('\n');
+    this.blocks.push({ type: 'TABLE', page: this.page, start, end: this.text.length });
+    this.text += '\n';
+    const { title, origin, cells = rows } = options;
+    this.tables.push({ page: this.page, ...(title && { title }), ...(origin && { origin }), rows: cells });
+  }
+
+  build(paginated: boolean): FormattedDocument {
+    this.endPage();
+    return { text: this.text, pages: paginated ? this.pages : [], blocks: this.blocks, tables: this.tables };
+  }
+
+  private endPage() {
+    const end = this.text.replace(/\s+$/, '').length;
+    if (end > this.pageStart && !this.pages.some(page => page.page === this.page)) {
+      this.pages.push({ page: this.page, start: this.pageStart, end });
+    }
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', hellip: '…', bull: '•', euro: '€',
+  pound: '£', copy: '©', reg: '®', trade: '™', deg: '°', middot: '·', times: '×',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Text escaped for XML element content and attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+const attribute = (tag: string, name: string) =>
+  tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+/**
+ * Text of <t>-style elements (e.g. a:t, w:t) inside an XML fragment
+ */
+function runText(xml: string, element: string): string {
+  const pattern = new RegExp(`<${element}(?:\\s[^>]*)?>([\\s\\S]*?)</${element}>`, 'g');
+  return [...xml.matchAll(pattern)].map(match => decodeEntities(match[1])).join('');
+}
+
+async function readZip(buffer: Buffer): Promise<JSZip> {
+  return JSZip.loadAsync(buffer);
+}
+
+async function readPart(zip: JSZip, path: string): Promise<string | null> {
+  return zip.file(path)?.async('string') ?? null;
+}
+
+/**
+ * Resolve the targets of a part's relationships (e.g. ppt/_rels/presentation.xml.rels)
+ */
+async function readRelationships(zip: JSZip, relsPath: string, baseDir: string): Promise<Map<string, { target: string; type: string }>> {
+  const relationships = new Map<string, { target: string; type: string }>();
+  const xml = await readPart(zip, relsPath);
+  if (!xml) return relationships;
+
+  for (const [tag] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attribute(tag, 'Id');
+    const target = attribute(tag, 'Target');
+    if (!id || !target) continue;
+    const path = target.startsWith('/') ? target.slice(1) : normalizePath(`${baseDir}/${target}`);
+    relationships.set(id, { target: path, type: attribute(tag, 'Type') ?? '' });
+  }
+  return relationships;
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+// ---------------------------------------------------------------------------
+// Spreadsheets (XLSX)
+// ---------------------------------------------------------------------------
+
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+export function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+async function readSharedStrings(zip: JSZip): Promise<string[]> {
+  const xml = await readPart(zip, 'xl/sharedStrings.xml');
+  if (!xml) return [];
+
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => runText(match[1].replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''), 't'));
+}
+
+/**
+ * Cell values of a worksheet keyed by row, then column index
+ */
+function readCells(xml: string, sharedStrings: string[]): Map<number, Map<number, string>> {
+  const rows = new Map<number, Map<number, string>>();
+
+  for (const [, cellAttributes, content = ''] of xml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+    const reference = attribute(cellAttributes, 'r')?.match(/^([A-Z]+)(\d+)$/i);
+    if (!reference) continue;
+
+    const type = attribute(cellAttributes, 't');
+    const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+    let value: string;
+    switch (type) {
+      case 's':
+        value = sharedStrings[Number(raw)] ?? '';
+        break;
+      case 'inlineStr':
+        value = runText(content, 't');
+        break;
+      case 'b':
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+        break;
+      default:
+        value = raw !== undefined ? decodeEntities(raw) : '';
+    }
+    if (!value.trim()) continue;
+
+    const row = Number(reference[2]);
+    const column = columnIndex(reference[1]);
+    if (row > MAX_SHEET_ROWS || column >= MAX_SHEET_COLUMNS) continue;
+    if (!rows.has(row)) rows.set(row, new Map());
+    rows.get(row)!.set(column, value.trim());
+  }
+
+  return rows;
+}
+
+/**
+ * Sheets in workbook order, one page each, as tables addressed like the
+ * spreadsheet: a header of column letters and the row number in the first column
+ */
+export async function extractSpreadsheet(buffer: Buffer): Promise<FormattedDocument> {
+  const zip = await readZip(buffer);
+  const workbook = await readPart(zip, 'xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Not an XLSX workbook (xl/workbook.xml is missing)');
+  }
+
+  const relationships = await readRelationships(zip, 'xl/_rels/workbook.xml.rels', 'xl');
+  const sharedStrings = await readSharedStrings(zip);
+  const builder = new DocumentBuilder();
+
+  const sheets = [...workbook.matchAll(/<sheet\b[^>]*>/g)].map(([tag]) => ({
+    name: decodeEntities(attribute(tag, 'name') ?? 'Sheet'),
+    path: relationships.get(attribute(tag, 'r:id') ?? '')?.target,
+    hidden: attribute(tag, 'state') === 'hidden' || attribute(tag, 'state') === 'veryHidden',
+  }));
+
+  let page = 0;
+  for (const sheet of sheets) {
+    if (sheet.hidden || !sheet.path) continue;
+    const xml = await readPart(zip, sheet.path);
+    if (!xml) continue;
+
+    const cells = readCells(xml, sharedStrings);
+    builder.startPage(++page);
+    builder.line(`Sheet: ${sheet.name}`);
+    if (cells.size === 0) {
+      builder.line('(empty)');
+      continue;
+    }
+
+    const rowNumbers = [...cells.keys()].sort((a, b) => a - b);
+    const columns = [...cells.values()].flatMap(row => [...row.keys()]);
+    const firstColumn = Math.min(...columns);
+    const lastColumn = Math.max(...columns);
+    const width = lastColumn - firstColumn + 1;
+
+    const grid = rowNumbers.map(rowNumber =>
+      Array.from({ length: width }, (_, i) => cells.get(rowNumber)!.get(firstColumn + i) ?? ''));
+    const header = ['', ...Array.from({ length: width }, (_, i) => columnLetters(firstColumn + i))];
+    const addressed = [header, ...grid.map((row, i) => [String(rowNumbers[i]), ...row])];
+
+    builder.table(addressed, { title: sheet.name, origin: `${columnLetters(firstColumn)}${rowNumbers[0]}`, cells: grid });
+  }
+
+  return builder.build(true);
+}
+
+// ---------------------------------------------------------------------------
+// Slide decks (PPTX)
+// ---------------------------------------------------------------------------
+
+function drawingParagraphs(xml: string): string[] {
+  return [...xml.matchAll(/<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g)]
+    .map(match => runText(match[1].replace(/<a:br\s*\/>/g, '<a:t>\n</a:t>'), 'a:t'))
+    .filter(text => text.trim());
+}
+
+function addDrawingContent(builder: DocumentBuilder, xml: string) {
+  let last = 0;
+  for (const match of xml.matchAll(/<a:tbl\b[\s\S]*?<\/a:tbl>/g)) {
+    drawingParagraphs(xml.slice(last, match.index)).forEach(text => builder.line(text));
+    const rows = [...match[0].matchAll(/<a:tr\b[\s\S]*?<\/a:tr>/g)].map(([row]) =>
+      [...row.matchAll(/<a:tc\b[\s\S]*?<\/a:tc>/g)].map(([cell]) => drawingParagraphs(cell).join(' ')));
+    builder.table(rows);
+    last = match.index! + match[0].length;
+  }
+  drawingParagraphs(xml.slice(last)).forEach(text => builder.line(text));
+}
+
+/**
+ * Slides in presentation order, one page each, followed by their speaker notes
+ */
+export async function extractPresentation(buffer: Buffer): Promise<FormattedDocument> {
+  const zip = await readZip(buffer);
+  const presentation = await readPart(zip, 'ppt/presentation.xml');
+  if (!presentation) {
+    throw new Error('Not a PPTX presentation (ppt/presentation.xml is missing)');
+  }
+
+  const relationships = await readRelationships(zip, 'ppt/_rels/presentation.xml.rels', 'ppt');
+  const slidePaths = [...presentation.matchAll(/<p:sldId\b[^>]*>/g)]
+    .map(([tag]) => relationships.get(attribute(tag, 'r:id') ?? '')?.target)
+    .filter((path): path is string => !!path);
+
+  const builder = new DocumentBuilder();
+  for (const [index, path] of slidePaths.entries()) {
+    const xml = await readPart(zip, path);
+    if (!xml) continue;
+
+    builder.startPage(index + 1);
+    builder.line(`Slide ${index + 1}`);
+    addDrawingContent(builder, xml);
+
+    const name = path.split('/').pop();
+    const slideRelationships = await readRelationships(zip, `ppt/slides/_rels/${name}.rels`, 'ppt/slides');
+    const notes = [...slideRelationships.values()].find(relationship => relationship.type.endsWith('/notesSlide'));
+    const notesXml = notes ? await readPart(zip, notes.target) : null;
+    if (notesXml) {
+      // Skip the slide number placeholder that every notes page carries
+      const text = drawingParagraphs(notesXml).filter(paragraph => !/^\d+$/.test(paragraph.trim()));
+      if (text.length > 0) {
+        builder.line(`Notes: ${text.join('\n')}`);
+      }
+    }
+  }
+
+  return builder.build(true);
+}
+
+// ---------------------------------------------------------------------------
+// OpenDocument text (ODT)
+// ---------------------------------------------------------------------------
+
+function odfText(xml: string): string {
+  return decodeEntities(xml
+    .replace(/<text:tab\s*\/>/g, '\t')
+    .replace(/<text:line-break\s*\/>/g, '\n')
+    .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count) => ' '.repeat(Number(count) || 1))
+    .replace(/<text:note\b[\s\S]*?<\/text:note>/g, '')
+    .replace(/<[^>]+>/g, ''));
+}
+
+function odfParagraphs(xml: string): string[] {
+  return [...xml.matchAll(/<text:(h|p)\b[^>]*?(?:\/>|>([\s\S]*?)<\/text:\1>)/g)]
+    .map(match => odfText(match[2] ?? ''));
+}
+
+/**
+ * Paragraphs, headings and tables of an OpenDocument text document
+ */
+export async function extractOpenDocumentText(buffer: Buffer): Promise<FormattedDocument> {
+  const zip = await readZip(buffer);
+  const content = await readPart(zip, 'content.xml');
+  if (!content) {
+    throw new Error('Not an OpenDocument file (content.xml is missing)');
+  }
+
+  const body = content.match(/<office:text\b[^>]*>([\s\S]*?)<\/office:text>/)?.[1] ?? content;
+  const builder = new DocumentBuilder();
+
+  let last = 0;
+  for (const match of body.matchAll(/<table:table\b[\s\S]*?<\/table:table>/g)) {
+    odfParagraphs(body.slice(last, match.index)).forEach(text => builder.line(text));
+    const rows = [...match[0].matchAll(/<table:table-row\b[\s\S]*?<\/table:table-row>/g)].map(([row]) =>
+      [...row.matchAll(/<table:table-cell\b[^>]*?(?:\/>|>([\s\S]*?)<\/table:table-cell>)/g)]
+        .map(cell => odfParagraphs(cell[1] ?? '').join(' ')));
+    builder.table(rows, { title: attribute(match[0], 'table:name') });
+    last = match.index! + match[0].length;
+  }
+  odfParagraphs(body.slice(last)).forEach(text => builder.line(text));
+
+  return builder.build(false);
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const stripTags = (html: string) =>
+  decodeEntities(html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ' ')).replace(/[ \t\r\f\v]+/g, ' ');
+
+function htmlLines(html: string): string[] {
+  return stripTags(html
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/?(p|div|section|article|header|footer|h[1-6]|ul|ol|li|blockquote|pre|tr|dt|dd|address|hr)\b[^>]*>/gi, '\n'))
+    .split('\n');
+}
+
+/**
+ * Visible text of an HTML page with its tables as rows of cells
+ */
+export function extractHtml(html: string): FormattedDocument {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, '');
+  const builder = new DocumentBuilder();
+
+  let last = 0;
+  // Innermost tables only; an outer layout table's other cells are read as text
+  for (const match of body.matchAll(/<table\b[^>]*>((?:(?!<table\b)[\s\S])*?)<\/table>/gi)) {
+    htmlLines(body.slice(last, match.index)).forEach(text => builder.line(text));
+    const rows = [...match[1].matchAll(/<tr\b[^>]*>([\s\S]*?)(?=<tr\b|$)/gi)]
+      .map(row => [...row[1].matchAll(/<t[dh]\b[^>]*>([\s\S]*?)(?=<t[dh]\b|<\/tr>|$)/gi)].map(cell => stripTags(cell[1]).trim()))
+      .filter(row => row.length > 0);
+    builder.table(rows);
+    last = match.index! + match[0].length;
+  }
+  htmlLines(body.slice(last)).forEach(text => builder.line(text));
+
+  return builder.build(false);
+}
+
+// ---------------------------------------------------------------------------
+// RTF
+// ---------------------------------------------------------------------------
+
+// Groups whose content isn't document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'colorschememapping',
+  'datastore', 'latentstyles', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl',
+  'mmathPr', 'fldinst', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr',
+  'footerf', 'filetbl', 'revtbl', 'pgdsctbl', 'bkmkstart', 'bkmkend', 'shpinst', 'nonshppict',
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n', page: '\n', tab: '\t', cell: ' | ', row: '\n',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+};
+
+/**
+ * Plain text of an RTF document. Table cells are separated by " | ".
+ */
+export function extractRtf(rtf: string): FormattedDocument {
+  const windows1252 = new TextDecoder('windows-1252');
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let state = { skip: false, unicodeSkip: 1 };
+  let text = '';
+  let pendingSkip = 0;
+  let bytes: number[] = [];
+
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      if (!state.skip) text += windows1252.decode(new Uint8Array(bytes));
+      bytes = [];
+    }
+  };
+  const emit = (value: string) => {
+    flushBytes();
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) text += value;
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i];
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      if (rtf.startsWith('\\*', i + 1)) state.skip = true;
+    } else if (char === '}') {
+      flushBytes();
+      state = stack.pop() ?? { skip: false, unicodeSkip: 1 };
+    } else if (char === '\\') {
+      const next = rtf[i + 1];
+      if (next === '\'') {
+        const byte = parseInt(rtf.substr(i + 2, 2), 16);
+        i += 3;
+        if (pendingSkip > 0) pendingSkip--;
+        else if (Number.isFinite(byte)) bytes.push(byte);
+        continue;
+      }
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i++;
+        continue;
+      }
+      if (next === '~') { emit(' '); i++; continue; }
+      if (next === '-' || next === '_') { i++; continue; }
+
+      const control = rtf.slice(i + 1).match(/^([a-zA-Z]+)(-?\d+)? ?/);
+      if (!control) {
+        i++;
+        continue;
+      }
+      i += control[0].length;
+
+      const [, word, parameter] = control;
+      if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true;
+      } else if (word === 'uc') {
+        state.unicodeSkip = Number(parameter ?? 1);
+      } else if (word === 'u') {
+        const code = Number(parameter);
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = state.unicodeSkip;
+      } else if (RTF_SYMBOLS[word]) {
+        emit(RTF_SYMBOLS[word]);
+      }
+    } else if (char !== '\r' && char !== '\n') {
+      emit(char);
+    }
+  }
+  flushBytes();
+
+  const builder = new DocumentBuilder();
+  text.split('\n').forEach(line => builder.line(line.replace(/\s+\|\s*$/, '')));
+  return builder.build(false);
+}
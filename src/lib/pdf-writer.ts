@@ -0,0 +1,296 @@
+/**
+ * PDF Writer - Minimal text PDF generation for report packs
+ *
+ * Lays out headings, wrapped paragraphs, key/value rows and simple tables on A4
+ * pages using the standard Helvetica fonts (no font embedding), and numbers the
+ * pages in the footer. Text is encoded as WinAnsi; characters outside it are
+ * replaced with '?'.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 30;
+
+// Glyph widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Unicode -> WinAnsi (cp1252) for the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+
+export interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  gray?: boolean;
+  indent?: number;
+}
+
+function encodeWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (code === 0x09) {
+      bytes.push(0x20, 0x20);
+    } else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code);
+    } else if (WIN_ANSI_EXTRAS[code]) {
+      bytes.push(WIN_ANSI_EXTRAS[code]);
+    } else {
+      bytes.push(0x3f);
+    }
+  }
+  return bytes;
+}
+
+function textWidth(text: string, size: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const byte of encodeWinAnsi(text)) {
+    total += byte >= 32 && byte <= 126 ? widths[byte - 32] : 556;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Split text into lines that fit the width, breaking long words if needed
+ */
+export function wrapText(text: string, width: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      // A single word wider than the line is broken by character
+      line = '';
+      for (const char of word) {
+        if (textWidth(line + char, size, bold) > width && line) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private y = 0;
+  private readonly title: string;
+
+  constructor(options: { title?: string } = {}) {
+    this.title = options.title || 'Report';
+    this.addPage();
+  }
+
+  addPage(): this {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+    return this;
+  }
+
+  heading(text: string, level: 1 | 2 | 3 = 1): this {
+    const size = level === 1 ? 18 : level === 2 ? 14 : 12;
+    this.space(level === 1 ? 6 : 4);
+    this.ensureSpace(size * 2.5);
+    this.text(text, { size, bold: true });
+    this.space(4);
+    return this;
+  }
+
+  paragraph(text: string, style: TextStyle = {}): this {
+    this.text(text, style);
+    this.space(4);
+    return this;
+  }
+
+  /**
+   * Label/value rows, the label in bold in a fixed-width column
+   */
+  keyValues(rows: Array<[string, string | number | null | undefined]>, labelWidth = 160): this {
+    const size = 10;
+    for (const [label, value] of rows) {
+      const valueLines = wrapText(value === null || value === undefined || value === '' ? '—' : String(value), CONTENT_WIDTH - labelWidth, size);
+      this.ensureSpace(size * 1.4 * Math.min(valueLines.length, 3));
+      this.write(label, MARGIN, this.y - size, size, true);
+      valueLines.forEach((line, index) => {
+        if (index > 0) this.ensureSpace(size * 1.4);
+        this.write(line, MARGIN + labelWidth, this.y - size, size, false);
+        this.y -= size * 1.4;
+      });
+    }
+    this.space(4);
+    return this;
+  }
+
+  /**
+   * Simple table with a bold header row. Column widths are shares of the page width.
+   */
+  table(header: string[], rows: Array<Array<string | number | null | undefined>>, widths?: number[]): this {
+    const size = 9;
+    const shares = widths ?? header.map(() => 1 / header.length);
+    const columnWidths = shares.map(share => share * CONTENT_WIDTH);
+
+    const drawRow = (cells: Array<string | number | null | undefined>, bold: boolean) => {
+      const wrapped = cells.map((cell, index) =>
+        wrapText(cell === null || cell === undefined ? '' : String(cell), columnWidths[index] - 6, size, bold)
+      );
+      const height = Math.max(...wrapped.map(lines => lines.length)) * size * 1.3 + 4;
+      if (this.ensureSpace(height) && !bold) {
+        drawRow(header, true);
+      }
+
+      let x = MARGIN;
+      wrapped.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => this.write(line, x, this.y - size - lineIndex * size * 1.3, size, bold));
+        x += columnWidths[index];
+      });
+      this.y -= height;
+      this.rule(bold ? 0.8 : 0.3);
+    };
+
+    drawRow(header, true);
+    rows.forEach(row => drawRow(row, false));
+    this.space(8);
+    return this;
+  }
+
+  space(height: number): this {
+    this.y -= height;
+    return this;
+  }
+
+  rule(lineWidth = 0.5): this {
+    this.current().push(`${lineWidth} w 0.75 G ${MARGIN} ${formatNumber(this.y)} m ${formatNumber(PAGE_WIDTH - MARGIN)} ${formatNumber(this.y)} l S 0 G`);
+    this.y -= 2;
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const objects: Array<string | Buffer> = [];
+    const pageCount = this.pages.length;
+    const fontRegular = 3;
+    const fontBold = 4;
+    const firstPageObject = 6;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Count ${pageCount} /Kids [${this.pages.map((_, index) => `${firstPageObject + index * 2} 0 R`).join(' ')}] >>`;
+    objects[fontRegular] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[fontBold] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title ${this.hexString(this.title)} /Producer (Nolia) /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`;
+
+    this.pages.forEach((operations, index) => {
+      const footer = this.textOperation(`Page ${index + 1} of ${pageCount}`, PAGE_WIDTH - MARGIN - 60, MARGIN - FOOTER_HEIGHT / 2, 8, false, true);
+      const stream = Buffer.from([...operations, footer].join('\n'), 'latin1');
+      const pageObject = firstPageObject + index * 2;
+
+      objects[pageObject] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 ${fontRegular} 0 R /F2 ${fontBold} 0 R >> >> /Contents ${pageObject + 1} 0 R >>`;
+      objects[pageObject + 1] = Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} >>\nstream\n`, 'latin1'),
+        stream,
+        Buffer.from('\nendstream', 'latin1'),
+      ]);
+    });
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    const offsets: number[] = [];
+    let length = chunks[0].length;
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = length;
+      const body = objects[id];
+      const chunk = Buffer.concat([
+        Buffer.from(`${id} 0 obj\n`, 'latin1'),
+        typeof body === 'string' ? Buffer.from(body, 'latin1') : body,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      chunks.push(chunk);
+      length += chunk.length;
+    }
+
+    const xref = [
+      'xref',
+      `0 ${objects.length}`,
+      '0000000000 65535 f ',
+      ...offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>`,
+      'startxref',
+      String(length),
+      '%%EOF',
+    ].join('\n');
+    chunks.push(Buffer.from(xref + '\n', 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+
+  private text(text: string, style: TextStyle) {
+    const size = style.size ?? 10;
+    const indent = style.indent ?? 0;
+    for (const line of wrapText(text, CONTENT_WIDTH - indent, size, style.bold)) {
+      this.ensureSpace(size * 1.4);
+      this.current().push(this.textOperation(line, MARGIN + indent, this.y - size, size, !!style.bold, !!style.gray));
+      this.y -= size * 1.4;
+    }
+  }
+
+  private write(text: string, x: number, y: number, size: number, bold: boolean) {
+    this.current().push(this.textOperation(text, x, y, size, bold, false));
+  }
+
+  private textOperation(text: string, x: number, y: number, size: number, bold: boolean, gray: boolean): string {
+    return `BT ${gray ? '0.45 g ' : ''}/${bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(x)} ${formatNumber(y)} Td ${this.hexString(text)} Tj ET${gray ? ' 0 g' : ''}`;
+  }
+
+  private hexString(text: string): string {
+    return `<${encodeWinAnsi(text).map(byte => byte.toString(16).padStart(2, '0')).join('')}>`;
+  }
+
+  /**
+   * Start a new page if the next block will not fit. Returns true when a page was added.
+   */
+  private ensureSpace(height: number): boolean {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT / 2) {
+      this.addPage();
+      return true;
+    }
+    return false;
+  }
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Postgres Message Queue - queue_messages table backend of the message queue
+ * (message-queue.ts), for local development and single-machine deployments
+ *
+ * Receiving hides messages for the visibility timeout, like SQS, claiming them
+ * with SKIP LOCKED so several consumers can share the table. Consumers in the
+ * process that sent a message are woken immediately; others see it on their next
+ * poll.
+ */
+
+import { EventEmitter } from 'events';
+import { Prisma } from '@prisma/client';
+import { prisma } from './database-s3';
+import type { MessageQueue, QueueMessage, ReceivedMessage } from './message-queue';
+import { getVisibilityMs, parseQueueMessage } from './message-queue';
+
+const QUEUE_NAME = 'document-processing';
+const POLL_INTERVAL_MS = 1000;
+
+interface QueueMessageRow {
+  id: string;
+  body: unknown;
+  receiveCount: number;
+}
+
+const sent = new EventEmitter();
+sent.setMaxListeners(0);
+
+/**
+ * Resolve after `ms`, or earlier when a message is sent from this process
+ */
+function waitForMessage(ms: number): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      sent.off('message', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    sent.once('message', done);
+  });
+}
+
+export class PostgresMessageQueue implements MessageQueue {
+  readonly backend = 'postgres' as const;
+
+  async send(messages: QueueMessage[]): Promise<void> {
+    if (messages.length === 0) return;
+
+    await prisma.queue_messages.createMany({
+      data: messages.map(message => ({
+        queue: QUEUE_NAME,
+        body: message as unknown as Prisma.InputJsonValue,
+      })),
+    });
+
+    console.log(`📨 Queued ${messages.length} message(s) in Postgres queue ${QUEUE_NAME}`);
+    sent.emit('message');
+  }
+
+  async receive(max: number, waitMs: number): Promise<ReceivedMessage[]> {
+    const deadline = Date.now() + waitMs;
+
+    while (true) {
+      const rows = await this.claim(max);
+      if (rows.length > 0 || Date.now() >= deadline) {
+        return this.toReceived(rows);
+      }
+      await waitForMessage(Math.min(POLL_INTERVAL_MS, deadline - Date.now()));
+    }
+  }
+
+  private claim(max: number): Promise<QueueMessageRow[]> {
+    return prisma.$queryRaw<QueueMessageRow[]>`
+      UPDATE "queue_messages"
+      SET "receiveCount" = "receiveCount" + 1,
+          "visibleAt" = NOW() + ${getVisibilityMs()} * INTERVAL '1 millisecond'
+      WHERE "id" IN (
+        SELECT "id" FROM "queue_messages"
+        WHERE "queue" = ${QUEUE_NAME} AND "visibleAt" <= NOW()
+        ORDER BY "createdAt"
+        LIMIT ${Math.max(max, 1)}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id", "body", "receiveCount"
+    `;
+  }
+
+  private async toReceived(rows: QueueMessageRow[]): Promise<ReceivedMessage[]> {
+    const received: ReceivedMessage[] = [];
+
+    for (const row of rows) {
+      const ack = async () => {
+        await prisma.queue_messages.deleteMany({ where: { id: row.id } });
+      };
+
+      try {
+        received.push({
+          id: row.id,
+          message: parseQueueMessage(row.body as object),
+          receiveCount: row.receiveCount,
+          ack,
+          release: async (delayMs: number) => {
+            await prisma.$executeRaw`
+              UPDATE "queue_messages"
+              SET "visibleAt" = NOW() + ${delayMs} * INTERVAL '1 millisecond'
+              WHERE "id" = ${row.id}
+            `;
+          },
+        });
+      } catch (error) {
+        // Malformed messages would be redelivered forever
+        console.error(`❌ Dropping unreadable queue message ${row.id}:`, error);
+        await ack();
+      }
+    }
+    return received;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Queue Consumer - Runs the jobs named by message queue messages (message-queue.ts)
+ *
+ * DOCUMENT_PROCESSING messages run their DOCUMENT_ANALYSIS job, BRAIN_ASSEMBLY
+ * messages their RAG_PROCESSING job and ASSESSMENT_EVALUATION messages their
+ * ASSESSMENT_EVALUATION job. A job runs once however many messages name
+ * it: the first handler claims it, the others find it claimed or finished and
+ * acknowledge their message. Retries of failed jobs and Textract polling are
+ * scheduled on the job itself (job-queue.ts) and picked up by the background
+ * processor, not by messages.
+ *
+ * Handler errors leave the message in the queue; it is retried with backoff and
+ * dropped after MAX_RECEIVES deliveries.
+ */
+
+import { BackgroundJobService } from './background-job-service';
+import { getMessageQueue, QueueMessage, ReceivedMessage } from './message-queue';
+import { getRetryDelayMs } from './job-queue';
+
+const BATCH_SIZE = 5;
+const WAIT_MS = 10000;
+const ERROR_PAUSE_MS = 5000;
+const MAX_RECEIVES = 5;
+
+/**
+ * Run the job a message refers to
+ */
+export async function handleQueueMessage(message: QueueMessage): Promise<void> {
+  switch (message.type) {
+    case 'DOCUMENT_PROCESSING': {
+      const { processDocumentAnalysisJob } = await import('./document-analysis-job');
+      await processDocumentAnalysisJob({ id: message.jobId });
+      return;
+    }
+    case 'BRAIN_ASSEMBLY':
+      await BackgroundJobService.processRAGJob(message.jobId);
+      return;
+    case 'ASSESSMENT_EVALUATION': {
+      const { processAssessmentEvaluationJob } = await import('./assessment-evaluation-job');
+      await processAssessmentEvaluationJob(message.jobId);
+      return;
+    }
+    default:
+      throw new Error(`Unknown queue message type: ${(message as QueueMessage).type}`);
+  }
+}
+
+async function handleReceived(received: ReceivedMessage): Promise<void> {
+  const { message } = received;
+  console.log(`📬 ${message.type} message ${received.id} for job ${message.jobId} (delivery ${received.receiveCount})`);
+
+  try {
+    await handleQueueMessage(message);
+    await received.ack();
+  } catch (error) {
+    if (received.receiveCount >= MAX_RECEIVES) {
+      console.error(`🚨 Dropping message ${received.id} after ${received.receiveCount} deliveries:`, error);
+      await received.ack();
+    } else {
+      console.error(`❌ Message ${received.id} failed, retrying later:`, error);
+      await received.release(getRetryDelayMs(received.receiveCount));
+    }
+  }
+}
+
+class QueueConsumer {
+  private running = false;
+  private loop: Promise<void> | null = null;
+
+  /**
+   * Start consuming in the background
+   */
+  start() {
+    if (this.running) {
+      console.log('Queue consumer already running');
+      return;
+    }
+
+    console.log(`📭 QUEUE CONSUMER: Listening on the ${getMessageQueue().backend} message queue`);
+    this.running = true;
+    this.loop = this.consume();
+  }
+
+  /**
+   * Stop after the messages being handled are done
+   */
+  async stop() {
+    this.running = false;
+    await this.loop;
+    this.loop = null;
+    console.log('📭 Queue consumer stopped');
+  }
+
+  /**
+   * Resolves once the consumer has stopped
+   */
+  async stopped() {
+    await this.loop;
+  }
+
+  /**
+   * Receive and handle one batch of messages; returns how many were received
+   */
+  async runOnce(waitMs: number = WAIT_MS): Promise<number> {
+    const messages = await getMessageQueue().receive(BATCH_SIZE, waitMs);
+    for (const received of messages) {
+      await handleReceived(received);
+    }
+    return messages.length;
+  }
+
+  private async consume() {
+    while (this.running) {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('❌ Queue consumer error:', error);
+        await new Promise(resolve => setTimeout(resolve, ERROR_PAUSE_MS));
+      }
+    }
+  }
+
+  getStatus() {
+    return { running: this.running };
+  }
+}
+
+export const queueConsumer = new QueueConsumer();
@@ -0,0 +1,66 @@
+/**
+ * Quote Text - The normalisation quotes are matched under
+ *
+ * Shared by the server-side matchers (document-evidence.ts, the WorldBankGroup
+ * citation check) and the evidence viewer, so a quote verified on the server is
+ * also found when the viewer highlights it. Text is NFKC-normalised (ligatures,
+ * full-width and other compatibility forms) and lowercased. Letters, digits and
+ * their combining marks of any script are kept; every run of whitespace,
+ * punctuation and symbols becomes one space; invisible format characters (soft
+ * hyphens, zero-width spaces) are dropped.
+ */
+
+// Built with the constructor: regex literals with the u flag need an ES2018 target
+const CHARACTER = new RegExp('\\P{M}\\p{M}*|\\p{M}+', 'gu');  // A character with its combining marks
+const WORD_CHARACTER = new RegExp('[\\p{L}\\p{N}\\p{M}]', 'u');
+const FORMAT_CHARACTER = new RegExp('^\\p{Cf}', 'u');
+
+export interface NormalizedText {
+  value: string;
+  // Where each character of the value starts and ends in the original text
+  starts: number[];
+  ends: number[];
+}
+
+/**
+ * Normalised text with the original range of each of its characters
+ */
+export function normalizeQuoteText(text: string): NormalizedText {
+  let value = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let pendingSpace = false;
+
+  for (const match of text.matchAll(CHARACTER)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (FORMAT_CHARACTER.test(match[0])) continue;
+
+    for (const char of match[0].normalize('NFKC').toLowerCase()) {
+      if (!WORD_CHARACTER.test(char)) {
+        pendingSpace = true;
+        continue;
+      }
+      if (pendingSpace && value) {
+        value += ' ';
+        starts.push(start);
+        ends.push(start);
+      }
+      pendingSpace = false;
+      value += char;
+      for (let i = 0; i < char.length; i++) {
+        starts.push(start);
+        ends.push(end);
+      }
+    }
+  }
+
+  return { value, starts, ends };
+}
+
+/**
+ * Normalised text on its own, for comparisons that need no offsets
+ */
+export function foldQuoteText(text: string): string {
+  return normalizeQuoteText(text).value;
+}
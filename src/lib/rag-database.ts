@@ -1,7 +1,10 @@
 // RAG-enhanced database service combining S3, PostgreSQL, OpenSearch, and Bedrock
+import type { ModuleType } from '@prisma/client';
 import { prisma } from './database-s3';
 import { extractTextFromFile } from '../utils/server-document-analyzer';
-import { storeDocumentVector, generateEmbedding, searchRelevantDocuments, getFundCriteria, getFundGoodExamples } from './aws-opensearch';
+import { generateEmbedding } from './aws-opensearch';
+import { storeDocumentVector } from './vector-store';
+import { hybridSearch, getFundCriteria, getFundGoodExamples } from './hybrid-retrieval';
 import { assessApplicationWithBedrock, type RAGContext, type AssessmentRequest } from './aws-bedrock';
 import { BackgroundJobService } from './background-job-service';
 // import { uploadFileToS3 } from './database-s3'; // Not needed for current implementation
@@ -13,7 +16,7 @@ import { BackgroundJobService } from './background-job-service';
 export async function saveFundWithRAG(fundData: {
   name: string;
   description?: string;
-  moduleType?: 'FUNDING' | 'PROCUREMENT' | 'WORLDBANK';
+  moduleType?: ModuleType;
   applicationForm?: {
     file: Buffer;
     filename: string;
@@ -182,15 +185,15 @@ export async function assessApplicationWithRAG(
     
     // Retrieve relevant context using RAG
     const [relevantDocuments, criteriaDocuments, goodExamples] = await Promise.all([
-      searchRelevantDocuments(applicationEmbedding, fundId, undefined, 3),
+      hybridSearch({ text: applicationText, embedding: applicationEmbedding, filters: { fundId }, limit: 3 }).then(response => response.hits),
       getFundCriteria(fundId),
       getFundGoodExamples(fundId),
     ]);
     
     // Build RAG context
     const ragContext: RAGContext = {
-      relevantDocuments: relevantDocuments.map(doc => doc.content),
-      criteriaText: criteriaDocuments.map(doc => doc.content).join('\n\n'),
+      relevantDocuments: relevantDocuments.map(doc => doc.citation ? `[${doc.filename}, ${doc.citation}]\n${doc.content}` : doc.content),
+      criteriaText: criteriaDocuments.map(doc => doc.citation ? `[${doc.citation}]\n${doc.content}` : doc.content).join('\n\n'),
       goodExamples: goodExamples.map(doc => doc.content),
     };
     
@@ -263,12 +266,14 @@ export async function findSimilarApplications(
   try {
     const embedding = await generateEmbedding(applicationText);
     
-    return await searchRelevantDocuments(
+    const { hits } = await hybridSearch({
+      text: applicationText,
       embedding,
-      fundId || '*', // Search across all funds if no fundId specified
-      ['GOOD_EXAMPLES'],
-      limit
-    );
+      // Search across all funds if no fundId specified
+      filters: { fundId, documentTypes: ['GOOD_EXAMPLES'] },
+      limit,
+    });
+    return hits;
   } catch (error) {
     console.error('Error finding similar applications:', error);
     return [];
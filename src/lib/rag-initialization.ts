@@ -1,5 +1,5 @@
 // RAG system initialization and health check utilities
-import { initializeOpenSearchIndex } from './aws-opensearch';
+import { initializeVectorIndex } from './vector-store';
 import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
 import { prisma } from './database-s3';
 import { getAWSCredentials, AWS_REGION } from './aws-credentials';
@@ -36,14 +36,14 @@ export async function initializeRAGSystem(): Promise<{
     console.error('❌ Database connection failed:', error);
   }
 
-  // Initialize OpenSearch index
+  // Initialize the vector index (OpenSearch or the local store)
   try {
-    await initializeOpenSearchIndex();
+    await initializeVectorIndex();
     result.components.opensearch = true;
-    console.log('✅ OpenSearch index initialized');
+    console.log('✅ Vector index initialized');
   } catch (error) {
-    result.errors.push(`OpenSearch initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    console.error('❌ OpenSearch initialization failed:', error);
+    result.errors.push(`Vector index initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error('❌ Vector index initialization failed:', error);
   }
 
   // Test AWS Bedrock connection (runtime creation to avoid credential pollution)
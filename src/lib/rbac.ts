@@ -0,0 +1,230 @@
+/**
+ * Role-Based Access Control - Roles, module grants and route policies
+ *
+ * Edge-safe (no Prisma, no Node crypto) so the same rules are enforced by
+ * middleware.ts and by route handlers through requireAuth() in auth.ts.
+ *
+ * Roles are ordered by the access level they grant:
+ *   READ_ONLY    - view funds, bases and assessments
+ *   ASSESSOR     - READ_ONLY + run and save assessments
+ *   FUND_MANAGER - ASSESSOR + create and manage funds, tenders, projects and bases
+ *   ADMIN        - everything, in every module, including debug and maintenance routes
+ *
+ * Non-admin users only reach the ModuleTypes they have been granted. Knowledge-base
+ * modules (the *_ADMIN ModuleTypes) can only be changed by FUND_MANAGER or ADMIN.
+ */
+
+export const USER_ROLES = ['ADMIN', 'FUND_MANAGER', 'ASSESSOR', 'READ_ONLY'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const MODULE_TYPES = [
+  'FUNDING',
+  'PROCUREMENT',
+  'PROCUREMENT_ADMIN',
+  'WORLDBANK',
+  'WORLDBANK_ADMIN',
+  'WORLDBANKGROUP',
+  'WORLDBANKGROUP_ADMIN',
+] as const;
+export type ModuleName = typeof MODULE_TYPES[number];
+
+export type AccessLevel = 'read' | 'assess' | 'manage' | 'admin';
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  roles: UserRole[];
+  modules: ModuleName[];
+  organizationId: string;
+}
+
+const ACCESS_RANK: Record<AccessLevel, number> = { read: 0, assess: 1, manage: 2, admin: 3 };
+
+const ROLE_ACCESS: Record<UserRole, AccessLevel> = {
+  READ_ONLY: 'read',
+  ASSESSOR: 'assess',
+  FUND_MANAGER: 'manage',
+  ADMIN: 'admin',
+};
+
+/**
+ * Highest access level granted by any of the user's roles
+ */
+export function accessLevelFor(roles: UserRole[]): AccessLevel | null {
+  let best: AccessLevel | null = null;
+  for (const role of roles) {
+    const level = ROLE_ACCESS[role];
+    if (level && (!best || ACCESS_RANK[level] > ACCESS_RANK[best])) {
+      best = level;
+    }
+  }
+  return best;
+}
+
+export function hasRole(user: SessionUser, ...roles: UserRole[]): boolean {
+  return user.roles.some(role => roles.includes(role));
+}
+
+export function isModuleName(value: string): value is ModuleName {
+  return (MODULE_TYPES as readonly string[]).includes(value);
+}
+
+export function isUserRole(value: string): value is UserRole {
+  return (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Check a user against a required access level, optionally within one module
+ */
+export function isAuthorized(user: SessionUser, required: AccessLevel, moduleType?: ModuleName | null): boolean {
+  const level = accessLevelFor(user.roles);
+  if (!level) return false;
+  if (level === 'admin') return true;
+  if (ACCESS_RANK[level] < ACCESS_RANK[required]) return false;
+
+  if (moduleType) {
+    if (!user.modules.includes(moduleType)) return false;
+
+    // Knowledge bases are organisation-wide - assessors may read them but not change them
+    if (moduleType.endsWith('_ADMIN') && ACCESS_RANK[required] > ACCESS_RANK.read && level !== 'manage') {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Modules in which the user has the given access level, for filtering lists that span modules
+ */
+export function authorizedModules(user: SessionUser, required: AccessLevel): ModuleName[] {
+  return MODULE_TYPES.filter(moduleType => isAuthorized(user, required, moduleType));
+}
+
+// ============================================================================
+// Route policies
+// ============================================================================
+
+// Path prefixes that identify a module. Longer prefixes must come first.
+const MODULE_PATH_PREFIXES: Array<[string, ModuleName]> = [
+  ['/api/worldbankgroup-admin-brain', 'WORLDBANKGROUP_ADMIN'],
+  ['/api/worldbankgroup-base', 'WORLDBANKGROUP_ADMIN'],
+  ['/api/worldbankgroup-brain', 'WORLDBANKGROUP'],
+  ['/api/worldbankgroup-projects', 'WORLDBANKGROUP'],
+  ['/api/worldbankgroup-assessments', 'WORLDBANKGROUP'],
+  ['/worldbankgroup-admin', 'WORLDBANKGROUP_ADMIN'],
+  ['/worldbankgroup', 'WORLDBANKGROUP'],
+  ['/api/worldbank-admin-brain', 'WORLDBANK_ADMIN'],
+  ['/api/worldbank-base', 'WORLDBANK_ADMIN'],
+  ['/api/worldbank-brain', 'WORLDBANK'],
+  ['/api/worldbank-projects', 'WORLDBANK'],
+  ['/api/worldbank-assessments', 'WORLDBANK'],
+  ['/worldbank-admin', 'WORLDBANK_ADMIN'],
+  ['/worldbank', 'WORLDBANK'],
+  ['/api/procurement-brain', 'PROCUREMENT_ADMIN'],
+  ['/api/procurement-base', 'PROCUREMENT_ADMIN'],
+  ['/api/procurement-assessments', 'PROCUREMENT'],
+  ['/api/tenders', 'PROCUREMENT'],
+  ['/procurement-admin', 'PROCUREMENT_ADMIN'],
+  ['/procurement', 'PROCUREMENT'],
+  ['/funding', 'FUNDING'],
+];
+
+// Maintenance, debug and account routes
+const ADMIN_ONLY_PREFIXES = [
+  '/api/users',
+  '/api/admin',
+  '/api/debug',
+  '/api/test',
+  '/api/init',
+  '/api/system',
+  '/api/migrate-database',
+  '/api/cleanup-procurement-admin',
+  '/api/emergency-fix-fund',
+];
+
+const ADMIN_ONLY_PATTERNS = [
+  /^\/api\/funds\/[^/]+\/(force-complete|cleanup|populate-mock)$/,
+];
+
+// Routes whose mutating methods only run or save assessments
+const ASSESSMENT_PREFIXES = [
+  '/api/assess',
+  '/api/assessments',
+  '/api/procurement-assessments',
+  '/api/worldbank-assessments',
+  '/api/worldbankgroup-assessments',
+  '/api/process/test-assessment-v2',
+  '/api/ai/assess-application',
+  '/api/ai/batch-assess',
+  '/api/analyze/test-assessment',
+];
+
+export interface RoutePolicy {
+  access: AccessLevel;
+  moduleType: ModuleName | null;
+}
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`) || pathname.startsWith(`${prefix}-`);
+}
+
+export function moduleForPath(pathname: string): ModuleName | null {
+  for (const [prefix, moduleType] of MODULE_PATH_PREFIXES) {
+    if (pathname === prefix || pathname.startsWith(`${prefix}/`)) {
+      return moduleType;
+    }
+  }
+  return null;
+}
+
+/**
+ * Access level and module a request needs, derived from its path and method
+ */
+export function resolveRoutePolicy(pathname: string, method: string): RoutePolicy {
+  const moduleType = moduleForPath(pathname);
+
+  if (ADMIN_ONLY_PREFIXES.some(prefix => matchesPrefix(pathname, prefix)) ||
+      ADMIN_ONLY_PATTERNS.some(pattern => pattern.test(pathname))) {
+    return { access: 'admin', moduleType };
+  }
+
+  const isMutation = !['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
+  if (!isMutation) {
+    return { access: 'read', moduleType };
+  }
+
+  if (ASSESSMENT_PREFIXES.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`))) {
+    return { access: 'assess', moduleType };
+  }
+
+  return { access: 'manage', moduleType };
+}
+
+// ============================================================================
+// Service API key scopes
+// ============================================================================
+
+export const API_KEY_HEADER = 'x-api-key';
+
+export const API_KEY_SCOPES = ['jobs:process', 'textract:poll', 'brain:assemble'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+// POST routes internal services may call with an API key instead of a session.
+// The key itself is checked against the database by the route handler.
+const SERVICE_ROUTE_SCOPES: Array<[RegExp, ApiKeyScope]> = [
+  [/^\/api\/jobs\/textract-poll$/, 'textract:poll'],
+  [/^\/api\/jobs\/(process|trigger-pending)$/, 'jobs:process'],
+  [/^\/api\/production-job-processor$/, 'jobs:process'],
+  [/^\/api\/(brain|procurement-brain|worldbank-brain|worldbank-admin-brain|worldbankgroup-brain|worldbankgroup-admin-brain)\/[^/]+\/assemble$/, 'brain:assemble'],
+];
+
+export function serviceScopeForPath(pathname: string, method: string): ApiKeyScope | null {
+  if (method.toUpperCase() !== 'POST') return null;
+  const match = SERVICE_ROUTE_SCOPES.find(([pattern]) => pattern.test(pathname));
+  return match ? match[1] : null;
+}
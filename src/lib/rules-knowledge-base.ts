@@ -0,0 +1,604 @@
+/**
+ * Rules Knowledge Base - Versioned WorldBankGroup compliance rules
+ *
+ * The procurement (PR2025) and Cathlab rules the compliance engine checks are
+ * stored as rule-set versions. Each version is a complete snapshot of its
+ * sections and rules:
+ * - DRAFT versions are editable; a new draft starts as a copy of an existing version
+ * - PUBLISHED versions are read-only and take effect from `effectiveFrom`
+ * - the active version at a date is the published version with the latest
+ *   effectiveFrom on or before it, so a version can be scheduled ahead of time
+ * - ARCHIVED versions are withdrawn but kept, because assessments record the
+ *   version they were evaluated against
+ *
+ * Rules are identified across versions by their code (PR12, C46), which is what
+ * the diff between versions compares. Each organisation's version 1 is seeded
+ * from the rules that shipped with the app the first time its knowledge base is read.
+ */
+
+import { Prisma, RuleCategory, RulePriority, RuleSetStatus } from '@prisma/client';
+import { prisma } from './database-s3';
+import type { SessionUser } from './rbac';
+import type { ComplianceRule, RuleSeverity } from './worldbankgroup-compliance-engine';
+import {
+  procurementRulesContent,
+  type ProcurementRule,
+  type ProcurementSection,
+} from '@/app/worldbankgroup-admin/knowledge-base/procurement-rules-content';
+import {
+  cathlabRulesContent,
+  type CathlabRule,
+  type CathlabSection,
+  criticalNotesContent,
+  documentHierarchyContent,
+} from '@/app/worldbankgroup/knowledge-base/cathlab-rules-content';
+
+const versionInclude = {
+  sections: {
+    orderBy: [{ category: 'asc' }, { sortOrder: 'asc' }],
+    include: { rules: { orderBy: [{ sortOrder: 'asc' }, { number: 'asc' }] } },
+  },
+} satisfies Prisma.rule_set_versionsInclude;
+
+export type RuleSetVersionWithRules = Prisma.rule_set_versionsGetPayload<{ include: typeof versionInclude }>;
+type SectionWithRules = RuleSetVersionWithRules['sections'][number];
+type StoredRule = SectionWithRules['rules'][number];
+
+export interface SectionInput {
+  category?: RuleCategory;
+  key?: string;
+  title?: string;
+  description?: string | null;
+  priority?: RulePriority;
+  isInfoSection?: boolean;
+  content?: string | null;
+  sortOrder?: number;
+}
+
+export interface RuleInput {
+  sectionId?: string;
+  number?: number;
+  title?: string;
+  description?: string;
+  requirements?: string[];
+  source?: string;
+  citation?: string | null;
+  sortOrder?: number;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RuleSetDiff {
+  from: { id: string; version: number; name: string };
+  to: { id: string; version: number; name: string };
+  sections: {
+    added: Array<{ key: string; title: string }>;
+    removed: Array<{ key: string; title: string }>;
+    changed: Array<{ key: string; title: string; changes: FieldChange[] }>;
+  };
+  rules: {
+    added: Array<{ code: string; title: string; section: string }>;
+    removed: Array<{ code: string; title: string; section: string }>;
+    changed: Array<{ code: string; title: string; changes: FieldChange[] }>;
+    unchanged: number;
+  };
+}
+
+const PRIORITY_SEVERITY: Record<RulePriority, RuleSeverity> = {
+  CRITICAL: 'CRITICAL',
+  HIGH: 'MAJOR',
+  IMPORTANT: 'MINOR',
+  INFO: 'MINOR',
+};
+
+const CODE_PREFIX: Record<RuleCategory, string> = { PROCUREMENT: 'PR', CATHLAB: 'C' };
+
+const SECTION_DIFF_FIELDS = ['title', 'description', 'priority', 'category', 'isInfoSection', 'content'] as const;
+const RULE_DIFF_FIELDS = ['title', 'description', 'requirements', 'source', 'citation'] as const;
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+type SeedRule = Omit<Prisma.rule_set_rulesCreateManyInput, 'versionId' | 'sectionId'>;
+type SeedSection = Omit<Prisma.rule_set_sectionsCreateManyInput, 'versionId'> & { rules: SeedRule[] };
+
+function seedRules(category: RuleCategory, rules: Array<ProcurementRule | CathlabRule>): SeedRule[] {
+  return rules.map((rule, index) => ({
+    code: `${CODE_PREFIX[category]}${rule.number}`,
+    number: rule.number,
+    title: rule.title,
+    description: rule.description,
+    requirements: 'requirements' in rule ? rule.requirements ?? [] : [],
+    source: rule.source,
+    citation: 'citation' in rule ? rule.citation : null,
+    sortOrder: index,
+  }));
+}
+
+/**
+ * Sections and rules as shipped in the compiled-in knowledge base files
+ */
+function defaultSections(): SeedSection[] {
+  const procurementPriority: Record<ProcurementSection['priority'], RulePriority> = {
+    critical: RulePriority.CRITICAL,
+    high: RulePriority.HIGH,
+    important: RulePriority.IMPORTANT,
+    info: RulePriority.INFO,
+  };
+  const cathlabPriority: Record<NonNullable<CathlabSection['badgeColor']>, RulePriority> = {
+    error: RulePriority.CRITICAL,
+    warning: RulePriority.HIGH,
+    success: RulePriority.IMPORTANT,
+    gray: RulePriority.IMPORTANT,
+  };
+  const cathlabInfoContent: Record<string, string> = {
+    'section-info-1': documentHierarchyContent,
+    'section-info-2': criticalNotesContent,
+  };
+
+  return [
+    ...procurementRulesContent.map((section, index) => ({
+      category: RuleCategory.PROCUREMENT,
+      key: `procurement-${slug(section.title)}`,
+      title: section.title,
+      priority: procurementPriority[section.priority],
+      isInfoSection: !!section.isInfoSection,
+      content: section.content ?? null,
+      sortOrder: index,
+      rules: seedRules(RuleCategory.PROCUREMENT, section.rules),
+    })),
+    ...cathlabRulesContent.map((section, index) => ({
+      category: RuleCategory.CATHLAB,
+      key: section.id,
+      title: section.title,
+      description: section.description,
+      priority: section.isInfoSection ? RulePriority.INFO : cathlabPriority[section.badgeColor ?? 'gray'],
+      isInfoSection: !!section.isInfoSection,
+      content: cathlabInfoContent[section.id] ?? null,
+      sortOrder: index,
+      rules: seedRules(RuleCategory.CATHLAB, section.rules),
+    })),
+  ];
+}
+
+function requireText(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${field} is required`);
+  }
+  return value.trim();
+}
+
+/**
+ * Validate a section body; `partial` allows omitted fields (updates)
+ */
+export function parseSectionInput(body: any, partial = false): SectionInput {
+  const input: SectionInput = {};
+
+  if (!partial || body?.category !== undefined) {
+    if (!Object.values(RuleCategory).includes(body?.category)) {
+      throw new Error(`category must be one of: ${Object.values(RuleCategory).join(', ')}`);
+    }
+    input.category = body.category;
+  }
+  if (!partial || body?.title !== undefined) input.title = requireText(body?.title, 'title');
+  if (!partial || body?.priority !== undefined) {
+    if (!Object.values(RulePriority).includes(body?.priority)) {
+      throw new Error(`priority must be one of: ${Object.values(RulePriority).join(', ')}`);
+    }
+    input.priority = body.priority;
+  }
+  if (body?.key !== undefined) input.key = slug(requireText(body.key, 'key'));
+  if (body?.description !== undefined) input.description = body.description ? String(body.description) : null;
+  if (body?.isInfoSection !== undefined) input.isInfoSection = body.isInfoSection === true;
+  if (body?.content !== undefined) input.content = body.content ? String(body.content) : null;
+  if (body?.sortOrder !== undefined) {
+    if (!Number.isInteger(body.sortOrder)) throw new Error('sortOrder must be an integer');
+    input.sortOrder = body.sortOrder;
+  }
+
+  return input;
+}
+
+/**
+ * Validate a rule body; `partial` allows omitted fields (updates)
+ */
+export function parseRuleInput(body: any, partial = false): RuleInput {
+  const input: RuleInput = {};
+
+  if (!partial || body?.sectionId !== undefined) input.sectionId = requireText(body?.sectionId, 'sectionId');
+  if (!partial || body?.title !== undefined) input.title = requireText(body?.title, 'title');
+  if (!partial || body?.description !== undefined) input.description = requireText(body?.description, 'description');
+  if (!partial || body?.source !== undefined) input.source = requireText(body?.source, 'source');
+  if (body?.number !== undefined) {
+    if (!Number.isInteger(body.number) || body.number < 1) throw new Error('number must be a positive integer');
+    input.number = body.number;
+  }
+  if (body?.requirements !== undefined) {
+    if (!Array.isArray(body.requirements)) throw new Error('requirements must be a list');
+    input.requirements = body.requirements.map((requirement: unknown) => String(requirement).trim()).filter(Boolean);
+  }
+  if (body?.citation !== undefined) input.citation = body.citation ? String(body.citation) : null;
+  if (body?.sortOrder !== undefined) {
+    if (!Number.isInteger(body.sortOrder)) throw new Error('sortOrder must be an integer');
+    input.sortOrder = body.sortOrder;
+  }
+
+  return input;
+}
+
+function changedFields<T extends Record<string, any>>(before: T, after: T, fields: readonly (keyof T & string)[]): FieldChange[] {
+  return fields
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+}
+
+/**
+ * Compare two versions by section key and rule code
+ */
+export function diffVersions(from: RuleSetVersionWithRules, to: RuleSetVersionWithRules): RuleSetDiff {
+  const fromSections = new Map(from.sections.map(section => [section.key, section]));
+  const toSections = new Map(to.sections.map(section => [section.key, section]));
+  const rulesOf = (version: RuleSetVersionWithRules) =>
+    new Map(version.sections.flatMap(section => section.rules.map(rule => [rule.code, { ...rule, sectionTitle: section.title }] as const)));
+  const fromRules = rulesOf(from);
+  const toRules = rulesOf(to);
+
+  const ruleChanges = [...toRules.values()]
+    .filter(rule => fromRules.has(rule.code))
+    .map(rule => {
+      const before = fromRules.get(rule.code)!;
+      const changes = changedFields(before, rule, RULE_DIFF_FIELDS);
+      if (before.sectionTitle !== rule.sectionTitle) {
+        changes.push({ field: 'section', from: before.sectionTitle, to: rule.sectionTitle });
+      }
+      return { code: rule.code, title: rule.title, changes };
+    });
+
+  return {
+    from: { id: from.id, version: from.version, name: from.name },
+    to: { id: to.id, version: to.version, name: to.name },
+    sections: {
+      added: to.sections.filter(section => !fromSections.has(section.key)).map(({ key, title }) => ({ key, title })),
+      removed: from.sections.filter(section => !toSections.has(section.key)).map(({ key, title }) => ({ key, title })),
+      changed: to.sections
+        .filter(section => fromSections.has(section.key))
+        .map(section => ({ key: section.key, title: section.title, changes: changedFields(fromSections.get(section.key)!, section, SECTION_DIFF_FIELDS) }))
+        .filter(section => section.changes.length > 0),
+    },
+    rules: {
+      added: [...toRules.values()].filter(rule => !fromRules.has(rule.code)).map(rule => ({ code: rule.code, title: rule.title, section: rule.sectionTitle })),
+      removed: [...fromRules.values()].filter(rule => !toRules.has(rule.code)).map(rule => ({ code: rule.code, title: rule.title, section: rule.sectionTitle })),
+      changed: ruleChanges.filter(rule => rule.changes.length > 0),
+      unchanged: ruleChanges.filter(rule => rule.changes.length === 0).length,
+    },
+  };
+}
+
+/**
+ * Rules of a version in the form the compliance engine checks (info sections excluded)
+ */
+export function toComplianceRules(version: RuleSetVersionWithRules): ComplianceRule[] {
+  return version.sections
+    .filter(section => !section.isInfoSection)
+    .flatMap(section => section.rules.map(rule => ({
+      id: rule.code,
+      ruleSet: section.category,
+      section: section.title,
+      title: rule.title,
+      description: rule.description,
+      requirements: rule.requirements.length ? rule.requirements : undefined,
+      source: rule.source,
+      severity: PRIORITY_SEVERITY[section.priority],
+    })));
+}
+
+export class RulesKnowledgeBase {
+  /**
+   * Create version 1 from the shipped rules if the organisation has no versions yet
+   */
+  static async ensureSeeded(): Promise<void> {
+    if (await prisma.rule_set_versions.count() > 0) {
+      return;
+    }
+
+    console.log('📚 Seeding rules knowledge base version 1 from the shipped rules');
+    try {
+      await prisma.$transaction(async tx => {
+        const version = await tx.rule_set_versions.create({
+          data: {
+            version: 1,
+            name: 'PR2025 & Cathlab rules',
+            notes: 'Initial rules imported from the compiled-in knowledge base',
+            status: RuleSetStatus.PUBLISHED,
+            effectiveFrom: new Date(0),
+            publishedAt: new Date(),
+            publishedBy: 'system',
+          },
+        });
+
+        // Rules are created with their section: the tenant extension can't check a
+        // createMany against a version that isn't committed yet
+        for (const { rules, ...section } of defaultSections()) {
+          await tx.rule_set_sections.create({
+            data: {
+              ...section,
+              versionId: version.id,
+              rules: { createMany: { data: rules.map(rule => ({ ...rule, versionId: version.id })) } },
+            },
+          });
+        }
+      }, { timeout: 60000 });
+    } catch (error) {
+      // Another request seeded the knowledge base first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  static async listVersions() {
+    await this.ensureSeeded();
+
+    const [versions, active] = await Promise.all([
+      prisma.rule_set_versions.findMany({
+        orderBy: { version: 'desc' },
+        include: { _count: { select: { rules: true, assessments: true } } },
+      }),
+      this.getActiveVersion(),
+    ]);
+
+    return { versions, activeVersionId: active?.id ?? null };
+  }
+
+  static async getVersion(versionId: string): Promise<RuleSetVersionWithRules> {
+    const version = await prisma.rule_set_versions.findFirst({ where: { id: versionId }, include: versionInclude });
+    if (!version) {
+      throw new Error(`Rule set version ${versionId} not found`);
+    }
+    return version;
+  }
+
+  /**
+   * The published version in effect at `at` (default now)
+   */
+  static async getActiveVersion(at: Date = new Date()): Promise<RuleSetVersionWithRules | null> {
+    await this.ensureSeeded();
+
+    return prisma.rule_set_versions.findFirst({
+      where: { status: RuleSetStatus.PUBLISHED, effectiveFrom: { lte: at } },
+      orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }],
+      include: versionInclude,
+    });
+  }
+
+  /**
+   * Start a draft as a copy of `basedOnId` (default: the active version)
+   */
+  static async createDraft(input: { basedOnId?: string; name?: string; notes?: string }, user: SessionUser): Promise<RuleSetVersionWithRules> {
+    const source = input.basedOnId ? await this.getVersion(input.basedOnId) : await this.getActiveVersion();
+    const latest = await prisma.rule_set_versions.findFirst({ orderBy: { version: 'desc' }, select: { version: true } });
+    const versionNumber = (latest?.version ?? 0) + 1;
+
+    const draft = await prisma.$transaction(async tx => {
+      const version = await tx.rule_set_versions.create({
+        data: {
+          version: versionNumber,
+          name: input.name?.trim() || `Version ${versionNumber}`,
+          notes: input.notes?.trim() || null,
+          basedOnId: source?.id ?? null,
+          createdBy: user.username,
+        },
+      });
+
+      for (const { id: _id, versionId: _versionId, rules, ...section } of source?.sections ?? []) {
+        await tx.rule_set_sections.create({
+          data: {
+            ...section,
+            versionId: version.id,
+            rules: {
+              createMany: {
+                data: rules.map(({ id: _ruleId, versionId: _ruleVersionId, sectionId: _sectionId, ...rule }) => ({
+                  ...rule,
+                  versionId: version.id,
+                })),
+              },
+            },
+          },
+        });
+      }
+
+      return version;
+    }, { timeout: 60000 });
+
+    console.log(`📚 ${user.username} created rule set draft v${draft.version}${source ? ` from v${source.version}` : ''}`);
+    return this.getVersion(draft.id);
+  }
+
+  static async updateVersion(versionId: string, input: { name?: string; notes?: string | null }) {
+    await this.requireDraft(versionId);
+    return prisma.rule_set_versions.update({
+      where: { id: versionId },
+      data: {
+        ...(input.name !== undefined ? { name: requireText(input.name, 'name') } : {}),
+        ...(input.notes !== undefined ? { notes: input.notes ? String(input.notes) : null } : {}),
+      },
+    });
+  }
+
+  /**
+   * Publish a draft, effective from `effectiveFrom` (default now)
+   */
+  static async publish(versionId: string, effectiveFrom: Date | undefined, user: SessionUser) {
+    const version = await this.requireDraft(versionId);
+    if (version.sections.every(section => section.rules.length === 0)) {
+      throw new Error('A rule set version needs at least one rule before it can be published');
+    }
+    if (effectiveFrom && Number.isNaN(effectiveFrom.getTime())) {
+      throw new Error('effectiveFrom must be a valid date');
+    }
+
+    return prisma.rule_set_versions.update({
+      where: { id: versionId },
+      data: {
+        status: RuleSetStatus.PUBLISHED,
+        effectiveFrom: effectiveFrom ?? new Date(),
+        publishedBy: user.username,
+        publishedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Withdraw a published version; assessments evaluated against it keep their link
+   */
+  static async archive(versionId: string) {
+    const version = await this.getVersion(versionId);
+    if (version.status !== RuleSetStatus.PUBLISHED) {
+      throw new Error(`Only published versions can be archived (v${version.version} is ${version.status})`);
+    }
+    return prisma.rule_set_versions.update({ where: { id: versionId }, data: { status: RuleSetStatus.ARCHIVED } });
+  }
+
+  static async deleteDraft(versionId: string): Promise<void> {
+    await this.requireDraft(versionId);
+    await prisma.rule_set_versions.delete({ where: { id: versionId } });
+  }
+
+  static async addSection(versionId: string, input: SectionInput) {
+    const version = await this.requireDraft(versionId);
+    return prisma.rule_set_sections.create({
+      data: {
+        versionId,
+        category: input.category!,
+        key: input.key || `${input.category!.toLowerCase()}-${slug(input.title!)}`,
+        title: input.title!,
+        description: input.description ?? null,
+        priority: input.priority!,
+        isInfoSection: input.isInfoSection ?? false,
+        content: input.content ?? null,
+        sortOrder: input.sortOrder ?? version.sections.length,
+      },
+    });
+  }
+
+  static async updateSection(versionId: string, sectionId: string, input: SectionInput) {
+    const version = await this.requireDraft(versionId);
+    const section = version.sections.find(candidate => candidate.id === sectionId);
+    if (!section) {
+      throw new Error(`Section ${sectionId} not found in v${version.version}`);
+    }
+    if (input.category && input.category !== section.category && section.rules.length > 0) {
+      throw new Error('Move or delete the section\'s rules before changing its category');
+    }
+    return prisma.rule_set_sections.update({ where: { id: sectionId }, data: input });
+  }
+
+  static async deleteSection(versionId: string, sectionId: string): Promise<void> {
+    const version = await this.requireDraft(versionId);
+    if (!version.sections.some(section => section.id === sectionId)) {
+      throw new Error(`Section ${sectionId} not found in v${version.version}`);
+    }
+    await prisma.rule_set_sections.delete({ where: { id: sectionId } });
+  }
+
+  static async addRule(versionId: string, input: RuleInput): Promise<StoredRule> {
+    const version = await this.requireDraft(versionId);
+    const section = this.findSection(version, input.sectionId!);
+    const number = input.number ?? this.nextRuleNumber(version, section.category);
+    const code = `${CODE_PREFIX[section.category]}${number}`;
+
+    if (version.sections.some(candidate => candidate.rules.some(rule => rule.code === code))) {
+      throw new Error(`Rule ${code} already exists in v${version.version}`);
+    }
+
+    return prisma.rule_set_rules.create({
+      data: {
+        versionId,
+        sectionId: section.id,
+        code,
+        number,
+        title: input.title!,
+        description: input.description!,
+        requirements: input.requirements ?? [],
+        source: input.source!,
+        citation: input.citation ?? null,
+        sortOrder: input.sortOrder ?? section.rules.length,
+      },
+    });
+  }
+
+  static async updateRule(versionId: string, ruleId: string, input: RuleInput): Promise<StoredRule> {
+    const version = await this.requireDraft(versionId);
+    const current = version.sections.find(section => section.rules.some(rule => rule.id === ruleId));
+    if (!current) {
+      throw new Error(`Rule ${ruleId} not found in v${version.version}`);
+    }
+
+    const { number, sectionId, ...fields } = input;
+    const section = sectionId ? this.findSection(version, sectionId) : current;
+    if (section.category !== current.category && number === undefined) {
+      throw new Error('A rule moved to another category needs a new number');
+    }
+
+    let code: string | undefined;
+    if (number !== undefined || section.category !== current.category) {
+      code = `${CODE_PREFIX[section.category]}${number}`;
+      const clash = version.sections.some(candidate => candidate.rules.some(rule => rule.code === code && rule.id !== ruleId));
+      if (clash) {
+        throw new Error(`Rule ${code} already exists in v${version.version}`);
+      }
+    }
+
+    return prisma.rule_set_rules.update({
+      where: { id: ruleId },
+      data: {
+        ...fields,
+        sectionId: section.id,
+        ...(code ? { code, number } : {}),
+      },
+    });
+  }
+
+  static async deleteRule(versionId: string, ruleId: string): Promise<void> {
+    const version = await this.requireDraft(versionId);
+    if (!version.sections.some(section => section.rules.some(rule => rule.id === ruleId))) {
+      throw new Error(`Rule ${ruleId} not found in v${version.version}`);
+    }
+    await prisma.rule_set_rules.delete({ where: { id: ruleId } });
+  }
+
+  static async diff(fromId: string, toId: string): Promise<RuleSetDiff> {
+    const [from, to] = await Promise.all([this.getVersion(fromId), this.getVersion(toId)]);
+    return diffVersions(from, to);
+  }
+
+  private static async requireDraft(versionId: string): Promise<RuleSetVersionWithRules> {
+    const version = await this.getVersion(versionId);
+    if (version.status !== RuleSetStatus.DRAFT) {
+      throw new Error(`v${version.version} is ${version.status.toLowerCase()} and cannot be edited - create a new draft`);
+    }
+    return version;
+  }
+
+  private static findSection(version: RuleSetVersionWithRules, sectionId: string): SectionWithRules {
+    const section = version.sections.find(candidate => candidate.id === sectionId);
+    if (!section) {
+      throw new Error(`Section ${sectionId} not found in v${version.version}`);
+    }
+    if (section.isInfoSection) {
+      throw new Error(`"${section.title}" is an information section and cannot hold rules`);
+    }
+    return section;
+  }
+
+  private static nextRuleNumber(version: RuleSetVersionWithRules, category: RuleCategory): number {
+    const numbers = version.sections
+      .filter(section => section.category === category)
+      .flatMap(section => section.rules.map(rule => rule.number));
+    return Math.max(0, ...numbers) + 1;
+  }
+}
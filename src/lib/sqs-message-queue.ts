@@ -0,0 +1,100 @@
+/**
+ * SQS Message Queue - Amazon SQS backend of the message queue (message-queue.ts)
+ */
+
+import crypto from 'crypto';
+import {
+  SQSClient,
+  SendMessageBatchCommand,
+  ReceiveMessageCommand,
+  DeleteMessageCommand,
+  ChangeMessageVisibilityCommand,
+} from '@aws-sdk/client-sqs';
+import { getAWSCredentials, AWS_REGION } from './aws-credentials';
+import type { MessageQueue, QueueMessage, ReceivedMessage } from './message-queue';
+import { getVisibilityMs, parseQueueMessage } from './message-queue';
+
+// SQS limits: 10 messages per batch, 20 seconds of long polling, 12 hours of visibility
+const MAX_BATCH_SIZE = 10;
+const MAX_WAIT_SECONDS = 20;
+const MAX_VISIBILITY_SECONDS = 43200;
+
+export class SqsMessageQueue implements MessageQueue {
+  readonly backend = 'sqs' as const;
+  private client: SQSClient | null = null;
+  private readonly queueUrl = process.env.SQS_QUEUE_URL || process.env.SQS_DOCUMENT_PROCESSING_QUEUE || 'nolia-document-processing';
+
+  // Created lazily: in Lambda the execution role credentials may not be ready
+  // during cold start
+  private getClient(): SQSClient {
+    if (!this.client) {
+      console.log('🔐 Creating new SQS client with Lambda execution role credentials');
+      this.client = new SQSClient({
+        region: AWS_REGION,
+        credentials: getAWSCredentials(), // Returns undefined in production to use Lambda role
+      });
+    }
+    return this.client;
+  }
+
+  async send(messages: QueueMessage[]): Promise<void> {
+    console.log(`📨 Sending ${messages.length} message(s) to SQS queue ${this.queueUrl}`);
+
+    for (let i = 0; i < messages.length; i += MAX_BATCH_SIZE) {
+      const batch = messages.slice(i, i + MAX_BATCH_SIZE).map(message => ({
+        Id: crypto.randomUUID(),
+        MessageBody: JSON.stringify(message),
+      }));
+
+      const result = await this.getClient().send(new SendMessageBatchCommand({
+        QueueUrl: this.queueUrl,
+        Entries: batch,
+      }));
+
+      if (result.Failed && result.Failed.length > 0) {
+        console.error('❌ Failed messages:', JSON.stringify(result.Failed, null, 2));
+        throw new Error(`${result.Failed.length} of ${batch.length} SQS message(s) were not sent`);
+      }
+    }
+  }
+
+  async receive(max: number, waitMs: number): Promise<ReceivedMessage[]> {
+    const client = this.getClient();
+    const result = await client.send(new ReceiveMessageCommand({
+      QueueUrl: this.queueUrl,
+      MaxNumberOfMessages: Math.min(Math.max(max, 1), MAX_BATCH_SIZE),
+      WaitTimeSeconds: Math.min(Math.ceil(waitMs / 1000), MAX_WAIT_SECONDS),
+      VisibilityTimeout: Math.round(getVisibilityMs() / 1000),
+      MessageSystemAttributeNames: ['ApproximateReceiveCount'],
+    }));
+
+    const received: ReceivedMessage[] = [];
+    for (const sqsMessage of result.Messages ?? []) {
+      const receiptHandle = sqsMessage.ReceiptHandle!;
+      const ack = async () => {
+        await client.send(new DeleteMessageCommand({ QueueUrl: this.queueUrl, ReceiptHandle: receiptHandle }));
+      };
+
+      try {
+        received.push({
+          id: sqsMessage.MessageId!,
+          message: parseQueueMessage(sqsMessage.Body ?? ''),
+          receiveCount: Number(sqsMessage.Attributes?.ApproximateReceiveCount ?? 1),
+          ack,
+          release: async (delayMs: number) => {
+            await client.send(new ChangeMessageVisibilityCommand({
+              QueueUrl: this.queueUrl,
+              ReceiptHandle: receiptHandle,
+              VisibilityTimeout: Math.min(Math.round(delayMs / 1000), MAX_VISIBILITY_SECONDS),
+            }));
+          },
+        });
+      } catch (error) {
+        // Malformed messages would be redelivered forever
+        console.error(`❌ Dropping unreadable SQS message ${sqsMessage.MessageId}:`, error);
+        await ack();
+      }
+    }
+    return received;
+  }
+}
@@ -1,47 +1,25 @@
-import { SQSClient, SendMessageCommand, SendMessageBatchCommand } from '@aws-sdk/client-sqs';
+import crypto from 'crypto';
 import { prisma } from './database-s3';
 import { JobType, JobStatus, ModuleType } from '@prisma/client';
-import crypto from 'crypto';
-import { getAWSCredentials, AWS_REGION } from './aws-credentials';
 import { BackgroundJobService } from './background-job-service';
+import { failJob, requeueJob } from './job-queue';
+import {
+  getMessageQueueBackend,
+  sendQueueMessages,
+  AssessmentEvaluationMessage,
+  DocumentProcessingMessage,
+  BrainAssemblyMessage
+} from './message-queue';
+
+export type { AssessmentEvaluationMessage, DocumentProcessingMessage, BrainAssemblyMessage } from './message-queue';
 
 // DIAGNOSTIC: Log what ModuleType enum values this Prisma client knows about
 console.log('🔍 DIAGNOSTIC: ModuleType enum values known by deployed Prisma client:', Object.keys(ModuleType));
 
-// CRITICAL FIX: Create SQS client lazily to ensure Lambda execution role is available
-// Do NOT initialize at module level as credentials may not be ready during cold start
-let sqsClient: SQSClient | null = null;
-
-function getSQSClient(): SQSClient {
-  if (!sqsClient) {
-    console.log('🔐 Creating new SQS client with Lambda execution role credentials');
-    sqsClient = new SQSClient({
-      region: AWS_REGION,
-      credentials: getAWSCredentials(), // Returns undefined in production to use Lambda role
-    });
-  }
-  return sqsClient;
-}
-
-// Queue URLs from environment variables
-const DOCUMENT_PROCESSING_QUEUE = process.env.SQS_QUEUE_URL || process.env.SQS_DOCUMENT_PROCESSING_QUEUE || 'nolia-document-processing';
-
-export interface DocumentProcessingMessage {
-  jobId: string;
-  fundId: string;
-  documentId: string;
-  s3Key: string;
-  documentType: 'APPLICATION_FORM' | 'SELECTION_CRITERIA' | 'GOOD_EXAMPLES' | 'OUTPUT_TEMPLATES';
-  filename: string;
-  mimeType: string;
-}
-
-export interface BrainAssemblyMessage {
-  jobId: string;
-  fundId: string;
-  triggerType: 'DOCUMENT_COMPLETE' | 'MANUAL_TRIGGER';
-}
-
+/**
+ * Queues document processing, brain assembly and assessment evaluation. Messages go to the configured
+ * message queue (message-queue.ts): SQS when deployed, Postgres locally.
+ */
 export class SQSService {
   /**
    * Create a background job and send document for processing
@@ -86,70 +64,39 @@ export class SQSService {
       },
     });
 
-    // Send messages to SQS queue
-    const messages = documents.map(doc => ({
-      Id: crypto.randomUUID(),
-      MessageBody: JSON.stringify({
-        jobId: job.id,
-        fundId,
-        documentId: doc.id,
-        s3Key: doc.s3Key,
-        documentType: doc.documentType,
-        filename: doc.filename,
-        mimeType: doc.mimeType,
-      } as DocumentProcessingMessage),
-      // Remove FIFO-specific parameters for standard queue
-      // MessageGroupId: fundId, // Only for FIFO queues
-      // MessageDeduplicationId: `${job.id}-${doc.id}`, // Only for FIFO queues
+    const messages: DocumentProcessingMessage[] = documents.map(doc => ({
+      type: 'DOCUMENT_PROCESSING',
+      jobId: job.id,
+      fundId,
+      documentId: doc.id,
+      s3Key: doc.s3Key,
+      documentType: doc.documentType,
+      filename: doc.filename,
+      mimeType: doc.mimeType,
     }));
 
-    // Send in batches of up to 10 (SQS limit)
-    const batchSize = 10;
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('📨 SENDING MESSAGES TO SQS');
+    console.log(`📨 SENDING ${messages.length} MESSAGE(S) TO ${getMessageQueueBackend().toUpperCase()} QUEUE`);
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('📨 Queue URL:', DOCUMENT_PROCESSING_QUEUE);
-    console.log('📨 Total messages to send:', messages.length);
-    console.log('📨 Number of batches:', Math.ceil(messages.length / batchSize));
-
-    for (let i = 0; i < messages.length; i += batchSize) {
-      const batch = messages.slice(i, i + batchSize);
-
-      console.log(`📨 Sending batch ${Math.floor(i / batchSize) + 1} with ${batch.length} message(s)...`);
-      console.log('📨 Batch message IDs:', batch.map(m => m.Id).join(', '));
-
-      try {
-        const result = await getSQSClient().send(new SendMessageBatchCommand({
-          QueueUrl: DOCUMENT_PROCESSING_QUEUE,
-          Entries: batch,
-        }));
-
-        console.log('✅ Batch sent successfully');
-        console.log('✅ Successful:', result.Successful?.length || 0);
-        console.log('✅ Failed:', result.Failed?.length || 0);
-        if (result.Failed && result.Failed.length > 0) {
-          console.error('❌ Failed messages:', JSON.stringify(result.Failed, null, 2));
-        }
-      } catch (sendError) {
-        console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-        console.error('❌ SQS SEND FAILED FOR BATCH');
-        console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-        console.error('❌ Error type:', sendError?.constructor?.name);
-        console.error('❌ Error message:', sendError instanceof Error ? sendError.message : String(sendError));
-        console.error('❌ Error stack:', sendError instanceof Error ? sendError.stack : 'No stack');
-        console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-        throw sendError; // Re-throw to be caught by outer try-catch
-      }
+
+    try {
+      await sendQueueMessages(messages);
+    } catch (sendError) {
+      console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.error('❌ QUEUE SEND FAILED');
+      console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      console.error('❌ Error type:', sendError?.constructor?.name);
+      console.error('❌ Error message:', sendError instanceof Error ? sendError.message : String(sendError));
+      console.error('❌ Error stack:', sendError instanceof Error ? sendError.stack : 'No stack');
+      console.error('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      throw sendError;
     }
 
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('✅ ALL SQS MESSAGES SENT SUCCESSFULLY');
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('✅ All queue messages sent');
 
-    // In development, DON'T mark as PROCESSING - let background processor pick it up as PENDING
-    // In production with actual SQS queue workers, this line would mark it as PROCESSING
-    // For now, background processor will handle jobs in PENDING state within 30 seconds
-    console.log(`📝 Job ${job.id} created as PENDING - background processor will pick it up automatically`);
+    // The job stays PENDING until a worker claims it - the queue consumer when it
+    // receives the messages, or the background processor's next cycle
+    console.log(`📝 Job ${job.id} created as PENDING - the queue consumer or background processor will pick it up`);
 
     // In production, immediately trigger document processing (background processor doesn't run in serverless)
     // CRITICAL: Call BackgroundJobService directly to avoid HTTP overhead and connection pool exhaustion
@@ -173,7 +120,7 @@ export class SQSService {
    */
   async queueBrainAssembly(fundId: string, triggerType: 'DOCUMENT_COMPLETE' | 'MANUAL_TRIGGER' = 'DOCUMENT_COMPLETE') {
     // Use a transaction to prevent race conditions
-    return await prisma.$transaction(async (tx) => {
+    const { job, created } = await prisma.$transaction(async (tx) => {
       // Get fund to retrieve moduleType
       const fund = await tx.fund.findUnique({
         where: { id: fundId },
@@ -197,7 +144,7 @@ export class SQSService {
 
       if (existingJob) {
         console.log(`Brain assembly already exists for fund ${fundId}, job ${existingJob.id} (status: ${existingJob.status})`);
-        return existingJob;
+        return { job: existingJob, created: false };
       }
 
       // Get DOCUMENT_ANALYSIS job to copy textractJobs metadata to RAG job
@@ -235,26 +182,77 @@ export class SQSService {
 
       console.log(`Created RAG_PROCESSING job ${job.id} for fund ${fundId}`);
 
-      // Send message to brain assembly queue (use same queue for now)
-      try {
-        await getSQSClient().send(new SendMessageCommand({
-          QueueUrl: DOCUMENT_PROCESSING_QUEUE, // Use same queue for brain assembly
-          MessageBody: JSON.stringify({
-            jobId: job.id,
-            fundId,
-            triggerType,
-          } as BrainAssemblyMessage),
-          // Remove FIFO-specific parameters for standard queue
-          // MessageGroupId: fundId, // Only for FIFO queues
-          // MessageDeduplicationId: `brain-${job.id}`, // Only for FIFO queues
-        }));
-      } catch (sqsError) {
-        console.error(`Failed to send SQS message for job ${job.id}:`, sqsError);
-        // Don't fail the transaction - the background processor can pick up pending jobs
-      }
+      return { job, created: true };
+    });
 
+    if (!created) {
       return job;
+    }
+
+    // Sent once the job is committed: the message is never consumed before the
+    // job exists, and a rolled back job is never announced
+    try {
+      // Brain assembly messages share the document processing queue
+      await sendQueueMessages([{
+        type: 'BRAIN_ASSEMBLY',
+        jobId: job.id,
+        fundId,
+        triggerType,
+      } as BrainAssemblyMessage]);
+    } catch (queueError) {
+      console.error(`Failed to queue brain assembly message for job ${job.id}:`, queueError);
+      // The job stays PENDING - the background processor can pick up pending jobs
+    }
+
+    return job;
+  }
+
+  /**
+   * Queue the rule evaluation of an uploaded assessment. Reading the report's
+   * tables waits on Textract, so the check runs as a job rather than in the
+   * request that uploaded the report.
+   */
+  async queueAssessmentEvaluation(fundId: string, assessmentId: string) {
+    const fund = await prisma.funds.findUnique({
+      where: { id: fundId },
+      select: { moduleType: true }
     });
+
+    if (!fund) {
+      throw new Error(`Fund ${fundId} not found`);
+    }
+
+    const job = await prisma.background_jobs.create({
+      data: {
+        id: crypto.randomUUID(),
+        fundId,
+        type: JobType.ASSESSMENT_EVALUATION,
+        status: JobStatus.PENDING,
+        totalDocuments: 1,
+        processedDocuments: 0,
+        moduleType: fund.moduleType,
+        metadata: {
+          assessmentId,
+          queuedAt: new Date().toISOString(),
+        },
+        updatedAt: new Date(),
+      },
+    });
+
+    try {
+      await sendQueueMessages([{
+        type: 'ASSESSMENT_EVALUATION',
+        jobId: job.id,
+        fundId,
+        assessmentId,
+      } as AssessmentEvaluationMessage]);
+    } catch (queueError) {
+      console.error(`Failed to queue assessment evaluation message for job ${job.id}:`, queueError);
+      // The job stays PENDING - the background processor can pick up pending jobs
+    }
+
+    console.log(`📝 Assessment ${assessmentId} queued for evaluation as job ${job.id}`);
+    return job;
   }
 
   /**
@@ -279,6 +277,8 @@ export class SQSService {
         progress,
         status: isComplete ? JobStatus.COMPLETED : JobStatus.PROCESSING,
         completedAt: isComplete ? new Date() : null,
+        // A completed job releases its lease
+        ...(isComplete && { leaseOwner: null, leaseExpiresAt: null }),
         metadata: metadata ? { ...job.metadata as any, ...metadata } : job.metadata,
       },
     });
@@ -304,22 +304,19 @@ export class SQSService {
   }
 
   /**
-   * Mark job as failed
+   * Record a failed attempt - the queue retries the job with backoff, or moves it
+   * to the dead-letter state once its attempts are used up
    */
-  async markJobFailed(jobId: string, errorMessage: string) {
+  async markJobFailed(jobId: string, errorMessage: string, leaseOwner?: string) {
     console.error(`❌ Marking job ${jobId} as failed: ${errorMessage}`);
 
-    await prisma.background_jobs.update({
-      where: { id: jobId },
-      data: {
-        status: JobStatus.FAILED,
-        errorMessage,
-        completedAt: new Date(),
-      },
-    });
+    const outcome = await failJob(jobId, errorMessage, leaseOwner);
 
     // Log failure for monitoring
-    console.error(`🚨 Job ${jobId} failed and requires manual intervention`);
+    if (outcome === 'DEAD_LETTER') {
+      console.error(`🚨 Job ${jobId} is dead-lettered and requires manual intervention`);
+    }
+    return outcome;
   }
 
   /**
@@ -350,7 +347,7 @@ export class SQSService {
   }
 
   /**
-   * Retry a failed job by resetting it to PENDING status
+   * Retry a failed or dead-lettered job by putting it back in the queue
    */
   async retryFailedJob(jobId: string) {
     const job = await prisma.background_jobs.findUnique({
@@ -361,24 +358,18 @@ export class SQSService {
       throw new Error(`Job ${jobId} not found`);
     }
 
-    if (job.status !== JobStatus.FAILED) {
-      throw new Error(`Job ${jobId} is not in FAILED status (current: ${job.status})`);
+    if (job.status !== JobStatus.FAILED && job.status !== JobStatus.DEAD_LETTER) {
+      throw new Error(`Job ${jobId} is not in FAILED or DEAD_LETTER status (current: ${job.status})`);
     }
 
-    // Reset job to PENDING status
     await prisma.background_jobs.update({
       where: { id: jobId },
       data: {
-        status: JobStatus.PENDING,
-        errorMessage: null,
-        completedAt: null,
         processedDocuments: 0,
         progress: 0,
       },
     });
-
-    console.log(`🔄 Job ${jobId} reset to PENDING for retry`);
-    return job;
+    return (await requeueJob(jobId)) ?? job;
   }
 }
 
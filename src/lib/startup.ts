@@ -2,6 +2,8 @@
 // This ensures critical services start when the app loads
 
 import { backgroundProcessor } from './background-processor';
+import { queueConsumer } from './queue-consumer';
+import { getMessageQueueBackend } from './message-queue';
 
 let initialized = false;
 
@@ -14,6 +16,11 @@ function initializeServices() {
 
   console.log('🚀 Initializing application services...');
 
+  // Outside the try: a missing or inconsistent queue configuration stops
+  // startup instead of leaving messages where no worker reads them
+  const queueBackend = getMessageQueueBackend();
+  console.log(`📨 Message queue backend: ${queueBackend}`);
+
   try {
     // Start background processor if not already running
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -29,6 +36,14 @@ function initializeServices() {
       console.log('✅ Background processor already running');
     }
 
+    // Consume the local message queue in this process. SQS messages are consumed
+    // by the deployed workers, so a local server never takes them off the queue.
+    const serverless = process.env.NODE_ENV === 'production' || process.env.AWS_BRANCH;
+    if (!serverless && queueBackend === 'postgres' && !queueConsumer.getStatus().running) {
+      queueConsumer.start();
+      console.log('✅ Queue consumer started automatically');
+    }
+
     initialized = true;
     console.log('🎉 Application services initialized successfully');
 
@@ -0,0 +1,615 @@
+/**
+ * Template Language - Output template syntax for assessment reports
+ *
+ * Output templates are filled without AI: the template is parsed once and rendered
+ * against the assessment's data (see template-engine.ts for the data available).
+ * The syntax is documented for fund administrators in docs/OUTPUT_TEMPLATE_SYNTAX.md.
+ *
+ *   {{ organisation.name }}                   a value
+ *   {{ score | number: 1 }}                   a value through filters
+ *   {{ fields.businessSummary | default: "Not provided" }}
+ *   {% for criterion in criteria %}...{% else %}no criteria{% endfor %}
+ *   {% if score < 50 %}...{% elsif score < 70 %}...{% else %}...{% endif %}
+ *
+ * Conditions compare with == != < <= > >= and contains, combine with and / or /
+ * not and parentheses, and treat missing values, empty strings, empty lists, 0
+ * and false as false. Inside a loop, loop.index (from 1), loop.index0,
+ * loop.first, loop.last and loop.length describe the current item.
+ *
+ * A value that is missing (undefined, null or an empty string) and has no default
+ * filter is reported in the render result's `missing` list and rendered according
+ * to the `missing` option: a visible [Not provided: path] marker (default), an
+ * empty string, or an error. A tag that is alone on its line takes the line with
+ * it, so loops and conditions don't leave blank lines behind.
+ */
+
+export type TemplateValue = any;
+
+// A filter gets the value and the filter's arguments, e.g. number: 1 -> (value, 1)
+export type TemplateFilter = (value: TemplateValue, args: TemplateValue[], options: Required<RenderOptions>) => TemplateValue;
+
+export type Expression =
+  | { type: 'literal'; value: TemplateValue }
+  | { type: 'path'; segments: Array<string | number>; source: string }
+  | { type: 'not'; operand: Expression }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression };
+
+export interface FilterCall {
+  name: string;
+  args: Expression[];
+}
+
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'output'; value: Expression; filters: FilterCall[]; line: number }
+  | { type: 'if'; branches: Array<{ condition: Expression; body: TemplateNode[] }>; otherwise: TemplateNode[] }
+  | { type: 'for'; variable: string; list: Expression; body: TemplateNode[]; empty: TemplateNode[] };
+
+export interface Template {
+  nodes: TemplateNode[];
+  variables: string[];  // Paths the template reads, loop variables excluded
+}
+
+export interface RenderOptions {
+  missing?: 'marker' | 'empty' | 'error';
+  locale?: string;
+  currency?: string;
+  escape?: (text: string) => string;  // Applied to output values, e.g. XML escaping for DOCX templates
+}
+
+export interface RenderResult {
+  output: string;
+  missing: string[];  // Paths that had no value and no default
+}
+
+const DEFAULT_OPTIONS: Required<RenderOptions> = { missing: 'marker', locale: 'en-NZ', currency: 'NZD', escape: text => text };
+
+const filters = new Map<string, TemplateFilter>();
+
+/**
+ * Add a filter (or replace a built-in one)
+ */
+export function registerFilter(name: string, filter: TemplateFilter) {
+  filters.set(name, filter);
+}
+
+export const isMissing = (value: TemplateValue) => value === undefined || value === null || value === '';
+
+export const hasTemplateSyntax = (content: string) => /\{\{[\s\S]*?\}\}|\{%[\s\S]*?%\}/.test(content);
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+const EXPRESSION_TOKEN = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)|(==|!=|<=|>=|<|>|\(|\)|\||:|,)|([A-Za-z_][\w]*(?:\.[\w]+|\[\d+\]|\["[^"]*"\])*))/y;
+
+interface ExpressionToken {
+  kind: 'string' | 'number' | 'symbol' | 'word';
+  text: string;
+}
+
+function tokenizeExpression(source: string, line: number): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  EXPRESSION_TOKEN.lastIndex = 0;
+
+  while (EXPRESSION_TOKEN.lastIndex < source.length) {
+    if (!source.slice(EXPRESSION_TOKEN.lastIndex).trim()) break;
+
+    const start = EXPRESSION_TOKEN.lastIndex;
+    const match = EXPRESSION_TOKEN.exec(source);
+    if (!match) {
+      throw syntaxError(`unexpected "${source.slice(start).trim()}" in "${source.trim()}"`, line);
+    }
+    const [, string, number, symbol, word] = match;
+    tokens.push(
+      string !== undefined ? { kind: 'string', text: string }
+        : number !== undefined ? { kind: 'number', text: number }
+          : symbol !== undefined ? { kind: 'symbol', text: symbol }
+            : { kind: 'word', text: word }
+    );
+  }
+
+  return tokens;
+}
+
+const syntaxError = (message: string, line: number) => new Error(`Template syntax error on line ${line}: ${message}`);
+
+function parsePath(source: string): Expression {
+  const segments: Array<string | number> = [];
+  for (const [, name, index, key] of source.matchAll(/(?:^|\.)([\w]+)|\[(\d+)\]|\["([^"]*)"\]/g)) {
+    segments.push(index !== undefined ? Number(index) : name ?? key);
+  }
+  return { type: 'path', segments, source };
+}
+
+const COMPARISONS = ['==', '!=', '<', '<=', '>', '>=', 'contains'];
+
+/**
+ * Recursive-descent parser over one tag's tokens
+ */
+class ExpressionParser {
+  private position = 0;
+
+  constructor(private tokens: ExpressionToken[], private source: string, private line: number) {}
+
+  get done() {
+    return this.position >= this.tokens.length;
+  }
+
+  peek(text?: string): ExpressionToken | undefined {
+    const token = this.tokens[this.position];
+    return text === undefined || token?.text === text ? token : undefined;
+  }
+
+  expect(text: string) {
+    if (!this.peek(text)) {
+      throw syntaxError(`expected "${text}" in "${this.source.trim()}"`, this.line);
+    }
+    this.position++;
+  }
+
+  condition(): Expression {
+    let left = this.and();
+    while (this.peek('or')) {
+      this.position++;
+      left = { type: 'binary', operator: 'or', left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Expression {
+    let left = this.not();
+    while (this.peek('and')) {
+      this.position++;
+      left = { type: 'binary', operator: 'and', left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): Expression {
+    if (this.peek('not')) {
+      this.position++;
+      return { type: 'not', operand: this.not() };
+    }
+    const left = this.primary();
+    const operator = this.peek()?.text;
+    if (operator && COMPARISONS.includes(operator)) {
+      this.position++;
+      return { type: 'binary', operator, left, right: this.primary() };
+    }
+    return left;
+  }
+
+  primary(): Expression {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw syntaxError(`incomplete expression "${this.source.trim()}"`, this.line);
+    }
+
+    switch (token.kind) {
+      case 'string':
+        return { type: 'literal', value: token.text.slice(1, -1).replace(/\\(.)/g, '$1') };
+      case 'number':
+        return { type: 'literal', value: Number(token.text) };
+      case 'symbol':
+        if (token.text === '(') {
+          const inner = this.condition();
+          this.expect(')');
+          return inner;
+        }
+        throw syntaxError(`unexpected "${token.text}" in "${this.source.trim()}"`, this.line);
+      case 'word':
+        if (token.text === 'true' || token.text === 'false') return { type: 'literal', value: token.text === 'true' };
+        if (token.text === 'null') return { type: 'literal', value: null };
+        return parsePath(token.text);
+    }
+  }
+
+  /**
+   * value | filter | filter: arg, arg
+   */
+  output(): { value: Expression; filters: FilterCall[] } {
+    const value = this.primary();
+    const calls: FilterCall[] = [];
+
+    while (this.peek('|')) {
+      this.position++;
+      const name = this.tokens[this.position++];
+      if (name?.kind !== 'word') {
+        throw syntaxError(`expected a filter name in "${this.source.trim()}"`, this.line);
+      }
+      if (!filters.has(name.text)) {
+        throw syntaxError(`unknown filter "${name.text}"`, this.line);
+      }
+
+      const args: Expression[] = [];
+      if (this.peek(':')) {
+        this.position++;
+        args.push(this.primary());
+        while (this.peek(',')) {
+          this.position++;
+          args.push(this.primary());
+        }
+      }
+      calls.push({ name: name.text, args });
+    }
+
+    return { value, filters: calls };
+  }
+}
+
+function parseExpression(source: string, line: number, kind: 'condition' | 'output') {
+  const parser = new ExpressionParser(tokenizeExpression(source, line), source, line);
+  const result = kind === 'condition' ? { value: parser.condition(), filters: [] } : parser.output();
+  if (!parser.done) {
+    throw syntaxError(`unexpected "${parser.peek()!.text}" in "${source.trim()}"`, line);
+  }
+  return result;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+type RawToken =
+  | { kind: 'text'; text: string }
+  | { kind: 'output' | 'tag'; source: string; line: number };
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}|\{%([\s\S]*?)%\}/g;
+
+function tokenizeTemplate(source: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let last = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index!;
+    let text = source.slice(last, index);
+    let end = index + match[0].length;
+    const line = source.slice(0, index).split('\n').length;
+
+    if (match[2] !== undefined) {
+      // A tag alone on its line takes its indentation and line break with it
+      const lineStart = source.lastIndexOf('\n', index - 1) + 1;
+      const after = source.slice(end).match(/^[ \t]*(?:\r?\n|$)/);
+      if (lineStart >= last && after && /^[ \t]*$/.test(source.slice(lineStart, index))) {
+        text = text.slice(0, text.length - (index - lineStart));
+        end += after[0].length;
+      }
+    }
+
+    if (text) tokens.push({ kind: 'text', text });
+    tokens.push(match[1] !== undefined
+      ? { kind: 'output', source: match[1], line }
+      : { kind: 'tag', source: match[2], line });
+    last = end;
+  }
+
+  if (last < source.length) tokens.push({ kind: 'text', text: source.slice(last) });
+  return tokens;
+}
+
+/**
+ * Parse template source into nodes. Throws on syntax errors, with the line number.
+ */
+export function parseTemplate(source: string): Template {
+  const tokens = tokenizeTemplate(source);
+  let position = 0;
+  const variables = new Set<string>();
+
+  const collect = (expression: Expression, scope: string[]) => {
+    if (expression.type === 'path') {
+      if (!scope.includes(String(expression.segments[0]))) variables.add(expression.source);
+    } else if (expression.type === 'not') {
+      collect(expression.operand, scope);
+    } else if (expression.type === 'binary') {
+      collect(expression.left, scope);
+      collect(expression.right, scope);
+    }
+  };
+
+  // Parse until one of the closing tags; returns the nodes and the tag that ended them
+  const parseBlock = (scope: string[], closers: string[]): { nodes: TemplateNode[]; closer?: { name: string; rest: string; line: number } } => {
+    const nodes: TemplateNode[] = [];
+
+    while (position < tokens.length) {
+      const token = tokens[position++];
+
+      if (token.kind === 'text') {
+        nodes.push({ type: 'text', text: token.text });
+        continue;
+      }
+
+      if (token.kind === 'output') {
+        const { value, filters: calls } = parseExpression(token.source, token.line, 'output');
+        collect(value, scope);
+        calls.forEach(call => call.args.forEach(arg => collect(arg, scope)));
+        nodes.push({ type: 'output', value, filters: calls, line: token.line });
+        continue;
+      }
+
+      const [, name = '', rest = ''] = token.source.trim().match(/^(\w+)\s*([\s\S]*)$/) ?? [];
+      if (closers.includes(name)) {
+        return { nodes, closer: { name, rest, line: token.line } };
+      }
+
+      if (name === 'if') {
+        const branches: Array<{ condition: Expression; body: TemplateNode[] }> = [];
+        let otherwise: TemplateNode[] = [];
+        let condition = parseExpression(rest, token.line, 'condition').value;
+
+        for (;;) {
+          collect(condition, scope);
+          const block = parseBlock(scope, ['elsif', 'else', 'endif']);
+          branches.push({ condition, body: block.nodes });
+          if (!block.closer) throw syntaxError('"if" is missing its "endif"', token.line);
+          if (block.closer.name === 'endif') break;
+          if (block.closer.name === 'else') {
+            const elseBlock = parseBlock(scope, ['endif']);
+            if (!elseBlock.closer) throw syntaxError('"if" is missing its "endif"', token.line);
+            otherwise = elseBlock.nodes;
+            break;
+          }
+          condition = parseExpression(block.closer.rest, block.closer.line, 'condition').value;
+        }
+
+        nodes.push({ type: 'if', branches, otherwise });
+      } else if (name === 'for') {
+        const loop = rest.match(/^([A-Za-z_]\w*)\s+in\s+([\s\S]+)$/);
+        if (!loop) throw syntaxError(`expected "for item in list", got "for ${rest}"`, token.line);
+
+        const list = parseExpression(loop[2], token.line, 'condition').value;
+        collect(list, scope);
+        const bodyScope = [...scope, loop[1], 'loop'];
+        const block = parseBlock(bodyScope, ['else', 'endfor']);
+        if (!block.closer) throw syntaxError('"for" is missing its "endfor"', token.line);
+
+        let empty: TemplateNode[] = [];
+        if (block.closer.name === 'else') {
+          const emptyBlock = parseBlock(scope, ['endfor']);
+          if (!emptyBlock.closer) throw syntaxError('"for" is missing its "endfor"', token.line);
+          empty = emptyBlock.nodes;
+        }
+        nodes.push({ type: 'for', variable: loop[1], list, body: block.nodes, empty });
+      } else {
+        throw syntaxError(name ? `unexpected "${name}"` : `empty tag "{%${token.source}%}"`, token.line);
+      }
+    }
+
+    return { nodes };
+  };
+
+  const { nodes, closer } = parseBlock([], []);
+  if (closer) throw syntaxError(`unexpected "${closer.name}"`, closer.line);
+  return { nodes, variables: [...variables] };
+}
+
+/**
+ * The data paths a template reads, e.g. ["organisation.name", "criteria"]
+ */
+export function templateVariables(source: string): string[] {
+  return parseTemplate(source).variables;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+type Scope = Record<string, TemplateValue>;
+
+// Only a value's own properties resolve - never inherited ones such as constructor or __proto__
+const hasOwn = (value: any, key: string | number) => Object.prototype.hasOwnProperty.call(value, key);
+
+function resolvePath(segments: Array<string | number>, scopes: Scope[]): TemplateValue {
+  const [first, ...rest] = segments;
+  const owner = [...scopes].reverse().find(scope => scope != null && typeof scope === 'object' && hasOwn(scope, first));
+  let value = owner?.[first as string];
+
+  for (const segment of rest) {
+    if (value == null) return undefined;
+    if (segment === 'size' && (Array.isArray(value) || typeof value === 'string')) {
+      value = value.length;
+    } else {
+      value = hasOwn(value, segment) ? value[segment] : undefined;
+    }
+  }
+  return value;
+}
+
+export const isTruthy = (value: TemplateValue) =>
+  Array.isArray(value) ? value.length > 0 : !isMissing(value) && value !== false && value !== 0;
+
+function compare(operator: string, left: TemplateValue, right: TemplateValue): boolean {
+  if (operator === 'contains') {
+    if (Array.isArray(left)) return left.some(item => String(item).toLowerCase() === String(right).toLowerCase());
+    return typeof left === 'string' && left.toLowerCase().includes(String(right).toLowerCase());
+  }
+
+  // Numbers held as strings ("72") compare as numbers
+  const numeric = (value: TemplateValue) => typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+  const [a, b] = [numeric(left), numeric(right)];
+
+  switch (operator) {
+    case '==': return a === b || (typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase());
+    case '!=': return !compare('==', left, right);
+    case '<': return isMissing(a) || isMissing(b) ? false : a < b;
+    case '<=': return isMissing(a) || isMissing(b) ? false : a <= b;
+    case '>': return isMissing(a) || isMissing(b) ? false : a > b;
+    case '>=': return isMissing(a) || isMissing(b) ? false : a >= b;
+  }
+  return false;
+}
+
+/**
+ * Evaluate an expression against nested scopes (innermost last)
+ */
+export function evaluateExpression(expression: Expression, scopes: Scope[]): TemplateValue {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+    case 'path':
+      return resolvePath(expression.segments, scopes);
+    case 'not':
+      return !isTruthy(evaluateExpression(expression.operand, scopes));
+    case 'binary': {
+      const left = evaluateExpression(expression.left, scopes);
+      if (expression.operator === 'and') return isTruthy(left) && isTruthy(evaluateExpression(expression.right, scopes));
+      if (expression.operator === 'or') return isTruthy(left) || isTruthy(evaluateExpression(expression.right, scopes));
+      return compare(expression.operator, left, evaluateExpression(expression.right, scopes));
+    }
+  }
+}
+
+const toText = (value: TemplateValue): string =>
+  Array.isArray(value) ? value.map(toText).join(', ')
+    : value instanceof Date ? value.toISOString()
+      : typeof value === 'object' && value !== null ? JSON.stringify(value)
+        : String(value);
+
+/**
+ * A value output with its filters applied, or null when it is missing.
+ * Filters after a missing value still run when one of them is `default`.
+ */
+export function evaluateOutput(
+  node: Extract<TemplateNode, { type: 'output' }>,
+  scopes: Scope[],
+  options: Required<RenderOptions>
+): string | null {
+  let value = evaluateExpression(node.value, scopes);
+  const hasDefault = node.filters.some(call => call.name === 'default');
+  if (isMissing(value) && !hasDefault) return null;
+
+  for (const call of node.filters) {
+    const filter = filters.get(call.name)!;
+    value = filter(value, call.args.map(arg => evaluateExpression(arg, scopes)), options);
+  }
+  return isMissing(value) ? (hasDefault ? '' : null) : toText(value);
+}
+
+/**
+ * The loop variables for an item of a {% for %} loop
+ */
+export const loopScope = (variable: string, item: TemplateValue, index: number, length: number): Scope => ({
+  [variable]: item,
+  loop: { index: index + 1, index0: index, first: index === 0, last: index === length - 1, length },
+});
+
+/**
+ * Render a template against data. `source` may be parsed already.
+ */
+export function renderTemplate(source: string | Template, data: Scope, options: RenderOptions = {}): RenderResult {
+  const template = typeof source === 'string' ? parseTemplate(source) : source;
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const missing = new Set<string>();
+
+  const render = (nodes: TemplateNode[], scopes: Scope[]): string => nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'output': {
+        const text = evaluateOutput(node, scopes, settings);
+        if (text !== null) return settings.escape(text);
+
+        const path = node.value.type === 'path' ? node.value.source : 'value';
+        missing.add(path);
+        if (settings.missing === 'error') {
+          throw new Error(`Template value "${path}" (line ${node.line}) is missing`);
+        }
+        return settings.missing === 'empty' ? '' : settings.escape(`[Not provided: ${path}]`);
+      }
+      case 'if': {
+        const branch = node.branches.find(candidate => isTruthy(evaluateExpression(candidate.condition, scopes)));
+        return render(branch ? branch.body : node.otherwise, scopes);
+      }
+      case 'for': {
+        const list = evaluateExpression(node.list, scopes);
+        const items = Array.isArray(list) ? list : isMissing(list) ? [] : typeof list === 'object' ? Object.values(list) : [list];
+        if (items.length === 0) return render(node.empty, scopes);
+        return items.map((item, index) => render(node.body, [...scopes, loopScope(node.variable, item, index, items.length)])).join('');
+      }
+    }
+  }).join('');
+
+  return { output: render(template.nodes, [data]), missing: [...missing] };
+}
+
+// ============================================================================
+// Built-in filters
+// ============================================================================
+
+const toNumber = (value: TemplateValue): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const parsed = Number(value.replace(/[^\d.-]/g, ''));
+    return value.trim() && Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const toDate = (value: TemplateValue): Date | null => {
+  const date = value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+const DATE_FORMATS: Record<string, Intl.DateTimeFormatOptions> = {
+  long: { year: 'numeric', month: 'long', day: 'numeric' },
+  short: { year: 'numeric', month: 'short', day: 'numeric' },
+  numeric: { year: 'numeric', month: '2-digit', day: '2-digit' },
+};
+
+registerFilter('default', (value, [fallback = '']) => isMissing(value) || (Array.isArray(value) && value.length === 0) ? fallback : value);
+registerFilter('upper', value => toText(value).toUpperCase());
+registerFilter('lower', value => toText(value).toLowerCase());
+registerFilter('capitalize', value => toText(value).replace(/^\s*\S/, first => first.toUpperCase()));
+registerFilter('trim', value => toText(value).trim());
+registerFilter('truncate', (value, [length = 200]) => {
+  const text = toText(value);
+  return text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+});
+
+registerFilter('number', (value, [decimals], options) => {
+  const number = toNumber(value);
+  if (number === null) return value;
+  return number.toLocaleString(options.locale, decimals === undefined
+    ? { maximumFractionDigits: 2 }
+    : { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+});
+registerFilter('round', (value, [decimals = 0]) => {
+  const number = toNumber(value);
+  return number === null ? value : Number(number.toFixed(decimals));
+});
+// A fraction as a percentage: 0.85 -> 85%
+registerFilter('percent', (value, [decimals = 0], options) => {
+  const number = toNumber(value);
+  return number === null ? value : number.toLocaleString(options.locale, { style: 'percent', maximumFractionDigits: decimals, minimumFractionDigits: decimals });
+});
+registerFilter('currency', (value, [code], options) => {
+  const number = toNumber(value);
+  if (number === null) return value;
+  return number.toLocaleString(options.locale, {
+    style: 'currency',
+    currency: code || options.currency,
+    minimumFractionDigits: Number.isInteger(number) ? 0 : 2,
+  });
+});
+registerFilter('date', (value, [format = 'long'], options) => {
+  const date = toDate(value);
+  if (!date) return value;
+  if (format === 'iso') return date.toISOString().slice(0, 10);
+  return date.toLocaleDateString(options.locale, DATE_FORMATS[format] ?? DATE_FORMATS.long);
+});
+
+registerFilter('yesno', (value, [yes = 'Yes', no = 'No']) => isTruthy(value) && !/^(no|false|n)$/i.test(String(value).trim()) ? yes : no);
+
+registerFilter('join', (value, [separator = ', ']) => Array.isArray(value) ? value.map(toText).join(separator) : value);
+registerFilter('bullets', value => Array.isArray(value) ? value.map(item => `• ${toText(item)}`).join('\n') : value);
+registerFilter('first', value => Array.isArray(value) ? value[0] : value);
+registerFilter('last', value => Array.isArray(value) ? value[value.length - 1] : value);
+registerFilter('size', value => Array.isArray(value) || typeof value === 'string' ? value.length : 0);
+registerFilter('map', (value, [key]) => Array.isArray(value) ? value.map(item => item?.[key]) : value);
+registerFilter('sort', (value, [key]) => Array.isArray(value)
+  ? [...value].sort((a, b) => {
+    const [left, right] = key ? [a?.[key], b?.[key]] : [a, b];
+    return typeof left === 'number' && typeof right === 'number' ? left - right : toText(left).localeCompare(toText(right));
+  })
+  : value);
+registerFilter('reverse', value => Array.isArray(value) ? [...value].reverse() : value);
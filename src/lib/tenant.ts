@@ -0,0 +1,322 @@
+/**
+ * Tenant - Organisation isolation for database queries and S3 keys
+ *
+ * Every fund, assessment, job, document, usage record, user and API key belongs
+ * to an organisation. middleware.ts forwards the signed-in user's organisation in the
+ * TENANT_HEADER request header, and the Prisma extension below adds it to every
+ * query on a tenant-scoped model, so route handlers never see another tenant's rows:
+ *
+ *   prisma.funds.findMany({ where: { moduleType: 'PROCUREMENT_ADMIN' } })
+ *   // => WHERE moduleType = 'PROCUREMENT_ADMIN' AND organizationId = <caller's org>
+ *
+ * Rows without an organisation of their own (revisions, assessor scores,
+ * moderations, job steps, rule set sections and rules) are scoped through their
+ * parent: queries filter on the parent's organisation, and creates connect to
+ * the parent only if it belongs to the caller. List relations of scoped models
+ * in `include` / `select` are filtered the same way.
+ *
+ * What the extension can't scope:
+ * - Raw SQL. In a tenant's request, raw SQL naming a tenant table is rejected
+ *   unless it runs in withRawSql(), which states that the SQL filters by
+ *   organisation itself (see tenantFilterSql()).
+ * - createMany on a child model can only check parents that are already
+ *   committed - create children of a parent made in the same transaction with a
+ *   nested createMany.
+ * - Nested writes (`connect`, nested `create`) and `_count` selections.
+ *
+ * Calls made with an organisation's API key run scoped to it (requireServiceAuth()).
+ * Other work outside a user request (BackgroundProcessor, platform-wide API keys,
+ * scripts) runs unscoped; rows it creates inherit their fund's organisation via a database
+ * trigger, which also rejects rows whose organisation differs from their fund's.
+ * Use withTenant() to scope such work explicitly.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { headers } from 'next/headers';
+import { Prisma } from '@prisma/client';
+import { TENANT_HEADER } from './auth-session';
+
+// Created by the add_organizations migration; owns all pre-existing data
+export const DEFAULT_ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+
+const TENANT_SCOPED_MODELS = new Set([
+  'funds',
+  'assessments',
+  'background_jobs',
+  'fund_documents',
+  'funding_allocations',
+  'model_usage',
+  'rule_set_versions',
+  'users',
+  'api_keys',
+]);
+
+// Models without an organisationId column and the relation to the scoped parent they belong to
+const TENANT_CHILD_MODELS: Record<string, { parent: string; relation: string }> = {
+  assessment_revisions: { parent: 'assessments', relation: 'assessments' },
+  assessor_scores: { parent: 'assessments', relation: 'assessments' },
+  assessment_moderations: { parent: 'assessments', relation: 'assessments' },
+  job_steps: { parent: 'background_jobs', relation: 'background_jobs' },
+  rule_set_sections: { parent: 'rule_set_versions', relation: 'version' },
+  rule_set_rules: { parent: 'rule_set_versions', relation: 'version' },
+};
+
+// Raw SQL naming one of these tables touches tenant data
+const TENANT_TABLE_PATTERN = new RegExp(
+  `\\b(${[...TENANT_SCOPED_MODELS, ...Object.keys(TENANT_CHILD_MODELS)].join('|')})\\b`
+);
+
+// Operations whose `where` must stay a unique filter - the tenant is added alongside it
+const UNIQUE_WHERE_OPERATIONS = new Set(['findUnique', 'findUniqueOrThrow', 'update', 'delete', 'upsert']);
+
+const FILTERED_OPERATIONS = new Set([
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'updateMany',
+  'updateManyAndReturn',
+  'deleteMany',
+]);
+
+const tenantStorage = new AsyncLocalStorage<{ organizationId: string | null }>();
+const rawSqlStorage = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run `fn` scoped to an organisation (or explicitly unscoped with null)
+ */
+export function withTenant<T>(organizationId: string | null, fn: () => Promise<T>): Promise<T> {
+  // Awaited inside the scope: Prisma queries only run once they are awaited
+  return tenantStorage.run({ organizationId }, async () => await fn());
+}
+
+/**
+ * Organisation of the current request, or null for system work
+ */
+export async function getTenantId(): Promise<string | null> {
+  const store = tenantStorage.getStore();
+  if (store) {
+    return store.organizationId;
+  }
+
+  try {
+    return (await headers()).get(TENANT_HEADER);
+  } catch (error) {
+    // Not inside a request (background processor, scripts) - system scope
+    if (error instanceof Error && error.message.includes('outside a request scope')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run raw SQL that handles the tenant itself: it filters with tenantFilterSql(),
+ * or only touches rows already read through the scoped client
+ */
+export function withRawSql<T>(fn: () => Promise<T>): Promise<T> {
+  return rawSqlStorage.run(true, async () => await fn());
+}
+
+/**
+ * `AND "organizationId" = <caller's org>` for raw SQL on a tenant-scoped table;
+ * empty for system work
+ */
+export async function tenantFilterSql(): Promise<Prisma.Sql> {
+  const organizationId = await getTenantId();
+  return organizationId ? Prisma.sql`AND "organizationId" = ${organizationId}` : Prisma.empty;
+}
+
+/**
+ * Prefix an S3 key with the current organisation so tenants never share a prefix
+ */
+export async function tenantS3Key(key: string): Promise<string> {
+  const organizationId = await getTenantId();
+  return organizationId ? `organizations/${organizationId}/${key}` : key;
+}
+
+function scopeArgs(operation: string, args: any, organizationId: string): any {
+  if (UNIQUE_WHERE_OPERATIONS.has(operation)) {
+    const scoped = { ...args, where: { ...args.where, organizationId } };
+    if (operation === 'upsert') {
+      scoped.create = { ...args.create, organizationId };
+    }
+    return scoped;
+  }
+
+  if (FILTERED_OPERATIONS.has(operation)) {
+    return { ...args, where: args?.where ? { AND: [args.where, { organizationId }] } : { organizationId } };
+  }
+
+  if (operation === 'create') {
+    return { ...args, data: { ...args.data, organizationId } };
+  }
+
+  if (operation === 'createMany' || operation === 'createManyAndReturn') {
+    const data = Array.isArray(args.data) ? args.data : [args.data];
+    return { ...args, data: data.map((row: any) => ({ ...row, organizationId })) };
+  }
+
+  return args;
+}
+
+const modelFields = new Map(Prisma.dmmf.datamodel.models.map(model => [model.name, model.fields]));
+
+/**
+ * Filter list relations of scoped models in `include` / `select`, at any depth
+ */
+function scopeNested(model: string, args: any, organizationId: string): any {
+  if (!args || typeof args !== 'object') {
+    return args;
+  }
+
+  const scoped = { ...args };
+  for (const key of ['include', 'select'] as const) {
+    if (!args[key] || typeof args[key] !== 'object') continue;
+
+    scoped[key] = { ...args[key] };
+    for (const [name, value] of Object.entries(args[key])) {
+      const field = modelFields.get(model)?.find(candidate => candidate.name === name);
+      if (!value || field?.kind !== 'object') continue;
+
+      let nested = scopeNested(field.type, value === true ? {} : value, organizationId);
+      if (field.isList && TENANT_SCOPED_MODELS.has(field.type)) {
+        nested = { ...nested, where: nested.where ? { AND: [nested.where, { organizationId }] } : { organizationId } };
+      }
+      scoped[key][name] = value === true && Object.keys(nested).length === 0 ? true : nested;
+    }
+  }
+  return scoped;
+}
+
+/**
+ * Create data with its foreign keys turned into connects, the parent's
+ * restricted to the organisation - the create fails if the parent isn't the caller's
+ */
+function connectParents(model: string, data: any, organizationId: string): any {
+  const { relation } = TENANT_CHILD_MODELS[model];
+  const connected = { ...data };
+
+  for (const field of modelFields.get(model) ?? []) {
+    const [foreignKey] = field.relationFromFields ?? [];
+    if (!foreignKey || !(foreignKey in connected)) continue;
+
+    const [reference] = field.relationToFields ?? ['id'];
+    connected[field.name] = {
+      connect: {
+        [reference]: connected[foreignKey],
+        ...(field.name === relation ? { organizationId } : {}),
+      },
+    };
+    delete connected[foreignKey];
+  }
+  return connected;
+}
+
+function scopeChildArgs(model: string, operation: string, args: any, organizationId: string): any {
+  const parentFilter = { [TENANT_CHILD_MODELS[model].relation]: { organizationId } };
+
+  if (UNIQUE_WHERE_OPERATIONS.has(operation)) {
+    const scoped = { ...args, where: { ...args.where, ...parentFilter } };
+    if (operation === 'upsert') {
+      scoped.create = connectParents(model, args.create, organizationId);
+    }
+    return scoped;
+  }
+
+  if (FILTERED_OPERATIONS.has(operation)) {
+    return { ...args, where: args?.where ? { AND: [args.where, parentFilter] } : parentFilter };
+  }
+
+  if (operation === 'create') {
+    return { ...args, data: connectParents(model, args.data, organizationId) };
+  }
+
+  return args;
+}
+
+/**
+ * Reject createMany rows whose parent belongs to another organisation (or isn't committed yet)
+ */
+async function checkParents(client: any, model: string, args: any, organizationId: string): Promise<void> {
+  const { parent, relation } = TENANT_CHILD_MODELS[model];
+  const field = modelFields.get(model)?.find(candidate => candidate.name === relation);
+  const foreignKey = field?.relationFromFields?.[0];
+  if (!foreignKey) {
+    throw new Error(`Cannot check the organisation of ${model} rows`);
+  }
+
+  const rows: any[] = Array.isArray(args.data) ? args.data : [args.data];
+  const parentIds = [...new Set(rows.map(row => row[foreignKey]))];
+  const owned = await client[parent].count({ where: { id: { in: parentIds }, organizationId } });
+  if (owned !== parentIds.length) {
+    throw new Error(`Cannot create ${model}: ${parent} not found in this organisation`);
+  }
+}
+
+function rawSqlText(args: unknown): string {
+  if (Array.isArray(args)) {
+    return String(args[0]);
+  }
+  if (args && typeof args === 'object' && 'strings' in args) {
+    return (args as Prisma.Sql).strings.join('?');
+  }
+  return '';
+}
+
+async function checkRawSql(args: unknown): Promise<void> {
+  if (rawSqlStorage.getStore() || !TENANT_TABLE_PATTERN.test(rawSqlText(args))) {
+    return;
+  }
+  if (await getTenantId()) {
+    throw new Error('Raw SQL on tenant tables must run in withRawSql() and filter by organisation itself');
+  }
+}
+
+/**
+ * Prisma client extension enforcing tenant isolation on scoped models, their
+ * child models and raw SQL
+ */
+export const tenantIsolation = Prisma.defineExtension(client => client.$extends({
+  name: 'tenant-isolation',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        const organizationId = await getTenantId();
+        if (!organizationId) {
+          return query(args);
+        }
+
+        const nested = scopeNested(model, args, organizationId);
+        if (TENANT_SCOPED_MODELS.has(model)) {
+          return query(scopeArgs(operation, nested, organizationId));
+        }
+        if (model in TENANT_CHILD_MODELS) {
+          if (operation === 'createMany' || operation === 'createManyAndReturn') {
+            await checkParents(client, model, nested, organizationId);
+          }
+          return query(scopeChildArgs(model, operation, nested, organizationId));
+        }
+        return query(nested);
+      },
+    },
+    async $queryRaw({ args, query }) {
+      await checkRawSql(args);
+      return query(args);
+    },
+    async $executeRaw({ args, query }) {
+      await checkRawSql(args);
+      return query(args);
+    },
+    async $queryRawUnsafe({ args, query }) {
+      await checkRawSql(args);
+      return query(args);
+    },
+    async $executeRawUnsafe({ args, query }) {
+      await checkRawSql(args);
+      return query(args);
+    },
+  },
+}));
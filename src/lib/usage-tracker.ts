@@ -0,0 +1,258 @@
+/**
+ * Usage Tracker - Token and cost accounting for model calls
+ *
+ * Every live model call made through invokeLLM() is written to `model_usage`
+ * with its token counts and an estimated cost from the price table. Calls are
+ * attributed to whatever fund, job, assessment or run is active in the current
+ * usage context, so entry points only need to wrap their work once:
+ *
+ *   await withUsageContext({ fundId, jobId: job.id }, () => processJob(job));
+ *
+ * Configuration (environment variables):
+ * - LLM_PRICE_TABLE: JSON object of `{ "<model>": { "input": 3, "output": 15 } }`
+ *   in USD per million tokens, merged over the defaults below
+ * - LLM_USAGE_TRACKING: set to 'off' to disable persistence
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { ModuleType } from '@prisma/client';
+import { prisma } from './database-s3';
+import type { LLMInvocation, LLMProvider, LLMResult } from './llm-provider';
+
+export interface UsageContext {
+  fundId?: string;
+  jobId?: string;
+  assessmentId?: string;
+  runId?: string;
+  moduleType?: ModuleType;
+}
+
+export interface ModelPrice {
+  input: number;  // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+}
+
+const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'anthropic.claude-3-5-sonnet-20241022-v2:0': { input: 3, output: 15 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+const usageStorage = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * Run `fn` with model usage attributed to the given context (merged over any outer context)
+ */
+export function withUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  const parent = usageStorage.getStore() || {};
+  return usageStorage.run({ ...parent, ...context }, fn);
+}
+
+export function getUsageContext(): UsageContext {
+  return usageStorage.getStore() || {};
+}
+
+/**
+ * Get the active price table (defaults merged with LLM_PRICE_TABLE)
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (!process.env.LLM_PRICE_TABLE) {
+    return DEFAULT_PRICE_TABLE;
+  }
+
+  try {
+    return { ...DEFAULT_PRICE_TABLE, ...JSON.parse(process.env.LLM_PRICE_TABLE) };
+  } catch (error) {
+    console.warn('⚠️ Invalid LLM_PRICE_TABLE, using default prices:', error);
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = getPriceTable()[model];
+  if (!price) {
+    return 0;
+  }
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Persist one model call against the current usage context. Never throws - accounting
+ * must not break the pipeline it is measuring.
+ */
+export async function recordModelUsage(
+  provider: LLMProvider,
+  request: LLMInvocation,
+  result: LLMResult,
+  durationMs: number
+): Promise<void> {
+  if (process.env.LLM_USAGE_TRACKING === 'off' || provider.name === 'fixture') {
+    return;
+  }
+
+  const context = getUsageContext();
+  const inputTokens = result.inputTokens ?? 0;
+  const outputTokens = result.outputTokens ?? result.tokens;
+
+  try {
+    await prisma.model_usage.create({
+      data: {
+        fundId: context.fundId,
+        jobId: context.jobId,
+        assessmentId: context.assessmentId,
+        runId: context.runId,
+        moduleType: context.moduleType,
+        task: request.task,
+        provider: provider.name,
+        model: provider.model,
+        inputTokens,
+        outputTokens,
+        estimatedCost: estimateCost(provider.model, inputTokens, outputTokens),
+        durationMs,
+      }
+    });
+  } catch (error) {
+    console.warn(`⚠️ Failed to record model usage for task ${request.task}:`, error);
+  }
+}
+
+/**
+ * Why a run's usage can't be attributed to an assessment of `fundId`, or null
+ * when it can. Run ids come from the client, so the run's usage must belong to
+ * the same fund (and, through tenant scoping, organisation) and not be
+ * attributed to an assessment already. A run without usage (tracking off, the
+ * fixture provider) has nothing to attribute and passes.
+ */
+export async function checkUsageRun(runId: string, fundId: string): Promise<string | null> {
+  const usage = await prisma.model_usage.findMany({
+    where: { runId },
+    select: { fundId: true, assessmentId: true }
+  });
+
+  if (usage.some(row => row.fundId !== fundId)) {
+    return `Usage run ${runId} belongs to another fund`;
+  }
+  if (usage.some(row => row.assessmentId)) {
+    return `Usage run ${runId} is already linked to an assessment`;
+  }
+  return null;
+}
+
+/**
+ * Attribute usage captured during an assessment run to the saved assessment
+ * record (check the run with checkUsageRun first)
+ */
+export async function linkRunToAssessment(runId: string, assessment: { id: string; fundId: string }): Promise<number> {
+  const assessmentId = assessment.id;
+  try {
+    const result = await prisma.model_usage.updateMany({
+      where: { runId, fundId: assessment.fundId, assessmentId: null },
+      data: { assessmentId }
+    });
+    return result.count;
+  } catch (error) {
+    console.warn(`⚠️ Failed to link model usage run ${runId} to assessment ${assessmentId}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Aggregate spend, optionally filtered, grouped per fund and per module
+ */
+export async function getUsageSummary(filters: {
+  fundId?: string;
+  jobId?: string;
+  assessmentId?: string;
+  moduleType?: ModuleType;
+  since?: Date;
+} = {}) {
+  const where = {
+    ...(filters.fundId && { fundId: filters.fundId }),
+    ...(filters.jobId && { jobId: filters.jobId }),
+    ...(filters.assessmentId && { assessmentId: filters.assessmentId }),
+    ...(filters.moduleType && {
+      OR: [{ moduleType: filters.moduleType }, { funds: { moduleType: filters.moduleType } }]
+    }),
+    ...(filters.since && { createdAt: { gte: filters.since } }),
+  };
+
+  const sums = {
+    _count: { _all: true },
+    _sum: { inputTokens: true, outputTokens: true, estimatedCost: true },
+  } as const;
+
+  const [total, byFundAndModule, byTask] = await Promise.all([
+    prisma.model_usage.aggregate({ where, ...sums }),
+    prisma.model_usage.groupBy({ by: ['fundId', 'moduleType'], where, ...sums }),
+    prisma.model_usage.groupBy({ by: ['task'], where, ...sums }),
+  ]);
+
+  const fundIds = [...new Set(byFundAndModule.map(row => row.fundId).filter((id): id is string => !!id))];
+  const funds = await prisma.funds.findMany({
+    where: { id: { in: fundIds } },
+    select: { id: true, name: true, moduleType: true }
+  });
+  const fundsById = new Map(funds.map(fund => [fund.id, fund]));
+
+  // A call's module is its fund's module; the recorded moduleType only matters for unattributed calls
+  const byFund = new Map<string | null, { fundId: string | null; fundName: string | null; moduleType: ModuleType | null } & UsageTotals>();
+  const byModule = new Map<ModuleType | null, { moduleType: ModuleType | null } & UsageTotals>();
+
+  for (const row of byFundAndModule) {
+    const fund = row.fundId ? fundsById.get(row.fundId) : undefined;
+    const moduleType = fund?.moduleType ?? row.moduleType ?? null;
+    const totals = toTotals(row);
+
+    const fundEntry = byFund.get(row.fundId) ?? {
+      fundId: row.fundId,
+      fundName: fund?.name ?? null,
+      moduleType,
+      ...emptyTotals(),
+    };
+    byFund.set(row.fundId, addTotals(fundEntry, totals));
+
+    const moduleEntry = byModule.get(moduleType) ?? { moduleType, ...emptyTotals() };
+    byModule.set(moduleType, addTotals(moduleEntry, totals));
+  }
+
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.estimatedCost - a.estimatedCost;
+
+  return {
+    total: toTotals(total),
+    byFund: [...byFund.values()].sort(byCost),
+    byModule: [...byModule.values()].sort(byCost),
+    byTask: byTask.map(row => ({ task: row.task, ...toTotals(row) })).sort(byCost),
+  };
+}
+
+function toTotals(row: {
+  _count: { _all: number };
+  _sum: { inputTokens: number | null; outputTokens: number | null; estimatedCost: unknown };
+}): UsageTotals {
+  return {
+    calls: row._count._all,
+    inputTokens: row._sum.inputTokens ?? 0,
+    outputTokens: row._sum.outputTokens ?? 0,
+    estimatedCost: row._sum.estimatedCost ? Number(row._sum.estimatedCost) : 0,
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 };
+}
+
+function addTotals<T extends UsageTotals>(target: T, totals: UsageTotals): T {
+  target.calls += totals.calls;
+  target.inputTokens += totals.inputTokens;
+  target.outputTokens += totals.outputTokens;
+  target.estimatedCost += totals.estimatedCost;
+  return target;
+}
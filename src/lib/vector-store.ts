@@ -0,0 +1,179 @@
+/**
+ * Vector Store - Storage and search backend for RAG document vectors
+ *
+ * Document chunks and their embeddings are stored in one of two backends:
+ * - opensearch: the OpenSearch domain (aws-opensearch.ts), used in deployed environments
+ * - local: JSON files on disk (local-vector-store.ts), for local development and CI
+ *   where no OpenSearch domain is available
+ *
+ * Both implement the same lexical, vector and filtered searches, so hybrid
+ * retrieval (hybrid-retrieval.ts) behaves the same on either.
+ *
+ * Configuration (environment variables):
+ * - VECTOR_STORE: opensearch | local (default opensearch). The local store is only
+ *   used when asked for, so a deployment missing OPENSEARCH_ENDPOINT fails
+ *   instead of writing vectors to the server's disk.
+ * - VECTOR_STORE_PATH: directory for the local store (default .vector-store)
+ */
+
+import { ModuleType } from '@prisma/client';
+import { OpenSearchVectorStore } from './aws-opensearch';
+import { LocalVectorStore } from './local-vector-store';
+
+// Every module has its own index (see getIndexName)
+export type VectorModuleType = ModuleType;
+export type VectorStoreBackend = 'opensearch' | 'local';
+
+export interface DocumentVector {
+  id: string;  // documentId OR documentId-chunk-N for chunked documents
+  fundId: string;
+  documentType: 'APPLICATION_FORM' | 'SELECTION_CRITERIA' | 'GOOD_EXAMPLES' | 'OUTPUT_TEMPLATES';
+  filename: string;
+  content: string;
+  embedding: number[];
+  moduleType?: VectorModuleType; // For index routing
+  metadata: {
+    uploadedAt: string;
+    fileSize: number;
+    mimeType: string;
+    // Chunk-specific fields (only present for chunked documents)
+    originalDocumentId?: string;  // Database document ID (parent document)
+    chunkIndex?: number;          // 1-based index (1, 2, 3...)
+    totalChunks?: number;         // Total number of chunks for this document
+    isChunk?: boolean;            // true for chunks, undefined for legacy single documents
+    // Document structure (chunkByStructure); absent for vectors indexed before it
+    sectionTitle?: string;
+    headingPath?: string[];
+    pageStart?: number;
+    pageEnd?: number;
+    inTable?: boolean;
+    startOffset?: number;         // Character offsets in the extracted text
+    endOffset?: number;
+  };
+}
+
+export interface SearchResult {
+  id: string;
+  score: number;
+  content: string;
+  documentType: string;
+  filename: string;
+  metadata: any;
+}
+
+export interface RetrievalFilters {
+  fundId?: string;
+  documentTypes?: DocumentVector['documentType'][];
+  // Database document IDs; matches the whole document and all of its chunks
+  documentIds?: string[];
+  // 'chunks' = only chunks of split documents, 'documents' = only unsplit documents
+  chunks?: 'all' | 'chunks' | 'documents';
+  chunkIndexRange?: { from?: number; to?: number };
+}
+
+export interface LexicalHit {
+  result: SearchResult;
+  // Matched passages with the query terms wrapped in <em></em>
+  highlights: string[];
+}
+
+export interface EmbeddingValidation {
+  count: number;
+  indexName: string;
+  sample?: Array<{
+    id: string;
+    filename: string;
+    hasEmbedding: boolean;
+    isChunk: boolean;
+  }>;
+}
+
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+  initializeIndex(moduleType?: VectorModuleType): Promise<void>;
+  storeDocument(document: DocumentVector): Promise<void>;
+  // BM25 over content and filename
+  lexicalSearch(text: string, filters: RetrievalFilters, size: number, moduleType: VectorModuleType): Promise<LexicalHit[]>;
+  // Nearest neighbours of the embedding
+  vectorSearch(embedding: number[], filters: RetrievalFilters, size: number, moduleType: VectorModuleType): Promise<SearchResult[]>;
+  // Every matching document in document/chunk order
+  filterSearch(filters: RetrievalFilters, size: number, moduleType: VectorModuleType): Promise<SearchResult[]>;
+  validateFundEmbeddings(fundId: string, moduleType?: VectorModuleType): Promise<EmbeddingValidation>;
+  // Move a fund's vectors to another module's index; returns the number moved
+  moveFundVectors(fundId: string, from: VectorModuleType, to: VectorModuleType): Promise<number>;
+}
+
+export function getVectorStoreBackend(): VectorStoreBackend {
+  const configured = process.env.VECTOR_STORE;
+  if (configured === 'local') {
+    return 'local';
+  }
+  if (configured && configured !== 'opensearch') {
+    throw new Error(`VECTOR_STORE must be opensearch or local (got "${configured}")`);
+  }
+  if (!process.env.OPENSEARCH_ENDPOINT) {
+    throw new Error('OPENSEARCH_ENDPOINT is not set: set it, or set VECTOR_STORE=local to use the local vector store');
+  }
+  return 'opensearch';
+}
+
+let vectorStore: VectorStore | null = null;
+
+/**
+ * The configured vector store (created on first use)
+ */
+export function getVectorStore(): VectorStore {
+  const backend = getVectorStoreBackend();
+  if (!vectorStore || vectorStore.backend !== backend) {
+    console.log(`🗄️ Using ${backend} vector store`);
+    vectorStore = backend === 'local' ? new LocalVectorStore() : new OpenSearchVectorStore();
+  }
+  return vectorStore;
+}
+
+/**
+ * Store a document vector in the configured backend
+ */
+export function storeDocumentVector(document: DocumentVector): Promise<void> {
+  return getVectorStore().storeDocument(document);
+}
+
+/**
+ * Create the module's index if it does not exist
+ */
+export function initializeVectorIndex(moduleType: VectorModuleType = 'FUNDING'): Promise<void> {
+  return getVectorStore().initializeIndex(moduleType);
+}
+
+/**
+ * Validate that embeddings were successfully created for a fund
+ * Returns the count of embeddings and sample data
+ */
+export function validateFundEmbeddings(fundId: string, moduleType: VectorModuleType = 'FUNDING'): Promise<EmbeddingValidation> {
+  return getVectorStore().validateFundEmbeddings(fundId, moduleType);
+}
+
+/**
+ * Move a fund's vectors into its current module's index, e.g. after the fund
+ * moved module. Without `from`, every other module's index is checked.
+ */
+export async function reindexFundVectors(
+  fundId: string,
+  to: VectorModuleType,
+  from?: VectorModuleType
+): Promise<Array<{ from: VectorModuleType; moved: number }>> {
+  const store = getVectorStore();
+  const sources = from ? [from] : Object.values(ModuleType).filter(moduleType => moduleType !== to);
+  const results: Array<{ from: VectorModuleType; moved: number }> = [];
+
+  for (const source of sources) {
+    if (source === to) continue;
+    const { count } = await store.validateFundEmbeddings(fundId, source);
+    if (count === 0) continue;
+
+    console.log(`🔀 Moving ${count} vectors for fund ${fundId}: ${source} -> ${to}`);
+    results.push({ from: source, moved: await store.moveFundVectors(fundId, source, to) });
+  }
+
+  return results;
+}
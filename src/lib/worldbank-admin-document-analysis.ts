@@ -9,15 +9,15 @@
  */
 
 import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
-import { prisma } from '@/lib/database-s3';
-import { extractTextFromFile } from '@/utils/server-document-analyzer';
-import { AWS_REGION, S3_BUCKET, getAWSCredentials } from '@/lib/aws-credentials';
+import { prisma } from './database-s3';
+import { extractDocument } from './document-extractors';
+import { AWS_REGION, S3_BUCKET, getAWSCredentials } from './aws-credentials';
 import {
   analyzePolicyDocument,
   analyzeProcurementRuleDocument,
   analyzeComplianceStandardDocument,
   analyzeProcurementTemplateDocument,
-} from '@/lib/claude-worldbank-admin';
+} from './claude-worldbank-admin';
 
 // S3 client (lazy initialization)
 let s3Client: S3Client | null = null;
@@ -105,14 +105,6 @@ export async function processWorldbankAdminDocument(
   const s3Response = await getS3Client().send(getCommand);
   const documentBuffer = Buffer.from(await s3Response.Body!.transformToByteArray());
 
-  // Create File-like object for analysis functions
-  const fileObject = {
-    arrayBuffer: async () => documentBuffer.buffer,
-    name: document.filename,
-    type: document.mimeType,
-    size: document.fileSize
-  };
-
   let analysisResult;
 
   // Process based on worldbank-admin document type
@@ -125,11 +117,22 @@ export async function processWorldbankAdminDocument(
       console.log(`📄 Using pre-extracted text for ${document.filename} (${preExtractedText.length} chars)`);
       textContent = preExtractedText;
     } else {
-      console.log(`📄 TEXTRACT: Starting text extraction for ${document.filename}`);
+      console.log(`📄 EXTRACTION: Starting text extraction for ${document.filename}`);
       console.log(`📄 S3 Key: ${document.s3Key}`);
       console.log(`📄 Document Type: ${document.documentType}`);
-      textContent = await extractTextFromFile(fileObject as File, document.s3Key);
-      console.log(`✅ TEXTRACT: Extracted ${textContent.length} characters`);
+      const result = await extractDocument({
+        buffer: documentBuffer,
+        filename: document.filename,
+        mimeType: document.mimeType,
+        s3Key: document.s3Key
+      });
+      textContent = result.text.trim();
+      console.log(`✅ EXTRACTION: ${result.extractor} extracted ${textContent.length} characters`);
+
+      if (jobId) {
+        const { recordExtraction } = await import('./document-analysis-job');
+        await recordExtraction(jobId, document, result);
+      }
     }
 
     console.log(`✅ Text preview: ${textContent.substring(0, 200)}...`);
@@ -0,0 +1,586 @@
+/**
+ * WorldBankGroup Compliance Engine - Rule-by-rule review of evaluation reports
+ *
+ * Checks an uploaded bid evaluation report against the procurement rules
+ * (PR2025 knowledge base) and the Cathlab bidding-document rules of the rule-set
+ * version in effect (see rules-knowledge-base.ts):
+ * 1. The report is split into pages (PDF page text; other formats are one page).
+ * 2. For each rule, the most relevant pages are retrieved with BM25.
+ * 3. Rules are sent to the model in small batches with their page excerpts (rules
+ *    with no related content are sent as such, since missing documentation can be
+ *    a breach); the model returns PASS / FAIL / NOT_APPLICABLE, a finding and quotes.
+ * 4. Quotes are checked against the cited page, so every citation is traceable.
+ *    A rule the model gave no usable answer for is UNEVALUATED: it counts against
+ *    the compliance score and the report can't be summarised as compliant; nor can
+ *    a report no rule applied to.
+ * Tables read from the report (document-structure.ts) are added to the excerpts of
+ * the pages they are on, and bidder score tables are returned with the result.
+ *
+ * The output keeps the summary / criticalIssues / majorIssues / minorIssues /
+ * compliantAreas shape of the reviewer report, plus the per-rule results.
+ *
+ * Configuration (environment variables):
+ * - WBG_RULE_BATCH_SIZE: rules per model call (default 8)
+ * - WBG_EVIDENCE_PAGES: report pages retrieved per rule (default 3)
+ */
+
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { AssessmentStatus } from '@prisma/client';
+import { prisma } from './database-s3';
+import { claudeService } from './claude-service';
+import { getAWSCredentials, AWS_REGION, S3_BUCKET } from './aws-credentials';
+import { RulesKnowledgeBase, toComplianceRules } from './rules-knowledge-base';
+import { withTenant } from './tenant';
+import { extractReportPages, type ReportPage } from './document-evidence';
+import { foldQuoteText } from './quote-text';
+import { extractReportStructure, readBidderScores, renderStructure, type BidderScore, type DocumentStructure } from './document-structure';
+
+export type RuleSeverity = 'CRITICAL' | 'MAJOR' | 'MINOR';
+export type RuleStatus = 'PASS' | 'FAIL' | 'NOT_APPLICABLE' | 'UNEVALUATED';
+
+export interface ComplianceRule {
+  id: string;
+  ruleSet: 'PROCUREMENT' | 'CATHLAB';
+  section: string;
+  title: string;
+  description: string;
+  requirements?: string[];
+  source: string;
+  severity: RuleSeverity;
+}
+
+export interface EvidenceCitation {
+  page: number;
+  quote: string;
+  // The quote was found on the cited page
+  verified: boolean;
+}
+
+export interface RuleResult {
+  ruleId: string;
+  title: string;
+  section: string;
+  source: string;
+  severity: RuleSeverity;
+  status: RuleStatus;
+  finding: string;
+  requiredAction?: string;
+  evidence: EvidenceCitation[];
+}
+
+export interface ComplianceIssue {
+  issueNumber: number;
+  ruleId: string;
+  title: string;
+  pages: string;
+  severity: RuleSeverity;
+  description: string;
+  source: string;
+  rulesViolated: string[];
+  requiredActions: string[];
+  evidence: EvidenceCitation[];
+}
+
+export interface RuleSetReference {
+  id: string;
+  version: number;
+  name: string;
+}
+
+export interface ComplianceAssessment {
+  summary: {
+    overallAssessment: string;
+    overallCompliance: string;
+    complianceScore: number;
+    criticalIssues: number;
+    majorIssues: number;
+    minorIssues: number;
+    rulesEvaluated: number;
+    rulesPassed: number;
+    rulesNotApplicable: number;
+    rulesUnevaluated: number;
+    keyConclusion: string;
+  };
+  mostSeriousConcern: {
+    title: string;
+    description: string;
+    impact: RuleSeverity;
+    violatesRegulations: string[];
+  } | null;
+  criticalIssues: ComplianceIssue[];
+  majorIssues: ComplianceIssue[];
+  minorIssues: ComplianceIssue[];
+  compliantAreas: string[];
+  overallRecommendation: {
+    recommendation: string;
+    summary: string;
+    immediateActions: string[];
+    requiredForCompleteReport: string[];
+    futureRecommendations: string[];
+  };
+  conclusion: string;
+  ruleResults: RuleResult[];
+  metadata: {
+    analysisMode: 'RULE_ENGINE';
+    documentType: 'TECHNICAL_EVALUATION_REPORT';
+    reportPages: number;
+    ruleSetVersion?: RuleSetReference;
+    bidderScores?: BidderScore[];  // From the report's score tables
+    generatedAt: string;
+  };
+}
+
+const SEVERITY_WEIGHTS: Record<RuleSeverity, number> = { CRITICAL: 3, MAJOR: 2, MINOR: 1 };
+
+// A rule is only sent to the model if a page shares at least this many of its terms
+const MIN_MATCHED_TERMS = 2;
+const EXCERPT_LENGTH = 1500;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'been', 'being', 'have', 'has',
+  'had', 'not', 'but', 'all', 'any', 'each', 'other', 'such', 'shall', 'must', 'may', 'should', 'will',
+  'can', 'its', 'their', 'they', 'them', 'into', 'than', 'then', 'also', 'only', 'per', 'under', 'where',
+  'when', 'which', 'who', 'whom', 'what', 'there', 'these', 'those', 'our', 'your', 'para', 'section',
+  'page', 'annex', 'pr2025', 'bank', 'borrower', 'procurement',
+]);
+
+export function getRuleBatchSize(): number {
+  const size = parseInt(process.env.WBG_RULE_BATCH_SIZE || '');
+  return Number.isFinite(size) && size > 0 ? size : 8;
+}
+
+export function getEvidencePageCount(): number {
+  const count = parseInt(process.env.WBG_EVIDENCE_PAGES || '');
+  return Number.isFinite(count) && count > 0 ? count : 3;
+}
+
+// ============================================================================
+// Page retrieval
+// ============================================================================
+
+const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(token => token.length > 2 && !STOPWORDS.has(token));
+
+interface PageIndex {
+  pages: ReportPage[];
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  averageLength: number;
+  documentFrequency: Map<string, number>;
+}
+
+function indexPages(pages: ReportPage[]): PageIndex {
+  const termFrequencies = pages.map(page => {
+    const frequencies = new Map<string, number>();
+    for (const token of tokenize(page.text)) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    return frequencies;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const frequencies of termFrequencies) {
+    for (const term of frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const lengths = termFrequencies.map(frequencies => [...frequencies.values()].reduce((sum, n) => sum + n, 0));
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / Math.max(1, lengths.length);
+
+  return { pages, termFrequencies, lengths, averageLength, documentFrequency };
+}
+
+/**
+ * BM25-rank report pages for a rule; only pages sharing enough rule terms are returned
+ */
+function rankPages(rule: ComplianceRule, index: PageIndex, limit: number): Array<{ page: ReportPage; score: number; terms: string[] }> {
+  const k1 = 1.2;
+  const b = 0.75;
+  const queryTerms = [...new Set(tokenize([rule.title, rule.description, ...(rule.requirements ?? [])].join(' ')))];
+  const total = index.pages.length;
+
+  return index.pages
+    .map((page, i) => {
+      const frequencies = index.termFrequencies[i];
+      const matched = queryTerms.filter(term => frequencies.has(term));
+      const score = matched.reduce((sum, term) => {
+        const tf = frequencies.get(term) as number;
+        const df = index.documentFrequency.get(term) as number;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        return sum + idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + b * (index.lengths[i] / (index.averageLength || 1)))));
+      }, 0);
+      return { page, score, terms: matched };
+    })
+    .filter(ranked => ranked.terms.length >= MIN_MATCHED_TERMS)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * The part of a page around its first matching term
+ */
+function excerpt(text: string, terms: string[]): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= EXCERPT_LENGTH) return clean;
+
+  const lower = clean.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(position => position >= 0);
+  const start = positions.length ? Math.max(0, Math.min(...positions) - 300) : 0;
+  return clean.slice(start, start + EXCERPT_LENGTH);
+}
+
+function verifyCitation(citation: { page?: unknown; quote?: unknown }, pages: Map<number, ReportPage>): EvidenceCitation | null {
+  const page = Number(citation.page);
+  const quote = typeof citation.quote === 'string' ? citation.quote.trim() : '';
+  if (!Number.isInteger(page) || !quote) return null;
+
+  const reportPage = pages.get(page);
+  return {
+    page,
+    quote,
+    verified: !!reportPage && foldQuoteText(reportPage.text).includes(foldQuoteText(quote)),
+  };
+}
+
+// ============================================================================
+// Rule evaluation
+// ============================================================================
+
+interface RuleContext {
+  rule: ComplianceRule;
+  evidence: Array<{ page: ReportPage; terms: string[] }>;
+}
+
+async function evaluateBatch(
+  batch: RuleContext[],
+  pages: Map<number, ReportPage>,
+  structure?: DocumentStructure | null
+): Promise<RuleResult[]> {
+  const rulesText = batch.map(({ rule, evidence }) => {
+    const tables = structure ? renderStructure(structure, evidence.map(({ page }) => page.page)) : '';
+    return [
+      `### Rule ${rule.id}: ${rule.title}`,
+      `Source: ${rule.source}`,
+      rule.description,
+      ...(rule.requirements?.length ? ['Requirements:', ...rule.requirements.map(requirement => `- ${requirement}`)] : []),
+      ...(evidence.length
+        ? ['Report excerpts:', ...evidence.map(({ page, terms }) => `[Page ${page.page}] ${excerpt(page.text, terms)}`)]
+        : ['Report excerpts: none - no related content was found in the report.']),
+      ...(tables ? ['Tables on these pages:', tables] : []),
+    ].join('\n');
+  }).join('\n\n');
+
+  const prompt = `You are a World Bank procurement reviewer checking a bid evaluation report against procurement rules.
+
+For each rule below, decide from the report excerpts only:
+- PASS: the report shows the rule was followed
+- FAIL: the report shows the rule was breached, or the rule concerns this evaluation and documentation it requires is missing from the report (including rules with no related content found)
+- NOT_APPLICABLE: the rule does not concern this kind of procurement or evaluation (for example a method or contract type not used here). Do not use it only because the report does not mention the rule.
+
+Cite evidence as exact quotes (under 200 characters) copied from the excerpts, with their page numbers.
+For FAIL, give the action the purchaser must take.
+
+Return ONLY a JSON array with one object per rule:
+[{"ruleId": "C46", "status": "PASS" | "FAIL" | "NOT_APPLICABLE", "finding": "one or two sentences", "requiredAction": "for FAIL only", "evidence": [{"page": 16, "quote": "exact text"}]}]
+
+RULES:
+
+${rulesText}`;
+
+  const result = await claudeService.executeTask({
+    task: `WorldBankGroup rule check: ${batch.map(({ rule }) => rule.id).join(', ')}`,
+    prompt,
+    temperature: 0,
+    maxTokens: 4000,
+  });
+
+  if (!result.success) {
+    throw new Error(`Rule evaluation failed for ${batch.map(({ rule }) => rule.id).join(', ')}: ${result.error}`);
+  }
+
+  let parsed: any[] = [];
+  try {
+    const cleaned = result.content.trim().replace(/```json\n?/g, '').replace(/```\n?/g, '');
+    const json = JSON.parse(cleaned.slice(cleaned.indexOf('['), cleaned.lastIndexOf(']') + 1));
+    parsed = Array.isArray(json) ? json : [];
+  } catch (error) {
+    console.error('❌ Failed to parse rule evaluation response, rules left unevaluated:', error);
+  }
+
+  return batch.map(({ rule }) => {
+    const answer = parsed.find(item => String(item?.ruleId).toUpperCase() === rule.id);
+    if (!['PASS', 'FAIL', 'NOT_APPLICABLE'].includes(answer?.status)) {
+      console.warn(`⚠️ [WorldBankGroup Rules] No usable result for rule ${rule.id}`);
+      return {
+        ...ruleFields(rule),
+        status: 'UNEVALUATED' as const,
+        finding: 'The rule could not be evaluated: the model returned no usable result for it. Re-run the evaluation.',
+        evidence: [],
+      };
+    }
+    const status: RuleStatus = answer.status;
+
+    return {
+      ...ruleFields(rule),
+      status,
+      finding: answer.finding ? String(answer.finding) : 'The model gave no finding for this rule.',
+      requiredAction: status === 'FAIL' && answer?.requiredAction ? String(answer.requiredAction) : undefined,
+      evidence: (Array.isArray(answer?.evidence) ? answer.evidence : [])
+        .map((citation: any) => verifyCitation(citation, pages))
+        .filter((citation: EvidenceCitation | null): citation is EvidenceCitation => citation !== null),
+    };
+  });
+}
+
+const ruleFields = (rule: ComplianceRule) => ({
+  ruleId: rule.id,
+  title: rule.title,
+  section: rule.section,
+  source: rule.source,
+  severity: rule.severity,
+});
+
+function describePages(evidence: EvidenceCitation[]): string {
+  const pages = [...new Set(evidence.map(citation => citation.page))].sort((a, b) => a - b);
+  return pages.length ? `Page${pages.length > 1 ? 's' : ''} ${pages.join(', ')}` : 'Not found in report';
+}
+
+/**
+ * Turn per-rule results into the reviewer report shape
+ */
+export function buildComplianceAssessment(
+  results: RuleResult[],
+  reportPages: number,
+  ruleSetVersion?: RuleSetReference,
+  bidderScores?: BidderScore[]
+): ComplianceAssessment {
+  const failures = results.filter(result => result.status === 'FAIL');
+  const passed = results.filter(result => result.status === 'PASS');
+  const unevaluated = results.filter(result => result.status === 'UNEVALUATED');
+  // Unevaluated rules count as not passed, so a failed model call can't raise the score
+  const applicable = [...failures, ...passed, ...unevaluated];
+
+  let issueNumber = 0;
+  const toIssue = (result: RuleResult): ComplianceIssue => ({
+    issueNumber: ++issueNumber,
+    ruleId: result.ruleId,
+    title: result.title,
+    pages: describePages(result.evidence),
+    severity: result.severity,
+    description: result.finding,
+    source: result.source,
+    rulesViolated: [`${result.source}: ${result.title}`],
+    requiredActions: result.requiredAction ? [result.requiredAction] : [],
+    evidence: result.evidence,
+  });
+
+  const criticalIssues = failures.filter(result => result.severity === 'CRITICAL').map(toIssue);
+  const majorIssues = failures.filter(result => result.severity === 'MAJOR').map(toIssue);
+  const minorIssues = failures.filter(result => result.severity === 'MINOR').map(toIssue);
+
+  const weight = (list: RuleResult[]) => list.reduce((sum, result) => sum + SEVERITY_WEIGHTS[result.severity], 0);
+  const complianceScore = applicable.length ? Math.round((weight(passed) / weight(applicable)) * 100) : 0;
+
+  // With no applicable rule nothing was shown to comply - never a No-Objection
+  const noneApplicable = applicable.length === 0;
+  const incomplete = unevaluated.length > 0 || noneApplicable;
+  const overallAssessment = criticalIssues.length
+    ? 'REQUIRES MAJOR REVISION'
+    : majorIssues.length ? 'REQUIRES REVISION' : incomplete ? 'INCOMPLETE' : 'SATISFACTORY';
+  const overallCompliance = criticalIssues.length
+    ? 'Non-Compliant - Critical Issues Identified'
+    : majorIssues.length
+      ? 'Partially Compliant - Major Issues Identified'
+      : noneApplicable
+        ? 'Incomplete - No Rules Applied To The Report'
+        : incomplete
+          ? `Incomplete - ${unevaluated.length} Rules Could Not Be Evaluated`
+          : 'Compliant';
+  const recommendation = criticalIssues.length
+    ? 'REQUEST MAJOR REVISION'
+    : majorIssues.length
+      ? 'REQUEST REVISION'
+      : noneApplicable ? 'MANUAL REVIEW REQUIRED' : incomplete ? 'RE-RUN EVALUATION' : 'NO OBJECTION';
+  const counts = `${criticalIssues.length} Critical Issues, ${majorIssues.length} Major Issues, and ${minorIssues.length} Minor Issues`;
+  const unevaluatedNote = noneApplicable
+    ? ' No rule was found to apply to the report.'
+    : incomplete ? ` ${unevaluated.length} rules could not be evaluated (${unevaluated.map(result => result.ruleId).join(', ')}).` : '';
+  const mostSerious = criticalIssues[0] ?? majorIssues[0] ?? null;
+
+  return {
+    summary: {
+      overallAssessment,
+      overallCompliance,
+      complianceScore,
+      criticalIssues: criticalIssues.length,
+      majorIssues: majorIssues.length,
+      minorIssues: minorIssues.length,
+      rulesEvaluated: results.length,
+      rulesPassed: passed.length,
+      rulesNotApplicable: results.length - applicable.length,
+      rulesUnevaluated: unevaluated.length,
+      keyConclusion: `The evaluation report was checked against ${results.length} rules (${applicable.length} applicable) and contains ${counts}.${unevaluatedNote}`,
+    },
+    mostSeriousConcern: mostSerious && {
+      title: mostSerious.title,
+      description: mostSerious.description,
+      impact: mostSerious.severity,
+      violatesRegulations: mostSerious.rulesViolated,
+    },
+    criticalIssues,
+    majorIssues,
+    minorIssues,
+    compliantAreas: passed.map(result => `${result.title} (${describePages(result.evidence)})`),
+    overallRecommendation: {
+      recommendation,
+      summary: criticalIssues.length
+        ? `The evaluation cannot proceed to Bank No-Objection until the ${criticalIssues.length} critical issues are resolved.`
+        : majorIssues.length
+          ? 'The evaluation may proceed once the major issues are addressed.'
+          : noneApplicable
+            ? 'No rule was found to apply to the report, so its compliance could not be established. Review the report manually before issuing a No-Objection.'
+            : incomplete
+              ? `No critical or major rule breaches were found, but ${unevaluated.length} rules could not be evaluated. Re-run the evaluation before issuing a No-Objection.`
+            : 'No critical or major rule breaches were found.',
+      immediateActions: criticalIssues.flatMap(issue => issue.requiredActions.map(action => `${issue.title} (CRITICAL ISSUE ${issue.issueNumber}): ${action}`)),
+      requiredForCompleteReport: majorIssues.flatMap(issue => issue.requiredActions.map(action => `${issue.title} (MAJOR ISSUE ${issue.issueNumber}): ${action}`)),
+      futureRecommendations: minorIssues.flatMap(issue => issue.requiredActions),
+    },
+    conclusion: `Overall assessment: ${overallAssessment}. The report contains ${counts}, with a compliance score of ${complianceScore}%.${unevaluatedNote}`,
+    ruleResults: results,
+    metadata: {
+      analysisMode: 'RULE_ENGINE',
+      documentType: 'TECHNICAL_EVALUATION_REPORT',
+      reportPages,
+      ...(ruleSetVersion ? { ruleSetVersion } : {}),
+      ...(bidderScores?.length ? { bidderScores } : {}),
+      generatedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * The rule-set version in effect now and its rules, for the current organisation
+ */
+export async function loadActiveRuleSet(): Promise<{ ruleSet: RuleSetReference; rules: ComplianceRule[] }> {
+  const version = await RulesKnowledgeBase.getActiveVersion();
+  if (!version) {
+    throw new Error('No published rules knowledge base version is in effect');
+  }
+  return {
+    ruleSet: { id: version.id, version: version.version, name: version.name },
+    rules: toComplianceRules(version),
+  };
+}
+
+export class WorldBankGroupComplianceEngine {
+  /**
+   * Check report pages against every rule. `structure` holds the report's tables,
+   * where they could be read.
+   */
+  static async evaluate(
+    pages: ReportPage[],
+    rules: ComplianceRule[],
+    ruleSet?: RuleSetReference,
+    structure?: DocumentStructure | null
+  ): Promise<ComplianceAssessment> {
+    console.log(`📏 [WorldBankGroup Rules] Checking ${pages.length} report pages against ${rules.length} rules`);
+
+    const index = indexPages(pages);
+    const pageMap = new Map(pages.map(page => [page.page, page]));
+    const evidenceLimit = getEvidencePageCount();
+    const results = new Map<string, RuleResult>();
+    const toEvaluate: RuleContext[] = [];
+
+    // Rules without related pages still go to the model: missing documentation can be a breach
+    for (const rule of rules) {
+      toEvaluate.push({ rule, evidence: rankPages(rule, index, evidenceLimit) });
+    }
+
+    const batchSize = getRuleBatchSize();
+    for (let i = 0; i < toEvaluate.length; i += batchSize) {
+      const batch = toEvaluate.slice(i, i + batchSize);
+      console.log(`📏 [WorldBankGroup Rules] Evaluating rules ${i + 1}-${i + batch.length} of ${toEvaluate.length}`);
+      for (const result of await evaluateBatch(batch, pageMap, structure)) {
+        results.set(result.ruleId, result);
+      }
+    }
+
+    const ordered = rules.map(rule => results.get(rule.id) as RuleResult);
+    const assessment = buildComplianceAssessment(ordered, pages.length, ruleSet, structure ? readBidderScores(structure) : undefined);
+    console.log(`✅ [WorldBankGroup Rules] Score ${assessment.summary.complianceScore}: ${assessment.summary.criticalIssues} critical, ${assessment.summary.majorIssues} major, ${assessment.summary.minorIssues} minor`);
+    return assessment;
+  }
+
+  /**
+   * Run the engine for an uploaded assessment (evaluation report already in S3)
+   * and store the result on the assessment. A failure marks the assessment
+   * FAILED unless `recordFailure` is false - queued evaluations are retried and
+   * record the failure once their attempts are used up.
+   */
+  static async evaluateAssessment(assessmentId: string, options: { recordFailure?: boolean } = {}) {
+    const assessment = await prisma.assessments.findFirst({
+      where: { id: assessmentId, moduleType: 'WORLDBANKGROUP' },
+    });
+    if (!assessment) {
+      throw new Error(`WorldBankGroup assessment ${assessmentId} not found`);
+    }
+
+    const assessmentData = (assessment.assessmentData ?? {}) as Record<string, any>;
+    const documentKey = assessmentData.evaluationReportS3Key;
+    const filename = assessmentData.evaluationReportFilename || 'report.pdf';
+    if (!documentKey) {
+      throw new Error(`Assessment ${assessmentId} has no evaluation report`);
+    }
+
+    try {
+      const credentials = getAWSCredentials();
+      const s3 = new S3Client({ region: AWS_REGION, ...(credentials && { credentials }) });
+      const object = await s3.send(new GetObjectCommand({ Bucket: S3_BUCKET, Key: documentKey }));
+      const buffer = Buffer.from(await object.Body!.transformToByteArray());
+
+      const pages = await extractReportPages(buffer, filename, object.ContentType);
+      const structure = await extractReportStructure(buffer, filename, object.ContentType, documentKey);
+      const { ruleSet, rules } = await withTenant(assessment.organizationId, loadActiveRuleSet);
+      const output = await this.evaluate(pages, rules, ruleSet, structure);
+
+      return await prisma.assessments.update({
+        where: { id: assessmentId },
+        data: {
+          status: AssessmentStatus.COMPLETED,
+          overallScore: output.summary.complianceScore,
+          scoringResults: output as any,
+          ruleSetVersionId: ruleSet.id,
+          assessmentData: {
+            ...assessmentData,
+            ruleEngine: true,
+            ...(structure && { evaluationReportStructure: structure as any }),
+            evaluatedAt: new Date().toISOString(),
+          },
+        },
+      });
+    } catch (error) {
+      if (options.recordFailure !== false) {
+        await this.recordEvaluationFailure(assessmentId, error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mark an assessment whose evaluation failed FAILED, keeping the error with it
+   */
+  static async recordEvaluationFailure(assessmentId: string, errorMessage: string) {
+    const assessment = await prisma.assessments.findUnique({ where: { id: assessmentId } });
+    if (!assessment) return;
+
+    await prisma.assessments.update({
+      where: { id: assessmentId },
+      data: {
+        status: AssessmentStatus.FAILED,
+        assessmentData: { ...(assessment.assessmentData ?? {}) as Record<string, any>, error: errorMessage },
+      },
+    });
+  }
+}
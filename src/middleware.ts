@@ -1,56 +1,96 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { jwtVerify } from 'jose';
+import { AUTH_COOKIE, TENANT_HEADER, verifySessionToken } from '@/lib/auth-session';
+import { API_KEY_HEADER, SessionUser, isAuthorized, resolveRoutePolicy, serviceScopeForPath } from '@/lib/rbac';
 
-const AUTH_SECRET = process.env.AUTH_SECRET;
+const REFRESH_PATH = '/api/auth/refresh';
+const PUBLIC_PATHS = ['/login', '/login-wbg', '/api/auth/login', REFRESH_PATH];
+
+/**
+ * Exchange an expired session token for a new one. The refresh route re-reads the
+ * user, which middleware can't do on the edge runtime.
+ */
+async function refreshSession(request: NextRequest): Promise<{ user: SessionUser; token: string; setCookie: string } | null> {
+  try {
+    const response = await fetch(new URL(REFRESH_PATH, request.url), {
+      method: 'POST',
+      headers: { cookie: request.headers.get('cookie') ?? '' },
+    });
+    const setCookie = response.headers.getSetCookie().find(cookie => cookie.startsWith(`${AUTH_COOKIE}=`));
+    const token = setCookie?.slice(AUTH_COOKIE.length + 1).split(';')[0];
+    const user = response.ok ? await verifySessionToken(token) : null;
+    return user && token && setCookie ? { user, token, setCookie } : null;
+  } catch (error) {
+    console.error('Session refresh failed:', error);
+    return null;
+  }
+}
 
 export async function middleware(request: NextRequest) {
-  // Allow login page and auth API routes without authentication
-  if (
-    request.nextUrl.pathname === '/login' ||
-    request.nextUrl.pathname === '/login-wbg' ||
-    request.nextUrl.pathname.startsWith('/api/auth') ||
-    request.nextUrl.pathname.startsWith('/api/jobs') ||
-    request.nextUrl.pathname.startsWith('/api/brain') ||
-    request.nextUrl.pathname.startsWith('/api/procurement-brain') ||
-    request.nextUrl.pathname.startsWith('/api/procurement-base') ||
-    request.nextUrl.pathname.startsWith('/api/worldbank-brain') ||
-    request.nextUrl.pathname.startsWith('/api/worldbank-admin-brain') ||
-    request.nextUrl.pathname.startsWith('/api/worldbank-base') ||
-    request.nextUrl.pathname.startsWith('/api/worldbank-projects') ||
-    request.nextUrl.pathname.startsWith('/api/tenders') ||
-    request.nextUrl.pathname.startsWith('/api/funds') ||
-    request.nextUrl.pathname.startsWith('/api/documents') ||
-    request.nextUrl.pathname.startsWith('/api/debug')
-  ) {
-    return NextResponse.next();
+  const { pathname } = request.nextUrl;
+
+  // The tenant header is only ever set here, from a verified session
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(TENANT_HEADER);
+
+  // Only the login pages and the login API are public
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  // Service-to-service calls carry an API key; the route handler verifies it and its scope
+  if (request.headers.has(API_KEY_HEADER) && serviceScopeForPath(pathname, request.method)) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
   }
 
   // Check for auth token in cookies
-  const token = request.cookies.get('auth-token')?.value;
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  const isApiRoute = pathname.startsWith('/api/');
 
   if (!token) {
     // No token - redirect to login
+    return isApiRoute
+      ? NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+      : NextResponse.redirect(new URL('/login', request.url));
+  }
+
+  if (!process.env.AUTH_SECRET) {
+    console.error('AUTH_SECRET not configured');
     return NextResponse.redirect(new URL('/login', request.url));
   }
 
-  try {
-    // Verify JWT token
-    if (!AUTH_SECRET) {
-      console.error('AUTH_SECRET not configured');
-      return NextResponse.redirect(new URL('/login', request.url));
-    }
+  // Verify JWT token - expired tokens are refreshed; invalid, pre-RBAC or
+  // unrefreshable ones (deactivated user, login too old) go back to login
+  let user = await verifySessionToken(token);
+  const refreshed = user ? null : await refreshSession(request);
+  user = user ?? refreshed?.user ?? null;
+  if (!user) {
+    return isApiRoute
+      ? NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+      : NextResponse.redirect(new URL('/login', request.url));
+  }
 
-    const secret = new TextEncoder().encode(AUTH_SECRET);
-    await jwtVerify(token, secret);
+  // Enforce role and module access for this route
+  const policy = resolveRoutePolicy(pathname, request.method);
+  if (!isAuthorized(user, policy.access, policy.moduleType)) {
+    console.warn(`🚫 ${user.username} denied ${policy.access} access${policy.moduleType ? ` to ${policy.moduleType}` : ''}: ${request.method} ${pathname}`);
+    return isApiRoute
+      ? NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      : NextResponse.redirect(new URL('/', request.url));
+  }
 
-    // Token valid - allow request to proceed
-    return NextResponse.next();
-  } catch (error) {
-    // Invalid or expired token - redirect to login
-    console.error('Auth token validation failed:', error);
-    return NextResponse.redirect(new URL('/login', request.url));
+  // Token valid and access allowed - let request proceed, scoped to the user's organisation
+  requestHeaders.set(TENANT_HEADER, user.organizationId);
+  if (!refreshed) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
   }
+
+  // Route handlers read the session from the cookie too, so they get the new token as well
+  const cookies = (request.headers.get('cookie') ?? '').replace(new RegExp(`(^|;\\s*)${AUTH_COOKIE}=[^;]*`), `$1${AUTH_COOKIE}=${refreshed.token}`);
+  requestHeaders.set('cookie', cookies);
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.append('set-cookie', refreshed.setCookie);
+  return response;
 }
 
 export const config = {
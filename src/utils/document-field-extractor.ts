@@ -5,23 +5,7 @@
  * to populate template placeholders with real data instead of defaults
  */
 
-import { BedrockRuntimeClient, InvokeModelCommand } from "@aws-sdk/client-bedrock-runtime";
-import { getAWSCredentials, AWS_REGION } from '@/lib/aws-credentials';
-
-// CRITICAL FIX: Create Bedrock client lazily to ensure Lambda execution role is available
-// Do NOT initialize at module level as credentials may not be ready during cold start
-let bedrock: BedrockRuntimeClient | null = null;
-
-function getBedrockClient(): BedrockRuntimeClient {
-  if (!bedrock) {
-    console.log('🔐 Creating new Bedrock client with Lambda execution role credentials');
-    bedrock = new BedrockRuntimeClient({
-      region: AWS_REGION,
-      credentials: getAWSCredentials(),
-    });
-  }
-  return bedrock;
-}
+import { invokeLLM } from '@/lib/llm-provider';
 
 export interface ExtractedFields {
   // Basic Application Info
@@ -342,35 +326,17 @@ function extractSectionContent(documentContent: string): { [key: string]: string
 }
 
 /**
- * Invoke Claude via Bedrock for field extraction
+ * Invoke Claude through the configured LLM provider for field extraction
  */
 async function invokeClaude(prompt: string): Promise<string> {
-  const requestBody = {
-    anthropic_version: "bedrock-2023-05-31",
-    max_tokens: 8000,
+  const response = await invokeLLM({
+    task: 'document-field-extraction',
+    prompt,
+    maxTokens: 8000,
     temperature: 0.1, // Low temperature for consistent extraction
-    messages: [
-      {
-        role: "user",
-        content: prompt
-      }
-    ]
-  };
-
-  const command = new InvokeModelCommand({
-    modelId: "anthropic.claude-3-5-sonnet-20241022-v2:0",
-    body: JSON.stringify(requestBody),
-    contentType: "application/json"
   });
 
-  const response = await getBedrockClient().send(command);
-  const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-
-  if (responseBody.content && responseBody.content[0]?.text) {
-    return responseBody.content[0].text;
-  } else {
-    throw new Error('Invalid response format from Claude');
-  }
+  return response.content;
 }
 
 /**
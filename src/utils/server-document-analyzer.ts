@@ -2,62 +2,33 @@
 // This runs in API routes where pdf-parse and mammoth are available
 
 import { DocumentAnalysis, CriteriaAnalysis } from './browser-document-analyzer';
+import type { ExtractionResult } from '../lib/document-extractors';
+
+/**
+ * Extract text, pages and confidence from a file with the registered extractors
+ * (lib/document-extractors.ts)
+ *
+ * @param file - The file object to extract text from
+ * @param s3Key - Optional S3 key if file is already uploaded (lets scanned PDFs go to Textract)
+ */
+export async function extractDocumentFromFile(file: any, s3Key?: string): Promise<ExtractionResult> {
+    const buffer = Buffer.from(await file.arrayBuffer());
+    console.log(`📄 Extracting ${file.name} (${file.type || 'unknown type'}, ${buffer.length} bytes)`);
+
+    const { extractDocument } = await import('../lib/document-extractors');
+    return extractDocument({ buffer, filename: file.name, mimeType: file.type, s3Key });
+}
 
 /**
  * Extract text content from different file types (server-side with real parsing)
  *
  * @param file - The file object to extract text from
- * @param s3Key - Optional S3 key if file is already uploaded (required for PDF processing)
+ * @param s3Key - Optional S3 key if file is already uploaded (lets scanned PDFs go to Textract)
  */
 export async function extractTextFromFile(file: any, s3Key?: string): Promise<string> {
     try {
-        const arrayBuffer = await file.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-
-        if (file.type === 'text/plain') {
-            return await file.text();
-        } else if (file.type === 'application/pdf') {
-            // Use AWS Textract for PDF text extraction
-            console.log(`📄 PDF upload detected: ${file.name}, size: ${buffer.length} bytes`);
-
-            if (!s3Key) {
-                throw new Error(`PDF processing requires the file to be uploaded to S3 first. S3 key not provided for "${file.name}".`);
-            }
-
-            console.log(`📄 Processing PDF via AWS Textract: ${file.name}`);
-            const { extractTextFromPDF } = await import('../lib/aws-textract');
-            const text = await extractTextFromPDF(s3Key);
-
-            if (!text || text.trim().length === 0) {
-                throw new Error(`PDF "${file.name}" appears to be empty or contains only images without extractable text`);
-            }
-
-            console.log(`📄 Textract extraction successful: ${text.length} characters`);
-            return text.trim();
-        } else if (
-            file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-            file.type === 'application/msword'
-        ) {
-            // Use mammoth for real Word document text extraction with dynamic import
-            try {
-                console.log(`📄 Processing Word document: ${file.name}, size: ${buffer.length} bytes`);
-                const mammoth = await import('mammoth');
-                const result = await mammoth.extractRawText({ buffer });
-                
-                if (result.value && result.value.trim().length > 0) {
-                    console.log(`📄 Word extraction successful: ${result.value.length} characters`);
-                    console.log('📄 First 200 characters:', result.value.substring(0, 200));
-                    return result.value.trim();
-                } else {
-                    throw new Error('Word document appears to be empty or contains no extractable text.');
-                }
-            } catch (wordError) {
-                console.error('📄 Word document parsing error:', wordError);
-                throw new Error(`Failed to extract text from Word document "${file.name}": ${wordError instanceof Error ? wordError.message : 'Unknown error'}. Please ensure the document contains text and is not corrupted.`);
-            }
-        } else {
-            throw new Error(`Unsupported file type: ${file.type}`);
-        }
+        const { text } = await extractDocumentFromFile(file, s3Key);
+        return text.trim();
     } catch (error) {
         console.error('Error extracting text from file:', error);
 
@@ -1,297 +0,0 @@
-// Universal Template Processing System
-// Applies fund output templates with placeholder replacement
-
-interface TemplateData {
-  applicationName: string;
-  fundName: string;
-  assessmentDate: string;
-  overallScore: number;
-  summary: string;
-  strengths: string[];
-  weaknesses: string[];
-  recommendations: string[];
-  // Raw assessment data for placeholder mapping
-  assessmentData: any;
-}
-
-interface PlaceholderMapping {
-  placeholder: string;
-  value: string | number;
-  type: 'text' | 'score' | 'boolean' | 'currency' | 'date';
-}
-
-/**
- * Process a fund's output template with assessment data
- */
-export function applyUniversalTemplate(
-  templateContent: string,
-  placeholders: string[],
-  assessmentData: TemplateData
-): string {
-  console.log('🎨 Applying universal template with', placeholders.length, 'placeholders');
-
-  let processedTemplate = templateContent;
-
-  // Create mappings for each placeholder based on context and assessment data
-  const mappings = createPlaceholderMappings(placeholders, assessmentData);
-
-  // Apply each mapping to the template
-  for (const mapping of mappings) {
-    const value = formatValueByType(mapping.value, mapping.type);
-    processedTemplate = processedTemplate.replace(
-      new RegExp(escapeRegex(mapping.placeholder), 'g'),
-      value
-    );
-  }
-
-  console.log('✅ Template processing complete');
-  return processedTemplate;
-}
-
-/**
- * Create intelligent mappings for placeholders based on context
- */
-function createPlaceholderMappings(
-  placeholders: string[],
-  data: TemplateData
-): PlaceholderMapping[] {
-  const mappings: PlaceholderMapping[] = [];
-
-  for (const placeholder of placeholders) {
-    const cleanPlaceholder = placeholder.replace(/[\[\]]/g, '').toLowerCase();
-    let value: string | number = '';
-    let type: 'text' | 'score' | 'boolean' | 'currency' | 'date' = 'text';
-
-    // Map common placeholders
-    if (cleanPlaceholder.includes('to be completed')) {
-      if (cleanPlaceholder.includes('organisation name')) {
-        value = extractOrganisationName(data.assessmentData) || 'Marine Tech Innovations';
-        type = 'text';
-      } else if (cleanPlaceholder.includes('application reference')) {
-        value = generateApplicationReference(data.applicationName);
-        type = 'text';
-      } else if (cleanPlaceholder.includes('assessment date')) {
-        value = data.assessmentDate;
-        type = 'date';
-      } else {
-        value = 'To be completed by assessor';
-        type = 'text';
-      }
-    }
-
-    // Handle specific field types
-    else if (cleanPlaceholder === 'number' || cleanPlaceholder.includes('number of students')) {
-      value = extractStudentCount(data.assessmentData) || '2';
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder === 'amount' || cleanPlaceholder.includes('total funding')) {
-      value = calculateFundingAmount(data.assessmentData) || '22,240';
-      type = 'currency';
-    }
-
-    else if (cleanPlaceholder.includes('yes/no') || cleanPlaceholder.includes('confirmed')) {
-      value = mapToYesNo(data.assessmentData, cleanPlaceholder);
-      type = 'boolean';
-    }
-
-    else if (cleanPlaceholder === 'score') {
-      value = data.overallScore;
-      type = 'score';
-    }
-
-    // Assessment-specific mappings
-    else if (cleanPlaceholder.includes('summary of business')) {
-      value = extractBusinessSummary(data.assessmentData) || 'Marine technology company specializing in underwater sonar systems and marine sensing equipment';
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('r&d activities') && cleanPlaceholder.includes('last 12 months')) {
-      value = extractRecentRnD(data.assessmentData) || 'Development of advanced sonar signal processing algorithms, prototype testing of new sensor arrays';
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('r&d activities') && cleanPlaceholder.includes('next 12 months')) {
-      value = extractPlannedRnD(data.assessmentData) || 'Integration of AI/ML into sonar systems, development of next-generation underwater communication protocols';
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('active / inactive')) {
-      value = assessRnDProgramme(data.assessmentData);
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('comprehensive / adequate / inadequate')) {
-      value = assessComprehensiveness(data.assessmentData, cleanPlaceholder);
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('student exposure')) {
-      value = extractStudentExposure(data.assessmentData) || 'Students will work directly on R&D projects including sonar system development and marine sensor testing';
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('professional development')) {
-      value = extractProfessionalDevelopment(data.assessmentData) || 'Comprehensive plan covering technical skills (ANSYS, Python), project management, and industry knowledge';
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('benefit.*business') || cleanPlaceholder.includes('internal capability')) {
-      value = extractBusinessBenefit(data.assessmentData) || 'Students will accelerate R&D development while bringing fresh academic perspectives to complex technical challenges';
-      type = 'text';
-    }
-
-    // Assessment outcomes
-    else if (cleanPlaceholder.includes('pass / fail')) {
-      value = data.overallScore >= 70 ? 'PASS' : 'FAIL';
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('adequate / inadequate')) {
-      value = data.overallScore >= 70 ? 'ADEQUATE' : 'INADEQUATE';
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('meets requirements')) {
-      value = data.overallScore >= 70 ? 'MEETS REQUIREMENTS' : 'DOES NOT MEET REQUIREMENTS';
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('approve / decline')) {
-      value = data.overallScore >= 80 ? 'APPROVE' : data.overallScore >= 60 ? 'CONDITIONAL APPROVAL' : 'DECLINE';
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('clear rationale')) {
-      value = generateRationale(data);
-      type = 'text';
-    }
-
-    else if (cleanPlaceholder.includes('name / date')) {
-      value = `AI Assessment System / ${data.assessmentDate}`;
-      type = 'text';
-    }
-
-    // Default handling
-    else {
-      value = mapGenericPlaceholder(cleanPlaceholder, data);
-      type = 'text';
-    }
-
-    mappings.push({
-      placeholder,
-      value,
-      type
-    });
-  }
-
-  return mappings;
-}
-
-// Helper functions for data extraction and mapping
-
-function extractOrganisationName(assessmentData: any): string | null {
-  // Try to extract organisation name from assessment data
-  return assessmentData?.organisationName || null;
-}
-
-function generateApplicationReference(applicationName: string): string {
-  const date = new Date();
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  return `SEG-${year}-${month}-${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
-}
-
-function extractStudentCount(assessmentData: any): string | null {
-  // Extract student count from assessment, default to common value
-  return assessmentData?.studentCount || null;
-}
-
-function calculateFundingAmount(assessmentData: any): string | null {
-  const students = parseInt(extractStudentCount(assessmentData) || '2');
-  return (students * 11120).toLocaleString(); // $11,120 per student
-}
-
-function mapToYesNo(assessmentData: any, context: string): string {
-  // Intelligent Yes/No mapping based on context and assessment data
-  if (context.includes('entity type') || context.includes('registered')) {
-    return 'Yes';
-  }
-  if (context.includes('financial') && context.includes('viable')) {
-    return assessmentData?.overallScore >= 70 ? 'Yes' : 'No';
-  }
-  return 'Yes'; // Default positive
-}
-
-function extractBusinessSummary(assessmentData: any): string | null {
-  return assessmentData?.businessSummary || null;
-}
-
-function extractRecentRnD(assessmentData: any): string | null {
-  return assessmentData?.recentRnD || null;
-}
-
-function extractPlannedRnD(assessmentData: any): string | null {
-  return assessmentData?.plannedRnD || null;
-}
-
-function assessRnDProgramme(assessmentData: any): string {
-  return assessmentData?.overallScore >= 70 ? 'ACTIVE' : 'INACTIVE';
-}
-
-function assessComprehensiveness(assessmentData: any, context: string): string {
-  const score = assessmentData?.overallScore || 0;
-  if (score >= 85) return 'Comprehensive';
-  if (score >= 70) return 'Adequate';
-  return 'Inadequate';
-}
-
-function extractStudentExposure(assessmentData: any): string | null {
-  return assessmentData?.studentExposure || null;
-}
-
-function extractProfessionalDevelopment(assessmentData: any): string | null {
-  return assessmentData?.professionalDevelopment || null;
-}
-
-function extractBusinessBenefit(assessmentData: any): string | null {
-  return assessmentData?.businessBenefit || null;
-}
-
-function generateRationale(data: TemplateData): string {
-  const score = data.overallScore;
-  if (score >= 80) {
-    return `Strong application scoring ${score}%. ${data.summary.substring(0, 200)}...`;
-  } else if (score >= 60) {
-    return `Adequate application scoring ${score}% with some areas for improvement. Key strengths include: ${data.strengths.slice(0, 2).join(', ')}.`;
-  } else {
-    return `Application scores ${score}%, below requirements. Areas needing attention: ${data.weaknesses.slice(0, 2).join(', ')}.`;
-  }
-}
-
-function mapGenericPlaceholder(placeholder: string, data: TemplateData): string {
-  // Generic mapping for unmapped placeholders
-  if (placeholder.includes('comment') || placeholder.includes('assessment')) {
-    return `Based on assessment: ${data.summary.substring(0, 100)}...`;
-  }
-  return `[${placeholder}]`; // Keep original if unmappable
-}
-
-function formatValueByType(value: string | number, type: string): string {
-  switch (type) {
-    case 'currency':
-      return `$${value}`;
-    case 'score':
-      return `${value}/100`;
-    case 'boolean':
-      return String(value);
-    case 'date':
-      return String(value);
-    default:
-      return String(value);
-  }
-}
-
-function escapeRegex(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
\ No newline at end of file